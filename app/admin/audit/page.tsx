@@ -0,0 +1,469 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Loader2, Shield, History, Download, Eye, ChevronLeft, ChevronRight } from 'lucide-react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+
+interface AuditEvent {
+  id: string
+  actorId: string | null
+  actorEmail: string | null
+  action: string
+  entityType: string
+  entityId: string
+  before: unknown
+  after: unknown
+  metadata: Record<string, unknown> | null
+  createdAt: string
+}
+
+interface User {
+  id: string
+  name: string | null
+  email: string
+}
+
+const ENTITY_TYPES = [
+  { value: 'TIME_ENTRY', label: 'Time Entry' },
+  { value: 'RATE', label: 'Rate' },
+  { value: 'BUDGET', label: 'Budget' },
+  { value: 'PERMISSION', label: 'Permission' },
+  { value: 'TIMESHEET_PERIOD', label: 'Timesheet Period' },
+  { value: 'TIMESHEET_SUBMISSION', label: 'Timesheet Submission' },
+  { value: 'SETTINGS', label: 'Settings' },
+  { value: 'CLIENT', label: 'Client' },
+  { value: 'BILL_RATE', label: 'Bill Rate' },
+  { value: 'INVOICE', label: 'Invoice' },
+  { value: 'PROJECT', label: 'Project' },
+  { value: 'TASK', label: 'Task' },
+  { value: 'TAG', label: 'Tag' },
+  { value: 'CUSTOM_FIELD', label: 'Custom Field' },
+  { value: 'ENTRY_IMPORT', label: 'Entry Import' },
+  { value: 'WORK_SCHEDULE', label: 'Work Schedule' },
+  { value: 'LEAVE_TYPE', label: 'Leave Type' },
+  { value: 'LEAVE_REQUEST', label: 'Leave Request' },
+  { value: 'LEAVE_BALANCE', label: 'Leave Balance' },
+  { value: 'HOLIDAY_CALENDAR', label: 'Holiday Calendar' },
+  { value: 'OVERTIME_POLICY', label: 'Overtime Policy' },
+  { value: 'RATE_CARD', label: 'Rate Card' },
+  { value: 'RATE_BATCH', label: 'Bulk Rate Change' }
+]
+
+const ACTIONS = ['CREATE', 'UPDATE', 'DELETE', 'GRANT', 'REVOKE', 'LOCK', 'CLOSE', 'REOPEN', 'SUBMIT', 'APPROVE', 'REJECT', 'ARCHIVE', 'RESTORE', 'PURGE', 'IMPORT', 'CANCEL']
+
+const PAGE_SIZE = 50
+
+export default function AdminAuditPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [total, setTotal] = useState(0)
+  const [users, setUsers] = useState<User[]>([])
+  const [loading, setLoading] = useState(true)
+  const [exporting, setExporting] = useState(false)
+  const [page, setPage] = useState(1)
+  const [selectedEvent, setSelectedEvent] = useState<AuditEvent | null>(null)
+
+  // Filters
+  const [entityType, setEntityType] = useState('all')
+  const [action, setAction] = useState('all')
+  const [actorId, setActorId] = useState('all')
+  const [entityId, setEntityId] = useState('')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchUsers()
+    }
+  }, [session])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchEvents()
+    }
+  }, [session, page, entityType, action, actorId, fromDate, toDate])
+
+  const buildParams = () => {
+    const params = new URLSearchParams()
+    if (entityType !== 'all') params.set('entityType', entityType)
+    if (action !== 'all') params.set('action', action)
+    if (actorId !== 'all') params.set('actorId', actorId)
+    if (entityId.trim()) params.set('entityId', entityId.trim())
+    if (fromDate) params.set('from', fromDate)
+    if (toDate) params.set('to', toDate)
+    return params
+  }
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users')
+      if (response.ok) {
+        const data = await response.json()
+        setUsers(data)
+      }
+    } catch (error) {
+      console.error('Failed to fetch users:', error)
+    }
+  }
+
+  const fetchEvents = async () => {
+    setLoading(true)
+    try {
+      const params = buildParams()
+      params.set('page', page.toString())
+      params.set('pageSize', PAGE_SIZE.toString())
+
+      const response = await fetch(`/api/admin/audit?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setEvents(data.events)
+        setTotal(data.total)
+      } else {
+        toast.error('Failed to fetch audit events')
+      }
+    } catch (error) {
+      console.error('Failed to fetch audit events:', error)
+      toast.error('Failed to fetch audit events')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleExport = async () => {
+    setExporting(true)
+    try {
+      const response = await fetch(`/api/admin/audit/export?${buildParams()}`)
+
+      if (response.ok) {
+        const blob = await response.blob()
+        const url = window.URL.createObjectURL(blob)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = `Audit_Log_${format(new Date(), 'yyyy-MM-dd')}.csv`
+        document.body.appendChild(link)
+        link.click()
+        document.body.removeChild(link)
+        window.URL.revokeObjectURL(url)
+
+        toast.success('Audit log exported successfully')
+      } else {
+        toast.error('Failed to export audit log')
+      }
+    } catch (error) {
+      console.error('Failed to export audit log:', error)
+      toast.error('Failed to export audit log')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const resetFilters = () => {
+    setEntityType('all')
+    setAction('all')
+    setActorId('all')
+    setEntityId('')
+    setFromDate('')
+    setToDate('')
+    setPage(1)
+  }
+
+  const getActionBadge = (eventAction: string) => {
+    switch (eventAction) {
+      case 'CREATE':
+      case 'GRANT':
+      case 'APPROVE':
+        return <Badge variant="secondary" className="bg-green-100 text-green-800">{eventAction}</Badge>
+      case 'DELETE':
+      case 'REVOKE':
+      case 'REJECT':
+      case 'PURGE':
+        return <Badge variant="destructive">{eventAction}</Badge>
+      default:
+        return <Badge variant="secondary">{eventAction}</Badge>
+    }
+  }
+
+  const getEntityLabel = (type: string) => {
+    return ENTITY_TYPES.find(t => t.value === type)?.label || type
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
+
+  if (status === 'loading') {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to view the audit log.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Audit Log</h1>
+            <p className="text-gray-600">Who changed time entries, rates, budgets and permissions, and when</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button variant="outline" onClick={handleExport} disabled={exporting}>
+              {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Export CSV
+            </Button>
+            <Badge variant="destructive" className="flex items-center gap-2">
+              <Shield className="h-4 w-4" />
+              Admin Only
+            </Badge>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Entity</Label>
+                <Select value={entityType} onValueChange={(value) => { setEntityType(value); setPage(1) }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Entities</SelectItem>
+                    {ENTITY_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={action} onValueChange={(value) => { setAction(value); setPage(1) }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Actions</SelectItem>
+                    {ACTIONS.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Actor</Label>
+                <Select value={actorId} onValueChange={(value) => { setActorId(value); setPage(1) }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Users</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>{user.name || user.email}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fromDate">From</Label>
+                <Input
+                  id="fromDate"
+                  type="date"
+                  value={fromDate}
+                  onChange={(e) => { setFromDate(e.target.value); setPage(1) }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="toDate">To</Label>
+                <Input
+                  id="toDate"
+                  type="date"
+                  value={toDate}
+                  onChange={(e) => { setToDate(e.target.value); setPage(1) }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="entityId">Entity ID</Label>
+                <Input
+                  id="entityId"
+                  value={entityId}
+                  onChange={(e) => setEntityId(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      setPage(1)
+                      fetchEvents()
+                    }
+                  }}
+                  placeholder="Press Enter to search"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button variant="outline" size="sm" onClick={resetFilters}>
+                Reset Filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Events Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Events
+            </CardTitle>
+            <CardDescription>{total} event{total !== 1 ? 's' : ''} found</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center items-center h-32">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : events.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No audit events match these filters</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Timestamp</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Entity ID</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(event.createdAt), 'MMM dd, yyyy HH:mm:ss')}
+                      </TableCell>
+                      <TableCell>
+                        {event.actorEmail || users.find(u => u.id === event.actorId)?.email || event.actorId || 'System'}
+                      </TableCell>
+                      <TableCell>{getActionBadge(event.action)}</TableCell>
+                      <TableCell>{getEntityLabel(event.entityType)}</TableCell>
+                      <TableCell className="font-mono text-xs max-w-[160px] truncate" title={event.entityId}>
+                        {event.entityId}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => setSelectedEvent(event)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between mt-4">
+                <p className="text-sm text-muted-foreground">
+                  Page {page} of {totalPages}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(p => Math.max(1, p - 1))}
+                    disabled={page === 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                    disabled={page === totalPages}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Event Details Dialog */}
+        <Dialog open={!!selectedEvent} onOpenChange={() => setSelectedEvent(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>
+                {selectedEvent && `${getEntityLabel(selectedEvent.entityType)} ${selectedEvent.action}`}
+              </DialogTitle>
+              <DialogDescription>
+                {selectedEvent && `${format(new Date(selectedEvent.createdAt), 'MMM dd, yyyy HH:mm:ss')} by ${selectedEvent.actorEmail || selectedEvent.actorId || 'System'}`}
+              </DialogDescription>
+            </DialogHeader>
+            {selectedEvent && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-[60vh] overflow-y-auto">
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Before</h4>
+                  <pre className="text-xs bg-gray-50 border rounded p-3 overflow-x-auto whitespace-pre-wrap">
+                    {selectedEvent.before ? JSON.stringify(selectedEvent.before, null, 2) : '-'}
+                  </pre>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium mb-2">After</h4>
+                  <pre className="text-xs bg-gray-50 border rounded p-3 overflow-x-auto whitespace-pre-wrap">
+                    {selectedEvent.after ? JSON.stringify(selectedEvent.after, null, 2) : '-'}
+                  </pre>
+                </div>
+                {selectedEvent.metadata && (
+                  <div className="md:col-span-2">
+                    <h4 className="text-sm font-medium mb-2">Metadata</h4>
+                    <pre className="text-xs bg-gray-50 border rounded p-3 overflow-x-auto whitespace-pre-wrap">
+                      {JSON.stringify(selectedEvent.metadata, null, 2)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -15,6 +15,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Separator } from '@/components/ui/separator'
+import { Checkbox } from '@/components/ui/checkbox'
 import { 
   Loader2, 
   DollarSign, 
@@ -27,9 +28,22 @@ import {
   Check,
   BarChart3,
   Clock,
-  Users
+  Users,
+  CalendarRange,
+  Bell,
+  Mail
 } from 'lucide-react'
+import { format } from 'date-fns'
 import { toast } from 'sonner'
+import {
+  getFiscalQuarterMonthRange,
+  getFiscalYear,
+  getFiscalYearLabel,
+  getQuarterMonthKeys,
+  FiscalQuarter,
+  MONTH_NAMES,
+  DEFAULT_FISCAL_YEAR_START_MONTH
+} from '@/lib/fiscal-calendar'
 
 // Use the same interface as the project reports page
 interface ProjectSummary {
@@ -38,6 +52,7 @@ interface ProjectSummary {
   description: string | null
   color: string
   active: boolean
+  archivedAt: string | null
   totalBudget: number
   q1Budget: number
   q2Budget: number
@@ -47,6 +62,7 @@ interface ProjectSummary {
   q2Spent: number
   q3Spent: number
   q4Spent: number
+  monthlyAllocations: Array<{ year: number; month: number; amount: number }>
   totalSpent: number
   totalHours: number
   employeeCount: number
@@ -55,12 +71,36 @@ interface ProjectSummary {
   lastActivity: string | null
 }
 
+interface BudgetAlert {
+  id: string
+  project: { id: string; name: string; color: string }
+  fiscalYear: number
+  quarter: number
+  threshold: number
+  utilization: number
+  spent: number
+  budget: number
+  createdAt: string
+}
+
 interface BudgetForm {
   totalBudget: string
   q1Budget: string
   q2Budget: string
   q3Budget: string
   q4Budget: string
+  allocateMonthly: boolean
+  monthly: Record<string, string> // keyed by 'YYYY-MM'
+}
+
+const EMPTY_BUDGET_FORM: BudgetForm = {
+  totalBudget: '',
+  q1Budget: '',
+  q2Budget: '',
+  q3Budget: '',
+  q4Budget: '',
+  allocateMonthly: false,
+  monthly: {}
 }
 
 // Use the same utility functions as the project reports page
@@ -140,14 +180,22 @@ export default function AdminBudgetsPage() {
   const [projects, setProjects] = useState<ProjectSummary[]>([])
   const [loading, setLoading] = useState(true)
   const [editingProject, setEditingProject] = useState<ProjectSummary | null>(null)
-  const [budgetForm, setBudgetForm] = useState<BudgetForm>({
-    totalBudget: '',
-    q1Budget: '',
-    q2Budget: '',
-    q3Budget: '',
-    q4Budget: ''
-  })
+  const [budgetForm, setBudgetForm] = useState<BudgetForm>(EMPTY_BUDGET_FORM)
   const [updating, setUpdating] = useState(false)
+  const [fiscalYearStartMonth, setFiscalYearStartMonth] = useState(DEFAULT_FISCAL_YEAR_START_MONTH)
+  // null until the API reports the current fiscal year
+  const [fiscalYear, setFiscalYear] = useState<number | null>(null)
+
+  const [alertThresholds, setAlertThresholds] = useState('')
+  const [alertEmailEnabled, setAlertEmailEnabled] = useState(true)
+  const [mailTransport, setMailTransport] = useState<string | null>(null)
+  const [recentAlerts, setRecentAlerts] = useState<BudgetAlert[]>([])
+  const [savingAlertSettings, setSavingAlertSettings] = useState(false)
+  const [sendingTestEmail, setSendingTestEmail] = useState(false)
+
+  const currentFiscalYear = getFiscalYear(new Date(), fiscalYearStartMonth)
+  const yearOptions = [currentFiscalYear - 2, currentFiscalYear - 1, currentFiscalYear, currentFiscalYear + 1]
+  const fiscalYearLabel = getFiscalYearLabel(fiscalYear ?? currentFiscalYear, fiscalYearStartMonth)
 
   // Computed values using the same logic as project reports
   const projectsWithBudget = useMemo(() => 
@@ -182,16 +230,98 @@ export default function AdminBudgetsPage() {
     if (session && session.user?.role === 'ADMIN') {
       fetchProjectSummaries()
     }
+  }, [session, fiscalYear])
+
+  useEffect(() => {
+    if (session && session.user?.role === 'ADMIN') {
+      fetchAlertSettings()
+    }
   }, [session])
 
+  const fetchAlertSettings = async () => {
+    try {
+      const response = await fetch('/api/admin/budget-alerts')
+      if (response.ok) {
+        const data = await response.json()
+        setAlertThresholds(data.settings.budgetAlertThresholds.join(', '))
+        setAlertEmailEnabled(data.settings.budgetAlertEmailEnabled)
+        setMailTransport(data.mailTransport)
+        setRecentAlerts(data.recentAlerts || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch budget alert settings:', error)
+    }
+  }
+
+  const handleSaveAlertSettings = async () => {
+    const thresholds = alertThresholds
+      .split(',')
+      .map(value => value.trim())
+      .filter(value => value !== '')
+      .map(value => Number(value))
+
+    if (thresholds.length === 0 || thresholds.some(value => !Number.isInteger(value) || value < 1 || value > 500)) {
+      toast.error('Enter whole percentages between 1 and 500, separated by commas')
+      return
+    }
+
+    setSavingAlertSettings(true)
+    try {
+      const response = await fetch('/api/admin/budget-alerts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          budgetAlertThresholds: thresholds,
+          budgetAlertEmailEnabled: alertEmailEnabled
+        })
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        setAlertThresholds(data.settings.budgetAlertThresholds.join(', '))
+        toast.success('Budget alert settings saved')
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to save budget alert settings')
+      }
+    } catch (error) {
+      console.error('Failed to save budget alert settings:', error)
+      toast.error('Failed to save budget alert settings')
+    } finally {
+      setSavingAlertSettings(false)
+    }
+  }
+
+  const handleSendTestEmail = async () => {
+    setSendingTestEmail(true)
+    try {
+      const response = await fetch('/api/admin/budget-alerts', { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(`Test email sent via ${data.transport}`)
+      } else {
+        toast.error(data.error || 'Failed to send test email')
+      }
+    } catch (error) {
+      console.error('Failed to send test email:', error)
+      toast.error('Failed to send test email')
+    } finally {
+      setSendingTestEmail(false)
+    }
+  }
+
   // Use the same API endpoint as the project reports page
   const fetchProjectSummaries = async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/projects/summaries')
+      const params = new URLSearchParams()
+      if (fiscalYear !== null) params.set('year', fiscalYear.toString())
+      const response = await fetch(`/api/projects/summaries?${params}`)
       if (response.ok) {
         const data = await response.json()
         setProjects(data.projects || [])
+        if (data.fiscalYearStartMonth) setFiscalYearStartMonth(data.fiscalYearStartMonth)
+        if (fiscalYear === null && data.fiscalYear) setFiscalYear(data.fiscalYear)
       } else {
         toast.error('Failed to fetch project summaries')
       }
@@ -206,15 +336,27 @@ export default function AdminBudgetsPage() {
   // Event handlers
   const handleEditBudget = (project: ProjectSummary) => {
     setEditingProject(project)
+    const monthly: Record<string, string> = {}
+    project.monthlyAllocations.forEach(allocation => {
+      monthly[`${allocation.year}-${allocation.month.toString().padStart(2, '0')}`] = allocation.amount.toString()
+    })
     setBudgetForm({
       totalBudget: project.totalBudget.toString(),
       q1Budget: project.q1Budget.toString(),
       q2Budget: project.q2Budget.toString(),
       q3Budget: project.q3Budget.toString(),
-      q4Budget: project.q4Budget.toString()
+      q4Budget: project.q4Budget.toString(),
+      allocateMonthly: project.monthlyAllocations.length > 0,
+      monthly
     })
   }
 
+  const getQuarterMonthlyTotal = (quarter: FiscalQuarter) => {
+    if (fiscalYear === null) return 0
+    return getQuarterMonthKeys(fiscalYear, quarter, fiscalYearStartMonth)
+      .reduce((sum, key) => sum + (parseFloat(budgetForm.monthly[key]) || 0), 0)
+  }
+
   const handleUpdateBudget = async () => {
     if (!editingProject) return
 
@@ -236,6 +378,27 @@ export default function AdminBudgetsPage() {
       return
     }
 
+    const quarterBudgets = [q1Budget, q2Budget, q3Budget, q4Budget]
+    if (budgetForm.allocateMonthly) {
+      const overAllocated = quarterBudgets.findIndex((budget, index) =>
+        getQuarterMonthlyTotal((index + 1) as FiscalQuarter) > budget + 0.01
+      )
+      if (overAllocated !== -1) {
+        toast.error(`Monthly allocations for Q${overAllocated + 1} exceed its budget`)
+        return
+      }
+    }
+
+    const monthlyAllocations = budgetForm.allocateMonthly
+      ? Object.entries(budgetForm.monthly)
+          .map(([key, value]) => ({
+            year: parseInt(key.slice(0, 4)),
+            month: parseInt(key.slice(5, 7)),
+            amount: parseFloat(value) || 0
+          }))
+          .filter(allocation => allocation.amount > 0)
+      : []
+
     setUpdating(true)
 
     try {
@@ -245,24 +408,20 @@ export default function AdminBudgetsPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          year: fiscalYear ?? undefined,
           totalBudget,
           q1Budget,
           q2Budget,
           q3Budget,
-          q4Budget
+          q4Budget,
+          monthlyAllocations
         }),
       })
       
       if (response.ok) {
         toast.success('Budget updated successfully')
         setEditingProject(null)
-        setBudgetForm({
-          totalBudget: '',
-          q1Budget: '',
-          q2Budget: '',
-          q3Budget: '',
-          q4Budget: ''
-        })
+        setBudgetForm(EMPTY_BUDGET_FORM)
         
         // Refresh the data using the same method as project reports
         await fetchProjectSummaries()
@@ -319,6 +478,24 @@ export default function AdminBudgetsPage() {
           </Badge>
         </div>
 
+        {/* Fiscal Year Tabs */}
+        <div className="flex items-center gap-3">
+          <CalendarRange className="h-5 w-5 text-gray-500" />
+          <Tabs
+            value={fiscalYear !== null ? fiscalYear.toString() : ''}
+            onValueChange={(value) => setFiscalYear(parseInt(value))}
+          >
+            <TabsList>
+              {yearOptions.map(year => (
+                <TabsTrigger key={year} value={year.toString()}>
+                  FY {getFiscalYearLabel(year, fiscalYearStartMonth)}
+                  {year === currentFiscalYear && ' (Current)'}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
         {/* Budget Overview - Same as project reports page */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card>
@@ -331,7 +508,7 @@ export default function AdminBudgetsPage() {
                 {formatCurrency(budgetStats.totalBudget)}
               </div>
               <p className="text-xs text-muted-foreground">
-                Across {budgetStats.projectCount} projects
+                Across {budgetStats.projectCount} projects in FY {fiscalYearLabel}
               </p>
             </CardContent>
           </Card>
@@ -404,7 +581,7 @@ export default function AdminBudgetsPage() {
                   Projects with Budget Tracking ({projectsWithBudget.length})
                 </CardTitle>
                 <CardDescription>
-                  Monitor quarterly budget allocation and spending across all projects
+                  Monitor quarterly budget allocation and spending across all projects for FY {fiscalYearLabel}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -461,6 +638,9 @@ export default function AdminBudgetsPage() {
                                 {!project.active && (
                                   <Badge variant="secondary">Inactive</Badge>
                                 )}
+                                {project.archivedAt && (
+                                  <Badge variant="outline">Archived</Badge>
+                                )}
                               </div>
                             </TableCell>
                             <TableCell>
@@ -550,7 +730,7 @@ export default function AdminBudgetsPage() {
                   Setup Project Budgets ({projectsWithoutBudget.length})
                 </CardTitle>
                 <CardDescription>
-                  Configure quarterly budgets for projects that don't have budget tracking enabled
+                  Configure FY {fiscalYearLabel} budgets for projects that don't have budget tracking enabled
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -610,9 +790,96 @@ export default function AdminBudgetsPage() {
           </TabsContent>
         </Tabs>
 
+        {/* Budget Alert Settings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Budget Alerts
+            </CardTitle>
+            <CardDescription>
+              Users with Edit Budgets or Full Access on a project are notified once per quarter when its spend reaches each threshold
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="alertThresholds">Thresholds (% of quarter budget)</Label>
+                <Input
+                  id="alertThresholds"
+                  value={alertThresholds}
+                  onChange={(e) => setAlertThresholds(e.target.value)}
+                  placeholder="75, 90, 100"
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox
+                  id="alertEmailEnabled"
+                  checked={alertEmailEnabled}
+                  onCheckedChange={(checked) => setAlertEmailEnabled(checked === true)}
+                />
+                <Label htmlFor="alertEmailEnabled">Also send email</Label>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleSendTestEmail} disabled={sendingTestEmail}>
+                  {sendingTestEmail ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+                  Send Test Email
+                </Button>
+                <Button onClick={handleSaveAlertSettings} disabled={savingAlertSettings}>
+                  {savingAlertSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </div>
+            {mailTransport && (
+              <p className="text-xs text-gray-500">Mail transport: {mailTransport}</p>
+            )}
+
+            {recentAlerts.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Quarter</TableHead>
+                    <TableHead>Threshold</TableHead>
+                    <TableHead>Spent / Budget</TableHead>
+                    <TableHead>Sent</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recentAlerts.map(alert => (
+                    <TableRow key={alert.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: alert.project.color }} />
+                          <span className="font-medium">{alert.project.name}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        Q{alert.quarter} FY {getFiscalYearLabel(alert.fiscalYear, fiscalYearStartMonth)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={alert.threshold >= 100 ? 'destructive' : 'secondary'}>
+                          {alert.threshold}%
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {formatCurrency(alert.spent)} / {formatCurrency(alert.budget)} ({alert.utilization.toFixed(1)}%)
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {format(new Date(alert.createdAt), 'MMM d, yyyy HH:mm')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Edit Budget Dialog */}
         <Dialog open={!!editingProject} onOpenChange={() => setEditingProject(null)}>
-          <DialogContent className="max-w-lg">
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
             {editingProject && (
               <>
                 <DialogHeader>
@@ -620,7 +887,7 @@ export default function AdminBudgetsPage() {
                     {editingProject.totalBudget > 0 || (editingProject.q1Budget + editingProject.q2Budget + editingProject.q3Budget + editingProject.q4Budget) > 0 ? 'Edit' : 'Setup'} Project Budget
                   </DialogTitle>
                   <DialogDescription>
-                    Configure quarterly budget allocation for {editingProject.name}
+                    Configure the FY {fiscalYearLabel} budget allocation for {editingProject.name}
                   </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4">
@@ -641,7 +908,7 @@ export default function AdminBudgetsPage() {
 
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="q1Budget">Q1 Budget (Apr-Jun)</Label>
+                      <Label htmlFor="q1Budget">Q1 Budget ({getFiscalQuarterMonthRange(1, fiscalYearStartMonth)})</Label>
                       <Input
                         id="q1Budget"
                         type="number"
@@ -653,7 +920,7 @@ export default function AdminBudgetsPage() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="q2Budget">Q2 Budget (Jul-Sep)</Label>
+                      <Label htmlFor="q2Budget">Q2 Budget ({getFiscalQuarterMonthRange(2, fiscalYearStartMonth)})</Label>
                       <Input
                         id="q2Budget"
                         type="number"
@@ -665,7 +932,7 @@ export default function AdminBudgetsPage() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="q3Budget">Q3 Budget (Oct-Dec)</Label>
+                      <Label htmlFor="q3Budget">Q3 Budget ({getFiscalQuarterMonthRange(3, fiscalYearStartMonth)})</Label>
                       <Input
                         id="q3Budget"
                         type="number"
@@ -677,7 +944,7 @@ export default function AdminBudgetsPage() {
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="q4Budget">Q4 Budget (Jan-Mar)</Label>
+                      <Label htmlFor="q4Budget">Q4 Budget ({getFiscalQuarterMonthRange(4, fiscalYearStartMonth)})</Label>
                       <Input
                         id="q4Budget"
                         type="number"
@@ -690,6 +957,60 @@ export default function AdminBudgetsPage() {
                     </div>
                   </div>
 
+                  <Separator />
+
+                  {/* Optional Monthly Allocation */}
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="allocateMonthly"
+                        checked={budgetForm.allocateMonthly}
+                        onCheckedChange={(checked) => setBudgetForm(prev => ({ ...prev, allocateMonthly: checked === true }))}
+                      />
+                      <Label htmlFor="allocateMonthly">Allocate by month</Label>
+                    </div>
+                    {budgetForm.allocateMonthly && fiscalYear !== null && (
+                      <div className="space-y-3">
+                        {([1, 2, 3, 4] as FiscalQuarter[]).map(quarter => {
+                          const quarterBudget = parseFloat(budgetForm[`q${quarter}Budget`]) || 0
+                          const allocated = getQuarterMonthlyTotal(quarter)
+
+                          return (
+                            <div key={quarter} className="space-y-1">
+                              <div className="flex justify-between text-xs text-gray-600">
+                                <span>Q{quarter}</span>
+                                <span className={allocated > quarterBudget + 0.01 ? 'text-red-600' : ''}>
+                                  {formatCurrency(allocated)} of {formatCurrency(quarterBudget)}
+                                </span>
+                              </div>
+                              <div className="grid grid-cols-3 gap-2">
+                                {getQuarterMonthKeys(fiscalYear, quarter, fiscalYearStartMonth).map(key => (
+                                  <div key={key} className="space-y-1">
+                                    <Label htmlFor={`month-${key}`} className="text-xs">
+                                      {MONTH_NAMES[parseInt(key.slice(5, 7)) - 1].slice(0, 3)} {key.slice(0, 4)}
+                                    </Label>
+                                    <Input
+                                      id={`month-${key}`}
+                                      type="number"
+                                      step="1"
+                                      min="0"
+                                      value={budgetForm.monthly[key] ?? ''}
+                                      onChange={(e) => setBudgetForm(prev => ({
+                                        ...prev,
+                                        monthly: { ...prev.monthly, [key]: e.target.value }
+                                      }))}
+                                      placeholder="0"
+                                    />
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    )}
+                  </div>
+
                   {/* Budget Summary */}
                   <div className="p-4 bg-gray-50 rounded-lg space-y-2">
                     <div className="text-sm font-medium">Budget Summary</div>
@@ -0,0 +1,630 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Loader2, Shield, Building2, Plus, Edit, Trash2, DollarSign } from 'lucide-react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+
+interface BillRate {
+  id: string
+  rate: number
+  effectiveDate: string
+  project: { id: string; name: string } | null
+  user: { id: string; name: string | null; email: string } | null
+}
+
+interface Client {
+  id: string
+  name: string
+  email: string | null
+  address: string | null
+  currency: string
+  paymentTermsDays: number
+  active: boolean
+  projects: { id: string; name: string; color: string; billable: boolean; active: boolean }[]
+  billRates: BillRate[]
+  _count: { invoices: number }
+}
+
+interface Project {
+  id: string
+  name: string
+  color: string
+  clientId?: string | null
+}
+
+interface User {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface ClientFormData {
+  name: string
+  email: string
+  address: string
+  currency: string
+  paymentTermsDays: number
+  active: boolean
+  projectIds: string[]
+}
+
+const EMPTY_CLIENT_FORM: ClientFormData = {
+  name: '',
+  email: '',
+  address: '',
+  currency: 'USD',
+  paymentTermsDays: 30,
+  active: true,
+  projectIds: []
+}
+
+export default function AdminClientsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [clients, setClients] = useState<Client[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [users, setUsers] = useState<User[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  // Client dialog
+  const [clientDialogOpen, setClientDialogOpen] = useState(false)
+  const [editingClient, setEditingClient] = useState<Client | null>(null)
+  const [clientForm, setClientForm] = useState<ClientFormData>(EMPTY_CLIENT_FORM)
+
+  // Bill rate dialog
+  const [rateClient, setRateClient] = useState<Client | null>(null)
+  const [rateForm, setRateForm] = useState({
+    rate: '',
+    effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+    projectId: 'all',
+    userId: 'all'
+  })
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchClients()
+      fetchProjects()
+      fetchUsers()
+    }
+  }, [session])
+
+  const fetchClients = async () => {
+    try {
+      const response = await fetch('/api/admin/clients')
+      if (response.ok) {
+        const data = await response.json()
+        setClients(data)
+        // Keep the open bill rate dialog in sync
+        setRateClient(prev => prev ? data.find((c: Client) => c.id === prev.id) || null : null)
+      } else {
+        toast.error('Failed to fetch clients')
+      }
+    } catch (error) {
+      console.error('Failed to fetch clients:', error)
+      toast.error('Failed to fetch clients')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch('/api/projects')
+      if (response.ok) {
+        setProjects(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch projects:', error)
+    }
+  }
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users')
+      if (response.ok) {
+        setUsers(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch users:', error)
+    }
+  }
+
+  const openCreateClient = () => {
+    setEditingClient(null)
+    setClientForm(EMPTY_CLIENT_FORM)
+    setClientDialogOpen(true)
+  }
+
+  const openEditClient = (client: Client) => {
+    setEditingClient(client)
+    setClientForm({
+      name: client.name,
+      email: client.email || '',
+      address: client.address || '',
+      currency: client.currency,
+      paymentTermsDays: client.paymentTermsDays,
+      active: client.active,
+      projectIds: client.projects.map(p => p.id)
+    })
+    setClientDialogOpen(true)
+  }
+
+  const handleSaveClient = async () => {
+    setSaving(true)
+    try {
+      const response = editingClient
+        ? await fetch(`/api/admin/clients/${editingClient.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(clientForm)
+          })
+        : await fetch('/api/admin/clients', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(clientForm)
+          })
+
+      if (response.ok) {
+        // New clients get their projects in a second step, once they have an id
+        if (!editingClient && clientForm.projectIds.length > 0) {
+          const created = await response.json()
+          await fetch(`/api/admin/clients/${created.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ projectIds: clientForm.projectIds })
+          })
+        }
+        toast.success(editingClient ? 'Client updated' : 'Client created')
+        setClientDialogOpen(false)
+        fetchClients()
+        fetchProjects()
+      } else {
+        const errorData = await response.json()
+        const fieldError = errorData.details ? Object.values(errorData.details).flat()[0] : null
+        toast.error((fieldError as string) || errorData.error || 'Failed to save client')
+      }
+    } catch (error) {
+      console.error('Failed to save client:', error)
+      toast.error('Failed to save client')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteClient = async (client: Client) => {
+    if (!confirm(`Delete client "${client.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/clients/${client.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        toast.success('Client deleted')
+        fetchClients()
+        fetchProjects()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to delete client')
+      }
+    } catch (error) {
+      console.error('Failed to delete client:', error)
+      toast.error('Failed to delete client')
+    }
+  }
+
+  const handleAddRate = async () => {
+    if (!rateClient) return
+
+    const rate = parseFloat(rateForm.rate)
+    if (isNaN(rate) || rate < 0) {
+      toast.error('Please enter a valid rate')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/admin/clients/${rateClient.id}/bill-rates`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rate,
+          effectiveDate: rateForm.effectiveDate,
+          projectId: rateForm.projectId === 'all' ? null : rateForm.projectId,
+          userId: rateForm.userId === 'all' ? null : rateForm.userId
+        })
+      })
+
+      if (response.ok) {
+        toast.success('Bill rate added')
+        setRateForm({ ...rateForm, rate: '' })
+        fetchClients()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to add bill rate')
+      }
+    } catch (error) {
+      console.error('Failed to add bill rate:', error)
+      toast.error('Failed to add bill rate')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteRate = async (rateId: string) => {
+    if (!rateClient) return
+
+    try {
+      const response = await fetch(`/api/admin/clients/${rateClient.id}/bill-rates?rateId=${rateId}`, {
+        method: 'DELETE'
+      })
+      if (response.ok) {
+        toast.success('Bill rate removed')
+        fetchClients()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to remove bill rate')
+      }
+    } catch (error) {
+      console.error('Failed to remove bill rate:', error)
+      toast.error('Failed to remove bill rate')
+    }
+  }
+
+  const toggleProject = (projectId: string, checked: boolean) => {
+    setClientForm(prev => ({
+      ...prev,
+      projectIds: checked
+        ? [...prev.projectIds, projectId]
+        : prev.projectIds.filter(id => id !== projectId)
+    }))
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to manage clients.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Clients</h1>
+            <p className="text-gray-600">Clients, their projects and what they are billed per hour</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button onClick={openCreateClient}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Client
+            </Button>
+            <Badge variant="destructive" className="flex items-center gap-2">
+              <Shield className="h-4 w-4" />
+              Admin Only
+            </Badge>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              All Clients
+            </CardTitle>
+            <CardDescription>
+              Bill rates are separate from employee cost rates. Only billable projects are invoiced.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {clients.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No clients yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Projects</TableHead>
+                    <TableHead>Currency</TableHead>
+                    <TableHead>Terms</TableHead>
+                    <TableHead>Bill Rates</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {clients.map((client) => (
+                    <TableRow key={client.id}>
+                      <TableCell>
+                        <div className="font-medium">{client.name}</div>
+                        {client.email && <div className="text-sm text-gray-500">{client.email}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {client.projects.length === 0 && <span className="text-sm text-gray-400">None</span>}
+                          {client.projects.map((project) => (
+                            <Badge key={project.id} variant="outline" className="flex items-center gap-1">
+                              <div className="w-2 h-2 rounded-full" style={{ backgroundColor: project.color }} />
+                              {project.name}
+                              {!project.billable && <span className="text-gray-400">(non-billable)</span>}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{client.currency}</TableCell>
+                      <TableCell>{client.paymentTermsDays} days</TableCell>
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => setRateClient(client)}>
+                          <DollarSign className="h-4 w-4 mr-1" />
+                          {client.billRates.length}
+                        </Button>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={client.active ? 'default' : 'secondary'}>
+                          {client.active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEditClient(client)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteClient(client)}
+                            disabled={client._count.invoices > 0}
+                            title={client._count.invoices > 0 ? 'Clients with invoices cannot be deleted' : undefined}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create / Edit Client Dialog */}
+        <Dialog open={clientDialogOpen} onOpenChange={setClientDialogOpen}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingClient ? 'Edit Client' : 'New Client'}</DialogTitle>
+              <DialogDescription>Contact details appear on invoices</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-2 max-h-[60vh] overflow-y-auto">
+              <div className="grid gap-2">
+                <Label htmlFor="clientName">Name</Label>
+                <Input
+                  id="clientName"
+                  value={clientForm.name}
+                  onChange={(e) => setClientForm({ ...clientForm, name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="clientEmail">Billing Email</Label>
+                <Input
+                  id="clientEmail"
+                  type="email"
+                  value={clientForm.email}
+                  onChange={(e) => setClientForm({ ...clientForm, email: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="clientAddress">Address</Label>
+                <Textarea
+                  id="clientAddress"
+                  value={clientForm.address}
+                  onChange={(e) => setClientForm({ ...clientForm, address: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="clientCurrency">Currency</Label>
+                  <Input
+                    id="clientCurrency"
+                    maxLength={3}
+                    value={clientForm.currency}
+                    onChange={(e) => setClientForm({ ...clientForm, currency: e.target.value.toUpperCase() })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="clientTerms">Payment Terms (days)</Label>
+                  <Input
+                    id="clientTerms"
+                    type="number"
+                    min="0"
+                    max="365"
+                    value={clientForm.paymentTermsDays}
+                    onChange={(e) => setClientForm({ ...clientForm, paymentTermsDays: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label>Projects</Label>
+                <div className="border rounded p-3 space-y-2 max-h-40 overflow-y-auto">
+                  {projects.map((project) => (
+                    <div key={project.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`project-${project.id}`}
+                        checked={clientForm.projectIds.includes(project.id)}
+                        onCheckedChange={(checked) => toggleProject(project.id, checked === true)}
+                      />
+                      <Label htmlFor={`project-${project.id}`} className="flex items-center gap-2 font-normal">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: project.color }} />
+                        {project.name}
+                        {project.clientId && project.clientId !== editingClient?.id && (
+                          <span className="text-xs text-gray-400">(another client)</span>
+                        )}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              {editingClient && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="clientActive"
+                    checked={clientForm.active}
+                    onCheckedChange={(checked) => setClientForm({ ...clientForm, active: checked === true })}
+                  />
+                  <Label htmlFor="clientActive">Active</Label>
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setClientDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveClient} disabled={saving || !clientForm.name.trim()}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingClient ? 'Update Client' : 'Create Client'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Bill Rates Dialog */}
+        <Dialog open={!!rateClient} onOpenChange={(open) => !open && setRateClient(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Bill Rates - {rateClient?.name}</DialogTitle>
+              <DialogDescription>
+                The most specific rate wins: project and person, then project, then person, then the client default.
+              </DialogDescription>
+            </DialogHeader>
+            {rateClient && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                  <div className="grid gap-2">
+                    <Label>Project</Label>
+                    <Select value={rateForm.projectId} onValueChange={(value) => setRateForm({ ...rateForm, projectId: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All projects</SelectItem>
+                        {rateClient.projects.map((project) => (
+                          <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Person</Label>
+                    <Select value={rateForm.userId} onValueChange={(value) => setRateForm({ ...rateForm, userId: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Everyone</SelectItem>
+                        {users.map((user) => (
+                          <SelectItem key={user.id} value={user.id}>{user.name || user.email}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="billRate">Rate ({rateClient.currency}/h)</Label>
+                    <Input
+                      id="billRate"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={rateForm.rate}
+                      onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="billRateDate">Effective From</Label>
+                    <Input
+                      id="billRateDate"
+                      type="date"
+                      value={rateForm.effectiveDate}
+                      onChange={(e) => setRateForm({ ...rateForm, effectiveDate: e.target.value })}
+                    />
+                  </div>
+                  <Button onClick={handleAddRate} disabled={saving || !rateForm.rate}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Rate
+                  </Button>
+                </div>
+
+                {rateClient.billRates.length === 0 ? (
+                  <div className="text-center py-6 text-gray-500">No bill rates yet</div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Project</TableHead>
+                        <TableHead>Person</TableHead>
+                        <TableHead>Rate</TableHead>
+                        <TableHead>Effective From</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rateClient.billRates.map((rate) => (
+                        <TableRow key={rate.id}>
+                          <TableCell>{rate.project?.name || 'All projects'}</TableCell>
+                          <TableCell>{rate.user ? rate.user.name || rate.user.email : 'Everyone'}</TableCell>
+                          <TableCell>{rate.rate.toFixed(2)} {rateClient.currency}/h</TableCell>
+                          <TableCell>{format(new Date(rate.effectiveDate), 'MMM dd, yyyy')}</TableCell>
+                          <TableCell>
+                            <Button variant="outline" size="sm" onClick={() => handleDeleteRate(rate.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,655 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Loader2, Shield, Tags, ListPlus, Plus, Edit, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+type FieldType = 'TEXT' | 'NUMBER' | 'SELECT' | 'DATE'
+
+interface Tag {
+  id: string
+  name: string
+  color: string
+  active: boolean
+  entries: number
+}
+
+interface CustomField {
+  id: string
+  key: string
+  name: string
+  type: FieldType
+  options: string[]
+  active: boolean
+  sortOrder: number
+  requiredProjectIds: string[]
+  entries: number
+}
+
+interface Project {
+  id: string
+  name: string
+  color: string
+}
+
+interface TagFormData {
+  name: string
+  color: string
+  active: boolean
+}
+
+interface FieldFormData {
+  key: string
+  name: string
+  type: FieldType
+  options: string
+  sortOrder: number
+  active: boolean
+  requiredProjectIds: string[]
+}
+
+const EMPTY_TAG_FORM: TagFormData = {
+  name: '',
+  color: '#6b7280',
+  active: true
+}
+
+const EMPTY_FIELD_FORM: FieldFormData = {
+  key: '',
+  name: '',
+  type: 'TEXT',
+  options: '',
+  sortOrder: 0,
+  active: true,
+  requiredProjectIds: []
+}
+
+const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  TEXT: 'Text',
+  NUMBER: 'Number',
+  SELECT: 'Select',
+  DATE: 'Date'
+}
+
+export default function AdminEntryFieldsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [tags, setTags] = useState<Tag[]>([])
+  const [fields, setFields] = useState<CustomField[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  // Tag dialog
+  const [tagDialogOpen, setTagDialogOpen] = useState(false)
+  const [editingTag, setEditingTag] = useState<Tag | null>(null)
+  const [tagForm, setTagForm] = useState<TagFormData>(EMPTY_TAG_FORM)
+
+  // Custom field dialog
+  const [fieldDialogOpen, setFieldDialogOpen] = useState(false)
+  const [editingField, setEditingField] = useState<CustomField | null>(null)
+  const [fieldForm, setFieldForm] = useState<FieldFormData>(EMPTY_FIELD_FORM)
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      Promise.all([fetchTags(), fetchFields(), fetchProjects()]).finally(() => setLoading(false))
+    }
+  }, [session])
+
+  const fetchTags = async () => {
+    try {
+      const response = await fetch('/api/admin/tags')
+      if (response.ok) {
+        setTags(await response.json())
+      } else {
+        toast.error('Failed to fetch tags')
+      }
+    } catch (error) {
+      console.error('Failed to fetch tags:', error)
+      toast.error('Failed to fetch tags')
+    }
+  }
+
+  const fetchFields = async () => {
+    try {
+      const response = await fetch('/api/admin/custom-fields')
+      if (response.ok) {
+        setFields(await response.json())
+      } else {
+        toast.error('Failed to fetch custom fields')
+      }
+    } catch (error) {
+      console.error('Failed to fetch custom fields:', error)
+      toast.error('Failed to fetch custom fields')
+    }
+  }
+
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch('/api/projects')
+      if (response.ok) {
+        setProjects(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch projects:', error)
+    }
+  }
+
+  const showSaveError = async (response: Response, fallback: string) => {
+    const errorData = await response.json()
+    const fieldError = errorData.details ? Object.values(errorData.details).flat()[0] : null
+    toast.error((fieldError as string) || errorData.error || fallback)
+  }
+
+  const openCreateTag = () => {
+    setEditingTag(null)
+    setTagForm(EMPTY_TAG_FORM)
+    setTagDialogOpen(true)
+  }
+
+  const openEditTag = (tag: Tag) => {
+    setEditingTag(tag)
+    setTagForm({ name: tag.name, color: tag.color, active: tag.active })
+    setTagDialogOpen(true)
+  }
+
+  const handleSaveTag = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(editingTag ? `/api/admin/tags/${editingTag.id}` : '/api/admin/tags', {
+        method: editingTag ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(tagForm)
+      })
+
+      if (response.ok) {
+        toast.success(editingTag ? 'Tag updated' : 'Tag created')
+        setTagDialogOpen(false)
+        fetchTags()
+      } else {
+        await showSaveError(response, 'Failed to save tag')
+      }
+    } catch (error) {
+      console.error('Failed to save tag:', error)
+      toast.error('Failed to save tag')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteTag = async (tag: Tag) => {
+    if (!confirm(`Delete tag "${tag.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/tags/${tag.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        toast.success('Tag deleted')
+        fetchTags()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to delete tag')
+      }
+    } catch (error) {
+      console.error('Failed to delete tag:', error)
+      toast.error('Failed to delete tag')
+    }
+  }
+
+  const openCreateField = () => {
+    setEditingField(null)
+    setFieldForm({ ...EMPTY_FIELD_FORM, sortOrder: fields.length })
+    setFieldDialogOpen(true)
+  }
+
+  const openEditField = (field: CustomField) => {
+    setEditingField(field)
+    setFieldForm({
+      key: field.key,
+      name: field.name,
+      type: field.type,
+      options: field.options.join('\n'),
+      sortOrder: field.sortOrder,
+      active: field.active,
+      requiredProjectIds: field.requiredProjectIds
+    })
+    setFieldDialogOpen(true)
+  }
+
+  const handleSaveField = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(editingField ? `/api/admin/custom-fields/${editingField.id}` : '/api/admin/custom-fields', {
+        method: editingField ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...fieldForm,
+          options: fieldForm.type === 'SELECT'
+            ? fieldForm.options.split('\n').map(option => option.trim()).filter(Boolean)
+            : []
+        })
+      })
+
+      if (response.ok) {
+        toast.success(editingField ? 'Custom field updated' : 'Custom field created')
+        setFieldDialogOpen(false)
+        fetchFields()
+      } else {
+        await showSaveError(response, 'Failed to save custom field')
+      }
+    } catch (error) {
+      console.error('Failed to save custom field:', error)
+      toast.error('Failed to save custom field')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteField = async (field: CustomField) => {
+    if (!confirm(`Delete custom field "${field.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/custom-fields/${field.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        toast.success('Custom field deleted')
+        fetchFields()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to delete custom field')
+      }
+    } catch (error) {
+      console.error('Failed to delete custom field:', error)
+      toast.error('Failed to delete custom field')
+    }
+  }
+
+  const toggleRequiredProject = (projectId: string, checked: boolean) => {
+    setFieldForm(prev => ({
+      ...prev,
+      requiredProjectIds: checked
+        ? [...prev.requiredProjectIds, projectId]
+        : prev.requiredProjectIds.filter(id => id !== projectId)
+    }))
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to manage tags and custom fields.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  // Once a field has values its key and type are fixed
+  const fieldLocked = !!editingField && editingField.entries > 0
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Tags & Custom Fields</h1>
+            <p className="text-gray-600">Extra information people record on their time entries</p>
+          </div>
+          <Badge variant="destructive" className="flex items-center gap-2">
+            <Shield className="h-4 w-4" />
+            Admin Only
+          </Badge>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Tags className="h-5 w-5" />
+                Tags
+              </CardTitle>
+              <CardDescription>
+                Entries can carry any number of tags. Inactive tags stay on existing entries but cannot be picked again.
+              </CardDescription>
+            </div>
+            <Button onClick={openCreateTag}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Tag
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {tags.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No tags yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tag</TableHead>
+                    <TableHead>Entries</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tags.map((tag) => (
+                    <TableRow key={tag.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2 font-medium">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: tag.color }} />
+                          {tag.name}
+                        </div>
+                      </TableCell>
+                      <TableCell>{tag.entries}</TableCell>
+                      <TableCell>
+                        <Badge variant={tag.active ? 'default' : 'secondary'}>
+                          {tag.active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEditTag(tag)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteTag(tag)}
+                            disabled={tag.entries > 0}
+                            title={tag.entries > 0 ? 'Tags in use cannot be deleted. Deactivate it instead' : undefined}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ListPlus className="h-5 w-5" />
+                Custom Fields
+              </CardTitle>
+              <CardDescription>
+                Typed values on each entry, optionally required on selected projects. They appear as columns in exports.
+              </CardDescription>
+            </div>
+            <Button onClick={openCreateField}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Field
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {fields.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No custom fields yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Required On</TableHead>
+                    <TableHead>Entries</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {fields.map((field) => (
+                    <TableRow key={field.id}>
+                      <TableCell>
+                        <div className="font-medium">{field.name}</div>
+                        <div className="text-sm text-gray-500 font-mono">{field.key}</div>
+                      </TableCell>
+                      <TableCell>
+                        {FIELD_TYPE_LABELS[field.type]}
+                        {field.type === 'SELECT' && (
+                          <div className="text-sm text-gray-500">{field.options.join(', ')}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {field.requiredProjectIds.length === 0 && <span className="text-sm text-gray-400">Optional</span>}
+                          {projects
+                            .filter(project => field.requiredProjectIds.includes(project.id))
+                            .map((project) => (
+                              <Badge key={project.id} variant="outline" className="flex items-center gap-1">
+                                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: project.color }} />
+                                {project.name}
+                              </Badge>
+                            ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{field.entries}</TableCell>
+                      <TableCell>
+                        <Badge variant={field.active ? 'default' : 'secondary'}>
+                          {field.active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEditField(field)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteField(field)}
+                            disabled={field.entries > 0}
+                            title={field.entries > 0 ? 'Fields with values cannot be deleted. Deactivate it instead' : undefined}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create / Edit Tag Dialog */}
+        <Dialog open={tagDialogOpen} onOpenChange={setTagDialogOpen}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>{editingTag ? 'Edit Tag' : 'New Tag'}</DialogTitle>
+              <DialogDescription>Renaming a tag updates it on every entry</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-2">
+              <div className="grid gap-2">
+                <Label htmlFor="tagName">Name</Label>
+                <Input
+                  id="tagName"
+                  value={tagForm.name}
+                  onChange={(e) => setTagForm({ ...tagForm, name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="tagColor">Color</Label>
+                <Input
+                  id="tagColor"
+                  type="color"
+                  className="h-10 w-20 p-1"
+                  value={tagForm.color}
+                  onChange={(e) => setTagForm({ ...tagForm, color: e.target.value })}
+                />
+              </div>
+              {editingTag && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="tagActive"
+                    checked={tagForm.active}
+                    onCheckedChange={(checked) => setTagForm({ ...tagForm, active: checked === true })}
+                  />
+                  <Label htmlFor="tagActive">Active</Label>
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setTagDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveTag} disabled={saving || !tagForm.name.trim()}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingTag ? 'Update Tag' : 'Create Tag'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Create / Edit Custom Field Dialog */}
+        <Dialog open={fieldDialogOpen} onOpenChange={setFieldDialogOpen}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingField ? 'Edit Custom Field' : 'New Custom Field'}</DialogTitle>
+              <DialogDescription>
+                {fieldLocked
+                  ? 'This field already has values, so its key and type can no longer change.'
+                  : 'The key is used in report filters, e.g. field.ticket=ABC-123'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-2 max-h-[60vh] overflow-y-auto">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="fieldName">Name</Label>
+                  <Input
+                    id="fieldName"
+                    value={fieldForm.name}
+                    onChange={(e) => setFieldForm({ ...fieldForm, name: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="fieldKey">Key</Label>
+                  <Input
+                    id="fieldKey"
+                    className="font-mono"
+                    value={fieldForm.key}
+                    disabled={fieldLocked}
+                    onChange={(e) => setFieldForm({ ...fieldForm, key: e.target.value.toLowerCase() })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={fieldForm.type}
+                    disabled={fieldLocked}
+                    onValueChange={(value) => setFieldForm({ ...fieldForm, type: value as FieldType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FIELD_TYPE_LABELS) as FieldType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="fieldSortOrder">Sort Order</Label>
+                  <Input
+                    id="fieldSortOrder"
+                    type="number"
+                    min="0"
+                    max="1000"
+                    value={fieldForm.sortOrder}
+                    onChange={(e) => setFieldForm({ ...fieldForm, sortOrder: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              {fieldForm.type === 'SELECT' && (
+                <div className="grid gap-2">
+                  <Label htmlFor="fieldOptions">Options (one per line)</Label>
+                  <Textarea
+                    id="fieldOptions"
+                    rows={4}
+                    value={fieldForm.options}
+                    onChange={(e) => setFieldForm({ ...fieldForm, options: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label>Required On Projects</Label>
+                <div className="border rounded p-3 space-y-2 max-h-40 overflow-y-auto">
+                  {projects.map((project) => (
+                    <div key={project.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`required-${project.id}`}
+                        checked={fieldForm.requiredProjectIds.includes(project.id)}
+                        onCheckedChange={(checked) => toggleRequiredProject(project.id, checked === true)}
+                      />
+                      <Label htmlFor={`required-${project.id}`} className="flex items-center gap-2 font-normal">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: project.color }} />
+                        {project.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              {editingField && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="fieldActive"
+                    checked={fieldForm.active}
+                    onCheckedChange={(checked) => setFieldForm({ ...fieldForm, active: checked === true })}
+                  />
+                  <Label htmlFor="fieldActive">Active</Label>
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setFieldDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveField} disabled={saving || !fieldForm.name.trim() || !fieldForm.key.trim()}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingField ? 'Update Field' : 'Create Field'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
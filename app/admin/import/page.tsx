@@ -0,0 +1,503 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2, Shield, Upload, Columns3, ClipboardCheck, CheckCircle, AlertTriangle, Copy } from 'lucide-react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+
+type MappingField = 'email' | 'project' | 'date' | 'startTime' | 'endTime' | 'hours' | 'description'
+
+type ColumnMapping = Record<MappingField, string>
+
+type ImportSource = 'native' | 'toggl' | 'harvest' | 'clockify'
+
+interface AnalyzeResult {
+  fileName: string
+  headers: string[]
+  rowCount: number
+  sampleRows: (string | number | boolean | null)[][]
+  detectedSource: Exclude<ImportSource, 'native'> | null
+  suggestedMapping: Partial<ColumnMapping>
+}
+
+interface PreviewRow {
+  rowNumber: number
+  errors: string[]
+  entry: {
+    userEmail: string
+    projectId: string | null
+    projectName: string
+    date: string
+    startTime: string
+    endTime: string
+    duration: number
+    description: string | null
+  } | null
+  duplicateOf: string | null
+}
+
+interface PreviewResult {
+  rows: PreviewRow[]
+  summary: {
+    total: number
+    valid: number
+    invalid: number
+    duplicates: number
+    hours: number
+    users: number
+    projects: number
+    newProjects: string[]
+  }
+}
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  native: 'Spreadsheet (map columns)',
+  toggl: 'Toggl Track detailed export',
+  harvest: 'Harvest detailed time export',
+  clockify: 'Clockify detailed export'
+}
+
+const MAPPING_FIELDS: { field: MappingField; label: string; required: boolean }[] = [
+  { field: 'email', label: 'User Email', required: true },
+  { field: 'project', label: 'Project Name or Code', required: true },
+  { field: 'date', label: 'Date', required: true },
+  { field: 'startTime', label: 'Start Time', required: false },
+  { field: 'endTime', label: 'End Time', required: false },
+  { field: 'hours', label: 'Hours', required: false },
+  { field: 'description', label: 'Description', required: false }
+]
+
+const EMPTY_MAPPING: ColumnMapping = {
+  email: 'none',
+  project: 'none',
+  date: 'none',
+  startTime: 'none',
+  endTime: 'none',
+  hours: 'none',
+  description: 'none'
+}
+
+// Rows with errors are listed first and the table is capped to keep large files responsive
+const PREVIEW_ROW_LIMIT = 200
+
+export default function AdminImportPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [file, setFile] = useState<File | null>(null)
+  const [analysis, setAnalysis] = useState<AnalyzeResult | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING)
+  const [source, setSource] = useState<ImportSource>('native')
+  const [createMissingProjects, setCreateMissingProjects] = useState(false)
+  const [preview, setPreview] = useState<PreviewResult | null>(null)
+  const [working, setWorking] = useState<'analyze' | 'preview' | 'commit' | null>(null)
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  const sendStep = async (step: 'analyze' | 'preview' | 'commit') => {
+    if (!file) return null
+
+    const body = new FormData()
+    body.append('file', file)
+    body.append('step', step)
+    body.append('source', source)
+    body.append('createMissingProjects', String(createMissingProjects))
+    if (step !== 'analyze' && source === 'native') {
+      body.append('mapping', JSON.stringify(
+        Object.fromEntries(Object.entries(mapping).map(([field, header]) => [field, header === 'none' ? null : header]))
+      ))
+    }
+
+    return fetch('/api/admin/time-entries/import', { method: 'POST', body })
+  }
+
+  const showError = async (response: Response, fallback: string) => {
+    const errorData = await response.json()
+    const fieldError = errorData.details ? Object.values(errorData.details).flat()[0] : null
+    toast.error((fieldError as string) || errorData.error || fallback)
+    return errorData
+  }
+
+  const handleAnalyze = async () => {
+    setWorking('analyze')
+    setAnalysis(null)
+    setPreview(null)
+    try {
+      const response = await sendStep('analyze')
+      if (!response) return
+
+      if (response.ok) {
+        const data: AnalyzeResult = await response.json()
+        setAnalysis(data)
+        setSource(data.detectedSource ?? 'native')
+        setMapping({ ...EMPTY_MAPPING, ...data.suggestedMapping })
+      } else {
+        await showError(response, 'Failed to read the file')
+      }
+    } catch (error) {
+      console.error('Failed to read import file:', error)
+      toast.error('Failed to read the file')
+    } finally {
+      setWorking(null)
+    }
+  }
+
+  const handlePreview = async () => {
+    setWorking('preview')
+    try {
+      const response = await sendStep('preview')
+      if (!response) return
+
+      if (response.ok) {
+        setPreview(await response.json())
+      } else {
+        await showError(response, 'Failed to run the dry run')
+      }
+    } catch (error) {
+      console.error('Failed to preview import:', error)
+      toast.error('Failed to run the dry run')
+    } finally {
+      setWorking(null)
+    }
+  }
+
+  const handleCommit = async () => {
+    if (!preview) return
+
+    const newProjects = preview.summary.newProjects.length > 0
+      ? ` and create ${preview.summary.newProjects.length} projects`
+      : ''
+    if (!confirm(`Import ${preview.summary.valid} entries (${preview.summary.hours}h)${newProjects}?`)) return
+
+    setWorking('commit')
+    try {
+      const response = await sendStep('commit')
+      if (!response) return
+
+      if (response.ok) {
+        const data = await response.json()
+        toast.success(`Imported ${data.created} entries${data.skipped > 0 ? `, skipped ${data.skipped} already imported` : ''}`)
+        setFile(null)
+        setAnalysis(null)
+        setPreview(null)
+        setMapping(EMPTY_MAPPING)
+        setSource('native')
+        setCreateMissingProjects(false)
+      } else {
+        const errorData = await showError(response, 'Import failed')
+        // Something changed since the dry run; show the new row errors
+        if (errorData.preview) setPreview(errorData.preview)
+      }
+    } catch (error) {
+      console.error('Failed to import time entries:', error)
+      toast.error('Import failed')
+    } finally {
+      setWorking(null)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to import time entries.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  const mappingComplete = source !== 'native' || mapping.email !== 'none' && mapping.project !== 'none' && mapping.date !== 'none' &&
+    (mapping.hours !== 'none' || (mapping.startTime !== 'none' && mapping.endTime !== 'none'))
+
+  const previewRows = preview
+    ? [...preview.rows].sort((a, b) =>
+        Number(b.errors.length > 0) - Number(a.errors.length > 0) ||
+        Number(!!b.duplicateOf) - Number(!!a.duplicateOf) ||
+        a.rowNumber - b.rowNumber)
+    : []
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Import Time Entries</h1>
+            <p className="text-gray-600">Bring in historical hours from a spreadsheet or from Toggl, Harvest or Clockify</p>
+          </div>
+          <Badge variant="destructive" className="flex items-center gap-2">
+            <Shield className="h-4 w-4" />
+            Admin Only
+          </Badge>
+        </div>
+
+        {/* Step 1: File */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              1. Choose File
+            </CardTitle>
+            <CardDescription>
+              The first row must hold column headers. Up to 5,000 rows and 5 MB per file.
+              Exports from Toggl Track, Harvest and Clockify are recognised by their columns.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4 md:items-end">
+              <div className="grid gap-2 flex-1">
+                <Label htmlFor="importFile">CSV or XLSX File</Label>
+                <Input
+                  id="importFile"
+                  type="file"
+                  accept=".csv,.xlsx"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] ?? null)
+                    setAnalysis(null)
+                    setPreview(null)
+                  }}
+                />
+              </div>
+              <Button onClick={handleAnalyze} disabled={!file || working !== null}>
+                {working === 'analyze' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Read File
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Step 2: Mapping */}
+        {analysis && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Columns3 className="h-5 w-5" />
+                2. Map Columns
+              </CardTitle>
+              <CardDescription>
+                {analysis.fileName} has {analysis.rowCount} rows. Rows with hours but no start and end times
+                are placed back to back from 09:00 on their day, after any time already logged that day.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:items-end">
+                <div className="grid gap-2">
+                  <Label>File Format</Label>
+                  <Select
+                    value={source}
+                    onValueChange={(value: ImportSource) => {
+                      setSource(value)
+                      setPreview(null)
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SOURCE_LABELS) as ImportSource[]).map((option) => (
+                        <SelectItem key={option} value={option}>{SOURCE_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Checkbox
+                    id="createMissingProjects"
+                    checked={createMissingProjects}
+                    onCheckedChange={(checked) => {
+                      setCreateMissingProjects(checked === true)
+                      setPreview(null)
+                    }}
+                  />
+                  <Label htmlFor="createMissingProjects">Create projects that don&apos;t exist yet</Label>
+                </div>
+              </div>
+
+              {source !== 'native' ? (
+                <p className="text-sm text-gray-600">
+                  Columns are read from the standard {SOURCE_LABELS[source]}. Users are matched by email, or by name when
+                  the export has no email; tasks are matched by name within the project and otherwise kept in the description.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  {MAPPING_FIELDS.map(({ field, label, required }) => (
+                    <div key={field} className="grid gap-2">
+                      <Label>
+                        {label}{required && <span className="text-red-600"> *</span>}
+                      </Label>
+                      <Select
+                        value={mapping[field]}
+                        onValueChange={(value) => {
+                          setMapping({ ...mapping, [field]: value })
+                          setPreview(null)
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Not mapped</SelectItem>
+                          {analysis.headers.filter(Boolean).map((header) => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {analysis.headers.map((header, index) => (
+                        <TableHead key={index}>{header}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analysis.sampleRows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {analysis.headers.map((_, index) => (
+                          <TableCell key={index} className="whitespace-nowrap">{row[index] === null ? '' : String(row[index])}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={handlePreview} disabled={!mappingComplete || working !== null}>
+                  {working === 'preview' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Run Dry Run
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Step 3: Preview */}
+        {preview && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                3. Review and Import
+              </CardTitle>
+              <CardDescription>
+                Nothing has been saved yet. The import only goes ahead when every row is valid or already imported; then all new rows are saved together.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{preview.summary.total} rows</Badge>
+                <Badge variant="default" className="bg-green-600">{preview.summary.valid} valid</Badge>
+                {preview.summary.invalid > 0 && <Badge variant="destructive">{preview.summary.invalid} with errors</Badge>}
+                {preview.summary.duplicates > 0 && (
+                  <Badge variant="outline" className="border-amber-500 text-amber-700">{preview.summary.duplicates} already imported</Badge>
+                )}
+                <Badge variant="outline">{preview.summary.hours}h</Badge>
+                <Badge variant="outline">{preview.summary.users} users</Badge>
+                <Badge variant="outline">{preview.summary.projects} projects</Badge>
+              </div>
+
+              {preview.summary.newProjects.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  New projects to create: {preview.summary.newProjects.join(', ')}
+                </p>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>{row.entry?.userEmail ?? '-'}</TableCell>
+                      <TableCell>
+                        {row.entry?.projectName ?? '-'}
+                        {row.entry && !row.entry.projectId && <Badge variant="secondary" className="ml-2">New</Badge>}
+                      </TableCell>
+                      <TableCell>{row.entry?.date ?? '-'}</TableCell>
+                      <TableCell>
+                        {row.entry
+                          ? `${format(new Date(row.entry.startTime), 'HH:mm')} - ${format(new Date(row.entry.endTime), 'HH:mm')}`
+                          : '-'}
+                      </TableCell>
+                      <TableCell>{row.entry ? (row.entry.duration / 60).toFixed(2) : '-'}</TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <div className="flex items-start gap-1 text-sm text-red-600">
+                            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                            <span>{row.errors.join('; ')}</span>
+                          </div>
+                        ) : row.duplicateOf ? (
+                          <div className="flex items-center gap-1 text-sm text-amber-700">
+                            <Copy className="h-4 w-4 shrink-0" />
+                            <span>Already imported, skipped</span>
+                          </div>
+                        ) : (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {previewRows.length > PREVIEW_ROW_LIMIT && (
+                <p className="text-sm text-gray-500">Showing the first {PREVIEW_ROW_LIMIT} of {previewRows.length} rows.</p>
+              )}
+
+              <div className="flex justify-end">
+                <Button onClick={handleCommit} disabled={preview.summary.invalid > 0 || preview.summary.valid === 0 || working !== null}>
+                  {working === 'commit' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Import {preview.summary.valid} Entries
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,548 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Loader2, Shield, Receipt, Plus, Download, Send, CheckCircle, Trash2, Undo2, AlertTriangle } from 'lucide-react'
+import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns'
+import { toast } from 'sonner'
+import { downloadInvoicePdf, InvoicePdfData } from '@/lib/invoice-pdf'
+
+type InvoiceStatus = 'DRAFT' | 'SENT' | 'PAID'
+
+interface Invoice {
+  id: string
+  number: string
+  status: InvoiceStatus
+  periodStart: string
+  periodEnd: string
+  issueDate: string
+  dueDate: string | null
+  currency: string
+  subtotal: number
+  client: { id: string; name: string }
+  _count: { lineItems: number; timeEntries: number }
+}
+
+interface Client {
+  id: string
+  name: string
+  active: boolean
+}
+
+interface InvoicePreview {
+  clientName: string
+  currency: string
+  lines: {
+    description: string
+    hours: number
+    rate: number
+    amount: number
+    entryIds: string[]
+  }[]
+  subtotal: number
+  entryCount: number
+  missingRates: {
+    projectName: string
+    userName: string
+    hours: number
+  }[]
+}
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+
+export default function AdminInvoicesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [clients, setClients] = useState<Client[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState('all')
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  // New invoice dialog
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [previewing, setPreviewing] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [preview, setPreview] = useState<InvoicePreview | null>(null)
+  const lastMonth = subMonths(new Date(), 1)
+  const [form, setForm] = useState({
+    clientId: '',
+    periodStart: format(startOfMonth(lastMonth), 'yyyy-MM-dd'),
+    periodEnd: format(endOfMonth(lastMonth), 'yyyy-MM-dd'),
+    notes: ''
+  })
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchClients()
+    }
+  }, [session])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchInvoices()
+    }
+  }, [session, statusFilter])
+
+  const fetchInvoices = async () => {
+    try {
+      const params = statusFilter !== 'all' ? `?status=${statusFilter}` : ''
+      const response = await fetch(`/api/admin/invoices${params}`)
+      if (response.ok) {
+        setInvoices(await response.json())
+      } else {
+        toast.error('Failed to fetch invoices')
+      }
+    } catch (error) {
+      console.error('Failed to fetch invoices:', error)
+      toast.error('Failed to fetch invoices')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchClients = async () => {
+    try {
+      const response = await fetch('/api/admin/clients')
+      if (response.ok) {
+        const data = await response.json()
+        setClients(data.filter((client: Client) => client.active))
+      }
+    } catch (error) {
+      console.error('Failed to fetch clients:', error)
+    }
+  }
+
+  const openNewInvoice = () => {
+    setPreview(null)
+    setForm({ ...form, notes: '' })
+    setDialogOpen(true)
+  }
+
+  const handlePreview = async () => {
+    if (!form.clientId) {
+      toast.error('Please select a client')
+      return
+    }
+
+    setPreviewing(true)
+    try {
+      const response = await fetch('/api/admin/invoices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, dryRun: true })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setPreview(data.preview)
+      } else {
+        toast.error(data.error || 'Failed to preview invoice')
+      }
+    } catch (error) {
+      console.error('Failed to preview invoice:', error)
+      toast.error('Failed to preview invoice')
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      const response = await fetch('/api/admin/invoices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(`Invoice ${data.number} created`)
+        setDialogOpen(false)
+        fetchInvoices()
+      } else {
+        toast.error(data.error || 'Failed to create invoice')
+      }
+    } catch (error) {
+      console.error('Failed to create invoice:', error)
+      toast.error('Failed to create invoice')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const updateStatus = async (invoice: Invoice, newStatus: InvoiceStatus) => {
+    setUpdatingId(invoice.id)
+    try {
+      const response = await fetch(`/api/admin/invoices/${invoice.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus })
+      })
+
+      if (response.ok) {
+        toast.success(`Invoice ${invoice.number} marked as ${newStatus.toLowerCase()}`)
+        fetchInvoices()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to update invoice')
+      }
+    } catch (error) {
+      console.error('Failed to update invoice:', error)
+      toast.error('Failed to update invoice')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const handleDelete = async (invoice: Invoice) => {
+    if (!confirm(`Delete draft invoice ${invoice.number}? Its entries become available for billing again.`)) return
+
+    setUpdatingId(invoice.id)
+    try {
+      const response = await fetch(`/api/admin/invoices/${invoice.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        toast.success(`Invoice ${invoice.number} deleted`)
+        fetchInvoices()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to delete invoice')
+      }
+    } catch (error) {
+      console.error('Failed to delete invoice:', error)
+      toast.error('Failed to delete invoice')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      const response = await fetch(`/api/admin/invoices/${invoice.id}`)
+      if (response.ok) {
+        const data: InvoicePdfData = await response.json()
+        downloadInvoicePdf(data)
+      } else {
+        toast.error('Failed to load invoice')
+      }
+    } catch (error) {
+      console.error('Failed to export invoice:', error)
+      toast.error('Failed to export invoice')
+    }
+  }
+
+  const getStatusBadge = (invoiceStatus: InvoiceStatus) => {
+    switch (invoiceStatus) {
+      case 'DRAFT':
+        return <Badge variant="outline">Draft</Badge>
+      case 'SENT':
+        return <Badge variant="secondary" className="bg-blue-100 text-blue-800">Sent</Badge>
+      case 'PAID':
+        return <Badge variant="secondary" className="bg-green-100 text-green-800">Paid</Badge>
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to manage invoices.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Invoices</h1>
+            <p className="text-gray-600">Bill clients for approved billable hours</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Button onClick={openNewInvoice} disabled={clients.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Invoice
+            </Button>
+            <Badge variant="destructive" className="flex items-center gap-2">
+              <Shield className="h-4 w-4" />
+              Admin Only
+            </Badge>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Receipt className="h-5 w-5" />
+                  All Invoices
+                </CardTitle>
+                <CardDescription>Draft invoices can be deleted; sent and paid invoices keep their entries locked</CardDescription>
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  <SelectItem value="DRAFT">Draft</SelectItem>
+                  <SelectItem value="SENT">Sent</SelectItem>
+                  <SelectItem value="PAID">Paid</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {invoices.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No invoices found</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Issued</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoices.map((invoice) => (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="font-medium">{invoice.number}</TableCell>
+                      <TableCell>{invoice.client.name}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(invoice.periodStart), 'MMM dd')} - {format(new Date(invoice.periodEnd), 'MMM dd, yyyy')}
+                      </TableCell>
+                      <TableCell>{format(new Date(invoice.issueDate), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>{invoice.dueDate ? format(new Date(invoice.dueDate), 'MMM dd, yyyy') : '-'}</TableCell>
+                      <TableCell className="text-right">{formatMoney(invoice.subtotal, invoice.currency)}</TableCell>
+                      <TableCell>{getStatusBadge(invoice.status)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleDownload(invoice)} title="Download PDF">
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          {invoice.status === 'DRAFT' && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => updateStatus(invoice, 'SENT')}
+                                disabled={updatingId === invoice.id}
+                                title="Mark as sent"
+                              >
+                                <Send className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDelete(invoice)}
+                                disabled={updatingId === invoice.id}
+                                title="Delete draft"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {invoice.status === 'SENT' && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => updateStatus(invoice, 'PAID')}
+                                disabled={updatingId === invoice.id}
+                                title="Mark as paid"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => updateStatus(invoice, 'DRAFT')}
+                                disabled={updatingId === invoice.id}
+                                title="Back to draft"
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* New Invoice Dialog */}
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>New Invoice</DialogTitle>
+              <DialogDescription>
+                Approved billable entries of the client&apos;s billable projects that are not yet invoiced
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 max-h-[65vh] overflow-y-auto">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid gap-2">
+                  <Label>Client</Label>
+                  <Select
+                    value={form.clientId}
+                    onValueChange={(value) => { setForm({ ...form, clientId: value }); setPreview(null) }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a client" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clients.map((client) => (
+                        <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="periodStart">From</Label>
+                  <Input
+                    id="periodStart"
+                    type="date"
+                    value={form.periodStart}
+                    onChange={(e) => { setForm({ ...form, periodStart: e.target.value }); setPreview(null) }}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="periodEnd">To</Label>
+                  <Input
+                    id="periodEnd"
+                    type="date"
+                    value={form.periodEnd}
+                    onChange={(e) => { setForm({ ...form, periodEnd: e.target.value }); setPreview(null) }}
+                  />
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="invoiceNotes">Notes (optional)</Label>
+                <Textarea
+                  id="invoiceNotes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  placeholder="Payment instructions, PO number..."
+                />
+              </div>
+
+              {preview && (
+                <div className="space-y-3">
+                  {preview.missingRates.length > 0 && (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        No bill rate is set for: {preview.missingRates.map(m => `${m.userName} on ${m.projectName} (${m.hours}h)`).join(', ')}.
+                        Add the missing rates on the Clients page before creating this invoice.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {preview.lines.length === 0 ? (
+                    <div className="text-center py-6 text-gray-500">
+                      No approved billable entries in this period
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Description</TableHead>
+                          <TableHead className="text-right">Hours</TableHead>
+                          <TableHead className="text-right">Rate</TableHead>
+                          <TableHead className="text-right">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.lines.map((line, index) => (
+                          <TableRow key={index}>
+                            <TableCell>{line.description}</TableCell>
+                            <TableCell className="text-right">{line.hours.toFixed(2)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(line.rate, preview.currency)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(line.amount, preview.currency)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                      <TableFooter>
+                        <TableRow>
+                          <TableCell>Total ({preview.entryCount} entries)</TableCell>
+                          <TableCell className="text-right">
+                            {preview.lines.reduce((sum, line) => sum + line.hours, 0).toFixed(2)}
+                          </TableCell>
+                          <TableCell></TableCell>
+                          <TableCell className="text-right">{formatMoney(preview.subtotal, preview.currency)}</TableCell>
+                        </TableRow>
+                      </TableFooter>
+                    </Table>
+                  )}
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button variant="outline" onClick={handlePreview} disabled={previewing || !form.clientId}>
+                {previewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={creating || !preview || preview.lines.length === 0 || preview.missingRates.length > 0}
+              >
+                {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create Draft
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,1067 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import LeaveStatusBadge, { LeaveStatus } from '@/components/leave/leave-status-badge'
+import { CalendarOff, CheckCircle, Edit, Loader2, Plus, Scale, Shield, Trash2, TreePalm, Upload, Users, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface User {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface LeaveType {
+  id: string
+  name: string
+  color: string
+  paid: boolean
+  annualAllowanceDays: number
+  requiresApproval: boolean
+  active: boolean
+}
+
+interface LeaveRequest {
+  id: string
+  user: User
+  leaveType: { id: string; name: string; color: string }
+  startDate: string
+  endDate: string
+  days: number
+  note: string | null
+  status: LeaveStatus
+  reviewComment: string | null
+  createdAt: string
+}
+
+interface LeaveBalance {
+  leaveType: LeaveType
+  year: number
+  tracked: boolean
+  allowanceDays: number
+  accruedDays: number
+  adjustmentDays: number
+  takenDays: number
+  pendingDays: number
+  availableDays: number
+}
+
+interface HolidayCalendar {
+  id: string
+  name: string
+  region: string | null
+  userIds: string[]
+  holidays: { id: string; date: string; name: string }[]
+}
+
+interface LeaveTypeFormData {
+  name: string
+  color: string
+  paid: boolean
+  annualAllowanceDays: string
+  requiresApproval: boolean
+  active: boolean
+}
+
+const EMPTY_TYPE_FORM: LeaveTypeFormData = {
+  name: '',
+  color: '#10b981',
+  paid: true,
+  annualAllowanceDays: '0',
+  requiresApproval: true,
+  active: true
+}
+
+function formatDay(date: string): string {
+  return format(new Date(`${date}T00:00:00`), 'EEE, MMM d, yyyy')
+}
+
+function firstError(data: { error?: string; details?: Record<string, string[]> }, fallback: string): string {
+  const detail = data.details ? Object.values(data.details).flat()[0] : undefined
+  return detail || data.error || fallback
+}
+
+export default function AdminLeavePage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [loading, setLoading] = useState(true)
+  const [users, setUsers] = useState<User[]>([])
+  const [types, setTypes] = useState<LeaveType[]>([])
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([])
+
+  // Requests
+  const [requests, setRequests] = useState<LeaveRequest[]>([])
+  const [statusFilter, setStatusFilter] = useState<LeaveStatus | 'ALL'>('PENDING')
+  const [reviewing, setReviewing] = useState<{ request: LeaveRequest; action: 'approve' | 'reject' } | null>(null)
+  const [comment, setComment] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  // Leave type dialog; null id creates a new type
+  const [typeDialog, setTypeDialog] = useState<{ id: string | null; form: LeaveTypeFormData } | null>(null)
+
+  // Holiday calendars
+  const [calendarDialog, setCalendarDialog] = useState<{ id: string | null; name: string; region: string; userIds: string[] } | null>(null)
+  const [newHoliday, setNewHoliday] = useState<Record<string, { date: string; name: string }>>({})
+  const [importing, setImporting] = useState<string | null>(null)
+
+  // Balances
+  const [balanceUserId, setBalanceUserId] = useState('')
+  const [balanceYear, setBalanceYear] = useState(new Date().getFullYear())
+  const [balances, setBalances] = useState<LeaveBalance[]>([])
+  const [adjustment, setAdjustment] = useState({ leaveTypeId: '', days: '', reason: '' })
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ scope: 'all' })
+      if (statusFilter !== 'ALL') params.set('status', statusFilter)
+
+      const response = await fetch(`/api/leave/requests?${params}`)
+      const data = await response.json()
+      if (response.ok) {
+        setRequests(data)
+      } else {
+        toast.error(data.error || 'Failed to fetch leave requests')
+      }
+    } catch (error) {
+      console.error('Failed to fetch leave requests:', error)
+      toast.error('Failed to fetch leave requests')
+    }
+  }, [statusFilter])
+
+  const fetchTypes = async () => {
+    try {
+      const response = await fetch('/api/admin/leave-types')
+      if (response.ok) setTypes(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch leave types:', error)
+    }
+  }
+
+  const fetchCalendars = async () => {
+    try {
+      const response = await fetch('/api/admin/holiday-calendars')
+      if (response.ok) setCalendars(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch holiday calendars:', error)
+    }
+  }
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users')
+      if (response.ok) setUsers(await response.json())
+    } catch (error) {
+      console.error('Failed to fetch users:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      Promise.all([fetchTypes(), fetchCalendars(), fetchUsers()]).finally(() => setLoading(false))
+    }
+  }, [session])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchRequests()
+    }
+  }, [session, fetchRequests])
+
+  const fetchBalances = useCallback(async () => {
+    if (!balanceUserId) return
+
+    try {
+      const response = await fetch(`/api/leave/balances?userId=${balanceUserId}&year=${balanceYear}`)
+      const data = await response.json()
+      if (response.ok) {
+        setBalances(data)
+      } else {
+        toast.error(data.error || 'Failed to fetch balances')
+      }
+    } catch (error) {
+      console.error('Failed to fetch leave balances:', error)
+      toast.error('Failed to fetch balances')
+    }
+  }, [balanceUserId, balanceYear])
+
+  useEffect(() => {
+    fetchBalances()
+  }, [fetchBalances])
+
+  const updateRequest = async (request: LeaveRequest, action: 'approve' | 'reject' | 'cancel', reviewComment?: string) => {
+    const response = await fetch(`/api/leave/requests/${request.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, comment: reviewComment || null })
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      toast.error(data.error || 'Failed to update the request')
+      return false
+    }
+
+    toast.success(action === 'approve' ? 'Leave approved' : action === 'reject' ? 'Leave rejected' : 'Leave cancelled')
+    await fetchRequests()
+    return true
+  }
+
+  const handleReview = async () => {
+    if (!reviewing) return
+
+    setSubmitting(true)
+    try {
+      if (await updateRequest(reviewing.request, reviewing.action, comment)) {
+        setReviewing(null)
+        setComment('')
+      }
+    } catch (error) {
+      console.error('Failed to review leave request:', error)
+      toast.error('Failed to update the request')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleCancelRequest = async (request: LeaveRequest) => {
+    if (!confirm(`Cancel ${request.user.name || request.user.email}'s ${request.leaveType.name} from ${formatDay(request.startDate)}?`)) return
+
+    try {
+      await updateRequest(request, 'cancel')
+    } catch (error) {
+      console.error('Failed to cancel leave request:', error)
+      toast.error('Failed to update the request')
+    }
+  }
+
+  const handleSaveType = async () => {
+    if (!typeDialog) return
+
+    setSubmitting(true)
+    try {
+      const { id, form } = typeDialog
+      const response = await fetch(id ? `/api/admin/leave-types/${id}` : '/api/admin/leave-types', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, annualAllowanceDays: Number(form.annualAllowanceDays) })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(firstError(data, 'Failed to save leave type'))
+        return
+      }
+
+      toast.success(id ? 'Leave type updated' : 'Leave type created')
+      setTypeDialog(null)
+      await fetchTypes()
+    } catch (error) {
+      console.error('Failed to save leave type:', error)
+      toast.error('Failed to save leave type')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleSaveCalendar = async () => {
+    if (!calendarDialog) return
+
+    setSubmitting(true)
+    try {
+      const { id, name, region, userIds } = calendarDialog
+      const response = await fetch(id ? `/api/admin/holiday-calendars/${id}` : '/api/admin/holiday-calendars', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, region: region || null, userIds })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(firstError(data, 'Failed to save holiday calendar'))
+        return
+      }
+
+      toast.success(id ? 'Holiday calendar updated' : 'Holiday calendar created')
+      setCalendarDialog(null)
+      await fetchCalendars()
+    } catch (error) {
+      console.error('Failed to save holiday calendar:', error)
+      toast.error('Failed to save holiday calendar')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDeleteCalendar = async (calendar: HolidayCalendar) => {
+    if (!confirm(`Delete ${calendar.name} and its ${calendar.holidays.length} holidays?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/holiday-calendars/${calendar.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to delete holiday calendar')
+        return
+      }
+
+      toast.success(`Holiday calendar deleted; spend recalculated for ${data.projectsRecalculated} project(s)`)
+      await fetchCalendars()
+    } catch (error) {
+      console.error('Failed to delete holiday calendar:', error)
+      toast.error('Failed to delete holiday calendar')
+    }
+  }
+
+  const handleImport = async (calendar: HolidayCalendar, file: File) => {
+    setImporting(calendar.id)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch(`/api/admin/holiday-calendars/${calendar.id}/import`, { method: 'POST', body: formData })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to import holidays')
+        return
+      }
+
+      const { added, updated, unchanged, skipped } = data.result
+      toast.success(`Imported ${added} new and ${updated} renamed holidays (${unchanged} unchanged${skipped ? `, ${skipped} events skipped` : ''}); spend recalculated for ${data.projectsRecalculated} project(s)`)
+      await fetchCalendars()
+    } catch (error) {
+      console.error('Failed to import holidays:', error)
+      toast.error('Failed to import holidays')
+    } finally {
+      setImporting(null)
+    }
+  }
+
+  const handleAddHoliday = async (calendar: HolidayCalendar) => {
+    const holiday = newHoliday[calendar.id]
+    if (!holiday?.date || !holiday.name.trim()) {
+      toast.error('Enter a date and a name')
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/admin/holiday-calendars/${calendar.id}/holidays`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(holiday)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(firstError(data, 'Failed to add holiday'))
+        return
+      }
+
+      setNewHoliday({ ...newHoliday, [calendar.id]: { date: '', name: '' } })
+      await fetchCalendars()
+    } catch (error) {
+      console.error('Failed to add holiday:', error)
+      toast.error('Failed to add holiday')
+    }
+  }
+
+  const handleDeleteHoliday = async (calendar: HolidayCalendar, holidayId: string) => {
+    try {
+      const response = await fetch(`/api/admin/holiday-calendars/${calendar.id}/holidays/${holidayId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to delete holiday')
+        return
+      }
+
+      await fetchCalendars()
+    } catch (error) {
+      console.error('Failed to delete holiday:', error)
+      toast.error('Failed to delete holiday')
+    }
+  }
+
+  const handleAdjust = async () => {
+    if (!balanceUserId || !adjustment.leaveTypeId) {
+      toast.error('Choose a user and a leave type')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/admin/leave-adjustments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId: balanceUserId,
+          leaveTypeId: adjustment.leaveTypeId,
+          year: balanceYear,
+          days: Number(adjustment.days),
+          reason: adjustment.reason
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(firstError(data, 'Failed to adjust the balance'))
+        return
+      }
+
+      toast.success('Balance adjusted')
+      setBalances(data)
+      setAdjustment({ leaveTypeId: adjustment.leaveTypeId, days: '', reason: '' })
+    } catch (error) {
+      console.error('Failed to adjust leave balance:', error)
+      toast.error('Failed to adjust the balance')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to manage leave and holidays.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  const thisYear = new Date().getFullYear()
+  const calendarOf = (userId: string) => calendars.find(calendar => calendar.userIds.includes(userId))
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Leave & Holidays</h1>
+            <p className="text-gray-600">Leave requests, leave types and balances, and public holiday calendars</p>
+          </div>
+          <Badge variant="destructive" className="flex items-center gap-2">
+            <Shield className="h-4 w-4" />
+            Admin Only
+          </Badge>
+        </div>
+
+        <Tabs defaultValue="requests" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="requests" className="flex items-center gap-2">
+              <TreePalm className="h-4 w-4" />
+              Requests
+            </TabsTrigger>
+            <TabsTrigger value="types" className="flex items-center gap-2">
+              <Edit className="h-4 w-4" />
+              Leave Types ({types.length})
+            </TabsTrigger>
+            <TabsTrigger value="calendars" className="flex items-center gap-2">
+              <CalendarOff className="h-4 w-4" />
+              Holiday Calendars ({calendars.length})
+            </TabsTrigger>
+            <TabsTrigger value="balances" className="flex items-center gap-2">
+              <Scale className="h-4 w-4" />
+              Balances
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="requests">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle>Leave Requests</CardTitle>
+                    <CardDescription>
+                      Approved leave is taken out of expected hours in oversight, reminders and the hours vs expected report.
+                    </CardDescription>
+                  </div>
+                  <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as LeaveStatus | 'ALL')}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="PENDING">Pending</SelectItem>
+                      <SelectItem value="APPROVED">Approved</SelectItem>
+                      <SelectItem value="REJECTED">Rejected</SelectItem>
+                      <SelectItem value="CANCELLED">Cancelled</SelectItem>
+                      <SelectItem value="ALL">All</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {requests.length === 0 ? (
+                  <p className="text-sm text-gray-500">No leave requests.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Dates</TableHead>
+                        <TableHead className="text-right">Days</TableHead>
+                        <TableHead>Note</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {requests.map(request => (
+                        <TableRow key={request.id}>
+                          <TableCell>
+                            <div className="font-medium">{request.user.name || request.user.email}</div>
+                            <div className="text-xs text-gray-500">{request.user.email}</div>
+                          </TableCell>
+                          <TableCell>
+                            <span className="flex items-center gap-2">
+                              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: request.leaveType.color }} />
+                              {request.leaveType.name}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {formatDay(request.startDate)}
+                            {request.endDate !== request.startDate && <> – {formatDay(request.endDate)}</>}
+                          </TableCell>
+                          <TableCell className="text-right">{request.days}</TableCell>
+                          <TableCell className="text-sm text-gray-600">{request.reviewComment || request.note || ''}</TableCell>
+                          <TableCell><LeaveStatusBadge status={request.status} /></TableCell>
+                          <TableCell className="text-right space-x-2">
+                            {request.status === 'PENDING' && (
+                              <>
+                                <Button size="sm" onClick={() => setReviewing({ request, action: 'approve' })}>
+                                  <CheckCircle className="h-4 w-4 mr-1" />
+                                  Approve
+                                </Button>
+                                <Button size="sm" variant="destructive" onClick={() => setReviewing({ request, action: 'reject' })}>
+                                  <XCircle className="h-4 w-4 mr-1" />
+                                  Reject
+                                </Button>
+                              </>
+                            )}
+                            {request.status === 'APPROVED' && (
+                              <Button size="sm" variant="outline" onClick={() => handleCancelRequest(request)}>
+                                Cancel
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="types">
+            <Card>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle>Leave Types</CardTitle>
+                    <CardDescription>
+                      The annual allowance is earned in monthly parts over the calendar year. Types without an
+                      allowance are not limited.
+                    </CardDescription>
+                  </div>
+                  <Button onClick={() => setTypeDialog({ id: null, form: EMPTY_TYPE_FORM })}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Type
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {types.length === 0 ? (
+                  <p className="text-sm text-gray-500">No leave types yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead className="text-right">Days per Year</TableHead>
+                        <TableHead>Paid</TableHead>
+                        <TableHead>Approval</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {types.map(type => (
+                        <TableRow key={type.id}>
+                          <TableCell>
+                            <span className="flex items-center gap-2 font-medium">
+                              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: type.color }} />
+                              {type.name}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">{type.annualAllowanceDays > 0 ? type.annualAllowanceDays : '—'}</TableCell>
+                          <TableCell>{type.paid ? 'Paid' : 'Unpaid'}</TableCell>
+                          <TableCell>{type.requiresApproval ? 'Required' : 'Automatic'}</TableCell>
+                          <TableCell>
+                            {type.active ? <Badge variant="secondary">Active</Badge> : <Badge variant="outline">Inactive</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setTypeDialog({
+                                id: type.id,
+                                form: { ...type, annualAllowanceDays: String(type.annualAllowanceDays) }
+                              })}
+                            >
+                              <Edit className="h-4 w-4 mr-1" />
+                              Edit
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="calendars" className="space-y-4">
+            <div className="flex justify-between items-center">
+              <p className="text-sm text-gray-600">
+                Each user observes the holidays of one calendar. Import the public holidays of a region from an .ics file.
+              </p>
+              <Button onClick={() => setCalendarDialog({ id: null, name: '', region: '', userIds: [] })}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Calendar
+              </Button>
+            </div>
+
+            {calendars.length === 0 && (
+              <Card>
+                <CardContent className="py-8 text-center text-sm text-gray-500">No holiday calendars yet.</CardContent>
+              </Card>
+            )}
+
+            {calendars.map(calendar => {
+              const upcoming = calendar.holidays.filter(holiday => Number(holiday.date.slice(0, 4)) >= thisYear)
+              const holidayForm = newHoliday[calendar.id] ?? { date: '', name: '' }
+
+              return (
+                <Card key={calendar.id}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle className="flex items-center gap-2">
+                          <CalendarOff className="h-5 w-5" />
+                          {calendar.name}
+                          {calendar.region && <Badge variant="outline">{calendar.region}</Badge>}
+                        </CardTitle>
+                        <CardDescription className="flex items-center gap-1">
+                          <Users className="h-3 w-3" />
+                          {calendar.userIds.length} user(s) · {calendar.holidays.length} holidays
+                        </CardDescription>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Label className="cursor-pointer">
+                          <span className="inline-flex items-center rounded-md border px-3 py-1.5 text-sm hover:bg-gray-50">
+                            {importing === calendar.id
+                              ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                              : <Upload className="h-4 w-4 mr-1" />}
+                            Import .ics
+                          </span>
+                          <input
+                            type="file"
+                            accept=".ics,text/calendar"
+                            className="hidden"
+                            disabled={importing !== null}
+                            onChange={(e) => {
+                              const file = e.target.files?.[0]
+                              e.target.value = ''
+                              if (file) handleImport(calendar, file)
+                            }}
+                          />
+                        </Label>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCalendarDialog({
+                            id: calendar.id,
+                            name: calendar.name,
+                            region: calendar.region ?? '',
+                            userIds: calendar.userIds
+                          })}
+                        >
+                          <Edit className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteCalendar(calendar)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-end gap-2">
+                      <Input
+                        type="date"
+                        className="w-44"
+                        value={holidayForm.date}
+                        onChange={(e) => setNewHoliday({ ...newHoliday, [calendar.id]: { ...holidayForm, date: e.target.value } })}
+                      />
+                      <Input
+                        className="w-64"
+                        placeholder="Holiday name"
+                        value={holidayForm.name}
+                        onChange={(e) => setNewHoliday({ ...newHoliday, [calendar.id]: { ...holidayForm, name: e.target.value } })}
+                      />
+                      <Button variant="outline" onClick={() => handleAddHoliday(calendar)}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Holiday
+                      </Button>
+                    </div>
+
+                    {upcoming.length === 0 ? (
+                      <p className="text-sm text-gray-500">No holidays from {thisYear} on.</p>
+                    ) : (
+                      <div className="max-h-72 overflow-y-auto">
+                        <Table>
+                          <TableBody>
+                            {upcoming.map(holiday => (
+                              <TableRow key={holiday.id}>
+                                <TableCell className="w-56">{formatDay(holiday.date)}</TableCell>
+                                <TableCell>{holiday.name}</TableCell>
+                                <TableCell className="text-right">
+                                  <Button variant="ghost" size="sm" onClick={() => handleDeleteHoliday(calendar, holiday.id)}>
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </TabsContent>
+
+          <TabsContent value="balances">
+            <Card>
+              <CardHeader>
+                <CardTitle>Leave Balances</CardTitle>
+                <CardDescription>
+                  Earned so far this year, with adjustments such as days carried over. Pending requests are held
+                  against the balance until they are reviewed.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2">
+                    <Label>User</Label>
+                    <Select value={balanceUserId} onValueChange={setBalanceUserId}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue placeholder="Choose a user" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {users.map(user => (
+                          <SelectItem key={user.id} value={user.id}>{user.name || user.email}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="balance-year">Year</Label>
+                    <Input
+                      id="balance-year"
+                      type="number"
+                      className="w-28"
+                      value={balanceYear}
+                      onChange={(e) => setBalanceYear(Number(e.target.value))}
+                    />
+                  </div>
+                  {balanceUserId && (
+                    <p className="text-sm text-gray-500 pb-2">
+                      Holidays: {calendarOf(balanceUserId)?.name ?? 'no calendar'}
+                    </p>
+                  )}
+                </div>
+
+                {balanceUserId && (
+                  <>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Type</TableHead>
+                          <TableHead className="text-right">Allowance</TableHead>
+                          <TableHead className="text-right">Earned</TableHead>
+                          <TableHead className="text-right">Adjusted</TableHead>
+                          <TableHead className="text-right">Taken</TableHead>
+                          <TableHead className="text-right">Pending</TableHead>
+                          <TableHead className="text-right">Available</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {balances.map(balance => (
+                          <TableRow key={balance.leaveType.id}>
+                            <TableCell>{balance.leaveType.name}</TableCell>
+                            <TableCell className="text-right">{balance.tracked ? balance.allowanceDays : '—'}</TableCell>
+                            <TableCell className="text-right">{balance.tracked ? balance.accruedDays : '—'}</TableCell>
+                            <TableCell className="text-right">{balance.adjustmentDays || '—'}</TableCell>
+                            <TableCell className="text-right">{balance.takenDays}</TableCell>
+                            <TableCell className="text-right">{balance.pendingDays}</TableCell>
+                            <TableCell className={`text-right font-medium ${balance.availableDays < 0 ? 'text-red-600' : ''}`}>
+                              {balance.tracked ? balance.availableDays : '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+
+                    <div className="border-t pt-4 space-y-2">
+                      <p className="text-sm font-medium">Adjust Balance for {balanceYear}</p>
+                      <div className="flex flex-wrap items-end gap-2">
+                        <Select
+                          value={adjustment.leaveTypeId}
+                          onValueChange={(value) => setAdjustment({ ...adjustment, leaveTypeId: value })}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue placeholder="Leave type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {types.map(type => (
+                              <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          step="0.5"
+                          className="w-28"
+                          placeholder="Days"
+                          value={adjustment.days}
+                          onChange={(e) => setAdjustment({ ...adjustment, days: e.target.value })}
+                        />
+                        <Input
+                          className="w-72"
+                          placeholder="Reason, e.g. carried over from last year"
+                          value={adjustment.reason}
+                          onChange={(e) => setAdjustment({ ...adjustment, reason: e.target.value })}
+                        />
+                        <Button onClick={handleAdjust} disabled={submitting}>
+                          {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                          Adjust
+                        </Button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={!!reviewing} onOpenChange={(open) => { if (!open) { setReviewing(null); setComment('') } }}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{reviewing?.action === 'approve' ? 'Approve Leave' : 'Reject Leave'}</DialogTitle>
+              <DialogDescription>
+                {reviewing && (
+                  <>
+                    {reviewing.request.user.name || reviewing.request.user.email} · {reviewing.request.leaveType.name} ·{' '}
+                    {reviewing.request.days} day(s) from {formatDay(reviewing.request.startDate)}
+                  </>
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="review-comment">
+                Comment {reviewing?.action === 'reject' ? '(required)' : '(optional)'}
+              </Label>
+              <Textarea id="review-comment" rows={3} value={comment} onChange={(e) => setComment(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReviewing(null)}>Cancel</Button>
+              <Button
+                variant={reviewing?.action === 'reject' ? 'destructive' : 'default'}
+                onClick={handleReview}
+                disabled={submitting || (reviewing?.action === 'reject' && !comment.trim())}
+              >
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {reviewing?.action === 'approve' ? 'Approve' : 'Reject'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!typeDialog} onOpenChange={(open) => !open && setTypeDialog(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{typeDialog?.id ? 'Edit Leave Type' : 'New Leave Type'}</DialogTitle>
+              <DialogDescription>Changes to the allowance apply to balances from now on, including this year.</DialogDescription>
+            </DialogHeader>
+            {typeDialog && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="type-name">Name</Label>
+                    <Input
+                      id="type-name"
+                      value={typeDialog.form.name}
+                      onChange={(e) => setTypeDialog({ ...typeDialog, form: { ...typeDialog.form, name: e.target.value } })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="type-color">Color</Label>
+                    <Input
+                      id="type-color"
+                      type="color"
+                      value={typeDialog.form.color}
+                      onChange={(e) => setTypeDialog({ ...typeDialog, form: { ...typeDialog.form, color: e.target.value } })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="type-allowance">Days per Year</Label>
+                  <Input
+                    id="type-allowance"
+                    type="number"
+                    min="0"
+                    max="366"
+                    step="0.5"
+                    value={typeDialog.form.annualAllowanceDays}
+                    onChange={(e) => setTypeDialog({ ...typeDialog, form: { ...typeDialog.form, annualAllowanceDays: e.target.value } })}
+                  />
+                  <p className="text-xs text-gray-500">0 for leave that is not limited, e.g. sick leave.</p>
+                </div>
+                <div className="flex flex-wrap gap-6">
+                  {([
+                    ['paid', 'Paid'],
+                    ['requiresApproval', 'Requires approval'],
+                    ['active', 'Active']
+                  ] as const).map(([key, label]) => (
+                    <div key={key} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`type-${key}`}
+                        checked={typeDialog.form[key]}
+                        onCheckedChange={(checked) => setTypeDialog({ ...typeDialog, form: { ...typeDialog.form, [key]: checked === true } })}
+                      />
+                      <Label htmlFor={`type-${key}`} className="font-normal">{label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setTypeDialog(null)}>Cancel</Button>
+              <Button onClick={handleSaveType} disabled={submitting}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!calendarDialog} onOpenChange={(open) => !open && setCalendarDialog(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{calendarDialog?.id ? 'Edit Holiday Calendar' : 'New Holiday Calendar'}</DialogTitle>
+              <DialogDescription>Users assigned here are moved off the calendar they had.</DialogDescription>
+            </DialogHeader>
+            {calendarDialog && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="calendar-name">Name</Label>
+                    <Input
+                      id="calendar-name"
+                      value={calendarDialog.name}
+                      onChange={(e) => setCalendarDialog({ ...calendarDialog, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="calendar-region">Region</Label>
+                    <Input
+                      id="calendar-region"
+                      placeholder="e.g. DE-BY"
+                      value={calendarDialog.region}
+                      onChange={(e) => setCalendarDialog({ ...calendarDialog, region: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Users</Label>
+                  <div className="max-h-64 overflow-y-auto rounded-md border p-2 space-y-1">
+                    {users.map(user => {
+                      const other = calendarOf(user.id)
+                      return (
+                        <div key={user.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`calendar-user-${user.id}`}
+                            checked={calendarDialog.userIds.includes(user.id)}
+                            onCheckedChange={(checked) => setCalendarDialog({
+                              ...calendarDialog,
+                              userIds: checked === true
+                                ? [...calendarDialog.userIds, user.id]
+                                : calendarDialog.userIds.filter(id => id !== user.id)
+                            })}
+                          />
+                          <Label htmlFor={`calendar-user-${user.id}`} className="font-normal text-sm">
+                            {user.name || user.email}
+                            {other && other.id !== calendarDialog.id && (
+                              <span className="text-xs text-gray-500"> · {other.name}</span>
+                            )}
+                          </Label>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCalendarDialog(null)}>Cancel</Button>
+              <Button onClick={handleSaveCalendar} disabled={submitting}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
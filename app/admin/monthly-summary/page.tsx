@@ -12,6 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
+import RateSourceBadge from '@/components/rates/rate-source-badge'
+import type { RateSource } from '@/lib/rate-cards'
 import { 
   Loader2, 
   Shield, 
@@ -31,6 +33,7 @@ import { toast } from 'sonner'
 
 interface RatePeriod {
   rate: number
+  source: RateSource
   effectiveDate: string
   endDate: string | null
   hours: number
@@ -46,6 +49,8 @@ interface EmployeeProjectSummary {
   projectName: string
   projectCode: string | null
   aggregatedHours: number
+  overtimeHours: number
+  premiumCost: number // paid on top of the hourly rate for overtime, weekends and holidays
   totalCost: number
   ratePeriods: RatePeriod[] // New: breakdown by rate periods
   hasRateChanges: boolean // New: flag to indicate rate changes in this period
@@ -57,6 +62,8 @@ interface MonthlySummaryData {
   summaries: EmployeeProjectSummary[]
   totals: {
     totalHours: number
+    overtimeHours: number
+    premiumCost: number
     totalCost: number
     employeeCount: number
     projectCount: number
@@ -77,7 +84,7 @@ export default function MonthlyEmployeeSummaryPage() {
   const [showRateDetails, setShowRateDetails] = useState(false)
   
   // Available projects for filtering
-  const [projects, setProjects] = useState<Array<{id: string, name: string, color: string}>>([])
+  const [projects, setProjects] = useState<Array<{id: string, name: string, color: string, archivedAt?: string | null}>>([])
 
   // Redirect non-admin users
   useEffect(() => {
@@ -119,7 +126,7 @@ export default function MonthlyEmployeeSummaryPage() {
 
   const fetchProjects = async () => {
     try {
-      const response = await fetch('/api/projects')
+      const response = await fetch('/api/projects?includeArchived=true')
       if (response.ok) {
         const data = await response.json()
         setProjects(data.filter((p: any) => p.active))
@@ -236,6 +243,8 @@ export default function MonthlyEmployeeSummaryPage() {
       projectName: summary.projectName,
       projectCode: summary.projectCode,
       hours: summary.aggregatedHours,
+      overtimeHours: summary.overtimeHours,
+      premiumCost: summary.premiumCost,
       cost: summary.totalCost,
       ratePeriods: summary.ratePeriods,
       hasRateChanges: summary.hasRateChanges
@@ -282,7 +291,7 @@ export default function MonthlyEmployeeSummaryPage() {
           <div>
             <h1 className="text-3xl font-bold">Monthly Employee Summary</h1>
             <p className="text-gray-600">
-              Employee hours and costs by project with historical rate tracking
+              Approved employee hours and costs by project with historical rate tracking
             </p>
             {summaryData && summaryData.rateChangesInPeriod > 0 && (
               <div className="flex items-center gap-2 mt-2">
@@ -364,6 +373,7 @@ export default function MonthlyEmployeeSummaryPage() {
                             style={{ backgroundColor: project.color }}
                           />
                           {project.name}
+                          {project.archivedAt && <span className="text-xs text-gray-500">(archived)</span>}
                         </div>
                       </SelectItem>
                     ))}
@@ -443,7 +453,9 @@ export default function MonthlyEmployeeSummaryPage() {
                   {formatCurrency(summaryData.totals.totalCost)}
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  With historical rates
+                  {summaryData.totals.premiumCost > 0
+                    ? `Incl. ${formatCurrency(summaryData.totals.premiumCost)} premium for ${formatHours(summaryData.totals.overtimeHours)}h overtime`
+                    : 'With historical rates'}
                 </p>
               </CardContent>
             </Card>
@@ -512,9 +524,11 @@ export default function MonthlyEmployeeSummaryPage() {
                     <TableHead>Project Code</TableHead>
                     <TableHead>Project Name</TableHead>
                     <TableHead className="text-right">Aggregated Hours</TableHead>
+                    <TableHead className="text-right">Overtime Hours</TableHead>
                     <TableHead className="text-right">
                       {showRateDetails ? 'Rate Details' : 'Hourly Rate'}
                     </TableHead>
+                    <TableHead className="text-right">Premium Cost</TableHead>
                     <TableHead className="text-right">Total Cost</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -560,13 +574,17 @@ export default function MonthlyEmployeeSummaryPage() {
                         <TableCell className="text-right font-mono">
                           {formatHours(project.hours)}
                         </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {project.overtimeHours > 0 ? formatHours(project.overtimeHours) : '-'}
+                        </TableCell>
                         <TableCell className="text-right">
-                          {showRateDetails && project.hasRateChanges && project.ratePeriods.length > 1 ? (
+                          {showRateDetails && project.ratePeriods.length > 0 ? (
                             <div className="space-y-1">
                               {project.ratePeriods.map((period: RatePeriod, periodIndex: number) => (
                                 <div key={periodIndex} className="text-xs">
-                                  <div className="font-medium">
+                                  <div className="font-medium flex items-center justify-end gap-1">
                                     {formatCurrency(period.rate)}/hr
+                                    <RateSourceBadge source={period.source} />
                                   </div>
                                   <div className="text-muted-foreground">
                                     {formatDate(period.effectiveDate)} - {period.endDate ? formatDate(period.endDate) : 'Present'}
@@ -588,6 +606,9 @@ export default function MonthlyEmployeeSummaryPage() {
                             </div>
                           )}
                         </TableCell>
+                        <TableCell className="text-right">
+                          {project.premiumCost > 0 ? formatCurrency(project.premiumCost) : '-'}
+                        </TableCell>
                         <TableCell className="text-right font-medium">
                           {formatCurrency(project.cost)}
                         </TableCell>
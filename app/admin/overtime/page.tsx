@@ -0,0 +1,348 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Hourglass, Loader2, Plus, Shield, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface OvertimePolicy {
+  id: string
+  name: string
+  effectiveDate: string
+  dailyThresholdHours: number | null
+  weeklyThresholdHours: number | null
+  overtimeMultiplier: number
+  weekendMultiplier: number
+  holidayMultiplier: number
+  createdAt: string
+}
+
+interface PolicyFormData {
+  name: string
+  effectiveDate: string
+  dailyThresholdHours: string
+  weeklyThresholdHours: string
+  overtimeMultiplier: string
+  weekendMultiplier: string
+  holidayMultiplier: string
+}
+
+const EMPTY_FORM: PolicyFormData = {
+  name: '',
+  effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+  dailyThresholdHours: '',
+  weeklyThresholdHours: '40',
+  overtimeMultiplier: '1.5',
+  weekendMultiplier: '1',
+  holidayMultiplier: '2'
+}
+
+function formatDay(date: string): string {
+  return format(new Date(`${date}T00:00:00`), 'MMM d, yyyy')
+}
+
+function formatMultiplier(multiplier: number): string {
+  return multiplier === 1 ? '—' : `${multiplier}×`
+}
+
+export default function AdminOvertimePage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [policies, setPolicies] = useState<OvertimePolicy[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<PolicyFormData>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/overtime-policies')
+      const data = await response.json()
+
+      if (response.ok) {
+        setPolicies(data)
+      } else {
+        toast.error(data.error || 'Failed to fetch overtime policies')
+      }
+    } catch (error) {
+      console.error('Failed to fetch overtime policies:', error)
+      toast.error('Failed to fetch overtime policies')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchPolicies()
+    }
+  }, [session, fetchPolicies])
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/overtime-policies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          effectiveDate: form.effectiveDate,
+          dailyThresholdHours: form.dailyThresholdHours === '' ? null : Number(form.dailyThresholdHours),
+          weeklyThresholdHours: form.weeklyThresholdHours === '' ? null : Number(form.weeklyThresholdHours),
+          overtimeMultiplier: Number(form.overtimeMultiplier),
+          weekendMultiplier: Number(form.weekendMultiplier),
+          holidayMultiplier: Number(form.holidayMultiplier)
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details ? Object.values(data.details as Record<string, string[]>).flat()[0] : undefined
+        toast.error(detail || data.error || 'Failed to add policy')
+        return
+      }
+
+      toast.success(`Policy added; spend recalculated for ${data.projectsRecalculated} project(s)`)
+      setForm(EMPTY_FORM)
+      await fetchPolicies()
+    } catch (error) {
+      console.error('Failed to add overtime policy:', error)
+      toast.error('Failed to add policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (policy: OvertimePolicy) => {
+    if (!confirm(`Delete "${policy.name}" starting ${formatDay(policy.effectiveDate)}? Project spend will be recalculated.`)) return
+
+    try {
+      const response = await fetch(`/api/admin/overtime-policies/${policy.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to delete policy')
+        return
+      }
+
+      toast.success(`Policy deleted; spend recalculated for ${data.projectsRecalculated} project(s)`)
+      await fetchPolicies()
+    } catch (error) {
+      console.error('Failed to delete overtime policy:', error)
+      toast.error('Failed to delete policy')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to manage overtime policies.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Overtime</h1>
+            <p className="text-gray-600">How hours beyond the regular rate are costed in project spend and monthly summaries</p>
+          </div>
+          <Badge variant="destructive" className="flex items-center gap-2">
+            <Shield className="h-4 w-4" />
+            Admin Only
+          </Badge>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hourglass className="h-5 w-5" />
+              New Policy
+            </CardTitle>
+            <CardDescription>
+              A policy applies from its start date until the next one. Hours over the daily or weekly threshold
+              (Monday to Sunday, across all projects) are paid at the overtime multiplier; weekend and holiday hours
+              at their own multiplier, whichever is higher. Leave a threshold empty to not use it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="policy-name">Name</Label>
+                <Input
+                  id="policy-name"
+                  placeholder="e.g. 2027 contract"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-from">Starts</Label>
+                <Input
+                  id="policy-from"
+                  type="date"
+                  value={form.effectiveDate}
+                  onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-daily">Daily Threshold (h)</Label>
+                <Input
+                  id="policy-daily"
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.5"
+                  placeholder="None"
+                  value={form.dailyThresholdHours}
+                  onChange={(e) => setForm({ ...form, dailyThresholdHours: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-weekly">Weekly Threshold (h)</Label>
+                <Input
+                  id="policy-weekly"
+                  type="number"
+                  min="0"
+                  max="168"
+                  step="0.5"
+                  placeholder="None"
+                  value={form.weeklyThresholdHours}
+                  onChange={(e) => setForm({ ...form, weeklyThresholdHours: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-overtime">Overtime ×</Label>
+                <Input
+                  id="policy-overtime"
+                  type="number"
+                  min="1"
+                  max="10"
+                  step="0.25"
+                  value={form.overtimeMultiplier}
+                  onChange={(e) => setForm({ ...form, overtimeMultiplier: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-weekend">Weekend ×</Label>
+                <Input
+                  id="policy-weekend"
+                  type="number"
+                  min="1"
+                  max="10"
+                  step="0.25"
+                  value={form.weekendMultiplier}
+                  onChange={(e) => setForm({ ...form, weekendMultiplier: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-holiday">Holiday ×</Label>
+                <Input
+                  id="policy-holiday"
+                  type="number"
+                  min="1"
+                  max="10"
+                  step="0.25"
+                  value={form.holidayMultiplier}
+                  onChange={(e) => setForm({ ...form, holidayMultiplier: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                Add Policy
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Policies</CardTitle>
+            <CardDescription>
+              Hours worked before the first policy are costed at the flat rate.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {policies.length === 0 ? (
+              <p className="text-sm text-gray-500">No overtime policies yet; all hours are costed at the flat rate.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Starts</TableHead>
+                    <TableHead className="text-right">Daily</TableHead>
+                    <TableHead className="text-right">Weekly</TableHead>
+                    <TableHead className="text-right">Overtime</TableHead>
+                    <TableHead className="text-right">Weekend</TableHead>
+                    <TableHead className="text-right">Holiday</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {policies.map(policy => (
+                    <TableRow key={policy.id}>
+                      <TableCell className="font-medium">{policy.name}</TableCell>
+                      <TableCell>{formatDay(policy.effectiveDate)}</TableCell>
+                      <TableCell className="text-right">
+                        {policy.dailyThresholdHours === null ? '—' : `${policy.dailyThresholdHours}h`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {policy.weeklyThresholdHours === null ? '—' : `${policy.weeklyThresholdHours}h`}
+                      </TableCell>
+                      <TableCell className="text-right">{formatMultiplier(policy.overtimeMultiplier)}</TableCell>
+                      <TableCell className="text-right">{formatMultiplier(policy.weekendMultiplier)}</TableCell>
+                      <TableCell className="text-right">{formatMultiplier(policy.holidayMultiplier)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(policy)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
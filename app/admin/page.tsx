@@ -3,15 +3,18 @@
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import DashboardLayout from '@/components/dashboard-layout'
 import UserOversight from '@/components/Admin/user-oversight'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Shield } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Shield, Mail } from 'lucide-react'
 
 export default function AdminPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const [reminderSent, setReminderSent] = useState<string | null>(null)
+  const [reminderError, setReminderError] = useState<string | null>(null)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -22,6 +25,7 @@ export default function AdminPage() {
   }, [session, status, router])
 
   const handleSendReminder = async (userId: string, issue: string) => {
+    setReminderError(null)
     try {
       const response = await fetch('/api/admin/send-reminder', {
         method: 'POST',
@@ -30,12 +34,20 @@ export default function AdminPage() {
       })
 
       if (response.ok) {
-        setReminderSent(`Reminder sent for: ${issue}`)
+        const data = await response.json()
+        setReminderSent(`Reminder sent to ${data.sentTo} for: ${issue}`)
         setTimeout(() => setReminderSent(null), 3000)
+        return true
       }
+
+      const data = await response.json().catch(() => ({}))
+      setReminderError(data.error || 'Failed to send reminder')
+      setTimeout(() => setReminderError(null), 6000)
     } catch (error) {
       console.error('Error sending reminder:', error)
+      setReminderError('Failed to send reminder')
     }
+    return false
   }
 
   if (status === 'loading') {
@@ -57,9 +69,17 @@ export default function AdminPage() {
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div>
-          <h2 className="text-2xl font-bold">Admin Dashboard</h2>
-          <p className="text-gray-600">Monitor user time tracking and send reminders</p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold">Admin Dashboard</h2>
+            <p className="text-gray-600">Monitor user time tracking and send reminders</p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/admin/reminders">
+              <Mail className="h-4 w-4 mr-2" />
+              Reminder Templates & History
+            </Link>
+          </Button>
         </div>
 
         {reminderSent && (
@@ -68,6 +88,12 @@ export default function AdminPage() {
           </Alert>
         )}
 
+        {reminderError && (
+          <Alert variant="destructive">
+            <AlertDescription>{reminderError}</AlertDescription>
+          </Alert>
+        )}
+
         <UserOversight onSendReminder={handleSendReminder} />
       </div>
     </DashboardLayout>
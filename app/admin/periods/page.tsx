@@ -0,0 +1,695 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Loader2, Shield, Lock, LockOpen, Archive, Settings, Timer, CalendarRange, ShieldCheck } from 'lucide-react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { getFiscalQuarterLabel, FiscalQuarter } from '@/lib/fiscal-calendar'
+
+type PeriodStatus = 'OPEN' | 'LOCKED' | 'CLOSED'
+
+interface Period {
+  year: number
+  month: number
+  status: PeriodStatus
+  source: 'manual' | 'cutoff'
+  cutoffDate: string | null
+  lockedAt: string | null
+  lockedBy: string | null
+  reopenedAt: string | null
+  reopenedBy: string | null
+  reopenReason: string | null
+}
+
+interface LockSettings {
+  lockCutoffDay: number
+  lockCutoffMonths: number
+  autoLockEnabled: boolean
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+export default function AdminPeriodsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [year, setYear] = useState(new Date().getFullYear())
+  const [periods, setPeriods] = useState<Period[]>([])
+  const [settings, setSettings] = useState<LockSettings | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [updatingKey, setUpdatingKey] = useState<string | null>(null)
+  const [reopeningPeriod, setReopeningPeriod] = useState<Period | null>(null)
+  const [reopenReason, setReopenReason] = useState('')
+  const [savingSettings, setSavingSettings] = useState(false)
+  const [timerAutoStopHours, setTimerAutoStopHours] = useState<number | null>(null)
+  const [savingTimerSettings, setSavingTimerSettings] = useState(false)
+  const [validationSettings, setValidationSettings] = useState<{ entryMaxDailyHours: number; entryAllowFuture: boolean } | null>(null)
+  const [savingValidationSettings, setSavingValidationSettings] = useState(false)
+  const [fiscalYearStartMonth, setFiscalYearStartMonth] = useState<number | null>(null)
+  const [savedFiscalYearStartMonth, setSavedFiscalYearStartMonth] = useState<number | null>(null)
+  const [savingFiscalSettings, setSavingFiscalSettings] = useState(false)
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchPeriods(year)
+    }
+  }, [session, year])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchTimerSettings()
+      fetchValidationSettings()
+      fetchFiscalSettings()
+    }
+  }, [session])
+
+  const fetchTimerSettings = async () => {
+    try {
+      const response = await fetch('/api/admin/timer-settings')
+      if (response.ok) {
+        const data = await response.json()
+        setTimerAutoStopHours(data.settings.timerAutoStopHours)
+      }
+    } catch (error) {
+      console.error('Failed to fetch timer settings:', error)
+    }
+  }
+
+  const fetchValidationSettings = async () => {
+    try {
+      const response = await fetch('/api/admin/entry-validation-settings')
+      if (response.ok) {
+        const data = await response.json()
+        setValidationSettings(data.settings)
+      }
+    } catch (error) {
+      console.error('Failed to fetch entry validation settings:', error)
+    }
+  }
+
+  const fetchFiscalSettings = async () => {
+    try {
+      const response = await fetch('/api/admin/fiscal-settings')
+      if (response.ok) {
+        const data = await response.json()
+        setFiscalYearStartMonth(data.settings.fiscalYearStartMonth)
+        setSavedFiscalYearStartMonth(data.settings.fiscalYearStartMonth)
+      }
+    } catch (error) {
+      console.error('Failed to fetch fiscal settings:', error)
+    }
+  }
+
+  const fetchPeriods = async (selectedYear: number) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/admin/periods?year=${selectedYear}`)
+      if (response.ok) {
+        const data = await response.json()
+        setPeriods(data.periods)
+        setSettings(data.settings)
+      } else {
+        toast.error('Failed to fetch timesheet periods')
+      }
+    } catch (error) {
+      console.error('Failed to fetch timesheet periods:', error)
+      toast.error('Failed to fetch timesheet periods')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updatePeriod = async (period: Period, action: 'lock' | 'close' | 'reopen', reason?: string) => {
+    const key = `${period.year}-${period.month}`
+    setUpdatingKey(key)
+    try {
+      const response = await fetch('/api/admin/periods', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          year: period.year,
+          month: period.month,
+          action,
+          reason
+        }),
+      })
+
+      if (response.ok) {
+        const label = `${MONTH_NAMES[period.month - 1]} ${period.year}`
+        const verb = action === 'lock' ? 'locked' : action === 'close' ? 'closed' : 'reopened'
+        toast.success(`${label} ${verb}`)
+        setReopeningPeriod(null)
+        setReopenReason('')
+        fetchPeriods(year) // Refresh data
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.details || errorData.error || 'Failed to update period')
+      }
+    } catch (error) {
+      console.error('Failed to update period:', error)
+      toast.error('Failed to update period')
+    } finally {
+      setUpdatingKey(null)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    if (!settings) return
+
+    setSavingSettings(true)
+    try {
+      const response = await fetch('/api/admin/periods', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      })
+
+      if (response.ok) {
+        toast.success('Lock settings updated')
+        fetchPeriods(year)
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.details || errorData.error || 'Failed to update lock settings')
+      }
+    } catch (error) {
+      console.error('Failed to update lock settings:', error)
+      toast.error('Failed to update lock settings')
+    } finally {
+      setSavingSettings(false)
+    }
+  }
+
+  const handleSaveTimerSettings = async () => {
+    if (timerAutoStopHours === null) return
+
+    setSavingTimerSettings(true)
+    try {
+      const response = await fetch('/api/admin/timer-settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ timerAutoStopHours }),
+      })
+
+      if (response.ok) {
+        toast.success('Timer settings updated')
+        fetchTimerSettings()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.details?.timerAutoStopHours?.[0] || errorData.error || 'Failed to update timer settings')
+      }
+    } catch (error) {
+      console.error('Failed to update timer settings:', error)
+      toast.error('Failed to update timer settings')
+    } finally {
+      setSavingTimerSettings(false)
+    }
+  }
+
+  const handleSaveValidationSettings = async () => {
+    if (!validationSettings) return
+
+    setSavingValidationSettings(true)
+    try {
+      const response = await fetch('/api/admin/entry-validation-settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(validationSettings),
+      })
+
+      if (response.ok) {
+        toast.success('Entry validation settings updated')
+        fetchValidationSettings()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.details?.entryMaxDailyHours?.[0] || errorData.error || 'Failed to update entry validation settings')
+      }
+    } catch (error) {
+      console.error('Failed to update entry validation settings:', error)
+      toast.error('Failed to update entry validation settings')
+    } finally {
+      setSavingValidationSettings(false)
+    }
+  }
+
+  const handleSaveFiscalSettings = async () => {
+    if (fiscalYearStartMonth === null || fiscalYearStartMonth === savedFiscalYearStartMonth) return
+    if (!confirm('Changing the fiscal year start month recalculates the quarterly spend of every project. Continue?')) return
+
+    setSavingFiscalSettings(true)
+    try {
+      const response = await fetch('/api/admin/fiscal-settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fiscalYearStartMonth }),
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        toast.success(`Fiscal year updated, ${data.projectsRecalculated} projects recalculated`)
+        fetchFiscalSettings()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.details?.fiscalYearStartMonth?.[0] || errorData.error || 'Failed to update fiscal year')
+      }
+    } catch (error) {
+      console.error('Failed to update fiscal settings:', error)
+      toast.error('Failed to update fiscal year')
+    } finally {
+      setSavingFiscalSettings(false)
+    }
+  }
+
+  const getStatusBadge = (periodStatus: PeriodStatus) => {
+    switch (periodStatus) {
+      case 'OPEN':
+        return <Badge variant="secondary" className="bg-green-100 text-green-800">Open</Badge>
+      case 'LOCKED':
+        return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Locked</Badge>
+      case 'CLOSED':
+        return <Badge variant="destructive">Closed</Badge>
+    }
+  }
+
+  const yearOptions = Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - 3 + i)
+
+  if (status === 'loading') {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to manage timesheet periods.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Timesheet Periods</h1>
+            <p className="text-gray-600">Lock, close and reopen monthly timesheet periods</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Select value={year.toString()} onValueChange={(value) => setYear(parseInt(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {yearOptions.map((option) => (
+                  <SelectItem key={option} value={option.toString()}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Badge variant="destructive" className="flex items-center gap-2">
+              <Shield className="h-4 w-4" />
+              Admin Only
+            </Badge>
+          </div>
+        </div>
+
+        {/* Lock Settings */}
+        {settings && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Automatic Lock Cutoff
+              </CardTitle>
+              <CardDescription>
+                Months without a manual status lock automatically after the cutoff. Employees cannot change entries in locked months; closed months cannot be changed by anyone until reopened.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="cutoffDay">Cutoff Day of Month</Label>
+                  <Input
+                    id="cutoffDay"
+                    type="number"
+                    min="1"
+                    max="28"
+                    value={settings.lockCutoffDay}
+                    onChange={(e) => setSettings({ ...settings, lockCutoffDay: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cutoffMonths">Months After Period</Label>
+                  <Input
+                    id="cutoffMonths"
+                    type="number"
+                    min="0"
+                    max="12"
+                    value={settings.lockCutoffMonths}
+                    onChange={(e) => setSettings({ ...settings, lockCutoffMonths: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="flex items-center gap-2 h-10">
+                  <Checkbox
+                    id="autoLock"
+                    checked={settings.autoLockEnabled}
+                    onCheckedChange={(checked) => setSettings({ ...settings, autoLockEnabled: checked === true })}
+                  />
+                  <Label htmlFor="autoLock">Automatically lock after cutoff</Label>
+                </div>
+              </div>
+              <div className="flex justify-end mt-4">
+                <Button onClick={handleSaveSettings} disabled={savingSettings}>
+                  {savingSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Timer Settings */}
+        {timerAutoStopHours !== null && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Timer className="h-5 w-5" />
+                Timer Auto-Stop
+              </CardTitle>
+              <CardDescription>
+                Running timers are stopped once they reach this limit. The entry ends at the limit and its owner is notified to review it.
+                Timers of people who are away are only stopped on time if a scheduler calls /api/cron/timers.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="timerAutoStopHours">Maximum Timer Length (hours)</Label>
+                  <Input
+                    id="timerAutoStopHours"
+                    type="number"
+                    min="1"
+                    max="24"
+                    value={timerAutoStopHours}
+                    onChange={(e) => setTimerAutoStopHours(parseInt(e.target.value) || 1)}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end mt-4">
+                <Button onClick={handleSaveTimerSettings} disabled={savingTimerSettings}>
+                  {savingTimerSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Entry Validation Settings */}
+        {validationSettings && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Entry Validation
+              </CardTitle>
+              <CardDescription>
+                Every entry is checked for overlaps with the same person&apos;s other entries and for end times before start times.
+                Admins can save an entry that breaks these rules by giving a reason, which is kept in the audit log.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="entryMaxDailyHours">Daily Maximum (hours, 0 = off)</Label>
+                  <Input
+                    id="entryMaxDailyHours"
+                    type="number"
+                    min="0"
+                    max="24"
+                    value={validationSettings.entryMaxDailyHours}
+                    onChange={(e) => setValidationSettings({ ...validationSettings, entryMaxDailyHours: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Checkbox
+                    id="entryAllowFuture"
+                    checked={validationSettings.entryAllowFuture}
+                    onCheckedChange={(checked) => setValidationSettings({ ...validationSettings, entryAllowFuture: checked === true })}
+                  />
+                  <Label htmlFor="entryAllowFuture">Allow entries in the future</Label>
+                </div>
+              </div>
+              <div className="flex justify-end mt-4">
+                <Button onClick={handleSaveValidationSettings} disabled={savingValidationSettings}>
+                  {savingValidationSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Fiscal Year Settings */}
+        {fiscalYearStartMonth !== null && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarRange className="h-5 w-5" />
+                Fiscal Year
+              </CardTitle>
+              <CardDescription>
+                Quarterly budgets, spend and project reports follow this calendar. Changing it recalculates the quarterly spend of all projects.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label>Fiscal Year Starts In</Label>
+                  <Select
+                    value={fiscalYearStartMonth.toString()}
+                    onValueChange={(value) => setFiscalYearStartMonth(parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MONTH_NAMES.map((name, index) => (
+                        <SelectItem key={name} value={(index + 1).toString()}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-2 text-sm text-gray-600">
+                  {([1, 2, 3, 4] as FiscalQuarter[]).map((quarter) => getFiscalQuarterLabel(quarter, fiscalYearStartMonth)).join(' · ')}
+                </div>
+              </div>
+              <div className="flex justify-end mt-4">
+                <Button
+                  onClick={handleSaveFiscalSettings}
+                  disabled={savingFiscalSettings || fiscalYearStartMonth === savedFiscalYearStartMonth}
+                >
+                  {savingFiscalSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Periods Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Periods for {year}
+            </CardTitle>
+            <CardDescription>Effective status of each month</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center items-center h-32">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Cutoff</TableHead>
+                    <TableHead>Last Change</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {periods.map((period) => {
+                    const key = `${period.year}-${period.month}`
+                    const isUpdating = updatingKey === key
+
+                    return (
+                      <TableRow key={key}>
+                        <TableCell className="font-medium">{MONTH_NAMES[period.month - 1]}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {getStatusBadge(period.status)}
+                            <span className="text-xs text-gray-500">
+                              {period.source === 'manual' ? 'Manual' : 'Automatic'}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {period.cutoffDate
+                            ? format(new Date(period.cutoffDate), 'MMM dd, yyyy')
+                            : <span className="text-gray-500">Disabled</span>
+                          }
+                        </TableCell>
+                        <TableCell>
+                          {period.status === 'OPEN' && period.reopenedAt ? (
+                            <div className="text-sm">
+                              <div>Reopened {format(new Date(period.reopenedAt), 'MMM dd, yyyy')}</div>
+                              {period.reopenReason && (
+                                <div className="text-gray-500 max-w-xs truncate" title={period.reopenReason}>
+                                  {period.reopenReason}
+                                </div>
+                              )}
+                            </div>
+                          ) : period.lockedAt ? (
+                            <div className="text-sm">
+                              {period.status === 'CLOSED' ? 'Closed' : 'Locked'} {format(new Date(period.lockedAt), 'MMM dd, yyyy')}
+                            </div>
+                          ) : (
+                            <span className="text-gray-500">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {period.status === 'OPEN' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isUpdating}
+                                onClick={() => updatePeriod(period, 'lock')}
+                              >
+                                <Lock className="h-4 w-4 mr-1" />
+                                Lock
+                              </Button>
+                            )}
+                            {period.status !== 'CLOSED' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isUpdating}
+                                onClick={() => updatePeriod(period, 'close')}
+                              >
+                                <Archive className="h-4 w-4 mr-1" />
+                                Close
+                              </Button>
+                            )}
+                            {period.status !== 'OPEN' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isUpdating}
+                                onClick={() => {
+                                  setReopeningPeriod(period)
+                                  setReopenReason('')
+                                }}
+                              >
+                                <LockOpen className="h-4 w-4 mr-1" />
+                                Reopen
+                              </Button>
+                            )}
+                            {isUpdating && <Loader2 className="h-4 w-4 animate-spin self-center" />}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Reopen Dialog */}
+        <Dialog open={!!reopeningPeriod} onOpenChange={() => setReopeningPeriod(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reopen Timesheet Period</DialogTitle>
+              <DialogDescription>
+                Reopen {reopeningPeriod && `${MONTH_NAMES[reopeningPeriod.month - 1]} ${reopeningPeriod.year}`} so that entries can be changed again. The reason is recorded with the period.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reopenReason">Reason</Label>
+              <Textarea
+                id="reopenReason"
+                value={reopenReason}
+                onChange={(e) => setReopenReason(e.target.value)}
+                placeholder="e.g. Correcting hours reported late by the project team"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReopeningPeriod(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => reopeningPeriod && updatePeriod(reopeningPeriod, 'reopen', reopenReason)}
+                disabled={!reopenReason.trim() || updatingKey !== null}
+              >
+                {updatingKey !== null && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Reopen Period
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -11,9 +11,13 @@ import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-import { Loader2, DollarSign, Shield, Edit, History, AlertTriangle } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import RateImpactTable from '@/components/rates/rate-impact-table'
+import BulkRateChanges from '@/components/rates/bulk-rate-changes'
+import { Loader2, DollarSign, Shield, Edit, History, AlertTriangle, Briefcase, Layers, Plus, Trash2 } from 'lucide-react'
 import { format } from 'date-fns'
 import { toast } from 'sonner'
+import type { RateImpact } from '@/lib/spending-calculator-enhanced'
 
 interface User {
   id: string
@@ -21,15 +25,42 @@ interface User {
   email: string
   role: string
   employeeRate: number
+  jobRole: string | null
   rateHistory: Array<{
     id: string
     rate: number
     effectiveDate: string
     createdAt: string
     createdBy: string
+    impact: RateImpact | null
+    batchId: string | null
   }>
 }
 
+interface Project {
+  id: string
+  name: string
+  code: string | null
+}
+
+interface RateCard {
+  id: string
+  projectId: string
+  user: { id: string; name: string | null; email: string } | null
+  jobRole: string | null
+  rate: number
+  effectiveDate: string
+  createdAt: string
+}
+
+interface RateCardFormData {
+  target: 'user' | 'role'
+  userId: string
+  jobRole: string
+  rate: string
+  effectiveDate: string
+}
+
 export default function AdminRatesPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
@@ -39,6 +70,26 @@ export default function AdminRatesPage() {
   const [newRate, setNewRate] = useState('')
   const [effectiveDate, setEffectiveDate] = useState('')
   const [updating, setUpdating] = useState(false)
+  // Previewed impact of the rate change being edited; the change is saved only once confirmed
+  const [rateImpact, setRateImpact] = useState<RateImpact | null>(null)
+
+  // Job role dialog
+  const [jobRoleUser, setJobRoleUser] = useState<User | null>(null)
+  const [jobRole, setJobRole] = useState('')
+  const [jobRoles, setJobRoles] = useState<string[]>([])
+
+  // Project rate cards
+  const [projects, setProjects] = useState<Project[]>([])
+  const [selectedProjectId, setSelectedProjectId] = useState('')
+  const [rateCards, setRateCards] = useState<RateCard[]>([])
+  const [cardForm, setCardForm] = useState<RateCardFormData>({
+    target: 'user',
+    userId: '',
+    jobRole: '',
+    rate: '',
+    effectiveDate: new Date().toISOString().split('T')[0]
+  })
+  const [savingCard, setSavingCard] = useState(false)
 
   // Redirect non-admin users
   useEffect(() => {
@@ -52,9 +103,17 @@ export default function AdminRatesPage() {
   useEffect(() => {
     if (session && session.user.role === 'ADMIN') {
       fetchUsers()
+      fetchJobRoles()
+      fetchProjects()
     }
   }, [session])
 
+  useEffect(() => {
+    if (selectedProjectId) {
+      fetchRateCards(selectedProjectId)
+    }
+  }, [selectedProjectId])
+
   const fetchUsers = async () => {
     try {
       const response = await fetch('/api/admin/rates')
@@ -72,10 +131,174 @@ export default function AdminRatesPage() {
     }
   }
 
+  const fetchJobRoles = async () => {
+    try {
+      const response = await fetch('/api/admin/job-roles')
+      if (response.ok) {
+        setJobRoles(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch job roles:', error)
+    }
+  }
+
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch('/api/projects')
+      if (response.ok) {
+        setProjects(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch projects:', error)
+    }
+  }
+
+  const fetchRateCards = async (projectId: string) => {
+    try {
+      const response = await fetch(`/api/admin/rate-cards?projectId=${projectId}`)
+      if (response.ok) {
+        setRateCards(await response.json())
+      } else {
+        toast.error('Failed to fetch rate cards')
+      }
+    } catch (error) {
+      console.error('Failed to fetch rate cards:', error)
+      toast.error('Failed to fetch rate cards')
+    }
+  }
+
+  const handleEditJobRole = (user: User) => {
+    setJobRoleUser(user)
+    setJobRole(user.jobRole || '')
+  }
+
+  const handleSaveJobRole = async () => {
+    if (!jobRoleUser) return
+
+    setUpdating(true)
+    try {
+      const response = await fetch('/api/admin/job-roles', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: jobRoleUser.id, jobRole: jobRole.trim() || null })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details ? Object.values(data.details as Record<string, string[]>).flat()[0] : undefined
+        toast.error(detail || data.error || 'Failed to update job role')
+        return
+      }
+
+      toast.success('Job role updated')
+      setJobRoleUser(null)
+      fetchUsers()
+      fetchJobRoles()
+    } catch (error) {
+      console.error('Failed to update job role:', error)
+      toast.error('Failed to update job role')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const handleAddRateCard = async () => {
+    if (!selectedProjectId) return
+
+    setSavingCard(true)
+    try {
+      const response = await fetch('/api/admin/rate-cards', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: selectedProjectId,
+          userId: cardForm.target === 'user' ? cardForm.userId || null : null,
+          jobRole: cardForm.target === 'role' ? cardForm.jobRole.trim() || null : null,
+          rate: parseFloat(cardForm.rate),
+          effectiveDate: cardForm.effectiveDate
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details ? Object.values(data.details as Record<string, string[]>).flat()[0] : undefined
+        toast.error(detail || data.error || 'Failed to add rate card')
+        return
+      }
+
+      toast.success('Rate card added and project spend recalculated')
+      setCardForm({ ...cardForm, rate: '' })
+      fetchRateCards(selectedProjectId)
+      fetchJobRoles()
+    } catch (error) {
+      console.error('Failed to add rate card:', error)
+      toast.error('Failed to add rate card')
+    } finally {
+      setSavingCard(false)
+    }
+  }
+
+  const handleDeleteRateCard = async (card: RateCard) => {
+    const target = card.user ? (card.user.name || card.user.email) : card.jobRole
+    if (!confirm(`Delete the ${formatCurrency(card.rate)}/hr rate for ${target} from ${format(new Date(`${card.effectiveDate}T00:00:00`), 'MMM dd, yyyy')}?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/rate-cards/${card.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to delete rate card')
+        return
+      }
+
+      toast.success('Rate card deleted and project spend recalculated')
+      fetchRateCards(card.projectId)
+    } catch (error) {
+      console.error('Failed to delete rate card:', error)
+      toast.error('Failed to delete rate card')
+    }
+  }
+
   const handleEditRate = (user: User) => {
     setEditingUser(user)
     setNewRate(user.employeeRate.toString())
     setEffectiveDate(new Date().toISOString().split('T')[0])
+    setRateImpact(null)
+  }
+
+  const handlePreviewRate = async () => {
+    if (!editingUser || !newRate) return
+
+    setUpdating(true)
+    try {
+      const response = await fetch('/api/admin/rates', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userId: editingUser.id,
+          rate: parseFloat(newRate),
+          effectiveDate,
+          dryRun: true
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details && typeof data.details === 'object'
+          ? Object.values(data.details as Record<string, string[]>).flat()[0]
+          : undefined
+        toast.error(detail || data.error || 'Failed to preview rate change')
+        return
+      }
+
+      setRateImpact(data.impact)
+    } catch (error) {
+      console.error('Failed to preview rate change:', error)
+      toast.error('Failed to preview rate change')
+    } finally {
+      setUpdating(false)
+    }
   }
 
   const handleUpdateRate = async () => {
@@ -100,9 +323,11 @@ export default function AdminRatesPage() {
         setEditingUser(null)
         setNewRate('')
         setEffectiveDate('')
+        setRateImpact(null)
         fetchUsers() // Refresh data
       } else {
-        toast.error('Failed to update rate')
+        const data = await response.json()
+        toast.error(data.error || 'Failed to update rate')
       }
     } catch (error) {
       console.error('Failed to update rate:', error)
@@ -177,6 +402,7 @@ export default function AdminRatesPage() {
                   <TableRow>
                     <TableHead>Employee</TableHead>
                     <TableHead>Role</TableHead>
+                    <TableHead>Job Role</TableHead>
                     <TableHead>Current Rate</TableHead>
                     <TableHead>Last Updated</TableHead>
                     <TableHead>Actions</TableHead>
@@ -196,6 +422,12 @@ export default function AdminRatesPage() {
                           {user.role}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" className="px-2" onClick={() => handleEditJobRole(user)}>
+                          <Briefcase className="h-4 w-4 mr-1 text-gray-400" />
+                          {user.jobRole || <span className="text-gray-500">Not set</span>}
+                        </Button>
+                      </TableCell>
                       <TableCell>
                         <span className="font-medium">
                           {formatCurrency(user.employeeRate)}/hr
@@ -243,6 +475,7 @@ export default function AdminRatesPage() {
                                         <TableHead>Rate</TableHead>
                                         <TableHead>Effective Date</TableHead>
                                         <TableHead>Changed On</TableHead>
+                                        <TableHead className="text-right">Spend Impact</TableHead>
                                       </TableRow>
                                     </TableHeader>
                                     <TableBody>
@@ -255,6 +488,19 @@ export default function AdminRatesPage() {
                                           <TableCell>
                                             {format(new Date(history.createdAt), 'MMM dd, yyyy HH:mm')}
                                           </TableCell>
+                                          <TableCell className="text-right">
+                                            {history.impact ? (
+                                              <div className="text-sm">
+                                                <div>{history.impact.change > 0 ? '+' : ''}{formatCurrency(history.impact.change)}</div>
+                                                <div className="text-gray-500">
+                                                  {history.impact.projects.length} project{history.impact.projects.length !== 1 ? 's' : ''}
+                                                  {history.batchId && ' (whole bulk change)'}
+                                                </div>
+                                              </div>
+                                            ) : (
+                                              <span className="text-gray-500">—</span>
+                                            )}
+                                          </TableCell>
                                         </TableRow>
                                       ))}
                                     </TableBody>
@@ -273,13 +519,205 @@ export default function AdminRatesPage() {
           </CardContent>
         </Card>
 
+        <BulkRateChanges jobRoles={jobRoles} onApplied={fetchUsers} />
+
+        {/* Project Rate Cards */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Project Rate Cards
+            </CardTitle>
+            <CardDescription>
+              Cost someone differently on one project. A project rate for the user wins over a rate for their job
+              role, which wins over the user&apos;s own rate history.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-w-sm space-y-2">
+              <Label>Project</Label>
+              <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.code ? `${project.code} · ${project.name}` : project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedProjectId && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label>Applies To</Label>
+                    <Select
+                      value={cardForm.target}
+                      onValueChange={(value) => setCardForm({ ...cardForm, target: value as RateCardFormData['target'] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="user">One user</SelectItem>
+                        <SelectItem value="role">A job role</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2 md:col-span-2">
+                    {cardForm.target === 'user' ? (
+                      <>
+                        <Label>User</Label>
+                        <Select value={cardForm.userId} onValueChange={(value) => setCardForm({ ...cardForm, userId: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a user" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {users.map(user => (
+                              <SelectItem key={user.id} value={user.id}>{user.name || user.email}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </>
+                    ) : (
+                      <>
+                        <Label htmlFor="card-role">Job Role</Label>
+                        <Input
+                          id="card-role"
+                          list="job-roles"
+                          placeholder="e.g. Designer"
+                          value={cardForm.jobRole}
+                          onChange={(e) => setCardForm({ ...cardForm, jobRole: e.target.value })}
+                        />
+                      </>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="card-rate">Hourly Rate ($)</Label>
+                    <Input
+                      id="card-rate"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0.00"
+                      value={cardForm.rate}
+                      onChange={(e) => setCardForm({ ...cardForm, rate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="card-date">Effective Date</Label>
+                    <Input
+                      id="card-date"
+                      type="date"
+                      value={cardForm.effectiveDate}
+                      onChange={(e) => setCardForm({ ...cardForm, effectiveDate: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={handleAddRateCard} disabled={savingCard || !cardForm.rate}>
+                    {savingCard ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                    Add Rate
+                  </Button>
+                </div>
+
+                {rateCards.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No project rates yet; everyone on this project is costed at their own rate.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Applies To</TableHead>
+                        <TableHead>Rate</TableHead>
+                        <TableHead>Effective Date</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rateCards.map(card => (
+                        <TableRow key={card.id}>
+                          <TableCell>
+                            {card.user ? (
+                              <div>
+                                <div className="font-medium">{card.user.name || card.user.email}</div>
+                                <div className="text-sm text-gray-500">{card.user.email}</div>
+                              </div>
+                            ) : (
+                              <Badge variant="outline">
+                                <Briefcase className="h-3 w-3 mr-1" />
+                                {card.jobRole}
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-medium">{formatCurrency(card.rate)}/hr</TableCell>
+                          <TableCell>{format(new Date(`${card.effectiveDate}T00:00:00`), 'MMM dd, yyyy')}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => handleDeleteRateCard(card)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <datalist id="job-roles">
+          {jobRoles.map(role => (
+            <option key={role} value={role} />
+          ))}
+        </datalist>
+
+        {/* Job Role Dialog */}
+        <Dialog open={!!jobRoleUser} onOpenChange={() => setJobRoleUser(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Job Role</DialogTitle>
+              <DialogDescription>
+                Projects with a rate for this role cost {jobRoleUser?.name || jobRoleUser?.email} at that rate.
+                Leave empty to clear it.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="job-role">Job Role</Label>
+              <Input
+                id="job-role"
+                list="job-roles"
+                placeholder="e.g. Designer"
+                value={jobRole}
+                onChange={(e) => setJobRole(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setJobRoleUser(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveJobRole} disabled={updating}>
+                {updating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Edit Rate Dialog */}
         <Dialog open={!!editingUser} onOpenChange={() => setEditingUser(null)}>
-          <DialogContent>
+          <DialogContent className={rateImpact ? 'max-w-3xl' : undefined}>
             <DialogHeader>
               <DialogTitle>Update Employee Rate</DialogTitle>
               <DialogDescription>
-                Update the hourly rate for {editingUser?.name || editingUser?.email}
+                Update the hourly rate for {editingUser?.name || editingUser?.email}. Approved hours from the
+                effective date on are re-costed, so preview the effect on project spend before confirming.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
@@ -291,7 +729,10 @@ export default function AdminRatesPage() {
                   step="0.01"
                   min="0"
                   value={newRate}
-                  onChange={(e) => setNewRate(e.target.value)}
+                  onChange={(e) => {
+                    setNewRate(e.target.value)
+                    setRateImpact(null)
+                  }}
                   placeholder="0.00"
                 />
               </div>
@@ -301,18 +742,39 @@ export default function AdminRatesPage() {
                   id="effectiveDate"
                   type="date"
                   value={effectiveDate}
-                  onChange={(e) => setEffectiveDate(e.target.value)}
+                  onChange={(e) => {
+                    setEffectiveDate(e.target.value)
+                    setRateImpact(null)
+                  }}
                 />
               </div>
+              {rateImpact && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 font-medium">
+                    {rateImpact.thresholdsCrossed > 0 && <AlertTriangle className="h-4 w-4 text-red-600" />}
+                    Impact on Project Spend
+                  </div>
+                  <div className="max-h-96 overflow-y-auto">
+                    <RateImpactTable impact={rateImpact} />
+                  </div>
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setEditingUser(null)}>
                 Cancel
               </Button>
-              <Button onClick={handleUpdateRate} disabled={updating || !newRate}>
-                {updating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                Update Rate
-              </Button>
+              {rateImpact ? (
+                <Button onClick={handleUpdateRate} disabled={updating || !newRate}>
+                  {updating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Confirm Rate Change
+                </Button>
+              ) : (
+                <Button onClick={handlePreviewRate} disabled={updating || !newRate || !effectiveDate}>
+                  {updating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Preview Impact
+                </Button>
+              )}
             </DialogFooter>
           </DialogContent>
         </Dialog>
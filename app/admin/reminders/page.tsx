@@ -0,0 +1,746 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Loader2, Shield, Mail, Settings, History, RotateCcw, CalendarClock, Play } from 'lucide-react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+
+interface ReminderTemplate {
+  key: string
+  name: string
+  subject: string
+  body: string
+  customized: boolean
+  updatedAt: string | null
+}
+
+interface Placeholder {
+  key: string
+  description: string
+}
+
+interface ReminderSettings {
+  reminderCooldownHours: number
+  reminderScheduleEnabled: boolean
+  reminderScheduleFrequency: 'DAILY' | 'WEEKLY'
+  reminderScheduleWeekday: number
+  reminderScheduleHour: number
+  reminderMissingDaysThreshold: number
+  reminderExpectedWeeklyHours: number
+  reminderExemptUserIds: string[]
+}
+
+interface UserOption {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface ReminderRunOutcome {
+  userId: string
+  name: string
+  email: string
+  action: 'SENT' | 'FAILED' | 'SKIPPED'
+  templateKey: string | null
+  reason: string
+}
+
+interface ReminderRun {
+  id: string
+  trigger: 'CRON' | 'MANUAL'
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED'
+  checkedUsers: number
+  sentCount: number
+  skippedCount: number
+  failedCount: number
+  details: ReminderRunOutcome[]
+  error: string | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+interface ReminderLogEntry {
+  id: string
+  user: { id: string; name: string | null; email: string }
+  sentBy: { id: string; name: string | null; email: string } | null
+  templateKey: string
+  issue: string | null
+  subject: string
+  body: string
+  transport: string
+  status: 'SENT' | 'FAILED'
+  error: string | null
+  source: string
+  createdAt: string
+}
+
+export default function AdminRemindersPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [templates, setTemplates] = useState<ReminderTemplate[]>([])
+  const [placeholders, setPlaceholders] = useState<Placeholder[]>([])
+  const [selectedKey, setSelectedKey] = useState<string>('')
+  const [subject, setSubject] = useState('')
+  const [body, setBody] = useState('')
+  const [savingTemplate, setSavingTemplate] = useState(false)
+  const [resettingTemplate, setResettingTemplate] = useState(false)
+  const [settings, setSettings] = useState<ReminderSettings | null>(null)
+  const [users, setUsers] = useState<UserOption[]>([])
+  const [mailTransport, setMailTransport] = useState<string>('')
+  const [savingSettings, setSavingSettings] = useState(false)
+  const [runs, setRuns] = useState<ReminderRun[]>([])
+  const [schedule, setSchedule] = useState<string | null>(null)
+  const [cronConfigured, setCronConfigured] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [viewingRun, setViewingRun] = useState<ReminderRun | null>(null)
+  const [logs, setLogs] = useState<ReminderLogEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [viewingLog, setViewingLog] = useState<ReminderLogEntry | null>(null)
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      Promise.all([fetchTemplates(), fetchSettings(), fetchLogs(), fetchRuns()]).finally(() => setLoading(false))
+    }
+  }, [session])
+
+  const selectTemplate = (template: ReminderTemplate) => {
+    setSelectedKey(template.key)
+    setSubject(template.subject)
+    setBody(template.body)
+  }
+
+  const fetchTemplates = async (keepKey?: string) => {
+    try {
+      const response = await fetch('/api/admin/reminder-templates')
+      if (response.ok) {
+        const data = await response.json()
+        setTemplates(data.templates)
+        setPlaceholders(data.placeholders)
+
+        const selected = data.templates.find((template: ReminderTemplate) => template.key === keepKey) || data.templates[0]
+        if (selected) selectTemplate(selected)
+      } else {
+        toast.error('Failed to fetch reminder templates')
+      }
+    } catch (error) {
+      console.error('Failed to fetch reminder templates:', error)
+      toast.error('Failed to fetch reminder templates')
+    }
+  }
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/admin/reminder-settings')
+      if (response.ok) {
+        const data = await response.json()
+        setSettings(data.settings)
+        setUsers(data.users)
+        setMailTransport(data.mailTransport)
+      }
+    } catch (error) {
+      console.error('Failed to fetch reminder settings:', error)
+    }
+  }
+
+  const fetchLogs = async () => {
+    try {
+      const response = await fetch('/api/admin/reminder-logs?limit=100')
+      if (response.ok) {
+        const data = await response.json()
+        setLogs(data.logs)
+      }
+    } catch (error) {
+      console.error('Failed to fetch reminder history:', error)
+    }
+  }
+
+  const fetchRuns = async () => {
+    try {
+      const response = await fetch('/api/admin/reminder-runs')
+      if (response.ok) {
+        const data = await response.json()
+        setRuns(data.runs)
+        setSchedule(data.schedule)
+        setCronConfigured(data.cronConfigured)
+      }
+    } catch (error) {
+      console.error('Failed to fetch reminder runs:', error)
+    }
+  }
+
+  const handleRunNow = async () => {
+    if (!confirm('Check all users now and email everyone who needs a reminder?')) return
+
+    setRunning(true)
+    try {
+      const response = await fetch('/api/admin/reminder-runs', { method: 'POST' })
+
+      if (response.ok) {
+        const data = await response.json()
+        const run: ReminderRun = data.run
+        if (run.status === 'FAILED') {
+          toast.error(`Reminder run failed: ${run.error}`)
+        } else {
+          toast.success(`Checked ${run.checkedUsers} users: ${run.sentCount} sent, ${run.skippedCount} skipped, ${run.failedCount} failed`)
+        }
+        fetchRuns()
+        fetchLogs()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to run reminders')
+      }
+    } catch (error) {
+      console.error('Failed to run reminders:', error)
+      toast.error('Failed to run reminders')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const toggleExempt = (userId: string, exempt: boolean) => {
+    if (!settings) return
+    setSettings({
+      ...settings,
+      reminderExemptUserIds: exempt
+        ? [...settings.reminderExemptUserIds, userId]
+        : settings.reminderExemptUserIds.filter(id => id !== userId)
+    })
+  }
+
+  const handleSaveTemplate = async () => {
+    if (!selectedKey) return
+
+    setSavingTemplate(true)
+    try {
+      const response = await fetch('/api/admin/reminder-templates', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ key: selectedKey, subject, body }),
+      })
+
+      if (response.ok) {
+        toast.success('Template saved')
+        fetchTemplates(selectedKey)
+      } else {
+        const errorData = await response.json()
+        toast.error(
+          errorData.details?.subject?.[0] || errorData.details?.body?.[0] || errorData.error || 'Failed to save template'
+        )
+      }
+    } catch (error) {
+      console.error('Failed to save reminder template:', error)
+      toast.error('Failed to save template')
+    } finally {
+      setSavingTemplate(false)
+    }
+  }
+
+  const handleResetTemplate = async () => {
+    if (!selectedKey) return
+    if (!confirm('Restore the built-in text for this template? Your edits will be lost.')) return
+
+    setResettingTemplate(true)
+    try {
+      const response = await fetch(`/api/admin/reminder-templates?key=${selectedKey}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        toast.success('Template restored to default')
+        fetchTemplates(selectedKey)
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to restore template')
+      }
+    } catch (error) {
+      console.error('Failed to reset reminder template:', error)
+      toast.error('Failed to restore template')
+    } finally {
+      setResettingTemplate(false)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    if (!settings) return
+
+    setSavingSettings(true)
+    try {
+      const response = await fetch('/api/admin/reminder-settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(settings),
+      })
+
+      if (response.ok) {
+        toast.success('Reminder settings updated')
+        fetchSettings()
+        fetchRuns()
+      } else {
+        const errorData = await response.json()
+        const firstDetail = errorData.details && Object.values(errorData.details as Record<string, string[]>)[0]?.[0]
+        toast.error(firstDetail || errorData.error || 'Failed to update reminder settings')
+      }
+    } catch (error) {
+      console.error('Failed to update reminder settings:', error)
+      toast.error('Failed to update reminder settings')
+    } finally {
+      setSavingSettings(false)
+    }
+  }
+
+  const selectedTemplate = templates.find(template => template.key === selectedKey)
+  const templateNames = new Map(templates.map(template => [template.key, template.name]))
+
+  if (status === 'loading' || (loading && session?.user.role === 'ADMIN')) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to manage reminders.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Reminders</h1>
+            <p className="text-gray-600">Edit reminder emails and review what was sent</p>
+          </div>
+          <Badge variant="destructive" className="flex items-center gap-2">
+            <Shield className="h-4 w-4" />
+            Admin Only
+          </Badge>
+        </div>
+
+        {/* Templates */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Reminder Templates
+            </CardTitle>
+            <CardDescription>
+              The template is chosen from the issue shown in the admin dashboard. Placeholders in double braces are filled in for each user.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 space-y-4">
+                <div className="space-y-2">
+                  <Label>Template</Label>
+                  <Select
+                    value={selectedKey}
+                    onValueChange={(value) => {
+                      const template = templates.find(t => t.key === value)
+                      if (template) selectTemplate(template)
+                    }}
+                  >
+                    <SelectTrigger className="w-72">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => (
+                        <SelectItem key={template.key} value={template.key}>
+                          {template.name}{template.customized ? ' (edited)' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reminderSubject">Subject</Label>
+                  <Input
+                    id="reminderSubject"
+                    value={subject}
+                    maxLength={200}
+                    onChange={(e) => setSubject(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reminderBody">Body</Label>
+                  <Textarea
+                    id="reminderBody"
+                    rows={10}
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-gray-500">
+                    {selectedTemplate?.customized && selectedTemplate.updatedAt
+                      ? `Last edited ${format(new Date(selectedTemplate.updatedAt), 'MMM dd, yyyy HH:mm')}`
+                      : 'Using the built-in text'}
+                  </p>
+                  <div className="flex gap-2">
+                    {selectedTemplate?.customized && (
+                      <Button variant="outline" onClick={handleResetTemplate} disabled={resettingTemplate}>
+                        {resettingTemplate
+                          ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          : <RotateCcw className="h-4 w-4 mr-2" />}
+                        Restore Default
+                      </Button>
+                    )}
+                    <Button onClick={handleSaveTemplate} disabled={savingTemplate || !subject.trim() || !body.trim()}>
+                      {savingTemplate && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Save Template
+                    </Button>
+                  </div>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Placeholders</Label>
+                <div className="space-y-2 rounded-md border p-3">
+                  {placeholders.map(placeholder => (
+                    <div key={placeholder.key}>
+                      <code className="text-xs font-semibold">{`{{${placeholder.key}}}`}</code>
+                      <p className="text-xs text-gray-600">{placeholder.description}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Settings */}
+        {settings && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Schedule & Delivery
+              </CardTitle>
+              <CardDescription>
+                Scheduled runs remind users with too many weekdays without time in the last week, and on the check day users below the hours expected for the days of the week that have passed.
+                A user who received a reminder is not sent another one until the cooldown has passed (0 disables the limit).
+                Emails are currently delivered through the <strong>{mailTransport}</strong> transport.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="reminderScheduleEnabled"
+                  checked={settings.reminderScheduleEnabled}
+                  onCheckedChange={(checked) => setSettings({ ...settings, reminderScheduleEnabled: checked === true })}
+                />
+                <Label htmlFor="reminderScheduleEnabled">Send reminders automatically</Label>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label>Frequency</Label>
+                  <Select
+                    value={settings.reminderScheduleFrequency}
+                    onValueChange={(value) => setSettings({ ...settings, reminderScheduleFrequency: value as 'DAILY' | 'WEEKLY' })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="DAILY">Every weekday</SelectItem>
+                      <SelectItem value="WEEKLY">Once a week</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{settings.reminderScheduleFrequency === 'WEEKLY' ? 'Day' : 'Weekly Hours Check Day'}</Label>
+                  <Select
+                    value={settings.reminderScheduleWeekday.toString()}
+                    onValueChange={(value) => setSettings({ ...settings, reminderScheduleWeekday: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map((day, index) => (
+                        <SelectItem key={day} value={index.toString()}>{day}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reminderScheduleHour">Hour (server time)</Label>
+                  <Input
+                    id="reminderScheduleHour"
+                    type="number"
+                    min="0"
+                    max="23"
+                    value={settings.reminderScheduleHour}
+                    onChange={(e) => setSettings({ ...settings, reminderScheduleHour: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reminderMissingDaysThreshold">Missing Days Before Reminding</Label>
+                  <Input
+                    id="reminderMissingDaysThreshold"
+                    type="number"
+                    min="0"
+                    max="7"
+                    value={settings.reminderMissingDaysThreshold}
+                    onChange={(e) => setSettings({ ...settings, reminderMissingDaysThreshold: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reminderExpectedWeeklyHours">Default Weekly Hours</Label>
+                  <Input
+                    id="reminderExpectedWeeklyHours"
+                    type="number"
+                    min="0"
+                    max="168"
+                    value={settings.reminderExpectedWeeklyHours}
+                    onChange={(e) => setSettings({ ...settings, reminderExpectedWeeklyHours: parseInt(e.target.value) || 0 })}
+                  />
+                  <p className="text-xs text-gray-500">For users without a work schedule, over Monday to Friday.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reminderCooldownHours">Cooldown Between Reminders (hours)</Label>
+                  <Input
+                    id="reminderCooldownHours"
+                    type="number"
+                    min="0"
+                    max="720"
+                    value={settings.reminderCooldownHours}
+                    onChange={(e) => setSettings({ ...settings, reminderCooldownHours: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Exempt Users</Label>
+                <p className="text-xs text-gray-500">Exempt users are never sent scheduled reminders.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2 max-h-48 overflow-y-auto rounded-md border p-3">
+                  {users.map(user => (
+                    <div key={user.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`exempt-${user.id}`}
+                        checked={settings.reminderExemptUserIds.includes(user.id)}
+                        onCheckedChange={(checked) => toggleExempt(user.id, checked === true)}
+                      />
+                      <Label htmlFor={`exempt-${user.id}`} className="font-normal truncate">{user.name || user.email}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleSaveSettings} disabled={savingSettings}>
+                  {savingSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Runs */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  Reminder Runs
+                </CardTitle>
+                <CardDescription>
+                  {schedule ? `Scheduled: ${schedule}.` : 'Automatic reminders are off.'}{' '}
+                  {cronConfigured
+                    ? 'A scheduler must call /api/cron/reminders with the CRON_SECRET bearer token, e.g. every 15 minutes.'
+                    : 'Set CRON_SECRET and have a scheduler call /api/cron/reminders to enable scheduled runs.'}
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={handleRunNow} disabled={running}>
+                {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                Run Now
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {runs.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">No reminder runs yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead className="text-right">Checked</TableHead>
+                    <TableHead className="text-right">Sent</TableHead>
+                    <TableHead className="text-right">Skipped</TableHead>
+                    <TableHead className="text-right">Failed</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map(run => (
+                    <TableRow key={run.id} className="cursor-pointer" onClick={() => setViewingRun(run)}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(run.startedAt), 'MMM dd, yyyy HH:mm')}</TableCell>
+                      <TableCell>{run.trigger === 'CRON' ? 'Scheduled' : 'Manual'}</TableCell>
+                      <TableCell className="text-right">{run.checkedUsers}</TableCell>
+                      <TableCell className="text-right">{run.sentCount}</TableCell>
+                      <TableCell className="text-right">{run.skippedCount}</TableCell>
+                      <TableCell className="text-right">{run.failedCount}</TableCell>
+                      <TableCell>
+                        {run.status === 'COMPLETED' && <Badge variant="secondary">Completed</Badge>}
+                        {run.status === 'RUNNING' && <Badge variant="outline">Running</Badge>}
+                        {run.status === 'FAILED' && <Badge variant="destructive">Failed</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* History */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Reminder History
+            </CardTitle>
+            <CardDescription>The 100 most recent reminders</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {logs.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">No reminders have been sent yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Sent By</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map(log => (
+                    <TableRow key={log.id} className="cursor-pointer" onClick={() => setViewingLog(log)}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(log.createdAt), 'MMM dd, yyyy HH:mm')}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{log.user.name || log.user.email}</div>
+                        <div className="text-xs text-gray-500">{log.user.email}</div>
+                      </TableCell>
+                      <TableCell>{templateNames.get(log.templateKey) || log.templateKey}</TableCell>
+                      <TableCell className="max-w-xs truncate">{log.subject}</TableCell>
+                      <TableCell>
+                        {log.source === 'SCHEDULED'
+                          ? <span className="text-gray-500">Scheduled</span>
+                          : log.sentBy?.name || log.sentBy?.email || '—'}
+                      </TableCell>
+                      <TableCell>
+                        {log.status === 'SENT'
+                          ? <Badge variant="secondary">Sent via {log.transport}</Badge>
+                          : <Badge variant="destructive">Failed</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!viewingRun} onOpenChange={(open) => !open && setViewingRun(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Reminder Run</DialogTitle>
+              <DialogDescription>
+                {viewingRun && `${viewingRun.trigger === 'CRON' ? 'Scheduled' : 'Manual'} run on ${format(new Date(viewingRun.startedAt), 'MMM dd, yyyy HH:mm')}, ${viewingRun.checkedUsers} users checked`}
+              </DialogDescription>
+            </DialogHeader>
+            {viewingRun?.error && (
+              <p className="text-sm text-red-600">{viewingRun.error}</p>
+            )}
+            {viewingRun && viewingRun.details.length === 0 ? (
+              <p className="text-sm text-gray-500">Nobody needed a reminder.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewingRun?.details.map(outcome => (
+                      <TableRow key={outcome.userId}>
+                        <TableCell>{outcome.name}</TableCell>
+                        <TableCell>
+                          {outcome.action === 'SENT' && <Badge variant="secondary">Sent</Badge>}
+                          {outcome.action === 'SKIPPED' && <Badge variant="outline">Skipped</Badge>}
+                          {outcome.action === 'FAILED' && <Badge variant="destructive">Failed</Badge>}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">{outcome.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!viewingLog} onOpenChange={(open) => !open && setViewingLog(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{viewingLog?.subject}</DialogTitle>
+              <DialogDescription>
+                {viewingLog && `To ${viewingLog.user.email} on ${format(new Date(viewingLog.createdAt), 'MMM dd, yyyy HH:mm')}`}
+              </DialogDescription>
+            </DialogHeader>
+            {viewingLog?.error && (
+              <p className="text-sm text-red-600">{viewingLog.error}</p>
+            )}
+            <pre className="whitespace-pre-wrap text-sm bg-gray-50 rounded-md p-4 max-h-96 overflow-y-auto">
+              {viewingLog?.body}
+            </pre>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
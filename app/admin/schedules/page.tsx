@@ -0,0 +1,462 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { format, startOfMonth } from 'date-fns'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { CalendarClock, Edit, Loader2, Plus, Shield, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface ScheduleInfo {
+  id: string | null
+  effectiveDate: string | null
+  weeklyHours: number
+  workingDays: number[]
+  dayStart: string
+  dayEnd: string
+}
+
+interface ExpectedHoursRow {
+  user: { id: string; name: string | null; email: string }
+  schedule: ScheduleInfo
+  expectedHours: number
+  timeOffHours: number
+  loggedHours: number
+  differenceHours: number
+  percentOfExpected: number | null
+}
+
+interface WorkSchedule extends ScheduleInfo {
+  id: string
+  effectiveDate: string
+  createdAt: string
+}
+
+interface ScheduleFormData {
+  effectiveDate: string
+  weeklyHours: string
+  workingDays: number[]
+  dayStart: string
+  dayEnd: string
+}
+
+// Monday first; values are Date#getDay()
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' }
+]
+
+function describeDays(days: number[]): string {
+  if (days.length === 0) return 'No working days'
+  return WEEKDAYS.filter(day => days.includes(day.value)).map(day => day.label).join(', ')
+}
+
+export default function AdminSchedulesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [rows, setRows] = useState<ExpectedHoursRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'))
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+
+  // Schedule dialog
+  const [dialogUser, setDialogUser] = useState<ExpectedHoursRow | null>(null)
+  const [history, setHistory] = useState<WorkSchedule[]>([])
+  const [form, setForm] = useState<ScheduleFormData | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ startDate, endDate })
+      const response = await fetch(`/api/admin/work-schedules/report?${params}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setRows(data)
+      } else {
+        toast.error(data.error || 'Failed to fetch the report')
+      }
+    } catch (error) {
+      console.error('Failed to fetch the hours vs expected report:', error)
+      toast.error('Failed to fetch the report')
+    } finally {
+      setLoading(false)
+    }
+  }, [startDate, endDate])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchReport()
+    }
+  }, [session, fetchReport])
+
+  const fetchHistory = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/admin/work-schedules?userId=${userId}`)
+      if (response.ok) {
+        setHistory(await response.json())
+      } else {
+        toast.error('Failed to fetch schedule history')
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedule history:', error)
+      toast.error('Failed to fetch schedule history')
+    }
+  }
+
+  const openSchedule = (row: ExpectedHoursRow) => {
+    setDialogUser(row)
+    setHistory([])
+    setForm({
+      effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+      weeklyHours: String(row.schedule.weeklyHours),
+      workingDays: row.schedule.workingDays,
+      dayStart: row.schedule.dayStart,
+      dayEnd: row.schedule.dayEnd
+    })
+    fetchHistory(row.user.id)
+  }
+
+  const toggleDay = (day: number, checked: boolean) => {
+    if (!form) return
+    setForm({
+      ...form,
+      workingDays: checked ? [...form.workingDays, day] : form.workingDays.filter(value => value !== day)
+    })
+  }
+
+  const handleSave = async () => {
+    if (!dialogUser || !form) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/work-schedules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId: dialogUser.user.id,
+          effectiveDate: form.effectiveDate,
+          weeklyHours: Number(form.weeklyHours),
+          workingDays: form.workingDays,
+          dayStart: form.dayStart,
+          dayEnd: form.dayEnd
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details ? Object.values(data.details as Record<string, string[]>).flat()[0] : undefined
+        toast.error(detail || data.error || 'Failed to save schedule')
+        return
+      }
+
+      toast.success('Schedule saved')
+      await Promise.all([fetchHistory(dialogUser.user.id), fetchReport()])
+    } catch (error) {
+      console.error('Failed to save schedule:', error)
+      toast.error('Failed to save schedule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (schedule: WorkSchedule) => {
+    if (!dialogUser) return
+    if (!confirm(`Delete the schedule starting ${format(new Date(`${schedule.effectiveDate}T00:00:00`), 'MMM d, yyyy')}?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/work-schedules/${schedule.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to delete schedule')
+        return
+      }
+
+      toast.success('Schedule deleted')
+      await Promise.all([fetchHistory(dialogUser.user.id), fetchReport()])
+    } catch (error) {
+      console.error('Failed to delete schedule:', error)
+      toast.error('Failed to delete schedule')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to manage work schedules.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      expected: sum.expected + row.expectedHours,
+      timeOff: sum.timeOff + row.timeOffHours,
+      logged: sum.logged + row.loggedHours
+    }),
+    { expected: 0, timeOff: 0, logged: 0 }
+  )
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Work Schedules</h1>
+            <p className="text-gray-600">Expected hours per person, and how logged time compares</p>
+          </div>
+          <Badge variant="destructive" className="flex items-center gap-2">
+            <Shield className="h-4 w-4" />
+            Admin Only
+          </Badge>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Hours vs Expected
+            </CardTitle>
+            <CardDescription>
+              Expected hours follow each user&apos;s schedule, counted up to today and leaving out holidays and
+              approved leave. Users without a schedule use the default weekly hours from the reminder settings over
+              Monday to Friday.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="report-start">From</Label>
+                <Input id="report-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="report-end">To</Label>
+                <Input id="report-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Time Off</TableHead>
+                  <TableHead className="text-right">Logged</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                  <TableHead className="text-right">% of Expected</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.user.id}>
+                    <TableCell>
+                      <div className="font-medium">{row.user.name || row.user.email}</div>
+                      <div className="text-xs text-gray-500">{row.user.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">
+                        {row.schedule.weeklyHours}h · {describeDays(row.schedule.workingDays)}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {row.schedule.dayStart}–{row.schedule.dayEnd}
+                        {row.schedule.id === null && ' · default'}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.expectedHours.toFixed(2)}h</TableCell>
+                    <TableCell className="text-right text-gray-500">
+                      {row.timeOffHours > 0 ? `${row.timeOffHours.toFixed(2)}h` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{row.loggedHours.toFixed(2)}h</TableCell>
+                    <TableCell className={`text-right ${row.differenceHours < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                      {row.differenceHours > 0 ? '+' : ''}{row.differenceHours.toFixed(2)}h
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.percentOfExpected === null ? '—' : `${row.percentOfExpected}%`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => openSchedule(row)}>
+                        <Edit className="h-4 w-4 mr-1" />
+                        Schedule
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              {rows.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2}>Total</TableCell>
+                    <TableCell className="text-right">{totals.expected.toFixed(2)}h</TableCell>
+                    <TableCell className="text-right text-gray-500">{totals.timeOff.toFixed(2)}h</TableCell>
+                    <TableCell className="text-right">{totals.logged.toFixed(2)}h</TableCell>
+                    <TableCell className="text-right">
+                      {totals.logged - totals.expected > 0 ? '+' : ''}{(totals.logged - totals.expected).toFixed(2)}h
+                    </TableCell>
+                    <TableCell colSpan={2} />
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!dialogUser} onOpenChange={(open) => !open && setDialogUser(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Work Schedule: {dialogUser?.user.name || dialogUser?.user.email}</DialogTitle>
+              <DialogDescription>
+                A new schedule applies from its start date on; days before it keep the schedule they had.
+              </DialogDescription>
+            </DialogHeader>
+
+            {form && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="schedule-from">Starts</Label>
+                    <Input
+                      id="schedule-from"
+                      type="date"
+                      value={form.effectiveDate}
+                      onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="schedule-hours">Weekly Hours</Label>
+                    <Input
+                      id="schedule-hours"
+                      type="number"
+                      min="0"
+                      max="168"
+                      step="0.5"
+                      value={form.weeklyHours}
+                      onChange={(e) => setForm({ ...form, weeklyHours: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="schedule-start">Day Starts</Label>
+                    <Input
+                      id="schedule-start"
+                      type="time"
+                      value={form.dayStart}
+                      onChange={(e) => setForm({ ...form, dayStart: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="schedule-end">Day Ends</Label>
+                    <Input
+                      id="schedule-end"
+                      type="time"
+                      value={form.dayEnd}
+                      onChange={(e) => setForm({ ...form, dayEnd: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Working Days</Label>
+                  <div className="flex flex-wrap gap-3">
+                    {WEEKDAYS.map(day => (
+                      <div key={day.value} className="flex items-center gap-1">
+                        <Checkbox
+                          id={`schedule-day-${day.value}`}
+                          checked={form.workingDays.includes(day.value)}
+                          onCheckedChange={(checked) => toggleDay(day.value, checked === true)}
+                        />
+                        <Label htmlFor={`schedule-day-${day.value}`} className="text-sm font-normal">{day.label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button onClick={handleSave} disabled={saving}>
+                    {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                    Add Schedule
+                  </Button>
+                </div>
+
+                <div className="border-t pt-4">
+                  <p className="text-sm font-medium mb-2">History</p>
+                  {history.length === 0 ? (
+                    <p className="text-sm text-gray-500">No schedule yet; the default applies.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Starts</TableHead>
+                          <TableHead>Weekly Hours</TableHead>
+                          <TableHead>Working Days</TableHead>
+                          <TableHead>Hours</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {history.map(schedule => (
+                          <TableRow key={schedule.id}>
+                            <TableCell>{format(new Date(`${schedule.effectiveDate}T00:00:00`), 'MMM d, yyyy')}</TableCell>
+                            <TableCell>{schedule.weeklyHours}h</TableCell>
+                            <TableCell>{describeDays(schedule.workingDays)}</TableCell>
+                            <TableCell>{schedule.dayStart}–{schedule.dayEnd}</TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(schedule)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogUser(null)}>Close</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,404 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Loader2, Shield, Trash2, RotateCcw, Settings, AlertTriangle } from 'lucide-react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+
+interface TrashedProject {
+  id: string
+  name: string
+  code: string | null
+  color: string
+  archivedAt: string
+  archivedBy: string | null
+  purgeAfter: string | null
+  timeEntries: number
+}
+
+interface PurgeImpact {
+  projectId: string
+  projectName: string
+  timeEntries: number
+  hours: number
+  users: number
+  approvedEntries: number
+  invoicedEntries: number
+  invoiceLineItems: number
+  totalSpent: number
+  fiscalYears: number
+  permissions: number
+  assignedUsers: number
+  billRates: number
+  rateCards: number
+  budgetAlerts: number
+  tasks: number
+  canPurge: boolean
+  blockedReason: string | null
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+
+export default function AdminTrashPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [projects, setProjects] = useState<TrashedProject[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [savingSettings, setSavingSettings] = useState(false)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [purgingProject, setPurgingProject] = useState<TrashedProject | null>(null)
+  const [impact, setImpact] = useState<PurgeImpact | null>(null)
+  const [loadingImpact, setLoadingImpact] = useState(false)
+  const [confirmName, setConfirmName] = useState('')
+  const [purging, setPurging] = useState(false)
+
+  // Redirect non-admin users
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (session && session.user.role !== 'ADMIN') {
+      router.push('/calendar')
+    }
+  }, [session, status, router])
+
+  useEffect(() => {
+    if (session && session.user.role === 'ADMIN') {
+      fetchTrash()
+    }
+  }, [session])
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch('/api/admin/projects/trash')
+      if (response.ok) {
+        const data = await response.json()
+        setProjects(data.projects)
+        setRetentionDays(data.settings.projectTrashRetentionDays)
+      } else {
+        toast.error('Failed to fetch the project trash')
+      }
+    } catch (error) {
+      console.error('Failed to fetch project trash:', error)
+      toast.error('Failed to fetch the project trash')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    if (retentionDays === null) return
+
+    setSavingSettings(true)
+    try {
+      const response = await fetch('/api/admin/projects/trash', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectTrashRetentionDays: retentionDays }),
+      })
+
+      if (response.ok) {
+        toast.success('Trash retention updated')
+        fetchTrash()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.details?.projectTrashRetentionDays?.[0] || errorData.error || 'Failed to update trash retention')
+      }
+    } catch (error) {
+      console.error('Failed to update trash retention:', error)
+      toast.error('Failed to update trash retention')
+    } finally {
+      setSavingSettings(false)
+    }
+  }
+
+  const handleRestore = async (project: TrashedProject) => {
+    setRestoringId(project.id)
+    try {
+      const response = await fetch(`/api/admin/projects/${project.id}/restore`, { method: 'POST' })
+
+      if (response.ok) {
+        toast.success(`${project.name} restored`)
+        fetchTrash()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to restore project')
+      }
+    } catch (error) {
+      console.error('Failed to restore project:', error)
+      toast.error('Failed to restore project')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const openPurgeDialog = async (project: TrashedProject) => {
+    setPurgingProject(project)
+    setImpact(null)
+    setConfirmName('')
+    setLoadingImpact(true)
+    try {
+      const response = await fetch(`/api/admin/projects/${project.id}/purge`)
+      if (response.ok) {
+        const data = await response.json()
+        setImpact(data.impact)
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to load purge summary')
+        setPurgingProject(null)
+      }
+    } catch (error) {
+      console.error('Failed to load purge summary:', error)
+      toast.error('Failed to load purge summary')
+      setPurgingProject(null)
+    } finally {
+      setLoadingImpact(false)
+    }
+  }
+
+  const handlePurge = async () => {
+    if (!purgingProject) return
+
+    setPurging(true)
+    try {
+      const response = await fetch(`/api/admin/projects/${purgingProject.id}/purge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ confirmName }),
+      })
+
+      if (response.ok) {
+        toast.success(`${purgingProject.name} was permanently deleted`)
+        setPurgingProject(null)
+        fetchTrash()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.details?.confirmName?.[0] || errorData.error || 'Failed to purge project')
+      }
+    } catch (error) {
+      console.error('Failed to purge project:', error)
+      toast.error('Failed to purge project')
+    } finally {
+      setPurging(false)
+    }
+  }
+
+  if (status === 'loading' || (loading && session?.user.role === 'ADMIN')) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <Shield className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need admin privileges to manage the project trash.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Project Trash</h1>
+            <p className="text-gray-600">Restore archived projects or delete them permanently</p>
+          </div>
+          <Badge variant="destructive" className="flex items-center gap-2">
+            <Shield className="h-4 w-4" />
+            Admin Only
+          </Badge>
+        </div>
+
+        {/* Retention */}
+        {retentionDays !== null && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Retention
+              </CardTitle>
+              <CardDescription>
+                Archived projects are permanently deleted with all their time entries once they have been in the trash this long.
+                Set it to 0 to keep them until they are purged by hand. Automatic purging needs a scheduler calling /api/cron/purge-trash.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="projectTrashRetentionDays">Keep Archived Projects For (days)</Label>
+                  <Input
+                    id="projectTrashRetentionDays"
+                    type="number"
+                    min="0"
+                    max="3650"
+                    value={retentionDays}
+                    onChange={(e) => setRetentionDays(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end mt-4">
+                <Button onClick={handleSaveSettings} disabled={savingSettings}>
+                  {savingSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Archived projects */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5" />
+              Archived Projects
+            </CardTitle>
+            <CardDescription>
+              Archived projects are hidden from project pickers but still appear in reports. Nobody can log new time against them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {projects.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">The trash is empty</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Archived</TableHead>
+                    <TableHead>Archived By</TableHead>
+                    <TableHead className="text-right">Entries</TableHead>
+                    <TableHead>Purged On</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {projects.map(project => (
+                    <TableRow key={project.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: project.color }} />
+                          <span className="font-medium">{project.name}</span>
+                          {project.code && <span className="text-xs text-gray-500">{project.code}</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{format(new Date(project.archivedAt), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>{project.archivedBy || '—'}</TableCell>
+                      <TableCell className="text-right">{project.timeEntries}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {project.purgeAfter ? format(new Date(project.purgeAfter), 'MMM dd, yyyy') : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRestore(project)}
+                            disabled={restoringId === project.id}
+                          >
+                            {restoringId === project.id
+                              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              : <RotateCcw className="h-4 w-4 mr-2" />}
+                            Restore
+                          </Button>
+                          <Button size="sm" variant="destructive" onClick={() => openPurgeDialog(project)}>
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Purge
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!purgingProject} onOpenChange={(open) => !open && setPurgingProject(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-red-600" />
+                Permanently delete {purgingProject?.name}?
+              </DialogTitle>
+              <DialogDescription>
+                This cannot be undone. Everything below is deleted together with the project.
+              </DialogDescription>
+            </DialogHeader>
+
+            {loadingImpact || !impact ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <ul className="text-sm space-y-1">
+                  <li><strong>{impact.timeEntries}</strong> time entries ({impact.hours.toFixed(2)} hours) from <strong>{impact.users}</strong> users, {impact.approvedEntries} approved</li>
+                  <li><strong>{formatCurrency(impact.totalSpent)}</strong> recorded spend across {impact.fiscalYears} fiscal year budget(s)</li>
+                  <li><strong>{impact.permissions}</strong> project permissions and <strong>{impact.assignedUsers}</strong> user assignments</li>
+                  <li><strong>{impact.tasks}</strong> tasks, <strong>{impact.billRates}</strong> bill rates, <strong>{impact.rateCards}</strong> cost rate cards and <strong>{impact.budgetAlerts}</strong> budget alerts</li>
+                </ul>
+
+                {impact.canPurge ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="confirmName">Type <strong>{impact.projectName}</strong> to confirm</Label>
+                    <Input
+                      id="confirmName"
+                      value={confirmName}
+                      onChange={(e) => setConfirmName(e.target.value)}
+                      autoComplete="off"
+                    />
+                  </div>
+                ) : (
+                  <p className="text-sm text-red-600">
+                    {impact.blockedReason} ({impact.invoicedEntries} invoiced entries, {impact.invoiceLineItems} invoice lines).
+                  </p>
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPurgingProject(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handlePurge}
+                disabled={purging || !impact?.canPurge || confirmName.trim() !== impact?.projectName.trim()}
+              >
+                {purging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Delete Permanently
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,41 @@
+// app/api/admin/audit/export/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { AuditLogger } from '@/lib/audit-log'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = AuditLogger.parseQuery(searchParams)
+
+    if ((query.from && isNaN(query.from.getTime())) || (query.to && isNaN(query.to.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    const csvContent = await AuditLogger.exportCsv(query)
+    const filename = `Audit_Log_${new Date().toISOString().split('T')[0]}.csv`
+
+    console.log(`Admin ${session.user.email} exported the audit log`)
+
+    return new NextResponse(csvContent, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      }
+    })
+  } catch (error) {
+    console.error('Failed to export audit events:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/admin/audit/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { AuditLogger } from '@/lib/audit-log'
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Query the audit trail
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const query = AuditLogger.parseQuery(searchParams)
+
+    if ((query.from && isNaN(query.from.getTime())) || (query.to && isNaN(query.to.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    const result = await AuditLogger.query(query)
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Failed to query audit events:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,138 @@
+// app/api/admin/budget-alerts/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { BudgetAlertManager, MAX_BUDGET_ALERT_THRESHOLDS } from '@/lib/budget-alerts'
+import { Mailer } from '@/lib/mailer'
+import { AuditLogger } from '@/lib/audit-log'
+import { z } from 'zod'
+
+const updateBudgetAlertSettingsSchema = z.object({
+  budgetAlertThresholds: z
+    .array(z.number().int().min(1, 'Thresholds must be at least 1%').max(500, 'Thresholds cannot exceed 500%'))
+    .min(1, 'At least one threshold is required')
+    .max(MAX_BUDGET_ALERT_THRESHOLDS, `At most ${MAX_BUDGET_ALERT_THRESHOLDS} thresholds are allowed`),
+  budgetAlertEmailEnabled: z.boolean()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Alert settings, the active mail transport and the most recent alerts
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const settings = await BudgetAlertManager.getSettings()
+    const recentAlerts = await prisma.budgetAlert.findMany({
+      include: { project: { select: { id: true, name: true, color: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 20
+    })
+
+    let mailTransport: string
+    try {
+      mailTransport = Mailer.getTransport().name
+    } catch (error) {
+      mailTransport = `misconfigured: ${error instanceof Error ? error.message : 'unknown error'}`
+    }
+
+    return NextResponse.json({
+      settings,
+      mailTransport,
+      recentAlerts: recentAlerts.map(alert => ({
+        id: alert.id,
+        project: alert.project,
+        fiscalYear: alert.fiscalYear,
+        quarter: alert.quarter,
+        threshold: alert.threshold,
+        utilization: Number(alert.utilization),
+        spent: Number(alert.spent),
+        budget: Number(alert.budget),
+        createdAt: alert.createdAt.toISOString()
+      }))
+    })
+  } catch (error) {
+    console.error('Failed to get budget alert settings:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Update the alert thresholds and whether alerts are emailed
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = updateBudgetAlertSettingsSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    console.log(`Admin ${session.user.email} updating budget alert settings`, result.data)
+
+    const previousSettings = await BudgetAlertManager.getSettings()
+    const settings = await BudgetAlertManager.updateSettings(result.data, session.user.id)
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: 'budget-alerts',
+      before: previousSettings,
+      after: settings
+    })
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    console.error('Failed to update budget alert settings:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// POST - Send a test email to the signed-in admin through the configured transport
+export async function POST() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const sent = await Mailer.send({
+      to: session.user.email,
+      subject: 'TimeTracker test email',
+      text: 'This is a test email from TimeTracker. Budget alerts will be delivered the same way.\n'
+    })
+
+    if (!sent) {
+      return NextResponse.json({ error: 'Failed to send test email, check the server logs' }, { status: 502 })
+    }
+
+    return NextResponse.json({ success: true, transport: Mailer.getTransport().name })
+  } catch (error) {
+    console.error('Failed to send test email:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
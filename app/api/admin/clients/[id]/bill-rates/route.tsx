@@ -0,0 +1,136 @@
+// app/api/admin/clients/[id]/bill-rates/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { AuditLogger } from '@/lib/audit-log'
+import { z } from 'zod'
+
+const createBillRateSchema = z.object({
+  rate: z.number().min(0, 'Rate must be non-negative'),
+  effectiveDate: z.string().transform(str => new Date(str)),
+  projectId: z.string().nullable().optional(),
+  userId: z.string().nullable().optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// POST - Add a bill rate for the client, optionally narrowed to a project and/or user
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id: clientId } = await params
+    const body = await request.json()
+    const result = createBillRateSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { rate, effectiveDate, projectId, userId } = result.data
+
+    if (isNaN(effectiveDate.getTime())) {
+      return NextResponse.json({ error: 'Invalid effective date' }, { status: 400 })
+    }
+
+    if (projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, clientId },
+        select: { id: true }
+      })
+
+      if (!project) {
+        return NextResponse.json({ error: 'Project does not belong to this client' }, { status: 400 })
+      }
+    }
+
+    const billRate = await prisma.billRate.create({
+      data: {
+        clientId,
+        projectId: projectId || null,
+        userId: userId || null,
+        rate,
+        effectiveDate,
+        createdBy: session.user.id
+      }
+    })
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'CREATE',
+      entityType: 'BILL_RATE',
+      entityId: billRate.id,
+      after: billRate
+    })
+
+    return NextResponse.json({ ...billRate, rate: Number(billRate.rate) }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create bill rate:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Remove a bill rate (?rateId=)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id: clientId } = await params
+    const { searchParams } = new URL(request.url)
+    const rateId = searchParams.get('rateId')
+
+    if (!rateId) {
+      return NextResponse.json({ error: 'Rate ID required' }, { status: 400 })
+    }
+
+    const existing = await prisma.billRate.findFirst({
+      where: { id: rateId, clientId }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Bill rate not found' }, { status: 404 })
+    }
+
+    await prisma.billRate.delete({ where: { id: rateId } })
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'DELETE',
+      entityType: 'BILL_RATE',
+      entityId: rateId,
+      before: existing
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete bill rate:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
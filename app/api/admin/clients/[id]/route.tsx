@@ -0,0 +1,148 @@
+// app/api/admin/clients/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { AuditLogger } from '@/lib/audit-log'
+import { z } from 'zod'
+
+const updateClientSchema = z.object({
+  name: z.string().min(1, 'Client name is required').optional(),
+  email: z.string().email().optional().or(z.literal('')),
+  address: z.string().optional(),
+  currency: z.string().length(3, 'Use a 3-letter currency code').optional(),
+  paymentTermsDays: z.number().int().min(0).max(365).optional(),
+  active: z.boolean().optional(),
+  projectIds: z.array(z.string()).optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// PUT - Update a client and, optionally, which projects belong to it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const body = await request.json()
+    const result = updateClientSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const existing = await prisma.client.findUnique({
+      where: { id },
+      include: { projects: { select: { id: true } } }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const { projectIds, email, address, currency, ...rest } = result.data
+
+    const client = await prisma.$transaction(async (tx) => {
+      if (projectIds) {
+        await tx.project.updateMany({
+          where: { clientId: id, id: { notIn: projectIds } },
+          data: { clientId: null }
+        })
+        await tx.project.updateMany({
+          where: { id: { in: projectIds } },
+          data: { clientId: id }
+        })
+      }
+
+      return tx.client.update({
+        where: { id },
+        data: {
+          ...rest,
+          ...(email !== undefined ? { email: email || null } : {}),
+          ...(address !== undefined ? { address: address || null } : {}),
+          ...(currency ? { currency: currency.toUpperCase() } : {})
+        },
+        include: { projects: { select: { id: true } } }
+      })
+    })
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'CLIENT',
+      entityId: id,
+      before: { ...existing, projects: existing.projects.map(p => p.id) },
+      after: { ...client, projects: client.projects.map(p => p.id) }
+    })
+
+    return NextResponse.json(client)
+  } catch (error) {
+    console.error('Failed to update client:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Delete a client that has never been invoiced
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+
+    const existing = await prisma.client.findUnique({
+      where: { id },
+      include: { _count: { select: { invoices: true } } }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    if (existing._count.invoices > 0) {
+      return NextResponse.json({
+        error: 'This client has invoices and cannot be deleted. Deactivate it instead.'
+      }, { status: 409 })
+    }
+
+    await prisma.client.delete({ where: { id } })
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'DELETE',
+      entityType: 'CLIENT',
+      entityId: id,
+      before: { name: existing.name, email: existing.email, currency: existing.currency }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete client:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
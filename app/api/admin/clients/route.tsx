@@ -0,0 +1,111 @@
+// app/api/admin/clients/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { AuditLogger } from '@/lib/audit-log'
+import { z } from 'zod'
+
+const createClientSchema = z.object({
+  name: z.string().min(1, 'Client name is required'),
+  email: z.string().email().optional().or(z.literal('')),
+  address: z.string().optional(),
+  currency: z.string().length(3, 'Use a 3-letter currency code').default('USD'),
+  paymentTermsDays: z.number().int().min(0).max(365).default(30)
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - List clients with their projects and bill rates
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const clients = await prisma.client.findMany({
+      include: {
+        projects: {
+          select: { id: true, name: true, color: true, billable: true, active: true },
+          orderBy: { name: 'asc' }
+        },
+        billRates: {
+          include: {
+            project: { select: { id: true, name: true } },
+            user: { select: { id: true, name: true, email: true } }
+          },
+          orderBy: { effectiveDate: 'desc' }
+        },
+        _count: { select: { invoices: true } }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    return NextResponse.json(clients.map(client => ({
+      ...client,
+      billRates: client.billRates.map(rate => ({
+        ...rate,
+        rate: Number(rate.rate)
+      }))
+    })))
+  } catch (error) {
+    console.error('Failed to fetch clients:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Create a client
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = createClientSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { name, email, address, currency, paymentTermsDays } = result.data
+
+    const client = await prisma.client.create({
+      data: {
+        name,
+        email: email || null,
+        address: address || null,
+        currency: currency.toUpperCase(),
+        paymentTermsDays
+      }
+    })
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'CREATE',
+      entityType: 'CLIENT',
+      entityId: client.id,
+      after: client
+    })
+
+    return NextResponse.json(client, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create client:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
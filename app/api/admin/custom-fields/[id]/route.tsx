@@ -0,0 +1,89 @@
+// app/api/admin/custom-fields/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryFieldManager } from '@/lib/entry-fields'
+import { z } from 'zod'
+
+const updateFieldSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{0,39}$/, 'Use lowercase letters, digits and underscores, starting with a letter').optional(),
+  name: z.string().trim().min(1, 'Field name is required').max(60).optional(),
+  type: z.enum(['TEXT', 'NUMBER', 'SELECT', 'DATE']).optional(),
+  options: z.array(z.string().max(100)).max(50).optional(),
+  active: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).max(1000).optional(),
+  requiredProjectIds: z.array(z.string()).optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// PUT - Edit a custom field and the projects that require it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const body = await request.json()
+    const result = updateFieldSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const updated = await EntryFieldManager.updateField(id, result.data, { id: session.user.id, email: session.user.email })
+
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status })
+    }
+
+    return NextResponse.json(updated.field)
+  } catch (error) {
+    console.error('Failed to update custom field:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Remove a custom field that has no values
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const deleted = await EntryFieldManager.deleteField(id, { id: session.user.id, email: session.user.email })
+
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete custom field:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+// app/api/admin/custom-fields/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryFieldManager } from '@/lib/entry-fields'
+import { z } from 'zod'
+
+const createFieldSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{0,39}$/, 'Use lowercase letters, digits and underscores, starting with a letter'),
+  name: z.string().trim().min(1, 'Field name is required').max(60),
+  type: z.enum(['TEXT', 'NUMBER', 'SELECT', 'DATE']),
+  options: z.array(z.string().max(100)).max(50).optional(),
+  active: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).max(1000).optional(),
+  requiredProjectIds: z.array(z.string()).optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - List all custom fields with the projects that require them
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    return NextResponse.json(await EntryFieldManager.listFields())
+  } catch (error) {
+    console.error('Failed to fetch custom fields:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Create a custom field
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = createFieldSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const created = await EntryFieldManager.createField(result.data, { id: session.user.id, email: session.user.email })
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    return NextResponse.json(created.field, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create custom field:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+// app/api/admin/entry-validation-settings/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryValidator } from '@/lib/entry-validation'
+import { AuditLogger } from '@/lib/audit-log'
+import { z } from 'zod'
+
+const updateEntryValidationSettingsSchema = z.object({
+  entryMaxDailyHours: z.number().int().min(0, 'Maximum cannot be negative').max(24, 'Maximum must be 24 hours or less'),
+  entryAllowFuture: z.boolean()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Get the daily maximum and future entry rule
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const settings = await EntryValidator.getSettings()
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Failed to get entry validation settings:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Update the daily maximum and future entry rule
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = updateEntryValidationSettingsSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    console.log(`Admin ${session.user.email} updating entry validation settings`, result.data)
+
+    const previousSettings = await EntryValidator.getSettings()
+    const settings = await EntryValidator.updateSettings(result.data, session.user.id)
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: 'entry-validation',
+      before: previousSettings,
+      after: settings
+    })
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    console.error('Failed to update entry validation settings:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
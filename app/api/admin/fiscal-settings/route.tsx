@@ -0,0 +1,90 @@
+// app/api/admin/fiscal-settings/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { FiscalSettingsManager } from '@/lib/fiscal-settings'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { AuditLogger } from '@/lib/audit-log'
+import { z } from 'zod'
+
+const updateFiscalSettingsSchema = z.object({
+  fiscalYearStartMonth: z.number().int().min(1, 'Month must be between 1 and 12').max(12, 'Month must be between 1 and 12')
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Get the fiscal year start month
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const settings = await FiscalSettingsManager.getSettings()
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Failed to get fiscal settings:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Update the fiscal year start month and re-bucket quarterly spend
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = updateFiscalSettingsSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    console.log(`Admin ${session.user.email} updating fiscal settings`, result.data)
+
+    const previousSettings = await FiscalSettingsManager.getSettings()
+    const settings = await FiscalSettingsManager.updateSettings(result.data, session.user.id)
+
+    // Stored q1Spent..q4Spent were bucketed with the old start month
+    let projectsRecalculated = 0
+    if (settings.fiscalYearStartMonth !== previousSettings.fiscalYearStartMonth) {
+      projectsRecalculated = await EnhancedSpendingCalculator.recalculateAllProjectSpending()
+    }
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: 'fiscal-year',
+      before: previousSettings,
+      after: settings,
+      metadata: { projectsRecalculated }
+    })
+
+    return NextResponse.json({ success: true, settings, projectsRecalculated })
+  } catch (error) {
+    console.error('Failed to update fiscal settings:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/admin/holiday-calendars/[id]/holidays/[holidayId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { HolidayCalendarManager } from '@/lib/holidays'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// DELETE - Remove one holiday from a calendar
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; holidayId: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id, holidayId } = await params
+    const deleted = await HolidayCalendarManager.deleteHoliday(id, holidayId, { id: session.user.id, email: session.user.email })
+
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status })
+    }
+
+    // Work on the day is no longer paid at the holiday multiplier
+    await EnhancedSpendingCalculator.recalculateAllProjectSpending()
+
+    return NextResponse.json(deleted.calendar)
+  } catch (error) {
+    console.error('Failed to delete holiday:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
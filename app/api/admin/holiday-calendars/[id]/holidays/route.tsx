@@ -0,0 +1,69 @@
+// app/api/admin/holiday-calendars/[id]/holidays/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { HolidayCalendarManager } from '@/lib/holidays'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { z } from 'zod'
+
+const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd'),
+  name: z.string().min(1).max(200)
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// POST - Add a holiday by hand; a holiday already on that day is renamed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const body = await request.json()
+    const result = holidaySchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const added = await HolidayCalendarManager.addHoliday(
+      id,
+      new Date(`${result.data.date}T00:00:00`),
+      result.data.name,
+      { id: session.user.id, email: session.user.email }
+    )
+
+    if (!added.success) {
+      return NextResponse.json({ error: added.error }, { status: added.status })
+    }
+
+    // Work already logged on the day is now paid at the holiday multiplier
+    await EnhancedSpendingCalculator.recalculateAllProjectSpending()
+
+    return NextResponse.json(added.calendar, { status: 201 })
+  } catch (error) {
+    console.error('Failed to add holiday:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
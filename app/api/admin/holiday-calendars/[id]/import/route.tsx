@@ -0,0 +1,65 @@
+// app/api/admin/holiday-calendars/[id]/import/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { HolidayCalendarManager } from '@/lib/holidays'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+
+const MAX_FILE_SIZE = 1024 * 1024
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// POST - Import the holidays of an iCalendar (.ics) file, sent as multipart form data
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Choose an .ics file to import' }, { status: 400 })
+    }
+
+    if (!/\.ics$/i.test(file.name)) {
+      return NextResponse.json({ error: 'Only .ics files can be imported' }, { status: 400 })
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'The file is larger than 1 MB' }, { status: 400 })
+    }
+
+    const imported = await HolidayCalendarManager.import(id, await file.text(), { id: session.user.id, email: session.user.email })
+
+    if (!imported.success) {
+      return NextResponse.json({ error: imported.error }, { status: imported.status })
+    }
+
+    // Imported holidays change the multiplier of work already logged on those days
+    const projectsRecalculated = await EnhancedSpendingCalculator.recalculateAllProjectSpending()
+
+    return NextResponse.json({ result: imported.result, calendar: imported.calendar, projectsRecalculated })
+  } catch (error) {
+    console.error('Failed to import holidays:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
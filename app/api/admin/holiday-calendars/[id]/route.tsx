@@ -0,0 +1,94 @@
+// app/api/admin/holiday-calendars/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { HolidayCalendarManager } from '@/lib/holidays'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { z } from 'zod'
+
+const updateCalendarSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  region: z.string().max(100).nullable().optional(),
+  userIds: z.array(z.string().min(1)).optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// PUT - Rename a calendar or set the users who observe it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const body = await request.json()
+    const result = updateCalendarSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const updated = await HolidayCalendarManager.update(id, result.data, { id: session.user.id, email: session.user.email })
+
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status })
+    }
+
+    // Users moved on or off the calendar gain or lose its holidays
+    if (result.data.userIds) {
+      await EnhancedSpendingCalculator.recalculateAllProjectSpending()
+    }
+
+    return NextResponse.json(updated.calendar)
+  } catch (error) {
+    console.error('Failed to update holiday calendar:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Remove a calendar and its holidays; its users are left without one
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const deleted = await HolidayCalendarManager.delete(id, { id: session.user.id, email: session.user.email })
+
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status })
+    }
+
+    // Its users no longer get the holiday multiplier on its days
+    const projectsRecalculated = await EnhancedSpendingCalculator.recalculateAllProjectSpending()
+
+    return NextResponse.json({ success: true, projectsRecalculated })
+  } catch (error) {
+    console.error('Failed to delete holiday calendar:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
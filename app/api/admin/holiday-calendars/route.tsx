@@ -0,0 +1,76 @@
+// app/api/admin/holiday-calendars/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { HolidayCalendarManager } from '@/lib/holidays'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { z } from 'zod'
+
+const calendarSchema = z.object({
+  name: z.string().min(1).max(100),
+  region: z.string().max(100).nullable().optional(),
+  userIds: z.array(z.string().min(1)).optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Holiday calendars with their holidays and the users observing them
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    return NextResponse.json(await HolidayCalendarManager.list())
+  } catch (error) {
+    console.error('Failed to fetch holiday calendars:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Create a holiday calendar
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = calendarSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const created = await HolidayCalendarManager.create(result.data, { id: session.user.id, email: session.user.email })
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    // Users assigned straight away may have been moved off another calendar
+    if (created.calendar.userIds.length > 0) {
+      await EnhancedSpendingCalculator.recalculateAllProjectSpending()
+    }
+
+    return NextResponse.json(created.calendar, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create holiday calendar:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
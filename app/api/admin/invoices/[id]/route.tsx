@@ -0,0 +1,131 @@
+// app/api/admin/invoices/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { InvoiceManager } from '@/lib/invoices'
+import { z } from 'zod'
+
+const updateStatusSchema = z.object({
+  status: z.enum(['DRAFT', 'SENT', 'PAID'])
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Invoice with client and line items, for viewing and PDF export
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const { id } = await params
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      include: {
+        client: true,
+        lineItems: {
+          include: { project: { select: { id: true, name: true, code: true } } },
+          orderBy: { sortOrder: 'asc' }
+        }
+      }
+    })
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      ...invoice,
+      subtotal: Number(invoice.subtotal),
+      lineItems: invoice.lineItems.map(item => ({
+        ...item,
+        hours: Number(item.hours),
+        rate: Number(item.rate),
+        amount: Number(item.amount)
+      }))
+    })
+  } catch (error) {
+    console.error('Failed to fetch invoice:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH - Move an invoice to another status (draft -> sent -> paid)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const body = await request.json()
+    const result = updateStatusSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const updated = await InvoiceManager.updateStatus(
+      id,
+      result.data.status,
+      { id: session.user.id, email: session.user.email }
+    )
+
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status })
+    }
+
+    return NextResponse.json({ ...updated.invoice, subtotal: Number(updated.invoice.subtotal) })
+  } catch (error) {
+    console.error('Failed to update invoice status:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Delete a draft invoice and release its entries
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+
+    const deleted = await InvoiceManager.deleteDraft(id, { id: session.user.id, email: session.user.email })
+
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete invoice:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,120 @@
+// app/api/admin/invoices/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { InvoiceManager } from '@/lib/invoices'
+import { z } from 'zod'
+
+const createInvoiceSchema = z.object({
+  clientId: z.string().min(1),
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  dueDate: z.string().optional(),
+  notes: z.string().optional(),
+  dryRun: z.boolean().optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - List invoices, optionally filtered by ?status= and ?clientId=
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const clientId = searchParams.get('clientId')
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        ...(status === 'DRAFT' || status === 'SENT' || status === 'PAID' ? { status } : {}),
+        ...(clientId ? { clientId } : {})
+      },
+      include: {
+        client: { select: { id: true, name: true } },
+        _count: { select: { lineItems: true, timeEntries: true } }
+      },
+      orderBy: { issueDate: 'desc' }
+    })
+
+    return NextResponse.json(invoices.map(invoice => ({
+      ...invoice,
+      subtotal: Number(invoice.subtotal)
+    })))
+  } catch (error) {
+    console.error('Failed to fetch invoices:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Preview (dryRun) or create a draft invoice from approved billable entries
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = createInvoiceSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { clientId, notes, dryRun } = result.data
+    // Whole days in local time, like the other reports
+    const periodStart = new Date(result.data.periodStart + 'T00:00:00')
+    const periodEnd = new Date(result.data.periodEnd + 'T23:59:59.999')
+    const dueDate = result.data.dueDate ? new Date(result.data.dueDate + 'T00:00:00') : undefined
+
+    if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime()) || (dueDate && isNaN(dueDate.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    if (periodStart > periodEnd) {
+      return NextResponse.json({ error: 'Period start must be before period end' }, { status: 400 })
+    }
+
+    if (dryRun) {
+      const previewed = await InvoiceManager.previewInvoice(clientId, periodStart, periodEnd)
+      if (!previewed.success) {
+        return NextResponse.json({ error: previewed.error }, { status: previewed.status })
+      }
+      return NextResponse.json({ preview: previewed.preview })
+    }
+
+    console.log(`Admin ${session.user.email} creating invoice for client ${clientId}`)
+
+    const created = await InvoiceManager.createInvoice(
+      { clientId, periodStart, periodEnd, dueDate, notes },
+      { id: session.user.id, email: session.user.email }
+    )
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    return NextResponse.json({ ...created.invoice, subtotal: Number(created.invoice.subtotal) }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create invoice:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+// app/api/admin/job-roles/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { RateCardManager } from '@/lib/rate-cards'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { z } from 'zod'
+
+const jobRoleSchema = z.object({
+  userId: z.string().min(1),
+  jobRole: z.string().max(100).nullable()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Job roles used by users or rate cards
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    return NextResponse.json(await RateCardManager.listJobRoles())
+  } catch (error) {
+    console.error('Failed to fetch job roles:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Set a user's job role and recalculate the projects they worked on
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = jobRoleSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const updated = await RateCardManager.setJobRole(result.data.userId, result.data.jobRole, { id: session.user.id, email: session.user.email })
+
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status })
+    }
+
+    for (const projectId of updated.projectIds) {
+      await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(projectId)
+    }
+
+    return NextResponse.json({ success: true, projectsRecalculated: updated.projectIds.length })
+  } catch (error) {
+    console.error('Failed to update job role:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
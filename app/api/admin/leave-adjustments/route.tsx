@@ -0,0 +1,59 @@
+// app/api/admin/leave-adjustments/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { LeaveManager } from '@/lib/leave'
+import { z } from 'zod'
+
+const adjustmentSchema = z.object({
+  userId: z.string().min(1),
+  leaveTypeId: z.string().min(1),
+  year: z.number().int().min(2000).max(2100),
+  days: z.number().min(-366).max(366),
+  reason: z.string().min(1, 'A reason is required').max(500)
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// POST - Add days to (or with a negative number, remove days from) a user's leave balance for a year
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = adjustmentSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const adjusted = await LeaveManager.adjustBalance(result.data, { id: session.user.id, email: session.user.email })
+
+    if (!adjusted.success) {
+      return NextResponse.json({ error: adjusted.error }, { status: adjusted.status })
+    }
+
+    return NextResponse.json(await LeaveManager.getBalances(result.data.userId, result.data.year), { status: 201 })
+  } catch (error) {
+    console.error('Failed to adjust leave balance:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,64 @@
+// app/api/admin/leave-types/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { LeaveManager } from '@/lib/leave'
+import { z } from 'zod'
+
+const updateLeaveTypeSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #10b981').optional(),
+  paid: z.boolean().optional(),
+  annualAllowanceDays: z.number().min(0).max(366).optional(),
+  requiresApproval: z.boolean().optional(),
+  active: z.boolean().optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// PUT - Update a leave type. Types in use are deactivated rather than deleted.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const body = await request.json()
+    const result = updateLeaveTypeSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const updated = await LeaveManager.updateType(id, result.data, { id: session.user.id, email: session.user.email })
+
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status })
+    }
+
+    return NextResponse.json(updated.leaveType)
+  } catch (error) {
+    console.error('Failed to update leave type:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
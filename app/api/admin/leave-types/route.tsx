@@ -0,0 +1,73 @@
+// app/api/admin/leave-types/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { LeaveManager } from '@/lib/leave'
+import { z } from 'zod'
+
+const leaveTypeSchema = z.object({
+  name: z.string().min(1).max(100),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #10b981').optional(),
+  paid: z.boolean().optional(),
+  annualAllowanceDays: z.number().min(0).max(366).optional(),
+  requiresApproval: z.boolean().optional(),
+  active: z.boolean().optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - All leave types, including inactive ones
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    return NextResponse.json(await LeaveManager.listTypes())
+  } catch (error) {
+    console.error('Failed to fetch leave types:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Create a leave type
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = leaveTypeSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const created = await LeaveManager.createType(result.data, { id: session.user.id, email: session.user.email })
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    return NextResponse.json(created.leaveType, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create leave type:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
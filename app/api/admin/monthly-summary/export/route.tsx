@@ -5,6 +5,8 @@ import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth' // Use the same import as your main API
 import { PrismaClient } from '@/app/generated/prisma'
 import * as XLSX from 'xlsx'
+import { EntryExportSheet, entryFieldsInclude } from '@/lib/entry-fields'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
 
 const prisma = new PrismaClient()
 
@@ -39,6 +41,7 @@ export async function GET(request: NextRequest) {
 
     const timeEntries = await prisma.timeEntry.findMany({
       where: {
+        status: 'APPROVED',
         date: {
           gte: startDate,
           lte: endDate
@@ -60,7 +63,9 @@ export async function GET(request: NextRequest) {
             color: true,
             code: true
           }
-        }
+        },
+        task: { select: { name: true } },
+        ...entryFieldsInclude
       },
       orderBy: [
         { user: { name: 'asc' } },
@@ -70,18 +75,22 @@ export async function GET(request: NextRequest) {
 
     console.log('Found time entries:', timeEntries.length) // Debug log
 
-    // Process data same as main API
+    // Process data same as main API, costing hours at historical rates with overtime premiums
+    const costs = await EnhancedSpendingCalculator.costEntries(timeEntries)
     const summaryMap = new Map()
+    // One hours column per tag used this month; an entry with several tags counts towards each
+    const tagColumns = new Map<string, string>()
     
     timeEntries.forEach(entry => {
       const key = `${entry.userId}-${entry.projectId}`
-      const hours = Number(entry.hours) || 0
       const rate = Number(entry.user.employeeRate) || 0
-      const cost = hours * rate
+      const { hours, overtimeHours, premiumCost, cost } = costs.get(entry.id)!
 
       if (summaryMap.has(key)) {
         const existing = summaryMap.get(key)
         existing.aggregatedHours += hours
+        existing.overtimeHours += overtimeHours
+        existing.premiumCost += premiumCost
         existing.totalCost += cost
       } else {
         summaryMap.set(key, {
@@ -90,13 +99,25 @@ export async function GET(request: NextRequest) {
           projectCode: entry.project.code,
           projectName: entry.project.name,
           aggregatedHours: hours,
+          overtimeHours,
           hourlyRate: rate,
-          totalCost: cost
+          premiumCost,
+          totalCost: cost,
+          tagHours: {}
         })
       }
+
+      const summary = summaryMap.get(key)
+      entry.tags.forEach(({ tag }) => {
+        tagColumns.set(tag.id, tag.name)
+        summary.tagHours[tag.id] = (summary.tagHours[tag.id] || 0) + hours
+      })
     })
 
     const summaries = Array.from(summaryMap.values())
+    const tags = Array.from(tagColumns.entries())
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name))
     const monthName = new Date(year, month - 1).toLocaleString('default', { month: 'long' })
 
     console.log('Generated summaries:', summaries.length) // Debug log
@@ -111,7 +132,7 @@ export async function GET(request: NextRequest) {
       const summaryData = [
         [`Monthly Employee Summary - ${monthName} ${year}`],
         [''],
-        ['Employee Name', 'Employee Email', 'Project Code', 'Project Name', 'Aggregated Hours', 'Hourly Rate', 'Total Cost']
+        ['Employee Name', 'Employee Email', 'Project Code', 'Project Name', 'Aggregated Hours', 'Overtime Hours', 'Hourly Rate', 'Premium Cost', 'Total Cost', ...tags.map(tag => `${tag.name} (h)`)]
       ]
       
       summaries.forEach(summary => {
@@ -121,17 +142,22 @@ export async function GET(request: NextRequest) {
           summary.projectCode,
           summary.projectName,
           Number(summary.aggregatedHours.toFixed(2)),
+          Number(summary.overtimeHours.toFixed(2)),
           Number(summary.hourlyRate.toFixed(2)),
-          Number(summary.totalCost.toFixed(2))
+          Number(summary.premiumCost.toFixed(2)),
+          Number(summary.totalCost.toFixed(2)),
+          ...tags.map(tag => Number((summary.tagHours[tag.id] || 0).toFixed(2)))
         ])
       })
       
       // Add totals row
       const totalHours = summaries.reduce((sum, s) => sum + s.aggregatedHours, 0)
+      const totalOvertimeHours = summaries.reduce((sum, s) => sum + s.overtimeHours, 0)
+      const totalPremiumCost = summaries.reduce((sum, s) => sum + s.premiumCost, 0)
       const totalCost = summaries.reduce((sum, s) => sum + s.totalCost, 0)
       
       summaryData.push([])
-      summaryData.push(['', '', '', 'TOTALS', totalHours.toFixed(2), '', totalCost.toFixed(2)])
+      summaryData.push(['', '', '', 'TOTALS', totalHours.toFixed(2), totalOvertimeHours.toFixed(2), '', totalPremiumCost.toFixed(2), totalCost.toFixed(2)])
       
       const summarySheet = XLSX.utils.aoa_to_sheet(summaryData)
       
@@ -142,8 +168,11 @@ export async function GET(request: NextRequest) {
         { width: 15 }, // Project Code
         { width: 25 }, // Project Name
         { width: 15 }, // Aggregated Hours
+        { width: 15 }, // Overtime Hours
         { width: 12 }, // Hourly Rate
-        { width: 12 }  // Total Cost
+        { width: 14 }, // Premium Cost
+        { width: 12 }, // Total Cost
+        ...tags.map(() => ({ width: 14 })) // Tag hours
       ]
       
       XLSX.utils.book_append_sheet(workbook, summarySheet, 'Employee Summary')
@@ -217,6 +246,11 @@ export async function GET(request: NextRequest) {
       ]
       
       XLSX.utils.book_append_sheet(workbook, employeeTotalSheet, 'Employee Totals')
+
+      // Entries sheet, one row per approved entry with its tags and custom fields
+      const entrySheet = await EntryExportSheet.load()
+      const entriesSheet = XLSX.utils.aoa_to_sheet(entrySheet.rows(timeEntries))
+      XLSX.utils.book_append_sheet(workbook, entriesSheet, 'Entries')
       
       // Generate Excel buffer
       try {
@@ -252,7 +286,7 @@ export async function GET(request: NextRequest) {
       
       // Generate CSV for accounting software import
       const csvData = [
-        ['Employee Name', 'Project Code', 'Project Name' ,'Aggregated Hours', 'Total Cost']
+        ['Employee Name', 'Project Code', 'Project Name' ,'Aggregated Hours', 'Overtime Hours', 'Premium Cost', 'Total Cost', ...tags.map(tag => `${tag.name} (h)`)]
       ]
       
       summaries.forEach(summary => {
@@ -261,7 +295,10 @@ export async function GET(request: NextRequest) {
           summary.projectCode,
           summary.projectName,
           summary.aggregatedHours.toFixed(2),
-          summary.totalCost.toFixed(2)
+          summary.overtimeHours.toFixed(2),
+          summary.premiumCost.toFixed(2),
+          summary.totalCost.toFixed(2),
+          ...tags.map(tag => (summary.tagHours[tag.id] || 0).toFixed(2))
         ])
       })
       
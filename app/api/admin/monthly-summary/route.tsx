@@ -4,11 +4,13 @@ import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { PrismaClient } from '@/app/generated/prisma'
 import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { RateSource } from '@/lib/rate-cards'
 
 const prisma = new PrismaClient()
 
 interface RatePeriod {
   rate: number
+  source: RateSource
   effectiveDate: string
   endDate: string | null
   hours: number
@@ -38,9 +40,10 @@ export async function GET(request: NextRequest) {
 
     console.log('Fetching monthly summary with historical rates:', { year, month, startDate, endDate, includeRateDetails })
 
-    // Get all time entries for the month with user and project information
+    // Get all approved time entries for the month with user and project information
     const timeEntries = await prisma.timeEntry.findMany({
       where: {
+        status: 'APPROVED',
         date: {
           gte: startDate,
           lte: endDate
@@ -93,34 +96,36 @@ export async function GET(request: NextRequest) {
       projectName: string
       projectCode: string | null
       aggregatedHours: number
+      overtimeHours: number
+      premiumCost: number
       totalCost: number
       ratePeriods: RatePeriod[]
       hasRateChanges: boolean
     }>()
 
-    // Process each time entry with detailed rate period tracking
+    // Historical rates plus overtime premiums; weeks running into the next or previous month
+    // count towards the thresholds
+    const costs = await EnhancedSpendingCalculator.costEntries(timeEntries)
+
+    // Process each time entry with detailed rate period tracking.
+    // Rate periods show hours at the flat rate; premiums are reported separately.
     for (const entry of timeEntries) {
       const key = `${entry.userId}-${entry.projectId}`
-      const hours = Number(entry.hours) || 0
       const entryDate = new Date(entry.date)
-      
-      // Get the historical rate for this specific entry date
-      const historicalRate = await EnhancedSpendingCalculator.getEffectiveRateForDate(
-        entry.userId, 
-        entryDate
-      )
-      
-      const cost = hours * historicalRate
+      const { rate: historicalRate, rateSource, hours, overtimeHours, baseCost, premiumCost, cost: totalCost } = costs.get(entry.id)!
+      const cost = baseCost
 
       if (summaryMap.has(key)) {
         const existing = summaryMap.get(key)!
         existing.aggregatedHours += hours
-        existing.totalCost += cost
+        existing.overtimeHours += overtimeHours
+        existing.premiumCost += premiumCost
+        existing.totalCost += totalCost
 
         // Add to existing rate period or create new one
         if (includeRateDetails) {
           const existingPeriod = existing.ratePeriods.find(p => 
-            Math.abs(p.rate - historicalRate) < 0.01
+            p.source === rateSource && Math.abs(p.rate - historicalRate) < 0.01
           )
           
           if (existingPeriod) {
@@ -129,6 +134,7 @@ export async function GET(request: NextRequest) {
           } else {
             existing.ratePeriods.push({
               rate: historicalRate,
+              source: rateSource,
               effectiveDate: entryDate.toISOString(),
               endDate: null, // Will be calculated later
               hours,
@@ -140,6 +146,7 @@ export async function GET(request: NextRequest) {
       } else {
         const ratePeriods: RatePeriod[] = includeRateDetails ? [{
           rate: historicalRate,
+          source: rateSource,
           effectiveDate: entryDate.toISOString(),
           endDate: null,
           hours,
@@ -155,7 +162,9 @@ export async function GET(request: NextRequest) {
           projectName: entry.project.name,
           projectCode: entry.project.code,
           aggregatedHours: hours,
-          totalCost: cost,
+          overtimeHours,
+          premiumCost,
+          totalCost,
           ratePeriods,
           hasRateChanges: false
         })
@@ -187,6 +196,8 @@ export async function GET(request: NextRequest) {
     // Calculate totals
     const totals = {
       totalHours: summaries.reduce((sum, s) => sum + s.aggregatedHours, 0),
+      overtimeHours: summaries.reduce((sum, s) => sum + s.overtimeHours, 0),
+      premiumCost: summaries.reduce((sum, s) => sum + s.premiumCost, 0),
       totalCost: summaries.reduce((sum, s) => sum + s.totalCost, 0),
       employeeCount: new Set(summaries.map(s => s.employeeId)).size,
       projectCount: new Set(summaries.map(s => s.projectId)).size
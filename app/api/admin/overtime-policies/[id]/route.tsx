@@ -0,0 +1,47 @@
+// app/api/admin/overtime-policies/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { OvertimeManager } from '@/lib/overtime'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// DELETE - Remove a policy; the previous one applies again from its date
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const deleted = await OvertimeManager.delete(id, { id: session.user.id, email: session.user.email })
+
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status })
+    }
+
+    const projectsRecalculated = await EnhancedSpendingCalculator.recalculateAllProjectSpending()
+
+    return NextResponse.json({ success: true, projectsRecalculated })
+  } catch (error) {
+    console.error('Failed to delete overtime policy:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+// app/api/admin/overtime-policies/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { OvertimeManager } from '@/lib/overtime'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { z } from 'zod'
+
+const overtimePolicySchema = z.object({
+  name: z.string().min(1).max(100),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd'),
+  dailyThresholdHours: z.number().positive().max(24).nullable(),
+  weeklyThresholdHours: z.number().positive().max(168).nullable(),
+  overtimeMultiplier: z.number().min(1).max(10),
+  weekendMultiplier: z.number().min(1).max(10),
+  holidayMultiplier: z.number().min(1).max(10)
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - All overtime policies, newest first
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    return NextResponse.json(await OvertimeManager.list())
+  } catch (error) {
+    console.error('Failed to fetch overtime policies:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Add a policy from its effective date and recost project spend
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = overtimePolicySchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const created = await OvertimeManager.create({
+      ...result.data,
+      effectiveDate: new Date(`${result.data.effectiveDate}T00:00:00`)
+    }, { id: session.user.id, email: session.user.email })
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    const projectsRecalculated = await EnhancedSpendingCalculator.recalculateAllProjectSpending()
+
+    return NextResponse.json({ policy: created.policy, projectsRecalculated }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create overtime policy:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,159 @@
+// app/api/admin/periods/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods'
+import { z } from 'zod'
+import { AuditLogger } from '@/lib/audit-log'
+
+const periodActionSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+  month: z.number().int().min(1).max(12),
+  action: z.enum(['lock', 'close', 'reopen']),
+  reason: z.string().optional()
+}).refine(data => data.action !== 'reopen' || (data.reason && data.reason.trim().length > 0), {
+  message: 'A reason is required to reopen a period',
+  path: ['reason']
+})
+
+const updateSettingsSchema = z.object({
+  lockCutoffDay: z.number().int().min(1, 'Cutoff day must be at least 1').max(28, 'Cutoff day must be 28 or less'),
+  lockCutoffMonths: z.number().int().min(0).max(12),
+  autoLockEnabled: z.boolean()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Get lock settings and the status of every month in a year
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const year = parseInt(searchParams.get('year') || new Date().getFullYear().toString())
+
+    if (isNaN(year)) {
+      return NextResponse.json({ error: 'Invalid year' }, { status: 400 })
+    }
+
+    const [settings, periods] = await Promise.all([
+      TimesheetPeriodManager.getSettings(),
+      TimesheetPeriodManager.getPeriodsForYear(year)
+    ])
+
+    return NextResponse.json({ year, settings, periods })
+
+  } catch (error) {
+    console.error('Failed to get timesheet periods:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Lock, close or reopen a period
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = periodActionSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { year, month, action, reason } = result.data
+
+    console.log(`Admin ${session.user.email} requested ${action} for timesheet period ${year}-${month}`)
+
+    const before = await TimesheetPeriodManager.getPeriod(year, month)
+
+    let period
+    if (action === 'lock') {
+      period = await TimesheetPeriodManager.lockPeriod(year, month, session.user.id)
+    } else if (action === 'close') {
+      period = await TimesheetPeriodManager.closePeriod(year, month, session.user.id)
+    } else {
+      period = await TimesheetPeriodManager.reopenPeriod(year, month, session.user.id, reason || '')
+    }
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: action === 'lock' ? 'LOCK' : action === 'close' ? 'CLOSE' : 'REOPEN',
+      entityType: 'TIMESHEET_PERIOD',
+      entityId: `${year}-${month}`,
+      before: { status: before.status, source: before.source },
+      after: { status: period.status, source: period.source },
+      metadata: reason ? { reason } : undefined
+    })
+
+    return NextResponse.json({ success: true, period })
+
+  } catch (error) {
+    console.error('Failed to update timesheet period:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// PUT - Update the automatic cutoff settings
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = updateSettingsSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    console.log(`Admin ${session.user.email} updating timesheet lock settings`, result.data)
+
+    const previousSettings = await TimesheetPeriodManager.getSettings()
+    const settings = await TimesheetPeriodManager.updateSettings(result.data, session.user.id)
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: 'timesheet-locking',
+      before: previousSettings,
+      after: settings
+    })
+
+    return NextResponse.json({ success: true, settings })
+
+  } catch (error) {
+    console.error('Failed to update timesheet lock settings:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
+import { AuditLogger } from '@/lib/audit-log'
 
 const permissionSchema = z.object({
   userId: z.string(),
@@ -49,7 +50,7 @@ export async function GET() {
     })
 
     const projects = await prisma.project.findMany({
-      where: { active: true },
+      where: { active: true, archivedAt: null },
       select: {
         id: true,
         name: true,
@@ -75,6 +76,11 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { userId, projectId, permissions } = permissionSchema.parse(body)
 
+    const previousPermissions = await prisma.projectPermission.findMany({
+      where: { userId, projectId },
+      select: { permission: true }
+    })
+
     // Remove existing permissions for this user-project combination
     await prisma.projectPermission.deleteMany({
       where: {
@@ -94,6 +100,15 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'PERMISSION',
+      entityId: `${userId}:${projectId}`,
+      before: { userId, projectId, permissions: previousPermissions.map(p => p.permission) },
+      after: { userId, projectId, permissions }
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Failed to update permissions:', error)
@@ -116,10 +131,18 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Permission ID required' }, { status: 400 })
     }
 
-    await prisma.projectPermission.delete({
+    const deleted = await prisma.projectPermission.delete({
       where: { id: permissionId }
     })
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'REVOKE',
+      entityType: 'PERMISSION',
+      entityId: deleted.id,
+      before: { userId: deleted.userId, projectId: deleted.projectId, permission: deleted.permission }
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Failed to delete permission:', error)
@@ -0,0 +1,97 @@
+// app/api/admin/projects/[id]/purge/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { ProjectArchiveManager } from '@/lib/project-archive'
+import { z } from 'zod'
+
+const purgeProjectSchema = z.object({
+  confirmName: z.string().min(1, 'Type the project name to confirm')
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - What a purge would delete, for the confirmation dialog
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const { id } = await params
+    const impact = await ProjectArchiveManager.getImpact(id)
+
+    if (!impact) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ impact })
+  } catch (error) {
+    console.error('Failed to get purge impact:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Permanently delete an archived project and everything logged against it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const validationResult = purgeProjectSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validationResult.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { id } = await params
+    const impact = await ProjectArchiveManager.getImpact(id)
+
+    if (!impact) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    if (validationResult.data.confirmName.trim() !== impact.projectName.trim()) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: { confirmName: ['The name does not match the project'] }
+      }, { status: 400 })
+    }
+
+    console.log(`Admin ${session.user.email} purging project ${impact.projectName} (${id})`)
+
+    const result = await ProjectArchiveManager.purge(id, { id: session.user.id, email: session.user.email })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error, impact: result.impact }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, impact: result.impact })
+  } catch (error) {
+    console.error('Failed to purge project:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
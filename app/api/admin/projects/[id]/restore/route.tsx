@@ -0,0 +1,31 @@
+// app/api/admin/projects/[id]/restore/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { ProjectArchiveManager } from '@/lib/project-archive'
+
+// POST - Take a project out of the trash
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const result = await ProjectArchiveManager.restore(id, { id: session.user.id, email: session.user.email })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ success: true, project: result.project })
+  } catch (error) {
+    console.error('Failed to restore project:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,87 @@
+// app/api/admin/projects/trash/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { ProjectArchiveManager } from '@/lib/project-archive'
+import { AuditLogger } from '@/lib/audit-log'
+import { z } from 'zod'
+
+const updateTrashSettingsSchema = z.object({
+  projectTrashRetentionDays: z
+    .number()
+    .int('Retention must be whole days')
+    .min(0, 'Retention cannot be negative')
+    .max(3650, 'Retention cannot exceed 3650 days')
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Archived projects and the trash retention window
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const [projects, settings] = await Promise.all([
+      ProjectArchiveManager.listTrash(),
+      ProjectArchiveManager.getSettings()
+    ])
+
+    return NextResponse.json({ projects, settings })
+  } catch (error) {
+    console.error('Failed to get project trash:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Update how long archived projects stay in the trash
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = updateTrashSettingsSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const previousSettings = await ProjectArchiveManager.getSettings()
+    const settings = await ProjectArchiveManager.updateSettings(result.data, session.user.id)
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: 'project-trash',
+      before: previousSettings,
+      after: settings
+    })
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    console.error('Failed to update project trash settings:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+// app/api/admin/rate-cards/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { RateCardManager } from '@/lib/rate-cards'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// DELETE - Remove a project rate and recalculate the project's spend
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const { id } = await params
+    const deleted = await RateCardManager.delete(id, { id: session.user.id, email: session.user.email })
+
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status })
+    }
+
+    await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(deleted.projectId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete rate card:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
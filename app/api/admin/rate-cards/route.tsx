@@ -0,0 +1,83 @@
+// app/api/admin/rate-cards/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { RateCardManager } from '@/lib/rate-cards'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { z } from 'zod'
+
+const rateCardSchema = z.object({
+  projectId: z.string().min(1),
+  userId: z.string().min(1).nullable(),
+  jobRole: z.string().max(100).nullable(),
+  rate: z.number().min(0, 'Rate must be non-negative'),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd')
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Rate cards of one project (?projectId=), newest first
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const projectId = new URL(request.url).searchParams.get('projectId')
+    if (!projectId) {
+      return NextResponse.json({ error: 'Project ID required' }, { status: 400 })
+    }
+
+    return NextResponse.json(await RateCardManager.listForProject(projectId))
+  } catch (error) {
+    console.error('Failed to fetch rate cards:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Add a project rate for a user or a job role and recalculate the project's spend
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = rateCardSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const created = await RateCardManager.create({
+      ...result.data,
+      effectiveDate: new Date(`${result.data.effectiveDate}T00:00:00`)
+    }, { id: session.user.id, email: session.user.email })
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(created.rateCard.projectId)
+
+    return NextResponse.json(created.rateCard, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create rate card:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
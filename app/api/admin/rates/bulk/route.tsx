@@ -0,0 +1,82 @@
+// app/api/admin/rates/bulk/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { BulkRateManager } from '@/lib/bulk-rates'
+import { z } from 'zod'
+
+const adjustmentSchema = z.object({
+  step: z.enum(['preview', 'commit']),
+  role: z.enum(['ADMIN', 'EMPLOYEE']).nullable().default(null),
+  jobRole: z.string().trim().max(100).nullable().default(null),
+  includeInactive: z.boolean().default(false),
+  kind: z.enum(['PERCENT', 'FIXED']),
+  amount: z.number().refine(amount => amount !== 0, 'Enter an amount other than zero'),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd')
+}).refine(data => data.kind !== 'PERCENT' || data.amount > -100, {
+  message: 'Rates cannot be cut by 100% or more',
+  path: ['amount']
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+/**
+ * POST - Raise or lower the rates of all users matching a role and job role filter by a
+ * percentage or a fixed amount. `step` is `preview` (affected users and spend, nothing saved)
+ * or `commit` (every change in one transaction).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = adjustmentSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { step, effectiveDate, ...filters } = result.data
+    const adjustment = { ...filters, effectiveDate: new Date(`${effectiveDate}T00:00:00`) }
+    const preview = await BulkRateManager.previewAdjustment(adjustment)
+
+    if (step === 'preview') {
+      return NextResponse.json(preview)
+    }
+
+    console.log(`Admin ${session.user.email} adjusting ${preview.rows.length} rates by ${filters.kind === 'PERCENT' ? `${filters.amount}%` : `$${filters.amount}`} from ${effectiveDate}`)
+
+    const committed = await BulkRateManager.commit(
+      preview,
+      { id: session.user.id, email: session.user.email },
+      { kind: 'ADJUSTMENT', adjustment }
+    )
+
+    if (!committed.success) {
+      return NextResponse.json({ error: committed.error, preview: committed.preview }, { status: committed.status })
+    }
+
+    return NextResponse.json(committed)
+  } catch (error) {
+    console.error('Failed to adjust rates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,107 @@
+// app/api/admin/rates/import/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { BulkRateManager } from '@/lib/bulk-rates'
+import { EntryImporter } from '@/lib/entry-import'
+import { z } from 'zod'
+
+const MAX_FILE_SIZE = 1024 * 1024
+
+const importRequestSchema = z.object({
+  step: z.enum(['preview', 'commit']),
+  // Used for rows without an effective date
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd').nullable()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+/**
+ * POST - Import user rates from a CSV file of email, rate and effective date, sent as multipart
+ * form data. `step` is `preview` (a dry run with row-level errors and the spend impact) or
+ * `commit` (all rows or none). The file is sent with every step.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const result = importRequestSchema.safeParse({
+      step: formData.get('step'),
+      effectiveDate: formData.get('effectiveDate') || null
+    })
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Choose a CSV file to import' }, { status: 400 })
+    }
+
+    if (!/\.csv$/i.test(file.name)) {
+      return NextResponse.json({ error: 'Only .csv files can be imported' }, { status: 400 })
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'The file is larger than 1 MB' }, { status: 400 })
+    }
+
+    const read = EntryImporter.readSheet(Buffer.from(await file.arrayBuffer()), file.name)
+    if (!read.success) {
+      return NextResponse.json({ error: read.error }, { status: read.status })
+    }
+
+    const found = BulkRateManager.findColumns(read.sheet.headers)
+    if (!found.success) {
+      return NextResponse.json({ error: found.error }, { status: found.status })
+    }
+
+    const { step, effectiveDate } = result.data
+    const preview = await BulkRateManager.previewImport(
+      read.sheet,
+      found.columns,
+      effectiveDate ? new Date(`${effectiveDate}T00:00:00`) : null
+    )
+
+    if (step === 'preview') {
+      return NextResponse.json(preview)
+    }
+
+    console.log(`Admin ${session.user.email} importing ${preview.rows.length} rates from ${file.name}`)
+
+    const committed = await BulkRateManager.commit(
+      preview,
+      { id: session.user.id, email: session.user.email },
+      { kind: 'IMPORT', fileName: file.name }
+    )
+
+    if (!committed.success) {
+      return NextResponse.json({ error: committed.error, preview: committed.preview }, { status: committed.status })
+    }
+
+    return NextResponse.json(committed, { status: 201 })
+  } catch (error) {
+    console.error('Failed to import rates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
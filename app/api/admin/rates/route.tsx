@@ -5,12 +5,15 @@ import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
 import { z } from 'zod'
+import { AuditLogger } from '@/lib/audit-log'
 
 const updateRateSchema = z.object({
   userId: z.string(),
   rate: z.number().min(0, "Rate must be non-negative"),
   effectiveDate: z.string().transform(str => new Date(str)),
-  reason: z.string().optional()
+  reason: z.string().optional(),
+  // Preview what the change would do to project spend without saving it
+  dryRun: z.boolean().optional()
 })
 
 // Helper function to check admin authorization
@@ -43,6 +46,7 @@ export async function GET(request: NextRequest) {
         email: true,
         role: true,
         employeeRate: true,
+        jobRole: true,
         createdAt: true,
         rateHistory: {
           orderBy: {
@@ -63,13 +67,16 @@ export async function GET(request: NextRequest) {
       email: user.email,
       role: user.role,
       employeeRate: Number(user.employeeRate),
+      jobRole: user.jobRole,
       createdAt: user.createdAt,
       rateHistory: user.rateHistory.map(rh => ({
         id: rh.id,
         rate: Number(rh.rate),
         effectiveDate: rh.effectiveDate.toISOString(),
         createdAt: rh.createdAt.toISOString(),
-        createdBy: rh.createdBy
+        createdBy: rh.createdBy,
+        impact: rh.impact,
+        batchId: rh.batchId
       }))
     }))
 
@@ -83,7 +90,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PUT - Update user rate using the enhanced calculator
+// PUT - Update user rate using the enhanced calculator, or with dryRun preview its impact on project spend
 export async function PUT(request: NextRequest) {
   try {
     const authCheck = await checkAdminAuth()
@@ -100,9 +107,9 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 })
     }
 
-    const { userId, rate, effectiveDate, reason } = result.data
+    const { userId, rate, effectiveDate, reason, dryRun } = result.data
 
-    console.log(`Admin ${session.user.email} updating rate for user ${userId} to ${rate} effective ${effectiveDate.toISOString()}`)
+    console.log(`Admin ${session.user.email} ${dryRun ? 'previewing' : 'updating'} rate for user ${userId} to ${rate} effective ${effectiveDate.toISOString()}`)
 
     // Verify user exists
     const user = await prisma.user.findUnique({
@@ -128,16 +135,49 @@ export async function PUT(request: NextRequest) {
       }, { status: 409 })
     }
 
+    // Old vs new spend per project, quarter and month; kept with the rate change once saved
+    const impact = await EnhancedSpendingCalculator.previewRateChanges([{ userId, rate, effectiveDate }])
+
+    if (dryRun) {
+      return NextResponse.json({
+        dryRun: true,
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email
+        },
+        rateChange: { rate, effectiveDate },
+        impact
+      })
+    }
+
     // Use the enhanced calculator to update the rate (handles rate history and recalculation)
     await EnhancedSpendingCalculator.updateUserRate(
       userId,
       rate,
       effectiveDate,
-      session.user.id
+      session.user.id,
+      impact
     )
 
     console.log(`Successfully updated rate for user ${user.email} to ${rate} effective ${effectiveDate.toISOString()}`)
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'RATE',
+      entityId: userId,
+      before: { employeeRate: user.employeeRate },
+      after: { rate, effectiveDate },
+      metadata: {
+        userEmail: user.email,
+        reason: reason || null,
+        projectsAffected: impact.projects.length,
+        spendChange: impact.change,
+        thresholdsCrossed: impact.thresholdsCrossed
+      }
+    })
+
     // Get updated rate history to return
     const updatedHistory = await prisma.rateHistory.findMany({
       where: { userId },
@@ -161,6 +201,7 @@ export async function PUT(request: NextRequest) {
         affectsSpendingFrom: effectiveDate,
         recalculationStatus: 'completed'
       },
+      impact,
       recentHistory: updatedHistory.map(rh => ({
         id: rh.id,
         rate: Number(rh.rate),
@@ -243,6 +284,20 @@ export async function DELETE(request: NextRequest) {
 
     console.log(`Admin ${session.user.email} deleted future rate change for user ${rateHistoryEntry.user.email}`)
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'DELETE',
+      entityType: 'RATE',
+      entityId: userId,
+      before: {
+        rateHistoryId: rateHistoryEntry.id,
+        rate: rateHistoryEntry.rate,
+        effectiveDate: rateHistoryEntry.effectiveDate,
+        createdBy: rateHistoryEntry.createdBy
+      },
+      metadata: { userEmail: rateHistoryEntry.user.email }
+    })
+
     return NextResponse.json({
       success: true,
       message: 'Future rate change deleted successfully. Project spending has been recalculated.'
@@ -0,0 +1,27 @@
+// app/api/admin/reminder-logs/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { ReminderManager } from '@/lib/reminders'
+
+// GET - Reminders that were sent, newest first, optionally for one user
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId') || undefined
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200)
+
+    const logs = await ReminderManager.getLogs({ userId, limit })
+
+    return NextResponse.json({ logs })
+  } catch (error) {
+    console.error('Failed to get reminder logs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
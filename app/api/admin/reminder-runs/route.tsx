@@ -0,0 +1,59 @@
+// app/api/admin/reminder-runs/route.ts
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { ReminderScheduler } from '@/lib/reminder-scheduler'
+import { ReminderManager } from '@/lib/reminders'
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Recent scheduled and manual reminder runs
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const settings = await ReminderManager.getSettings()
+    const runs = await ReminderScheduler.getRecentRuns(20)
+
+    return NextResponse.json({
+      runs,
+      schedule: settings.reminderScheduleEnabled ? ReminderScheduler.describeSchedule(settings) : null,
+      cronConfigured: !!process.env.CRON_SECRET
+    })
+  } catch (error) {
+    console.error('Failed to get reminder runs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Check all users and send reminders now, ignoring the schedule
+export async function POST() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    console.log(`Admin ${session.user.email} started a reminder run`)
+
+    const run = await ReminderScheduler.runNow(session.user.id)
+
+    return NextResponse.json({ success: true, run })
+  } catch (error) {
+    console.error('Failed to run reminders:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
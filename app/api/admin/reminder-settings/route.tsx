@@ -0,0 +1,115 @@
+// app/api/admin/reminder-settings/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { ReminderManager, MISSING_DAYS_LOOKBACK } from '@/lib/reminders'
+import { Mailer } from '@/lib/mailer'
+import { AuditLogger } from '@/lib/audit-log'
+import { z } from 'zod'
+
+const updateReminderSettingsSchema = z.object({
+  reminderCooldownHours: z
+    .number()
+    .int('Cooldown must be whole hours')
+    .min(0, 'Cooldown cannot be negative')
+    .max(720, 'Cooldown cannot exceed 720 hours (30 days)'),
+  reminderScheduleEnabled: z.boolean(),
+  reminderScheduleFrequency: z.enum(['DAILY', 'WEEKLY']),
+  reminderScheduleWeekday: z.number().int().min(0).max(6),
+  reminderScheduleHour: z.number().int().min(0, 'Hour must be between 0 and 23').max(23, 'Hour must be between 0 and 23'),
+  reminderMissingDaysThreshold: z
+    .number()
+    .int()
+    .min(0, 'Missing days threshold cannot be negative')
+    .max(MISSING_DAYS_LOOKBACK, `Missing days threshold cannot exceed ${MISSING_DAYS_LOOKBACK}`),
+  reminderExpectedWeeklyHours: z
+    .number()
+    .int()
+    .min(0, 'Expected weekly hours cannot be negative')
+    .max(168, 'Expected weekly hours cannot exceed 168'),
+  reminderExemptUserIds: z.array(z.string())
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Reminder settings, the active mail transport and the users that can be exempted
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const settings = await ReminderManager.getSettings()
+    const users = await prisma.user.findMany({
+      where: { active: true },
+      select: { id: true, name: true, email: true },
+      orderBy: { email: 'asc' }
+    })
+
+    let mailTransport: string
+    try {
+      mailTransport = Mailer.getTransport().name
+    } catch (error) {
+      mailTransport = `misconfigured: ${error instanceof Error ? error.message : 'unknown error'}`
+    }
+
+    return NextResponse.json({ settings, mailTransport, users })
+  } catch (error) {
+    console.error('Failed to get reminder settings:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Update the cooldown, the reminder schedule, its thresholds and exempt users
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = updateReminderSettingsSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    console.log(`Admin ${session.user.email} updating reminder settings`, result.data)
+
+    const previousSettings = await ReminderManager.getSettings()
+    const settings = await ReminderManager.updateSettings(result.data, session.user.id)
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: 'reminders',
+      before: previousSettings,
+      after: settings
+    })
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    console.error('Failed to update reminder settings:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
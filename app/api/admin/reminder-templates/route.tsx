@@ -0,0 +1,126 @@
+// app/api/admin/reminder-templates/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { ReminderManager, REMINDER_PLACEHOLDERS, REMINDER_TEMPLATE_KEYS, isReminderTemplateKey } from '@/lib/reminders'
+import { AuditLogger } from '@/lib/audit-log'
+import { z } from 'zod'
+
+const updateReminderTemplateSchema = z.object({
+  key: z.enum(REMINDER_TEMPLATE_KEYS),
+  subject: z.string().trim().min(1, 'Subject is required').max(200, 'Subject cannot exceed 200 characters'),
+  body: z.string().trim().min(1, 'Body is required').max(5000, 'Body cannot exceed 5000 characters')
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Reminder templates and the placeholders they can use
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const templates = await ReminderManager.getTemplates()
+
+    return NextResponse.json({ templates, placeholders: REMINDER_PLACEHOLDERS })
+  } catch (error) {
+    console.error('Failed to get reminder templates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Save the subject and body of a template
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = updateReminderTemplateSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { key, subject, body: templateBody } = result.data
+    const previous = await ReminderManager.getTemplate(key)
+
+    let template
+    try {
+      template = await ReminderManager.updateTemplate(key, { subject, body: templateBody }, session.user.id)
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Unknown placeholder')) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: `reminder-template:${key}`,
+      before: { subject: previous.subject, body: previous.body },
+      after: { subject: template.subject, body: template.body }
+    })
+
+    return NextResponse.json({ success: true, template })
+  } catch (error) {
+    console.error('Failed to update reminder template:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// DELETE - Restore a template to its built-in text
+export async function DELETE(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const key = new URL(request.url).searchParams.get('key')
+    if (!key || !isReminderTemplateKey(key)) {
+      return NextResponse.json({ error: 'A valid template key is required' }, { status: 400 })
+    }
+
+    const previous = await ReminderManager.getTemplate(key)
+    const template = await ReminderManager.resetTemplate(key)
+
+    if (previous.customized) {
+      await AuditLogger.record({
+        actor: { id: session.user.id, email: session.user.email },
+        action: 'UPDATE',
+        entityType: 'SETTINGS',
+        entityId: `reminder-template:${key}`,
+        before: { subject: previous.subject, body: previous.body },
+        after: { subject: template.subject, body: template.body },
+        metadata: { reset: true }
+      })
+    }
+
+    return NextResponse.json({ success: true, template })
+  } catch (error) {
+    console.error('Failed to reset reminder template:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,54 +1,68 @@
+// app/api/admin/send-reminder/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
-import {NEXT_AUTH_CONFIG } from '@/lib/auth'
-import { prisma } from '@/lib/prisma'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { ReminderManager, REMINDER_TEMPLATE_KEYS, templateKeyForIssue } from '@/lib/reminders'
+import { z } from 'zod'
+
+const sendReminderSchema = z.object({
+  userId: z.string().min(1, 'User is required'),
+  issue: z.string().max(200).nullable().optional(),
+  templateKey: z.enum(REMINDER_TEMPLATE_KEYS).optional()
+})
 
 export async function POST(request: NextRequest) {
   const session = await getServerSession(NEXT_AUTH_CONFIG)
-  
+
   if (!session || session.user.role !== 'ADMIN') {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
   try {
-    const { userId, issue } = await request.json()
+    const body = await request.json()
+    const validationResult = sendReminderSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validationResult.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { userId, issue } = validationResult.data
+    const templateKey = validationResult.data.templateKey ?? templateKeyForIssue(issue)
 
-    // Get user details
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { name: true, email: true }
+    const result = await ReminderManager.sendReminder({
+      userId,
+      templateKey,
+      issue,
+      sentById: session.user.id,
+      source: 'MANUAL'
     })
 
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 })
-    }
+    if (!result.success) {
+      const headers: Record<string, string> = {}
+      if (result.retryAfter) {
+        headers['Retry-After'] = String(Math.max(1, Math.ceil((result.retryAfter.getTime() - Date.now()) / 1000)))
+      }
 
-    // Log the reminder (in a real app, you'd send an actual email)
-    console.log(`📧 Reminder sent to ${user.email} (${user.name}): ${issue}`)
-    
-    // You could integrate with email services like:
-    // - SendGrid
-    // - AWS SES
-    // - Resend
-    // - Nodemailer
-    
-    // For now, we'll just simulate the email
-    const emailContent = {
-      to: user.email,
-      subject: 'Time Tracking Reminder',
-      body: `Hi ${user.name || 'there'},\n\nThis is a friendly reminder regarding your time tracking:\n\nIssue: ${issue}\n\nPlease make sure to log your time entries regularly.\n\nBest regards,\nTime Tracker Admin`
+      return NextResponse.json({
+        error: result.error,
+        retryAfter: result.retryAfter?.toISOString()
+      }, { status: result.status, headers })
     }
 
-    // TODO: Replace with actual email sending service
-    console.log('Email would be sent:', emailContent)
+    console.log(`📧 Reminder "${templateKey}" sent to ${result.sentTo} by ${session.user.email}`)
 
-    return NextResponse.json({ 
+    return NextResponse.json({
       message: 'Reminder sent successfully',
-      sentTo: user.email,
-      issue 
+      sentTo: result.sentTo,
+      issue,
+      templateKey,
+      logId: result.log.id
     })
   } catch (error) {
     console.error('Error sending reminder:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
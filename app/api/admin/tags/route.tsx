@@ -0,0 +1,70 @@
+// app/api/admin/tags/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryFieldManager } from '@/lib/entry-fields'
+import { z } from 'zod'
+
+const createTagSchema = z.object({
+  name: z.string().trim().min(1, 'Tag name is required').max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Use a hex color such as #3b82f6').optional(),
+  active: z.boolean().optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - List all tags with how many entries carry them
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    return NextResponse.json(await EntryFieldManager.listTags())
+  } catch (error) {
+    console.error('Failed to fetch tags:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Create a tag
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = createTagSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const created = await EntryFieldManager.createTag(result.data, { id: session.user.id, email: session.user.email })
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    return NextResponse.json(created.tag, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create tag:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
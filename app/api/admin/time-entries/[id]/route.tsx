@@ -5,15 +5,25 @@ import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { SpendingCalculator } from '@/lib/spending-calculator'
 import { z } from 'zod'
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods'
+import { AuditLogger, timeEntrySnapshot } from '@/lib/audit-log'
+import { ProjectArchiveManager } from '@/lib/project-archive'
+import { TaskManager } from '@/lib/tasks'
+import { EntryFieldManager, entryFieldsInclude } from '@/lib/entry-fields'
+import { EntryValidationResult, EntryValidator } from '@/lib/entry-validation'
 
 const updateAdminTimeEntrySchema = z.object({
   userId: z.string().min(1, "User ID is required"),
   projectId: z.string().nullable(),
+  taskId: z.string().min(1).nullable().optional(),
   description: z.string().optional(),
   startTime: z.string().optional(),
   endTime: z.string().nullable(),
   duration: z.number().min(0).optional(),
-  date: z.string().optional() // Add date field
+  date: z.string().optional(), // Add date field
+  tagIds: z.array(z.string().min(1)).optional(),
+  customFields: z.record(z.string(), z.union([z.string(), z.number(), z.null()])).optional(),
+  overrideReason: z.string().max(500).optional() // Recorded in the audit log when saving despite validation warnings
 })
 
 const deleteAdminTimeEntrySchema = z.object({
@@ -66,7 +76,17 @@ export async function PUT(
       select: {
         id: true,
         userId: true,
-        projectId: true
+        projectId: true,
+        taskId: true,
+        description: true,
+        startTime: true,
+        endTime: true,
+        duration: true,
+        hours: true,
+        date: true,
+        status: true,
+        invoiceId: true,
+        ...entryFieldsInclude
       }
     })
 
@@ -74,7 +94,12 @@ export async function PUT(
       return NextResponse.json({ error: 'Time entry not found' }, { status: 404 })
     }
 
-    const { userId, projectId, description, startTime, endTime, duration, date } = result.data
+    // Invoiced entries have been billed to a client and must stay as they were
+    if (existingEntry.invoiceId) {
+      return NextResponse.json({ error: 'This entry has been invoiced and can no longer be changed' }, { status: 409 })
+    }
+
+    const { userId, projectId, taskId, description, startTime, endTime, duration, date, tagIds, customFields, overrideReason } = result.data
 
     // Verify the target user exists and matches
     const targetUser = await prisma.user.findUnique({
@@ -103,6 +128,27 @@ export async function PUT(
       if (!project) {
         return NextResponse.json({ error: 'Project not found' }, { status: 404 })
       }
+
+      if (projectId !== existingEntry.projectId) {
+        const projectWritable = await ProjectArchiveManager.checkWritable(projectId)
+        if (!projectWritable.success) {
+          return NextResponse.json({ error: projectWritable.error }, { status: projectWritable.status })
+        }
+      }
+    }
+
+    // Admins may write to locked periods, but closed periods must be reopened first
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess(
+      [
+        existingEntry.date,
+        date !== undefined ? new Date(date + 'T00:00:00') : null,
+        date === undefined && startTime !== undefined ? new Date(startTime) : null
+      ],
+      session.user.role
+    )
+
+    if (!periodAccess.allowed) {
+      return NextResponse.json({ error: periodAccess.error, period: periodAccess.period }, { status: 403 })
     }
 
     console.log(`Admin ${session.user.email} updating time entry ${entryId} for user ${targetUser.email}`)
@@ -111,6 +157,29 @@ export async function PUT(
     const updateData: any = {}
     
     if (projectId !== undefined) updateData.projectId = projectId
+
+    // An entry keeps its current task even after the task is deactivated
+    if (taskId && (taskId !== existingEntry.taskId || (projectId && projectId !== existingEntry.projectId))) {
+      const taskCheck = await TaskManager.checkSelectable(projectId ?? existingEntry.projectId, taskId, userId, session.user.role)
+      if (!taskCheck.success) {
+        return NextResponse.json({ error: taskCheck.error }, { status: taskCheck.status })
+      }
+      updateData.taskId = taskId
+    } else if (taskId === null || (projectId && projectId !== existingEntry.projectId)) {
+      // A task belongs to one project, so moving the entry drops it
+      updateData.taskId = null
+    }
+
+    const entryFields = await EntryFieldManager.resolve(
+      projectId || existingEntry.projectId,
+      { tagIds, customFields },
+      EntryFieldManager.existingFrom(existingEntry)
+    )
+    if (!entryFields.success) {
+      return NextResponse.json({ error: entryFields.error, details: entryFields.details }, { status: entryFields.status })
+    }
+    Object.assign(updateData, EntryFieldManager.updateData(entryId, entryFields.changes))
+
     if (description !== undefined) updateData.description = description || null
     
     // Handle date and startTime properly
@@ -149,6 +218,33 @@ export async function PUT(
       }
     }
     
+    // Validate the resulting times whenever they change
+    let validation: EntryValidationResult | null = null
+    if (updateData.startTime !== undefined || updateData.endTime !== undefined) {
+      const newStartTime: Date = updateData.startTime ?? existingEntry.startTime
+      const newEndTime: Date | null = updateData.endTime !== undefined ? updateData.endTime : existingEntry.endTime
+
+      validation = await EntryValidator.validate(
+        { userId, startTime: newStartTime, endTime: newEndTime, excludeEntryId: entryId },
+        { role: session.user.role, reason: overrideReason }
+      )
+      if (!validation.success) {
+        return NextResponse.json({
+          error: validation.error,
+          details: validation.details,
+          issues: validation.issues,
+          overridable: validation.overridable
+        }, { status: validation.status })
+      }
+
+      // Keep the stored duration in line with the new times unless one was sent explicitly
+      if (duration === undefined && newEndTime) {
+        const minutes = Math.round((newEndTime.getTime() - newStartTime.getTime()) / 60000)
+        updateData.duration = minutes
+        updateData.hours = minutes / 60
+      }
+    }
+
     if (duration !== undefined) {
       updateData.duration = duration
       updateData.hours = duration / 60 // Convert minutes to hours
@@ -172,10 +268,21 @@ export async function PUT(
             email: true,
             name: true
           }
-        }
+        },
+        ...entryFieldsInclude
       }
     })
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'TIME_ENTRY',
+      entityId: entryId,
+      before: timeEntrySnapshot(existingEntry),
+      after: timeEntrySnapshot(updatedEntry),
+      metadata: { targetUserEmail: targetUser.email, source: 'admin', ...(validation ? EntryValidator.overrideMetadata(validation) : {}) }
+    })
+
     // Update spending for affected projects
     const projectsToUpdate = new Set<string>()
     if (existingEntry.projectId) projectsToUpdate.add(existingEntry.projectId)
@@ -239,7 +346,16 @@ export async function DELETE(
       select: {
         id: true,
         userId: true,
-        projectId: true
+        projectId: true,
+        description: true,
+        startTime: true,
+        endTime: true,
+        duration: true,
+        hours: true,
+        date: true,
+        status: true,
+        invoiceId: true,
+        ...entryFieldsInclude
       }
     })
 
@@ -247,6 +363,11 @@ export async function DELETE(
       return NextResponse.json({ error: 'Time entry not found' }, { status: 404 })
     }
 
+    // Invoiced entries have been billed to a client and must stay as they were
+    if (existingEntry.invoiceId) {
+      return NextResponse.json({ error: 'This entry has been invoiced and can no longer be changed' }, { status: 409 })
+    }
+
     // Verify this entry belongs to the specified user
     if (existingEntry.userId !== userId) {
       return NextResponse.json({ 
@@ -264,6 +385,12 @@ export async function DELETE(
       return NextResponse.json({ error: 'Target user not found' }, { status: 404 })
     }
 
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess([existingEntry.date], session.user.role)
+
+    if (!periodAccess.allowed) {
+      return NextResponse.json({ error: periodAccess.error, period: periodAccess.period }, { status: 403 })
+    }
+
     console.log(`Admin ${session.user.email} deleting time entry ${entryId} for user ${targetUser.email}`)
 
     // Delete the time entry
@@ -271,6 +398,15 @@ export async function DELETE(
       where: { id: entryId }
     })
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'DELETE',
+      entityType: 'TIME_ENTRY',
+      entityId: entryId,
+      before: timeEntrySnapshot(existingEntry),
+      metadata: { targetUserEmail: targetUser.email, source: 'admin' }
+    })
+
     // Update project spending if there was a project
     if (existingEntry.projectId) {
       try {
@@ -0,0 +1,157 @@
+// app/api/admin/time-entries/import/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryImporter, ImportRecord } from '@/lib/entry-import'
+import { ImportAdapters } from '@/lib/entry-import-adapters'
+import { z } from 'zod'
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+const importRequestSchema = z.object({
+  step: z.enum(['analyze', 'preview', 'commit']),
+  // native files use the column mapping; tracker exports have fixed columns
+  source: z.enum(['native', 'toggl', 'harvest', 'clockify']).default('native'),
+  createMissingProjects: z.enum(['true', 'false']).default('false')
+})
+
+const mappingSchema = z.object({
+  email: z.string().min(1, 'Map the user email column'),
+  project: z.string().min(1, 'Map the project column'),
+  date: z.string().min(1, 'Map the date column'),
+  startTime: z.string().nullable().optional(),
+  endTime: z.string().nullable().optional(),
+  hours: z.string().nullable().optional(),
+  description: z.string().nullable().optional()
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+/**
+ * POST - Import time entries from a CSV or XLSX file, sent as multipart form data.
+ * `step` is `analyze` (headers, the detected tracker and a suggested mapping), `preview`
+ * (a dry run with row-level errors) or `commit` (all rows or none). The file is sent with every step.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const result = importRequestSchema.safeParse({
+      step: formData.get('step'),
+      source: formData.get('source') ?? undefined,
+      createMissingProjects: formData.get('createMissingProjects') ?? undefined
+    })
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Choose a CSV or XLSX file to import' }, { status: 400 })
+    }
+
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      return NextResponse.json({ error: 'Only .csv and .xlsx files can be imported' }, { status: 400 })
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'The file is larger than 5 MB' }, { status: 400 })
+    }
+
+    const read = EntryImporter.readSheet(Buffer.from(await file.arrayBuffer()), file.name)
+    if (!read.success) {
+      return NextResponse.json({ error: read.error }, { status: read.status })
+    }
+
+    const { step, source } = result.data
+    const options = { createMissingProjects: result.data.createMissingProjects === 'true' }
+    const { sheet } = read
+
+    if (step === 'analyze') {
+      return NextResponse.json({
+        fileName: file.name,
+        headers: sheet.headers,
+        rowCount: sheet.rows.length,
+        sampleRows: sheet.rows.slice(0, 5),
+        detectedSource: ImportAdapters.detect(sheet.headers),
+        suggestedMapping: EntryImporter.suggestMapping(sheet.headers)
+      })
+    }
+
+    let records: ImportRecord[]
+    if (source === 'native') {
+      let rawMapping: unknown
+      try {
+        rawMapping = JSON.parse(String(formData.get('mapping') ?? ''))
+      } catch {
+        return NextResponse.json({ error: 'Column mapping is missing' }, { status: 400 })
+      }
+
+      const mappingResult = mappingSchema.safeParse(rawMapping)
+      if (!mappingResult.success) {
+        return NextResponse.json({
+          error: 'Validation failed',
+          details: mappingResult.error.flatten().fieldErrors
+        }, { status: 400 })
+      }
+
+      const mapping = mappingResult.data
+      const mappingError = EntryImporter.checkMapping(sheet.headers, mapping)
+      if (mappingError) {
+        return NextResponse.json({ error: mappingError }, { status: 400 })
+      }
+
+      records = EntryImporter.mapRows(sheet, mapping)
+    } else {
+      const headerError = ImportAdapters.checkHeaders(source, sheet.headers)
+      if (headerError) {
+        return NextResponse.json({ error: headerError }, { status: 400 })
+      }
+
+      records = ImportAdapters.toRecords(source, sheet)
+    }
+
+    const actor = { id: session.user.id, email: session.user.email, role: session.user.role }
+
+    if (step === 'preview') {
+      return NextResponse.json(await EntryImporter.preview(records, actor, options))
+    }
+
+    console.log(`Admin ${session.user.email} importing ${records.length} time entries from ${file.name} (${source})`)
+
+    const committed = await EntryImporter.commit(records, actor, {
+      fileName: file.name,
+      format: file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'xlsx',
+      source
+    }, options)
+
+    if (!committed.success) {
+      return NextResponse.json({ error: committed.error, preview: committed.preview }, { status: committed.status })
+    }
+
+    return NextResponse.json(committed, { status: 201 })
+  } catch (error) {
+    console.error('Failed to import time entries:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
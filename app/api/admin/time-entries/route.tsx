@@ -4,14 +4,24 @@ import { NEXT_AUTH_CONFIG } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced';
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods';
+import { AuditLogger, timeEntrySnapshot } from '@/lib/audit-log';
+import { ProjectArchiveManager } from '@/lib/project-archive';
+import { TaskManager } from '@/lib/tasks';
+import { EntryFieldManager, entryFieldsInclude } from '@/lib/entry-fields';
+import { EntryValidator } from '@/lib/entry-validation';
 
 const createTimeEntrySchema = z.object({
   userId: z.string().min(1, "User ID is required"),
   projectId: z.string().min(1, "Project ID is required"),
+  taskId: z.string().min(1).nullable().optional(),
   description: z.string().optional(),
   startTime: z.string(), // Just the time (HH:MM)
   endTime: z.string().nullable(), // Just the time (HH:MM)
-  date: z.string() // The date (YYYY-MM-DD)
+  date: z.string(), // The date (YYYY-MM-DD)
+  tagIds: z.array(z.string().min(1)).optional(),
+  customFields: z.record(z.string(), z.union([z.string(), z.number(), z.null()])).optional(),
+  overrideReason: z.string().max(500).optional() // Recorded in the audit log when saving despite validation warnings
 });
 
 // Helper function to check admin authorization
@@ -45,7 +55,7 @@ export async function POST(request: NextRequest) {
       }), { status: 400 });
     }
 
-    const { userId, projectId, description, startTime, endTime, date } = result.data;
+    const { userId, projectId, taskId, description, startTime, endTime, date, tagIds, customFields, overrideReason } = result.data;
 
     // Verify the target user exists
     const targetUser = await prisma.user.findUnique({
@@ -67,11 +77,35 @@ export async function POST(request: NextRequest) {
       return new NextResponse(JSON.stringify({ error: 'Project not found' }), { status: 404 });
     }
 
+    const projectWritable = await ProjectArchiveManager.checkWritable(projectId);
+    if (!projectWritable.success) {
+      return new NextResponse(JSON.stringify({ error: projectWritable.error }), { status: projectWritable.status });
+    }
+
+    if (taskId) {
+      const taskCheck = await TaskManager.checkSelectable(projectId, taskId, userId, session.user.role);
+      if (!taskCheck.success) {
+        return new NextResponse(JSON.stringify({ error: taskCheck.error }), { status: taskCheck.status });
+      }
+    }
+
+    const entryFields = await EntryFieldManager.resolve(projectId, { tagIds, customFields });
+    if (!entryFields.success) {
+      return new NextResponse(JSON.stringify({ error: entryFields.error, details: entryFields.details }), { status: entryFields.status });
+    }
+
     console.log(`Admin ${session.user.email} creating time entry for user ${targetUser.email}`);
 
     // Parse the date and times
     const entryDate = new Date(date + 'T00:00:00'); // Force local timezone
     
+    // Admins may write to locked periods, but closed periods must be reopened first
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess([entryDate], session.user.role);
+
+    if (!periodAccess.allowed) {
+      return new NextResponse(JSON.stringify({ error: periodAccess.error, period: periodAccess.period }), { status: 403 });
+    }
+
     // Create start datetime by combining date + startTime
     const [startHours, startMinutes] = startTime.split(':').map(Number);
     const startDateTime = new Date(entryDate);
@@ -85,6 +119,19 @@ export async function POST(request: NextRequest) {
       endDateTime.setHours(endHours, endMinutes, 0, 0);
     }
 
+    const validation = await EntryValidator.validate(
+      { userId, startTime: startDateTime, endTime: endDateTime },
+      { role: session.user.role, reason: overrideReason }
+    );
+    if (!validation.success) {
+      return new NextResponse(JSON.stringify({
+        error: validation.error,
+        details: validation.details,
+        issues: validation.issues,
+        overridable: validation.overridable
+      }), { status: validation.status });
+    }
+
     // Calculate duration
     let duration = 0;
     if (endDateTime) {
@@ -96,12 +143,15 @@ export async function POST(request: NextRequest) {
       data: {
         userId: userId,
         projectId: projectId, // No longer nullable, always a string
+        taskId: taskId ?? null,
         description: description || null,
         startTime: startDateTime,
         endTime: endDateTime,
         duration: duration,
         hours: duration / 60, // Convert minutes to hours
-        date: entryDate
+        date: entryDate,
+        status: 'APPROVED', // Entries added by an admin do not need a separate review
+        ...EntryFieldManager.createData(entryFields.changes)
       },
       include: {
         project: {
@@ -111,16 +161,32 @@ export async function POST(request: NextRequest) {
             color: true
           }
         },
+        task: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
         user: {
           select: {
             id: true,
             email: true,
             name: true
           }
-        }
+        },
+        ...entryFieldsInclude
       }
     });
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'CREATE',
+      entityType: 'TIME_ENTRY',
+      entityId: timeEntry.id,
+      after: timeEntrySnapshot(timeEntry),
+      metadata: { targetUserEmail: targetUser.email, source: 'admin', ...EntryValidator.overrideMetadata(validation) }
+    });
+
     // Update project spending (projectId is guaranteed to exist)
     try {
       await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(projectId);
@@ -0,0 +1,83 @@
+// app/api/admin/timer-settings/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimerManager } from '@/lib/timer'
+import { AuditLogger } from '@/lib/audit-log'
+import { MAX_ENTRY_HOURS } from '@/lib/entry-validation'
+import { z } from 'zod'
+
+const updateTimerSettingsSchema = z.object({
+  timerAutoStopHours: z.number().int().min(1, 'Limit must be at least 1 hour').max(MAX_ENTRY_HOURS, `Limit must be ${MAX_ENTRY_HOURS} hours or less`)
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Get the timer auto-stop limit
+export async function GET() {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const settings = await TimerManager.getSettings()
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Failed to get timer settings:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Update the timer auto-stop limit
+export async function PUT(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = updateTimerSettingsSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    console.log(`Admin ${session.user.email} updating timer settings`, result.data)
+
+    const previousSettings = await TimerManager.getSettings()
+    const settings = await TimerManager.updateSettings(result.data, session.user.id)
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'SETTINGS',
+      entityId: 'timer',
+      before: previousSettings,
+      after: settings
+    })
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    console.error('Failed to update timer settings:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
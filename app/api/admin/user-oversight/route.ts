@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { startOfDay, startOfWeek, subDays } from 'date-fns'
+import { ReminderManager } from '@/lib/reminders'
+import { WorkScheduleManager, clockMinutes } from '@/lib/work-schedules'
+import { endOfWeek, startOfDay, startOfWeek, subDays } from 'date-fns'
 
 export async function GET(request: NextRequest) {
   const session = await getServerSession(NEXT_AUTH_CONFIG)
@@ -22,9 +24,12 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    const today = startOfDay(new Date())
-    const weekStart = startOfWeek(new Date())
-    const yesterday = subDays(new Date(), 1)
+    const lastReminders = await ReminderManager.getLastSent(users.map(user => user.id))
+
+    const now = new Date()
+    const today = startOfDay(now)
+    const weekStart = startOfWeek(now)
+    const schedules = await WorkScheduleManager.loadTimeline(users.map(user => user.id), subDays(today, 7), endOfWeek(now))
 
     const userDataPromises = users.map(async (user) => {
       // Get today's time
@@ -59,11 +64,32 @@ export async function GET(request: NextRequest) {
       const todayMinutes = todayEntries.reduce((sum, entry) => sum + (entry.duration || 0), 0)
       const weekMinutes = weekEntries.reduce((sum, entry) => sum + (entry.duration || 0), 0)
 
-      // Determine if user has issues
-      const hasNoRecentEntries = !lastEntry || lastEntry.startTime < yesterday
-      const hasLowWeeklyHours = weekMinutes < (40 * 60) // Less than 40 hours
-      const hasNoTodayTime = todayMinutes === 0
-      const hasIssues = hasNoRecentEntries || hasLowWeeklyHours || (hasNoTodayTime && new Date().getHours() > 10)
+      // Measured against the user's work schedule: entries are expected on their last working day,
+      // weekly hours only count the working days already over, and no time today is only an issue
+      // an hour into their working day
+      let lastWorkingDay = subDays(today, 1)
+      for (let back = 1; back < 7 && !schedules.isWorkingDay(user.id, lastWorkingDay); back++) {
+        lastWorkingDay = subDays(today, back + 1)
+      }
+
+      const schedule = schedules.forDay(user.id, now)
+      const expectedWeekMinutes = Math.round(schedules.expectedHoursBetween(user.id, weekStart, endOfWeek(now)) * 60)
+      const expectedSoFarMinutes = today > weekStart
+        ? Math.round(schedules.expectedHoursBetween(user.id, weekStart, subDays(today, 1)) * 60)
+        : 0
+      const minutesIntoDay = now.getHours() * 60 + now.getMinutes()
+
+      const hasNoRecentEntries = !lastEntry || lastEntry.startTime < lastWorkingDay
+      const hasLowWeeklyHours = weekMinutes < expectedSoFarMinutes
+      const hasNoTodayTime = todayMinutes === 0 &&
+        schedules.isWorkingDay(user.id, now) &&
+        minutesIntoDay > clockMinutes(schedule.dayStart) + 60
+
+      const issue = !lastEntry ? 'No time entries'
+        : hasNoRecentEntries ? 'No recent entries'
+        : hasNoTodayTime ? 'No time logged today'
+        : hasLowWeeklyHours ? 'Low weekly hours'
+        : null
 
       return {
         user,
@@ -71,7 +97,11 @@ export async function GET(request: NextRequest) {
         weekMinutes,
         lastEntryDate: lastEntry?.startTime.toISOString() || null,
         entriesCount: totalEntries,
-        hasIssues
+        hasIssues: issue !== null,
+        issue,
+        expectedWeekMinutes,
+        expectedSoFarMinutes,
+        lastReminderAt: lastReminders.get(user.id)?.toISOString() || null
       }
     })
 
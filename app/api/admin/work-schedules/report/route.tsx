@@ -0,0 +1,49 @@
+// app/api/admin/work-schedules/report/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { WorkScheduleManager } from '@/lib/work-schedules'
+import { endOfDay, startOfMonth } from 'date-fns'
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - Hours logged against hours expected by each user's schedule, for ?startDate and ?endDate (this month by default)
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const { searchParams } = new URL(request.url)
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+
+    const from = startDate ? new Date(`${startDate}T00:00:00`) : startOfMonth(new Date())
+    const to = endDate ? endOfDay(new Date(`${endDate}T00:00:00`)) : endOfDay(new Date())
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    if (to < from) {
+      return NextResponse.json({ error: 'The end date must not be before the start date' }, { status: 400 })
+    }
+
+    return NextResponse.json(await WorkScheduleManager.getExpectedHoursReport(from, to))
+  } catch (error) {
+    console.error('Failed to build the hours vs expected report:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+// app/api/admin/work-schedules/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { WorkScheduleManager } from '@/lib/work-schedules'
+import { z } from 'zod'
+
+const timeString = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm')
+
+const createScheduleSchema = z.object({
+  userId: z.string().min(1),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd'),
+  weeklyHours: z.number().min(0).max(168),
+  workingDays: z.array(z.number().int().min(0).max(6)).max(7),
+  dayStart: timeString,
+  dayEnd: timeString
+})
+
+// Helper function to check admin authorization
+async function checkAdminAuth() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  if (session.user.role !== 'ADMIN') {
+    return { error: NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 }) }
+  }
+
+  return { session }
+}
+
+// GET - A user's schedule history, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+
+    const userId = new URL(request.url).searchParams.get('userId')
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+    }
+
+    return NextResponse.json(await WorkScheduleManager.list(userId))
+  } catch (error) {
+    console.error('Failed to fetch work schedules:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Give a user a new schedule from a date on; earlier days keep the schedule they had
+export async function POST(request: NextRequest) {
+  try {
+    const authCheck = await checkAdminAuth()
+    if (authCheck.error) return authCheck.error
+    const session = authCheck.session!
+
+    const body = await request.json()
+    const result = createScheduleSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const created = await WorkScheduleManager.create(
+      { ...result.data, effectiveDate: new Date(`${result.data.effectiveDate}T00:00:00`) },
+      { id: session.user.id, email: session.user.email }
+    )
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    return NextResponse.json(created.schedule, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create work schedule:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -6,6 +6,10 @@ import { prisma } from '@/lib/prisma'
 import { Decimal } from '@prisma/client/runtime/library'
 import { z } from 'zod'
 import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { AuditLogger } from '@/lib/audit-log'
+import { FiscalSettingsManager } from '@/lib/fiscal-settings'
+import { ProjectBudgetManager } from '@/lib/project-budgets'
+import { getFiscalYear, getFiscalYearLabel } from '@/lib/fiscal-calendar'
 
 const getErrorMessage = (error: unknown): string => {
   if (error instanceof Error) return error.message
@@ -14,6 +18,9 @@ const getErrorMessage = (error: unknown): string => {
 
 // ✅ FIXED: Safe monetary validation with string input using proper Decimal import
 const budgetUpdateSchema = z.object({
+  // Fiscal year the budget applies to, defaults to the current one
+  year: z.number().int().min(2000).max(2100).optional(),
+
   totalBudget: z
     .union([z.string(), z.number()])
     .refine((val) => {
@@ -72,7 +79,13 @@ const budgetUpdateSchema = z.object({
         return false
       }
     }, 'Invalid Q4 budget amount')
-    .transform((val) => new Decimal(val))
+    .transform((val) => new Decimal(val)),
+
+  monthlyAllocations: z.array(z.object({
+    year: z.number().int(),
+    month: z.number().int().min(1).max(12),
+    amount: z.number().min(0).max(10000000)
+  })).max(12).optional()
 })
 
 interface RouteParams {
@@ -81,34 +94,6 @@ interface RouteParams {
   }>
 }
 
-// ✅ FIXED: Safe helper function to convert Decimal to number for JSON serialization
-const safeDecimalToNumber = (decimal: Decimal): number => {
-  if (!decimal) return 0
-  
-  try {
-    // Use toNumber() method instead of parseFloat(toString())
-    const number = decimal.toNumber()
-    
-    // Validate the result is within safe JavaScript integer range
-    if (!Number.isFinite(number)) {
-      console.warn('Decimal value is not finite:', decimal.toString())
-      return parseFloat(decimal.toFixed(2))
-    }
-    
-    if (Math.abs(number) > Number.MAX_SAFE_INTEGER) {
-      console.warn('Number exceeds safe integer range:', number)
-      // Return the string representation for display instead
-      return parseFloat(decimal.toFixed(2))
-    }
-    
-    return number
-  } catch (error) {
-    console.error('Decimal conversion error:', error)
-    // Fallback to safe parsing
-    return parseFloat(decimal.toFixed(2))
-  }
-}
-
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await getServerSession(NEXT_AUTH_CONFIG)
@@ -138,16 +123,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       select: {
         id: true,
         name: true,
-        color: true,
-        totalBudget: true,
-        q1Budget: true,
-        q2Budget: true,
-        q3Budget: true,
-        q4Budget: true,
-        q1Spent: true,
-        q2Spent: true,
-        q3Spent: true,
-        q4Spent: true
+        color: true
       }
     })
 
@@ -155,20 +131,24 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
-    // ✅ FIXED: Safe conversion of Decimals to numbers for JSON response
+    const { searchParams } = new URL(request.url)
+    const startMonth = await FiscalSettingsManager.getStartMonth()
+    const year = parseInt(searchParams.get('year') || getFiscalYear(new Date(), startMonth).toString())
+
+    if (isNaN(year)) {
+      return NextResponse.json({ error: 'Invalid fiscal year' }, { status: 400 })
+    }
+
+    const budget = await ProjectBudgetManager.getBudget(projectId, year)
+    const history = await ProjectBudgetManager.getHistory(projectId)
+
     const formattedProject = {
       id: project.id,
       name: project.name,
       color: project.color,
-      totalBudget: safeDecimalToNumber(project.totalBudget),
-      q1Budget: safeDecimalToNumber(project.q1Budget),
-      q2Budget: safeDecimalToNumber(project.q2Budget),
-      q3Budget: safeDecimalToNumber(project.q3Budget),
-      q4Budget: safeDecimalToNumber(project.q4Budget),
-      q1Spent: safeDecimalToNumber(project.q1Spent),
-      q2Spent: safeDecimalToNumber(project.q2Spent),
-      q3Spent: safeDecimalToNumber(project.q3Spent),
-      q4Spent: safeDecimalToNumber(project.q4Spent)
+      ...budget,
+      fiscalYearLabel: getFiscalYearLabel(year, startMonth),
+      history
     }
 
     return NextResponse.json(formattedProject)
@@ -215,7 +195,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 })
     }
 
-    const { totalBudget, q1Budget, q2Budget, q3Budget, q4Budget } = result.data
+    const { totalBudget, q1Budget, q2Budget, q3Budget, q4Budget, monthlyAllocations } = result.data
+    const startMonth = await FiscalSettingsManager.getStartMonth()
+    const fiscalYear = result.data.year ?? getFiscalYear(new Date(), startMonth)
 
     // Validate that quarterly budgets don't exceed total budget
     const totalQuarterlyBudget = q1Budget.add(q2Budget).add(q3Budget).add(q4Budget)
@@ -232,7 +214,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     // Check if project exists and is active
     const existingProject = await prisma.project.findUnique({
       where: { id: projectId },
-      select: { id: true, name: true, active: true }
+      select: {
+        id: true,
+        name: true,
+        active: true
+      }
     })
 
     if (!existingProject) {
@@ -245,32 +231,47 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 })
     }
 
-    // ✅ FIXED: Update project budget with Prisma Decimals
-    const updatedProject = await prisma.project.update({
-      where: { id: projectId },
-      data: {
+    const previousBudget = await ProjectBudgetManager.getBudget(projectId, fiscalYear)
+
+    let savedBudget
+    try {
+      savedBudget = await ProjectBudgetManager.saveBudget(projectId, fiscalYear, {
         totalBudget,
         q1Budget,
         q2Budget,
         q3Budget,
         q4Budget,
-        updatedAt: new Date()
-      },
-      select: {
-        id: true,
-        name: true,
-        color: true,
-        totalBudget: true,
-        q1Budget: true,
-        q2Budget: true,
-        q3Budget: true,
-        q4Budget: true,
-        q1Spent: true,
-        q2Spent: true,
-        q3Spent: true,
-        q4Spent: true,
-        updatedAt: true
+        monthlyAllocations
+      })
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Monthly allocation')) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
       }
+      throw error
+    }
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'BUDGET',
+      entityId: projectId,
+      before: {
+        totalBudget: previousBudget.totalBudget,
+        q1Budget: previousBudget.q1Budget,
+        q2Budget: previousBudget.q2Budget,
+        q3Budget: previousBudget.q3Budget,
+        q4Budget: previousBudget.q4Budget,
+        monthlyAllocations: previousBudget.monthlyAllocations
+      },
+      after: {
+        totalBudget,
+        q1Budget,
+        q2Budget,
+        q3Budget,
+        q4Budget,
+        monthlyAllocations: savedBudget.monthlyAllocations
+      },
+      metadata: { projectName: existingProject.name, fiscalYear }
     })
 
     // Recalculate spending to ensure accuracy after budget update
@@ -282,25 +283,16 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       // Don't fail the request if spending calculation fails
     }
 
-    // ✅ FIXED: Safe conversion of Decimals to numbers for JSON response
+    const updatedBudget = await ProjectBudgetManager.getBudget(projectId, fiscalYear)
     const formattedProject = {
-      id: updatedProject.id,
-      name: updatedProject.name,
-      color: updatedProject.color,
-      totalBudget: safeDecimalToNumber(updatedProject.totalBudget),
-      q1Budget: safeDecimalToNumber(updatedProject.q1Budget),
-      q2Budget: safeDecimalToNumber(updatedProject.q2Budget),
-      q3Budget: safeDecimalToNumber(updatedProject.q3Budget),
-      q4Budget: safeDecimalToNumber(updatedProject.q4Budget),
-      q1Spent: safeDecimalToNumber(updatedProject.q1Spent),
-      q2Spent: safeDecimalToNumber(updatedProject.q2Spent),
-      q3Spent: safeDecimalToNumber(updatedProject.q3Spent),
-      q4Spent: safeDecimalToNumber(updatedProject.q4Spent),
-      updatedAt: updatedProject.updatedAt
+      id: existingProject.id,
+      name: existingProject.name,
+      ...updatedBudget,
+      fiscalYearLabel: getFiscalYearLabel(fiscalYear, startMonth)
     }
 
     // Log budget update for audit with safe decimal display
-    console.log(`Budget updated for project: ${existingProject.name} by user: ${session.user.email} at ${new Date().toISOString()}`)
+    console.log(`Fiscal year ${fiscalYear} budget updated for project: ${existingProject.name} by user: ${session.user.email} at ${new Date().toISOString()}`)
     console.log(`New budgets - Total: $${totalBudget.toFixed(2)}, Q1: $${q1Budget.toFixed(2)}, Q2: $${q2Budget.toFixed(2)}, Q3: $${q3Budget.toFixed(2)}, Q4: $${q4Budget.toFixed(2)}`)
 
     return NextResponse.json({
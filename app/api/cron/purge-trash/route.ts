@@ -0,0 +1,35 @@
+// app/api/cron/purge-trash/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { checkCronAuth } from '@/lib/cron-auth'
+import { ProjectArchiveManager } from '@/lib/project-archive'
+
+/**
+ * Permanently deletes archived projects whose trash retention window has passed.
+ * Meant to be called once a day:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/purge-trash
+ */
+async function handle(request: NextRequest) {
+  const authError = checkCronAuth(request)
+  if (authError) return authError
+
+  try {
+    const { purged, kept } = await ProjectArchiveManager.purgeExpired()
+
+    return NextResponse.json({
+      purged: purged.map(impact => ({ projectId: impact.projectId, name: impact.projectName, timeEntries: impact.timeEntries })),
+      kept: kept.map(impact => ({ projectId: impact.projectId, name: impact.projectName, reason: impact.blockedReason }))
+    })
+  } catch (error) {
+    console.error('Trash purge failed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request)
+}
@@ -0,0 +1,31 @@
+// app/api/cron/reminders/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { checkCronAuth } from '@/lib/cron-auth'
+import { ReminderScheduler } from '@/lib/reminder-scheduler'
+
+/**
+ * Can be called as often as every few minutes; reminders only go out when the
+ * configured schedule is due and at most once per slot.
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/reminders
+ */
+async function handle(request: NextRequest) {
+  const authError = checkCronAuth(request)
+  if (authError) return authError
+
+  try {
+    const result = await ReminderScheduler.runIfDue()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Scheduled reminder run failed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request)
+}
@@ -0,0 +1,31 @@
+// app/api/cron/timers/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { checkCronAuth } from '@/lib/cron-auth'
+import { TimerManager } from '@/lib/timer'
+
+/**
+ * Stops every timer that has run past the auto-stop limit, including those of users who
+ * have not come back to stop them. Meant to be called every few minutes:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/timers
+ */
+async function handle(request: NextRequest) {
+  const authError = checkCronAuth(request)
+  if (authError) return authError
+
+  try {
+    const stopped = await TimerManager.autoStopExpired()
+    return NextResponse.json({ stopped })
+  } catch (error) {
+    console.error('Timer auto-stop run failed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request)
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request)
+}
@@ -0,0 +1,20 @@
+// app/api/entry-fields/route.ts
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryFieldManager } from '@/lib/entry-fields'
+
+// GET - Active tags and custom fields for the entry forms, with the projects each field is required on
+export async function GET() {
+  try {
+    const session = await getServerSession(NEXT_AUTH_CONFIG)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await EntryFieldManager.listDefinitions())
+  } catch (error) {
+    console.error('Failed to fetch entry fields:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
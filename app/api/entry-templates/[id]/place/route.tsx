@@ -0,0 +1,51 @@
+// app/api/entry-templates/[id]/place/route.tsx
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryTemplateManager } from '@/lib/entry-templates'
+import { z } from 'zod'
+
+const placeTemplateSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd').optional()
+})
+
+// POST - Create an entry from the template on the given date (today by default)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const result = placeTemplateSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const day = result.data.date ? new Date(`${result.data.date}T00:00:00`) : new Date()
+    const placed = await EntryTemplateManager.place(
+      { id: session.user.id, email: session.user.email, role: session.user.role },
+      id,
+      day
+    )
+
+    if (!placed.success) {
+      return NextResponse.json({ error: placed.error, details: placed.details }, { status: placed.status })
+    }
+
+    return NextResponse.json(placed.entry, { status: 201 })
+  } catch (error) {
+    console.error('Error placing entry template:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
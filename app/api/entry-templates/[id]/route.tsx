@@ -0,0 +1,93 @@
+// app/api/entry-templates/[id]/route.tsx
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryTemplateManager } from '@/lib/entry-templates'
+import { z } from 'zod'
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd')
+
+const updateTemplateSchema = z.object({
+  projectId: z.string().min(1).optional(),
+  taskId: z.string().min(1).nullable().optional(),
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  durationMinutes: z.number().int().min(1, 'Duration must be at least a minute').max(1440, 'A template can cover at most a day').optional(),
+  billable: z.boolean().optional(),
+  recurrenceDays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  recurrenceTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm').nullable().optional(),
+  recurrenceStart: dateString.nullable().optional(),
+  recurrenceEnd: dateString.nullable().optional()
+})
+
+function toDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined
+  return value ? new Date(`${value}T00:00:00`) : null
+}
+
+// PUT - Update one of the current user's templates
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const result = updateTemplateSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { recurrenceStart, recurrenceEnd, ...data } = result.data
+    const updated = await EntryTemplateManager.update(
+      { id: session.user.id, email: session.user.email, role: session.user.role },
+      id,
+      { ...data, recurrenceStart: toDate(recurrenceStart), recurrenceEnd: toDate(recurrenceEnd) }
+    )
+
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status })
+    }
+
+    return NextResponse.json(updated.template)
+  } catch (error) {
+    console.error('Error updating entry template:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Remove a template; entries already created from it are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const deleted = await EntryTemplateManager.delete(session.user.id, id)
+
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting entry template:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
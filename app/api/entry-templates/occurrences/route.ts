@@ -0,0 +1,67 @@
+// app/api/entry-templates/occurrences/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryTemplateManager } from '@/lib/entry-templates'
+import { z } from 'zod'
+
+const resolveOccurrenceSchema = z.object({
+  templateId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd'),
+  action: z.enum(['confirm', 'skip'])
+})
+
+// GET - Recurring entries waiting for the current user to confirm or skip
+export async function GET() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const pending = await EntryTemplateManager.listPending(session.user.id)
+    return NextResponse.json(pending)
+  } catch (error) {
+    console.error('Error fetching recurring entries:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Confirm a suggested recurring entry as a draft, or skip it
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = resolveOccurrenceSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { templateId, date, action } = result.data
+    const resolved = await EntryTemplateManager.resolveOccurrence(
+      { id: session.user.id, email: session.user.email, role: session.user.role },
+      templateId,
+      new Date(`${date}T00:00:00`),
+      action
+    )
+
+    if (!resolved.success) {
+      return NextResponse.json({ error: resolved.error, details: resolved.details }, { status: resolved.status })
+    }
+
+    return NextResponse.json({ entry: resolved.entry }, { status: resolved.entry ? 201 : 200 })
+  } catch (error) {
+    console.error('Error resolving recurring entry:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
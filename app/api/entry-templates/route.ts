@@ -0,0 +1,78 @@
+// app/api/entry-templates/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { EntryTemplateManager } from '@/lib/entry-templates'
+import { z } from 'zod'
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd')
+
+const createTemplateSchema = z.object({
+  projectId: z.string().min(1),
+  taskId: z.string().min(1).nullable().optional(),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  durationMinutes: z.number().int().min(1, 'Duration must be at least a minute').max(1440, 'A template can cover at most a day'),
+  billable: z.boolean().optional(),
+  recurrenceDays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  recurrenceTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm').nullable().optional(),
+  recurrenceStart: dateString.nullable().optional(),
+  recurrenceEnd: dateString.nullable().optional()
+})
+
+// GET - The current user's entry templates
+export async function GET() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const templates = await EntryTemplateManager.list(session.user.id)
+    return NextResponse.json(templates)
+  } catch (error) {
+    console.error('Error fetching entry templates:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Save a new template, optionally with a weekly recurrence
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = createTemplateSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { recurrenceStart, recurrenceEnd, ...data } = result.data
+    const created = await EntryTemplateManager.create(
+      { id: session.user.id, email: session.user.email, role: session.user.role },
+      {
+        ...data,
+        recurrenceStart: recurrenceStart ? new Date(`${recurrenceStart}T00:00:00`) : null,
+        recurrenceEnd: recurrenceEnd ? new Date(`${recurrenceEnd}T00:00:00`) : null
+      }
+    )
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    return NextResponse.json(created.template, { status: 201 })
+  } catch (error) {
+    console.error('Error creating entry template:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+// app/api/leave/balances/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { LeaveManager } from '@/lib/leave'
+
+// GET - Leave balances for ?year (default this year). Admins may pass ?userId for another user's.
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId') ?? session.user.id
+    const year = Number(searchParams.get('year') ?? new Date().getFullYear())
+
+    if (userId !== session.user.id && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 })
+    }
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+      return NextResponse.json({ error: 'Invalid year' }, { status: 400 })
+    }
+
+    return NextResponse.json(await LeaveManager.getBalances(userId, year))
+  } catch (error) {
+    console.error('Error fetching leave balances:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+// app/api/leave/calendar/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { LeaveManager } from '@/lib/leave'
+import { differenceInCalendarDays } from 'date-fns'
+
+// Enough for the month view with its leading and trailing weeks
+const MAX_RANGE_DAYS = 62
+
+// GET - The current user's holidays and pending or approved leave between ?startDate and ?endDate
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+
+    if (!startDate || !endDate || !/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+      return NextResponse.json({ error: 'startDate and endDate are required as yyyy-MM-dd' }, { status: 400 })
+    }
+
+    const from = new Date(`${startDate}T00:00:00`)
+    const to = new Date(`${endDate}T00:00:00`)
+    const days = differenceInCalendarDays(to, from)
+    if (days < 0 || days > MAX_RANGE_DAYS) {
+      return NextResponse.json({ error: `The range must be between 1 and ${MAX_RANGE_DAYS + 1} days` }, { status: 400 })
+    }
+
+    return NextResponse.json(await LeaveManager.getCalendarDaysOff(session.user.id, from, to))
+  } catch (error) {
+    console.error('Error fetching days off:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
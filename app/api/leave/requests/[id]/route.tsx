@@ -0,0 +1,51 @@
+// app/api/leave/requests/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { LeaveManager } from '@/lib/leave'
+import { z } from 'zod'
+
+const updateRequestSchema = z.object({
+  action: z.enum(['approve', 'reject', 'cancel']),
+  comment: z.string().max(500).nullable().optional()
+})
+
+// PUT - Approve or reject a pending request (admins), or cancel one (the owner or an admin)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const result = updateRequestSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const user = { id: session.user.id, email: session.user.email, role: session.user.role }
+    const { action, comment } = result.data
+    const updated = action === 'cancel'
+      ? await LeaveManager.cancel(user, id)
+      : await LeaveManager.review(user, id, action, comment)
+
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status })
+    }
+
+    return NextResponse.json(updated.request)
+  } catch (error) {
+    console.error('Error updating leave request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+// app/api/leave/requests/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { LeaveManager, LeaveStatus } from '@/lib/leave'
+import { z } from 'zod'
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd')
+
+const createRequestSchema = z.object({
+  leaveTypeId: z.string().min(1),
+  startDate: dateString,
+  endDate: dateString,
+  note: z.string().max(500).nullable().optional()
+})
+
+const STATUSES: LeaveStatus[] = ['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']
+
+// GET - The current user's leave requests. Admins may pass ?scope=all for everyone's, e.g. with ?status=PENDING
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const scope = searchParams.get('scope')
+    const status = searchParams.get('status')
+
+    if (scope === 'all' && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 })
+    }
+    if (status && !STATUSES.includes(status as LeaveStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const requests = await LeaveManager.listRequests({
+      userId: scope === 'all' ? undefined : session.user.id,
+      status: (status as LeaveStatus | null) ?? undefined
+    })
+
+    return NextResponse.json(requests)
+  } catch (error) {
+    console.error('Error fetching leave requests:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Request leave; types that need no approval are approved right away
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = createRequestSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const created = await LeaveManager.request(
+      { id: session.user.id, email: session.user.email, role: session.user.role },
+      {
+        leaveTypeId: result.data.leaveTypeId,
+        startDate: new Date(`${result.data.startDate}T00:00:00`),
+        endDate: new Date(`${result.data.endDate}T00:00:00`),
+        note: result.data.note
+      }
+    )
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    return NextResponse.json(created.request, { status: 201 })
+  } catch (error) {
+    console.error('Error creating leave request:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
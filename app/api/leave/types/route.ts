@@ -0,0 +1,21 @@
+// app/api/leave/types/route.ts
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { LeaveManager } from '@/lib/leave'
+
+// GET - Leave types that can be requested
+export async function GET() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await LeaveManager.listTypes({ activeOnly: true }))
+  } catch (error) {
+    console.error('Error fetching leave types:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
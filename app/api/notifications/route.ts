@@ -0,0 +1,62 @@
+// app/api/notifications/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { NotificationManager } from '@/lib/notifications'
+import { z } from 'zod'
+
+const markReadSchema = z.object({
+  ids: z.array(z.string().min(1)).optional()
+})
+
+// GET - The current user's notifications, newest first
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const unreadOnly = searchParams.get('unread') === 'true'
+
+    const [notifications, unreadCount] = await Promise.all([
+      NotificationManager.getForUser(session.user.id, { unreadOnly }),
+      NotificationManager.getUnreadCount(session.user.id)
+    ])
+
+    return NextResponse.json({ notifications, unreadCount })
+  } catch (error) {
+    console.error('Failed to fetch notifications:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH - Mark the given notifications as read, or all of them when no ids are sent
+export async function PATCH(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = markReadSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const updated = await NotificationManager.markRead(session.user.id, result.data.ids)
+
+    return NextResponse.json({ success: true, updated })
+  } catch (error) {
+    console.error('Failed to update notifications:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -4,6 +4,18 @@ import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { RateSource } from '@/lib/rate-cards'
+import { FiscalSettingsManager } from '@/lib/fiscal-settings'
+import { TaskBreakdownBuilder, TaskManager } from '@/lib/tasks'
+import { ProjectBudgetManager } from '@/lib/project-budgets'
+import {
+  getFiscalQuarter,
+  getFiscalYear,
+  getFiscalYearRange,
+  getFiscalMonths,
+  getFiscalYearLabel,
+  getMonthKey
+} from '@/lib/fiscal-calendar'
 
 interface RouteParams {
   params: Promise<{
@@ -11,19 +23,6 @@ interface RouteParams {
   }>
 }
 
-// Helper function to determine quarter based on custom fiscal year (Apr-Mar)
-function getFiscalQuarter(date: Date): 1 | 2 | 3 | 4 {
-  const month = date.getMonth() + 1 // 1-12
-  if (month >= 4 && month <= 6) return 1  // Q1: Apr-Jun
-  if (month >= 7 && month <= 9) return 2  // Q2: Jul-Sep
-  if (month >= 10 && month <= 12) return 3 // Q3: Oct-Dec
-  return 4 // Q4: Jan-Mar
-}
-
-function getMonthKey(date: Date): string {
-  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`
-}
-
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const session = await getServerSession(NEXT_AUTH_CONFIG)
@@ -34,7 +33,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     const { id: projectId } = await params
     const { searchParams } = new URL(request.url)
-    const year = parseInt(searchParams.get('year') || new Date().getFullYear().toString())
+    const startMonth = await FiscalSettingsManager.getStartMonth()
+    const year = parseInt(searchParams.get('year') || getFiscalYear(new Date(), startMonth).toString())
 
     console.log(`Generating detailed report for project ${projectId}, fiscal year ${year} with historical rates`)
 
@@ -62,8 +62,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     // Calculate fiscal year date ranges
-    const fiscalYearStart = new Date(year, 3, 1) // April 1st
-    const fiscalYearEnd = new Date(year + 1, 2, 31) // March 31st next year
+    const { start: fiscalYearStart, end: fiscalYearEnd } = getFiscalYearRange(year, startMonth)
 
     // Get all time entries for the fiscal year
     const timeEntries = await prisma.timeEntry.findMany({
@@ -99,6 +98,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }
     })
 
+    // Rates resolved per entry: project rate cards, then rate history
+    const costs = await EnhancedSpendingCalculator.costEntries(timeEntries)
+
+    // Hours and cost per task, accumulated alongside the per-employee figures
+    const taskBreakdown = new TaskBreakdownBuilder(await TaskManager.listForProject(projectId))
+
     // Process data for each employee using historical rates
     const employees = await Promise.all(Array.from(uniqueUsers.values()).map(async (user) => {
       const userEntries = timeEntries.filter(entry => entry.user.id === user.id)
@@ -111,20 +116,24 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       const quarterlyHours = { q1: 0, q2: 0, q3: 0, q4: 0 }
       const quarterlySpending = { q1: 0, q2: 0, q3: 0, q4: 0 }
 
+      // Each rate the employee was costed at this year and where it came from, in order of first use
+      const rates: Array<{ rate: number; source: RateSource; from: string; hours: number }> = []
+
       // Process each time entry with historical rate calculation
       for (const entry of userEntries) {
         const entryDate = new Date(entry.date)
         const monthKey = getMonthKey(entryDate)
-        const quarter = getFiscalQuarter(entryDate)
-        const hours = Number(entry.hours) || 0
-        
-        // Get the historical rate for this specific entry date
-        const historicalRate = await EnhancedSpendingCalculator.getEffectiveRateForDate(
-          entry.user.id, 
-          entryDate
-        )
-        
-        const cost = hours * historicalRate
+        const quarter = getFiscalQuarter(entryDate, startMonth)
+        const { rate, rateSource, hours, cost } = costs.get(entry.id)!
+
+        const usedRate = rates.find(used => used.source === rateSource && Math.abs(used.rate - rate) < 0.01)
+        if (usedRate) {
+          usedRate.hours += hours
+        } else {
+          rates.push({ rate, source: rateSource, from: entryDate.toISOString(), hours })
+        }
+
+        taskBreakdown.add(entry.taskId, entry.user.id, monthKey, quarter, hours, cost)
 
         // Monthly totals
         monthlyHours[monthKey] = (monthlyHours[monthKey] || 0) + hours
@@ -157,6 +166,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         name: user.name,
         email: user.email,
         rate: Number(user.employeeRate), // Current rate for reference
+        rates,
         monthlyHours,
         monthlySpending,
         quarterlyHours,
@@ -203,18 +213,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       totals.totalSpending += employee.totalSpending
     })
 
-    // Update project spent amounts in database with the recalculated values
-    await prisma.project.update({
-      where: { id: projectId },
-      data: {
-        q1Spent: totals.quarterlySpending.q1,
-        q2Spent: totals.quarterlySpending.q2,
-        q3Spent: totals.quarterlySpending.q3,
-        q4Spent: totals.quarterlySpending.q4
-      }
+    // Store the recalculated spend against this fiscal year only
+    await ProjectBudgetManager.writeYearSpent(projectId, year, {
+      q1Spent: totals.quarterlySpending.q1,
+      q2Spent: totals.quarterlySpending.q2,
+      q3Spent: totals.quarterlySpending.q3,
+      q4Spent: totals.quarterlySpending.q4
     })
 
-    console.log(`Updated project ${project.name} with recalculated spending:`, {
+    console.log(`Updated project ${project.name} fiscal year ${year} with recalculated spending:`, {
       q1: totals.quarterlySpending.q1.toFixed(2),
       q2: totals.quarterlySpending.q2.toFixed(2),
       q3: totals.quarterlySpending.q3.toFixed(2),
@@ -223,12 +230,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     })
 
     // Generate all months for the fiscal year
-    const months: string[] = []
-    for (let month = 4; month <= 15; month++) {
-      const actualMonth = month > 12 ? month - 12 : month
-      const actualYear = month > 12 ? year + 1 : year
-      months.push(`${actualYear}-${actualMonth.toString().padStart(2, '0')}`)
-    }
+    const months = getFiscalMonths(year, startMonth)
+
+    const budget = await ProjectBudgetManager.getBudget(projectId, year)
+    const budgetHistory = await ProjectBudgetManager.getHistory(projectId)
 
     const reportData = {
       project: {
@@ -238,22 +243,44 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       },
       period: {
         year,
+        label: getFiscalYearLabel(year, startMonth),
+        startMonth,
         startDate: fiscalYearStart.toISOString(),
         endDate: fiscalYearEnd.toISOString()
       },
       budget: {
-        q1Budget: Number(project.q1Budget),
-        q2Budget: Number(project.q2Budget),
-        q3Budget: Number(project.q3Budget),
-        q4Budget: Number(project.q4Budget),
-        totalBudget: Number(project.totalBudget),
+        q1Budget: budget.q1Budget,
+        q2Budget: budget.q2Budget,
+        q3Budget: budget.q3Budget,
+        q4Budget: budget.q4Budget,
+        totalBudget: budget.totalBudget,
+        monthlyBudget: Object.fromEntries(budget.monthlyAllocations.map(a => [
+          `${a.year}-${a.month.toString().padStart(2, '0')}`,
+          a.amount
+        ])),
         q1Spent: totals.quarterlySpending.q1,
         q2Spent: totals.quarterlySpending.q2,
         q3Spent: totals.quarterlySpending.q3,
         q4Spent: totals.quarterlySpending.q4,
         totalSpent: totals.totalSpending
       },
+      // Year-over-year budget vs actual
+      budgetHistory: budgetHistory.map(entry => ({
+        fiscalYear: entry.fiscalYear,
+        label: getFiscalYearLabel(entry.fiscalYear, startMonth),
+        totalBudget: entry.totalBudget,
+        totalSpent: entry.totalSpent,
+        q1Budget: entry.q1Budget,
+        q2Budget: entry.q2Budget,
+        q3Budget: entry.q3Budget,
+        q4Budget: entry.q4Budget,
+        q1Spent: entry.q1Spent,
+        q2Spent: entry.q2Spent,
+        q3Spent: entry.q3Spent,
+        q4Spent: entry.q4Spent
+      })),
       employees: employees.sort((a, b) => b.totalHours - a.totalHours), // Sort by total hours desc
+      tasks: taskBreakdown.build(),
       totals,
       months,
       calculationMethod: 'historical_rates',
@@ -5,19 +5,21 @@ import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import * as XLSX from 'xlsx'
 import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
-
-// Helper functions from detailed report
-function getFiscalQuarter(date: Date): 1 | 2 | 3 | 4 {
-  const month = date.getMonth() + 1
-  if (month >= 4 && month <= 6) return 1
-  if (month >= 7 && month <= 9) return 2
-  if (month >= 10 && month <= 12) return 3
-  return 4
-}
-
-function getMonthKey(date: Date): string {
-  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`
-}
+import { FiscalSettingsManager } from '@/lib/fiscal-settings'
+import { TaskBreakdownBuilder, TaskManager, TaskBreakdownRow } from '@/lib/tasks'
+import { ProjectBudgetManager, ProjectBudgetFigures } from '@/lib/project-budgets'
+import { EntryExportSheet, ExportableEntry, entryFieldsInclude } from '@/lib/entry-fields'
+import {
+  FiscalQuarter,
+  getFiscalQuarter,
+  getFiscalYear,
+  getFiscalYearRange,
+  getFiscalYearLabel,
+  getFiscalQuarterLabel,
+  getQuarterMonthKeys,
+  getMonthKey,
+  MONTH_NAMES
+} from '@/lib/fiscal-calendar'
 
 function formatCurrency(amount: number): string {
   return new Intl.NumberFormat('en-US', {
@@ -38,7 +40,8 @@ export async function GET(
 
     const { id: projectId } = await params
     const { searchParams } = new URL(request.url)
-    const year = parseInt(searchParams.get('year') || new Date().getFullYear().toString())
+    const startMonth = await FiscalSettingsManager.getStartMonth()
+    const year = parseInt(searchParams.get('year') || getFiscalYear(new Date(), startMonth).toString())
     const format = searchParams.get('format') || 'excel'
 
     // Permission check
@@ -54,12 +57,13 @@ export async function GET(
     if (!hasPermission) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
 
     // Generate report data
-    const reportData = await generateDetailedReportData(projectId, year, session.user.id)
+    const reportData = await generateDetailedReportData(projectId, year, startMonth)
+    const entrySheet = await EntryExportSheet.load()
 
     if (format === 'excel') {
-      return generateExcelExport(reportData, year)
+      return generateExcelExport(reportData, year, entrySheet)
     } else {
-      return generateCSVExport(reportData, year)
+      return generateCSVExport(reportData, year, entrySheet)
     }
   } catch (error) {
     console.error('Export failed:', error)
@@ -67,7 +71,7 @@ export async function GET(
   }
 }
 
-async function generateDetailedReportData(projectId: string, year: number, userId: string) {
+async function generateDetailedReportData(projectId: string, year: number, startMonth: number) {
   // Same logic as detailed report API
   const project = await prisma.project.findUnique({
     where: { id: projectId }
@@ -76,8 +80,7 @@ async function generateDetailedReportData(projectId: string, year: number, userI
   if (!project) throw new Error('Project not found')
 
   // Calculate fiscal year date ranges
-  const fiscalYearStart = new Date(year, 3, 1) // April 1st
-  const fiscalYearEnd = new Date(year + 1, 2, 31) // March 31st next year
+  const { start: fiscalYearStart, end: fiscalYearEnd } = getFiscalYearRange(year, startMonth)
 
   // Get all time entries for the fiscal year
   const timeEntries = await prisma.timeEntry.findMany({
@@ -96,7 +99,10 @@ async function generateDetailedReportData(projectId: string, year: number, userI
           email: true,
           employeeRate: true
         }
-      }
+      },
+      project: { select: { name: true, code: true } },
+      task: { select: { name: true } },
+      ...entryFieldsInclude
     },
     orderBy: {
       date: 'asc'
@@ -111,6 +117,9 @@ async function generateDetailedReportData(projectId: string, year: number, userI
     }
   })
 
+  const taskBreakdown = new TaskBreakdownBuilder(await TaskManager.listForProject(projectId))
+  const costs = await EnhancedSpendingCalculator.costEntries(timeEntries)
+
   const employees = await Promise.all(Array.from(uniqueUsers.values()).map(async (user) => {
     const userEntries = timeEntries.filter(entry => entry.user.id === user.id)
     
@@ -124,16 +133,9 @@ async function generateDetailedReportData(projectId: string, year: number, userI
     for (const entry of userEntries) {
       const entryDate = new Date(entry.date)
       const monthKey = getMonthKey(entryDate)
-      const quarter = getFiscalQuarter(entryDate)
-      const hours = Number(entry.hours) || 0
-      
-      // Get historical rate for this specific entry date
-      const historicalRate = await EnhancedSpendingCalculator.getEffectiveRateForDate(
-        entry.user.id, 
-        entryDate
-      )
-      
-      const cost = hours * historicalRate
+      const quarter = getFiscalQuarter(entryDate, startMonth)
+      const { hours, cost } = costs.get(entry.id)!
+      taskBreakdown.add(entry.taskId, entry.user.id, monthKey, quarter, hours, cost)
 
       // Monthly totals
       monthlyHours[monthKey] = (monthlyHours[monthKey] || 0) + hours
@@ -193,6 +195,9 @@ async function generateDetailedReportData(projectId: string, year: number, userI
     totals.totalSpending += employee.totalSpending
   })
 
+  const budget = await ProjectBudgetManager.getBudget(projectId, year)
+  const budgetHistory = await ProjectBudgetManager.getHistory(projectId)
+
   return {
     project: {
       id: project.id,
@@ -201,42 +206,43 @@ async function generateDetailedReportData(projectId: string, year: number, userI
     },
     period: {
       year,
+      startMonth,
       startDate: fiscalYearStart.toISOString(),
       endDate: fiscalYearEnd.toISOString()
     },
     budget: {
-      q1Budget: Number(project.q1Budget),
-      q2Budget: Number(project.q2Budget),
-      q3Budget: Number(project.q3Budget),
-      q4Budget: Number(project.q4Budget),
-      totalBudget: Number(project.totalBudget),
+      q1Budget: budget.q1Budget,
+      q2Budget: budget.q2Budget,
+      q3Budget: budget.q3Budget,
+      q4Budget: budget.q4Budget,
+      totalBudget: budget.totalBudget,
       q1Spent: totals.quarterlySpending.q1,
       q2Spent: totals.quarterlySpending.q2,
       q3Spent: totals.quarterlySpending.q3,
       q4Spent: totals.quarterlySpending.q4,
       totalSpent: totals.totalSpending
     },
+    budgetHistory,
     employees: employees.sort((a, b) => b.totalHours - a.totalHours),
+    tasks: taskBreakdown.build(),
+    entries: timeEntries,
     totals,
     calculationMethod: 'historical_rates',
     lastCalculated: new Date().toISOString()
   }
 }
 
-function generateExcelExport(reportData: any, year: number) {
+function generateExcelExport(reportData: any, year: number, entrySheet: EntryExportSheet) {
   const workbook = XLSX.utils.book_new()
+  const startMonth: number = reportData.period.startMonth
+  const yearLabel = getFiscalYearLabel(year, startMonth)
 
   // 1. Hours Sheet
   const hoursData = [
     [`${reportData.project.name} - Hours Report`],
-    [`Fiscal Year: ${year}/${year+1}`, `Generated: ${new Date().toLocaleDateString()}`],
+    [`Fiscal Year: ${yearLabel}`, `Generated: ${new Date().toLocaleDateString()}`],
     [],
-    ['HOURS', 'EMPLOYEE', 
-      'APR', 'MAY', 'JUN', 'Total Q1',
-      'JUL', 'AUG', 'SEP', 'Total Q2',
-      'OCT', 'NOV', 'DEC', 'Total Q3',
-      'JAN', 'FEB', 'MAR', 'Total Q4'
-    ]
+    ['HOURS', 'EMPLOYEE', ...getMonthHeaders(startMonth)]
   ];
 
   // Add employee hours data
@@ -244,10 +250,10 @@ function generateExcelExport(reportData: any, year: number) {
     hoursData.push([
       employee.totalHours.toFixed(1),
       employee.name || employee.email,
-      ...getQuarterMonthValues(employee, 'q1', year, false),
-      ...getQuarterMonthValues(employee, 'q2', year, false),
-      ...getQuarterMonthValues(employee, 'q3', year, false),
-      ...getQuarterMonthValues(employee, 'q4', year, false)
+      ...getQuarterMonthValues(employee, 'q1', year, startMonth, false),
+      ...getQuarterMonthValues(employee, 'q2', year, startMonth, false),
+      ...getQuarterMonthValues(employee, 'q3', year, startMonth, false),
+      ...getQuarterMonthValues(employee, 'q4', year, startMonth, false)
     ])
   })
 
@@ -255,10 +261,10 @@ function generateExcelExport(reportData: any, year: number) {
   hoursData.push([
     reportData.totals.totalHours.toFixed(1),
     'TOTAL',
-    ...getQuarterMonthValues(reportData.totals, 'q1', year, false),
-    ...getQuarterMonthValues(reportData.totals, 'q2', year, false),
-    ...getQuarterMonthValues(reportData.totals, 'q3', year, false),
-    ...getQuarterMonthValues(reportData.totals, 'q4', year, false)
+    ...getQuarterMonthValues(reportData.totals, 'q1', year, startMonth, false),
+    ...getQuarterMonthValues(reportData.totals, 'q2', year, startMonth, false),
+    ...getQuarterMonthValues(reportData.totals, 'q3', year, startMonth, false),
+    ...getQuarterMonthValues(reportData.totals, 'q4', year, startMonth, false)
   ])
 
   const hoursSheet = XLSX.utils.aoa_to_sheet(hoursData)
@@ -267,14 +273,9 @@ function generateExcelExport(reportData: any, year: number) {
   // 2. Dollars Sheet
   const dollarsData = [
     [`${reportData.project.name} - Dollars Report`],
-    [`Fiscal Year: ${year}/${year+1}`, `Generated: ${new Date().toLocaleDateString()}`],
+    [`Fiscal Year: ${yearLabel}`, `Generated: ${new Date().toLocaleDateString()}`],
     [],
-    ['DOLLARS', 'EMPLOYEE', 
-      'APR', 'MAY', 'JUN', 'Total Q1',
-      'JUL', 'AUG', 'SEP', 'Total Q2',
-      'OCT', 'NOV', 'DEC', 'Total Q3',
-      'JAN', 'FEB', 'MAR', 'Total Q4'
-    ]
+    ['DOLLARS', 'EMPLOYEE', ...getMonthHeaders(startMonth)]
   ];
 
   // Add employee dollars data
@@ -282,10 +283,10 @@ function generateExcelExport(reportData: any, year: number) {
     dollarsData.push([
       employee.rate > 0 ? formatCurrency(employee.totalSpending) : '#N/A',
       employee.name || employee.email,
-      ...getQuarterMonthValues(employee, 'q1', year, true),
-      ...getQuarterMonthValues(employee, 'q2', year, true),
-      ...getQuarterMonthValues(employee, 'q3', year, true),
-      ...getQuarterMonthValues(employee, 'q4', year, true)
+      ...getQuarterMonthValues(employee, 'q1', year, startMonth, true),
+      ...getQuarterMonthValues(employee, 'q2', year, startMonth, true),
+      ...getQuarterMonthValues(employee, 'q3', year, startMonth, true),
+      ...getQuarterMonthValues(employee, 'q4', year, startMonth, true)
     ])
   })
 
@@ -293,35 +294,68 @@ function generateExcelExport(reportData: any, year: number) {
   dollarsData.push([
     reportData.totals.totalSpending > 0 ? formatCurrency(reportData.totals.totalSpending) : '#N/A',
     'TOTAL SALARY',
-    ...getQuarterMonthValues(reportData.totals, 'q1', year, true),
-    ...getQuarterMonthValues(reportData.totals, 'q2', year, true),
-    ...getQuarterMonthValues(reportData.totals, 'q3', year, true),
-    ...getQuarterMonthValues(reportData.totals, 'q4', year, true)
+    ...getQuarterMonthValues(reportData.totals, 'q1', year, startMonth, true),
+    ...getQuarterMonthValues(reportData.totals, 'q2', year, startMonth, true),
+    ...getQuarterMonthValues(reportData.totals, 'q3', year, startMonth, true),
+    ...getQuarterMonthValues(reportData.totals, 'q4', year, startMonth, true)
   ])
 
   const dollarsSheet = XLSX.utils.aoa_to_sheet(dollarsData)
   XLSX.utils.book_append_sheet(workbook, dollarsSheet, 'Dollars')
 
-  // 3. Budget Sheet
+  // 3. Tasks Sheet
+  const quarterLabels = ([1, 2, 3, 4] as FiscalQuarter[]).map(q => getFiscalQuarterLabel(q, startMonth))
+  const tasksData = [
+    [`${reportData.project.name} - Tasks Report`],
+    [`Fiscal Year: ${yearLabel}`, `Generated: ${new Date().toLocaleDateString()}`],
+    [],
+    ['TASK', 'CODE', 'ESTIMATE (H)', 'HOURS', 'REMAINING (H)', '% OF ESTIMATE', 'COST', 'USERS', ...quarterLabels.map(label => `${label} HOURS`)],
+    ...generateTaskRows(reportData),
+    [
+      'TOTAL',
+      '',
+      '',
+      reportData.totals.totalHours.toFixed(1),
+      '',
+      '',
+      formatCurrency(reportData.totals.totalSpending),
+      reportData.employees.length,
+      ...(['q1', 'q2', 'q3', 'q4'] as const).map(q => reportData.totals.quarterlyHours[q].toFixed(1))
+    ]
+  ];
+
+  const tasksSheet = XLSX.utils.aoa_to_sheet(tasksData)
+  XLSX.utils.book_append_sheet(workbook, tasksSheet, 'Tasks')
+
+  // 4. Budget Sheet
   const budgetData = [
     [`${reportData.project.name} - Budget Report`],
-    [`Fiscal Year: ${year}/${year+1}`, `Generated: ${new Date().toLocaleDateString()}`],
+    [`Fiscal Year: ${yearLabel}`, `Generated: ${new Date().toLocaleDateString()}`],
     [],
     ['QUARTER', 'BUDGET', 'SPENT', 'STATUS', 'VARIANCE', 'UTILIZATION'],
-    ...generateBudgetRows(reportData, 'q1'),
-    ...generateBudgetRows(reportData, 'q2'),
-    ...generateBudgetRows(reportData, 'q3'),
-    ...generateBudgetRows(reportData, 'q4'),
+    ...generateBudgetRows(reportData, startMonth, 'q1'),
+    ...generateBudgetRows(reportData, startMonth, 'q2'),
+    ...generateBudgetRows(reportData, startMonth, 'q3'),
+    ...generateBudgetRows(reportData, startMonth, 'q4'),
     [],
     ['BUDGET SUMMARY'],
     [],
     ['', 'Total', 'Q1', 'Q2', 'Q3', 'Q4'],
-    ...generateBudgetTable(reportData)
+    ...generateBudgetTable(reportData),
+    [],
+    ['YEAR OVER YEAR'],
+    [],
+    ['FISCAL YEAR', 'BUDGET', 'SPENT', 'VARIANCE', 'UTILIZATION'],
+    ...generateBudgetHistoryRows(reportData, startMonth)
   ];
 
   const budgetSheet = XLSX.utils.aoa_to_sheet(budgetData)
   XLSX.utils.book_append_sheet(workbook, budgetSheet, 'Budget')
 
+  // 5. Entries Sheet, one row per entry with its tags and custom fields
+  const entriesSheet = XLSX.utils.aoa_to_sheet(entrySheet.rows(reportData.entries))
+  XLSX.utils.book_append_sheet(workbook, entriesSheet, 'Entries')
+
   // Generate Excel buffer
   const excelBuffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
   const cleanProjectName = reportData.project.name.replace(/[^a-zA-Z0-9]/g, '_')
@@ -336,15 +370,21 @@ function generateExcelExport(reportData: any, year: number) {
 }
 
 // Helper functions
-function getQuarterMonthValues(data: any, quarter: string, year: number, isCurrency: boolean) {
-  const months = getQuarterMonths(quarter, year);
+// Month column headers in fiscal order, each quarter followed by its total
+function getMonthHeaders(startMonth: number) {
+  const headers: string[] = []
+  for (let i = 0; i < 12; i++) {
+    headers.push(MONTH_NAMES[(startMonth - 1 + i) % 12].slice(0, 3).toUpperCase())
+    if (i % 3 === 2) headers.push(`Total Q${(i + 1) / 3}`)
+  }
+  return headers
+}
+
+function getQuarterMonthValues(data: any, quarter: string, year: number, startMonth: number, isCurrency: boolean) {
+  const monthKeys = getQuarterMonthKeys(year, Number(quarter.slice(1)) as FiscalQuarter, startMonth);
   const values = [];
   
-  for (const month of months) {
-    const monthKey = quarter === 'q4' ? 
-      `${year+1}-${month}` : 
-      `${year}-${month}`;
-    
+  for (const monthKey of monthKeys) {
     let value = data.monthlyHours[monthKey] || 0;
     if (isCurrency && 'monthlySpending' in data) {
       value = data.monthlySpending[monthKey] || 0;
@@ -372,24 +412,22 @@ function getQuarterMonthValues(data: any, quarter: string, year: number, isCurre
   return values;
 }
 
-function getQuarterMonths(quarter: string, year: number) {
-  const months: Record<string, string[]> = {
-    q1: ['04', '05', '06'],
-    q2: ['07', '08', '09'],
-    q3: ['10', '11', '12'],
-    q4: ['01', '02', '03'] // Next year
-  };
-  return months[quarter];
+// Hours and cost are for the fiscal year being exported; the estimate is compared against all hours logged on the task
+function generateTaskRows(reportData: { tasks: TaskBreakdownRow[] }) {
+  return reportData.tasks.map(task => [
+    task.active ? task.name : `${task.name} (inactive)`,
+    task.code || '',
+    task.estimateHours !== null ? task.estimateHours.toFixed(1) : '-',
+    task.totalHours.toFixed(1),
+    task.estimateHours !== null && task.loggedHours !== null ? (task.estimateHours - task.loggedHours).toFixed(1) : '-',
+    task.estimateHours && task.loggedHours !== null ? `${((task.loggedHours / task.estimateHours) * 100).toFixed(1)}%` : 'N/A',
+    formatCurrency(task.totalSpending),
+    task.users,
+    ...(['q1', 'q2', 'q3', 'q4'] as const).map(q => task.quarterlyHours[q] ? task.quarterlyHours[q].toFixed(1) : '-')
+  ])
 }
 
-function generateBudgetRows(reportData: any, quarter: string) {
-  const quarterLabels = {
-    q1: 'Q1 (Apr-Jun)',
-    q2: 'Q2 (Jul-Sep)',
-    q3: 'Q3 (Oct-Dec)',
-    q4: 'Q4 (Jan-Mar)'
-  };
-  
+function generateBudgetRows(reportData: any, startMonth: number, quarter: string) {
   const budget = reportData.budget[`${quarter}Budget`];
   const spent = reportData.budget[`${quarter}Spent`];
   const percentage = budget > 0 ? (spent / budget) * 100 : 0;
@@ -408,7 +446,7 @@ function generateBudgetRows(reportData: any, quarter: string) {
   
   return [
     [
-      quarterLabels[quarter as keyof typeof quarterLabels],
+      getFiscalQuarterLabel(Number(quarter.slice(1)) as FiscalQuarter, startMonth),
       formatCurrency(budget),
       formatCurrency(spent),
       status,
@@ -452,11 +490,25 @@ function generateBudgetTable(reportData: any) {
   ];
 }
 
-function generateCSVExport(reportData: any, year: number) {
-  // This would be similar to the Excel export but in CSV format
-  // For brevity, we'll just return a placeholder
-  return new NextResponse('CSV export not implemented', {
-    status: 501,
-    headers: { 'Content-Type': 'text/plain' }
+function generateBudgetHistoryRows(reportData: { budgetHistory: ProjectBudgetFigures[] }, startMonth: number) {
+  return reportData.budgetHistory.map(entry => [
+    getFiscalYearLabel(entry.fiscalYear, startMonth),
+    formatCurrency(entry.totalBudget),
+    formatCurrency(entry.totalSpent),
+    formatCurrency(entry.totalBudget - entry.totalSpent),
+    entry.totalBudget > 0 ? `${((entry.totalSpent / entry.totalBudget) * 100).toFixed(1)}%` : 'N/A'
+  ])
+}
+
+// The CSV holds the entries sheet, since the summary sheets do not fit a single table
+function generateCSVExport(reportData: { project: { name: string }; entries: ExportableEntry[] }, year: number, entrySheet: EntryExportSheet) {
+  const csv = XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(entrySheet.rows(reportData.entries)))
+  const cleanProjectName = reportData.project.name.replace(/[^a-zA-Z0-9]/g, '_')
+
+  return new NextResponse(csv, {
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': `attachment; filename="${cleanProjectName}_${year}_entries.csv"`
+    }
   })
-}
\ No newline at end of file
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { ProjectArchiveManager } from '@/lib/project-archive'
 
 const getErrorMessage = (error: unknown): string => {
   if (error instanceof Error) return error.message
@@ -60,6 +61,7 @@ export async function GET(
       name: project.name,
       color: project.color,
       active: project.active,
+      archivedAt: project.archivedAt,
       code: project.code,
       totalBudget: safeDecimalToNumber(project.totalBudget),
       q1Budget: safeDecimalToNumber(project.q1Budget),
@@ -107,7 +109,7 @@ export async function PUT(
     if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
 
     const body = await req.json()
-    const { name, code, color, active } = body
+    const { name, code, color, active, billable, clientId } = body
 
     const updated = await prisma.project.update({
       where: { id: (await params).id },
@@ -115,7 +117,12 @@ export async function PUT(
         name,
         code,
         color,
-        active
+        active,
+        // Billing setup is reserved for admins
+        ...(session.user.role === 'ADMIN' ? {
+          billable: typeof billable === 'boolean' ? billable : undefined,
+          clientId: clientId === undefined ? undefined : clientId || null
+        } : {})
       }
     })
 
@@ -126,6 +133,7 @@ export async function PUT(
   }
 }
 
+// DELETE /api/projects/[id] - Moves the project to the trash; purging is a separate admin action
 export async function DELETE(
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }>}
@@ -134,13 +142,30 @@ export async function DELETE(
     const session = await getServerSession(NEXT_AUTH_CONFIG)
     if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
 
-    await prisma.project.delete({
-      where: { id: (await params).id }
-    })
+    const { id: projectId } = await params
+
+    const hasPermission = session.user.role === 'ADMIN' ||
+      await prisma.projectPermission.findFirst({
+        where: {
+          userId: session.user.id,
+          projectId,
+          permission: 'FULL_ACCESS'
+        }
+      })
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const result = await ProjectArchiveManager.archive(projectId, { id: session.user.id, email: session.user.email })
 
-    return NextResponse.json({ message: 'Project deleted' })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ message: 'Project moved to trash', project: result.project })
   } catch (err) {
-    console.error('Error deleting project:', getErrorMessage(err))
+    console.error('Error archiving project:', getErrorMessage(err))
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
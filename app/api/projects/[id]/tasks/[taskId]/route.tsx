@@ -0,0 +1,82 @@
+// app/api/projects/[id]/tasks/[taskId]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TaskManager } from '@/lib/tasks'
+import { z } from 'zod'
+
+const updateTaskSchema = z.object({
+  name: z.string().trim().min(1, 'Task name is required').max(100).optional(),
+  code: z.string().max(30).nullable().optional(),
+  estimateHours: z.number().min(0).max(100000).nullable().optional(),
+  active: z.boolean().optional(),
+  assigneeIds: z.array(z.string()).optional()
+})
+
+// PUT - Rename, re-estimate, (de)activate or reassign a task
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const session = await getServerSession(NEXT_AUTH_CONFIG)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, taskId } = await params
+    if (!(await TaskManager.canManage(session.user, projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const result = updateTaskSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const updated = await TaskManager.update(projectId, taskId, result.data, { id: session.user.id, email: session.user.email })
+
+    if (!updated.success) {
+      return NextResponse.json({ error: updated.error }, { status: updated.status })
+    }
+
+    return NextResponse.json(updated.task)
+  } catch (error) {
+    console.error('Failed to update task:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Remove a task that has no time booked against it
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  try {
+    const session = await getServerSession(NEXT_AUTH_CONFIG)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId, taskId } = await params
+    if (!(await TaskManager.canManage(session.user, projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const deleted = await TaskManager.delete(projectId, taskId, { id: session.user.id, email: session.user.email })
+
+    if (!deleted.success) {
+      return NextResponse.json({ error: deleted.error }, { status: deleted.status })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete task:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
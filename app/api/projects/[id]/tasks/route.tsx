@@ -0,0 +1,93 @@
+// app/api/projects/[id]/tasks/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { TaskManager } from '@/lib/tasks'
+import { z } from 'zod'
+
+const createTaskSchema = z.object({
+  name: z.string().trim().min(1, 'Task name is required').max(100),
+  code: z.string().max(30).nullable().optional(),
+  estimateHours: z.number().min(0).max(100000).nullable().optional(),
+  active: z.boolean().optional(),
+  assigneeIds: z.array(z.string()).optional()
+})
+
+// GET - Tasks of a project with logged hours, plus the users they can be assigned to
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(NEXT_AUTH_CONFIG)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, name: true }
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const canManage = await TaskManager.canManage(session.user, projectId)
+    const tasks = await TaskManager.listForProject(projectId)
+
+    const users = canManage
+      ? await prisma.user.findMany({
+          where: { active: true },
+          select: { id: true, name: true, email: true },
+          orderBy: { email: 'asc' }
+        })
+      : []
+
+    return NextResponse.json({ project, tasks, canManage, users })
+  } catch (error) {
+    console.error('Failed to fetch project tasks:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Add a task to a project
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(NEXT_AUTH_CONFIG)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id: projectId } = await params
+    if (!(await TaskManager.canManage(session.user, projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const result = createTaskSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const created = await TaskManager.create(projectId, result.data, { id: session.user.id, email: session.user.email })
+
+    if (!created.success) {
+      return NextResponse.json({ error: created.error }, { status: created.status })
+    }
+
+    return NextResponse.json(created.task, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create task:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
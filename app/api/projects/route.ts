@@ -53,6 +53,9 @@ export async function GET(request: NextRequest) {
     const includeBudget = searchParams.get('include') === 'budget' || searchParams.get('budget') === 'true'
     const detailed = searchParams.get('detailed') === 'true'
     const debug = searchParams.get('debug') === 'true'
+    // Archived projects are hidden from pickers; report filters ask for them explicitly
+    const includeArchived = searchParams.get('includeArchived') === 'true'
+    const projectWhere = includeArchived ? { active: true } : { active: true, archivedAt: null }
 
     console.log('Fetching projects with options:', { includeBudget, detailed, debug })
 
@@ -60,7 +63,7 @@ export async function GET(request: NextRequest) {
     if (detailed) {
       // Detailed query with all relations
       const detailedProjects = await prisma.project.findMany({
-        where: { active: true },
+        where: projectWhere,
         select: {
           id: true,
           name: true,
@@ -152,13 +155,19 @@ export async function GET(request: NextRequest) {
     // ✅ SOLUTION 2: Admin query with project users
     if (session.user?.role === 'ADMIN') {
       const adminProjects = await prisma.project.findMany({
-        where: { active: true },
+        where: projectWhere,
         select: {
           id: true,
           name: true,
           code: true,
           color: true,
           active: true,
+          archivedAt: true,
+          billable: true,
+          clientId: true,
+          client: {
+            select: { id: true, name: true }
+          },
           totalBudget: true,
           q1Budget: true,
           q2Budget: true,
@@ -192,6 +201,10 @@ export async function GET(request: NextRequest) {
         code: project.code,
         color: project.color,
         active: project.active,
+        archivedAt: project.archivedAt,
+        billable: project.billable,
+        clientId: project.clientId,
+        client: project.client,
         totalBudget: safeDecimalToNumber(project.totalBudget),
         q1Budget: safeDecimalToNumber(project.q1Budget),
         q2Budget: safeDecimalToNumber(project.q2Budget),
@@ -216,13 +229,15 @@ export async function GET(request: NextRequest) {
 
     // ✅ SOLUTION 3: Basic query for regular users
     const basicProjects = await prisma.project.findMany({
-      where: { active: true },
+      where: projectWhere,
       select: {
         id: true,
         name: true,
         code: true,
         color: true,
         active: true,
+        archivedAt: true,
+        billable: true,
         totalBudget: true,
         q1Budget: true,
         q2Budget: true,
@@ -243,6 +258,8 @@ export async function GET(request: NextRequest) {
       name: project.name,
       color: project.color,
       active: project.active,
+      archivedAt: project.archivedAt,
+      billable: project.billable,
       totalBudget: safeDecimalToNumber(project.totalBudget),
       q1Budget: safeDecimalToNumber(project.q1Budget),
       q2Budget: safeDecimalToNumber(project.q2Budget),
@@ -288,7 +305,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json()
-    const { name, code, color, active } = body
+    const { name, code, color, active, billable, clientId } = body
 
     // Basic validation
     if (!name) {
@@ -302,6 +319,11 @@ export async function POST(req: NextRequest) {
         code,
         color,
         active: active !== undefined ? active : true, // Default to true if not provided
+        // Billing setup is reserved for admins
+        ...(session.user.role === 'ADMIN' ? {
+          billable: billable === true,
+          clientId: clientId || null
+        } : {}),
         createdAt: new Date(),
         updatedAt: new Date()
       }
@@ -1,20 +1,14 @@
 // app/api/projects/summaries/route.ts
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { FiscalSettingsManager } from '@/lib/fiscal-settings'
+import { ProjectBudgetManager, QuarterlySpend } from '@/lib/project-budgets'
+import { getFiscalQuarter, getFiscalYear, getFiscalYearLabel } from '@/lib/fiscal-calendar'
 
-// Helper function to determine quarter based on custom fiscal year (Apr-Mar)
-function getFiscalQuarter(date: Date): 1 | 2 | 3 | 4 {
-  const month = date.getMonth() + 1 // 1-12
-  if (month >= 4 && month <= 6) return 1  // Q1: Apr-Jun
-  if (month >= 7 && month <= 9) return 2  // Q2: Jul-Sep
-  if (month >= 10 && month <= 12) return 3 // Q3: Oct-Dec
-  return 4 // Q4: Jan-Mar
-}
-
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(NEXT_AUTH_CONFIG)
     
@@ -22,7 +16,15 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    console.log('Fetching project summaries with historical rate calculations...')
+    const { searchParams } = new URL(request.url)
+    const startMonth = await FiscalSettingsManager.getStartMonth()
+    const fiscalYear = parseInt(searchParams.get('year') || getFiscalYear(new Date(), startMonth).toString())
+
+    if (isNaN(fiscalYear)) {
+      return NextResponse.json({ error: 'Invalid fiscal year' }, { status: 400 })
+    }
+
+    console.log(`Fetching project summaries for fiscal year ${fiscalYear} with historical rate calculations...`)
 
     // Get all projects with related data
     const projects = await prisma.project.findMany({
@@ -56,59 +58,53 @@ export async function GET() {
 
     // Process each project to calculate summaries with historical rates
     const projectSummaries = await Promise.all(projects.map(async (project) => {
-      // Initialize quarterly spending tracking
-      let q1Spent = 0
-      let q2Spent = 0
-      let q3Spent = 0
-      let q4Spent = 0
+      // Spend is recalculated for every fiscal year and stored per year
+      const spentByYear = new Map<number, QuarterlySpend>()
       let totalHours = 0
-      let totalSpentCalculated = 0
+      let entryCount = 0
       const uniqueEmployees = new Set<string>()
 
+      // Historical rates plus overtime premiums, the same as the stored spend
+      const costs = await EnhancedSpendingCalculator.costEntries(
+        project.timeEntries.filter(entry => entry.status === 'APPROVED')
+      )
+
       // Process all time entries with historical rates
       for (const entry of project.timeEntries) {
-        const hours = Number(entry.hours) || 0
         const entryDate = new Date(entry.date)
+        const entryFiscalYear = getFiscalYear(entryDate, startMonth)
+        if (entryFiscalYear === fiscalYear) entryCount++
+
+        // Only approved hours count towards budget spend
+        if (entry.status !== 'APPROVED') continue
+
+        const { hours, cost } = costs.get(entry.id)!
+        const quarter = getFiscalQuarter(entryDate, startMonth)
         
-        // Get historical rate for this specific entry
-        const historicalRate = await EnhancedSpendingCalculator.getEffectiveRateForDate(
-          entry.user.id,
-          entryDate
-        )
-        
-        const cost = hours * historicalRate
-        const quarter = getFiscalQuarter(entryDate)
+        // Add to that fiscal year's quarterly totals
+        const yearSpent = spentByYear.get(entryFiscalYear) ?? { q1Spent: 0, q2Spent: 0, q3Spent: 0, q4Spent: 0 }
+        yearSpent[`q${quarter}Spent`] += cost
+        spentByYear.set(entryFiscalYear, yearSpent)
         
-        // Add to quarterly totals
-        switch (quarter) {
-          case 1: q1Spent += cost; break
-          case 2: q2Spent += cost; break
-          case 3: q3Spent += cost; break
-          case 4: q4Spent += cost; break
+        if (entryFiscalYear === fiscalYear) {
+          totalHours += hours
+          uniqueEmployees.add(entry.userId)
         }
-        
-        totalHours += hours
-        totalSpentCalculated += cost
-        uniqueEmployees.add(entry.userId)
       }
 
       // Update the project's spending in the database with the recalculated values
       try {
-        await prisma.project.update({
-          where: { id: project.id },
-          data: {
-            q1Spent,
-            q2Spent,
-            q3Spent,
-            q4Spent
-          }
-        })
+        await ProjectBudgetManager.writeSpent(project.id, spentByYear, { startMonth })
       } catch (updateError) {
         console.warn(`Failed to update project ${project.id} spending:`, updateError)
       }
 
-      // Budget calculations
-      const totalBudget = Number(project.totalBudget)
+      const { q1Spent, q2Spent, q3Spent, q4Spent } = spentByYear.get(fiscalYear) ?? { q1Spent: 0, q2Spent: 0, q3Spent: 0, q4Spent: 0 }
+      const totalSpentCalculated = q1Spent + q2Spent + q3Spent + q4Spent
+
+      // Budget calculations for the selected fiscal year
+      const budget = await ProjectBudgetManager.getBudget(project.id, fiscalYear)
+      const totalBudget = budget.totalBudget
       const budgetUtilization = totalBudget > 0 ? (totalSpentCalculated / totalBudget) * 100 : 0
 
       // Get last activity date
@@ -120,11 +116,13 @@ export async function GET() {
         description: project.code,
         color: project.color,
         active: project.active,
+        archivedAt: project.archivedAt,
         totalBudget,
-        q1Budget: Number(project.q1Budget),
-        q2Budget: Number(project.q2Budget),
-        q3Budget: Number(project.q3Budget),
-        q4Budget: Number(project.q4Budget),
+        q1Budget: budget.q1Budget,
+        q2Budget: budget.q2Budget,
+        q3Budget: budget.q3Budget,
+        q4Budget: budget.q4Budget,
+        monthlyAllocations: budget.monthlyAllocations,
         q1Spent, // Use recalculated values
         q2Spent, // Use recalculated values
         q3Spent, // Use recalculated values
@@ -132,7 +130,7 @@ export async function GET() {
         totalSpent: totalSpentCalculated, // Use recalculated total
         totalHours,
         employeeCount: uniqueEmployees.size,
-        entryCount: project._count.timeEntries,
+        entryCount,
         budgetUtilization,
         lastActivity: lastActivity?.toISOString() || null
       }
@@ -150,7 +148,12 @@ export async function GET() {
 
     console.log(`Successfully processed ${projectSummaries.length} project summaries with historical rates`)
 
-    return NextResponse.json({ projects: projectSummaries })
+    return NextResponse.json({
+      projects: projectSummaries,
+      fiscalYear,
+      fiscalYearLabel: getFiscalYearLabel(fiscalYear, startMonth),
+      fiscalYearStartMonth: startMonth
+    })
   } catch (error) {
     console.error('Failed to fetch project summaries:', error)
     return NextResponse.json({ 
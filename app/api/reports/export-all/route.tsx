@@ -8,6 +8,7 @@ import { startOfDay, endOfDay, format } from 'date-fns'
 import * as XLSX from 'xlsx'
 import { Prisma } from '@prisma/client'
 import { Decimal } from '@prisma/client/runtime/library'
+import { EntryExportSheet, entryFieldsInclude } from '@/lib/entry-fields'
 
 
 
@@ -85,7 +86,8 @@ export async function GET(request: NextRequest) {
           select: {
             id: true,
             name: true,
-            color: true
+            color: true,
+            code: true
           }
         },
         user: {
@@ -94,7 +96,9 @@ export async function GET(request: NextRequest) {
             name: true,
             email: true
           }
-        }
+        },
+        task: { select: { name: true } },
+        ...entryFieldsInclude
       },
       orderBy: {
         date: 'asc'
@@ -103,6 +107,8 @@ export async function GET(request: NextRequest) {
 
     console.log(`Processing ${timeEntries.length} time entries for ${users.length} users`)
 
+    const costs = await EnhancedSpendingCalculator.costEntries(timeEntries)
+
     // Generate all 12 months for the year
     const months = [
       `${currentYear}-01`, `${currentYear}-02`, `${currentYear}-03`, `${currentYear}-04`,
@@ -140,15 +146,7 @@ export async function GET(request: NextRequest) {
       for (const entry of userEntries) {
         const entryDate = new Date(entry.date)
         const monthKey = format(entryDate, 'yyyy-MM')
-        const hours = parseFloat(entry.hours.toString())
-        
-        // Get historical rate for this specific entry date
-        const historicalRate = await EnhancedSpendingCalculator.getEffectiveRateForDate(
-          user.id,
-          entryDate
-        )
-        
-        const historicalSpending = hours * historicalRate
+        const { hours, cost: historicalSpending } = costs.get(entry.id)!
 
         // Project totals
         if (!projectsMap.has(entry.project.id)) {
@@ -317,6 +315,11 @@ export async function GET(request: NextRequest) {
       XLSX.utils.book_append_sheet(workbook, combinedSheet, uniqueSheetName.slice(0, 31))
     })
 
+    // Entries sheet, one row per entry with its tags and custom fields
+    const entrySheet = await EntryExportSheet.load()
+    const entriesSheet = XLSX.utils.aoa_to_sheet(entrySheet.rows(timeEntries))
+    XLSX.utils.book_append_sheet(workbook, entriesSheet, 'Entries')
+
     console.log('Excel workbook created, generating buffer...')
 
     // Export as Excel
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth' // Change this line
 import { prisma } from '@/lib/prisma' // Change this line
+import { EntryFieldManager, entryFieldsInclude } from '@/lib/entry-fields'
 import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, format } from 'date-fns'
 
 export async function GET(request: NextRequest) {
@@ -49,15 +50,24 @@ export async function GET(request: NextRequest) {
     const userFilter = userId ? { userId } : 
       (session.user.role === 'ADMIN' ? {} : { userId: session.user.id })
 
+    // Tag and custom field filters, e.g. ?tagIds=a,b&field.ticket=ABC-12
+    const fieldFilter = await EntryFieldManager.buildFilter(searchParams)
+    if (!fieldFilter.success) {
+      return NextResponse.json({ error: fieldFilter.error }, { status: fieldFilter.status })
+    }
+
     const timeEntries = await prisma.timeEntry.findMany({
       where: {
         ...dateFilter,
         ...userFilter,
+        ...fieldFilter.where,
         endTime: { not: null }
       },
       include: {
         project: true,
-        user: true
+        user: true,
+        task: { select: { id: true, name: true } },
+        ...entryFieldsInclude
       },
       orderBy: { startTime: 'desc' }
     })
@@ -83,6 +93,22 @@ export async function GET(request: NextRequest) {
       return acc
     }, {} as Record<string, { name: string; color: string; hours: number }>)
 
+    // Tag breakdown; an entry with several tags counts towards each of them
+    const tagBreakdown = timeEntries.reduce((acc, entry) => {
+      if (entry.endTime) {
+        const hours = (entry.endTime.getTime() - entry.startTime.getTime()) / (1000 * 60 * 60)
+        entry.tags.forEach(({ tag }) => {
+          acc[tag.id] = {
+            id: tag.id,
+            name: tag.name,
+            color: tag.color,
+            hours: (acc[tag.id]?.hours || 0) + hours
+          }
+        })
+      }
+      return acc
+    }, {} as Record<string, { id: string; name: string; color: string; hours: number }>)
+
     // Daily breakdown
     const dailyBreakdown = timeEntries.reduce((acc, entry) => {
       if (entry.endTime) {
@@ -96,6 +122,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       totalHours,
       projectBreakdown: Object.values(projectBreakdown),
+      tagBreakdown: Object.values(tagBreakdown),
       dailyBreakdown: Object.entries(dailyBreakdown).map(([date, hours]) => ({
         date,
         hours
@@ -107,7 +134,10 @@ export async function GET(request: NextRequest) {
         duration: entry.endTime ? (entry.endTime.getTime() - entry.startTime.getTime()) / (1000 * 60 * 60) : 0,
         project: entry.project,
         user: entry.user,
-        description: entry.description
+        task: entry.task,
+        description: entry.description,
+        tags: entry.tags.map(({ tag }) => tag),
+        customFields: Object.fromEntries(entry.fieldValues.map(({ fieldId, value }) => [fieldId, value]))
       }))
     })
   } catch (error) {
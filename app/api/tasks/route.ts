@@ -0,0 +1,25 @@
+// app/api/tasks/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TaskManager } from '@/lib/tasks'
+
+// GET - Active tasks the current user can book time against, optionally for one project
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(NEXT_AUTH_CONFIG)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('projectId') || undefined
+
+    const tasks = await TaskManager.listSelectable(session.user, projectId)
+
+    return NextResponse.json(tasks)
+  } catch (error) {
+    console.error('Failed to fetch tasks:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,13 +2,239 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/app/generated/prisma'
+import { z } from 'zod'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods'
+import { TimesheetApprovalManager } from '@/lib/timesheet-approvals'
+import { AuditLogger, timeEntrySnapshot } from '@/lib/audit-log'
+import { TaskManager } from '@/lib/tasks'
+import { EntryFieldManager, entryFieldsInclude } from '@/lib/entry-fields'
+import { EntryValidationResult, EntryValidator } from '@/lib/entry-validation'
+import { ProjectArchiveManager } from '@/lib/project-archive'
+
+const dateTimeString = (message: string) => z.string().refine(value => !isNaN(new Date(value).getTime()), message)
+
+const updateTimeEntrySchema = z.object({
+  projectId: z.string().min(1).optional(),
+  taskId: z.string().min(1).nullable().optional(),
+  description: z.string().nullable().optional(),
+  startTime: dateTimeString('Start time must be a valid date').optional(),
+  endTime: dateTimeString('End time must be a valid date').nullable().optional(),
+  billable: z.boolean().optional(),
+  tagIds: z.array(z.string().min(1)).optional(),
+  customFields: z.record(z.string(), z.union([z.string(), z.number(), z.null()])).optional(),
+  overrideReason: z.string().max(500).optional()
+})
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+
+    const body = await request.json()
+    const result = updateTimeEntrySchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const timeEntry = await prisma.timeEntry.findUnique({
+      where: { id },
+      include: entryFieldsInclude
+    })
+
+    if (!timeEntry) {
+      return NextResponse.json({ error: 'Time entry not found' }, { status: 404 })
+    }
+
+    if (timeEntry.userId !== session.user.id && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Invoiced entries have been billed to a client and must stay as they were
+    if (timeEntry.invoiceId) {
+      return NextResponse.json({ error: 'This entry has been invoiced and can no longer be changed' }, { status: 409 })
+    }
+
+    // Submitted and approved entries are frozen for their owner until a reviewer rejects them
+    if (session.user.role !== 'ADMIN' && !TimesheetApprovalManager.isEditableByOwner(timeEntry.status)) {
+      return NextResponse.json({
+        error: `This entry is ${timeEntry.status.toLowerCase()} and can no longer be changed`
+      }, { status: 409 })
+    }
+
+    const { projectId, taskId, description, startTime, endTime, billable, tagIds, customFields, overrideReason } = result.data
+    const startDateTime = startTime ? new Date(startTime) : null
+
+    // Both the current and the new period must be writable
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess(
+      [timeEntry.date, startDateTime],
+      session.user.role
+    )
+
+    if (!periodAccess.allowed) {
+      return NextResponse.json({ error: periodAccess.error, period: periodAccess.period }, { status: 403 })
+    }
+
+    if (projectId && projectId !== timeEntry.projectId) {
+      if (session.user.role !== 'ADMIN') {
+        const projectAccess = await prisma.projectUser.findFirst({
+          where: { userId: session.user.id, projectId }
+        })
+
+        if (!projectAccess) {
+          return NextResponse.json({ error: 'No access to this project' }, { status: 403 })
+        }
+      }
+
+      const projectWritable = await ProjectArchiveManager.checkWritable(projectId)
+      if (!projectWritable.success) {
+        return NextResponse.json({ error: projectWritable.error }, { status: projectWritable.status })
+      }
+    }
+
+    const updateData: Prisma.TimeEntryUncheckedUpdateInput = {}
+
+    if (projectId !== undefined) updateData.projectId = projectId
+
+    // An entry keeps its current task even after the task is deactivated
+    if (taskId && (taskId !== timeEntry.taskId || (projectId && projectId !== timeEntry.projectId))) {
+      const taskCheck = await TaskManager.checkSelectable(projectId ?? timeEntry.projectId, taskId, timeEntry.userId, session.user.role)
+      if (!taskCheck.success) {
+        return NextResponse.json({ error: taskCheck.error }, { status: taskCheck.status })
+      }
+      updateData.taskId = taskId
+    } else if (taskId === null || (projectId !== undefined && projectId !== timeEntry.projectId)) {
+      // A task belongs to one project, so moving the entry drops it
+      updateData.taskId = null
+    }
+
+    const entryFields = await EntryFieldManager.resolve(
+      projectId ?? timeEntry.projectId,
+      { tagIds, customFields },
+      EntryFieldManager.existingFrom(timeEntry)
+    )
+    if (!entryFields.success) {
+      return NextResponse.json({ error: entryFields.error, details: entryFields.details }, { status: entryFields.status })
+    }
+    Object.assign(updateData, EntryFieldManager.updateData(id, entryFields.changes))
+
+    if (description !== undefined) updateData.description = description || null
+    if (billable !== undefined) updateData.billable = billable
+
+    // A corrected rejected entry goes back to draft so it can be resubmitted
+    if (timeEntry.status === 'REJECTED' && session.user.role !== 'ADMIN') {
+      updateData.status = 'DRAFT'
+    }
+
+    let validation: EntryValidationResult | null = null
+    if (startDateTime || endTime !== undefined) {
+      // A time left out of the body keeps its stored value, so stopping an entry only needs endTime
+      const newStartTime = startDateTime ?? timeEntry.startTime
+      const endDateTime = endTime === undefined ? timeEntry.endTime : endTime ? new Date(endTime) : null
+
+      // Overlaps, durations and the daily maximum; admins may save anyway with a reason
+      validation = await EntryValidator.validate(
+        { userId: timeEntry.userId, startTime: newStartTime, endTime: endDateTime, excludeEntryId: id },
+        { role: session.user.role, reason: overrideReason }
+      )
+      if (!validation.success) {
+        return NextResponse.json({
+          error: validation.error,
+          details: validation.details,
+          issues: validation.issues,
+          overridable: validation.overridable
+        }, { status: validation.status })
+      }
+
+      // Only one running timer per user
+      if (!endDateTime) {
+        const runningTimer = await prisma.timeEntry.findFirst({
+          where: { userId: timeEntry.userId, endTime: null, id: { not: id } },
+          select: { id: true }
+        })
+
+        if (runningTimer) {
+          return NextResponse.json({ error: 'Another timer is already running' }, { status: 409 })
+        }
+      }
+
+      const duration = endDateTime
+        ? Math.round((endDateTime.getTime() - newStartTime.getTime()) / (1000 * 60))
+        : 0
+
+      updateData.startTime = newStartTime
+      updateData.endTime = endDateTime
+      updateData.duration = duration
+      updateData.hours = duration / 60
+      updateData.date = new Date(newStartTime.getFullYear(), newStartTime.getMonth(), newStartTime.getDate())
+    }
+
+    const updatedEntry = await prisma.timeEntry.update({
+      where: { id },
+      data: updateData,
+      include: {
+        project: {
+          select: {
+            id: true,
+            name: true,
+            color: true
+          }
+        },
+        task: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        ...entryFieldsInclude
+      }
+    })
+
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'TIME_ENTRY',
+      entityId: id,
+      before: timeEntrySnapshot(timeEntry),
+      after: timeEntrySnapshot(updatedEntry),
+      metadata: validation ? EntryValidator.overrideMetadata(validation) : undefined
+    })
+
+    const projectsToUpdate = new Set([timeEntry.projectId, updatedEntry.projectId])
+    for (const pId of projectsToUpdate) {
+      try {
+        await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(pId)
+      } catch (spendingError) {
+        console.error(`Failed to update spending for project ${pId}:`, spendingError)
+      }
+    }
+
+    return NextResponse.json(updatedEntry)
+  } catch (error) {
+    console.error('Error updating time entry:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const session = await getServerSession(NEXT_AUTH_CONFIG)
-  
+
   if (!session) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
@@ -16,7 +242,7 @@ export async function DELETE(
   try {
     // Await params before using its properties
     const { id } = await params
-    
+
     const timeEntry = await prisma.timeEntry.findUnique({
       where: { id }
     })
@@ -29,14 +255,40 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Invoiced entries have been billed to a client and must stay as they were
+    if (timeEntry.invoiceId) {
+      return NextResponse.json({ error: 'This entry has been invoiced and can no longer be changed' }, { status: 409 })
+    }
+
+    // Submitted and approved entries are frozen for their owner until a reviewer rejects them
+    if (session.user.role !== 'ADMIN' && !TimesheetApprovalManager.isEditableByOwner(timeEntry.status)) {
+      return NextResponse.json({
+        error: `This entry is ${timeEntry.status.toLowerCase()} and can no longer be changed`
+      }, { status: 409 })
+    }
+
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess([timeEntry.date], session.user.role)
+
+    if (!periodAccess.allowed) {
+      return NextResponse.json({ error: periodAccess.error, period: periodAccess.period }, { status: 403 })
+    }
+
     // Delete the time entry
     await prisma.timeEntry.delete({
       where: { id }
     })
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'DELETE',
+      entityType: 'TIME_ENTRY',
+      entityId: id,
+      before: timeEntrySnapshot(timeEntry)
+    })
+
     return NextResponse.json({ message: 'Time entry deleted successfully' })
   } catch (error) {
     console.error('Error deleting time entry:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -2,6 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { NEXT_AUTH_CONFIG } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods'
+import { AuditLogger, timeEntrySnapshot } from '@/lib/audit-log'
+import { TaskManager } from '@/lib/tasks'
+import { EntryFieldManager, entryFieldsInclude } from '@/lib/entry-fields'
+import { EntryValidator } from '@/lib/entry-validation'
+import { ProjectArchiveManager } from '@/lib/project-archive'
 
 export async function POST(request: NextRequest) {
   const session = await getServerSession(NEXT_AUTH_CONFIG)
@@ -15,11 +21,24 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { projectId, description, startTime, endTime } = await request.json()
+    const { projectId, taskId, description, startTime, endTime, billable, tagIds, customFields, overrideReason } = await request.json()
 
     const startDateTime = new Date(startTime)
     const endDateTime = new Date(endTime)
 
+    const validation = await EntryValidator.validate(
+      { userId: session.user.id, startTime: startDateTime, endTime: endDateTime },
+      { role: session.user.role, reason: overrideReason }
+    )
+    if (!validation.success) {
+      return NextResponse.json({
+        error: validation.error,
+        details: validation.details,
+        issues: validation.issues,
+        overridable: validation.overridable
+      }, { status: validation.status })
+    }
+
     // Calculate duration from startTime and endTime (in minutes)
     const duration = Math.round((endDateTime.getTime() - startDateTime.getTime()) / (1000 * 60))
     
@@ -28,18 +47,60 @@ export async function POST(request: NextRequest) {
 
     // Extract date from startTime (normalized to start of day)
     const date = new Date(startDateTime.getFullYear(), startDateTime.getMonth(), startDateTime.getDate())
-    
+
+    // Reject writes into locked or closed timesheet periods
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess([date], session.user.role)
+
+    if (!periodAccess.allowed) {
+      return NextResponse.json({ error: periodAccess.error, period: periodAccess.period }, { status: 403 })
+    }
+
+    if (!projectId) {
+      return NextResponse.json({ error: 'Project is required' }, { status: 400 })
+    }
+
+    // Check if user has access to this project
+    const projectAccess = await prisma.projectUser.findFirst({
+      where: {
+        userId: session.user.id,
+        projectId
+      }
+    })
+
+    if (!projectAccess && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'No access to this project' }, { status: 403 })
+    }
+
+    const projectWritable = await ProjectArchiveManager.checkWritable(projectId)
+    if (!projectWritable.success) {
+      return NextResponse.json({ error: projectWritable.error }, { status: projectWritable.status })
+    }
+
+    if (taskId) {
+      const taskCheck = await TaskManager.checkSelectable(projectId, taskId, session.user.id, session.user.role)
+      if (!taskCheck.success) {
+        return NextResponse.json({ error: taskCheck.error }, { status: taskCheck.status })
+      }
+    }
+
+    const entryFields = await EntryFieldManager.resolve(projectId, { tagIds, customFields })
+    if (!entryFields.success) {
+      return NextResponse.json({ error: entryFields.error, details: entryFields.details }, { status: entryFields.status })
+    }
 
     const timeEntry = await prisma.timeEntry.create({
       data: {
         userId: session.user.id,
         projectId,
+        taskId: taskId || null,
         description: description || null,
         startTime: startDateTime,
         endTime: endDateTime,
         duration,
         hours, // Prisma will convert to Decimal automatically
-        date // Add the missing date field
+        date, // Add the missing date field
+        billable: typeof billable === 'boolean' ? billable : true,
+        ...EntryFieldManager.createData(entryFields.changes)
       },
       include: {
         project: {
@@ -48,10 +109,26 @@ export async function POST(request: NextRequest) {
             name: true,
             color: true
           }
-        }
+        },
+        task: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        ...entryFieldsInclude
       }
     })
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'CREATE',
+      entityType: 'TIME_ENTRY',
+      entityId: timeEntry.id,
+      after: timeEntrySnapshot(timeEntry),
+      metadata: EntryValidator.overrideMetadata(validation)
+    })
+
     return NextResponse.json(timeEntry)
   } catch (error) {
     console.error('Error creating manual time entry:', error)
@@ -6,21 +6,38 @@ import { prisma } from '@/lib/prisma'
 import { SpendingCalculator } from '@/lib/spending-calculator'
 import { z } from 'zod'
 import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods'
+import { TimesheetApprovalManager } from '@/lib/timesheet-approvals'
+import { AuditLogger, timeEntrySnapshot } from '@/lib/audit-log'
+import { ProjectArchiveManager } from '@/lib/project-archive'
+import { TaskManager } from '@/lib/tasks'
+import { EntryFieldManager, entryFieldsInclude } from '@/lib/entry-fields'
+import { EntryValidationResult, EntryValidator } from '@/lib/entry-validation'
 
 const createTimeEntrySchema = z.object({
   projectId: z.string().min(1),
+  taskId: z.string().min(1).nullable().optional(),
   description: z.string().optional(),
   startTime: z.string(),
   endTime: z.string(),
-  date: z.string()
+  date: z.string(),
+  billable: z.boolean().optional(),
+  tagIds: z.array(z.string().min(1)).optional(),
+  customFields: z.record(z.string(), z.union([z.string(), z.number(), z.null()])).optional(),
+  overrideReason: z.string().max(500).optional() // admins only, to save despite overlap or daily maximum warnings
 })
 
 const updateTimeEntrySchema = z.object({
   projectId: z.string().min(1).optional(),
+  taskId: z.string().min(1).nullable().optional(),
   description: z.string().optional(),
   startTime: z.string().optional(),
   endTime: z.string().optional(),
-  date: z.string().optional()
+  date: z.string().optional(),
+  billable: z.boolean().optional(),
+  tagIds: z.array(z.string().min(1)).optional(),
+  customFields: z.record(z.string(), z.union([z.string(), z.number(), z.null()])).optional(),
+  overrideReason: z.string().max(500).optional()
 })
 
 // Helper function to calculate duration in minutes
@@ -72,7 +89,14 @@ export async function GET(request: NextRequest) {
             name: true,
             color: true
           }
-        }
+        },
+        task: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        ...entryFieldsInclude
       },
       orderBy: {
         date: 'desc'
@@ -104,7 +128,7 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    const { projectId, description, startTime, endTime, date } = result.data
+    const { projectId, taskId, description, startTime, endTime, date, billable, tagIds, customFields, overrideReason } = result.data
 
     // Check if user has access to this project
     const projectAccess = await prisma.projectUser.findFirst({
@@ -118,6 +142,46 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No access to this project' }, { status: 403 })
     }
 
+    const projectWritable = await ProjectArchiveManager.checkWritable(projectId)
+    if (!projectWritable.success) {
+      return NextResponse.json({ error: projectWritable.error }, { status: projectWritable.status })
+    }
+
+    if (taskId) {
+      const taskCheck = await TaskManager.checkSelectable(projectId, taskId, session.user.id, session.user.role)
+      if (!taskCheck.success) {
+        return NextResponse.json({ error: taskCheck.error }, { status: taskCheck.status })
+      }
+    }
+
+    const entryFields = await EntryFieldManager.resolve(projectId, { tagIds, customFields })
+    if (!entryFields.success) {
+      return NextResponse.json({ error: entryFields.error, details: entryFields.details }, { status: entryFields.status })
+    }
+
+    // Reject writes into locked or closed timesheet periods
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess(
+      [new Date(date), new Date(startTime)],
+      session.user.role
+    )
+
+    if (!periodAccess.allowed) {
+      return NextResponse.json({ error: periodAccess.error, period: periodAccess.period }, { status: 403 })
+    }
+
+    const validation = await EntryValidator.validate(
+      { userId: session.user.id, startTime: new Date(startTime), endTime: new Date(endTime) },
+      { role: session.user.role, reason: overrideReason }
+    )
+    if (!validation.success) {
+      return NextResponse.json({
+        error: validation.error,
+        details: validation.details,
+        issues: validation.issues,
+        overridable: validation.overridable
+      }, { status: validation.status })
+    }
+
     // Calculate duration and hours
     const duration = calculateDuration(startTime, endTime);
     const hours = calculateHours(duration);
@@ -127,12 +191,15 @@ export async function POST(request: NextRequest) {
       data: {
         userId: session.user.id,
         projectId,
+        taskId: taskId ?? null,
         description,
         startTime: new Date(startTime),
         endTime: new Date(endTime),
         duration,
         hours,
-        date: new Date(date)
+        date: new Date(date),
+        billable: billable ?? true,
+        ...EntryFieldManager.createData(entryFields.changes)
       },
       include: {
         project: {
@@ -141,10 +208,26 @@ export async function POST(request: NextRequest) {
             name: true,
             color: true
           }
-        }
+        },
+        task: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        ...entryFieldsInclude
       }
     })
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'CREATE',
+      entityType: 'TIME_ENTRY',
+      entityId: timeEntry.id,
+      after: timeEntrySnapshot(timeEntry),
+      metadata: EntryValidator.overrideMetadata(validation)
+    })
+
     // Automatically update project spending
     try {
       await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(projectId)
@@ -190,10 +273,19 @@ export async function PUT(request: NextRequest) {
     const existingEntry = await prisma.timeEntry.findUnique({
       where: { id: entryId },
       select: {
+        id: true,
         userId: true,
         projectId: true,
+        taskId: true,
+        description: true,
         startTime: true,
-        endTime: true
+        endTime: true,
+        duration: true,
+        hours: true,
+        date: true,
+        status: true,
+        invoiceId: true,
+        ...entryFieldsInclude
       }
     })
 
@@ -206,8 +298,34 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
+    // Invoiced entries have been billed to a client and must stay as they were
+    if (existingEntry.invoiceId) {
+      return NextResponse.json({ error: 'This entry has been invoiced and can no longer be changed' }, { status: 409 })
+    }
+
+    // Submitted and approved entries are frozen for their owner until a reviewer rejects them
+    if (session.user.role !== 'ADMIN' && !TimesheetApprovalManager.isEditableByOwner(existingEntry.status)) {
+      return NextResponse.json({
+        error: `This entry is ${existingEntry.status.toLowerCase()} and can no longer be changed`
+      }, { status: 409 })
+    }
+
     const updateData: any = {}
-    const { projectId, description, startTime, endTime, date } = result.data
+    const { projectId, taskId, description, startTime, endTime, date, billable, tagIds, customFields, overrideReason } = result.data
+
+    // Both the current and the new period must be writable
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess(
+      [
+        existingEntry.date,
+        date !== undefined ? new Date(date) : null,
+        startTime !== undefined ? new Date(startTime) : null
+      ],
+      session.user.role
+    )
+
+    if (!periodAccess.allowed) {
+      return NextResponse.json({ error: periodAccess.error, period: periodAccess.period }, { status: 403 })
+    }
 
     if (projectId !== undefined) {
       // Check access to new project if changing
@@ -222,13 +340,49 @@ export async function PUT(request: NextRequest) {
         return NextResponse.json({ error: 'No access to this project' }, { status: 403 })
       }
 
+      if (projectId !== existingEntry.projectId) {
+        const projectWritable = await ProjectArchiveManager.checkWritable(projectId)
+        if (!projectWritable.success) {
+          return NextResponse.json({ error: projectWritable.error }, { status: projectWritable.status })
+        }
+      }
+
       updateData.projectId = projectId
     }
 
+    // An entry keeps its current task even after the task is deactivated
+    if (taskId && (taskId !== existingEntry.taskId || (projectId && projectId !== existingEntry.projectId))) {
+      const taskCheck = await TaskManager.checkSelectable(projectId ?? existingEntry.projectId, taskId, existingEntry.userId, session.user.role)
+      if (!taskCheck.success) {
+        return NextResponse.json({ error: taskCheck.error }, { status: taskCheck.status })
+      }
+      updateData.taskId = taskId
+    } else if (taskId === null || (projectId !== undefined && projectId !== existingEntry.projectId)) {
+      // A task belongs to one project, so moving the entry drops it
+      updateData.taskId = null
+    }
+
+    const entryFields = await EntryFieldManager.resolve(
+      projectId ?? existingEntry.projectId,
+      { tagIds, customFields },
+      EntryFieldManager.existingFrom(existingEntry)
+    )
+    if (!entryFields.success) {
+      return NextResponse.json({ error: entryFields.error, details: entryFields.details }, { status: entryFields.status })
+    }
+    Object.assign(updateData, EntryFieldManager.updateData(entryId, entryFields.changes))
+
     if (description !== undefined) updateData.description = description
     if (date !== undefined) updateData.date = new Date(date)
+    if (billable !== undefined) updateData.billable = billable
+
+    // A corrected rejected entry goes back to draft so it can be resubmitted
+    if (existingEntry.status === 'REJECTED' && session.user.role !== 'ADMIN') {
+      updateData.status = 'DRAFT'
+    }
     
     // Handle time updates
+    let validation: EntryValidationResult | null = null
     if (startTime !== undefined || endTime !== undefined) {
       // Ensure both startTime and endTime are provided for calculation
       if (!startTime || !endTime) {
@@ -239,6 +393,19 @@ export async function PUT(request: NextRequest) {
       
       const newStartTime = new Date(startTime)
       const newEndTime = new Date(endTime)
+
+      validation = await EntryValidator.validate(
+        { userId: existingEntry.userId, startTime: newStartTime, endTime: newEndTime, excludeEntryId: entryId },
+        { role: session.user.role, reason: overrideReason }
+      )
+      if (!validation.success) {
+        return NextResponse.json({
+          error: validation.error,
+          details: validation.details,
+          issues: validation.issues,
+          overridable: validation.overridable
+        }, { status: validation.status })
+      }
       
       updateData.startTime = newStartTime
       updateData.endTime = newEndTime
@@ -262,10 +429,27 @@ export async function PUT(request: NextRequest) {
             name: true,
             color: true
           }
-        }
+        },
+        task: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        ...entryFieldsInclude
       }
     })
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'UPDATE',
+      entityType: 'TIME_ENTRY',
+      entityId: entryId,
+      before: timeEntrySnapshot(existingEntry),
+      after: timeEntrySnapshot(updatedEntry),
+      metadata: validation ? EntryValidator.overrideMetadata(validation) : undefined
+    })
+
     // Update spending for affected projects
     const projectsToUpdate = new Set([existingEntry.projectId])
     if (projectId && projectId !== existingEntry.projectId) {
@@ -307,8 +491,19 @@ export async function DELETE(request: NextRequest) {
     const existingEntry = await prisma.timeEntry.findUnique({
       where: { id: entryId },
       select: {
+        id: true,
         userId: true,
-        projectId: true
+        projectId: true,
+        taskId: true,
+        description: true,
+        startTime: true,
+        endTime: true,
+        duration: true,
+        hours: true,
+        date: true,
+        status: true,
+        invoiceId: true,
+        ...entryFieldsInclude
       }
     })
 
@@ -321,11 +516,37 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
+    // Invoiced entries have been billed to a client and must stay as they were
+    if (existingEntry.invoiceId) {
+      return NextResponse.json({ error: 'This entry has been invoiced and can no longer be changed' }, { status: 409 })
+    }
+
+    // Submitted and approved entries are frozen for their owner until a reviewer rejects them
+    if (session.user.role !== 'ADMIN' && !TimesheetApprovalManager.isEditableByOwner(existingEntry.status)) {
+      return NextResponse.json({
+        error: `This entry is ${existingEntry.status.toLowerCase()} and can no longer be changed`
+      }, { status: 409 })
+    }
+
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess([existingEntry.date], session.user.role)
+
+    if (!periodAccess.allowed) {
+      return NextResponse.json({ error: periodAccess.error, period: periodAccess.period }, { status: 403 })
+    }
+
     // Delete the time entry
     await prisma.timeEntry.delete({
       where: { id: entryId }
     })
 
+    await AuditLogger.record({
+      actor: { id: session.user.id, email: session.user.email },
+      action: 'DELETE',
+      entityType: 'TIME_ENTRY',
+      entityId: entryId,
+      before: timeEntrySnapshot(existingEntry)
+    })
+
     // Update project spending
     try {
       await SpendingCalculator.updateProjectSpending(existingEntry.projectId)
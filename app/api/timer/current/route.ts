@@ -0,0 +1,28 @@
+// app/api/timer/current/route.ts
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimerManager } from '@/lib/timer'
+import { NotificationManager } from '@/lib/notifications'
+
+// GET - The running timer plus unread auto-stop notices, so any device can resume the display
+export async function GET() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const timer = await TimerManager.getCurrent(session.user.id)
+    const notifications = await NotificationManager.getForUser(session.user.id, {
+      unreadOnly: true,
+      type: 'TIMER_AUTO_STOPPED'
+    })
+
+    return NextResponse.json({ timer, notifications, serverTime: new Date() })
+  } catch (error) {
+    console.error('Failed to fetch current timer:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
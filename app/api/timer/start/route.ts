@@ -0,0 +1,51 @@
+// app/api/timer/start/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimerManager } from '@/lib/timer'
+import { z } from 'zod'
+
+const startTimerSchema = z.object({
+  projectId: z.string().min(1),
+  taskId: z.string().min(1).nullable().optional(),
+  description: z.string().optional()
+})
+
+// POST - Start a timer; fails with 409 when one is already running
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = startTimerSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { projectId, taskId, description } = result.data
+    const started = await TimerManager.start(session.user, projectId, description, taskId)
+
+    if (!started.success) {
+      return NextResponse.json({
+        error: started.error,
+        period: started.period,
+        timer: started.timer
+      }, { status: started.status })
+    }
+
+    console.log(`User ${session.user.email} started timer ${started.timer.id} on project ${projectId}`)
+
+    return NextResponse.json({ timer: started.timer }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to start timer:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+// app/api/timer/stop/route.ts
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimerManager } from '@/lib/timer'
+
+// POST - Stop the running timer
+export async function POST() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const stopped = await TimerManager.stop(session.user)
+
+    if (!stopped.success) {
+      return NextResponse.json({
+        error: stopped.error,
+        period: stopped.period
+      }, { status: stopped.status })
+    }
+
+    console.log(`User ${session.user.email} stopped timer ${stopped.timer.id}`)
+
+    return NextResponse.json({ timer: stopped.timer })
+  } catch (error) {
+    console.error('Failed to stop timer:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/timer/switch/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimerManager } from '@/lib/timer'
+import { z } from 'zod'
+
+const switchTimerSchema = z.object({
+  projectId: z.string().min(1),
+  taskId: z.string().min(1).nullable().optional(),
+  description: z.string().optional()
+})
+
+// POST - Stop the running timer (if any) and start a new one
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = switchTimerSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { projectId, taskId, description } = result.data
+    const switched = await TimerManager.switch(session.user, projectId, description, taskId)
+
+    if (!switched.success) {
+      return NextResponse.json({
+        error: switched.error,
+        period: switched.period
+      }, { status: switched.status })
+    }
+
+    console.log(`User ${session.user.email} switched timer to project ${projectId}`)
+
+    return NextResponse.json({ timer: switched.timer, stopped: switched.stopped ?? null }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to switch timer:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/timesheet-periods/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods'
+
+// GET - Effective period statuses for a year, used by the calendar to flag locked days
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const year = parseInt(searchParams.get('year') || new Date().getFullYear().toString())
+
+    if (isNaN(year)) {
+      return NextResponse.json({ error: 'Invalid year' }, { status: 400 })
+    }
+
+    const periods = await TimesheetPeriodManager.getPeriodsForYear(year)
+
+    return NextResponse.json({ year, periods })
+  } catch (error) {
+    console.error('Error fetching timesheet periods:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+// app/api/timesheets/approvals/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimesheetApprovalManager } from '@/lib/timesheet-approvals'
+import { z } from 'zod'
+
+const reviewSchema = z.object({
+  action: z.enum(['approve', 'reject']),
+  comment: z.string().optional()
+}).refine(data => data.action !== 'reject' || (data.comment && data.comment.trim().length > 0), {
+  message: 'A comment is required when rejecting a timesheet',
+  path: ['comment']
+})
+
+// POST - Approve or reject a submitted week
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { id } = await params
+
+    const body = await request.json()
+    const result = reviewSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const { action, comment } = result.data
+
+    try {
+      const submission = await TimesheetApprovalManager.reviewSubmission(
+        id,
+        { id: session.user.id, role: session.user.role },
+        action,
+        comment
+      )
+      return NextResponse.json({ success: true, submission })
+    } catch (reviewError) {
+      const message = reviewError instanceof Error ? reviewError.message : 'Failed to review submission'
+      const status = message === 'Submission not found' ? 404 : 403
+      return NextResponse.json({ error: message }, { status })
+    }
+  } catch (error) {
+    console.error('Error reviewing timesheet submission:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
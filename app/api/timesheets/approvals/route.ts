@@ -0,0 +1,49 @@
+// app/api/timesheets/approvals/route.ts
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimesheetApprovalManager } from '@/lib/timesheet-approvals'
+
+// GET - Submitted weeks waiting on the current user's review
+export async function GET() {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const reviewer = { id: session.user.id, role: session.user.role }
+    const reviewableProjectIds = await TimesheetApprovalManager.getReviewableProjectIds(reviewer)
+
+    if (reviewableProjectIds && reviewableProjectIds.length === 0) {
+      return NextResponse.json({ error: 'You are not an approver on any project' }, { status: 403 })
+    }
+
+    const submissions = await TimesheetApprovalManager.getPendingSubmissions(reviewer)
+
+    return NextResponse.json(submissions.map(submission => ({
+      id: submission.id,
+      weekStart: submission.weekStart,
+      weekEnd: submission.weekEnd,
+      status: submission.status,
+      submittedAt: submission.submittedAt,
+      user: submission.user,
+      totalHours: submission.entries.reduce((sum, entry) => sum + Number(entry.hours), 0),
+      entries: submission.entries.map(entry => ({
+        id: entry.id,
+        description: entry.description,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        duration: entry.duration,
+        hours: Number(entry.hours),
+        date: entry.date,
+        status: entry.status,
+        project: entry.project
+      }))
+    })))
+  } catch (error) {
+    console.error('Error fetching pending approvals:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
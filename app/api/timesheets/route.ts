@@ -0,0 +1,74 @@
+// app/api/timesheets/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimesheetApprovalManager } from '@/lib/timesheet-approvals'
+import { z } from 'zod'
+
+const submitWeekSchema = z.object({
+  weekStart: z.string().min(1, 'Week start is required')
+})
+
+// GET - Submission status of the current user's week containing ?date
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const date = new Date(searchParams.get('date') || new Date().toISOString())
+
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    const submission = await TimesheetApprovalManager.getSubmissionForWeek(session.user.id, date)
+
+    return NextResponse.json({ submission })
+  } catch (error) {
+    console.error('Error fetching timesheet submission:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Submit a week for approval
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = submitWeekSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const weekStart = new Date(result.data.weekStart)
+
+    if (isNaN(weekStart.getTime())) {
+      return NextResponse.json({ error: 'Invalid week start' }, { status: 400 })
+    }
+
+    try {
+      const submission = await TimesheetApprovalManager.submitWeek(session.user.id, weekStart)
+      return NextResponse.json({ success: true, submission }, { status: 201 })
+    } catch (submitError) {
+      return NextResponse.json({
+        error: submitError instanceof Error ? submitError.message : 'Failed to submit week'
+      }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('Error submitting timesheet:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
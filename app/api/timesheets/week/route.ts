@@ -0,0 +1,91 @@
+// app/api/timesheets/week/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { NEXT_AUTH_CONFIG } from '@/lib/auth'
+import { TimesheetGrid } from '@/lib/timesheet-grid'
+import { z } from 'zod'
+
+const saveWeekSchema = z.object({
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Week start must be yyyy-MM-dd'),
+  cells: z.array(z.object({
+    projectId: z.string().min(1),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be yyyy-MM-dd'),
+    hours: z.number().min(0, 'Hours cannot be negative').max(24, 'A day has at most 24 hours')
+  })).max(500),
+  overrideReason: z.string().max(500).optional()
+})
+
+// GET - The current user's week containing ?date as a project × weekday grid
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const date = new Date(searchParams.get('date') || new Date().toISOString())
+
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    const week = await TimesheetGrid.getWeek(
+      { id: session.user.id, email: session.user.email, role: session.user.role },
+      date
+    )
+
+    return NextResponse.json(week)
+  } catch (error) {
+    console.error('Error fetching timesheet week:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PUT - Save the changed cells of a week; every cell is saved or none are
+export async function PUT(request: NextRequest) {
+  const session = await getServerSession(NEXT_AUTH_CONFIG)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const result = saveWeekSchema.safeParse(body)
+
+    if (!result.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: result.error.flatten().fieldErrors
+      }, { status: 400 })
+    }
+
+    const weekStart = new Date(`${result.data.weekStart}T00:00:00`)
+
+    if (isNaN(weekStart.getTime())) {
+      return NextResponse.json({ error: 'Invalid week start' }, { status: 400 })
+    }
+
+    const saved = await TimesheetGrid.saveWeek(
+      { id: session.user.id, email: session.user.email, role: session.user.role },
+      weekStart,
+      result.data.cells,
+      result.data.overrideReason
+    )
+
+    if (!saved.success) {
+      return NextResponse.json({
+        error: saved.error,
+        cellErrors: saved.cellErrors,
+        overridable: saved.overridable
+      }, { status: saved.status })
+    }
+
+    return NextResponse.json(saved)
+  } catch (error) {
+    console.error('Error saving timesheet week:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
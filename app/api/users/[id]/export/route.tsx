@@ -7,6 +7,7 @@ import { startOfDay, endOfDay, format, eachMonthOfInterval } from 'date-fns'
 import { Prisma } from '@prisma/client'
 import * as XLSX from 'xlsx'
 import { Decimal } from '@prisma/client/runtime/library'
+import { EntryExportSheet, entryFieldsInclude } from '@/lib/entry-fields'
 
 // Helper function to safely work with Decimal values
 const safeDecimalToNumber = (decimal: Decimal | number | null | undefined): number => {
@@ -93,9 +94,13 @@ export async function GET(
           select: {
             id: true,
             name: true,
-            color: true
+            color: true,
+            code: true
           }
-        }
+        },
+        user: { select: { name: true, email: true } },
+        task: { select: { name: true } },
+        ...entryFieldsInclude
       },
       orderBy: {
         date: 'asc'
@@ -118,6 +123,7 @@ export async function GET(
     }>()
 
     const totalsMap = new Map<string, { hours: number; spending: number }>()
+    const tagsMap = new Map<string, { name: string; monthlyHours: Record<string, number>; totalHours: number }>()
     let totalHours = 0
     let totalSpending = 0
 
@@ -157,6 +163,15 @@ export async function GET(
 
       totalHours += hours
       totalSpending += spending
+
+      entry.tags.forEach(({ tag }) => {
+        if (!tagsMap.has(tag.id)) {
+          tagsMap.set(tag.id, { name: tag.name, monthlyHours: {}, totalHours: 0 })
+        }
+        const tagTotal = tagsMap.get(tag.id)!
+        tagTotal.monthlyHours[monthKey] = (tagTotal.monthlyHours[monthKey] || 0) + hours
+        tagTotal.totalHours += hours
+      })
     })
 
     const projects = Array.from(projectsMap.values()).sort((a, b) => a.name.localeCompare(b.name))
@@ -191,7 +206,16 @@ export async function GET(
           return total ? total.hours.toFixed(1) : '-'
         }),
         totalHours.toFixed(1)
-      ]
+      ],
+      // Tag rows; an entry with several tags counts towards each of them
+      ...Array.from(tagsMap.values())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(tag => [
+          tag.totalHours.toFixed(1),
+          `TAG: ${tag.name}`,
+          ...months.map(month => tag.monthlyHours[month]?.toFixed(1) || '-'),
+          tag.totalHours.toFixed(1)
+        ])
     ]
 
     const hoursSheet = XLSX.utils.aoa_to_sheet(hoursData)
@@ -226,6 +250,11 @@ export async function GET(
     const dollarsSheet = XLSX.utils.aoa_to_sheet(dollarsData)
     XLSX.utils.book_append_sheet(workbook, dollarsSheet, 'Dollars')
 
+    // Entries Sheet, one row per entry with its tags and custom fields
+    const entrySheet = await EntryExportSheet.load()
+    const entriesSheet = XLSX.utils.aoa_to_sheet(entrySheet.rows(timeEntries))
+    XLSX.utils.book_append_sheet(workbook, entriesSheet, 'Entries')
+
     if (format_type === 'csv') {
       // For CSV, export just the hours sheet
       const csv = XLSX.utils.sheet_to_csv(hoursSheet)
@@ -127,6 +127,9 @@ export async function GET(
 
     console.log(`Found ${timeEntries.length} time entries and ${rateHistory.length} rate changes`)
 
+    // Project rate cards can cost the user differently per project
+    const costs = await EnhancedSpendingCalculator.costEntries(timeEntries)
+
     // Generate months array for the date range
     const months = eachMonthOfInterval({ start: startDate, end: endDate })
       .map(date => format(date, 'yyyy-MM'))
@@ -149,15 +152,7 @@ export async function GET(
     // Process each time entry with historical rate calculation
     for (const entry of timeEntries) {
       const monthKey = format(entry.date, 'yyyy-MM')
-      const hours = parseFloat(entry.hours.toString())
-      
-      // Get the historical rate for this specific entry date
-      const historicalRate = await EnhancedSpendingCalculator.getEffectiveRateForDate(
-        userId,
-        new Date(entry.date)
-      )
-      
-      const spending = hours * historicalRate
+      const { hours, cost: spending } = costs.get(entry.id)!
 
       // Initialize project if not exists
       if (!projectsMap.has(entry.project.id)) {
@@ -0,0 +1,289 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Loader2, CheckCircle, XCircle, Clock } from 'lucide-react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+
+interface PendingEntry {
+  id: string
+  description: string | null
+  startTime: string
+  endTime: string | null
+  duration: number | null
+  hours: number
+  date: string
+  status: string
+  project: {
+    id: string
+    name: string
+    color: string
+  }
+}
+
+interface PendingSubmission {
+  id: string
+  weekStart: string
+  weekEnd: string
+  status: string
+  submittedAt: string
+  totalHours: number
+  user: {
+    id: string
+    name: string | null
+    email: string
+  }
+  entries: PendingEntry[]
+}
+
+export default function ApprovalsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [submissions, setSubmissions] = useState<PendingSubmission[]>([])
+  const [loading, setLoading] = useState(true)
+  const [accessDenied, setAccessDenied] = useState(false)
+  const [reviewing, setReviewing] = useState<{ submission: PendingSubmission; action: 'approve' | 'reject' } | null>(null)
+  const [comment, setComment] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  useEffect(() => {
+    if (session) {
+      fetchSubmissions()
+    }
+  }, [session])
+
+  const fetchSubmissions = async () => {
+    try {
+      const response = await fetch('/api/timesheets/approvals')
+      if (response.ok) {
+        const data = await response.json()
+        setSubmissions(data)
+      } else if (response.status === 403) {
+        setAccessDenied(true)
+      } else {
+        toast.error('Failed to fetch pending approvals')
+      }
+    } catch (error) {
+      console.error('Failed to fetch pending approvals:', error)
+      toast.error('Failed to fetch pending approvals')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReview = async () => {
+    if (!reviewing) return
+
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/timesheets/approvals/${reviewing.submission.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: reviewing.action,
+          comment: comment || undefined
+        }),
+      })
+
+      if (response.ok) {
+        toast.success(reviewing.action === 'approve' ? 'Timesheet approved' : 'Timesheet rejected')
+        setReviewing(null)
+        setComment('')
+        fetchSubmissions() // Refresh data
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to review timesheet')
+      }
+    } catch (error) {
+      console.error('Failed to review timesheet:', error)
+      toast.error('Failed to review timesheet')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const formatDuration = (minutes: number | null) => {
+    if (!minutes) return '0h 0m'
+    const hours = Math.floor(minutes / 60)
+    const mins = minutes % 60
+    return `${hours}h ${mins}m`
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (accessDenied) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <CheckCircle className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-gray-600">You need full access on a project to approve timesheets.</p>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Timesheet Approvals</h1>
+          <p className="text-gray-600">Review submitted weeks for the projects you approve</p>
+        </div>
+
+        {submissions.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">Nothing to review</h3>
+              <p className="text-muted-foreground">
+                Submitted timesheets will appear here once employees submit their weeks.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          submissions.map((submission) => (
+            <Card key={submission.id}>
+              <CardHeader className="flex flex-row items-start justify-between">
+                <div>
+                  <CardTitle>{submission.user.name || submission.user.email}</CardTitle>
+                  <CardDescription>
+                    Week of {format(new Date(submission.weekStart), 'MMM dd')} - {format(new Date(submission.weekEnd), 'MMM dd, yyyy')}
+                    {' '}&middot; submitted {format(new Date(submission.submittedAt), 'MMM dd, yyyy HH:mm')}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{submission.totalHours.toFixed(2)}h</Badge>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setReviewing({ submission, action: 'reject' })
+                      setComment('')
+                    }}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      setReviewing({ submission, action: 'approve' })
+                      setComment('')
+                    }}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Project</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Duration</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {submission.entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{format(new Date(entry.startTime), 'EEE, MMM dd')}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <div
+                              className="w-3 h-3 rounded-full flex-shrink-0"
+                              style={{ backgroundColor: entry.project.color }}
+                            />
+                            {entry.project.name}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {entry.description || 'No description'}
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(entry.startTime), 'HH:mm')}
+                          {entry.endTime && ` - ${format(new Date(entry.endTime), 'HH:mm')}`}
+                        </TableCell>
+                        <TableCell>{formatDuration(entry.duration)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))
+        )}
+
+        {/* Review Dialog */}
+        <Dialog open={!!reviewing} onOpenChange={() => setReviewing(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {reviewing?.action === 'approve' ? 'Approve Timesheet' : 'Reject Timesheet'}
+              </DialogTitle>
+              <DialogDescription>
+                {reviewing?.action === 'approve'
+                  ? 'Approved hours are added to project spend and the monthly summary.'
+                  : 'The employee can correct rejected entries and submit the week again.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reviewComment">
+                Comment{reviewing?.action === 'approve' && ' (optional)'}
+              </Label>
+              <Textarea
+                id="reviewComment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder={reviewing?.action === 'approve' ? 'Looks good' : 'Explain what needs to be corrected'}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReviewing(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleReview}
+                disabled={submitting || (reviewing?.action === 'reject' && !comment.trim())}
+                variant={reviewing?.action === 'reject' ? 'destructive' : 'default'}
+              >
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {reviewing?.action === 'approve' ? 'Approve' : 'Reject'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  )
+}
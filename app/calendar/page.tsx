@@ -12,6 +12,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { 
   Calendar as CalendarIcon, 
@@ -26,7 +27,9 @@ import {
   Filter,
   List,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  Send,
+  Grid3x3
 } from 'lucide-react'
 import { 
   format, 
@@ -46,6 +49,12 @@ import {
 } from 'date-fns'
 import { cn } from '@/lib/utils'
 import DashboardLayout from '@/components/dashboard-layout'
+import TimeTracker from '@/components/time-entry/time-tracker'
+import WeeklyGrid from '@/components/time-entry/weekly-grid'
+import EntryTemplates from '@/components/time-entry/entry-templates'
+import QuickEntryInput from '@/components/time-entry/quick-entry-input'
+import DayOffBanner, { DayOff } from '@/components/leave/day-off-banner'
+import EntryFieldsInput, { EntryFieldsValue, EntryTag, emptyEntryFields, entryFieldsFrom, firstFieldError } from '@/components/time-entry/entry-fields-input'
 import { toast } from 'sonner'
 
 interface TimeEntry {
@@ -54,12 +63,28 @@ interface TimeEntry {
   endTime: string | null
   duration: number | null
   description: string | null
+  status?: 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED'
+  reviewComment?: string | null
+  billable?: boolean
   project: {
     id: string
     name: string
     description: string | null
     color: string
   }
+  task?: {
+    id: string
+    name: string
+  } | null
+  tags?: { tag: EntryTag }[]
+  fieldValues?: { fieldId: string; value: string }[]
+}
+
+interface WeekSubmission {
+  id: string
+  status: 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED'
+  submittedAt: string
+  reviewComment: string | null
 }
 
 interface Project {
@@ -71,12 +96,20 @@ interface Project {
   code: string
 }
 
+interface Task {
+  id: string
+  projectId: string
+  name: string
+  code: string | null
+}
+
 export default function CalendarPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([])
   const [filteredEntries, setFilteredEntries] = useState<TimeEntry[]>([])
   const [projects, setProjects] = useState<Project[]>([])
+  const [tasks, setTasks] = useState<Task[]>([])
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
   const [activeTab, setActiveTab] = useState('calendar')
@@ -97,6 +130,11 @@ export default function CalendarPage() {
   const [entryToDelete, setEntryToDelete] = useState<TimeEntry | null>(null)
   const [adminAlertOpen, setAdminAlertOpen] = useState(false)
   const [adminAlertMessage, setAdminAlertMessage] = useState('')
+  const [adminAlertTitle, setAdminAlertTitle] = useState('Timesheet Period Locked')
+  const [weekSubmission, setWeekSubmission] = useState<WeekSubmission | null>(null)
+  const [submittingWeek, setSubmittingWeek] = useState(false)
+  const [periodStatuses, setPeriodStatuses] = useState<Map<string, 'OPEN' | 'LOCKED' | 'CLOSED'>>(new Map())
+  const [daysOff, setDaysOff] = useState<DayOff[]>([])
   
   // Filters for timesheet view
   const [searchTerm, setSearchTerm] = useState('')
@@ -109,29 +147,68 @@ export default function CalendarPage() {
   // Form state
   const [formData, setFormData] = useState({
     projectId: '',
+    taskId: 'none',
     description: '',
     startTime: '',
     endTime: '',
-    date: format(new Date(), 'yyyy-MM-dd')
+    date: format(new Date(), 'yyyy-MM-dd'),
+    billable: true
   })
+  const [entryFields, setEntryFields] = useState<EntryFieldsValue>(emptyEntryFields)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({})
+  const [overrideAvailable, setOverrideAvailable] = useState(false)
+  const [overrideReason, setOverrideReason] = useState('')
 
-  // Helper function to check if editing past entries is restricted
+  // Helper function to check if editing entries on a date is restricted by its timesheet period
   const isEditingRestricted = (entryDate: Date) => {
-    const today = new Date()
-    
-    // Get the month of the entry we're trying to edit
-    const entryYear = entryDate.getFullYear()
-    const entryMonth = entryDate.getMonth() // 0-based (0 = January, 11 = December)
-    
-    // Calculate the 15th of the month AFTER the entry month (entry month + 1)
-    const nextMonth = entryMonth + 1
-    const nextYear = nextMonth > 11 ? entryYear + 1 : entryYear // Handle December -> January
-    const adjustedNextMonth = nextMonth > 11 ? 0 : nextMonth
-    
-    const fifteenthOfNextMonth = new Date(nextYear, adjustedNextMonth, 15)
-    
-    // If today is past the 15th of (entry month + 1), restrict editing
-    return today > fifteenthOfNextMonth
+    const periodStatus = periodStatuses.get(`${entryDate.getFullYear()}-${entryDate.getMonth() + 1}`)
+
+    // Unknown periods are treated as open; the server enforces the lock either way
+    if (!periodStatus || periodStatus === 'OPEN') return false
+    if (periodStatus === 'LOCKED') return session?.user.role !== 'ADMIN'
+    return true
+  }
+
+  const getRestrictionMessage = (entryDate: Date, action: 'add' | 'edit' | 'delete') => {
+    const periodStatus = periodStatuses.get(`${entryDate.getFullYear()}-${entryDate.getMonth() + 1}`)
+    const verb = action === 'add' ? 'add entries for' : `${action} entries from`
+
+    if (periodStatus === 'CLOSED') {
+      return `You cannot ${verb} ${format(entryDate, 'MMMM yyyy')} because the timesheet period is closed. An administrator must reopen it before entries can be changed.`
+    }
+
+    return `You cannot ${verb} ${format(entryDate, 'MMMM yyyy')} because the timesheet period is locked. Please contact your administrator for assistance with past entries.`
+  }
+
+  // Submitted and approved entries can only be changed by an administrator
+  const isLockedByApproval = (entry: TimeEntry) => {
+    if (session?.user.role === 'ADMIN') return false
+    return entry.status === 'SUBMITTED' || entry.status === 'APPROVED'
+  }
+
+  const getApprovalLockMessage = (entry: TimeEntry, action: 'edit' | 'delete') => {
+    if (entry.status === 'APPROVED') {
+      return `You cannot ${action} this entry because it has already been approved. Please contact your administrator if it needs to be corrected.`
+    }
+
+    return `You cannot ${action} this entry while it is waiting for approval. It can be changed again if the approver rejects it.`
+  }
+
+  const getEntryStatusBadge = (entry: TimeEntry) => {
+    switch (entry.status) {
+      case 'SUBMITTED':
+        return <Badge variant="secondary" className="text-[10px] px-1 py-0 bg-blue-100 text-blue-800">Submitted</Badge>
+      case 'APPROVED':
+        return <Badge variant="secondary" className="text-[10px] px-1 py-0 bg-green-100 text-green-800">Approved</Badge>
+      case 'REJECTED':
+        return (
+          <Badge variant="destructive" className="text-[10px] px-1 py-0" title={entry.reviewComment || undefined}>
+            Rejected
+          </Badge>
+        )
+      default:
+        return null
+    }
   }
 
   // Helper to clear cache for specific dates
@@ -184,6 +261,7 @@ export default function CalendarPage() {
   useEffect(() => {
     if (session) {
       fetchProjects()
+      fetchTasks()
       if (activeTab === 'calendar') {
         fetchTimeEntries(false) // Use cache if available
       } else {
@@ -196,6 +274,26 @@ export default function CalendarPage() {
     applyFilters()
   }, [timeEntries, searchTerm, selectedProject, dateRange, sortBy])
 
+  useEffect(() => {
+    if (session) {
+      fetchWeekSubmission()
+    }
+  }, [session, selectedDate])
+
+  // Load period statuses for every year visible in the current range
+  useEffect(() => {
+    if (session) {
+      fetchPeriodStatuses([startDate.getFullYear(), endDate.getFullYear()])
+    }
+  }, [session, startDate, endDate])
+
+  // Holidays and leave shown alongside the entries of the visible days
+  useEffect(() => {
+    if (session) {
+      fetchDaysOff()
+    }
+  }, [session, startDate, endDate])
+
   const fetchTimeEntries = async (forceRefresh = false) => {
     const cacheKey = viewMode === 'week' 
       ? format(startOfWeek(selectedDate, { weekStartsOn: 1 }), 'yyyy-MM-dd')
@@ -248,6 +346,84 @@ export default function CalendarPage() {
     }
   }
 
+  const fetchWeekSubmission = async () => {
+    try {
+      const response = await fetch(`/api/timesheets?date=${selectedDate.toISOString()}`)
+      if (response.ok) {
+        const data = await response.json()
+        setWeekSubmission(data.submission)
+      }
+    } catch (error) {
+      console.error('Error fetching week submission:', error)
+    }
+  }
+
+  const fetchDaysOff = async () => {
+    try {
+      const params = new URLSearchParams({
+        startDate: format(startDate, 'yyyy-MM-dd'),
+        endDate: format(endDate, 'yyyy-MM-dd')
+      })
+      const response = await fetch(`/api/leave/calendar?${params}`)
+      if (response.ok) {
+        setDaysOff(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching days off:', error)
+    }
+  }
+
+  const getDayOff = (date: Date) => daysOff.find(dayOff => dayOff.date === format(date, 'yyyy-MM-dd'))
+
+  const handleSubmitWeek = async () => {
+    setSubmittingWeek(true)
+    try {
+      const weekStart = startOfWeek(selectedDate, { weekStartsOn: 1 })
+      const response = await fetch('/api/timesheets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weekStart: weekStart.toISOString() })
+      })
+
+      if (response.ok) {
+        toast.success('Week submitted for approval')
+        clearCacheForDate(weekStart)
+        await fetchTimeEntries(true)
+        await fetchWeekSubmission()
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to submit week')
+      }
+    } catch (error) {
+      console.error('Error submitting week:', error)
+      toast.error('Failed to submit week')
+    } finally {
+      setSubmittingWeek(false)
+    }
+  }
+
+  const fetchPeriodStatuses = async (years: number[]) => {
+    const missingYears = Array.from(new Set(years)).filter(year => !periodStatuses.has(`${year}-1`))
+    if (missingYears.length === 0) return
+
+    try {
+      const results = await Promise.all(missingYears.map(async (year) => {
+        const response = await fetch(`/api/timesheet-periods?year=${year}`)
+        if (!response.ok) return []
+        const data = await response.json()
+        return data.periods as Array<{ year: number; month: number; status: 'OPEN' | 'LOCKED' | 'CLOSED' }>
+      }))
+
+      setPeriodStatuses(prev => {
+        const next = new Map(prev)
+        results.flat().forEach(period => next.set(`${period.year}-${period.month}`, period.status))
+        return next
+      })
+    } catch (error) {
+      console.error('Error fetching timesheet periods:', error)
+    }
+  }
+
   const fetchProjects = async () => {
     try {
       const response = await fetch('/api/projects')
@@ -258,6 +434,17 @@ export default function CalendarPage() {
     }
   }
 
+  const fetchTasks = async () => {
+    try {
+      const response = await fetch('/api/tasks')
+      if (response.ok) {
+        setTasks(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching tasks:', error)
+    }
+  }
+
   const applyFilters = () => {
     let filtered = [...timeEntries]
 
@@ -358,6 +545,16 @@ export default function CalendarPage() {
     toast.success('Data refreshed')
   }
 
+  // Timer changes can touch any day, so drop the whole cache
+  const handleTimerChange = () => {
+    setEntryCache(new Map())
+    if (activeTab === 'calendar') {
+      fetchTimeEntries(true)
+    } else {
+      fetchAllTimeEntries()
+    }
+  }
+
   const getEntriesForDate = (date: Date) => {
     return timeEntries.filter(entry => 
       isSameDay(parseISO(entry.startTime), date)
@@ -394,9 +591,8 @@ export default function CalendarPage() {
   // Entry management functions
   const handleAddEntry = (date: Date, startTime?: string) => {
     if (isEditingRestricted(date)) {
-      setAdminAlertMessage(
-        `You cannot add entries for ${format(date, 'MMMM yyyy')} after the 15th of the current month. Please contact your administrator for assistance with past entries.`
-      )
+      setAdminAlertTitle('Timesheet Period Locked')
+      setAdminAlertMessage(getRestrictionMessage(date, 'add'))
       setAdminAlertOpen(true)
       return
     }
@@ -408,11 +604,17 @@ export default function CalendarPage() {
     setEditingEntry(null)
     setFormData({
     projectId: '',
+    taskId: 'none',
     description: '',
     startTime: format(startDate, 'HH:mm'),
     endTime: format(endDate, 'HH:mm'),
-    date: format(date || new Date(), 'yyyy-MM-dd')
+    date: format(date || new Date(), 'yyyy-MM-dd'),
+    billable: true
   });
+    setEntryFields(emptyEntryFields)
+    setFieldErrors({})
+    setOverrideAvailable(false)
+    setOverrideReason('')
     setEditDialogOpen(true)
   }
 
@@ -420,9 +622,15 @@ export default function CalendarPage() {
     const entryDate = parseISO(entry.startTime)
     
     if (isEditingRestricted(entryDate)) {
-      setAdminAlertMessage(
-        `You cannot edit entries from ${format(entryDate, 'MMMM yyyy')} after the 15th of the current month. Please contact your administrator for assistance with past entries.`
-      )
+      setAdminAlertTitle('Timesheet Period Locked')
+      setAdminAlertMessage(getRestrictionMessage(entryDate, 'edit'))
+      setAdminAlertOpen(true)
+      return
+    }
+
+    if (isLockedByApproval(entry)) {
+      setAdminAlertTitle('Entry Submitted for Approval')
+      setAdminAlertMessage(getApprovalLockMessage(entry, 'edit'))
       setAdminAlertOpen(true)
       return
     }
@@ -430,12 +638,18 @@ export default function CalendarPage() {
     setEditingEntry(entry)
     const startDate = parseISO(entry.startTime)
     setFormData({
-    projectId: '',
+    projectId: entry.project.id,
+    taskId: entry.task?.id || 'none',
     description: '',
     startTime: format(startDate, 'HH:mm'),
     endTime: format(endDate, 'HH:mm'),
-    date: format(startDate || new Date(), 'yyyy-MM-dd')
+    date: format(startDate || new Date(), 'yyyy-MM-dd'),
+    billable: entry.billable ?? true
   });
+    setEntryFields(entryFieldsFrom(entry))
+    setFieldErrors({})
+    setOverrideAvailable(false)
+    setOverrideReason('')
     setEditDialogOpen(true)
   }
 
@@ -443,9 +657,15 @@ export default function CalendarPage() {
     const entryDate = parseISO(entry.startTime)
     
     if (isEditingRestricted(entryDate)) {
-      setAdminAlertMessage(
-        `You cannot delete entries from ${format(entryDate, 'MMMM yyyy')} after the 15th of the current month. Please contact your administrator for assistance with past entries.`
-      )
+      setAdminAlertTitle('Timesheet Period Locked')
+      setAdminAlertMessage(getRestrictionMessage(entryDate, 'delete'))
+      setAdminAlertOpen(true)
+      return
+    }
+
+    if (isLockedByApproval(entry)) {
+      setAdminAlertTitle('Entry Submitted for Approval')
+      setAdminAlertMessage(getApprovalLockMessage(entry, 'delete'))
       setAdminAlertOpen(true)
       return
     }
@@ -474,8 +694,9 @@ export default function CalendarPage() {
           : null
 
           // Check for overlaps
-          if (hasOverlap(startDateTime, endDateTime, editingEntry?.id)) {
+          if (!overrideReason.trim() && hasOverlap(startDateTime, endDateTime, editingEntry?.id)) {
             toast.error('This time entry overlaps with an existing entry. Please choose a different time.');
+            setOverrideAvailable(session?.user.role === 'ADMIN');
             return;
           }
 
@@ -484,9 +705,14 @@ export default function CalendarPage() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             projectId: formData.projectId === 'none' ? null : formData.projectId,
+            taskId: formData.taskId === 'none' ? null : formData.taskId,
             description: formData.description,
             startTime: startDateTime.toISOString(),
             endTime: endDateTime?.toISOString() || null,
+            billable: formData.billable,
+            tagIds: entryFields.tagIds,
+            customFields: entryFields.customFields,
+            overrideReason: overrideReason.trim() || undefined
           })
         })
 
@@ -504,7 +730,9 @@ export default function CalendarPage() {
           }
         } else {
           const errorData = await response.json()
-          toast.error(`Failed to update entry: ${errorData.error || 'Unknown error'}`)
+          setFieldErrors(errorData.details || {})
+          setOverrideAvailable(session?.user.role === 'ADMIN' && !!errorData.overridable)
+          toast.error(`Failed to update entry: ${firstFieldError(errorData.details) || errorData.error || 'Unknown error'}`)
         }
       } else {
         // Create new entry
@@ -519,14 +747,20 @@ export default function CalendarPage() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             projectId: formData.projectId === 'none' ? null : formData.projectId,
+            taskId: formData.taskId === 'none' ? null : formData.taskId,
             description: formData.description,
             startTime: startDateTime.toISOString(),
             endTime: endDateTime?.toISOString() || null,
-            
+            billable: formData.billable,
+            tagIds: entryFields.tagIds,
+            customFields: entryFields.customFields,
+            overrideReason: overrideReason.trim() || undefined
           })
         })
               if (response.status === 409) {
         const errorData = await response.json();
+        setFieldErrors(errorData.details || {});
+        setOverrideAvailable(session?.user.role === 'ADMIN' && !!errorData.overridable);
         toast.error(errorData.error || 'Time entry overlaps with existing entries');
         return;
       }
@@ -553,7 +787,9 @@ export default function CalendarPage() {
           }
         } else {
           const errorData = await response.json()
-          toast.error(`Failed to create entry: ${errorData.error || 'Unknown error'}`)
+          setFieldErrors(errorData.details || {})
+          setOverrideAvailable(session?.user.role === 'ADMIN' && !!errorData.overridable)
+          toast.error(`Failed to create entry: ${firstFieldError(errorData.details) || errorData.error || 'Unknown error'}`)
         }
       }
     } catch (error) {
@@ -585,7 +821,8 @@ export default function CalendarPage() {
           await fetchAllTimeEntries()
         }
       } else {
-        toast.error('Failed to delete entry')
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to delete entry')
       }
     } catch (error) {
       console.error('Error deleting entry:', error)
@@ -633,6 +870,7 @@ export default function CalendarPage() {
             const totalMinutes = getTotalDurationForDate(day)
             const isToday = isSameDay(day, new Date())
             const isPastRestricted = isEditingRestricted(day)
+            const dayOff = getDayOff(day)
             
             return (
               <div
@@ -652,11 +890,17 @@ export default function CalendarPage() {
                     {format(day, 'MMM d')}
                   </span>
                   {isPastRestricted && (
-                    <div title="Admin approval required for changes">
+                    <div title="Timesheet period is locked">
                       <Shield className="h-3 w-3 text-red-500" />
                     </div>
                   )}
                 </div>
+
+                {dayOff && (
+                  <div className="mb-2">
+                    <DayOffBanner dayOff={dayOff} compact />
+                  </div>
+                )}
                 
                 {totalMinutes > 0 && (
                   <Badge variant="secondary" className="text-xs mb-2">
@@ -676,8 +920,9 @@ export default function CalendarPage() {
                         <div className="font-medium truncate pr-6">
                           {entry.project.name}
                         </div>
-                        <div className="text-gray-500 truncate">
+                        <div className="text-gray-500 truncate flex items-center gap-1">
                           {formatHours(entry.duration || 0)}
+                          {getEntryStatusBadge(entry)}
                         </div>
                         <div className="text-gray-400 truncate text-[10px]">
                           {formatTime(entry.startTime)} - {entry.endTime ? formatTime(entry.endTime) : 'Running'}
@@ -749,6 +994,7 @@ export default function CalendarPage() {
     const totalMinutes = getTotalDurationForDate(selectedDate)
     const isToday = isSameDay(selectedDate, new Date())
     const isPastRestricted = isEditingRestricted(selectedDate)
+    const dayOff = getDayOff(selectedDate)
     
     return (
       <div className="space-y-4">
@@ -769,10 +1015,15 @@ export default function CalendarPage() {
             {isPastRestricted && (
               <Badge variant="destructive" className="text-sm flex items-center gap-1">
                 <Shield className="h-3 w-3" />
-                Admin approval required
+                Period locked
               </Badge>
             )}
           </div>
+          {dayOff && (
+            <div className="max-w-md mx-auto mt-3">
+              <DayOffBanner dayOff={dayOff} />
+            </div>
+          )}
         </div>
         
         {/* Day entries */}
@@ -812,7 +1063,13 @@ export default function CalendarPage() {
                           <Badge variant="secondary">
                             {formatDuration(entry.duration)}
                           </Badge>
+                          {getEntryStatusBadge(entry)}
                         </div>
+                        {entry.status === 'REJECTED' && entry.reviewComment && (
+                          <p className="text-sm text-red-600 mb-2">
+                            Rejected: {entry.reviewComment}
+                          </p>
+                        )}
                         <div className="text-sm text-gray-600 flex items-center gap-4 mb-2">
                           <span className="flex items-center gap-1">
                             <Clock className="h-3 w-3" />
@@ -854,6 +1111,12 @@ export default function CalendarPage() {
     )
   }
 
+  // Tasks offered for the project picked in the entry dialog, keeping the entry's current task even if it is no longer selectable
+  const selectedProjectTasks = tasks.filter(task => task.projectId === formData.projectId)
+  if (editingEntry?.task && editingEntry.project.id === formData.projectId && !selectedProjectTasks.some(task => task.id === editingEntry.task!.id)) {
+    selectedProjectTasks.push({ ...editingEntry.task, projectId: formData.projectId, code: null })
+  }
+
   if (status === 'loading' || loading) {
     return (
       <DashboardLayout>
@@ -905,8 +1168,29 @@ export default function CalendarPage() {
           </Card>
         </div>
 
+        {/* Running timer, persisted on the server */}
+        <TimeTracker projects={projects} onTimerChange={handleTimerChange} />
+
+        {/* One-line entries like "2h15 mobile app bug triage yesterday" */}
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Quick Entry</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <QuickEntryInput projects={projects} onSaved={handleTimerChange} />
+          </CardContent>
+        </Card>
+
+        {/* Saved entries and recurring drafts waiting to be confirmed */}
+        <EntryTemplates
+          projects={projects}
+          tasks={tasks}
+          selectedDate={selectedDate}
+          onPlaced={handleTimerChange}
+        />
+
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="calendar" className="flex items-center gap-2">
               <CalendarIcon className="h-4 w-4" />
               Calendar View
@@ -915,6 +1199,10 @@ export default function CalendarPage() {
               <List className="h-4 w-4" />
               Timesheet View
             </TabsTrigger>
+            <TabsTrigger value="grid" className="flex items-center gap-2">
+              <Grid3x3 className="h-4 w-4" />
+              Weekly Grid
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="calendar" className="space-y-4">
@@ -995,7 +1283,7 @@ export default function CalendarPage() {
                   <div className="flex items-center gap-4 text-sm text-gray-600">
                     <div className="flex items-center gap-2">
                       <div className="w-3 h-3 bg-red-100 border border-red-200 rounded"></div>
-                      <span>Admin approval required</span>
+                      <span>Locked period</span>
                     </div>
                     <span>
                       {viewMode === 'week' 
@@ -1007,6 +1295,42 @@ export default function CalendarPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
+                {/* Weekly submission */}
+                <div className="flex items-center justify-between mb-4 p-3 border rounded-lg bg-gray-50">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">Week status:</span>
+                    {weekSubmission ? (
+                      <>
+                        <Badge
+                          variant={weekSubmission.status === 'REJECTED' ? 'destructive' : 'secondary'}
+                          className={cn(
+                            weekSubmission.status === 'APPROVED' && 'bg-green-100 text-green-800',
+                            weekSubmission.status === 'SUBMITTED' && 'bg-blue-100 text-blue-800'
+                          )}
+                        >
+                          {weekSubmission.status.charAt(0) + weekSubmission.status.slice(1).toLowerCase()}
+                        </Badge>
+                        <span className="text-gray-500">
+                          submitted {format(parseISO(weekSubmission.submittedAt), 'MMM d, HH:mm')}
+                        </span>
+                        {weekSubmission.status === 'REJECTED' && weekSubmission.reviewComment && (
+                          <span className="text-red-600">&ldquo;{weekSubmission.reviewComment}&rdquo;</span>
+                        )}
+                      </>
+                    ) : (
+                      <Badge variant="outline">Not submitted</Badge>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={handleSubmitWeek}
+                    disabled={submittingWeek || !timeEntries.some(entry => entry.status === 'DRAFT' || entry.status === 'REJECTED')}
+                    className="flex items-center gap-2"
+                  >
+                    <Send className="h-4 w-4" />
+                    Submit Week
+                  </Button>
+                </div>
                 {viewMode === 'week' ? renderWeekView() : renderDayView()}
               </CardContent>
             </Card>
@@ -1115,6 +1439,7 @@ export default function CalendarPage() {
                               >
                                 {formatDuration(entry.duration)}
                               </Badge>
+                              {getEntryStatusBadge(entry)}
                             </div>
                             <div className="text-sm text-muted-foreground flex items-center gap-4">
                               <span className="flex items-center gap-1">
@@ -1218,11 +1543,15 @@ export default function CalendarPage() {
               </Card>
             )}
           </TabsContent>
+
+          <TabsContent value="grid" className="space-y-4">
+            <WeeklyGrid onSaved={() => setEntryCache(new Map())} canOverride={session?.user.role === 'ADMIN'} />
+          </TabsContent>
         </Tabs>
 
         {/* Edit/Add Entry Dialog */}
         <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
-          <DialogContent className="sm:max-w-[425px]">
+          <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingEntry ? 'Edit Time Entry' : 'Add New Time Entry'}
@@ -1257,7 +1586,7 @@ export default function CalendarPage() {
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="project">Project</Label>
-                <Select value={formData.projectId} onValueChange={(value) => setFormData({...formData, projectId: value})}>
+                <Select value={formData.projectId} onValueChange={(value) => setFormData({...formData, projectId: value, taskId: 'none'})}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select a project (Required)" />
                   </SelectTrigger>
@@ -1284,6 +1613,24 @@ export default function CalendarPage() {
                   </SelectContent>
                 </Select>
               </div>
+              {selectedProjectTasks.length > 0 && (
+                <div className="grid gap-2">
+                  <Label htmlFor="task">Task</Label>
+                  <Select value={formData.taskId} onValueChange={(value) => setFormData({...formData, taskId: value})}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a task" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No task</SelectItem>
+                      {selectedProjectTasks.map((task) => (
+                        <SelectItem key={task.id} value={task.id}>
+                          {task.code ? `${task.code} ${task.name}` : task.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div className="grid gap-2">
                 <Label htmlFor="description">Description</Label>
                 <Textarea 
@@ -1300,27 +1647,61 @@ export default function CalendarPage() {
                   <Input 
                     id="startTime"
                     type="time"
+                    className={cn(fieldErrors.startTime && 'border-red-500')}
                     value={formData.startTime}
                     onChange={(e) => setFormData({...formData, startTime: e.target.value})}
                   />
+                  {fieldErrors.startTime && <p className="text-sm text-red-600">{fieldErrors.startTime[0]}</p>}
                 </div>
                 <div className="grid gap-2">
                   <Label htmlFor="endTime">End Time</Label>
                   <Input 
                     id="endTime"
                     type="time"
+                    className={cn(fieldErrors.endTime && 'border-red-500')}
                     value={formData.endTime}
                     onChange={(e) => setFormData({...formData, endTime: e.target.value})}
                   />
+                  {fieldErrors.endTime && <p className="text-sm text-red-600">{fieldErrors.endTime[0]}</p>}
                 </div>
               </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="billable"
+                  checked={formData.billable}
+                  onCheckedChange={(checked) => setFormData({...formData, billable: checked === true})}
+                />
+                <Label htmlFor="billable">Billable</Label>
+              </div>
+              <EntryFieldsInput
+                projectId={formData.projectId}
+                value={entryFields}
+                onChange={setEntryFields}
+                currentTags={editingEntry?.tags?.map(({ tag }) => tag)}
+                errors={fieldErrors}
+              />
+              {overrideAvailable && (
+                <div className="grid gap-2 rounded-md border border-amber-300 bg-amber-50 p-3">
+                  <Label htmlFor="overrideReason">Override Reason</Label>
+                  <Textarea
+                    id="overrideReason"
+                    value={overrideReason}
+                    onChange={(e) => setOverrideReason(e.target.value)}
+                    placeholder="Why should this entry be saved anyway?"
+                    rows={2}
+                  />
+                  <p className="text-xs text-gray-600">
+                    With a reason the overlap, future and daily maximum checks are skipped. The reason is kept in the audit log.
+                  </p>
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setEditDialogOpen(false)}>
                 Cancel
               </Button>
               <Button type="button" onClick={handleSaveEntry}>
-                {editingEntry ? 'Update Entry' : 'Create Entry'}
+                {overrideReason.trim() ? 'Save Anyway' : editingEntry ? 'Update Entry' : 'Create Entry'}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -1358,7 +1739,7 @@ export default function CalendarPage() {
             <AlertDialogHeader>
               <AlertDialogTitle className="flex items-center gap-2">
                 <AlertTriangle className="h-5 w-5 text-orange-500" />
-                Administrator Approval Required
+                {adminAlertTitle}
               </AlertDialogTitle>
               <AlertDialogDescription>
                 {adminAlertMessage}
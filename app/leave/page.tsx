@@ -0,0 +1,351 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import DashboardLayout from '@/components/dashboard-layout'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import LeaveStatusBadge, { LeaveStatus } from '@/components/leave/leave-status-badge'
+import { Loader2, Send, TreePalm, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface LeaveType {
+  id: string
+  name: string
+  color: string
+  paid: boolean
+  annualAllowanceDays: number
+  requiresApproval: boolean
+}
+
+interface LeaveBalance {
+  leaveType: LeaveType
+  year: number
+  tracked: boolean
+  allowanceDays: number
+  accruedDays: number
+  adjustmentDays: number
+  takenDays: number
+  pendingDays: number
+  availableDays: number
+}
+
+interface LeaveRequest {
+  id: string
+  leaveType: { id: string; name: string; color: string }
+  startDate: string
+  endDate: string
+  days: number
+  note: string | null
+  status: LeaveStatus
+  reviewComment: string | null
+  createdAt: string
+}
+
+function formatDay(date: string): string {
+  return format(new Date(`${date}T00:00:00`), 'EEE, MMM d, yyyy')
+}
+
+export default function LeavePage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [types, setTypes] = useState<LeaveType[]>([])
+  const [balances, setBalances] = useState<LeaveBalance[]>([])
+  const [requests, setRequests] = useState<LeaveRequest[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const [form, setForm] = useState({ leaveTypeId: '', startDate: today, endDate: today, note: '' })
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    }
+  }, [status, router])
+
+  const fetchAll = useCallback(async () => {
+    try {
+      const [typesResponse, balancesResponse, requestsResponse] = await Promise.all([
+        fetch('/api/leave/types'),
+        fetch('/api/leave/balances'),
+        fetch('/api/leave/requests')
+      ])
+
+      if (typesResponse.ok) setTypes(await typesResponse.json())
+      if (balancesResponse.ok) setBalances(await balancesResponse.json())
+      if (requestsResponse.ok) {
+        setRequests(await requestsResponse.json())
+      } else {
+        toast.error('Failed to fetch your leave')
+      }
+    } catch (error) {
+      console.error('Failed to fetch leave:', error)
+      toast.error('Failed to fetch your leave')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session) {
+      fetchAll()
+    }
+  }, [session, fetchAll])
+
+  const handleSubmit = async () => {
+    if (!form.leaveTypeId) {
+      toast.error('Choose a leave type')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/leave/requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          leaveTypeId: form.leaveTypeId,
+          startDate: form.startDate,
+          endDate: form.endDate,
+          note: form.note || null
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details ? Object.values(data.details as Record<string, string[]>).flat()[0] : undefined
+        toast.error(detail || data.error || 'Failed to request leave')
+        return
+      }
+
+      toast.success(data.status === 'APPROVED'
+        ? `${data.days} day(s) of ${data.leaveType.name} booked`
+        : `Requested ${data.days} day(s) of ${data.leaveType.name}`)
+      setForm({ ...form, note: '' })
+      await fetchAll()
+    } catch (error) {
+      console.error('Failed to request leave:', error)
+      toast.error('Failed to request leave')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleCancel = async (request: LeaveRequest) => {
+    if (!confirm(`Cancel your ${request.leaveType.name} from ${formatDay(request.startDate)}?`)) return
+
+    try {
+      const response = await fetch(`/api/leave/requests/${request.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'cancel' })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to cancel leave')
+        return
+      }
+
+      toast.success('Leave cancelled')
+      await fetchAll()
+    } catch (error) {
+      console.error('Failed to cancel leave:', error)
+      toast.error('Failed to cancel leave')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  const selectedType = types.find(type => type.id === form.leaveTypeId)
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Leave</h1>
+          <p className="text-gray-600">Your balances for {new Date().getFullYear()} and your leave requests</p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {balances.map(balance => (
+            <Card key={balance.leaveType.id}>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: balance.leaveType.color }} />
+                  {balance.leaveType.name}
+                </CardTitle>
+                {balance.tracked && (
+                  <CardDescription>{balance.allowanceDays} days a year, earned monthly</CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                {balance.tracked ? (
+                  <>
+                    <div className="text-2xl font-bold">{balance.availableDays} days left</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {balance.accruedDays} earned
+                      {balance.adjustmentDays !== 0 && ` · ${balance.adjustmentDays > 0 ? '+' : ''}${balance.adjustmentDays} adjusted`}
+                      {` · ${balance.takenDays} taken`}
+                      {balance.pendingDays > 0 && ` · ${balance.pendingDays} pending`}
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className="text-2xl font-bold">{balance.takenDays} days taken</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      No allowance{balance.pendingDays > 0 && ` · ${balance.pendingDays} pending`}
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TreePalm className="h-5 w-5" />
+              Request Leave
+            </CardTitle>
+            <CardDescription>
+              Only your working days are counted; weekends and public holidays in the range are free.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {types.length === 0 ? (
+              <p className="text-sm text-gray-500">No leave types have been set up yet.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select value={form.leaveTypeId} onValueChange={(value) => setForm({ ...form, leaveTypeId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a leave type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {types.map(type => (
+                          <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="leave-start">First Day</Label>
+                    <Input
+                      id="leave-start"
+                      type="date"
+                      value={form.startDate}
+                      onChange={(e) => setForm({
+                        ...form,
+                        startDate: e.target.value,
+                        endDate: e.target.value > form.endDate ? e.target.value : form.endDate
+                      })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="leave-end">Last Day</Label>
+                    <Input
+                      id="leave-end"
+                      type="date"
+                      min={form.startDate}
+                      value={form.endDate}
+                      onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leave-note">Note (optional)</Label>
+                  <Textarea
+                    id="leave-note"
+                    rows={2}
+                    value={form.note}
+                    onChange={(e) => setForm({ ...form, note: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-500">
+                    {selectedType && !selectedType.requiresApproval && 'This type is booked without approval.'}
+                  </p>
+                  <Button onClick={handleSubmit} disabled={submitting}>
+                    {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                    {selectedType && !selectedType.requiresApproval ? 'Book Leave' : 'Send Request'}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>My Requests</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {requests.length === 0 ? (
+              <p className="text-sm text-gray-500">You have not requested any leave.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead className="text-right">Days</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Comment</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map(request => (
+                    <TableRow key={request.id}>
+                      <TableCell>
+                        <span className="flex items-center gap-2">
+                          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: request.leaveType.color }} />
+                          {request.leaveType.name}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {formatDay(request.startDate)}
+                        {request.endDate !== request.startDate && <> – {formatDay(request.endDate)}</>}
+                      </TableCell>
+                      <TableCell className="text-right">{request.days}</TableCell>
+                      <TableCell><LeaveStatusBadge status={request.status} /></TableCell>
+                      <TableCell className="text-sm text-gray-600">{request.reviewComment || request.note || ''}</TableCell>
+                      <TableCell className="text-right">
+                        {(request.status === 'PENDING' || (request.status === 'APPROVED' && request.startDate > today)) && (
+                          <Button variant="ghost" size="sm" onClick={() => handleCancel(request)}>
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -6,9 +6,11 @@ import { useEffect, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Plus, Edit, Trash2 } from 'lucide-react'
+import { Plus, Edit, Trash2, ListChecks } from 'lucide-react'
+import { toast } from 'sonner'
 import DashboardLayout from '@/components/dashboard-layout'
 import ProjectForm from '@/components/project/project-form'
+import TaskManager from '@/components/project/task-manager'
 
 interface Project {
   id: string
@@ -16,16 +18,26 @@ interface Project {
   code: string | null
   color: string
   active: boolean
+  billable?: boolean
+  clientId?: string | null
+  client?: { id: string; name: string } | null
   createdAt: string
   updatedAt: string
 }
 
+interface Client {
+  id: string
+  name: string
+}
+
 // Type for creating a new project (without id, createdAt, updatedAt)
 interface CreateProjectData {
   name: string
   code: string | null
   color: string
   active: boolean
+  billable?: boolean
+  clientId?: string | null
 }
 
 export default function ProjectsPage() {
@@ -35,6 +47,8 @@ export default function ProjectsPage() {
   const [loading, setLoading] = useState(true)
   const [showForm, setShowForm] = useState(false)
   const [editingProject, setEditingProject] = useState<Project | null>(null)
+  const [taskProject, setTaskProject] = useState<Project | null>(null)
+  const [clients, setClients] = useState<Client[] | undefined>(undefined)
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -45,9 +59,24 @@ export default function ProjectsPage() {
   useEffect(() => {
     if (session) {
       fetchProjects()
+      if (session.user.role === 'ADMIN') {
+        fetchClients()
+      }
     }
   }, [session])
 
+  const fetchClients = async () => {
+    try {
+      const response = await fetch('/api/admin/clients')
+      if (response.ok) {
+        const data = await response.json()
+        setClients(data.filter((client: Client & { active: boolean }) => client.active))
+      }
+    } catch (error) {
+      console.error('Error fetching clients:', error)
+    }
+  }
+
   const fetchProjects = async () => {
     try {
       setLoading(true)
@@ -97,8 +126,8 @@ export default function ProjectsPage() {
     }
   }
 
-  const handleDeleteProject = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this project?')) {
+  const handleArchiveProject = async (id: string) => {
+    if (!confirm('Move this project to the trash? It will be hidden from project lists but its time entries stay in reports, and an admin can restore it.')) {
       return
     }
 
@@ -108,10 +137,14 @@ export default function ProjectsPage() {
       })
 
       if (response.ok) {
+        toast.success('Project moved to trash')
         fetchProjects()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to archive project')
       }
     } catch (error) {
-      console.error('Error deleting project:', error)
+      console.error('Error archiving project:', error)
     }
   }
 
@@ -139,6 +172,7 @@ export default function ProjectsPage() {
 
         {showForm && (
           <ProjectForm
+            clients={clients}
             onSubmit={handleCreateProject}
             onCancel={() => setShowForm(false)}
           />
@@ -147,6 +181,7 @@ export default function ProjectsPage() {
         {editingProject && (
           <ProjectForm
             project={editingProject}
+            clients={clients}
             onSubmit={handleUpdateProject}
             onCancel={() => setEditingProject(null)}
           />
@@ -173,6 +208,11 @@ export default function ProjectsPage() {
                 <p className="text-gray-600 mb-4">
                   {project.name}
                 </p>
+                {project.billable && (
+                  <p className="text-sm text-gray-500 mb-4">
+                    Billable{project.client ? ` to ${project.client.name}` : ''}
+                  </p>
+                )}
                 <div className="flex gap-2">
                   <Button
                     size="sm"
@@ -184,7 +224,16 @@ export default function ProjectsPage() {
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => handleDeleteProject(project.id)}
+                    title="Tasks"
+                    onClick={() => setTaskProject(project)}
+                  >
+                    <ListChecks className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    title="Move to trash"
+                    onClick={() => handleArchiveProject(project.id)}
                   >
                     <Trash2 className="h-4 w-4" />
                   </Button>
@@ -194,6 +243,8 @@ export default function ProjectsPage() {
           ))}
         </div>
 
+        <TaskManager project={taskProject} onClose={() => setTaskProject(null)} />
+
         {projects.length === 0 && (
           <div className="text-center py-12">
             <p className="text-gray-500 mb-4">No projects yet</p>
@@ -26,6 +26,7 @@ import {
 import { cn } from '@/lib/utils'
 import { toast } from 'sonner'
 import { setHours, setMinutes, setSeconds } from 'date-fns'
+import EntryFieldsInput, { EntryFieldsValue, EntryTag, emptyEntryFields, entryFieldsFrom, firstFieldError } from '@/components/time-entry/entry-fields-input'
 
 interface User {
   id: string
@@ -57,6 +58,8 @@ interface TimeEntry {
     name: string | null 
   }
   description: string | null
+  tags: EntryTag[]
+  customFields: Record<string, string>
 }
 
 interface ReportData {
@@ -101,6 +104,10 @@ export default function AdminReportsPage() {
     endTime: '',
     date: format(new Date(), 'yyyy-MM-dd')
   })
+  const [entryFields, setEntryFields] = useState<EntryFieldsValue>(emptyEntryFields)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({})
+  const [overrideAvailable, setOverrideAvailable] = useState(false)
+  const [overrideReason, setOverrideReason] = useState('')
 
   // Redirect non-admin users
   useEffect(() => {
@@ -359,6 +366,10 @@ export default function AdminReportsPage() {
       endTime: entry.end ? format(parseISO(entry.end), 'HH:mm') : '',
       date: format(startDate, 'yyyy-MM-dd')
     })
+    setEntryFields(entryFieldsFrom(entry))
+    setFieldErrors({})
+    setOverrideAvailable(false)
+    setOverrideReason('')
     setEditDialogOpen(true)
   }
 
@@ -377,6 +388,10 @@ export default function AdminReportsPage() {
     endTime: format(endDate, 'HH:mm'),
     date: format(date || new Date(), 'yyyy-MM-dd')
   });
+  setEntryFields(emptyEntryFields);
+  setFieldErrors({});
+  setOverrideAvailable(false);
+  setOverrideReason('');
   setEditDialogOpen(true);
 };
 
@@ -392,8 +407,9 @@ export default function AdminReportsPage() {
           ? new Date(`${formData.date}T${formData.endTime}`)
           : null
 
-            if (hasOverlap(startDateTime, endDateTime, editingEntry?.id)) {
-              toast.error('This time entry overlaps with an existing entry. Please choose a different time.');
+            if (!overrideReason.trim() && hasOverlap(startDateTime, endDateTime, editingEntry?.id)) {
+              toast.error('This time entry overlaps with an existing entry. Choose a different time or give an override reason.');
+              setOverrideAvailable(true);
               return;
             }
           
@@ -406,7 +422,10 @@ export default function AdminReportsPage() {
             description: formData.description,
             startTime: formData.startTime,
             endTime: formData.endTime || null,
-            date: formData.date
+            date: formData.date,
+            tagIds: entryFields.tagIds,
+            customFields: entryFields.customFields,
+            overrideReason: overrideReason.trim() || undefined
           })
         })
 
@@ -426,7 +445,9 @@ export default function AdminReportsPage() {
           await fetchReports(true)
         } else {
           const errorData = await response.json()
-          toast.error(`Failed to update entry: ${errorData.error || 'Unknown error'}`)
+          setFieldErrors(errorData.details || {})
+          setOverrideAvailable(!!errorData.overridable)
+          toast.error(`Failed to update entry: ${firstFieldError(errorData.details) || errorData.error || 'Unknown error'}`)
         }
       } else {
         // Create new entry
@@ -446,7 +467,10 @@ export default function AdminReportsPage() {
             description: formData.description,
             startTime: formData.startTime,
             endTime: formData.endTime || null,
-            date: formData.date
+            date: formData.date,
+            tagIds: entryFields.tagIds,
+            customFields: entryFields.customFields,
+            overrideReason: overrideReason.trim() || undefined
           })
         })
 
@@ -470,7 +494,9 @@ export default function AdminReportsPage() {
           }
         } else {
           const errorData = await response.json()
-          toast.error(`Failed to create entry: ${errorData.error || 'Unknown error'}`)
+          setFieldErrors(errorData.details || {})
+          setOverrideAvailable(!!errorData.overridable)
+          toast.error(`Failed to create entry: ${firstFieldError(errorData.details) || errorData.error || 'Unknown error'}`)
         }
       }
     } catch (error) {
@@ -605,6 +631,11 @@ export default function AdminReportsPage() {
                             {entry.description}
                           </div>
                         )}
+                        {entry.tags?.length > 0 && (
+                          <div className="text-gray-500 truncate text-[10px]">
+                            {entry.tags.map(tag => `#${tag.name}`).join(' ')}
+                          </div>
+                        )}
                       </div>
                       
                       {/* Action buttons */}
@@ -731,6 +762,11 @@ const renderDayView = () => {
                             {entry.description}
                           </div>
                         )}
+                        {entry.tags?.length > 0 && (
+                          <div className="text-gray-500 truncate text-[10px]">
+                            {entry.tags.map(tag => `#${tag.name}`).join(' ')}
+                          </div>
+                        )}
                       </div>
                      <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1 bg-white rounded shadow-sm">
                         <button
@@ -1105,7 +1141,7 @@ const renderDayView = () => {
 
         {/* Edit/Add Entry Dialog */}
         <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
-          <DialogContent className="sm:max-w-[425px]">
+          <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingEntry ? 'Edit Time Entry' : 'Add New Time Entry'}
@@ -1169,28 +1205,53 @@ const renderDayView = () => {
                   <Input 
                     id="startTime"
                     type="time"
+                    className={cn(fieldErrors.startTime && 'border-red-500')}
                     value={formData.startTime}
                     onChange={(e) => setFormData({...formData, startTime: e.target.value})}
                   />
+                  {fieldErrors.startTime && <p className="text-sm text-red-600">{fieldErrors.startTime[0]}</p>}
                 </div>
                 <div className="grid gap-2">
                   <Label htmlFor="endTime">End Time</Label>
                   <Input 
                     id="endTime"
                     type="time"
+                    className={cn(fieldErrors.endTime && 'border-red-500')}
                     value={formData.endTime}
                     onChange={(e) => setFormData({...formData, endTime: e.target.value})}
                   />
+                  {fieldErrors.endTime && <p className="text-sm text-red-600">{fieldErrors.endTime[0]}</p>}
                 </div>
               </div>
-
+              <EntryFieldsInput
+                projectId={formData.projectId}
+                value={entryFields}
+                onChange={setEntryFields}
+                currentTags={editingEntry?.tags}
+                errors={fieldErrors}
+              />
+              {overrideAvailable && (
+                <div className="grid gap-2 rounded-md border border-amber-300 bg-amber-50 p-3">
+                  <Label htmlFor="overrideReason">Override Reason</Label>
+                  <Textarea
+                    id="overrideReason"
+                    value={overrideReason}
+                    onChange={(e) => setOverrideReason(e.target.value)}
+                    placeholder="Why should this entry be saved anyway?"
+                    rows={2}
+                  />
+                  <p className="text-xs text-gray-600">
+                    With a reason the overlap, future and daily maximum checks are skipped. The reason is kept in the audit log.
+                  </p>
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button type="button" variant="outline" onClick={() => setEditDialogOpen(false)}>
                 Cancel
               </Button>
               <Button type="button" onClick={handleSaveEntry}>
-                {editingEntry ? 'Update Entry' : 'Create Entry'}
+                {overrideReason.trim() ? 'Save Anyway' : editingEntry ? 'Update Entry' : 'Create Entry'}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -1,7 +1,7 @@
 // app/reports/projects/[id]/page.tsx
 'use client'
 
-import { useEffect, useState } from 'react'
+import { Fragment, useEffect, useState } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter, useParams } from 'next/navigation'
 import DashboardLayout from '@/components/dashboard-layout'
@@ -11,15 +11,33 @@ import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Loader2, BarChart3, DollarSign, Clock, Download, TrendingUp, AlertTriangle } from 'lucide-react'
+import RateSourceBadge from '@/components/rates/rate-source-badge'
+import { Loader2, BarChart3, DollarSign, Clock, Download, TrendingUp, AlertTriangle, ListChecks } from 'lucide-react'
 import { format } from 'date-fns'
 import { toast } from 'sonner'
+import type { RateSource } from '@/lib/rate-cards'
+import {
+  FiscalQuarter,
+  QUARTER_KEYS,
+  QuarterKey,
+  getFiscalYear,
+  getFiscalYearLabel,
+  getFiscalQuarterLabel
+} from '@/lib/fiscal-calendar'
+
+const QUARTER_STYLES: Record<QuarterKey, { month: string; total: string; grandTotal: string }> = {
+  q1: { month: 'bg-blue-50', total: 'bg-blue-100', grandTotal: 'bg-blue-200' },
+  q2: { month: 'bg-yellow-50', total: 'bg-yellow-100', grandTotal: 'bg-yellow-200' },
+  q3: { month: 'bg-orange-50', total: 'bg-orange-100', grandTotal: 'bg-orange-200' },
+  q4: { month: 'bg-purple-50', total: 'bg-purple-100', grandTotal: 'bg-purple-200' }
+}
 
 interface EmployeeData {
   id: string
   name: string | null
   email: string
   rate: number
+  rates: Array<{ rate: number; source: RateSource; from: string; hours: number }> // resolved rates used this year
   monthlyHours: Record<string, number> // 'YYYY-MM' -> hours
   monthlySpending: Record<string, number> // 'YYYY-MM' -> spending
   quarterlyHours: { q1: number; q2: number; q3: number; q4: number }
@@ -28,6 +46,19 @@ interface EmployeeData {
   totalSpending: number
 }
 
+interface TaskData {
+  taskId: string | null // null collects entries booked without a task
+  name: string
+  code: string | null
+  estimateHours: number | null
+  loggedHours: number | null // across all fiscal years
+  active: boolean
+  quarterlyHours: { q1: number; q2: number; q3: number; q4: number }
+  totalHours: number
+  totalSpending: number
+  users: number
+}
+
 interface ProjectReportData {
   project: {
     id: string
@@ -36,6 +67,8 @@ interface ProjectReportData {
   }
   period: {
     year: number
+    label: string
+    startMonth: number // 1-12, first month of the fiscal year
     startDate: string
     endDate: string
   }
@@ -51,6 +84,12 @@ interface ProjectReportData {
     q4Spent: number
     totalSpent: number
   }
+  budgetHistory: Array<{
+    fiscalYear: number
+    label: string
+    totalBudget: number
+    totalSpent: number
+  }>
   employees: EmployeeData[]
   totals: {
     monthlyHours: Record<string, number>
@@ -60,7 +99,8 @@ interface ProjectReportData {
     totalHours: number
     totalSpending: number
   }
-  months: string[] // ['2025-04', '2025-05', '2025-06', ...]
+  months: string[] // ['2025-04', '2025-05', '2025-06', ...] in fiscal order
+  tasks: TaskData[]
 }
 
 export default function EnhancedProjectReportPage() {
@@ -71,7 +111,8 @@ export default function EnhancedProjectReportPage() {
   
   const [reportData, setReportData] = useState<ProjectReportData | null>(null)
   const [loading, setLoading] = useState(true)
-  const [selectedYear, setSelectedYear] = useState(new Date().getFullYear())
+  // Until a year is picked the API reports on the current fiscal year
+  const [selectedYear, setSelectedYear] = useState<number | null>(null)
   const [exporting, setExporting] = useState(false)
 
   useEffect(() => {
@@ -85,12 +126,12 @@ export default function EnhancedProjectReportPage() {
 
     setLoading(true)
     try {
-      const params = new URLSearchParams({
-        year: selectedYear.toString(),
-        format: 'detailed'
-      })
+      const params = new URLSearchParams({ format: 'detailed' })
+      if (selectedYear !== null) {
+        params.set('year', selectedYear.toString())
+      }
 
-      const response = await fetch(`/api/projects/${projectId}/detailed`)
+      const response = await fetch(`/api/projects/${projectId}/detailed?${params}`)
       
       if (response.ok) {
         const data = await response.json()
@@ -110,13 +151,13 @@ export default function EnhancedProjectReportPage() {
   }
 
   const handleExport = async (format: 'csv' | 'excel' = 'excel') => {
-    if (!projectId) return
+    if (!projectId || !reportData) return
 
     setExporting(true)
     try {
       const params = new URLSearchParams({
         format,
-        year: selectedYear.toString(),
+        year: reportData.period.year.toString(),
         type: 'detailed'
       })
 
@@ -127,7 +168,7 @@ export default function EnhancedProjectReportPage() {
         const url = window.URL.createObjectURL(blob)
         const a = document.createElement('a')
         a.href = url
-        a.download = `${reportData?.project.name}_${selectedYear}_detailed_report.${format === 'excel' ? 'xlsx' : 'csv'}`
+        a.download = `${reportData.project.name}_${reportData.period.year}_detailed_report.${format === 'excel' ? 'xlsx' : 'csv'}`
         document.body.appendChild(a)
         a.click()
         window.URL.revokeObjectURL(url)
@@ -157,20 +198,21 @@ export default function EnhancedProjectReportPage() {
     return hours.toFixed(1)
   }
 
+  const formatRate = (rate: number) => {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(rate)
+  }
+
+  // Employees without any rate show #N/A instead of zero spend
+  const hasRate = (employee: EmployeeData) => employee.rates.some(used => used.rate > 0)
+
   const getMonthName = (monthStr: string) => {
     const [year, month] = monthStr.split('-')
     const date = new Date(parseInt(year), parseInt(month) - 1)
     return format(date, 'MMM')
   }
 
-  const getQuarterLabel = (quarter: 'q1' | 'q2' | 'q3' | 'q4') => {
-    const labels = {
-      q1: 'Q1 (Apr-Jun)',
-      q2: 'Q2 (Jul-Sep)',
-      q3: 'Q3 (Oct-Dec)',
-      q4: 'Q4 (Jan-Mar)'
-    }
-    return labels[quarter]
+  const getQuarterLabel = (quarter: QuarterKey) => {
+    return getFiscalQuarterLabel(Number(quarter.slice(1)) as FiscalQuarter, reportData?.period.startMonth)
   }
 
   const getBudgetStatus = (spent: number, budget: number) => {
@@ -221,6 +263,15 @@ export default function EnhancedProjectReportPage() {
     )
   }
 
+  const { startMonth } = reportData.period
+  const currentFiscalYear = getFiscalYear(new Date(), startMonth)
+
+  // The API returns the twelve months in fiscal order, three per quarter
+  const quarterColumns = QUARTER_KEYS.map((quarter, index) => ({
+    quarter,
+    monthKeys: reportData.months.slice(index * 3, index * 3 + 3)
+  }))
+
   return (
     <DashboardLayout>
       <div className="space-y-6">
@@ -235,7 +286,7 @@ export default function EnhancedProjectReportPage() {
               {reportData.project.name} - Productivity Report
             </h1>
             <p className="text-gray-600">
-              Fiscal {selectedYear}/{selectedYear + 1} YEAR 1
+              Fiscal {reportData.period.label} YEAR 1
             </p>
           </div>
           <div className="flex gap-2">
@@ -263,16 +314,16 @@ export default function EnhancedProjectReportPage() {
           <CardContent className="pt-6">
             <div className="flex items-center gap-4">
               <label className="text-sm font-medium">Fiscal Year:</label>
-              <Select value={selectedYear.toString()} onValueChange={(value) => setSelectedYear(parseInt(value))}>
+              <Select value={reportData.period.year.toString()} onValueChange={(value) => setSelectedYear(parseInt(value))}>
                 <SelectTrigger className="w-[180px]">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   {Array.from({ length: 5 }, (_, i) => {
-                    const year = new Date().getFullYear() - 2 + i
+                    const year = currentFiscalYear - 2 + i
                     return (
                       <SelectItem key={year} value={year.toString()}>
-                        FY {year}/{year + 1}
+                        FY {getFiscalYearLabel(year, startMonth)}
                       </SelectItem>
                     )
                   })}
@@ -287,6 +338,9 @@ export default function EnhancedProjectReportPage() {
           <TabsList>
             <TabsTrigger value="hours">Hours</TabsTrigger>
             <TabsTrigger value="dollars">Dollars</TabsTrigger>
+            {reportData.tasks.some(task => task.taskId !== null) && (
+              <TabsTrigger value="tasks">Tasks</TabsTrigger>
+            )}
             <TabsTrigger value="budget">Budget Summary</TabsTrigger>
           </TabsList>
 
@@ -307,26 +361,18 @@ export default function EnhancedProjectReportPage() {
                       <TableRow>
                         <TableHead className="w-16 bg-green-100 font-bold">HOURS</TableHead>
                         <TableHead className="bg-green-100 font-bold">EMPLOYEE</TableHead>
-                        {/* Q1 Months */}
-                        <TableHead className="text-center bg-blue-50">APR</TableHead>
-                        <TableHead className="text-center bg-blue-50">MAY</TableHead>
-                        <TableHead className="text-center bg-blue-50">JUN</TableHead>
-                        <TableHead className="text-center bg-blue-100 font-bold">Total Q1</TableHead>
-                        {/* Q2 Months */}
-                        <TableHead className="text-center bg-yellow-50">JUL</TableHead>
-                        <TableHead className="text-center bg-yellow-50">AUG</TableHead>
-                        <TableHead className="text-center bg-yellow-50">SEP</TableHead>
-                        <TableHead className="text-center bg-yellow-100 font-bold">Total Q2</TableHead>
-                        {/* Q3 Months */}
-                        <TableHead className="text-center bg-orange-50">OCT</TableHead>
-                        <TableHead className="text-center bg-orange-50">NOV</TableHead>
-                        <TableHead className="text-center bg-orange-50">DEC</TableHead>
-                        <TableHead className="text-center bg-orange-100 font-bold">Total Q3</TableHead>
-                        {/* Q4 Months */}
-                        <TableHead className="text-center bg-purple-50">JAN</TableHead>
-                        <TableHead className="text-center bg-purple-50">FEB</TableHead>
-                        <TableHead className="text-center bg-purple-50">MAR</TableHead>
-                        <TableHead className="text-center bg-purple-100 font-bold">Total Q4</TableHead>
+                        {quarterColumns.map(({ quarter, monthKeys }) => (
+                          <Fragment key={quarter}>
+                            {monthKeys.map((monthKey) => (
+                              <TableHead key={monthKey} className={`text-center ${QUARTER_STYLES[quarter].month}`}>
+                                {getMonthName(monthKey).toUpperCase()}
+                              </TableHead>
+                            ))}
+                            <TableHead className={`text-center ${QUARTER_STYLES[quarter].total} font-bold`}>
+                              Total {quarter.toUpperCase()}
+                            </TableHead>
+                          </Fragment>
+                        ))}
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -338,104 +384,36 @@ export default function EnhancedProjectReportPage() {
                           <TableCell className="bg-green-50 font-medium">
                             {employee.name || employee.email}
                           </TableCell>
-                          {/* Q1 */}
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear}-04`] ? formatHours(employee.monthlyHours[`${selectedYear}-04`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear}-05`] ? formatHours(employee.monthlyHours[`${selectedYear}-05`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear}-06`] ? formatHours(employee.monthlyHours[`${selectedYear}-06`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center bg-blue-100 font-bold">
-                            {formatHours(employee.quarterlyHours.q1)}
-                          </TableCell>
-                          {/* Q2 */}
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear}-07`] ? formatHours(employee.monthlyHours[`${selectedYear}-07`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear}-08`] ? formatHours(employee.monthlyHours[`${selectedYear}-08`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear}-09`] ? formatHours(employee.monthlyHours[`${selectedYear}-09`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center bg-yellow-100 font-bold">
-                            {formatHours(employee.quarterlyHours.q2)}
-                          </TableCell>
-                          {/* Q3 */}
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear}-10`] ? formatHours(employee.monthlyHours[`${selectedYear}-10`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear}-11`] ? formatHours(employee.monthlyHours[`${selectedYear}-11`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear}-12`] ? formatHours(employee.monthlyHours[`${selectedYear}-12`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center bg-orange-100 font-bold">
-                            {formatHours(employee.quarterlyHours.q3)}
-                          </TableCell>
-                          {/* Q4 */}
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear + 1}-01`] ? formatHours(employee.monthlyHours[`${selectedYear + 1}-01`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear + 1}-02`] ? formatHours(employee.monthlyHours[`${selectedYear + 1}-02`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlyHours[`${selectedYear + 1}-03`] ? formatHours(employee.monthlyHours[`${selectedYear + 1}-03`]) : '-'}
-                          </TableCell>
-                          <TableCell className="text-center bg-purple-100 font-bold">
-                            {formatHours(employee.quarterlyHours.q4)}
-                          </TableCell>
+                          {quarterColumns.map(({ quarter, monthKeys }) => (
+                            <Fragment key={quarter}>
+                              {monthKeys.map((monthKey) => (
+                                <TableCell key={monthKey} className="text-center">
+                                  {employee.monthlyHours[monthKey] ? formatHours(employee.monthlyHours[monthKey]) : '-'}
+                                </TableCell>
+                              ))}
+                              <TableCell className={`text-center ${QUARTER_STYLES[quarter].total} font-bold`}>
+                                {formatHours(employee.quarterlyHours[quarter])}
+                              </TableCell>
+                            </Fragment>
+                          ))}
                         </TableRow>
                       ))}
                       {/* Totals Row */}
                       <TableRow className="bg-gray-100 font-bold">
                         <TableCell className="bg-green-100">{formatHours(reportData.totals.totalHours)}</TableCell>
                         <TableCell className="bg-green-100">TOTAL</TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear}-04`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear}-04`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear}-05`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear}-05`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear}-06`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear}-06`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center bg-blue-200">{formatHours(reportData.totals.quarterlyHours.q1)}</TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear}-07`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear}-07`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear}-08`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear}-08`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear}-09`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear}-09`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center bg-yellow-200">{formatHours(reportData.totals.quarterlyHours.q2)}</TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear}-10`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear}-10`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear}-11`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear}-11`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear}-12`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear}-12`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center bg-orange-200">{formatHours(reportData.totals.quarterlyHours.q3)}</TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear + 1}-01`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear + 1}-01`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear + 1}-02`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear + 1}-02`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlyHours[`${selectedYear + 1}-03`] ? formatHours(reportData.totals.monthlyHours[`${selectedYear + 1}-03`]) : '-'}
-                        </TableCell>
-                        <TableCell className="text-center bg-purple-200">{formatHours(reportData.totals.quarterlyHours.q4)}</TableCell>
+                        {quarterColumns.map(({ quarter, monthKeys }) => (
+                          <Fragment key={quarter}>
+                            {monthKeys.map((monthKey) => (
+                              <TableCell key={monthKey} className="text-center">
+                                {reportData.totals.monthlyHours[monthKey] ? formatHours(reportData.totals.monthlyHours[monthKey]) : '-'}
+                              </TableCell>
+                            ))}
+                            <TableCell className={`text-center ${QUARTER_STYLES[quarter].grandTotal}`}>
+                              {formatHours(reportData.totals.quarterlyHours[quarter])}
+                            </TableCell>
+                          </Fragment>
+                        ))}
                       </TableRow>
                     </TableBody>
                   </Table>
@@ -461,89 +439,47 @@ export default function EnhancedProjectReportPage() {
                       <TableRow>
                         <TableHead className="w-16 bg-green-100 font-bold">DOLLARS</TableHead>
                         <TableHead className="bg-green-100 font-bold">EMPLOYEE</TableHead>
-                        {/* Q1 Months */}
-                        <TableHead className="text-center bg-blue-50">APR</TableHead>
-                        <TableHead className="text-center bg-blue-50">MAY</TableHead>
-                        <TableHead className="text-center bg-blue-50">JUN</TableHead>
-                        <TableHead className="text-center bg-blue-100 font-bold">Total Q1</TableHead>
-                        {/* Q2 Months */}
-                        <TableHead className="text-center bg-yellow-50">JUL</TableHead>
-                        <TableHead className="text-center bg-yellow-50">AUG</TableHead>
-                        <TableHead className="text-center bg-yellow-50">SEP</TableHead>
-                        <TableHead className="text-center bg-yellow-100 font-bold">Total Q2</TableHead>
-                        {/* Q3 Months */}
-                        <TableHead className="text-center bg-orange-50">OCT</TableHead>
-                        <TableHead className="text-center bg-orange-50">NOV</TableHead>
-                        <TableHead className="text-center bg-orange-50">DEC</TableHead>
-                        <TableHead className="text-center bg-orange-100 font-bold">Total Q3</TableHead>
-                        {/* Q4 Months */}
-                        <TableHead className="text-center bg-purple-50">JAN</TableHead>
-                        <TableHead className="text-center bg-purple-50">FEB</TableHead>
-                        <TableHead className="text-center bg-purple-50">MAR</TableHead>
-                        <TableHead className="text-center bg-purple-100 font-bold">Total Q4</TableHead>
+                        {quarterColumns.map(({ quarter, monthKeys }) => (
+                          <Fragment key={quarter}>
+                            {monthKeys.map((monthKey) => (
+                              <TableHead key={monthKey} className={`text-center ${QUARTER_STYLES[quarter].month}`}>
+                                {getMonthName(monthKey).toUpperCase()}
+                              </TableHead>
+                            ))}
+                            <TableHead className={`text-center ${QUARTER_STYLES[quarter].total} font-bold`}>
+                              Total {quarter.toUpperCase()}
+                            </TableHead>
+                          </Fragment>
+                        ))}
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {reportData.employees.map((employee) => (
                         <TableRow key={employee.id}>
                           <TableCell className="bg-green-50 font-medium text-center">
-                            {employee.rate > 0 ? formatCurrency(employee.totalSpending) : '#N/A'}
+                            {hasRate(employee) ? formatCurrency(employee.totalSpending) : '#N/A'}
                           </TableCell>
                           <TableCell className="bg-green-50 font-medium">
                             {employee.name || employee.email}
-                          </TableCell>
-                          {/* Q1 */}
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear}-04`] ? formatCurrency(employee.monthlySpending[`${selectedYear}-04`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear}-05`] ? formatCurrency(employee.monthlySpending[`${selectedYear}-05`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear}-06`] ? formatCurrency(employee.monthlySpending[`${selectedYear}-06`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center bg-blue-100 font-bold">
-                            {employee.rate > 0 ? formatCurrency(employee.quarterlySpending.q1) : '#N/A'}
-                          </TableCell>
-                          {/* Q2 */}
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear}-07`] ? formatCurrency(employee.monthlySpending[`${selectedYear}-07`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear}-08`] ? formatCurrency(employee.monthlySpending[`${selectedYear}-08`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear}-09`] ? formatCurrency(employee.monthlySpending[`${selectedYear}-09`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center bg-yellow-100 font-bold">
-                            {employee.rate > 0 ? formatCurrency(employee.quarterlySpending.q2) : '#N/A'}
-                          </TableCell>
-                          {/* Q3 */}
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear}-10`] ? formatCurrency(employee.monthlySpending[`${selectedYear}-10`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear}-11`] ? formatCurrency(employee.monthlySpending[`${selectedYear}-11`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear}-12`] ? formatCurrency(employee.monthlySpending[`${selectedYear}-12`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center bg-orange-100 font-bold">
-                            {employee.rate > 0 ? formatCurrency(employee.quarterlySpending.q3) : '#N/A'}
-                          </TableCell>
-                          {/* Q4 */}
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear + 1}-01`] ? formatCurrency(employee.monthlySpending[`${selectedYear + 1}-01`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear + 1}-02`] ? formatCurrency(employee.monthlySpending[`${selectedYear + 1}-02`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center">
-                            {employee.monthlySpending[`${selectedYear + 1}-03`] ? formatCurrency(employee.monthlySpending[`${selectedYear + 1}-03`]) : (employee.rate > 0 ? '-' : '#N/A')}
-                          </TableCell>
-                          <TableCell className="text-center bg-purple-100 font-bold">
-                            {employee.rate > 0 ? formatCurrency(employee.quarterlySpending.q4) : '#N/A'}
-                          </TableCell>
+                            {employee.rates.map((used) => (
+                              <div key={`${used.source}-${used.rate}`} className="flex items-center gap-1 text-xs font-normal text-gray-600 mt-1">
+                                {formatRate(used.rate)}/hr
+                                <RateSourceBadge source={used.source} />
+                              </div>
+                            ))}
+                          </TableCell>
+                          {quarterColumns.map(({ quarter, monthKeys }) => (
+                            <Fragment key={quarter}>
+                              {monthKeys.map((monthKey) => (
+                                <TableCell key={monthKey} className="text-center">
+                                  {employee.monthlySpending[monthKey] ? formatCurrency(employee.monthlySpending[monthKey]) : (hasRate(employee) ? '-' : '#N/A')}
+                                </TableCell>
+                              ))}
+                              <TableCell className={`text-center ${QUARTER_STYLES[quarter].total} font-bold`}>
+                                {hasRate(employee) ? formatCurrency(employee.quarterlySpending[quarter]) : '#N/A'}
+                              </TableCell>
+                            </Fragment>
+                          ))}
                         </TableRow>
                       ))}
                       {/* Totals Row */}
@@ -552,75 +488,31 @@ export default function EnhancedProjectReportPage() {
                           {reportData.totals.totalSpending > 0 ? formatCurrency(reportData.totals.totalSpending) : '#N/A'}
                         </TableCell>
                         <TableCell className="bg-green-100">TOTAL SALARY</TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear}-04`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear}-04`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear}-05`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear}-05`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear}-06`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear}-06`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center bg-blue-200">
-                          {reportData.totals.quarterlySpending.q1 > 0 ? formatCurrency(reportData.totals.quarterlySpending.q1) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear}-07`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear}-07`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear}-08`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear}-08`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear}-09`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear}-09`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center bg-yellow-200">
-                          {reportData.totals.quarterlySpending.q2 > 0 ? formatCurrency(reportData.totals.quarterlySpending.q2) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear}-10`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear}-10`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear}-11`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear}-11`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear}-12`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear}-12`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center bg-orange-200">
-                          {reportData.totals.quarterlySpending.q3 > 0 ? formatCurrency(reportData.totals.quarterlySpending.q3) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear + 1}-01`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear + 1}-01`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear + 1}-02`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear + 1}-02`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center">
-                          {reportData.totals.monthlySpending[`${selectedYear + 1}-03`] ? formatCurrency(reportData.totals.monthlySpending[`${selectedYear + 1}-03`]) : '#N/A'}
-                        </TableCell>
-                        <TableCell className="text-center bg-purple-200">
-                          {reportData.totals.quarterlySpending.q4 > 0 ? formatCurrency(reportData.totals.quarterlySpending.q4) : '#N/A'}
-                        </TableCell>
+                        {quarterColumns.map(({ quarter, monthKeys }) => (
+                          <Fragment key={quarter}>
+                            {monthKeys.map((monthKey) => (
+                              <TableCell key={monthKey} className="text-center">
+                                {reportData.totals.monthlySpending[monthKey] ? formatCurrency(reportData.totals.monthlySpending[monthKey]) : '#N/A'}
+                              </TableCell>
+                            ))}
+                            <TableCell className={`text-center ${QUARTER_STYLES[quarter].grandTotal}`}>
+                              {reportData.totals.quarterlySpending[quarter] > 0 ? formatCurrency(reportData.totals.quarterlySpending[quarter]) : '#N/A'}
+                            </TableCell>
+                          </Fragment>
+                        ))}
                       </TableRow>
                       {/* Other Costs Row */}
                       <TableRow>
                         <TableCell className="bg-green-50">-</TableCell>
                         <TableCell className="bg-green-50">OTHER COSTS</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center bg-blue-100">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center bg-yellow-100">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center bg-orange-100">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center">-</TableCell>
-                        <TableCell className="text-center bg-purple-100">-</TableCell>
+                        {quarterColumns.map(({ quarter, monthKeys }) => (
+                          <Fragment key={quarter}>
+                            {monthKeys.map((monthKey) => (
+                              <TableCell key={monthKey} className="text-center">-</TableCell>
+                            ))}
+                            <TableCell className={`text-center ${QUARTER_STYLES[quarter].total}`}>-</TableCell>
+                          </Fragment>
+                        ))}
                       </TableRow>
                     </TableBody>
                   </Table>
@@ -629,6 +521,63 @@ export default function EnhancedProjectReportPage() {
             </Card>
           </TabsContent>
 
+          {/* Task Breakdown */}
+          <TabsContent value="tasks">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ListChecks className="h-5 w-5" />
+                  TASKS
+                </CardTitle>
+                <CardDescription>Hours and spending per task this fiscal year, with lifetime hours against the estimate</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>TASK</TableHead>
+                      {QUARTER_KEYS.map((quarter) => (
+                        <TableHead key={quarter} className="text-center">{getQuarterLabel(quarter)}</TableHead>
+                      ))}
+                      <TableHead className="text-center">HOURS</TableHead>
+                      <TableHead className="text-center">SPENDING</TableHead>
+                      <TableHead className="text-center">ESTIMATE</TableHead>
+                      <TableHead className="text-center">LOGGED (ALL TIME)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reportData.tasks.map((task) => (
+                      <TableRow key={task.taskId ?? 'none'}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            {task.code && <span className="text-xs text-gray-500">{task.code}</span>}
+                            {task.name}
+                            {!task.active && <Badge variant="secondary">Inactive</Badge>}
+                          </div>
+                        </TableCell>
+                        {QUARTER_KEYS.map((quarter) => (
+                          <TableCell key={quarter} className="text-center">
+                            {formatHours(task.quarterlyHours[quarter])}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-center font-medium">{formatHours(task.totalHours)}</TableCell>
+                        <TableCell className="text-center">{formatCurrency(task.totalSpending)}</TableCell>
+                        <TableCell className="text-center">
+                          {task.estimateHours !== null ? formatHours(task.estimateHours) : '-'}
+                        </TableCell>
+                        <TableCell
+                          className={`text-center ${task.estimateHours !== null && task.loggedHours !== null && task.loggedHours > task.estimateHours ? 'text-red-600 font-medium' : ''}`}
+                        >
+                          {task.loggedHours !== null ? formatHours(task.loggedHours) : '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Budget Summary */}
           <TabsContent value="budget">
             <div className="space-y-6">
@@ -808,6 +757,57 @@ export default function EnhancedProjectReportPage() {
                   </Table>
                 </CardContent>
               </Card>
+
+              {/* Year over Year */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Year over Year</CardTitle>
+                  <CardDescription>Budget vs actual spend for every fiscal year of this project</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {reportData.budgetHistory.length === 0 ? (
+                    <p className="text-sm text-gray-500">No fiscal year budgets recorded yet.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Fiscal Year</TableHead>
+                          <TableHead className="text-right">Budget</TableHead>
+                          <TableHead className="text-right">Spent</TableHead>
+                          <TableHead className="text-right">Variance</TableHead>
+                          <TableHead className="text-right">Utilization %</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {reportData.budgetHistory.map(entry => (
+                          <TableRow
+                            key={entry.fiscalYear}
+                            className={entry.fiscalYear === reportData.period.year ? 'bg-gray-50 font-medium' : ''}
+                          >
+                            <TableCell>{entry.label}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(entry.totalBudget)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(entry.totalSpent)}</TableCell>
+                            <TableCell className={`text-right ${
+                              entry.totalSpent > entry.totalBudget ? 'text-red-600' : 'text-green-600'
+                            }`}>
+                              {entry.totalBudget > 0
+                                ? formatCurrency(entry.totalBudget - entry.totalSpent)
+                                : '#N/A'
+                              }
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {entry.totalBudget > 0
+                                ? `${((entry.totalSpent / entry.totalBudget) * 100).toFixed(1)}%`
+                                : '#N/A'
+                              }
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
             </div>
           </TabsContent>
         </Tabs>
@@ -35,6 +35,7 @@ interface ProjectSummary {
   description: string | null
   color: string
   active: boolean
+  archivedAt: string | null
   totalBudget: number
   q1Budget: number
   q2Budget: number
@@ -388,6 +389,9 @@ export default function AdminProjectReportsPage() {
                             {!project.active && (
                               <Badge variant="secondary">Inactive</Badge>
                             )}
+                            {project.archivedAt && (
+                              <Badge variant="outline">Archived</Badge>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
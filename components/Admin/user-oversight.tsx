@@ -5,8 +5,8 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Mail, AlertTriangle, Clock, Users } from 'lucide-react'
-import { format, subDays, isAfter } from 'date-fns'
+import { Mail, AlertTriangle, Clock, Users, Loader2 } from 'lucide-react'
+import { format } from 'date-fns'
 
 interface User {
   id: string
@@ -23,15 +23,20 @@ interface UserTimeData {
   lastEntryDate: string | null
   entriesCount: number
   hasIssues: boolean
+  issue: string | null
+  expectedWeekMinutes: number
+  expectedSoFarMinutes: number
+  lastReminderAt: string | null
 }
 
 interface UserOversightProps {
-  onSendReminder: (userId: string, issue: string) => void
+  onSendReminder: (userId: string, issue: string) => Promise<boolean>
 }
 
 export default function UserOversight({ onSendReminder }: UserOversightProps) {
   const [userData, setUserData] = useState<UserTimeData[]>([])
   const [loading, setLoading] = useState(true)
+  const [sendingUserId, setSendingUserId] = useState<string | null>(null)
 
   useEffect(() => {
     fetchUserData()
@@ -49,23 +54,24 @@ export default function UserOversight({ onSendReminder }: UserOversightProps) {
     }
   }
 
+  const handleSendReminder = async (userId: string, issue: string) => {
+    setSendingUserId(userId)
+    try {
+      const sent = await onSendReminder(userId, issue)
+      if (sent) {
+        await fetchUserData()
+      }
+    } finally {
+      setSendingUserId(null)
+    }
+  }
+
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60)
     const mins = minutes % 60
     return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
   }
 
-  const getIssueType = (user: UserTimeData) => {
-    const yesterday = subDays(new Date(), 1)
-    const lastWeek = subDays(new Date(), 7)
-    
-    if (!user.lastEntryDate) return 'No time entries'
-    if (isAfter(yesterday, new Date(user.lastEntryDate))) return 'No recent entries'
-    if (user.todayMinutes === 0) return 'No time logged today'
-    if (user.weekMinutes < 40 * 60) return 'Low weekly hours'
-    return null
-  }
-
   const getUsersWithIssues = () => {
     return userData.filter(user => user.hasIssues)
   }
@@ -148,7 +154,7 @@ export default function UserOversight({ onSendReminder }: UserOversightProps) {
         <CardContent>
           <div className="space-y-4">
             {userData.map((user) => {
-              const issue = getIssueType(user)
+              const issue = user.issue
               
               return (
                 <div
@@ -177,7 +183,7 @@ export default function UserOversight({ onSendReminder }: UserOversightProps) {
                           Today: {formatDuration(user.todayMinutes)}
                         </p>
                         <p className="text-sm text-gray-600">
-                          Week: {formatDuration(user.weekMinutes)}
+                          Week: {formatDuration(user.weekMinutes)} / {formatDuration(user.expectedWeekMinutes)}
                         </p>
                       </div>
                       
@@ -191,15 +197,23 @@ export default function UserOversight({ onSendReminder }: UserOversightProps) {
                             : 'Never'
                           }
                         </p>
+                        {user.lastReminderAt && (
+                          <p className="text-xs text-gray-500">
+                            Reminded: {format(new Date(user.lastReminderAt), 'MMM dd HH:mm')}
+                          </p>
+                        )}
                       </div>
                       
                       {user.hasIssues && (
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => onSendReminder(user.user.id, issue || 'General reminder')}
+                          disabled={sendingUserId === user.user.id}
+                          onClick={() => handleSendReminder(user.user.id, issue || 'General reminder')}
                         >
-                          <Mail className="h-4 w-4 mr-2" />
+                          {sendingUserId === user.user.id
+                            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            : <Mail className="h-4 w-4 mr-2" />}
                           Send Reminder
                         </Button>
                       )}
@@ -8,6 +8,7 @@ import { useState, useEffect } from 'react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import NotificationBell from '@/components/notification-bell'
 import {  
   Calendar, 
   BarChart3, 
@@ -22,7 +23,20 @@ import {
   X,
   LogOut,
   Eye,
-  Edit
+  Edit,
+  Lock,
+  CheckCircle,
+  History,
+  Building2,
+  Mail,
+  Receipt,
+  Trash2,
+  Tags,
+  Upload,
+  CalendarClock,
+  CalendarOff,
+  TreePalm,
+  Hourglass
 } from 'lucide-react'
 
 interface ProjectPermission {
@@ -92,6 +106,12 @@ const getBaseNavigation = (): NavigationItem[] => [
     adminOnly: true,
     employeeOnly: false,
   },
+  {
+    name: 'Leave',
+    href: '/leave',
+    icon: TreePalm,
+    // No restrictions - everyone requests leave
+  },
   {
     name: 'Profile',
     href: '/profile',
@@ -142,6 +162,83 @@ const getBaseNavigation = (): NavigationItem[] => [
         icon: DollarSign,
         adminOnly: true,
         badge: ''
+      },
+      {
+        name: 'Timesheet Periods',
+        href: '/admin/periods',
+        icon: Lock,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Audit Log',
+        href: '/admin/audit',
+        icon: History,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Clients',
+        href: '/admin/clients',
+        icon: Building2,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Invoices',
+        href: '/admin/invoices',
+        icon: Receipt,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Work Schedules',
+        href: '/admin/schedules',
+        icon: CalendarClock,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Leave & Holidays',
+        href: '/admin/leave',
+        icon: CalendarOff,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Overtime',
+        href: '/admin/overtime',
+        icon: Hourglass,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Reminders',
+        href: '/admin/reminders',
+        icon: Mail,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Tags & Fields',
+        href: '/admin/entry-fields',
+        icon: Tags,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Import Entries',
+        href: '/admin/import',
+        icon: Upload,
+        adminOnly: true,
+        badge: ''
+      },
+      {
+        name: 'Project Trash',
+        href: '/admin/trash',
+        icon: Trash2,
+        adminOnly: true,
+        badge: ''
       }
     ]
   }
@@ -218,6 +315,21 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
       }
     }
 
+    // Approvers (admins and FULL_ACCESS project members) review submitted timesheets
+    const isApprover = session?.user?.role === 'ADMIN' ||
+      projectPermissions.some(project => project.permissions.includes('FULL_ACCESS'))
+
+    if (isApprover) {
+      const approvalsItem: NavigationItem = {
+        name: 'Approvals',
+        href: '/approvals',
+        icon: CheckCircle
+      }
+
+      const profileIndex = baseNavigation.findIndex(item => item.href === '/profile')
+      baseNavigation.splice(profileIndex !== -1 ? profileIndex : baseNavigation.length, 0, approvalsItem)
+    }
+
     return baseNavigation
   }
 
@@ -385,14 +497,17 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
                 <h1 className="text-lg font-semibold text-gray-900">TimeTracker</h1>
               </div>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              className="lg:hidden"
-              onClick={() => setSidebarOpen(false)}
-            >
-              <X className="h-5 w-5" />
-            </Button>
+            <div className="flex items-center">
+              {session && <NotificationBell />}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="lg:hidden"
+                onClick={() => setSidebarOpen(false)}
+              >
+                <X className="h-5 w-5" />
+              </Button>
+            </div>
           </div>
 
           {/* Navigation */}
@@ -0,0 +1,41 @@
+import { cn } from '@/lib/utils'
+import { CalendarOff, TreePalm } from 'lucide-react'
+
+export interface DayOff {
+  date: string // yyyy-MM-dd
+  kind: 'HOLIDAY' | 'LEAVE'
+  name: string
+  color: string | null
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED' | null
+}
+
+interface DayOffBannerProps {
+  dayOff: DayOff
+  compact?: boolean
+}
+
+/**
+ * A holiday or a day of leave above the time entries of a day. Pending leave is drawn dashed
+ * since it does not count until approved.
+ */
+export default function DayOffBanner({ dayOff, compact = false }: DayOffBannerProps) {
+  const pending = dayOff.status === 'PENDING'
+  const Icon = dayOff.kind === 'HOLIDAY' ? CalendarOff : TreePalm
+  const color = dayOff.kind === 'HOLIDAY' ? '#059669' : dayOff.color ?? '#10b981'
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-1 rounded border-l-2 bg-emerald-50 text-emerald-800',
+        compact ? 'px-1 py-0.5 text-xs' : 'px-3 py-2 text-sm',
+        pending && 'border border-dashed bg-white text-gray-600'
+      )}
+      style={{ borderLeftColor: color, ...(pending ? { borderColor: color } : {}) }}
+      title={pending ? `${dayOff.name} (waiting for approval)` : dayOff.name}
+    >
+      <Icon className={compact ? 'h-3 w-3 shrink-0' : 'h-4 w-4 shrink-0'} />
+      <span className="truncate font-medium">{dayOff.name}</span>
+      {pending && <span className="shrink-0">· pending</span>}
+    </div>
+  )
+}
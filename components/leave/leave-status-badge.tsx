@@ -0,0 +1,16 @@
+import { Badge } from '@/components/ui/badge'
+
+export type LeaveStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED'
+
+export default function LeaveStatusBadge({ status }: { status: LeaveStatus }) {
+  switch (status) {
+    case 'APPROVED':
+      return <Badge variant="secondary" className="bg-green-100 text-green-800">Approved</Badge>
+    case 'REJECTED':
+      return <Badge variant="destructive">Rejected</Badge>
+    case 'CANCELLED':
+      return <Badge variant="outline">Cancelled</Badge>
+    default:
+      return <Badge variant="secondary" className="bg-amber-100 text-amber-800">Pending</Badge>
+  }
+}
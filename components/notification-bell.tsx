@@ -0,0 +1,120 @@
+// components/notification-bell.tsx
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatDistanceToNow } from 'date-fns'
+import { Bell } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+
+interface NotificationItem {
+  id: string
+  type: string
+  title: string
+  message: string
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+const POLL_INTERVAL_MS = 60 * 1000
+
+export default function NotificationBell() {
+  const [notifications, setNotifications] = useState<NotificationItem[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [open, setOpen] = useState(false)
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications')
+      if (!response.ok) return
+
+      const data = await response.json()
+      setNotifications(data.notifications || [])
+      setUnreadCount(data.unreadCount || 0)
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchNotifications()
+
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchNotifications])
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {})
+      })
+      if (response.ok) {
+        await fetchNotifications()
+      }
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error)
+    }
+  }
+
+  const handleSelect = (notification: NotificationItem) => {
+    if (!notification.readAt) markRead([notification.id])
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-2 border-b">
+          <span className="text-sm font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => markRead()}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet</p>
+          ) : (
+            notifications.map(notification => {
+              const content = (
+                <div className={cn('px-4 py-3 border-b last:border-b-0 hover:bg-gray-50', !notification.readAt && 'bg-blue-50')}>
+                  <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                  <p className="text-xs text-gray-600 mt-0.5">{notification.message}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+              )
+
+              return notification.link ? (
+                <Link key={notification.id} href={notification.link} onClick={() => handleSelect(notification)} className="block">
+                  {content}
+                </Link>
+              ) : (
+                <button key={notification.id} type="button" onClick={() => handleSelect(notification)} className="block w-full text-left">
+                  {content}
+                </button>
+              )
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -13,19 +13,30 @@ interface Project {
   code: string | null
   color: string
   active: boolean
+  billable?: boolean
+  clientId?: string | null
   createdAt: string
   updatedAt: string
 }
 
+interface Client {
+  id: string
+  name: string
+}
+
 interface CreateProjectData {
   name: string
   code: string | null
   color: string
   active: boolean
+  billable?: boolean
+  clientId?: string | null
 }
 
 interface ProjectFormProps {
   project?: Project
+  // Only passed for admins, who manage billing
+  clients?: Client[]
   onSubmit: (data: CreateProjectData) => void
   onCancel: () => void
 }
@@ -41,12 +52,16 @@ const colorOptions = [
   { value: '#f97316', label: 'Orange' }
 ]
 
-export default function ProjectForm({ project, onSubmit, onCancel }: ProjectFormProps) {
+export default function ProjectForm({ project, clients, onSubmit, onCancel }: ProjectFormProps) {
   const [formData, setFormData] = useState<CreateProjectData>({
     name: project?.name || '',
     code: project?.code || '',
     color: project?.color || '#3b82f6',
-    active: project?.active ?? true
+    active: project?.active ?? true,
+    ...(clients ? {
+      billable: project?.billable ?? false,
+      clientId: project?.clientId ?? null
+    } : {})
   })
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -111,6 +126,38 @@ export default function ProjectForm({ project, onSubmit, onCancel }: ProjectForm
             />
             <Label htmlFor="active">Active</Label>
           </div>
+
+          {clients && (
+            <>
+              <div>
+                <Label htmlFor="client">Client</Label>
+                <Select
+                  value={formData.clientId || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, clientId: value === 'none' ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Internal (no client)</SelectItem>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="billable"
+                  checked={formData.billable ?? false}
+                  onChange={(e) => setFormData({ ...formData, billable: e.target.checked })}
+                />
+                <Label htmlFor="billable">Billable to client</Label>
+              </div>
+            </>
+          )}
           
           <div className="flex gap-2">
             <Button type="submit">
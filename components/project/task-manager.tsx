@@ -0,0 +1,330 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Loader2, Plus, Edit, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface Task {
+  id: string
+  name: string
+  code: string | null
+  estimateHours: number | null
+  active: boolean
+  assignees: { id: string; name: string | null; email: string }[]
+  loggedHours: number
+  entries: number
+}
+
+interface User {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface TaskFormData {
+  name: string
+  code: string
+  estimateHours: string
+  active: boolean
+  assigneeIds: string[]
+}
+
+interface TaskManagerProps {
+  project: { id: string; name: string } | null
+  onClose: () => void
+}
+
+const emptyForm: TaskFormData = {
+  name: '',
+  code: '',
+  estimateHours: '',
+  active: true,
+  assigneeIds: []
+}
+
+export default function TaskManager({ project, onClose }: TaskManagerProps) {
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [users, setUsers] = useState<User[]>([])
+  const [canManage, setCanManage] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState<TaskFormData>(emptyForm)
+
+  useEffect(() => {
+    if (project) {
+      setShowForm(false)
+      setEditingTaskId(null)
+      fetchTasks(project.id)
+    }
+  }, [project])
+
+  const fetchTasks = async (projectId: string) => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/projects/${projectId}/tasks`)
+      if (response.ok) {
+        const data = await response.json()
+        setTasks(data.tasks)
+        setUsers(data.users)
+        setCanManage(data.canManage)
+      } else {
+        toast.error('Failed to fetch tasks')
+      }
+    } catch (error) {
+      console.error('Error fetching tasks:', error)
+      toast.error('Failed to fetch tasks')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreateForm = () => {
+    setEditingTaskId(null)
+    setFormData(emptyForm)
+    setShowForm(true)
+  }
+
+  const openEditForm = (task: Task) => {
+    setEditingTaskId(task.id)
+    setFormData({
+      name: task.name,
+      code: task.code || '',
+      estimateHours: task.estimateHours !== null ? task.estimateHours.toString() : '',
+      active: task.active,
+      assigneeIds: task.assignees.map(assignee => assignee.id)
+    })
+    setShowForm(true)
+  }
+
+  const toggleAssignee = (userId: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      assigneeIds: checked
+        ? [...formData.assigneeIds, userId]
+        : formData.assigneeIds.filter(id => id !== userId)
+    })
+  }
+
+  const handleSave = async () => {
+    if (!project) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(
+        editingTaskId ? `/api/projects/${project.id}/tasks/${editingTaskId}` : `/api/projects/${project.id}/tasks`,
+        {
+          method: editingTaskId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: formData.name,
+            code: formData.code || null,
+            estimateHours: formData.estimateHours ? parseFloat(formData.estimateHours) : null,
+            active: formData.active,
+            assigneeIds: formData.assigneeIds
+          })
+        }
+      )
+
+      if (response.ok) {
+        toast.success(editingTaskId ? 'Task updated' : 'Task added')
+        setShowForm(false)
+        setEditingTaskId(null)
+        fetchTasks(project.id)
+      } else {
+        const errorData = await response.json()
+        const fieldError = errorData.details && Object.values(errorData.details as Record<string, string[]>)[0]?.[0]
+        toast.error(fieldError || errorData.error || 'Failed to save task')
+      }
+    } catch (error) {
+      console.error('Error saving task:', error)
+      toast.error('Failed to save task')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (task: Task) => {
+    if (!project || !confirm(`Delete task ${task.name}?`)) return
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/tasks/${task.id}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        toast.success('Task deleted')
+        fetchTasks(project.id)
+      } else {
+        const errorData = await response.json()
+        toast.error(errorData.error || 'Failed to delete task')
+      }
+    } catch (error) {
+      console.error('Error deleting task:', error)
+      toast.error('Failed to delete task')
+    }
+  }
+
+  return (
+    <Dialog open={!!project} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Tasks for {project?.name}</DialogTitle>
+          <DialogDescription>
+            Tasks split a project into activities such as design or QA. Tasks without assignees are open to everyone on the project.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {tasks.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">No tasks yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead className="text-right">Estimate</TableHead>
+                    <TableHead className="text-right">Logged</TableHead>
+                    <TableHead>Assignees</TableHead>
+                    {canManage && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tasks.map(task => (
+                    <TableRow key={task.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{task.name}</span>
+                          {task.code && <span className="text-xs text-gray-500">{task.code}</span>}
+                          {!task.active && <Badge variant="secondary">Inactive</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {task.estimateHours !== null ? `${task.estimateHours}h` : '—'}
+                      </TableCell>
+                      <TableCell className={`text-right ${task.estimateHours !== null && task.loggedHours > task.estimateHours ? 'text-red-600' : ''}`}>
+                        {task.loggedHours.toFixed(1)}h
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {task.assignees.length > 0
+                          ? task.assignees.map(assignee => assignee.name || assignee.email).join(', ')
+                          : <span className="text-gray-500">Everyone</span>}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="outline" onClick={() => openEditForm(task)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              title={task.entries > 0 ? 'Tasks with time entries can only be deactivated' : 'Delete task'}
+                              disabled={task.entries > 0}
+                              onClick={() => handleDelete(task)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {canManage && !showForm && (
+              <Button variant="outline" onClick={openCreateForm}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Task
+              </Button>
+            )}
+
+            {canManage && showForm && (
+              <div className="border rounded-lg p-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="taskName">Name</Label>
+                    <Input
+                      id="taskName"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="e.g. Design"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="taskCode">Code</Label>
+                    <Input
+                      id="taskCode"
+                      value={formData.code}
+                      onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="taskEstimate">Estimate (hours)</Label>
+                    <Input
+                      id="taskEstimate"
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={formData.estimateHours}
+                      onChange={(e) => setFormData({ ...formData, estimateHours: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="taskActive"
+                    checked={formData.active}
+                    onCheckedChange={(checked) => setFormData({ ...formData, active: checked === true })}
+                  />
+                  <Label htmlFor="taskActive">Active</Label>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Assignees</Label>
+                  <p className="text-xs text-gray-500">Leave empty to let everyone on the project book time against this task.</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                    {users.map(user => (
+                      <div key={user.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`assignee-${user.id}`}
+                          checked={formData.assigneeIds.includes(user.id)}
+                          onCheckedChange={(checked) => toggleAssignee(user.id, checked === true)}
+                        />
+                        <Label htmlFor={`assignee-${user.id}`} className="font-normal">{user.name || user.email}</Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button onClick={handleSave} disabled={saving || !formData.name.trim()}>
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {editingTaskId ? 'Update Task' : 'Add Task'}
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowForm(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,40 +4,69 @@ import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Play, Square, Plus, Clock, Calendar } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Play, Square, Plus, Clock, Calendar, CopyPlus } from 'lucide-react'
 import React from 'react'
+import QuickEntryInput from '@/components/time-entry/quick-entry-input'
 
 interface Project {
   id: string
   name: string
   color: string
+  code?: string | null
+}
+
+interface Task {
+  id: string
+  projectId: string
+  name: string
 }
 
 interface ActiveEntry {
   id: string
   startTime: Date
   projectId: string
+  taskId?: string | null
   description: string
 }
 
+interface EntryTemplate {
+  id: string
+  name: string
+  projectColor: string
+  durationMinutes: number
+}
+
 interface QuickActionsProps {
   projects: Project[]
+  // Selectable tasks across projects; projects with tasks get a task picker next to their start button
+  tasks?: Task[]
   activeEntry?: ActiveEntry
   recentProjects: Project[]
-  onStartTimer: (projectId: string) => void
+  onStartTimer: (projectId: string, taskId?: string) => void
   onStopTimer: () => void
   onQuickEntry: () => void
+  // Saved templates, each placed on today with one click
+  templates?: EntryTemplate[]
+  onPlaceTemplate?: (templateId: string) => void
+  // Called after an entry typed into the quick entry box is saved
+  onEntryLogged?: () => void
 }
 
 export default function QuickActions({
   projects,
+  tasks = [],
   activeEntry,
   recentProjects,
   onStartTimer,
   onStopTimer,
-  onQuickEntry
+  onQuickEntry,
+  templates = [],
+  onPlaceTemplate,
+  onEntryLogged
 }: QuickActionsProps) {
   const [elapsedTime, setElapsedTime] = useState(0)
+  const [selectedTasks, setSelectedTasks] = useState<Record<string, string>>({})
 
   // Calculate elapsed time for active entry
   React.useEffect(() => {
@@ -69,6 +98,10 @@ export default function QuickActions({
     ? projects.find(p => p.id === activeEntry.projectId)
     : null
 
+  const currentTask = activeEntry?.taskId
+    ? tasks.find(t => t.id === activeEntry.taskId)
+    : null
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
       {/* Active Timer */}
@@ -92,6 +125,7 @@ export default function QuickActions({
                     style={{ backgroundColor: currentProject.color }}
                   />
                   <span className="font-medium">{currentProject.name}</span>
+                  {currentTask && <span className="text-gray-500">/ {currentTask.name}</span>}
                 </div>
               )}
               <Button onClick={onStopTimer} size="lg" variant="destructive" className="w-full">
@@ -105,21 +139,43 @@ export default function QuickActions({
                 Start timing your recent projects
               </p>
               <div className="grid grid-cols-1 gap-2">
-                {recentProjects.slice(0, 3).map((project) => (
-                  <Button
-                    key={project.id}
-                    variant="outline"
-                    onClick={() => onStartTimer(project.id)}
-                    className="justify-start"
-                  >
-                    <Play className="h-4 w-4 mr-2" />
-                    <div
-                      className="w-3 h-3 rounded-full mr-2"
-                      style={{ backgroundColor: project.color }}
-                    />
-                    {project.name}
-                  </Button>
-                ))}
+                {recentProjects.slice(0, 3).map((project) => {
+                  const projectTasks = tasks.filter(task => task.projectId === project.id)
+                  const selectedTask = selectedTasks[project.id] || 'none'
+
+                  return (
+                    <div key={project.id} className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => onStartTimer(project.id, selectedTask === 'none' ? undefined : selectedTask)}
+                        className="justify-start flex-1"
+                      >
+                        <Play className="h-4 w-4 mr-2" />
+                        <div
+                          className="w-3 h-3 rounded-full mr-2"
+                          style={{ backgroundColor: project.color }}
+                        />
+                        {project.name}
+                      </Button>
+                      {projectTasks.length > 0 && (
+                        <Select
+                          value={selectedTask}
+                          onValueChange={(value) => setSelectedTasks({ ...selectedTasks, [project.id]: value })}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue placeholder="Task" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No task</SelectItem>
+                            {projectTasks.map((task) => (
+                              <SelectItem key={task.id} value={task.id}>{task.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  )
+                })}
               </div>
             </div>
           )}
@@ -136,6 +192,8 @@ export default function QuickActions({
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 gap-3">
+            <QuickEntryInput projects={projects} onSaved={onEntryLogged} />
+
             <Button onClick={onQuickEntry} variant="outline" className="justify-start">
               <Calendar className="h-4 w-4 mr-2" />
               Add Manual Entry
@@ -145,6 +203,31 @@ export default function QuickActions({
               <Clock className="h-4 w-4 mr-2" />
               View Calendar
             </Button>
+
+            {templates.length > 0 && onPlaceTemplate && (
+              <div className="pt-2 border-t">
+                <p className="text-xs text-gray-500 mb-2">Templates</p>
+                <div className="grid grid-cols-1 gap-2">
+                  {templates.slice(0, 5).map((template) => (
+                    <Button
+                      key={template.id}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onPlaceTemplate(template.id)}
+                      className="justify-start"
+                    >
+                      <CopyPlus className="h-4 w-4 mr-2" />
+                      <div
+                        className="w-3 h-3 rounded-full mr-2"
+                        style={{ backgroundColor: template.projectColor }}
+                      />
+                      {template.name}
+                      <span className="ml-auto text-xs text-gray-500">{template.durationMinutes}m</span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
             
             <div className="pt-2 border-t">
               <p className="text-xs text-gray-500 mb-2">Today's Summary</p>
@@ -0,0 +1,339 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import RateImpactTable from '@/components/rates/rate-impact-table'
+import { Loader2, Users, CheckCircle, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
+import type { BulkRatePreview } from '@/lib/bulk-rates'
+
+type BulkMode = 'adjust' | 'import'
+
+interface AdjustmentFormData {
+  role: 'all' | 'ADMIN' | 'EMPLOYEE'
+  jobRole: string // 'any' for every job role
+  includeInactive: boolean
+  kind: 'PERCENT' | 'FIXED'
+  amount: string
+  effectiveDate: string
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+/**
+ * Change many users' rates at once, by a percentage or fixed amount for everyone matching a
+ * filter or from a CSV of email, rate and effective date. Changes are previewed before saving.
+ */
+export default function BulkRateChanges({ jobRoles, onApplied }: { jobRoles: string[]; onApplied: () => void }) {
+  const [mode, setMode] = useState<BulkMode>('adjust')
+  const [form, setForm] = useState<AdjustmentFormData>({
+    role: 'all',
+    jobRole: 'any',
+    includeInactive: false,
+    kind: 'PERCENT',
+    amount: '',
+    effectiveDate: format(new Date(), 'yyyy-MM-dd')
+  })
+  const [file, setFile] = useState<File | null>(null)
+  const [importDate, setImportDate] = useState('')
+  const [preview, setPreview] = useState<BulkRatePreview | null>(null)
+  const [working, setWorking] = useState<'preview' | 'commit' | null>(null)
+
+  const updateForm = (changes: Partial<AdjustmentFormData>) => {
+    setForm({ ...form, ...changes })
+    setPreview(null)
+  }
+
+  const sendStep = (step: 'preview' | 'commit') => {
+    if (mode === 'adjust') {
+      return fetch('/api/admin/rates/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          step,
+          role: form.role === 'all' ? null : form.role,
+          jobRole: form.jobRole === 'any' ? null : form.jobRole,
+          includeInactive: form.includeInactive,
+          kind: form.kind,
+          amount: parseFloat(form.amount),
+          effectiveDate: form.effectiveDate
+        })
+      })
+    }
+
+    const body = new FormData()
+    body.append('file', file!)
+    body.append('step', step)
+    if (importDate) body.append('effectiveDate', importDate)
+    return fetch('/api/admin/rates/import', { method: 'POST', body })
+  }
+
+  const handleStep = async (step: 'preview' | 'commit') => {
+    setWorking(step)
+    try {
+      const response = await sendStep(step)
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details ? Object.values(data.details as Record<string, string[]>).flat()[0] : undefined
+        toast.error(detail || data.error || (step === 'preview' ? 'Failed to preview rate changes' : 'Failed to apply rate changes'))
+        if (data.preview) setPreview(data.preview)
+        return
+      }
+
+      if (step === 'preview') {
+        setPreview(data)
+        return
+      }
+
+      toast.success(`${data.changed} rate change(s) saved; spend recalculated for ${data.projectIds.length} project(s)`)
+      setPreview(null)
+      setFile(null)
+      onApplied()
+    } catch (error) {
+      console.error(`Failed to ${step} rate changes:`, error)
+      toast.error(step === 'preview' ? 'Failed to preview rate changes' : 'Failed to apply rate changes')
+    } finally {
+      setWorking(null)
+    }
+  }
+
+  const canPreview = mode === 'adjust'
+    ? form.amount !== '' && Number(form.amount) !== 0 && !!form.effectiveDate
+    : !!file
+  const userChanges = new Map(preview?.impact?.users.map(user => [user.userId, user.change]) ?? [])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Bulk Rate Changes
+        </CardTitle>
+        <CardDescription>
+          Change many rates at once. Every change is saved together or not at all, and each affected
+          project&apos;s spend is recalculated once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Tabs
+          value={mode}
+          onValueChange={(value) => {
+            setMode(value as BulkMode)
+            setPreview(null)
+          }}
+        >
+          <TabsList>
+            <TabsTrigger value="adjust">Adjust Rates</TabsTrigger>
+            <TabsTrigger value="import">Import CSV</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="adjust" className="space-y-4 pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={form.role} onValueChange={(value) => updateForm({ role: value as AdjustmentFormData['role'] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everyone</SelectItem>
+                    <SelectItem value="EMPLOYEE">Employees</SelectItem>
+                    <SelectItem value="ADMIN">Admins</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Job Role</Label>
+                <Select value={form.jobRole} onValueChange={(value) => updateForm({ jobRole: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any job role</SelectItem>
+                    {jobRoles.map(role => (
+                      <SelectItem key={role} value={role}>{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Change By</Label>
+                <Select value={form.kind} onValueChange={(value) => updateForm({ kind: value as AdjustmentFormData['kind'] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="PERCENT">Percentage (%)</SelectItem>
+                    <SelectItem value="FIXED">Fixed amount ($/hr)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-amount">{form.kind === 'PERCENT' ? 'Percent' : 'Amount ($)'}</Label>
+                <Input
+                  id="bulk-amount"
+                  type="number"
+                  step={form.kind === 'PERCENT' ? '0.1' : '0.01'}
+                  placeholder={form.kind === 'PERCENT' ? 'e.g. 3.5' : 'e.g. 2.50'}
+                  value={form.amount}
+                  onChange={(e) => updateForm({ amount: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-date">Effective Date</Label>
+                <Input
+                  id="bulk-date"
+                  type="date"
+                  value={form.effectiveDate}
+                  onChange={(e) => updateForm({ effectiveDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="bulk-inactive"
+                checked={form.includeInactive}
+                onCheckedChange={(checked) => updateForm({ includeInactive: checked === true })}
+              />
+              <Label htmlFor="bulk-inactive">Include inactive users</Label>
+            </div>
+            <p className="text-sm text-gray-500">
+              Use a negative amount to lower rates. Each user&apos;s new rate is worked out from their rate on the effective date.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4 pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="bulk-file">CSV File</Label>
+                <Input
+                  id="bulk-file"
+                  type="file"
+                  accept=".csv"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] ?? null)
+                    setPreview(null)
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bulk-import-date">Default Effective Date</Label>
+                <Input
+                  id="bulk-import-date"
+                  type="date"
+                  value={importDate}
+                  onChange={(e) => {
+                    setImportDate(e.target.value)
+                    setPreview(null)
+                  }}
+                />
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Columns: <code>email</code>, <code>rate</code> and optionally <code>effective date</code> (yyyy-MM-dd).
+              Rows without a date use the default effective date.
+            </p>
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => handleStep('preview')} disabled={!canPreview || working !== null}>
+            {working === 'preview' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Preview Changes
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm">
+              {preview.summary.invalid > 0 ? (
+                <>
+                  <AlertTriangle className="h-4 w-4 text-red-600" />
+                  {preview.summary.invalid} of {preview.summary.total} changes have errors. Fix them and preview again.
+                </>
+              ) : preview.summary.total === 0 ? (
+                <>No users match; nothing would change.</>
+              ) : (
+                <>
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  {preview.summary.total} rate change{preview.summary.total !== 1 ? 's' : ''} ready to apply.
+                </>
+              )}
+            </div>
+
+            {preview.rows.length > 0 && (
+              <div className="max-h-96 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {mode === 'import' && <TableHead>Row</TableHead>}
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Effective Date</TableHead>
+                      <TableHead className="text-right">Current Rate</TableHead>
+                      <TableHead className="text-right">New Rate</TableHead>
+                      <TableHead className="text-right">Spend Change</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row, index) => {
+                      const spendChange = row.user ? userChanges.get(row.user.id) : undefined
+                      return (
+                        <TableRow key={row.rowNumber ?? `${row.email}-${index}`} className={row.errors.length > 0 ? 'bg-red-50' : undefined}>
+                          {mode === 'import' && <TableCell>{row.rowNumber}</TableCell>}
+                          <TableCell>
+                            <div className="font-medium">{row.user?.name || row.email || '—'}</div>
+                            {row.user?.name && <div className="text-sm text-gray-500">{row.email}</div>}
+                          </TableCell>
+                          <TableCell>
+                            {row.effectiveDate ? format(new Date(`${row.effectiveDate}T00:00:00`), 'MMM dd, yyyy') : '—'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {row.currentRate === null ? '—' : `${formatCurrency(row.currentRate)}/hr`}
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {row.newRate === null ? '—' : `${formatCurrency(row.newRate)}/hr`}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {spendChange === undefined ? '—' : `${spendChange > 0 ? '+' : ''}${formatCurrency(spendChange)}`}
+                          </TableCell>
+                          <TableCell className="text-sm text-red-600">{row.errors.join('; ')}</TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {preview.impact && (
+              <>
+                <div className="font-medium">Impact on Project Spend</div>
+                <div className="max-h-96 overflow-y-auto">
+                  <RateImpactTable impact={preview.impact} />
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={() => handleStep('commit')} disabled={working !== null}>
+                    {working === 'commit' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Apply {preview.summary.total} Rate Change{preview.summary.total !== 1 ? 's' : ''}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,107 @@
+import { format } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { RateImpact, SpendChange } from '@/lib/spending-calculator-enhanced'
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+}
+
+function ChangeCell({ spend }: { spend: SpendChange }) {
+  return (
+    <TableCell className={`text-right font-medium ${spend.change > 0 ? 'text-red-600' : 'text-green-600'}`}>
+      {spend.change > 0 ? '+' : ''}{formatCurrency(spend.change)}
+    </TableCell>
+  )
+}
+
+function SpendCells({ spend }: { spend: SpendChange }) {
+  return (
+    <>
+      <TableCell className="text-right">{formatCurrency(spend.oldSpend)}</TableCell>
+      <TableCell className="text-right">{formatCurrency(spend.newSpend)}</TableCell>
+      <ChangeCell spend={spend} />
+    </>
+  )
+}
+
+/**
+ * Old vs new spend of each project a rate change touches, by quarter and month, with the
+ * budget alert thresholds the change would cross
+ */
+export default function RateImpactTable({ impact }: { impact: RateImpact }) {
+  if (impact.projects.length === 0) {
+    return <p className="text-sm text-gray-500">No approved hours are costed differently; project spend stays the same.</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm">
+        Spend changes on {impact.projects.length} project{impact.projects.length !== 1 ? 's' : ''} by{' '}
+        <span className="font-medium">{impact.change > 0 ? '+' : ''}{formatCurrency(impact.change)}</span>
+        {impact.thresholdsCrossed > 0 && (
+          <span className="text-red-600">
+            {' '}and crosses {impact.thresholdsCrossed} budget threshold{impact.thresholdsCrossed !== 1 ? 's' : ''}
+          </span>
+        )}
+        .
+      </p>
+
+      {impact.projects.map(project => (
+        <div key={project.projectId} className="border rounded-md">
+          <div className="flex justify-between items-center px-3 py-2 bg-gray-50 text-sm">
+            <span className="font-medium">{project.projectName}</span>
+            <span>
+              {formatCurrency(project.oldSpend)} → {formatCurrency(project.newSpend)}
+            </span>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Old Spend</TableHead>
+                <TableHead className="text-right">New Spend</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead>Budget</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {project.quarters.map(quarter => (
+                <TableRow key={`${quarter.fiscalYear}-${quarter.quarter}`}>
+                  <TableCell className="font-medium">{quarter.label}</TableCell>
+                  <SpendCells spend={quarter} />
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-1">
+                      {quarter.budget > 0 ? (
+                        <span className="text-sm text-gray-500">{formatCurrency(quarter.budget)}</span>
+                      ) : (
+                        <span className="text-sm text-gray-500">No budget</span>
+                      )}
+                      {quarter.thresholdsCrossed.map(threshold => (
+                        <Badge key={`up-${threshold}`} variant="destructive" className="text-xs">
+                          Crosses {threshold}%
+                        </Badge>
+                      ))}
+                      {quarter.thresholdsCleared.map(threshold => (
+                        <Badge key={`down-${threshold}`} variant="outline" className="text-xs">
+                          Back under {threshold}%
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {project.months.map(month => (
+                <TableRow key={month.month} className="text-sm text-gray-600">
+                  <TableCell className="pl-6">{format(new Date(`${month.month}-01T00:00:00`), 'MMM yyyy')}</TableCell>
+                  <SpendCells spend={month} />
+                  <TableCell />
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ))}
+    </div>
+  )
+}
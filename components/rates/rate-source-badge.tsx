@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge'
+import type { RateSource } from '@/lib/rate-cards'
+
+const LABELS: Record<RateSource, string> = {
+  PROJECT_USER: 'Project rate',
+  PROJECT_ROLE: 'Role rate',
+  USER_HISTORY: 'Rate history',
+  EMPLOYEE_RATE: 'Current rate'
+}
+
+export default function RateSourceBadge({ source }: { source: RateSource }) {
+  const projectSpecific = source === 'PROJECT_USER' || source === 'PROJECT_ROLE'
+  return (
+    <Badge
+      variant={projectSpecific ? 'secondary' : 'outline'}
+      className={`text-xs font-normal ${projectSpecific ? 'bg-indigo-100 text-indigo-800' : ''}`}
+    >
+      {LABELS[source]}
+    </Badge>
+  )
+}
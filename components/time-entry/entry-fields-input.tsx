@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+export interface EntryTag {
+  id: string
+  name: string
+  color: string
+}
+
+interface EntryFieldDefinition {
+  id: string
+  key: string
+  name: string
+  type: 'TEXT' | 'NUMBER' | 'SELECT' | 'DATE'
+  options: string[]
+  sortOrder: number
+  requiredProjectIds: string[]
+}
+
+export interface EntryFieldsValue {
+  tagIds: string[]
+  customFields: Record<string, string>
+}
+
+interface EntryFieldsInputProps {
+  projectId: string
+  value: EntryFieldsValue
+  onChange: (value: EntryFieldsValue) => void
+  // Tags already on the entry, so inactive ones still show up as selected
+  currentTags?: EntryTag[]
+  errors?: Record<string, string[]>
+}
+
+export const emptyEntryFields: EntryFieldsValue = { tagIds: [], customFields: {} }
+
+// Turns an entry's tags and field values (as returned by the entry APIs) into form state
+export function entryFieldsFrom(entry: {
+  tags?: ({ tag: EntryTag } | EntryTag)[]
+  fieldValues?: { fieldId: string; value: string }[]
+  customFields?: Record<string, string>
+}): EntryFieldsValue {
+  return {
+    tagIds: (entry.tags || []).map(tag => ('tag' in tag ? tag.tag.id : tag.id)),
+    customFields: entry.customFields
+      ? { ...entry.customFields }
+      : Object.fromEntries((entry.fieldValues || []).map(({ fieldId, value }) => [fieldId, value]))
+  }
+}
+
+// First message from a validation response's `details`, for a toast
+export function firstFieldError(details: unknown): string | null {
+  if (!details || typeof details !== 'object') return null
+  const messages = Object.values(details as Record<string, string[] | undefined>).find(list => list && list.length > 0)
+  return messages ? messages[0] : null
+}
+
+export default function EntryFieldsInput({ projectId, value, onChange, currentTags = [], errors = {} }: EntryFieldsInputProps) {
+  const [tags, setTags] = useState<EntryTag[]>([])
+  const [fields, setFields] = useState<EntryFieldDefinition[]>([])
+
+  useEffect(() => {
+    const fetchDefinitions = async () => {
+      try {
+        const response = await fetch('/api/entry-fields')
+        if (response.ok) {
+          const data = await response.json()
+          setTags(data.tags)
+          setFields(data.fields)
+        }
+      } catch (error) {
+        console.error('Failed to fetch entry fields:', error)
+      }
+    }
+
+    fetchDefinitions()
+  }, [])
+
+  const tagOptions = [
+    ...tags,
+    ...currentTags.filter(tag => !tags.some(active => active.id === tag.id))
+  ]
+
+  if (tagOptions.length === 0 && fields.length === 0) {
+    return null
+  }
+
+  const toggleTag = (tagId: string) => {
+    onChange({
+      ...value,
+      tagIds: value.tagIds.includes(tagId)
+        ? value.tagIds.filter(id => id !== tagId)
+        : [...value.tagIds, tagId]
+    })
+  }
+
+  const setFieldValue = (fieldId: string, fieldValue: string) => {
+    onChange({ ...value, customFields: { ...value.customFields, [fieldId]: fieldValue } })
+  }
+
+  return (
+    <div className="grid gap-4">
+      {tagOptions.length > 0 && (
+        <div className="grid gap-2">
+          <Label>Tags</Label>
+          <div className="flex flex-wrap gap-2">
+            {tagOptions.map(tag => {
+              const selected = value.tagIds.includes(tag.id)
+              return (
+                <Badge
+                  key={tag.id}
+                  variant={selected ? 'default' : 'outline'}
+                  className="cursor-pointer"
+                  style={selected ? { backgroundColor: tag.color, borderColor: tag.color } : { borderColor: tag.color }}
+                  onClick={() => toggleTag(tag.id)}
+                >
+                  {tag.name}
+                </Badge>
+              )
+            })}
+          </div>
+          {errors.tagIds && <p className="text-sm text-red-600">{errors.tagIds[0]}</p>}
+        </div>
+      )}
+
+      {fields.map(field => {
+        const required = field.requiredProjectIds.includes(projectId)
+        const fieldValue = value.customFields[field.id] ?? ''
+        const error = errors[`customFields.${field.id}`]
+
+        return (
+          <div key={field.id} className="grid gap-2">
+            <Label htmlFor={`field-${field.key}`}>
+              {field.name}{required && <span className="text-red-600"> *</span>}
+            </Label>
+            {field.type === 'SELECT' ? (
+              <Select
+                value={fieldValue || 'none'}
+                onValueChange={(selected) => setFieldValue(field.id, selected === 'none' ? '' : selected)}
+              >
+                <SelectTrigger id={`field-${field.key}`}>
+                  <SelectValue placeholder={`Select ${field.name.toLowerCase()}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {field.options.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={`field-${field.key}`}
+                type={field.type === 'NUMBER' ? 'number' : field.type === 'DATE' ? 'date' : 'text'}
+                step={field.type === 'NUMBER' ? 'any' : undefined}
+                value={fieldValue}
+                onChange={(e) => setFieldValue(field.id, e.target.value)}
+              />
+            )}
+            {error && <p className="text-sm text-red-600">{error[0]}</p>}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,554 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { format, isSameDay } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Bookmark, Check, CopyPlus, Edit, Loader2, Plus, Repeat, Trash2, X } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface Project {
+  id: string
+  name: string
+  color: string
+}
+
+interface Task {
+  id: string
+  projectId: string
+  name: string
+}
+
+interface EntryTemplate {
+  id: string
+  name: string
+  projectId: string
+  projectName: string
+  projectColor: string
+  taskId: string | null
+  taskName: string | null
+  description: string | null
+  durationMinutes: number
+  billable: boolean
+  recurrenceDays: number[]
+  recurrenceTime: string | null
+  recurrenceStart: string | null
+  recurrenceEnd: string | null
+}
+
+interface PendingOccurrence {
+  templateId: string
+  name: string
+  projectName: string
+  projectColor: string
+  date: string
+  startTime: string
+  durationMinutes: number
+}
+
+interface TemplateForm {
+  name: string
+  projectId: string
+  taskId: string
+  description: string
+  durationMinutes: string
+  billable: boolean
+  recurrenceDays: number[]
+  recurrenceTime: string
+  recurrenceStart: string
+  recurrenceEnd: string
+}
+
+interface EntryTemplatesProps {
+  projects: Project[]
+  tasks: Task[]
+  // Templates are placed on this day
+  selectedDate: Date
+  onPlaced?: () => void
+}
+
+// Monday first, matching the calendar; values are Date#getDay()
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' }
+]
+
+const emptyForm: TemplateForm = {
+  name: '',
+  projectId: '',
+  taskId: 'none',
+  description: '',
+  durationMinutes: '30',
+  billable: true,
+  recurrenceDays: [],
+  recurrenceTime: '',
+  recurrenceStart: '',
+  recurrenceEnd: ''
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
+
+function describeRecurrence(template: EntryTemplate): string {
+  const days = WEEKDAYS.filter(day => template.recurrenceDays.includes(day.value)).map(day => day.label)
+  const label = days.length === 5 && !template.recurrenceDays.includes(0) && !template.recurrenceDays.includes(6)
+    ? 'Weekdays'
+    : days.length === 7 ? 'Daily' : days.join(', ')
+
+  return `${label} at ${template.recurrenceTime}`
+}
+
+export default function EntryTemplates({ projects, tasks, selectedDate, onPlaced }: EntryTemplatesProps) {
+  const [templates, setTemplates] = useState<EntryTemplate[]>([])
+  const [pending, setPending] = useState<PendingOccurrence[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<TemplateForm>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const [templatesResponse, pendingResponse] = await Promise.all([
+        fetch('/api/entry-templates'),
+        fetch('/api/entry-templates/occurrences')
+      ])
+
+      if (templatesResponse.ok) setTemplates(await templatesResponse.json())
+      if (pendingResponse.ok) setPending(await pendingResponse.json())
+    } catch (error) {
+      console.error('Failed to fetch entry templates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  const reportError = (data: { error?: string; details?: Record<string, string[]> }, fallback: string) => {
+    const detail = data.details ? Object.values(data.details).flat()[0] : undefined
+    toast.error(detail && data.error === 'Validation failed' ? detail : data.error || fallback)
+  }
+
+  const handlePlace = async (template: EntryTemplate) => {
+    setBusy(template.id)
+    try {
+      const response = await fetch(`/api/entry-templates/${template.id}/place`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: format(selectedDate, 'yyyy-MM-dd') })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        reportError(data, 'Failed to add entry')
+        return
+      }
+
+      toast.success(`Added ${template.name} at ${format(new Date(data.startTime), 'HH:mm')}`)
+      onPlaced?.()
+    } catch (error) {
+      console.error('Failed to place template:', error)
+      toast.error('Failed to add entry')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleOccurrence = async (occurrence: PendingOccurrence, action: 'confirm' | 'skip') => {
+    const key = `${occurrence.templateId}:${occurrence.date}`
+    setBusy(key)
+    try {
+      const response = await fetch('/api/entry-templates/occurrences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ templateId: occurrence.templateId, date: occurrence.date, action })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        reportError(data, 'Failed to update recurring entry')
+        return
+      }
+
+      setPending(prev => prev.filter(item => `${item.templateId}:${item.date}` !== key))
+      if (action === 'confirm') {
+        toast.success(`${occurrence.name} added as a draft`)
+        onPlaced?.()
+      }
+    } catch (error) {
+      console.error('Failed to update recurring entry:', error)
+      toast.error('Failed to update recurring entry')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm({ ...emptyForm, projectId: projects[0]?.id ?? '' })
+    setDialogOpen(true)
+  }
+
+  const openEdit = (template: EntryTemplate) => {
+    setEditingId(template.id)
+    setForm({
+      name: template.name,
+      projectId: template.projectId,
+      taskId: template.taskId ?? 'none',
+      description: template.description ?? '',
+      durationMinutes: String(template.durationMinutes),
+      billable: template.billable,
+      recurrenceDays: template.recurrenceDays,
+      recurrenceTime: template.recurrenceTime ?? '',
+      recurrenceStart: template.recurrenceStart ?? '',
+      recurrenceEnd: template.recurrenceEnd ?? ''
+    })
+    setDialogOpen(true)
+  }
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      recurrenceDays: checked ? [...prev.recurrenceDays, day] : prev.recurrenceDays.filter(value => value !== day)
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.projectId) {
+      toast.error('Name and project are required')
+      return
+    }
+
+    const recurring = form.recurrenceDays.length > 0
+    if (recurring && !form.recurrenceTime) {
+      toast.error('Pick a start time for the recurring entry')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(editingId ? `/api/entry-templates/${editingId}` : '/api/entry-templates', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          projectId: form.projectId,
+          taskId: form.taskId === 'none' ? null : form.taskId,
+          description: form.description || null,
+          durationMinutes: Number(form.durationMinutes),
+          billable: form.billable,
+          recurrenceDays: form.recurrenceDays,
+          recurrenceTime: recurring ? form.recurrenceTime : null,
+          recurrenceStart: recurring && form.recurrenceStart ? form.recurrenceStart : null,
+          recurrenceEnd: recurring && form.recurrenceEnd ? form.recurrenceEnd : null
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        reportError(data, 'Failed to save template')
+        return
+      }
+
+      toast.success(editingId ? 'Template updated' : 'Template saved')
+      setDialogOpen(false)
+      fetchTemplates()
+    } catch (error) {
+      console.error('Failed to save template:', error)
+      toast.error('Failed to save template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: EntryTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Entries already added from it are kept.`)) return
+
+    try {
+      const response = await fetch(`/api/entry-templates/${template.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to delete template')
+        return
+      }
+
+      toast.success('Template deleted')
+      fetchTemplates()
+    } catch (error) {
+      console.error('Failed to delete template:', error)
+      toast.error('Failed to delete template')
+    }
+  }
+
+  const projectTasks = tasks.filter(task => task.projectId === form.projectId)
+  const dayLabel = isSameDay(selectedDate, new Date()) ? 'today' : format(selectedDate, 'EEE, MMM d')
+
+  if (loading) return null
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Bookmark className="h-4 w-4" />
+            Templates
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending.length > 0 && (
+          <div className="rounded-md border border-blue-200 bg-blue-50 p-3 space-y-2">
+            <p className="text-sm font-medium text-blue-900">
+              Recurring entries to confirm ({pending.length})
+            </p>
+            {pending.map(occurrence => {
+              const key = `${occurrence.templateId}:${occurrence.date}`
+              return (
+                <div key={key} className="flex items-center gap-2 text-sm">
+                  <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: occurrence.projectColor }} />
+                  <span className="font-medium">{occurrence.name}</span>
+                  <span className="text-gray-600">
+                    {format(new Date(occurrence.startTime), 'EEE, MMM d HH:mm')} · {formatDuration(occurrence.durationMinutes)}
+                  </span>
+                  <div className="ml-auto flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busy === key}
+                      onClick={() => handleOccurrence(occurrence, 'confirm')}
+                    >
+                      {busy === key ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+                      <span className="ml-1">Confirm</span>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy === key}
+                      onClick={() => handleOccurrence(occurrence, 'skip')}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Skip
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {templates.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Save entries you log often, like a daily standup, and add them to a day with one click.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {templates.map(template => (
+              <div key={template.id} className="flex items-center gap-2 rounded-md border p-2">
+                <Button
+                  variant="ghost"
+                  className="flex-1 justify-start h-auto py-1 px-2"
+                  disabled={busy === template.id}
+                  onClick={() => handlePlace(template)}
+                  title={`Add to ${dayLabel}`}
+                >
+                  {busy === template.id
+                    ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    : <CopyPlus className="h-4 w-4 mr-2" />}
+                  <div className="w-3 h-3 rounded-full mr-2 shrink-0" style={{ backgroundColor: template.projectColor }} />
+                  <div className="text-left min-w-0">
+                    <div className="font-medium truncate">{template.name}</div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {template.projectName}{template.taskName ? ` / ${template.taskName}` : ''} · {formatDuration(template.durationMinutes)}
+                    </div>
+                  </div>
+                </Button>
+                {template.recurrenceDays.length > 0 && (
+                  <Badge variant="secondary" className="text-xs shrink-0">
+                    <Repeat className="h-3 w-3 mr-1" />
+                    {describeRecurrence(template)}
+                  </Badge>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => openEdit(template)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(template)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Template' : 'New Template'}</DialogTitle>
+            <DialogDescription>
+              Pick weekdays to have the entry suggested on those days for you to confirm.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Daily standup"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select
+                  value={form.projectId}
+                  onValueChange={(value) => setForm({ ...form, projectId: value, taskId: 'none' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Task</Label>
+                <Select
+                  value={form.taskId}
+                  onValueChange={(value) => setForm({ ...form, taskId: value })}
+                  disabled={projectTasks.length === 0}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="No task" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No task</SelectItem>
+                    {projectTasks.map(task => (
+                      <SelectItem key={task.id} value={task.id}>{task.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Input
+                id="template-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="template-duration">Duration (minutes)</Label>
+                <Input
+                  id="template-duration"
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={form.durationMinutes}
+                  onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox
+                  id="template-billable"
+                  checked={form.billable}
+                  onCheckedChange={(checked) => setForm({ ...form, billable: checked === true })}
+                />
+                <Label htmlFor="template-billable">Billable</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label>Repeat on</Label>
+              <div className="flex flex-wrap gap-3">
+                {WEEKDAYS.map(day => (
+                  <div key={day.value} className="flex items-center gap-1">
+                    <Checkbox
+                      id={`template-day-${day.value}`}
+                      checked={form.recurrenceDays.includes(day.value)}
+                      onCheckedChange={(checked) => toggleDay(day.value, checked === true)}
+                    />
+                    <Label htmlFor={`template-day-${day.value}`} className="text-sm font-normal">{day.label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {form.recurrenceDays.length > 0 && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="template-time">Start time</Label>
+                  <Input
+                    id="template-time"
+                    type="time"
+                    value={form.recurrenceTime}
+                    onChange={(e) => setForm({ ...form, recurrenceTime: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-from">From</Label>
+                  <Input
+                    id="template-from"
+                    type="date"
+                    value={form.recurrenceStart}
+                    onChange={(e) => setForm({ ...form, recurrenceStart: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-until">Until</Label>
+                  <Input
+                    id="template-until"
+                    type="date"
+                    value={form.recurrenceEnd}
+                    onChange={(e) => setForm({ ...form, recurrenceEnd: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingId ? 'Save Changes' : 'Save Template'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
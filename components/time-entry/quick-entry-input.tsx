@@ -0,0 +1,134 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, Loader2, Zap } from 'lucide-react'
+import { toast } from 'sonner'
+import { parseQuickEntry } from '@/lib/quick-entry'
+
+interface Project {
+  id: string
+  name: string
+  color: string
+  code?: string | null
+}
+
+interface QuickEntryInputProps {
+  projects: Project[]
+  onSaved?: () => void
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
+
+export default function QuickEntryInput({ projects, onSaved }: QuickEntryInputProps) {
+  const [text, setText] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const parsed = useMemo(
+    () => (text.trim() ? parseQuickEntry(text, projects) : null),
+    [text, projects]
+  )
+  const project = parsed?.project ? projects.find(candidate => candidate.id === parsed.project!.id) : undefined
+  const canSave = !!parsed && parsed.errors.length === 0 && !!parsed.startTime && !!parsed.endTime
+
+  const handleSave = async () => {
+    if (!canSave) return
+
+    // Parse again so an entry ending "now" ends at the moment it is saved
+    const entry = parseQuickEntry(text, projects)
+    if (entry.errors.length > 0 || !entry.startTime || !entry.endTime) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/time-entries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId: entry.project!.id,
+          description: entry.description || undefined,
+          startTime: entry.startTime.toISOString(),
+          endTime: entry.endTime.toISOString(),
+          date: entry.date.toISOString(),
+          billable: true
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        const detail = data.details ? Object.values(data.details as Record<string, string[]>).flat()[0] : undefined
+        toast.error(detail && data.error === 'Validation failed' ? detail : data.error || 'Failed to save entry')
+        return
+      }
+
+      toast.success(`Logged ${formatDuration(entry.durationMinutes!)} on ${entry.project!.name}`)
+      setText('')
+      onSaved?.()
+    } catch (error) {
+      console.error('Failed to save quick entry:', error)
+      toast.error('Failed to save entry')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleSave()
+            }
+          }}
+          placeholder='e.g. "2h15 mobile app bug triage yesterday" or "9-11:30 WEB standup"'
+        />
+        <Button onClick={handleSave} disabled={!canSave || saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Zap className="h-4 w-4 mr-2" />}
+          Log
+        </Button>
+      </div>
+
+      {parsed && (
+        <div className="rounded-md border bg-gray-50 px-3 py-2 text-sm space-y-1">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+            <span className="flex items-center gap-2">
+              {project && <span className="w-3 h-3 rounded-full" style={{ backgroundColor: project.color }} />}
+              <span className={parsed.project ? 'font-medium' : 'text-gray-400'}>
+                {parsed.project?.name ?? 'No project'}
+              </span>
+            </span>
+            <span>{format(parsed.date, 'EEE, MMM d')}</span>
+            {parsed.startTime && parsed.endTime && (
+              <span>
+                {format(parsed.startTime, 'HH:mm')} - {format(parsed.endTime, 'HH:mm')}
+              </span>
+            )}
+            {parsed.durationMinutes !== null && (
+              <span className="font-medium">{formatDuration(parsed.durationMinutes)}</span>
+            )}
+            {parsed.description && <span className="text-gray-600 truncate">{parsed.description}</span>}
+          </div>
+          {[...parsed.errors, ...parsed.warnings].map(message => (
+            <p
+              key={message}
+              className={`flex items-center gap-1 text-xs ${parsed.errors.includes(message) ? 'text-red-600' : 'text-amber-600'}`}
+            >
+              <AlertCircle className="h-3 w-3" />
+              {message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -13,6 +13,8 @@ interface TimeEntry {
   endTime: string | null
   duration: number | null
   description: string | null
+  status?: 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED'
+  reviewComment?: string | null
   project: {
     id: string
     name: string
@@ -59,6 +61,23 @@ export default function TimeEntriesTable({
     setExpandedEntries(newExpanded)
   }
 
+  const getStatusBadge = (entry: TimeEntry) => {
+    switch (entry.status) {
+      case 'SUBMITTED':
+        return <Badge variant="secondary" className="bg-blue-100 text-blue-800">Submitted</Badge>
+      case 'APPROVED':
+        return <Badge variant="secondary" className="bg-green-100 text-green-800">Approved</Badge>
+      case 'REJECTED':
+        return (
+          <Badge variant="destructive" title={entry.reviewComment || undefined}>
+            Rejected
+          </Badge>
+        )
+      default:
+        return <Badge variant="outline">Draft</Badge>
+    }
+  }
+
   const truncateText = (text: string, maxLength: number) => {
     if (text.length <= maxLength) return text
     return text.substring(0, maxLength) + '...'
@@ -81,6 +100,7 @@ export default function TimeEntriesTable({
                   <th className="text-left p-4 font-medium text-muted-foreground min-w-[120px]">Date</th>
                   <th className="text-left p-4 font-medium text-muted-foreground min-w-[100px]">Time</th>
                   <th className="text-left p-4 font-medium text-muted-foreground min-w-[100px]">Duration</th>
+                  <th className="text-left p-4 font-medium text-muted-foreground min-w-[100px]">Status</th>
                   <th className="text-left p-4 font-medium text-muted-foreground min-w-[100px]">Actions</th>
                 </tr>
               </thead>
@@ -146,6 +166,9 @@ export default function TimeEntriesTable({
                           {formatDuration(entry.duration)}
                         </Badge>
                       </td>
+                      <td className="p-4">
+                        {getStatusBadge(entry)}
+                      </td>
                       <td className="p-4">
                         <div className="flex gap-2">
                           <Button
@@ -198,6 +221,14 @@ export default function TimeEntriesTable({
                     </Badge>
                   </div>
 
+                  {/* Approval Status */}
+                  <div className="flex items-center gap-2">
+                    {getStatusBadge(entry)}
+                    {entry.status === 'REJECTED' && entry.reviewComment && (
+                      <span className="text-xs text-muted-foreground break-words">{entry.reviewComment}</span>
+                    )}
+                  </div>
+
                   {/* Description */}
                   {entry.description && (
                     <div className="flex items-start gap-2">
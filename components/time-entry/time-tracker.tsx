@@ -1,12 +1,13 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Play, Square, Clock } from 'lucide-react'
+import { Play, Square, Clock, Loader2, ArrowRightLeft } from 'lucide-react'
+import { toast } from 'sonner'
 
 interface Project {
   id: string
@@ -14,38 +15,126 @@ interface Project {
   color: string
 }
 
+interface Task {
+  id: string
+  projectId: string
+  name: string
+  code: string | null
+}
+
+interface RunningTimer {
+  id: string
+  startTime: string
+  projectId: string
+  description: string | null
+  project: Project
+  task: { id: string; name: string } | null
+}
+
+interface TimerNotification {
+  id: string
+  title: string
+  message: string
+}
+
 interface TimeTrackerProps {
   projects: Project[]
-  onStart: (projectId: string, description: string) => void
-  onStop: () => void
-  activeEntry?: {
-    id: string
-    startTime: Date
-    projectId: string
-    description: string
-  }
+  onTimerChange?: () => void
 }
 
+// Re-sync with the server periodically so a timer started or stopped on another device shows up here
+const SYNC_INTERVAL_MS = 60 * 1000
+
 export default function TimeTracker({
   projects,
-  onStart,
-  onStop,
-  activeEntry
+  onTimerChange
 }: TimeTrackerProps) {
+  const [activeTimer, setActiveTimer] = useState<RunningTimer | null>(null)
+  const [clockOffset, setClockOffset] = useState(0)
   const [selectedProject, setSelectedProject] = useState('')
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [selectedTask, setSelectedTask] = useState('none')
   const [description, setDescription] = useState('')
   const [elapsedTime, setElapsedTime] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+
+  // Keep the latest callback without re-subscribing the sync effect on every parent render
+  const onTimerChangeRef = useRef(onTimerChange)
+  useEffect(() => {
+    onTimerChangeRef.current = onTimerChange
+  }, [onTimerChange])
+
+  const fetchCurrentTimer = useCallback(async () => {
+    try {
+      const response = await fetch('/api/timer/current')
+      if (!response.ok) return
+
+      const data = await response.json()
+      setActiveTimer(data.timer)
+      // Elapsed time is measured against the server clock, not the device clock
+      setClockOffset(new Date(data.serverTime).getTime() - Date.now())
+
+      const notifications: TimerNotification[] = data.notifications || []
+      if (notifications.length > 0) {
+        notifications.forEach(notification => {
+          toast.warning(notification.title, { description: notification.message, duration: 10000 })
+        })
+        await fetch('/api/notifications', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ids: notifications.map(notification => notification.id) })
+        })
+        onTimerChangeRef.current?.()
+      }
+    } catch (error) {
+      console.error('Error fetching current timer:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const fetchTasks = async () => {
+      try {
+        const response = await fetch('/api/tasks')
+        if (response.ok) {
+          setTasks(await response.json())
+        }
+      } catch (error) {
+        console.error('Error fetching tasks:', error)
+      }
+    }
+
+    fetchTasks()
+  }, [])
+
+  useEffect(() => {
+    fetchCurrentTimer()
+
+    const interval = setInterval(fetchCurrentTimer, SYNC_INTERVAL_MS)
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') fetchCurrentTimer()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [fetchCurrentTimer])
 
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null
 
-    if (activeEntry) {
-      interval = setInterval(() => {
-        const now = new Date()
-        const start = new Date(activeEntry.startTime)
-        const elapsed = Math.floor((now.getTime() - start.getTime()) / 1000)
-        setElapsedTime(elapsed)
-      }, 1000)
+    if (activeTimer) {
+      const tick = () => {
+        const now = Date.now() + clockOffset
+        const start = new Date(activeTimer.startTime).getTime()
+        setElapsedTime(Math.max(0, Math.floor((now - start) / 1000)))
+      }
+      tick()
+      interval = setInterval(tick, 1000)
     } else {
       setElapsedTime(0)
     }
@@ -53,7 +142,7 @@ export default function TimeTracker({
     return () => {
       if (interval) clearInterval(interval)
     }
-  }, [activeEntry])
+  }, [activeTimer, clockOffset])
 
   const formatTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600)
@@ -62,18 +151,115 @@ export default function TimeTracker({
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
   }
 
-  const handleStart = () => {
-    if (selectedProject) {
-      onStart(selectedProject, description)
+  const postTimerAction = async (action: 'start' | 'stop' | 'switch', body?: object) => {
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/timer/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || `Failed to ${action} timer`)
+        // The server state may differ from what this device shows, e.g. a timer started elsewhere
+        if (response.status === 404 || response.status === 409) {
+          await fetchCurrentTimer()
+        }
+        return false
+      }
+
+      setActiveTimer(action === 'stop' ? null : data.timer)
+      onTimerChangeRef.current?.()
+      return true
+    } catch (error) {
+      console.error(`Error trying to ${action} timer:`, error)
+      toast.error(`Failed to ${action} timer`)
+      return false
+    } finally {
+      setBusy(false)
     }
   }
 
-  const handleStop = () => {
-    onStop()
-    setDescription('')
+  const projectTasks = tasks.filter(task => task.projectId === selectedProject)
+  const taskId = selectedTask === 'none' ? null : selectedTask
+
+  const resetForm = () => {
     setSelectedProject('')
+    setSelectedTask('none')
+    setDescription('')
+  }
+
+  const handleProjectChange = (projectId: string) => {
+    setSelectedProject(projectId)
+    setSelectedTask('none')
+  }
+
+  const handleStart = async () => {
+    if (!selectedProject) return
+
+    const started = await postTimerAction('start', { projectId: selectedProject, taskId, description })
+    if (started) {
+      resetForm()
+    }
   }
 
+  const handleSwitch = async () => {
+    if (!selectedProject) return
+
+    const switched = await postTimerAction('switch', { projectId: selectedProject, taskId, description })
+    if (switched) {
+      toast.success('Switched timer')
+      resetForm()
+    }
+  }
+
+  const handleStop = async () => {
+    const stopped = await postTimerAction('stop')
+    if (stopped) {
+      toast.success('Timer stopped')
+    }
+  }
+
+  const projectSelect = (
+    <Select value={selectedProject} onValueChange={handleProjectChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select a project" />
+      </SelectTrigger>
+      <SelectContent>
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={project.id}>
+            <div className="flex items-center gap-2">
+              <div
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: project.color }}
+              />
+              {project.name}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  // Only shown for projects that have tasks the user can book against
+  const taskSelect = projectTasks.length > 0 && (
+    <Select value={selectedTask} onValueChange={setSelectedTask}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select a task" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">No task</SelectItem>
+        {projectTasks.map((task) => (
+          <SelectItem key={task.id} value={task.id}>
+            {task.code ? `${task.code} ${task.name}` : task.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -83,47 +269,60 @@ export default function TimeTracker({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {activeEntry ? (
-          <div className="text-center space-y-4">
-            <div className="text-4xl font-mono font-bold text-blue-600">
-              {formatTime(elapsedTime)}
-            </div>
-            <div className="text-lg font-medium">
-              {projects.find(p => p.id === activeEntry.projectId)?.name}
+        {loading ? (
+          <div className="flex justify-center items-center h-24">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : activeTimer ? (
+          <div className="space-y-4">
+            <div className="text-center space-y-2">
+              <div className="text-4xl font-mono font-bold text-blue-600">
+                {formatTime(elapsedTime)}
+              </div>
+              <div className="text-lg font-medium">
+                {activeTimer.project.name}
+                {activeTimer.task && <span className="text-gray-500"> / {activeTimer.task.name}</span>}
+              </div>
+              {activeTimer.description && (
+                <div className="text-sm text-gray-600">
+                  {activeTimer.description}
+                </div>
+              )}
+              <Button onClick={handleStop} size="lg" variant="destructive" disabled={busy}>
+                {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Square className="h-4 w-4 mr-2" />}
+                Stop Timer
+              </Button>
             </div>
-            {activeEntry.description && (
-              <div className="text-sm text-gray-600">
-                {activeEntry.description}
+            <div className="border-t pt-4 space-y-2">
+              <Label>Switch to another project</Label>
+              <div className="flex gap-2">
+                <div className="flex-1">{projectSelect}</div>
+                {taskSelect && <div className="flex-1">{taskSelect}</div>}
+                <Input
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Description (optional)"
+                  className="flex-1"
+                />
+                <Button variant="outline" onClick={handleSwitch} disabled={!selectedProject || busy}>
+                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                  Switch
+                </Button>
               </div>
-            )}
-            <Button onClick={handleStop} size="lg" variant="destructive">
-              <Square className="h-4 w-4 mr-2" />
-              Stop Timer
-            </Button>
+            </div>
           </div>
         ) : (
           <div className="space-y-4">
             <div>
               <Label htmlFor="project">Project</Label>
-              <Select value={selectedProject} onValueChange={setSelectedProject}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select a project" />
-                </SelectTrigger>
-                <SelectContent>
-                  {projects.map((project) => (
-                    <SelectItem key={project.id} value={project.id}>
-                      <div className="flex items-center gap-2">
-                        <div
-                          className="w-3 h-3 rounded-full"
-                          style={{ backgroundColor: project.color }}
-                        />
-                        {project.name}
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              {projectSelect}
             </div>
+            {taskSelect && (
+              <div>
+                <Label htmlFor="task">Task</Label>
+                {taskSelect}
+              </div>
+            )}
             <div>
               <Label htmlFor="description">Description (optional)</Label>
               <Input
@@ -137,9 +336,9 @@ export default function TimeTracker({
               onClick={handleStart}
               size="lg"
               className="w-full"
-              disabled={!selectedProject}
+              disabled={!selectedProject || busy}
             >
-              <Play className="h-4 w-4 mr-2" />
+              {busy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
               Start Timer
             </Button>
           </div>
@@ -147,4 +346,4 @@ export default function TimeTracker({
       </CardContent>
     </Card>
   )
-}
\ No newline at end of file
+}
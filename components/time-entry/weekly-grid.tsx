@@ -0,0 +1,438 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ChevronLeft, ChevronRight, Copy, Grid3x3, Loader2, Lock, Save } from 'lucide-react'
+import { addWeeks, format, parseISO, startOfWeek, subWeeks } from 'date-fns'
+import { toast } from 'sonner'
+
+interface GridCell {
+  date: string
+  hours: number
+  entryCount: number
+  readOnly: string | null
+}
+
+interface GridRow {
+  projectId: string
+  projectName: string
+  projectColor: string
+  cells: GridCell[]
+}
+
+interface TimesheetWeek {
+  weekStart: string
+  days: { date: string; expectedHours: number; locked: string | null; timeOff: string | null }[]
+  rows: GridRow[]
+  projects: { id: string; name: string; color: string }[]
+  expectedWeeklyHours: number
+}
+
+interface WeeklyGridProps {
+  onSaved?: () => void
+  canOverride?: boolean // admins can save past overlap, future and daily maximum warnings with a reason
+}
+
+const cellKey = (projectId: string, date: string) => `${projectId}:${date}`
+
+const formatHours = (hours: number) => parseFloat(hours.toFixed(2)).toString()
+
+export default function WeeklyGrid({ onSaved, canOverride = false }: WeeklyGridProps) {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }))
+  const [week, setWeek] = useState<TimesheetWeek | null>(null)
+  const [addedRows, setAddedRows] = useState<GridRow[]>([])
+  const [draft, setDraft] = useState<Record<string, string>>({})
+  const [cellErrors, setCellErrors] = useState<Record<string, string>>({})
+  const [overrideAvailable, setOverrideAvailable] = useState(false)
+  const [overrideReason, setOverrideReason] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [copying, setCopying] = useState(false)
+
+  const fetchWeek = async (date: Date): Promise<TimesheetWeek | null> => {
+    const response = await fetch(`/api/timesheets/week?date=${date.toISOString()}`)
+    if (!response.ok) {
+      const errorData = await response.json()
+      toast.error(errorData.error || 'Failed to load the week')
+      return null
+    }
+    return response.json()
+  }
+
+  const loadWeek = async () => {
+    setLoading(true)
+    try {
+      setWeek(await fetchWeek(weekStart))
+      setAddedRows([])
+      setDraft({})
+      setCellErrors({})
+      setOverrideAvailable(false)
+      setOverrideReason('')
+    } catch (error) {
+      console.error('Error fetching timesheet week:', error)
+      toast.error('Failed to load the week')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadWeek()
+  }, [weekStart])
+
+  const rows = week ? [...week.rows, ...addedRows] : []
+  const dirty = Object.keys(draft).length > 0
+
+  const emptyRow = (project: { id: string; name: string; color: string }): GridRow => ({
+    projectId: project.id,
+    projectName: project.name,
+    projectColor: project.color,
+    cells: week!.days.map(day => ({ date: day.date, hours: 0, entryCount: 0, readOnly: day.locked }))
+  })
+
+  const cellValue = (row: GridRow, cell: GridCell): number => {
+    const key = cellKey(row.projectId, cell.date)
+    if (!(key in draft)) return cell.hours
+    const value = parseFloat(draft[key])
+    return isNaN(value) ? 0 : value
+  }
+
+  const setCell = (row: GridRow, cell: GridCell, value: string) => {
+    const key = cellKey(row.projectId, cell.date)
+    const next = { ...draft }
+    const parsed = value.trim() === '' ? 0 : parseFloat(value)
+
+    if (!isNaN(parsed) && parsed === cell.hours) delete next[key]
+    else next[key] = value
+
+    setDraft(next)
+    if (cellErrors[key]) {
+      const rest = { ...cellErrors }
+      delete rest[key]
+      setCellErrors(rest)
+    }
+  }
+
+  const changeWeek = (date: Date) => {
+    if (dirty && !confirm('Discard the unsaved hours on this week?')) return
+    setWeekStart(date)
+  }
+
+  // Fill empty cells with last week's hours; nothing is saved until Save is pressed
+  const handleCopyLastWeek = async () => {
+    if (!week) return
+
+    setCopying(true)
+    try {
+      const lastWeek = await fetchWeek(subWeeks(weekStart, 1))
+      if (!lastWeek) return
+
+      const known = new Set(rows.map(row => row.projectId))
+      const writable = new Map(week.projects.map(project => [project.id, project]))
+      const newRows: GridRow[] = []
+      const nextDraft = { ...draft }
+      let copied = 0
+
+      for (const lastRow of lastWeek.rows) {
+        let row = rows.find(r => r.projectId === lastRow.projectId)
+        if (!row) {
+          const project = writable.get(lastRow.projectId)
+          if (!project || known.has(project.id)) continue
+          row = emptyRow(project)
+          newRows.push(row)
+          known.add(project.id)
+        }
+
+        lastRow.cells.forEach((lastCell, index) => {
+          const cell = row!.cells[index]
+          const key = cellKey(row!.projectId, cell.date)
+          if (lastCell.hours <= 0 || cell.readOnly || cellValue(row!, cell) > 0) return
+
+          nextDraft[key] = formatHours(lastCell.hours)
+          copied++
+        })
+      }
+
+      setAddedRows([...addedRows, ...newRows.filter(row => row.cells.some(cell => cellKey(row.projectId, cell.date) in nextDraft))])
+      setDraft(nextDraft)
+      toast.success(copied > 0 ? `Copied ${copied} cells from last week. Review them and save.` : 'Nothing to copy from last week')
+    } catch (error) {
+      console.error('Error copying last week:', error)
+      toast.error('Failed to copy last week')
+    } finally {
+      setCopying(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!week) return
+
+    const cells: { projectId: string; date: string; hours: number }[] = []
+    const invalid: Record<string, string> = {}
+
+    for (const row of rows) {
+      for (const cell of row.cells) {
+        const key = cellKey(row.projectId, cell.date)
+        if (!(key in draft)) continue
+
+        const hours = draft[key].trim() === '' ? 0 : parseFloat(draft[key])
+        if (isNaN(hours) || hours < 0 || hours > 24) {
+          invalid[key] = 'Enter hours between 0 and 24'
+        } else if (hours !== cell.hours) {
+          cells.push({ projectId: row.projectId, date: cell.date, hours })
+        }
+      }
+    }
+
+    if (Object.keys(invalid).length > 0) {
+      setCellErrors(invalid)
+      toast.error('Some cells have invalid hours')
+      return
+    }
+
+    if (cells.length === 0) {
+      setDraft({})
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/timesheets/week', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weekStart: week.weekStart, cells, overrideReason: overrideReason.trim() || undefined })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(`Saved: ${data.created} added, ${data.updated} changed, ${data.deleted} removed`)
+        await loadWeek()
+        onSaved?.()
+      } else if (data.cellErrors) {
+        setOverrideAvailable(canOverride && !!data.overridable)
+        setCellErrors(Object.fromEntries(
+          (data.cellErrors as { projectId: string; date: string; error: string }[])
+            .map(cellError => [cellKey(cellError.projectId, cellError.date), cellError.error])
+        ))
+        toast.error(data.error || 'Some cells could not be saved')
+      } else {
+        const fieldError = data.details ? Object.values(data.details).flat()[0] : null
+        toast.error((fieldError as string) || data.error || 'Failed to save the week')
+      }
+    } catch (error) {
+      console.error('Error saving timesheet week:', error)
+      toast.error('Failed to save the week')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const dayTotal = (index: number) => rows.reduce((sum, row) => sum + cellValue(row, row.cells[index]), 0)
+  const weekTotal = week ? week.days.reduce((sum, _, index) => sum + dayTotal(index), 0) : 0
+  const addableProjects = week ? week.projects.filter(project => !rows.some(row => row.projectId === project.id)) : []
+  const errorList = Object.entries(cellErrors)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Grid3x3 className="h-5 w-5" />
+              Weekly Grid
+            </CardTitle>
+            <CardDescription>
+              Type hours per project and day. New hours are logged from 09:00, after anything already on that day.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => changeWeek(subWeeks(weekStart, 1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => changeWeek(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+              This Week
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => changeWeek(addWeeks(weekStart, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleCopyLastWeek} disabled={!week || copying || saving}>
+              {copying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Copy className="h-4 w-4 mr-2" />}
+              Copy Last Week
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!dirty || saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              {overrideReason.trim() ? 'Save Anyway' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading || !week ? (
+          <div className="flex justify-center items-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[180px]">Project</TableHead>
+                    {week.days.map(day => (
+                      <TableHead key={day.date} className="text-center" title={day.locked ?? undefined}>
+                        <div className="flex items-center justify-center gap-1">
+                          {format(parseISO(day.date), 'EEE')}
+                          {day.locked && <Lock className="h-3 w-3" />}
+                        </div>
+                        <div className="text-xs font-normal text-gray-500">{format(parseISO(day.date), 'MMM d')}</div>
+                        {day.timeOff && (
+                          <div className="text-xs font-normal text-emerald-700 truncate max-w-[90px] mx-auto" title={day.timeOff}>
+                            {day.timeOff}
+                          </div>
+                        )}
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center text-gray-500 py-6">
+                        No time this week yet. Add a project row to start.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {rows.map(row => (
+                    <TableRow key={row.projectId}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: row.projectColor }} />
+                          <span className="font-medium">{row.projectName}</span>
+                        </div>
+                      </TableCell>
+                      {row.cells.map(cell => {
+                        const key = cellKey(row.projectId, cell.date)
+                        return (
+                          <TableCell key={cell.date} className="text-center p-1">
+                            <Input
+                              type="number"
+                              min="0"
+                              max="24"
+                              step="0.25"
+                              inputMode="decimal"
+                              className={`w-20 mx-auto text-right ${cellErrors[key] ? 'border-red-500' : key in draft ? 'border-blue-500' : ''}`}
+                              value={key in draft ? draft[key] : cell.hours > 0 ? formatHours(cell.hours) : ''}
+                              onChange={(e) => setCell(row, cell, e.target.value)}
+                              disabled={!!cell.readOnly || saving}
+                              title={cellErrors[key] ?? cell.readOnly ?? undefined}
+                            />
+                          </TableCell>
+                        )
+                      })}
+                      <TableCell className="text-right font-medium">
+                        {formatHours(row.cells.reduce((sum, cell) => sum + cellValue(row, cell), 0))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Daily Total</TableCell>
+                    {week.days.map((day, index) => {
+                      const total = dayTotal(index)
+                      return (
+                        <TableCell
+                          key={day.date}
+                          className={`text-center ${day.expectedHours > 0 && total < day.expectedHours ? 'text-amber-600' : ''}`}
+                        >
+                          {formatHours(total)}
+                        </TableCell>
+                      )
+                    })}
+                    <TableCell
+                      className={`text-right ${week.expectedWeeklyHours > 0 && weekTotal < week.expectedWeeklyHours ? 'text-amber-600' : 'text-green-600'}`}
+                    >
+                      {formatHours(weekTotal)}
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell className="text-gray-500 font-normal">Expected</TableCell>
+                    {week.days.map(day => (
+                      <TableCell key={day.date} className="text-center text-gray-500 font-normal">
+                        {day.expectedHours > 0 ? formatHours(day.expectedHours) : '-'}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right text-gray-500 font-normal">
+                      {week.expectedWeeklyHours > 0 ? formatHours(week.expectedWeeklyHours) : '-'}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+
+            {addableProjects.length > 0 && (
+              <div className="flex items-center gap-2 max-w-sm">
+                <Select
+                  value=""
+                  onValueChange={(projectId) => {
+                    const project = addableProjects.find(p => p.id === projectId)
+                    if (project) setAddedRows([...addedRows, emptyRow(project)])
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Add a project row" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {addableProjects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>
+                        <div className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: project.color }} />
+                          {project.name}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {errorList.length > 0 && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 space-y-1">
+                {errorList.map(([key, error]) => {
+                  const [projectId, date] = key.split(':')
+                  const row = rows.find(r => r.projectId === projectId)
+                  return (
+                    <p key={key}>
+                      {row?.projectName ?? 'Project'}, {format(parseISO(date), 'EEE MMM d')}: {error}
+                    </p>
+                  )
+                })}
+              </div>
+            )}
+
+            {overrideAvailable && (
+              <div className="grid gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 max-w-xl">
+                <Label htmlFor="gridOverrideReason">Override Reason</Label>
+                <Input
+                  id="gridOverrideReason"
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                  placeholder="Why should these hours be saved anyway?"
+                />
+                <p className="text-xs text-gray-600">
+                  With a reason the overlap, future and daily maximum checks are skipped. The reason is kept in the audit log.
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
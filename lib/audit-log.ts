@@ -0,0 +1,214 @@
+// lib/audit-log.ts
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/app/generated/prisma'
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'GRANT' | 'REVOKE' | 'LOCK' | 'CLOSE' | 'REOPEN' | 'SUBMIT' | 'APPROVE' | 'REJECT' | 'ARCHIVE' | 'RESTORE' | 'PURGE' | 'IMPORT' | 'CANCEL'
+
+export type AuditEntityType =
+  | 'TIME_ENTRY'
+  | 'RATE'
+  | 'BUDGET'
+  | 'PERMISSION'
+  | 'TIMESHEET_PERIOD'
+  | 'TIMESHEET_SUBMISSION'
+  | 'SETTINGS'
+  | 'CLIENT'
+  | 'BILL_RATE'
+  | 'INVOICE'
+  | 'PROJECT'
+  | 'TASK'
+  | 'TAG'
+  | 'CUSTOM_FIELD'
+  | 'ENTRY_IMPORT'
+  | 'WORK_SCHEDULE'
+  | 'LEAVE_TYPE'
+  | 'LEAVE_REQUEST'
+  | 'LEAVE_BALANCE'
+  | 'HOLIDAY_CALENDAR'
+  | 'OVERTIME_POLICY'
+  | 'RATE_CARD'
+  | 'RATE_BATCH'
+
+export interface AuditActor {
+  id: string
+  email?: string | null
+}
+
+export interface AuditEventInput {
+  actor: AuditActor | null
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId: string
+  before?: unknown
+  after?: unknown
+  metadata?: Record<string, unknown>
+}
+
+export interface AuditQuery {
+  entityType?: string
+  entityId?: string
+  actorId?: string
+  action?: string
+  from?: Date
+  to?: Date
+  page?: number
+  pageSize?: number
+}
+
+// Decimals and dates serialize through toJSON, which keeps full precision as strings
+function toAuditJson(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value === undefined || value === null) return undefined
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue
+}
+
+export class AuditLogger {
+  /**
+   * Append an event to the audit trail. Events are never updated or deleted.
+   * Failures are logged but never block the mutation that is being recorded.
+   */
+  static async record(event: AuditEventInput): Promise<void> {
+    try {
+      await prisma.auditEvent.create({
+        data: {
+          actorId: event.actor?.id ?? null,
+          actorEmail: event.actor?.email ?? null,
+          action: event.action,
+          entityType: event.entityType,
+          entityId: event.entityId,
+          before: toAuditJson(event.before),
+          after: toAuditJson(event.after),
+          metadata: toAuditJson(event.metadata)
+        }
+      })
+    } catch (error) {
+      console.error(`Failed to record audit event ${event.entityType}.${event.action} for ${event.entityId}:`, error)
+    }
+  }
+
+  /**
+   * Read viewer filters from a query string; dates are whole days in local time
+   */
+  static parseQuery(searchParams: URLSearchParams): AuditQuery {
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    return {
+      entityType: searchParams.get('entityType') || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      actorId: searchParams.get('actorId') || undefined,
+      action: searchParams.get('action') || undefined,
+      from: from ? new Date(from + 'T00:00:00') : undefined,
+      to: to ? new Date(to + 'T23:59:59.999') : undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      pageSize: parseInt(searchParams.get('pageSize') || '50')
+    }
+  }
+
+  static buildWhere(query: AuditQuery): Prisma.AuditEventWhereInput {
+    const where: Prisma.AuditEventWhereInput = {}
+
+    if (query.entityType) where.entityType = query.entityType
+    if (query.entityId) where.entityId = query.entityId
+    if (query.actorId) where.actorId = query.actorId
+    if (query.action) where.action = query.action
+
+    if (query.from || query.to) {
+      where.createdAt = {
+        ...(query.from ? { gte: query.from } : {}),
+        ...(query.to ? { lte: query.to } : {})
+      }
+    }
+
+    return where
+  }
+
+  static async query(query: AuditQuery) {
+    const page = Math.max(1, query.page || 1)
+    const pageSize = Math.min(200, Math.max(1, query.pageSize || 50))
+    const where = this.buildWhere(query)
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize
+      }),
+      prisma.auditEvent.count({ where })
+    ])
+
+    return { events, total, page, pageSize }
+  }
+
+  /**
+   * Render events as CSV for finance, oldest first
+   */
+  static async exportCsv(query: AuditQuery): Promise<string> {
+    const events = await prisma.auditEvent.findMany({
+      where: this.buildWhere(query),
+      orderBy: { createdAt: 'asc' }
+    })
+
+    const rows = [
+      ['Timestamp', 'Actor', 'Actor ID', 'Action', 'Entity Type', 'Entity ID', 'Before', 'After', 'Metadata']
+    ]
+
+    events.forEach(event => {
+      rows.push([
+        event.createdAt.toISOString(),
+        event.actorEmail || '',
+        event.actorId || '',
+        event.action,
+        event.entityType,
+        event.entityId,
+        event.before ? JSON.stringify(event.before) : '',
+        event.after ? JSON.stringify(event.after) : '',
+        event.metadata ? JSON.stringify(event.metadata) : ''
+      ])
+    })
+
+    return rows.map(row =>
+      row.map(cell =>
+        /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+      ).join(',')
+    ).join('\n')
+  }
+}
+
+/**
+ * The audited fields of a time entry, without relations
+ */
+export function timeEntrySnapshot(entry: {
+  id: string
+  userId: string
+  projectId: string
+  taskId?: string | null
+  description?: string | null
+  startTime?: Date | null
+  endTime?: Date | null
+  duration?: number | null
+  hours?: unknown
+  date?: Date | null
+  status?: string
+  tags?: { tag: { id: string } }[]
+  fieldValues?: { fieldId: string; value: string }[]
+}) {
+  return {
+    id: entry.id,
+    userId: entry.userId,
+    projectId: entry.projectId,
+    taskId: entry.taskId ?? null,
+    description: entry.description ?? null,
+    startTime: entry.startTime ?? null,
+    endTime: entry.endTime ?? null,
+    duration: entry.duration ?? null,
+    hours: entry.hours ?? null,
+    date: entry.date ?? null,
+    status: entry.status ?? null,
+    // Only recorded when the caller loaded them, so older snapshots stay comparable
+    ...(entry.tags && { tagIds: entry.tags.map(({ tag }) => tag.id) }),
+    ...(entry.fieldValues && {
+      customFields: Object.fromEntries(entry.fieldValues.map(({ fieldId, value }) => [fieldId, value]))
+    })
+  }
+}
@@ -0,0 +1,224 @@
+// lib/budget-alerts.ts
+import { prisma } from '@/lib/prisma'
+import { NotificationManager } from '@/lib/notifications'
+import { Mailer } from '@/lib/mailer'
+import { FiscalSettingsManager } from '@/lib/fiscal-settings'
+import { ProjectBudgetManager } from '@/lib/project-budgets'
+import { QUARTER_KEYS, getFiscalYear, getFiscalYearLabel, getFiscalQuarterLabel, FiscalQuarter } from '@/lib/fiscal-calendar'
+
+export interface BudgetAlertSettings {
+  budgetAlertThresholds: number[] // percent of a quarter budget, ascending
+  budgetAlertEmailEnabled: boolean
+}
+
+export const DEFAULT_BUDGET_ALERT_SETTINGS: BudgetAlertSettings = {
+  budgetAlertThresholds: [75, 90, 100],
+  budgetAlertEmailEnabled: true
+}
+
+export const MAX_BUDGET_ALERT_THRESHOLDS = 5
+
+export interface FiredBudgetAlert {
+  projectId: string
+  fiscalYear: number
+  quarter: FiscalQuarter
+  threshold: number
+  utilization: number
+  spent: number
+  budget: number
+  recipients: number
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount)
+}
+
+export class BudgetAlertManager {
+  static async getSettings(): Promise<BudgetAlertSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { id: 'default' },
+      select: { budgetAlertThresholds: true, budgetAlertEmailEnabled: true }
+    })
+
+    return settings
+      ? {
+          budgetAlertThresholds: [...settings.budgetAlertThresholds].sort((a, b) => a - b),
+          budgetAlertEmailEnabled: settings.budgetAlertEmailEnabled
+        }
+      : { ...DEFAULT_BUDGET_ALERT_SETTINGS }
+  }
+
+  static async updateSettings(data: BudgetAlertSettings, adminUserId: string): Promise<BudgetAlertSettings> {
+    const thresholds = Array.from(new Set(data.budgetAlertThresholds)).sort((a, b) => a - b)
+
+    if (thresholds.length === 0 || thresholds.length > MAX_BUDGET_ALERT_THRESHOLDS) {
+      throw new Error(`Between 1 and ${MAX_BUDGET_ALERT_THRESHOLDS} alert thresholds are required`)
+    }
+
+    if (thresholds.some(threshold => !Number.isInteger(threshold) || threshold < 1 || threshold > 500)) {
+      throw new Error('Alert thresholds must be whole percentages between 1 and 500')
+    }
+
+    const settings = {
+      budgetAlertThresholds: thresholds,
+      budgetAlertEmailEnabled: data.budgetAlertEmailEnabled
+    }
+
+    await prisma.organizationSettings.upsert({
+      where: { id: 'default' },
+      create: { id: 'default', ...settings, updatedBy: adminUserId },
+      update: { ...settings, updatedBy: adminUserId }
+    })
+
+    return this.getSettings()
+  }
+
+  /**
+   * Compare each quarter of the current fiscal year against the thresholds and notify
+   * budget editors of newly crossed ones. A threshold fires once per quarter; when several
+   * are crossed at once only the highest is announced. Failures are logged, never thrown.
+   */
+  static async checkProject(projectId: string): Promise<FiredBudgetAlert[]> {
+    try {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { id: true, name: true, active: true }
+      })
+
+      if (!project || !project.active) return []
+
+      const settings = await this.getSettings()
+      const startMonth = await FiscalSettingsManager.getStartMonth()
+      const fiscalYear = getFiscalYear(new Date(), startMonth)
+      const budget = await ProjectBudgetManager.getBudget(projectId, fiscalYear)
+
+      const existing = await prisma.budgetAlert.findMany({
+        where: { projectId, fiscalYear },
+        select: { quarter: true, threshold: true }
+      })
+      const alreadySent = new Set(existing.map(alert => `${alert.quarter}-${alert.threshold}`))
+
+      const fired: FiredBudgetAlert[] = []
+
+      for (const [index, quarterKey] of QUARTER_KEYS.entries()) {
+        const quarter = (index + 1) as FiscalQuarter
+        const quarterBudget = budget[`${quarterKey}Budget`]
+        const spent = budget[`${quarterKey}Spent`]
+
+        if (quarterBudget <= 0) continue
+
+        const utilization = (spent / quarterBudget) * 100
+        const crossed = settings.budgetAlertThresholds.filter(threshold =>
+          utilization >= threshold && !alreadySent.has(`${quarter}-${threshold}`)
+        )
+
+        if (crossed.length === 0) continue
+
+        // skipDuplicates keeps concurrent recalculations from sending the same alert twice
+        const { count } = await prisma.budgetAlert.createMany({
+          data: crossed.map(threshold => ({
+            projectId,
+            fiscalYear,
+            quarter,
+            threshold,
+            utilization: Math.min(utilization, 99999).toFixed(2),
+            spent: spent.toFixed(2),
+            budget: quarterBudget.toFixed(2)
+          })),
+          skipDuplicates: true
+        })
+
+        if (count === 0) continue
+
+        const threshold = Math.max(...crossed)
+        const recipients = await this.notifyRecipients(project, {
+          fiscalYearLabel: getFiscalYearLabel(fiscalYear, startMonth),
+          quarterLabel: getFiscalQuarterLabel(quarter, startMonth),
+          threshold,
+          utilization,
+          spent,
+          budget: quarterBudget
+        }, settings.budgetAlertEmailEnabled)
+
+        console.log(`Budget alert: ${project.name} ${quarterKey.toUpperCase()} FY${fiscalYear} crossed ${threshold}% (${utilization.toFixed(1)}%), notified ${recipients} users`)
+
+        fired.push({
+          projectId,
+          fiscalYear,
+          quarter,
+          threshold,
+          utilization,
+          spent,
+          budget: quarterBudget,
+          recipients
+        })
+      }
+
+      return fired
+    } catch (error) {
+      console.error(`Failed to check budget alerts for project ${projectId}:`, error)
+      return []
+    }
+  }
+
+  /**
+   * Users with EDIT_BUDGETS or FULL_ACCESS on the project get an in-app notification and,
+   * when enabled, an email. Returns the number of users notified.
+   */
+  private static async notifyRecipients(
+    project: { id: string; name: string },
+    alert: {
+      fiscalYearLabel: string
+      quarterLabel: string
+      threshold: number
+      utilization: number
+      spent: number
+      budget: number
+    },
+    emailEnabled: boolean
+  ): Promise<number> {
+    const permissions = await prisma.projectPermission.findMany({
+      where: {
+        projectId: project.id,
+        permission: { in: ['EDIT_BUDGETS', 'FULL_ACCESS'] },
+        user: { active: true }
+      },
+      select: { user: { select: { id: true, email: true, name: true } } }
+    })
+
+    const recipients = new Map(permissions.map(permission => [permission.user.id, permission.user]))
+
+    const overBudget = alert.utilization >= 100
+    const title = overBudget
+      ? `${project.name} is over budget`
+      : `${project.name} reached ${alert.threshold}% of budget`
+    const message = `${alert.quarterLabel} FY ${alert.fiscalYearLabel}: ${formatCurrency(alert.spent)} spent of ` +
+      `${formatCurrency(alert.budget)} (${alert.utilization.toFixed(1)}%).`
+    const link = `/reports/projects/${project.id}`
+
+    for (const user of recipients.values()) {
+      await NotificationManager.notify({
+        userId: user.id,
+        type: 'BUDGET_THRESHOLD',
+        title,
+        message,
+        link
+      })
+
+      if (emailEnabled) {
+        await Mailer.send({
+          to: user.email,
+          subject: title,
+          text: `Hi ${user.name || user.email},\n\n${message}\n\nOpen the project report: ${process.env.NEXTAUTH_URL ?? ''}${link}\n`
+        })
+      }
+    }
+
+    return recipients.size
+  }
+}
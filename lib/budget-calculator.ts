@@ -1,6 +1,7 @@
 // lib/budget-calculator.ts
 import { Prisma } from '@prisma/client'
 import { Decimal } from '@prisma/client/runtime/library'
+import { getFiscalQuarter, DEFAULT_FISCAL_YEAR_START_MONTH } from '@/lib/fiscal-calendar'
 
 interface TimeEntry {
   hours: number
@@ -48,30 +49,10 @@ export class BudgetCalculator {
     }
   }
 
-  private static getFiscalQuarter(date: Date): 1 | 2 | 3 | 4 {
-    // Validate date input
-    if (!date || !(date instanceof Date) || isNaN(date.getTime())) {
-      throw new Error('Invalid date provided to getFiscalQuarter')
-    }
-    
-    const month = date.getMonth() + 1 // 1-12
-    if (month >= 4 && month <= 6) return 1  // Q1: Apr-Jun
-    if (month >= 7 && month <= 9) return 2  // Q2: Jul-Sep
-    if (month >= 10 && month <= 12) return 3 // Q3: Oct-Dec
-    return 4 // Q4: Jan-Mar
-  }
-
-  private static getFiscalYear(date: Date): number {
-    if (!date || !(date instanceof Date) || isNaN(date.getTime())) {
-      throw new Error('Invalid date provided to getFiscalYear')
-    }
-    
-    const month = date.getMonth() + 1
-    const year = date.getFullYear()
-    return month >= 4 ? year : year - 1
-  }
-
-  public static calculateQuarterlySpent(timeEntries: TimeEntry[]): {
+  public static calculateQuarterlySpent(
+    timeEntries: TimeEntry[],
+    fiscalYearStartMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+  ): {
     q1Spent: number
     q2Spent: number
     q3Spent: number
@@ -97,7 +78,7 @@ export class BudgetCalculator {
       }
 
       try {
-        const quarter = this.getFiscalQuarter(entry.date)
+        const quarter = getFiscalQuarter(entry.date, fiscalYearStartMonth)
         const cost = entry.hours * entry.user.employeeRate
         
         // Ensure cost is a valid number
@@ -179,13 +160,14 @@ export class BudgetCalculator {
 
   public static async updateProjectSpentAmounts(
     projectId: string,
-    timeEntries: TimeEntry[]
+    timeEntries: TimeEntry[],
+    fiscalYearStartMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
   ): Promise<void> {
     if (!projectId || typeof projectId !== 'string') {
       throw new Error('Invalid project ID')
     }
 
-    const quarterlySpent = this.calculateQuarterlySpent(timeEntries)
+    const quarterlySpent = this.calculateQuarterlySpent(timeEntries, fiscalYearStartMonth)
     
     try {
       const response = await fetch(`/api/projects/${projectId}/update-spent`, {
@@ -0,0 +1,349 @@
+// lib/bulk-rates.ts
+import { randomUUID } from 'crypto'
+import { format } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { Prisma, Role } from '@/app/generated/prisma'
+import { AuditActor, AuditLogger } from '@/lib/audit-log'
+import { ImportCell, ImportSheet } from '@/lib/entry-import'
+import { EnhancedSpendingCalculator, RateImpact } from '@/lib/spending-calculator-enhanced'
+
+// Largest rate a Decimal(10, 2) column holds
+const MAX_RATE = 99999999.99
+
+export type RateAdjustmentKind = 'PERCENT' | 'FIXED'
+
+export interface RateAdjustmentInput {
+  role: Role | null
+  jobRole: string | null
+  includeInactive: boolean
+  kind: RateAdjustmentKind
+  amount: number // percent, or dollars per hour; negative to lower rates
+  effectiveDate: Date
+}
+
+export interface BulkRateRow {
+  rowNumber: number | null // line of the CSV file, null for adjustments
+  email: string
+  user: { id: string; name: string | null } | null
+  currentRate: number | null // in effect on the effective date, before the change
+  newRate: number | null
+  effectiveDate: string | null // yyyy-MM-dd
+  errors: string[]
+}
+
+export interface BulkRatePreview {
+  rows: BulkRateRow[]
+  summary: { total: number; valid: number; invalid: number }
+  impact: RateImpact | null // worked out once every row is valid
+}
+
+export type BulkRateSource =
+  | { kind: 'ADJUSTMENT'; adjustment: RateAdjustmentInput }
+  | { kind: 'IMPORT'; fileName: string }
+
+export type BulkRateCommitResult =
+  | { success: true; batchId: string; changed: number; projectIds: string[]; impact: RateImpact }
+  | { success: false; error: string; status: number; preview?: BulkRatePreview }
+
+export type RateColumn = 'email' | 'rate' | 'effectiveDate'
+
+// Header spellings recognised in rate files
+const HEADER_ALIASES: Record<RateColumn, string[]> = {
+  email: ['email', 'user email', 'employee email', 'user', 'employee'],
+  rate: ['rate', 'hourly rate', 'new rate', 'cost rate'],
+  effectiveDate: ['effective date', 'effectivedate', 'effective', 'date', 'from']
+}
+
+type UserWithHistory = {
+  id: string
+  email: string
+  name: string | null
+  employeeRate: Prisma.Decimal
+  rateHistory: { rate: Prisma.Decimal; effectiveDate: Date }[]
+}
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  employeeRate: true,
+  rateHistory: { select: { rate: true, effectiveDate: true }, orderBy: { effectiveDate: 'desc' as const } }
+}
+
+function roundRate(rate: number): number {
+  return Math.round(rate * 100) / 100
+}
+
+function cellText(value: ImportCell): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd')
+  return String(value).trim()
+}
+
+function parseDay(text: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return null
+  const date = new Date(`${text}T00:00:00`)
+  return !isNaN(date.getTime()) && format(date, 'yyyy-MM-dd') === text ? date : null
+}
+
+// The user's own rate on a day: the latest history entry by then, else the current rate
+function rateOn(user: UserWithHistory, date: Date): number {
+  const history = user.rateHistory.find(entry => entry.effectiveDate.getTime() <= date.getTime())
+  return (history ? history.rate : user.employeeRate).toNumber()
+}
+
+export class BulkRateManager {
+  /**
+   * Raise or lower the rate of every user matching the filters by a percentage or a fixed
+   * amount, starting from each user's rate on the effective date
+   */
+  static async previewAdjustment(input: RateAdjustmentInput): Promise<BulkRatePreview> {
+    const jobRole = input.jobRole?.trim() || null
+    const users = await prisma.user.findMany({
+      where: {
+        ...(input.role ? { role: input.role } : {}),
+        ...(jobRole ? { jobRole: { equals: jobRole, mode: 'insensitive' as const } } : {}),
+        ...(input.includeInactive ? {} : { active: true })
+      },
+      select: USER_SELECT,
+      orderBy: { name: 'asc' }
+    })
+
+    const effectiveDate = format(input.effectiveDate, 'yyyy-MM-dd')
+    const rows = users.map((user): BulkRateRow => {
+      const currentRate = rateOn(user, input.effectiveDate)
+      const newRate = roundRate(input.kind === 'PERCENT'
+        ? currentRate * (1 + input.amount / 100)
+        : currentRate + input.amount)
+
+      const errors: string[] = []
+      if (newRate < 0) errors.push('The new rate would be below zero')
+      if (newRate > MAX_RATE) errors.push('The new rate is too large')
+
+      return {
+        rowNumber: null,
+        email: user.email,
+        user: { id: user.id, name: user.name },
+        currentRate,
+        newRate,
+        effectiveDate,
+        errors
+      }
+    })
+
+    return this.finish(rows)
+  }
+
+  /**
+   * Find the email, rate and effective date columns of a rate file. The effective date
+   * column may be left out when a default date is given.
+   */
+  static findColumns(headers: string[]): { success: true; columns: Record<RateColumn, number> } | { success: false; error: string; status: number } {
+    const columns = {} as Record<RateColumn, number>
+    for (const [column, aliases] of Object.entries(HEADER_ALIASES) as [RateColumn, string[]][]) {
+      columns[column] = headers.findIndex(header => aliases.includes(header.toLowerCase()))
+    }
+
+    if (columns.email < 0 || columns.rate < 0) {
+      return { success: false, error: 'The file needs an email and a rate column', status: 400 }
+    }
+
+    return { success: true, columns }
+  }
+
+  /**
+   * Check every row of a rate file without writing anything. Rates are dollars per hour;
+   * dates are yyyy-MM-dd, or the default date when the cell or column is empty.
+   */
+  static async previewImport(sheet: ImportSheet, columns: Record<RateColumn, number>, defaultEffectiveDate: Date | null): Promise<BulkRatePreview> {
+    const read = (row: ImportCell[], index: number) => cellText(index >= 0 ? row[index] ?? null : null)
+
+    const emails = [...new Set(sheet.rows.map(row => read(row, columns.email).toLowerCase()).filter(Boolean))]
+    const users = await prisma.user.findMany({
+      where: { email: { in: emails, mode: 'insensitive' } },
+      select: USER_SELECT
+    })
+    const usersByEmail = new Map(users.map(user => [user.email.toLowerCase(), user]))
+
+    const seen = new Map<string, number>() // userId|date -> row number
+    const rows = sheet.rows.map((row, index): BulkRateRow => {
+      const rowNumber = index + 2 // the header is row 1
+      const email = read(row, columns.email)
+      const rateText = read(row, columns.rate).replace(/[$,\s]/g, '')
+      const dateText = read(row, columns.effectiveDate)
+      const errors: string[] = []
+
+      const user = email ? usersByEmail.get(email.toLowerCase()) : undefined
+      if (!email) {
+        errors.push('Email is missing')
+      } else if (!user) {
+        errors.push(`No user with email ${email}`)
+      }
+
+      const rate = rateText === '' ? NaN : Number(rateText)
+      if (!Number.isFinite(rate)) {
+        errors.push(rateText === '' ? 'Rate is missing' : `"${rateText}" is not a rate`)
+      } else if (rate < 0) {
+        errors.push('Rate must be zero or more')
+      } else if (rate > MAX_RATE) {
+        errors.push('Rate is too large')
+      }
+
+      const effectiveDate = dateText ? parseDay(dateText) : defaultEffectiveDate
+      if (!effectiveDate) {
+        errors.push(dateText ? `"${dateText}" is not a yyyy-MM-dd date` : 'Effective date is missing')
+      }
+
+      if (user && effectiveDate) {
+        const key = `${user.id}|${effectiveDate.getTime()}`
+        const earlier = seen.get(key)
+        if (earlier) {
+          errors.push(`Row ${earlier} already changes this user's rate on that day`)
+        } else {
+          seen.set(key, rowNumber)
+        }
+      }
+
+      return {
+        rowNumber,
+        email,
+        user: user ? { id: user.id, name: user.name } : null,
+        currentRate: user && effectiveDate ? rateOn(user, effectiveDate) : null,
+        newRate: Number.isFinite(rate) ? roundRate(rate) : null,
+        effectiveDate: effectiveDate ? format(effectiveDate, 'yyyy-MM-dd') : null,
+        errors
+      }
+    })
+
+    return this.finish(rows)
+  }
+
+  /**
+   * Save every change or none of them, then recalculate spend once per project the users
+   * have logged time on. The impact of the whole batch is kept with each change.
+   */
+  static async commit(preview: BulkRatePreview, actor: AuditActor, source: BulkRateSource): Promise<BulkRateCommitResult> {
+    if (preview.rows.length === 0) {
+      return { success: false, error: source.kind === 'IMPORT' ? 'The file has no rows to import' : 'No users match the filters', status: 400 }
+    }
+
+    if (preview.summary.invalid > 0 || !preview.impact) {
+      return {
+        success: false,
+        error: `${preview.summary.invalid} of ${preview.summary.total} rows have errors. Fix them and try again.`,
+        status: 400,
+        preview
+      }
+    }
+
+    const batchId = randomUUID()
+    const impact = preview.impact
+    const changes = preview.rows.map(row => ({
+      userId: row.user!.id,
+      email: row.email,
+      oldRate: row.currentRate,
+      rate: row.newRate!,
+      effectiveDate: new Date(`${row.effectiveDate}T00:00:00`)
+    }))
+
+    // As with a single change, the current rate follows the latest change that has taken effect
+    const now = new Date()
+    const currentRates = new Map<string, { rate: number; effectiveDate: Date }>()
+    for (const change of changes) {
+      const latest = currentRates.get(change.userId)
+      if (change.effectiveDate <= now && (!latest || change.effectiveDate > latest.effectiveDate)) {
+        currentRates.set(change.userId, change)
+      }
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.rateHistory.createMany({
+        data: changes.map(change => ({
+          userId: change.userId,
+          rate: change.rate,
+          effectiveDate: change.effectiveDate,
+          createdBy: actor.id,
+          impact: JSON.parse(JSON.stringify(impact)) as Prisma.InputJsonValue,
+          batchId
+        }))
+      })
+
+      for (const [userId, { rate }] of currentRates) {
+        await tx.user.update({ where: { id: userId }, data: { employeeRate: rate } })
+      }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: source.kind === 'IMPORT' ? 'IMPORT' : 'UPDATE',
+      entityType: 'RATE_BATCH',
+      entityId: batchId,
+      after: changes.map(change => ({
+        userId: change.userId,
+        email: change.email,
+        oldRate: change.oldRate,
+        rate: change.rate,
+        effectiveDate: format(change.effectiveDate, 'yyyy-MM-dd')
+      })),
+      metadata: {
+        ...(source.kind === 'IMPORT' ? { fileName: source.fileName } : { adjustment: source.adjustment }),
+        projectsAffected: impact.projects.length,
+        spendChange: impact.change,
+        thresholdsCrossed: impact.thresholdsCrossed
+      }
+    })
+
+    const projects = await prisma.timeEntry.findMany({
+      where: { userId: { in: [...new Set(changes.map(change => change.userId))] } },
+      select: { projectId: true },
+      distinct: ['projectId']
+    })
+    const projectIds = projects.map(project => project.projectId)
+
+    for (const projectId of projectIds) {
+      try {
+        await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(projectId)
+      } catch (spendingError) {
+        console.error(`Failed to update spending for project ${projectId} after bulk rate change:`, spendingError)
+      }
+    }
+
+    return { success: true, batchId, changed: changes.length, projectIds, impact }
+  }
+
+  // Reject changes on days a user's rate already changes, then cost the batch if it is clean
+  private static async finish(rows: BulkRateRow[]): Promise<BulkRatePreview> {
+    const dated = rows.filter(row => row.user && row.effectiveDate)
+    const existing = dated.length === 0 ? [] : await prisma.rateHistory.findMany({
+      where: {
+        OR: dated.map(row => ({
+          userId: row.user!.id,
+          effectiveDate: new Date(`${row.effectiveDate}T00:00:00`)
+        }))
+      },
+      select: { userId: true, effectiveDate: true }
+    })
+    const taken = new Set(existing.map(entry => `${entry.userId}|${format(entry.effectiveDate, 'yyyy-MM-dd')}`))
+
+    for (const row of dated) {
+      if (taken.has(`${row.user!.id}|${row.effectiveDate}`)) {
+        row.errors.push('A rate change already starts on that day')
+      }
+    }
+
+    const invalid = rows.filter(row => row.errors.length > 0).length
+    const impact = invalid === 0 && rows.length > 0
+      ? await EnhancedSpendingCalculator.previewRateChanges(rows.map(row => ({
+          userId: row.user!.id,
+          rate: row.newRate!,
+          effectiveDate: new Date(`${row.effectiveDate}T00:00:00`)
+        })))
+      : null
+
+    return {
+      rows,
+      summary: { total: rows.length, valid: rows.length - invalid, invalid },
+      impact
+    }
+  }
+}
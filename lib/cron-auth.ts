@@ -0,0 +1,24 @@
+// lib/cron-auth.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+
+/**
+ * Cron endpoints are called by an external scheduler (system cron, Vercel Cron, ...) with
+ * `Authorization: Bearer $CRON_SECRET`. Returns the error response to send, or null when authorized.
+ */
+export function checkCronAuth(request: NextRequest): NextResponse | null {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 })
+  }
+
+  const header = request.headers.get('authorization') || ''
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''))
+  const expected = Buffer.from(secret)
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return null
+}
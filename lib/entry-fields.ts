@@ -0,0 +1,733 @@
+// lib/entry-fields.ts
+import { prisma } from '@/lib/prisma'
+import { CustomFieldType, Prisma } from '@/app/generated/prisma'
+import { AuditActor, AuditLogger } from '@/lib/audit-log'
+
+export interface TagInput {
+  name?: string
+  color?: string
+  active?: boolean
+}
+
+export interface TagSummary {
+  id: string
+  name: string
+  color: string
+  active: boolean
+  entries: number
+}
+
+export interface CustomFieldInput {
+  key?: string
+  name?: string
+  type?: CustomFieldType
+  options?: string[]
+  active?: boolean
+  sortOrder?: number
+  requiredProjectIds?: string[]
+}
+
+export interface CustomFieldSummary {
+  id: string
+  key: string
+  name: string
+  type: CustomFieldType
+  options: string[]
+  active: boolean
+  sortOrder: number
+  requiredProjectIds: string[]
+  entries: number
+}
+
+// What entry forms need: active tags and fields, and where each field is required
+export interface EntryFieldDefinitions {
+  tags: Pick<TagSummary, 'id' | 'name' | 'color'>[]
+  fields: Omit<CustomFieldSummary, 'active' | 'entries'>[]
+}
+
+/**
+ * Tags and custom field values sent with an entry. `tagIds` replaces the entry's tags;
+ * `customFields` is keyed by field id and merged, with null or '' clearing a value.
+ */
+export interface EntryFieldsInput {
+  tagIds?: string[]
+  customFields?: Record<string, string | number | null>
+}
+
+// Validated changes, left undefined where the entry keeps what it has
+export interface EntryFieldChanges {
+  tagIds?: string[]
+  values?: Record<string, string | null>
+}
+
+export interface ExistingEntryFields {
+  tagIds: string[]
+  values: Record<string, string>
+}
+
+export type EntryFieldsResult =
+  | { success: true; changes: EntryFieldChanges }
+  | { success: false; error: string; status: number; details: Record<string, string[]> }
+
+export type TagResult =
+  | { success: true; tag: TagSummary }
+  | { success: false; error: string; status: number }
+
+export type CustomFieldResult =
+  | { success: true; field: CustomFieldSummary }
+  | { success: false; error: string; status: number }
+
+export type EntryFieldCheckResult =
+  | { success: true }
+  | { success: false; error: string; status: number }
+
+export type EntryFilterResult =
+  | { success: true; where: Prisma.TimeEntryWhereInput }
+  | { success: false; error: string; status: number }
+
+// Include for entry queries whose responses or exports show tags and field values
+export const entryFieldsInclude = {
+  tags: { select: { tag: { select: { id: true, name: true, color: true } } } },
+  fieldValues: { select: { fieldId: true, value: true } }
+} as const
+
+const MAX_TEXT_LENGTH = 500
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const fieldInclude = {
+  requiredProjects: { select: { projectId: true } },
+  _count: { select: { values: true } }
+} as const
+
+type FieldWithProjects = Prisma.CustomFieldGetPayload<{ include: typeof fieldInclude }>
+
+function toFieldSummary(field: FieldWithProjects): CustomFieldSummary {
+  return {
+    id: field.id,
+    key: field.key,
+    name: field.name,
+    type: field.type,
+    options: field.options,
+    active: field.active,
+    sortOrder: field.sortOrder,
+    requiredProjectIds: field.requiredProjects.map(required => required.projectId),
+    entries: field._count.values
+  }
+}
+
+function fieldSnapshot(field: CustomFieldSummary) {
+  return {
+    key: field.key,
+    name: field.name,
+    type: field.type,
+    options: field.options,
+    active: field.active,
+    requiredProjectIds: field.requiredProjectIds
+  }
+}
+
+/**
+ * Bring a submitted value into its stored text form, or explain why it does not fit the field
+ */
+function normalizeValue(
+  field: { name: string; type: CustomFieldType; options: string[] },
+  raw: string | number | null
+): { value: string | null } | { error: string } {
+  const text = raw === null ? '' : String(raw).trim()
+  if (text === '') return { value: null }
+
+  switch (field.type) {
+    case 'NUMBER': {
+      const number = Number(text)
+      return Number.isFinite(number) ? { value: String(number) } : { error: `${field.name} must be a number` }
+    }
+    case 'SELECT':
+      return field.options.includes(text)
+        ? { value: text }
+        : { error: `${field.name} must be one of: ${field.options.join(', ')}` }
+    case 'DATE': {
+      const date = new Date(`${text}T00:00:00Z`)
+      return DATE_PATTERN.test(text) && !isNaN(date.getTime()) && date.toISOString().startsWith(text)
+        ? { value: text }
+        : { error: `${field.name} must be a date (YYYY-MM-DD)` }
+    }
+    default:
+      return text.length <= MAX_TEXT_LENGTH
+        ? { value: text }
+        : { error: `${field.name} must be at most ${MAX_TEXT_LENGTH} characters` }
+  }
+}
+
+export class EntryFieldManager {
+  /**
+   * Active tags and fields for the entry forms
+   */
+  static async listDefinitions(): Promise<EntryFieldDefinitions> {
+    const [tags, fields] = await Promise.all([
+      prisma.tag.findMany({
+        where: { active: true },
+        select: { id: true, name: true, color: true },
+        orderBy: { name: 'asc' }
+      }),
+      prisma.customField.findMany({
+        where: { active: true },
+        include: fieldInclude,
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+      })
+    ])
+
+    return {
+      tags,
+      fields: fields.map(field => ({
+        id: field.id,
+        key: field.key,
+        name: field.name,
+        type: field.type,
+        options: field.options,
+        sortOrder: field.sortOrder,
+        requiredProjectIds: field.requiredProjects.map(required => required.projectId)
+      }))
+    }
+  }
+
+  /**
+   * Current tags and values of an entry loaded with `entryFieldsInclude`
+   */
+  static existingFrom(entry: {
+    tags: { tag: { id: string } }[]
+    fieldValues: { fieldId: string; value: string }[]
+  }): ExistingEntryFields {
+    return {
+      tagIds: entry.tags.map(({ tag }) => tag.id),
+      values: Object.fromEntries(entry.fieldValues.map(({ fieldId, value }) => [fieldId, value]))
+    }
+  }
+
+  /**
+   * Validate the tags and field values sent for an entry on `projectId`. Fields required on
+   * the project are checked against the merged result, so an edit that does not touch them
+   * passes as long as the entry already has a value. Like tasks, an entry keeps inactive tags
+   * and field values it already has, but cannot gain new ones.
+   */
+  static async resolve(projectId: string, input: EntryFieldsInput, existing?: ExistingEntryFields): Promise<EntryFieldsResult> {
+    const details: Record<string, string[]> = {}
+    const changes: EntryFieldChanges = {}
+
+    if (input.tagIds !== undefined) {
+      const tagIds = [...new Set(input.tagIds)]
+      const tags = await prisma.tag.findMany({
+        where: { id: { in: tagIds } },
+        select: { id: true, name: true, active: true }
+      })
+      const tagsById = new Map(tags.map(tag => [tag.id, tag]))
+
+      const tagErrors: string[] = []
+      for (const tagId of tagIds) {
+        const tag = tagsById.get(tagId)
+        if (!tag) {
+          tagErrors.push(`Unknown tag ${tagId}`)
+        } else if (!tag.active && !existing?.tagIds.includes(tagId)) {
+          tagErrors.push(`Tag ${tag.name} is inactive`)
+        }
+      }
+
+      if (tagErrors.length > 0) details.tagIds = tagErrors
+      changes.tagIds = tagIds
+    }
+
+    const fields = await prisma.customField.findMany({
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        options: true,
+        active: true,
+        requiredProjects: { where: { projectId }, select: { id: true } }
+      }
+    })
+    const fieldsById = new Map(fields.map(field => [field.id, field]))
+
+    if (input.customFields !== undefined) {
+      const values: Record<string, string | null> = {}
+
+      for (const [fieldId, raw] of Object.entries(input.customFields)) {
+        const field = fieldsById.get(fieldId)
+        if (!field) {
+          details[`customFields.${fieldId}`] = ['Unknown field']
+          continue
+        }
+
+        const normalized = normalizeValue(field, raw)
+        if ('error' in normalized) {
+          details[`customFields.${fieldId}`] = [normalized.error]
+        } else if (!field.active && normalized.value !== null && normalized.value !== existing?.values[fieldId]) {
+          details[`customFields.${fieldId}`] = [`${field.name} is no longer in use`]
+        } else {
+          values[fieldId] = normalized.value
+        }
+      }
+
+      changes.values = values
+    }
+
+    for (const field of fields) {
+      if (!field.active || field.requiredProjects.length === 0 || details[`customFields.${field.id}`]) continue
+
+      const value = changes.values && field.id in changes.values
+        ? changes.values[field.id]
+        : existing?.values[field.id] ?? null
+
+      if (!value) {
+        details[`customFields.${field.id}`] = [`${field.name} is required for this project`]
+      }
+    }
+
+    if (Object.keys(details).length > 0) {
+      return { success: false, error: 'Validation failed', status: 400, details }
+    }
+
+    return { success: true, changes }
+  }
+
+  /**
+   * Nested writes for `timeEntry.create`
+   */
+  static createData(changes: EntryFieldChanges): Pick<Prisma.TimeEntryUncheckedCreateInput, 'tags' | 'fieldValues'> {
+    const values = Object.entries(changes.values ?? {}).filter((entry): entry is [string, string] => entry[1] !== null)
+
+    return {
+      ...(changes.tagIds?.length && {
+        tags: { create: changes.tagIds.map(tagId => ({ tagId })) }
+      }),
+      ...(values.length > 0 && {
+        fieldValues: { create: values.map(([fieldId, value]) => ({ fieldId, value })) }
+      })
+    }
+  }
+
+  /**
+   * Nested writes for `timeEntry.update`: tags are replaced, field values merged
+   */
+  static updateData(timeEntryId: string, changes: EntryFieldChanges): Pick<Prisma.TimeEntryUncheckedUpdateInput, 'tags' | 'fieldValues'> {
+    const values = Object.entries(changes.values ?? {})
+    const cleared = values.filter(([, value]) => value === null).map(([fieldId]) => fieldId)
+    const set = values.filter((entry): entry is [string, string] => entry[1] !== null)
+
+    return {
+      ...(changes.tagIds && {
+        tags: {
+          deleteMany: { tagId: { notIn: changes.tagIds } },
+          connectOrCreate: changes.tagIds.map(tagId => ({
+            where: { timeEntryId_tagId: { timeEntryId, tagId } },
+            create: { tagId }
+          }))
+        }
+      }),
+      ...(values.length > 0 && {
+        fieldValues: {
+          deleteMany: { fieldId: { in: cleared } },
+          upsert: set.map(([fieldId, value]) => ({
+            where: { timeEntryId_fieldId: { timeEntryId, fieldId } },
+            create: { fieldId, value },
+            update: { value }
+          }))
+        }
+      })
+    }
+  }
+
+  /**
+   * Report filters: `tagIds` (comma separated, the entry must carry every tag) and
+   * `field.<key>=<value>` for exact matches on a custom field
+   */
+  static async buildFilter(searchParams: URLSearchParams): Promise<EntryFilterResult> {
+    const conditions: Prisma.TimeEntryWhereInput[] = []
+
+    const tagIds = (searchParams.get('tagIds') || '').split(',').map(id => id.trim()).filter(Boolean)
+    for (const tagId of tagIds) {
+      conditions.push({ tags: { some: { tagId } } })
+    }
+
+    const fieldFilters = Array.from(searchParams.entries()).filter(([name]) => name.startsWith('field.'))
+    if (fieldFilters.length > 0) {
+      const keys = fieldFilters.map(([name]) => name.slice('field.'.length))
+      const fields = await prisma.customField.findMany({
+        where: { key: { in: keys } },
+        select: { id: true, key: true, name: true, type: true, options: true }
+      })
+      const fieldsByKey = new Map(fields.map(field => [field.key, field]))
+
+      for (const [name, raw] of fieldFilters) {
+        const key = name.slice('field.'.length)
+        const field = fieldsByKey.get(key)
+        if (!field) {
+          return { success: false, error: `Unknown custom field ${key}`, status: 400 }
+        }
+
+        const normalized = normalizeValue(field, raw)
+        if ('error' in normalized) {
+          return { success: false, error: normalized.error, status: 400 }
+        }
+
+        conditions.push(normalized.value === null
+          ? { fieldValues: { none: { fieldId: field.id } } }
+          : { fieldValues: { some: { fieldId: field.id, value: normalized.value } } })
+      }
+    }
+
+    return { success: true, where: conditions.length > 0 ? { AND: conditions } : {} }
+  }
+
+  static async listTags(): Promise<TagSummary[]> {
+    const tags = await prisma.tag.findMany({
+      include: { _count: { select: { entries: true } } },
+      orderBy: [{ active: 'desc' }, { name: 'asc' }]
+    })
+
+    return tags.map(({ _count, ...tag }) => ({
+      id: tag.id,
+      name: tag.name,
+      color: tag.color,
+      active: tag.active,
+      entries: _count.entries
+    }))
+  }
+
+  static async createTag(input: TagInput, actor: AuditActor): Promise<TagResult> {
+    try {
+      const tag = await prisma.tag.create({
+        data: {
+          name: input.name!.trim(),
+          ...(input.color ? { color: input.color } : {}),
+          active: input.active ?? true
+        }
+      })
+
+      await AuditLogger.record({
+        actor,
+        action: 'CREATE',
+        entityType: 'TAG',
+        entityId: tag.id,
+        after: { name: tag.name, color: tag.color, active: tag.active }
+      })
+
+      return { success: true, tag: { id: tag.id, name: tag.name, color: tag.color, active: tag.active, entries: 0 } }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, error: 'A tag with this name already exists', status: 409 }
+      }
+      throw error
+    }
+  }
+
+  static async updateTag(tagId: string, input: TagInput, actor: AuditActor): Promise<TagResult> {
+    const existing = await prisma.tag.findUnique({
+      where: { id: tagId },
+      include: { _count: { select: { entries: true } } }
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Tag not found', status: 404 }
+    }
+
+    try {
+      const tag = await prisma.tag.update({
+        where: { id: tagId },
+        data: {
+          ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+          ...(input.color !== undefined ? { color: input.color } : {}),
+          ...(input.active !== undefined ? { active: input.active } : {})
+        }
+      })
+
+      await AuditLogger.record({
+        actor,
+        action: 'UPDATE',
+        entityType: 'TAG',
+        entityId: tagId,
+        before: { name: existing.name, color: existing.color, active: existing.active },
+        after: { name: tag.name, color: tag.color, active: tag.active }
+      })
+
+      return {
+        success: true,
+        tag: { id: tag.id, name: tag.name, color: tag.color, active: tag.active, entries: existing._count.entries }
+      }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, error: 'A tag with this name already exists', status: 409 }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Delete an unused tag. Tags on entries are deactivated instead so past reports keep them.
+   */
+  static async deleteTag(tagId: string, actor: AuditActor): Promise<EntryFieldCheckResult> {
+    const existing = await prisma.tag.findUnique({
+      where: { id: tagId },
+      include: { _count: { select: { entries: true } } }
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Tag not found', status: 404 }
+    }
+
+    if (existing._count.entries > 0) {
+      return {
+        success: false,
+        error: `${existing._count.entries} time entries carry this tag. Deactivate it instead.`,
+        status: 409
+      }
+    }
+
+    await prisma.tag.delete({ where: { id: tagId } })
+
+    await AuditLogger.record({
+      actor,
+      action: 'DELETE',
+      entityType: 'TAG',
+      entityId: tagId,
+      before: { name: existing.name, color: existing.color, active: existing.active }
+    })
+
+    return { success: true }
+  }
+
+  static async listFields(): Promise<CustomFieldSummary[]> {
+    const fields = await prisma.customField.findMany({
+      include: fieldInclude,
+      orderBy: [{ active: 'desc' }, { sortOrder: 'asc' }, { name: 'asc' }]
+    })
+
+    return fields.map(toFieldSummary)
+  }
+
+  static async createField(input: CustomFieldInput, actor: AuditActor): Promise<CustomFieldResult> {
+    const type = input.type!
+    const options = type === 'SELECT' ? [...new Set((input.options ?? []).map(option => option.trim()).filter(Boolean))] : []
+
+    if (type === 'SELECT' && options.length === 0) {
+      return { success: false, error: 'Select fields need at least one option', status: 400 }
+    }
+
+    const requiredProjectIds = await this.validProjectIds(input.requiredProjectIds ?? [])
+
+    try {
+      const created = await prisma.customField.create({
+        data: {
+          key: input.key!,
+          name: input.name!.trim(),
+          type,
+          options,
+          active: input.active ?? true,
+          sortOrder: input.sortOrder ?? 0,
+          requiredProjects: { create: requiredProjectIds.map(projectId => ({ projectId })) }
+        },
+        include: fieldInclude
+      })
+
+      const field = toFieldSummary(created)
+
+      await AuditLogger.record({
+        actor,
+        action: 'CREATE',
+        entityType: 'CUSTOM_FIELD',
+        entityId: field.id,
+        after: fieldSnapshot(field)
+      })
+
+      return { success: true, field }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, error: 'A field with this key already exists', status: 409 }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Update a field. The key and type are fixed once entries have values, since filters
+   * and stored values depend on them; removed select options stay on existing entries.
+   */
+  static async updateField(fieldId: string, input: CustomFieldInput, actor: AuditActor): Promise<CustomFieldResult> {
+    const existing = await prisma.customField.findUnique({
+      where: { id: fieldId },
+      include: fieldInclude
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Custom field not found', status: 404 }
+    }
+
+    const inUse = existing._count.values > 0
+    if (inUse && input.type !== undefined && input.type !== existing.type) {
+      return { success: false, error: 'The type of a field with values cannot be changed', status: 409 }
+    }
+    if (inUse && input.key !== undefined && input.key !== existing.key) {
+      return { success: false, error: 'The key of a field with values cannot be changed', status: 409 }
+    }
+
+    const type = input.type ?? existing.type
+    const options = type !== 'SELECT'
+      ? []
+      : input.options !== undefined
+        ? [...new Set(input.options.map(option => option.trim()).filter(Boolean))]
+        : existing.options
+
+    if (type === 'SELECT' && options.length === 0) {
+      return { success: false, error: 'Select fields need at least one option', status: 400 }
+    }
+
+    const requiredProjectIds = input.requiredProjectIds ? await this.validProjectIds(input.requiredProjectIds) : null
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        if (requiredProjectIds) {
+          await tx.projectRequiredField.deleteMany({ where: { fieldId, projectId: { notIn: requiredProjectIds } } })
+          await tx.projectRequiredField.createMany({
+            data: requiredProjectIds.map(projectId => ({ fieldId, projectId })),
+            skipDuplicates: true
+          })
+        }
+
+        return tx.customField.update({
+          where: { id: fieldId },
+          data: {
+            ...(input.key !== undefined ? { key: input.key } : {}),
+            ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+            type,
+            options,
+            ...(input.active !== undefined ? { active: input.active } : {}),
+            ...(input.sortOrder !== undefined ? { sortOrder: input.sortOrder } : {})
+          },
+          include: fieldInclude
+        })
+      })
+
+      const field = toFieldSummary(updated)
+
+      await AuditLogger.record({
+        actor,
+        action: 'UPDATE',
+        entityType: 'CUSTOM_FIELD',
+        entityId: fieldId,
+        before: fieldSnapshot(toFieldSummary(existing)),
+        after: fieldSnapshot(field)
+      })
+
+      return { success: true, field }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, error: 'A field with this key already exists', status: 409 }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Delete a field without values. Fields in use are deactivated instead.
+   */
+  static async deleteField(fieldId: string, actor: AuditActor): Promise<EntryFieldCheckResult> {
+    const existing = await prisma.customField.findUnique({
+      where: { id: fieldId },
+      include: fieldInclude
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Custom field not found', status: 404 }
+    }
+
+    if (existing._count.values > 0) {
+      return {
+        success: false,
+        error: `${existing._count.values} time entries have a value for this field. Deactivate it instead.`,
+        status: 409
+      }
+    }
+
+    await prisma.customField.delete({ where: { id: fieldId } })
+
+    await AuditLogger.record({
+      actor,
+      action: 'DELETE',
+      entityType: 'CUSTOM_FIELD',
+      entityId: fieldId,
+      before: fieldSnapshot(toFieldSummary(existing))
+    })
+
+    return { success: true }
+  }
+
+  private static async validProjectIds(projectIds: string[]): Promise<string[]> {
+    if (projectIds.length === 0) return []
+
+    const projects = await prisma.project.findMany({
+      where: { id: { in: projectIds } },
+      select: { id: true }
+    })
+
+    return projects.map(project => project.id)
+  }
+}
+
+export interface ExportableEntry {
+  date: Date
+  hours: unknown
+  description: string | null
+  billable: boolean
+  status: string
+  user: { name: string | null; email: string }
+  project: { name: string; code?: string | null }
+  task?: { name: string } | null
+  tags: { tag: { name: string } }[]
+  fieldValues: { fieldId: string; value: string }[]
+}
+
+/**
+ * Entry-level sheet shared by the XLSX and CSV exports: one row per entry with a TAGS
+ * column and a column per custom field, including inactive fields that still have values.
+ */
+export class EntryExportSheet {
+  private constructor(private fields: { id: string; name: string }[]) {}
+
+  static async load(): Promise<EntryExportSheet> {
+    const fields = await prisma.customField.findMany({
+      where: { OR: [{ active: true }, { values: { some: {} } }] },
+      select: { id: true, name: true },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+    })
+
+    return new EntryExportSheet(fields)
+  }
+
+  headers(): string[] {
+    return [
+      'DATE', 'EMPLOYEE', 'EMAIL', 'PROJECT', 'TASK', 'HOURS', 'BILLABLE', 'STATUS', 'DESCRIPTION', 'TAGS',
+      ...this.fields.map(field => field.name.toUpperCase())
+    ]
+  }
+
+  row(entry: ExportableEntry): (string | number)[] {
+    const values = new Map(entry.fieldValues.map(({ fieldId, value }) => [fieldId, value]))
+
+    return [
+      entry.date.toISOString().slice(0, 10),
+      entry.user.name || entry.user.email,
+      entry.user.email,
+      entry.project.code ? `${entry.project.code} ${entry.project.name}` : entry.project.name,
+      entry.task?.name ?? '',
+      Number(Number(entry.hours).toFixed(2)),
+      entry.billable ? 'Yes' : 'No',
+      entry.status,
+      entry.description ?? '',
+      entry.tags.map(({ tag }) => tag.name).join(', '),
+      ...this.fields.map(field => values.get(field.id) ?? '')
+    ]
+  }
+
+  rows(entries: ExportableEntry[]): (string | number)[][] {
+    return [this.headers(), ...entries.map(entry => this.row(entry))]
+  }
+}
@@ -0,0 +1,119 @@
+// lib/entry-import-adapters.ts
+import { ImportCell, ImportRecord, ImportSheet } from '@/lib/entry-import'
+
+export type ImportSourceId = 'toggl' | 'harvest' | 'clockify'
+
+interface ImportAdapter {
+  label: string
+  // Headers that identify the export; matched without regard to case
+  signature: string[]
+  toRecord(get: (...headers: string[]) => ImportCell, rowNumber: number): ImportRecord
+}
+
+// Column layouts of each tracker's detailed report CSV export
+const ADAPTERS: Record<ImportSourceId, ImportAdapter> = {
+  clockify: {
+    label: 'Clockify',
+    signature: ['project', 'user', 'email', 'start date', 'start time', 'end time', 'duration (decimal)'],
+    toRecord: (get, rowNumber) => ({
+      rowNumber,
+      email: get('email'),
+      userName: get('user'),
+      project: get('project'),
+      client: get('client'),
+      task: get('task'),
+      date: get('start date'),
+      endDate: get('end date'),
+      startTime: get('start time'),
+      endTime: get('end time'),
+      hours: get('duration (decimal)'),
+      description: get('description'),
+      billable: get('billable')
+    })
+  },
+  toggl: {
+    label: 'Toggl Track',
+    signature: ['project', 'email', 'start date', 'start time', 'end time', 'duration'],
+    toRecord: (get, rowNumber) => ({
+      rowNumber,
+      email: get('email'),
+      userName: get('user', 'member'),
+      project: get('project'),
+      client: get('client'),
+      task: get('task'),
+      date: get('start date'),
+      endDate: get('end date'),
+      startTime: get('start time'),
+      endTime: get('end time'),
+      hours: get('duration'),
+      description: get('description'),
+      billable: get('billable')
+    })
+  },
+  // Harvest only exports hours per day, so entries are laid out from the start of the day
+  harvest: {
+    label: 'Harvest',
+    signature: ['date', 'project', 'hours', 'first name', 'last name'],
+    toRecord: (get, rowNumber) => {
+      const name = [get('first name'), get('last name')]
+        .map(part => (part === null ? '' : String(part).trim()))
+        .filter(Boolean)
+        .join(' ')
+
+      return {
+        rowNumber,
+        email: get('email'), // not exported, but can be added to tell apart users with the same name
+        userName: name || null,
+        project: get('project'),
+        projectCode: get('project code'),
+        client: get('client'),
+        task: get('task'),
+        date: get('date'),
+        startTime: null,
+        endTime: null,
+        hours: get('hours'),
+        description: get('notes'),
+        billable: get('billable?')
+      }
+    }
+  }
+}
+
+export class ImportAdapters {
+  // Which tracker produced the file, if any
+  static detect(headers: string[]): ImportSourceId | null {
+    const present = new Set(headers.map(header => header.toLowerCase()))
+    const order: ImportSourceId[] = ['clockify', 'toggl', 'harvest']
+
+    return order.find(source => ADAPTERS[source].signature.every(header => present.has(header))) ?? null
+  }
+
+  static checkHeaders(source: ImportSourceId, headers: string[]): string | null {
+    const present = new Set(headers.map(header => header.toLowerCase()))
+    const missing = ADAPTERS[source].signature.filter(header => !present.has(header))
+
+    return missing.length > 0
+      ? `This is not a ${ADAPTERS[source].label} detailed export; missing columns: ${missing.join(', ')}`
+      : null
+  }
+
+  static toRecords(source: ImportSourceId, sheet: ImportSheet): ImportRecord[] {
+    const columns = new Map<string, number>()
+    sheet.headers.forEach((header, index) => {
+      const key = header.toLowerCase()
+      if (!columns.has(key)) columns.set(key, index)
+    })
+
+    return sheet.rows.map((row, index) => {
+      const get = (...headers: string[]): ImportCell => {
+        for (const header of headers) {
+          const column = columns.get(header)
+          if (column !== undefined) return row[column] ?? null
+        }
+        return null
+      }
+
+      return ADAPTERS[source].toRecord(get, index + 2) // the header is row 1
+    })
+  }
+}
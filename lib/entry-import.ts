@@ -0,0 +1,676 @@
+// lib/entry-import.ts
+import { randomUUID } from 'crypto'
+import * as XLSX from 'xlsx'
+import { addDays, format } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { AuditActor, AuditLogger } from '@/lib/audit-log'
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods'
+import { EntryValidator } from '@/lib/entry-validation'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+
+export const MAX_IMPORT_ROWS = 5000
+
+// Rows that only give hours are laid out back to back from this time of day, after any stored entries
+const DEFAULT_DAY_START_MINUTES = 9 * 60
+
+export type ImportCell = string | number | boolean | Date | null
+
+export interface ImportSheet {
+  headers: string[]
+  rows: ImportCell[][]
+}
+
+// Which header holds each value; start/end or hours must be mapped
+export interface ImportColumnMapping {
+  email: string
+  project: string
+  date: string
+  startTime?: string | null
+  endTime?: string | null
+  hours?: string | null
+  description?: string | null
+}
+
+export type ImportField = keyof ImportColumnMapping
+
+export interface ImportRecord {
+  rowNumber: number
+  email: ImportCell
+  project: ImportCell
+  date: ImportCell
+  startTime: ImportCell
+  endTime: ImportCell
+  hours: ImportCell
+  description: ImportCell
+  // Extra columns carried by other trackers' exports, see lib/entry-import-adapters.ts
+  userName?: ImportCell // matched when there is no email
+  projectCode?: ImportCell
+  client?: ImportCell
+  task?: ImportCell
+  endDate?: ImportCell // for entries that run past midnight
+  billable?: ImportCell
+}
+
+export interface PlannedEntry {
+  userId: string
+  userEmail: string
+  projectId: string | null // null until the project is created on commit
+  projectName: string
+  newProject: { code: string | null; clientId: string | null } | null
+  taskId: string | null
+  date: string // yyyy-MM-dd
+  startTime: Date
+  endTime: Date
+  duration: number
+  description: string | null
+  billable: boolean
+}
+
+export interface ImportRowResult {
+  rowNumber: number
+  errors: string[]
+  entry: PlannedEntry | null
+  duplicateOf: string | null // an existing entry with the same hours; the row is skipped
+}
+
+export interface ImportSummary {
+  total: number
+  valid: number
+  invalid: number
+  duplicates: number
+  hours: number
+  users: number
+  projects: number
+  newProjects: string[]
+}
+
+export interface ImportPreview {
+  rows: ImportRowResult[]
+  summary: ImportSummary
+}
+
+export interface ImportActor extends AuditActor {
+  role: string
+}
+
+export interface ImportOptions {
+  createMissingProjects?: boolean
+}
+
+export interface ImportSource {
+  fileName: string
+  format: string // csv or xlsx
+  source: string // native, or the tracker the file was exported from
+}
+
+export type ImportCommitResult =
+  | { success: true; importId: string; created: number; skipped: number; hours: number; projectIds: string[]; createdProjects: string[] }
+  | { success: false; error: string; status: number; preview?: ImportPreview }
+
+export type ImportSheetResult =
+  | { success: true; sheet: ImportSheet }
+  | { success: false; error: string; status: number }
+
+// Header spellings recognised when suggesting a mapping
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  email: ['email', 'user email', 'user', 'employee email', 'employee'],
+  project: ['project', 'project name', 'project code', 'code'],
+  date: ['date', 'day', 'start date'],
+  startTime: ['start', 'start time', 'from'],
+  endTime: ['end', 'end time', 'to'],
+  hours: ['hours', 'duration', 'time', 'hours worked'],
+  description: ['description', 'notes', 'note', 'comment', 'task']
+}
+
+function cellText(value: ImportCell): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd HH:mm')
+  return String(value).trim()
+}
+
+function isBlank(value: ImportCell): boolean {
+  return cellText(value) === ''
+}
+
+function parseBoolean(value: ImportCell): boolean | null {
+  if (typeof value === 'boolean') return value
+  const text = cellText(value).toLowerCase()
+  if (['yes', 'y', 'true', '1'].includes(text)) return true
+  if (['no', 'n', 'false', '0'].includes(text)) return false
+  return null
+}
+
+// Spreadsheet dates arrive as Date objects or serial numbers, text dates as yyyy-MM-dd or M/D/yyyy
+function parseDate(value: ImportCell): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate())
+  }
+
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value)
+    return parsed ? new Date(parsed.y, parsed.m - 1, parsed.d) : null
+  }
+
+  const text = cellText(value)
+  let year: number, month: number, day: number
+
+  const iso = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/)
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+  } else if (us) {
+    [year, month, day] = [Number(us[3]), Number(us[1]), Number(us[2])]
+  } else {
+    return null
+  }
+
+  const date = new Date(year, month - 1, day)
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null
+}
+
+// Minutes after midnight from "HH:MM", "9:30 pm", a fraction of a day or a Date
+function parseTimeOfDay(value: ImportCell): number | null {
+  if (value instanceof Date) {
+    return value.getHours() * 60 + value.getMinutes()
+  }
+
+  if (typeof value === 'number') {
+    return value >= 0 && value < 1 ? Math.round(value * 24 * 60) : null
+  }
+
+  const match = cellText(value).toLowerCase().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/)
+  if (!match) return null
+
+  let hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (match[3] === 'pm' && hours < 12) hours += 12
+  if (match[3] === 'am' && hours === 12) hours = 0
+
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null
+}
+
+// Minutes from a decimal number of hours, "H:MM" or "H:MM:SS"
+function parseHours(value: ImportCell): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? Math.round(value * 60) : null
+  }
+
+  const text = cellText(value).replace(',', '.')
+  const clock = text.match(/^(\d{1,3}):(\d{2})(?::(\d{2}))?$/)
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]) + Math.round(Number(clock[3] ?? 0) / 60)
+
+  const hours = Number(text)
+  return text !== '' && Number.isFinite(hours) ? Math.round(hours * 60) : null
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  const date = new Date(day)
+  date.setHours(0, minutes, 0, 0)
+  return date
+}
+
+export class EntryImporter {
+  /**
+   * Read the first sheet of a CSV or XLSX upload. CSV values are kept as text so that
+   * dates and times are parsed the same way whatever locale produced the file.
+   */
+  static readSheet(data: Buffer, fileName: string): ImportSheetResult {
+    let workbook: XLSX.WorkBook
+    try {
+      workbook = fileName.toLowerCase().endsWith('.csv')
+        ? XLSX.read(data.toString('utf8'), { type: 'string', raw: true })
+        : XLSX.read(data, { type: 'buffer', cellDates: true })
+    } catch (error) {
+      console.error('Failed to read import file:', error)
+      return { success: false, error: 'The file could not be read as CSV or XLSX', status: 400 }
+    }
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    if (!sheet) {
+      return { success: false, error: 'The file has no sheets', status: 400 }
+    }
+
+    const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<ImportCell[]>(sheet, { header: 1, defval: null, raw: true })
+    const headers = headerRow.map(cell => cellText(cell))
+
+    if (headers.every(header => header === '')) {
+      return { success: false, error: 'The first row must contain column headers', status: 400 }
+    }
+
+    const dataRows = rows.filter(row => row.some(cell => !isBlank(cell)))
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      return { success: false, error: `Imports are limited to ${MAX_IMPORT_ROWS} rows`, status: 400 }
+    }
+
+    return { success: true, sheet: { headers, rows: dataRows } }
+  }
+
+  static suggestMapping(headers: string[]): Partial<ImportColumnMapping> {
+    const mapping: Partial<ImportColumnMapping> = {}
+    const used = new Set<string>()
+
+    for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [ImportField, string[]][]) {
+      const header = headers.find(h => !used.has(h) && aliases.includes(h.toLowerCase()))
+      if (header) {
+        mapping[field] = header
+        used.add(header)
+      }
+    }
+
+    return mapping
+  }
+
+  static checkMapping(headers: string[], mapping: ImportColumnMapping): string | null {
+    const mapped = Object.values(mapping).filter((header): header is string => !!header)
+    const missing = mapped.find(header => !headers.includes(header))
+    if (missing) return `Column "${missing}" is not in the file`
+
+    if (!mapping.hours && !(mapping.startTime && mapping.endTime)) {
+      return 'Map either start and end times or hours'
+    }
+
+    return null
+  }
+
+  static mapRows(sheet: ImportSheet, mapping: ImportColumnMapping): ImportRecord[] {
+    const indexOf = (header?: string | null) => (header ? sheet.headers.indexOf(header) : -1)
+    const columns = {
+      email: indexOf(mapping.email),
+      project: indexOf(mapping.project),
+      date: indexOf(mapping.date),
+      startTime: indexOf(mapping.startTime),
+      endTime: indexOf(mapping.endTime),
+      hours: indexOf(mapping.hours),
+      description: indexOf(mapping.description)
+    }
+    const read = (row: ImportCell[], index: number) => (index >= 0 ? row[index] ?? null : null)
+
+    return sheet.rows.map((row, index) => ({
+      rowNumber: index + 2, // the header is row 1
+      email: read(row, columns.email),
+      project: read(row, columns.project),
+      date: read(row, columns.date),
+      startTime: read(row, columns.startTime),
+      endTime: read(row, columns.endTime),
+      hours: read(row, columns.hours),
+      description: read(row, columns.description)
+    }))
+  }
+
+  /**
+   * Check every row without writing anything. Rows are checked against existing entries
+   * and against the rows above them, so the preview matches what a commit would do.
+   * Custom fields required on a project are not asked for, since they postdate the history being imported.
+   */
+  static async preview(records: ImportRecord[], actor: ImportActor, options: ImportOptions = {}): Promise<ImportPreview> {
+    const emails = [...new Set(records.map(record => cellText(record.email).toLowerCase()).filter(Boolean))]
+    const names = [...new Set(records.map(record => cellText(record.userName ?? null).toLowerCase()).filter(Boolean))]
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [
+          { email: { in: emails, mode: 'insensitive' } },
+          { name: { in: names, mode: 'insensitive' } }
+        ]
+      },
+      select: { id: true, email: true, name: true, active: true }
+    })
+    const usersByEmail = new Map(users.map(user => [user.email.toLowerCase(), user]))
+    const usersByName = new Map<string, typeof users>()
+    for (const user of users) {
+      if (!user.name) continue
+      const key = user.name.toLowerCase()
+      usersByName.set(key, [...(usersByName.get(key) ?? []), user])
+    }
+
+    const projects = await prisma.project.findMany({
+      select: { id: true, name: true, code: true, archivedAt: true, tasks: { select: { id: true, name: true } } }
+    })
+    const projectsByKey = new Map<string, typeof projects[number]>()
+    for (const project of projects) {
+      projectsByKey.set(project.name.toLowerCase(), project)
+    }
+    // Codes win over names when both match
+    for (const project of projects) {
+      if (project.code) projectsByKey.set(project.code.toLowerCase(), project)
+    }
+
+    // New projects are attached to an existing client of the same name
+    const clients = options.createMissingProjects
+      ? await prisma.client.findMany({ select: { id: true, name: true } })
+      : []
+    const clientsByName = new Map(clients.map(client => [client.name.toLowerCase(), client.id]))
+
+    const settings = await EntryValidator.getSettings()
+    const periodErrors = new Map<string, string | null>()
+    const now = new Date()
+
+    // First pass: parse each row on its own
+    const parsed = records.map(record => {
+      const errors: string[] = []
+      const email = cellText(record.email)
+      const userName = cellText(record.userName ?? null)
+      const namesakes = usersByName.get(userName.toLowerCase()) ?? []
+      const user = email
+        ? usersByEmail.get(email.toLowerCase())
+        : namesakes.length === 1 ? namesakes[0] : undefined
+
+      const projectKey = cellText(record.project)
+      const projectCode = cellText(record.projectCode ?? null)
+      const project = (projectCode ? projectsByKey.get(projectCode.toLowerCase()) : undefined) ?? projectsByKey.get(projectKey.toLowerCase())
+
+      if (!email && !userName) errors.push('User email is missing')
+      else if (!email && namesakes.length > 1) errors.push(`More than one user is named ${userName}; add an email column`)
+      else if (!user) errors.push(`Unknown user ${email || userName}`)
+      else if (!user.active) errors.push(`User ${email || userName} is deactivated`)
+
+      if (!projectKey) errors.push('Project is missing')
+      else if (!project && !options.createMissingProjects) errors.push(`Unknown project ${projectKey}`)
+      else if (project?.archivedAt) errors.push(`Project ${project.name} is archived`)
+
+      const day = parseDate(record.date)
+      if (!day) errors.push(isBlank(record.date) ? 'Date is missing' : `Invalid date ${cellText(record.date)}`)
+
+      const endDay = isBlank(record.endDate ?? null) ? day : parseDate(record.endDate ?? null)
+      if (!endDay) errors.push(`Invalid end date ${cellText(record.endDate ?? null)}`)
+
+      const start = isBlank(record.startTime) ? null : parseTimeOfDay(record.startTime)
+      const end = isBlank(record.endTime) ? null : parseTimeOfDay(record.endTime)
+      const hours = isBlank(record.hours) ? null : parseHours(record.hours)
+      const billable = isBlank(record.billable ?? null) ? true : parseBoolean(record.billable ?? null)
+
+      if (!isBlank(record.startTime) && start === null) errors.push(`Invalid start time ${cellText(record.startTime)}`)
+      if (!isBlank(record.endTime) && end === null) errors.push(`Invalid end time ${cellText(record.endTime)}`)
+      if (!isBlank(record.hours) && hours === null) errors.push(`Invalid hours ${cellText(record.hours)}`)
+      if (billable === null) errors.push(`Invalid billable flag ${cellText(record.billable ?? null)}`)
+
+      let duration: number | null = null
+      if (start !== null && end !== null) {
+        const daysLater = day && endDay ? Math.round((endDay.getTime() - day.getTime()) / (24 * 60 * 60 * 1000)) : 0
+        duration = end + daysLater * 24 * 60 - start
+      } else if (hours !== null) {
+        duration = hours
+      } else if (errors.length === 0) {
+        errors.push('Give start and end times or hours')
+      }
+
+      if (duration !== null && duration <= 0) errors.push('End time must be after the start time')
+      if (duration !== null && duration > 24 * 60) errors.push('An entry cannot be longer than 24 hours')
+
+      // A task that the project does not have is kept in the description instead
+      const taskName = cellText(record.task ?? null)
+      const task = taskName ? project?.tasks.find(t => t.name.toLowerCase() === taskName.toLowerCase()) : undefined
+      const description = [task ? '' : taskName, cellText(record.description)].filter(Boolean).join(' - ') || null
+
+      const clientName = cellText(record.client ?? null)
+      const newProject = project
+        ? null
+        : { code: projectCode || null, clientId: clientsByName.get(clientName.toLowerCase()) ?? null }
+
+      return { record, errors, user, project, projectKey, newProject, task, day, start, duration, description, billable: billable ?? true }
+    })
+
+    // Existing entries of everyone in the file, across the dates in the file
+    const days = parsed.map(row => row.day).filter((day): day is Date => !!day)
+    const userIds = [...new Set(parsed.map(row => row.user?.id).filter((id): id is string => !!id))]
+    const existing = days.length > 0 && userIds.length > 0
+      ? await prisma.timeEntry.findMany({
+          where: {
+            userId: { in: userIds },
+            startTime: {
+              gte: addDays(new Date(Math.min(...days.map(day => day.getTime()))), -1),
+              lt: addDays(new Date(Math.max(...days.map(day => day.getTime()))), 2)
+            }
+          },
+          select: {
+            id: true,
+            userId: true,
+            projectId: true,
+            description: true,
+            startTime: true,
+            endTime: true,
+            duration: true,
+            project: { select: { name: true } }
+          }
+        })
+      : []
+
+    const booked = new Map<string, { startTime: Date; endTime: Date; label: string }[]>()
+    const existingByUser = new Map<string, typeof existing>()
+    const dailyMinutes = new Map<string, number>()
+    const nextFreeMinute = new Map<string, number>()
+    const matchedDuplicates = new Set<string>()
+    const dayKey = (userId: string, date: Date) => `${userId}:${format(date, 'yyyy-MM-dd')}`
+
+    for (const entry of existing) {
+      const endTime = entry.endTime ?? now
+      const list = booked.get(entry.userId) ?? []
+      list.push({ startTime: entry.startTime, endTime, label: `an entry on ${entry.project.name}` })
+      booked.set(entry.userId, list)
+      existingByUser.set(entry.userId, [...(existingByUser.get(entry.userId) ?? []), entry])
+
+      const key = dayKey(entry.userId, entry.startTime)
+      dailyMinutes.set(key, (dailyMinutes.get(key) ?? 0) + (entry.duration ?? 0))
+
+      const endMinute = Math.round((endTime.getTime() - atMinutes(entry.startTime, 0).getTime()) / (60 * 1000))
+      nextFreeMinute.set(key, Math.max(nextFreeMinute.get(key) ?? DEFAULT_DAY_START_MINUTES, endMinute))
+    }
+
+    // Second pass: place each row and check it against everything placed so far
+    const rows: ImportRowResult[] = []
+    for (const row of parsed) {
+      const { record, errors, user, project, projectKey, newProject, task, day, start, duration, description, billable } = row
+
+      if (errors.length > 0 || !user || !day || duration === null) {
+        rows.push({ rowNumber: record.rowNumber, errors, entry: null, duplicateOf: null })
+        continue
+      }
+
+      const key = dayKey(user.id, day)
+      const startMinutes = start ?? nextFreeMinute.get(key) ?? DEFAULT_DAY_START_MINUTES
+      const startTime = atMinutes(day, startMinutes)
+      const endTime = atMinutes(day, startMinutes + duration)
+
+      const entry: PlannedEntry = {
+        userId: user.id,
+        userEmail: user.email,
+        projectId: project?.id ?? null,
+        projectName: project?.name ?? projectKey,
+        newProject,
+        taskId: task?.id ?? null,
+        date: format(day, 'yyyy-MM-dd'),
+        startTime,
+        endTime,
+        duration,
+        description,
+        billable
+      }
+
+      // The same hours already in the database, e.g. from an earlier run of this file.
+      // Rows without times are compared by day and description, since their placement is made up.
+      const duplicate = project && (existingByUser.get(user.id) ?? []).find(existing =>
+        !matchedDuplicates.has(existing.id) &&
+        existing.projectId === project.id &&
+        existing.duration === duration &&
+        (start !== null
+          ? existing.startTime.getTime() === startTime.getTime()
+          : format(existing.startTime, 'yyyy-MM-dd') === entry.date && (existing.description ?? null) === description)
+      )
+      if (duplicate) {
+        matchedDuplicates.add(duplicate.id)
+        rows.push({ rowNumber: record.rowNumber, errors, entry, duplicateOf: duplicate.id })
+        continue
+      }
+
+      if (start === null && startMinutes + duration > 24 * 60) {
+        errors.push('There is no room left on this day for these hours')
+      }
+
+      if (!settings.entryAllowFuture && startTime > now) {
+        errors.push('Entries cannot start in the future')
+      }
+
+      const monthKey = format(day, 'yyyy-MM')
+      if (!periodErrors.has(monthKey)) {
+        const access = await TimesheetPeriodManager.checkWriteAccess([day], actor.role)
+        periodErrors.set(monthKey, access.allowed ? null : access.error)
+      }
+      const periodError = periodErrors.get(monthKey)
+      if (periodError) errors.push(periodError)
+
+      const overlap = (booked.get(user.id) ?? []).find(slot => slot.startTime < endTime && slot.endTime > startTime)
+      if (overlap) {
+        errors.push(`Overlaps with ${overlap.label} (${format(overlap.startTime, 'HH:mm')} - ${format(overlap.endTime, 'HH:mm')})`)
+      }
+
+      const total = (dailyMinutes.get(key) ?? 0) + duration
+      if (settings.entryMaxDailyHours > 0 && total > settings.entryMaxDailyHours * 60) {
+        errors.push(`This brings ${format(day, 'MMM d')} to ${parseFloat((total / 60).toFixed(2))}h, over the daily maximum of ${settings.entryMaxDailyHours}h`)
+      }
+
+      if (errors.length > 0) {
+        rows.push({ rowNumber: record.rowNumber, errors, entry: null, duplicateOf: null })
+        continue
+      }
+
+      const list = booked.get(user.id) ?? []
+      list.push({ startTime, endTime, label: `row ${record.rowNumber}` })
+      booked.set(user.id, list)
+      dailyMinutes.set(key, total)
+      nextFreeMinute.set(key, Math.max(nextFreeMinute.get(key) ?? DEFAULT_DAY_START_MINUTES, startMinutes + duration))
+
+      rows.push({ rowNumber: record.rowNumber, errors, entry, duplicateOf: null })
+    }
+
+    const planned = rows
+      .filter(row => !row.duplicateOf)
+      .map(row => row.entry)
+      .filter((entry): entry is PlannedEntry => !!entry)
+    const duplicates = rows.filter(row => row.duplicateOf).length
+    const newProjects = new Map<string, string>()
+    for (const entry of planned) {
+      if (entry.newProject && !newProjects.has(entry.projectName.toLowerCase())) {
+        newProjects.set(entry.projectName.toLowerCase(), entry.projectName)
+      }
+    }
+
+    return {
+      rows,
+      summary: {
+        total: rows.length,
+        valid: planned.length,
+        invalid: rows.length - planned.length - duplicates,
+        duplicates,
+        hours: parseFloat((planned.reduce((sum, entry) => sum + entry.duration, 0) / 60).toFixed(2)),
+        users: new Set(planned.map(entry => entry.userId)).size,
+        projects: new Set(planned.map(entry => entry.projectId ?? entry.projectName.toLowerCase())).size,
+        newProjects: [...newProjects.values()]
+      }
+    }
+  }
+
+  /**
+   * Import every row or none of them. The rows are checked again first, duplicates of
+   * existing entries are skipped, projects the admin chose to create are created in the
+   * same transaction, and spend is recalculated once per project after all entries are in.
+   */
+  static async commit(records: ImportRecord[], actor: ImportActor, source: ImportSource, options: ImportOptions = {}): Promise<ImportCommitResult> {
+    if (records.length === 0) {
+      return { success: false, error: 'The file has no rows to import', status: 400 }
+    }
+
+    const preview = await this.preview(records, actor, options)
+    if (preview.summary.invalid > 0) {
+      return {
+        success: false,
+        error: `${preview.summary.invalid} of ${preview.summary.total} rows have errors. Fix them and try again.`,
+        status: 400,
+        preview
+      }
+    }
+
+    const entries = preview.rows.filter(row => !row.duplicateOf).map(row => row.entry!)
+    if (entries.length === 0) {
+      return { success: false, error: 'Every row is already in the database', status: 400, preview }
+    }
+
+    const importId = randomUUID()
+
+    const { created, createdProjects } = await prisma.$transaction(async tx => {
+      const newProjectIds = new Map<string, string>()
+      const createdProjects: { id: string; name: string }[] = []
+
+      for (const entry of entries) {
+        const key = entry.projectName.toLowerCase()
+        if (!entry.newProject || newProjectIds.has(key)) continue
+
+        const project = await tx.project.create({
+          data: { name: entry.projectName, code: entry.newProject.code, clientId: entry.newProject.clientId },
+          select: { id: true, name: true }
+        })
+        newProjectIds.set(key, project.id)
+        createdProjects.push(project)
+      }
+
+      const created = await tx.timeEntry.createManyAndReturn({
+        data: entries.map(entry => ({
+          userId: entry.userId,
+          projectId: entry.projectId ?? newProjectIds.get(entry.projectName.toLowerCase())!,
+          taskId: entry.taskId,
+          description: entry.description,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          duration: entry.duration,
+          hours: entry.duration / 60,
+          date: new Date(entry.startTime.getFullYear(), entry.startTime.getMonth(), entry.startTime.getDate()),
+          billable: entry.billable,
+          status: 'APPROVED' // Imported history has already been worked and signed off elsewhere
+        })),
+        select: { id: true, projectId: true }
+      })
+
+      return { created, createdProjects }
+    })
+
+    const projectIds = [...new Set(created.map(entry => entry.projectId))]
+
+    await AuditLogger.record({
+      actor: { id: actor.id, email: actor.email },
+      action: 'IMPORT',
+      entityType: 'ENTRY_IMPORT',
+      entityId: importId,
+      after: {
+        fileName: source.fileName,
+        format: source.format,
+        source: source.source,
+        entries: created.length,
+        duplicatesSkipped: preview.summary.duplicates,
+        hours: preview.summary.hours,
+        users: preview.summary.users,
+        projects: preview.summary.projects,
+        projectsCreated: createdProjects.map(project => project.name)
+      },
+      metadata: {
+        entryIds: created.map(entry => entry.id),
+        createdProjectIds: createdProjects.map(project => project.id)
+      }
+    })
+
+    for (const projectId of projectIds) {
+      try {
+        await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(projectId)
+      } catch (spendingError) {
+        console.error(`Failed to update spending for project ${projectId} after import:`, spendingError)
+      }
+    }
+
+    return {
+      success: true,
+      importId,
+      created: created.length,
+      skipped: preview.summary.duplicates,
+      hours: preview.summary.hours,
+      projectIds,
+      createdProjects: createdProjects.map(project => project.name)
+    }
+  }
+}
@@ -0,0 +1,423 @@
+// lib/entry-templates.ts
+import { prisma } from '@/lib/prisma'
+import { addDays, format, isSameDay, max, startOfDay, subDays } from 'date-fns'
+import { AuditLogger, timeEntrySnapshot } from '@/lib/audit-log'
+import { ProjectArchiveManager } from '@/lib/project-archive'
+import { TaskManager } from '@/lib/tasks'
+import { EntryFieldManager } from '@/lib/entry-fields'
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods'
+import { EntryValidator } from '@/lib/entry-validation'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { WorkScheduleManager } from '@/lib/work-schedules'
+
+// How far back unconfirmed recurring days are still suggested
+export const RECURRENCE_LOOKBACK_DAYS = 14
+
+// Templates without a recurrence time are placed after the day's last entry, but not before this
+const DAY_START_MINUTES = 9 * 60
+
+export interface EntryTemplateInput {
+  projectId?: string
+  taskId?: string | null
+  name?: string
+  description?: string | null
+  durationMinutes?: number
+  billable?: boolean
+  recurrenceDays?: number[]
+  recurrenceTime?: string | null
+  recurrenceStart?: Date | null
+  recurrenceEnd?: Date | null
+}
+
+export interface EntryTemplateSummary {
+  id: string
+  name: string
+  projectId: string
+  projectName: string
+  projectColor: string
+  taskId: string | null
+  taskName: string | null
+  description: string | null
+  durationMinutes: number
+  billable: boolean
+  recurrenceDays: number[]
+  recurrenceTime: string | null
+  recurrenceStart: string | null // yyyy-MM-dd
+  recurrenceEnd: string | null
+}
+
+export interface PendingOccurrence {
+  templateId: string
+  name: string
+  projectName: string
+  projectColor: string
+  date: string // yyyy-MM-dd
+  startTime: Date
+  durationMinutes: number
+}
+
+export interface TemplateUser {
+  id: string
+  email?: string | null
+  role: string
+}
+
+export type EntryTemplateResult =
+  | { success: true; template: EntryTemplateSummary }
+  | { success: false; error: string; status: number }
+
+export type TemplateEntryResult =
+  | { success: true; entry: { id: string; projectId: string; startTime: Date; endTime: Date | null } }
+  | { success: false; error: string; status: number; details?: Record<string, string[]> }
+
+const templateInclude = {
+  project: { select: { name: true, color: true } },
+  task: { select: { name: true } }
+} as const
+
+type TemplateRecord = NonNullable<Awaited<ReturnType<typeof findTemplate>>>
+
+function findTemplate(templateId: string) {
+  return prisma.entryTemplate.findUnique({ where: { id: templateId }, include: templateInclude })
+}
+
+function toSummary(template: TemplateRecord): EntryTemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    projectId: template.projectId,
+    projectName: template.project.name,
+    projectColor: template.project.color,
+    taskId: template.taskId,
+    taskName: template.task?.name ?? null,
+    description: template.description,
+    durationMinutes: template.durationMinutes,
+    billable: template.billable,
+    recurrenceDays: template.recurrenceDays,
+    recurrenceTime: template.recurrenceTime,
+    recurrenceStart: template.recurrenceStart ? format(template.recurrenceStart, 'yyyy-MM-dd') : null,
+    recurrenceEnd: template.recurrenceEnd ? format(template.recurrenceEnd, 'yyyy-MM-dd') : null
+  }
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  const date = startOfDay(day)
+  date.setHours(0, minutes, 0, 0)
+  return date
+}
+
+function parseClock(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+export class EntryTemplateManager {
+  static async list(userId: string): Promise<EntryTemplateSummary[]> {
+    const templates = await prisma.entryTemplate.findMany({
+      where: { userId },
+      include: templateInclude,
+      orderBy: { name: 'asc' }
+    })
+
+    return templates.map(toSummary)
+  }
+
+  static async create(user: TemplateUser, input: EntryTemplateInput): Promise<EntryTemplateResult> {
+    const check = await this.checkInput(user, input.projectId!, input)
+    if (!check.success) return check
+
+    const template = await prisma.entryTemplate.create({
+      data: {
+        userId: user.id,
+        projectId: input.projectId!,
+        taskId: input.taskId ?? null,
+        name: input.name!.trim(),
+        description: input.description || null,
+        durationMinutes: input.durationMinutes!,
+        billable: input.billable ?? true,
+        recurrenceDays: [...new Set(input.recurrenceDays ?? [])].sort((a, b) => a - b),
+        recurrenceTime: input.recurrenceTime || null,
+        recurrenceStart: input.recurrenceStart ? startOfDay(input.recurrenceStart) : null,
+        recurrenceEnd: input.recurrenceEnd ? startOfDay(input.recurrenceEnd) : null
+      },
+      include: templateInclude
+    })
+
+    return { success: true, template: toSummary(template) }
+  }
+
+  static async update(user: TemplateUser, templateId: string, input: EntryTemplateInput): Promise<EntryTemplateResult> {
+    const existing = await findTemplate(templateId)
+    if (!existing || existing.userId !== user.id) {
+      return { success: false, error: 'Template not found', status: 404 }
+    }
+
+    const projectId = input.projectId ?? existing.projectId
+    const taskId = input.taskId !== undefined
+      ? input.taskId
+      : projectId === existing.projectId ? existing.taskId : null
+
+    const check = await this.checkInput(user, projectId, { ...input, taskId }, existing)
+    if (!check.success) return check
+
+    const template = await prisma.entryTemplate.update({
+      where: { id: templateId },
+      data: {
+        projectId,
+        taskId,
+        ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+        ...(input.description !== undefined ? { description: input.description || null } : {}),
+        ...(input.durationMinutes !== undefined ? { durationMinutes: input.durationMinutes } : {}),
+        ...(input.billable !== undefined ? { billable: input.billable } : {}),
+        ...(input.recurrenceDays !== undefined ? { recurrenceDays: [...new Set(input.recurrenceDays)].sort((a, b) => a - b) } : {}),
+        ...(input.recurrenceTime !== undefined ? { recurrenceTime: input.recurrenceTime || null } : {}),
+        ...(input.recurrenceStart !== undefined ? { recurrenceStart: input.recurrenceStart ? startOfDay(input.recurrenceStart) : null } : {}),
+        ...(input.recurrenceEnd !== undefined ? { recurrenceEnd: input.recurrenceEnd ? startOfDay(input.recurrenceEnd) : null } : {})
+      },
+      include: templateInclude
+    })
+
+    return { success: true, template: toSummary(template) }
+  }
+
+  static async delete(userId: string, templateId: string): Promise<{ success: true } | { success: false; error: string; status: number }> {
+    const existing = await prisma.entryTemplate.findUnique({ where: { id: templateId }, select: { userId: true } })
+    if (!existing || existing.userId !== userId) {
+      return { success: false, error: 'Template not found', status: 404 }
+    }
+
+    await prisma.entryTemplate.delete({ where: { id: templateId } })
+    return { success: true }
+  }
+
+  /**
+   * Place a template on a day as a new entry. A recurring template starts at its own time;
+   * otherwise the entry follows the day's last entry, and on today it ends now at the latest.
+   */
+  static async place(user: TemplateUser, templateId: string, day: Date): Promise<TemplateEntryResult> {
+    const template = await findTemplate(templateId)
+    if (!template || template.userId !== user.id) {
+      return { success: false, error: 'Template not found', status: 404 }
+    }
+
+    return this.createEntry(user, template, await this.startTimeFor(template, day), { source: 'template', templateId })
+  }
+
+  /**
+   * Recurring days in the last two weeks, up to today, that the user has neither confirmed nor skipped.
+   * Holidays and approved leave are left out.
+   */
+  static async listPending(userId: string, now: Date = new Date()): Promise<PendingOccurrence[]> {
+    const today = startOfDay(now)
+    const from = subDays(today, RECURRENCE_LOOKBACK_DAYS)
+
+    const [templates, timeline] = await Promise.all([
+      prisma.entryTemplate.findMany({
+        where: {
+          userId,
+          NOT: { recurrenceDays: { isEmpty: true } },
+          OR: [{ recurrenceEnd: null }, { recurrenceEnd: { gte: from } }]
+        },
+        include: {
+          ...templateInclude,
+          occurrences: { where: { date: { gte: from } }, select: { date: true } }
+        }
+      }),
+      WorkScheduleManager.loadTimeline([userId], from, today)
+    ])
+
+    const pending: PendingOccurrence[] = []
+    for (const template of templates) {
+      const handled = new Set(template.occurrences.map(occurrence => format(occurrence.date, 'yyyy-MM-dd')))
+      // Days before the rule was set up are not suggested
+      const first = max([from, startOfDay(template.recurrenceStart ?? template.createdAt)])
+
+      for (let day = first; day <= today; day = addDays(day, 1)) {
+        if (template.recurrenceEnd && day > template.recurrenceEnd) break
+        if (!template.recurrenceDays.includes(day.getDay()) || handled.has(format(day, 'yyyy-MM-dd'))) continue
+        if (timeline.dayOff(userId, day)) continue
+
+        pending.push({
+          templateId: template.id,
+          name: template.name,
+          projectName: template.project.name,
+          projectColor: template.project.color,
+          date: format(day, 'yyyy-MM-dd'),
+          startTime: atMinutes(day, template.recurrenceTime ? parseClock(template.recurrenceTime) : DAY_START_MINUTES),
+          durationMinutes: template.durationMinutes
+        })
+      }
+    }
+
+    return pending.sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+  }
+
+  /**
+   * Turn a suggested recurring day into a draft entry, or dismiss it
+   */
+  static async resolveOccurrence(user: TemplateUser, templateId: string, day: Date, action: 'confirm' | 'skip'): Promise<TemplateEntryResult | { success: true; entry: null }> {
+    const template = await findTemplate(templateId)
+    if (!template || template.userId !== user.id) {
+      return { success: false, error: 'Template not found', status: 404 }
+    }
+
+    const date = startOfDay(day)
+    if (!template.recurrenceDays.includes(date.getDay())) {
+      return { success: false, error: 'This template does not recur on that day', status: 400 }
+    }
+
+    const existing = await prisma.entryTemplateOccurrence.findUnique({
+      where: { templateId_date: { templateId, date } }
+    })
+    if (existing) {
+      return { success: false, error: 'This day has already been confirmed or skipped', status: 409 }
+    }
+
+    if (action === 'skip') {
+      await prisma.entryTemplateOccurrence.create({ data: { templateId, date } })
+      return { success: true, entry: null }
+    }
+
+    const startTime = atMinutes(date, template.recurrenceTime ? parseClock(template.recurrenceTime) : DAY_START_MINUTES)
+    const result = await this.createEntry(user, template, startTime, { source: 'recurring', templateId })
+    if (result.success) {
+      await prisma.entryTemplateOccurrence.create({ data: { templateId, date, timeEntryId: result.entry.id } })
+    }
+
+    return result
+  }
+
+  private static async startTimeFor(template: TemplateRecord, day: Date): Promise<Date> {
+    if (template.recurrenceTime) {
+      return atMinutes(day, parseClock(template.recurrenceTime))
+    }
+
+    const lastEntry = await prisma.timeEntry.findFirst({
+      where: {
+        userId: template.userId,
+        startTime: { gte: startOfDay(day), lt: addDays(startOfDay(day), 1) },
+        endTime: { not: null }
+      },
+      orderBy: { endTime: 'desc' },
+      select: { endTime: true }
+    })
+
+    const dayStart = atMinutes(day, DAY_START_MINUTES)
+    const start = lastEntry?.endTime && lastEntry.endTime > dayStart ? lastEntry.endTime : dayStart
+    const now = new Date()
+    const latestStart = new Date(now.getTime() - template.durationMinutes * 60 * 1000)
+
+    return isSameDay(day, now) && start > latestStart ? latestStart : start
+  }
+
+  // The same checks a manual entry goes through, since templates are created without a form
+  private static async createEntry(
+    user: TemplateUser,
+    template: TemplateRecord,
+    startTime: Date,
+    metadata: Record<string, unknown>
+  ): Promise<TemplateEntryResult> {
+    const projectCheck = await this.checkProject(user, template.projectId)
+    if (!projectCheck.success) return projectCheck
+
+    if (template.taskId) {
+      const taskCheck = await TaskManager.checkSelectable(template.projectId, template.taskId, user.id, user.role)
+      if (!taskCheck.success) return taskCheck
+    }
+
+    const fields = await EntryFieldManager.resolve(template.projectId, {})
+    if (!fields.success) {
+      return {
+        success: false,
+        error: `${Object.values(fields.details).flat()[0]}. Add this entry from the calendar form instead.`,
+        status: fields.status,
+        details: fields.details
+      }
+    }
+
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess([startTime], user.role)
+    if (!periodAccess.allowed) {
+      return { success: false, error: periodAccess.error, status: 403 }
+    }
+
+    const endTime = new Date(startTime.getTime() + template.durationMinutes * 60 * 1000)
+    const validation = await EntryValidator.validate({ userId: user.id, startTime, endTime }, { role: user.role })
+    if (!validation.success) {
+      return { success: false, error: validation.error, status: validation.status, details: validation.details }
+    }
+
+    const entry = await prisma.timeEntry.create({
+      data: {
+        userId: user.id,
+        projectId: template.projectId,
+        taskId: template.taskId,
+        description: template.description,
+        startTime,
+        endTime,
+        duration: template.durationMinutes,
+        hours: parseFloat((template.durationMinutes / 60).toFixed(2)),
+        date: startOfDay(startTime),
+        billable: template.billable
+      }
+    })
+
+    await AuditLogger.record({
+      actor: { id: user.id, email: user.email },
+      action: 'CREATE',
+      entityType: 'TIME_ENTRY',
+      entityId: entry.id,
+      after: timeEntrySnapshot(entry),
+      metadata
+    })
+
+    try {
+      await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(template.projectId)
+    } catch (spendingError) {
+      console.error('Failed to update project spending:', spendingError)
+    }
+
+    return { success: true, entry }
+  }
+
+  private static async checkProject(user: TemplateUser, projectId: string): Promise<{ success: true } | { success: false; error: string; status: number }> {
+    if (user.role !== 'ADMIN') {
+      const projectAccess = await prisma.projectUser.findFirst({ where: { userId: user.id, projectId } })
+      if (!projectAccess) {
+        return { success: false, error: 'No access to this project', status: 403 }
+      }
+    }
+
+    return ProjectArchiveManager.checkWritable(projectId)
+  }
+
+  private static async checkInput(
+    user: TemplateUser,
+    projectId: string,
+    input: EntryTemplateInput,
+    existing?: TemplateRecord
+  ): Promise<{ success: true } | { success: false; error: string; status: number }> {
+    if (!existing || projectId !== existing.projectId) {
+      const projectCheck = await this.checkProject(user, projectId)
+      if (!projectCheck.success) return projectCheck
+    }
+
+    if (input.taskId && input.taskId !== existing?.taskId) {
+      const taskCheck = await TaskManager.checkSelectable(projectId, input.taskId, user.id, user.role)
+      if (!taskCheck.success) return taskCheck
+    }
+
+    const recurrenceDays = input.recurrenceDays ?? existing?.recurrenceDays ?? []
+    const recurrenceTime = input.recurrenceTime !== undefined ? input.recurrenceTime : existing?.recurrenceTime ?? null
+    if (recurrenceDays.length > 0 && !recurrenceTime) {
+      return { success: false, error: 'Recurring templates need a start time', status: 400 }
+    }
+
+    const recurrenceStart = input.recurrenceStart !== undefined ? input.recurrenceStart : existing?.recurrenceStart ?? null
+    const recurrenceEnd = input.recurrenceEnd !== undefined ? input.recurrenceEnd : existing?.recurrenceEnd ?? null
+    if (recurrenceStart && recurrenceEnd && recurrenceEnd < recurrenceStart) {
+      return { success: false, error: 'The recurrence cannot end before it starts', status: 400 }
+    }
+
+    return { success: true }
+  }
+}
@@ -0,0 +1,254 @@
+// lib/entry-validation.ts
+import { prisma } from '@/lib/prisma'
+import { addDays, format } from 'date-fns'
+
+export interface EntryValidationSettings {
+  entryMaxDailyHours: number // 0 disables the daily maximum
+  entryAllowFuture: boolean
+}
+
+export const DEFAULT_ENTRY_VALIDATION_SETTINGS: EntryValidationSettings = {
+  entryMaxDailyHours: 16,
+  entryAllowFuture: false
+}
+
+export type EntryValidationCode = 'INVALID_TIME' | 'INVALID_DURATION' | 'FUTURE' | 'OVERLAP' | 'DAILY_MAXIMUM'
+
+export interface EntryConflict {
+  id: string | null // null for an entry of the same batch that is not saved yet
+  startTime: Date
+  endTime: Date | null
+  projectName: string
+}
+
+export interface EntryValidationIssue {
+  code: EntryValidationCode
+  field: 'startTime' | 'endTime'
+  message: string
+  overridable: boolean
+  conflicts?: EntryConflict[]
+}
+
+export interface EntryValidationInput {
+  userId: string
+  startTime: Date
+  endTime: Date | null // null for a running timer
+  excludeEntryId?: string // the entry being edited
+  batch?: EntryBatch
+}
+
+// The rest of a write that saves several entries at once, such as a weekly grid
+export interface EntryBatch {
+  replacedEntryIds: string[] // stored entries the write deletes or gives new times
+  entries: EntryConflict[] // the other entries as they will be saved
+}
+
+// Who is writing, and the reason given when they want to save despite the warnings
+export interface EntryValidationOverride {
+  role: string
+  reason?: string | null
+}
+
+export interface EntryOverrideRecord {
+  reason: string
+  issues: EntryValidationCode[]
+}
+
+export type EntryValidationResult =
+  | { success: true; override: EntryOverrideRecord | null }
+  | {
+      success: false
+      error: string
+      status: number
+      details: Record<string, string[]>
+      issues: EntryValidationIssue[]
+      overridable: boolean
+    }
+
+// No single entry can be longer than this, whatever the daily maximum is set to
+export const MAX_ENTRY_HOURS = 24
+
+// Small clock drift between browser and server should not count as the future
+const FUTURE_TOLERANCE_MS = 60 * 1000
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function formatHours(minutes: number): string {
+  return `${parseFloat((minutes / 60).toFixed(2))}h`
+}
+
+export class EntryValidator {
+  static async getSettings(): Promise<EntryValidationSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { id: 'default' },
+      select: { entryMaxDailyHours: true, entryAllowFuture: true }
+    })
+
+    return settings
+      ? { entryMaxDailyHours: settings.entryMaxDailyHours, entryAllowFuture: settings.entryAllowFuture }
+      : { ...DEFAULT_ENTRY_VALIDATION_SETTINGS }
+  }
+
+  static async updateSettings(data: EntryValidationSettings, adminUserId: string): Promise<EntryValidationSettings> {
+    if (!Number.isInteger(data.entryMaxDailyHours) || data.entryMaxDailyHours < 0 || data.entryMaxDailyHours > 24) {
+      throw new Error('Daily maximum must be between 0 and 24 hours')
+    }
+
+    await prisma.organizationSettings.upsert({
+      where: { id: 'default' },
+      create: { id: 'default', ...data, updatedBy: adminUserId },
+      update: { ...data, updatedBy: adminUserId }
+    })
+
+    return this.getSettings()
+  }
+
+  /**
+   * Checks an entry's times against the rest of the user's entries.
+   * Times that make no sense and entries longer than MAX_ENTRY_HOURS are always rejected. Future entries, overlaps and days over
+   * the maximum are rejected with status 409 unless an admin overrides them with a reason.
+   */
+  static async validate(input: EntryValidationInput, override: EntryValidationOverride): Promise<EntryValidationResult> {
+    const issues = await this.findIssues(input)
+
+    if (issues.length === 0) {
+      return { success: true, override: null }
+    }
+
+    const overridable = issues.every(issue => issue.overridable)
+    const reason = override.reason?.trim()
+
+    if (overridable && reason) {
+      if (override.role !== 'ADMIN') {
+        return { ...this.failure(issues, overridable), error: 'Only admins can override entry validation', status: 403 }
+      }
+
+      return { success: true, override: { reason, issues: issues.map(issue => issue.code) } }
+    }
+
+    return this.failure(issues, overridable)
+  }
+
+  // Audit metadata for a write that went through an override
+  static overrideMetadata(result: EntryValidationResult): { validationOverride: EntryOverrideRecord } | undefined {
+    return result.success && result.override ? { validationOverride: result.override } : undefined
+  }
+
+  private static failure(issues: EntryValidationIssue[], overridable: boolean): Extract<EntryValidationResult, { success: false }> {
+    const details: Record<string, string[]> = {}
+    for (const issue of issues) {
+      details[issue.field] = [...(details[issue.field] ?? []), issue.message]
+    }
+
+    return {
+      success: false,
+      error: issues[0].message,
+      status: overridable ? 409 : 400,
+      details,
+      issues,
+      overridable
+    }
+  }
+
+  private static async findIssues({ userId, startTime, endTime, excludeEntryId, batch }: EntryValidationInput): Promise<EntryValidationIssue[]> {
+    if (isNaN(startTime.getTime())) {
+      return [{ code: 'INVALID_TIME', field: 'startTime', message: 'Start time is not a valid date', overridable: false }]
+    }
+    if (endTime && isNaN(endTime.getTime())) {
+      return [{ code: 'INVALID_TIME', field: 'endTime', message: 'End time is not a valid date', overridable: false }]
+    }
+    if (endTime && endTime <= startTime) {
+      return [{ code: 'INVALID_DURATION', field: 'endTime', message: 'End time must be after the start time', overridable: false }]
+    }
+
+    const now = new Date()
+    // A running entry is checked up to now
+    if ((endTime ?? now).getTime() - startTime.getTime() > MAX_ENTRY_HOURS * 60 * 60 * 1000) {
+      return [{
+        code: 'INVALID_DURATION',
+        field: endTime ? 'endTime' : 'startTime',
+        message: `An entry cannot be longer than ${MAX_ENTRY_HOURS} hours`,
+        overridable: false
+      }]
+    }
+
+    const settings = await this.getSettings()
+    const issues: EntryValidationIssue[] = []
+
+    if (!settings.entryAllowFuture && startTime.getTime() > now.getTime() + FUTURE_TOLERANCE_MS) {
+      issues.push({ code: 'FUTURE', field: 'startTime', message: 'Entries cannot start in the future', overridable: true })
+    }
+
+    // A running entry, new or existing, counts as lasting until now
+    const end = endTime ?? (startTime > now ? startTime : now)
+    const excludedIds = [...(excludeEntryId ? [excludeEntryId] : []), ...(batch?.replacedEntryIds ?? [])]
+    const batchEntries = batch?.entries ?? []
+
+    const candidates = await prisma.timeEntry.findMany({
+      where: {
+        userId,
+        ...(excludedIds.length > 0 ? { id: { notIn: excludedIds } } : {}),
+        startTime: { lte: end },
+        OR: [{ endTime: { gt: startTime } }, { endTime: null }]
+      },
+      select: { id: true, startTime: true, endTime: true, project: { select: { name: true } } },
+      orderBy: { startTime: 'asc' }
+    })
+
+    const conflicts = [
+      ...candidates.map(entry => ({ id: entry.id, startTime: entry.startTime, endTime: entry.endTime, projectName: entry.project.name })),
+      ...batchEntries
+    ]
+      .filter(entry => {
+        const entryEnd = entry.endTime ?? now
+        return (entry.startTime < end && entryEnd > startTime) || entry.startTime.getTime() === startTime.getTime()
+      })
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+
+    if (conflicts.length > 0) {
+      const first = conflicts[0]
+      issues.push({
+        code: 'OVERLAP',
+        field: 'startTime',
+        message: conflicts.length === 1
+          ? `Overlaps with an entry on ${first.projectName} (${format(first.startTime, 'HH:mm')} - ${first.endTime ? format(first.endTime, 'HH:mm') : 'running'})`
+          : `Overlaps with ${conflicts.length} existing entries`,
+        overridable: true,
+        conflicts
+      })
+    }
+
+    if (settings.entryMaxDailyHours > 0 && endTime) {
+      const dayStart = startOfDay(startTime)
+      const dayEnd = addDays(dayStart, 1)
+      const logged = await prisma.timeEntry.aggregate({
+        where: {
+          userId,
+          ...(excludedIds.length > 0 ? { id: { notIn: excludedIds } } : {}),
+          startTime: { gte: dayStart, lt: dayEnd },
+          endTime: { not: null }
+        },
+        _sum: { duration: true }
+      })
+
+      const minutesOf = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / (1000 * 60))
+      const batchMinutes = batchEntries
+        .filter(entry => entry.endTime && entry.startTime >= dayStart && entry.startTime < dayEnd)
+        .reduce((sum, entry) => sum + minutesOf(entry.startTime, entry.endTime!), 0)
+      const totalMinutes = (logged._sum.duration ?? 0) + batchMinutes + minutesOf(startTime, endTime)
+
+      if (totalMinutes > settings.entryMaxDailyHours * 60) {
+        issues.push({
+          code: 'DAILY_MAXIMUM',
+          field: 'endTime',
+          message: `This brings ${format(dayStart, 'MMM d')} to ${formatHours(totalMinutes)}, over the daily maximum of ${settings.entryMaxDailyHours}h`,
+          overridable: true
+        })
+      }
+    }
+
+    return issues
+  }
+}
@@ -0,0 +1,126 @@
+// lib/fiscal-calendar.ts
+// Pure fiscal calendar helpers. No database access so both API routes and client pages can use them;
+// the organization's start month comes from FiscalSettingsManager on the server.
+
+export type FiscalQuarter = 1 | 2 | 3 | 4
+export type QuarterKey = 'q1' | 'q2' | 'q3' | 'q4'
+
+export const QUARTER_KEYS: QuarterKey[] = ['q1', 'q2', 'q3', 'q4']
+
+// April to March, the calendar this app was originally built around
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 4
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+function validateDate(date: Date, caller: string) {
+  if (!date || !(date instanceof Date) || isNaN(date.getTime())) {
+    throw new Error(`Invalid date provided to ${caller}`)
+  }
+}
+
+export function isValidStartMonth(startMonth: number): boolean {
+  return Number.isInteger(startMonth) && startMonth >= 1 && startMonth <= 12
+}
+
+/**
+ * Fiscal quarter (1-4) of a date for a fiscal year starting in startMonth (1-12)
+ */
+export function getFiscalQuarter(date: Date, startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH): FiscalQuarter {
+  validateDate(date, 'getFiscalQuarter')
+
+  const monthsIntoYear = (date.getMonth() + 1 - startMonth + 12) % 12
+  return (Math.floor(monthsIntoYear / 3) + 1) as FiscalQuarter
+}
+
+/**
+ * Fiscal years are named after the calendar year they start in,
+ * so with an April start March 2026 belongs to fiscal year 2025
+ */
+export function getFiscalYear(date: Date, startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH): number {
+  validateDate(date, 'getFiscalYear')
+
+  const year = date.getFullYear()
+  return date.getMonth() + 1 >= startMonth ? year : year - 1
+}
+
+/**
+ * First and last moment of a fiscal year
+ */
+export function getFiscalYearRange(
+  fiscalYear: number,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+): { start: Date; end: Date } {
+  return {
+    start: new Date(fiscalYear, startMonth - 1, 1),
+    end: new Date(fiscalYear + 1, startMonth - 1, 0, 23, 59, 59, 999)
+  }
+}
+
+/**
+ * First and last moment of a quarter within a fiscal year
+ */
+export function getFiscalQuarterRange(
+  fiscalYear: number,
+  quarter: FiscalQuarter,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+): { start: Date; end: Date } {
+  const firstMonthIndex = startMonth - 1 + (quarter - 1) * 3
+  return {
+    start: new Date(fiscalYear, firstMonthIndex, 1),
+    end: new Date(fiscalYear, firstMonthIndex + 3, 0, 23, 59, 59, 999)
+  }
+}
+
+export function getMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`
+}
+
+/**
+ * The twelve 'YYYY-MM' keys of a fiscal year in order
+ */
+export function getFiscalMonths(fiscalYear: number, startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH): string[] {
+  return Array.from({ length: 12 }, (_, i) => getMonthKey(new Date(fiscalYear, startMonth - 1 + i, 1)))
+}
+
+/**
+ * The three 'YYYY-MM' keys of one fiscal quarter
+ */
+export function getQuarterMonthKeys(
+  fiscalYear: number,
+  quarter: FiscalQuarter,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+): string[] {
+  return getFiscalMonths(fiscalYear, startMonth).slice((quarter - 1) * 3, quarter * 3)
+}
+
+/**
+ * e.g. 'Apr-Jun'
+ */
+export function getFiscalQuarterMonthRange(
+  quarter: FiscalQuarter,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+): string {
+  const first = MONTH_NAMES[(startMonth - 1 + (quarter - 1) * 3) % 12].slice(0, 3)
+  const last = MONTH_NAMES[(startMonth - 1 + (quarter - 1) * 3 + 2) % 12].slice(0, 3)
+  return `${first}-${last}`
+}
+
+/**
+ * e.g. 'Q1 (Apr-Jun)'
+ */
+export function getFiscalQuarterLabel(
+  quarter: FiscalQuarter,
+  startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH
+): string {
+  return `Q${quarter} (${getFiscalQuarterMonthRange(quarter, startMonth)})`
+}
+
+/**
+ * '2025/2026' for split years, '2025' when the fiscal year is the calendar year
+ */
+export function getFiscalYearLabel(fiscalYear: number, startMonth: number = DEFAULT_FISCAL_YEAR_START_MONTH): string {
+  return startMonth === 1 ? `${fiscalYear}` : `${fiscalYear}/${fiscalYear + 1}`
+}
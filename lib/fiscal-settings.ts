@@ -0,0 +1,48 @@
+// lib/fiscal-settings.ts
+import { prisma } from '@/lib/prisma'
+import { DEFAULT_FISCAL_YEAR_START_MONTH, isValidStartMonth } from '@/lib/fiscal-calendar'
+
+export interface FiscalSettings {
+  fiscalYearStartMonth: number // 1-12
+}
+
+export const DEFAULT_FISCAL_SETTINGS: FiscalSettings = {
+  fiscalYearStartMonth: DEFAULT_FISCAL_YEAR_START_MONTH
+}
+
+export class FiscalSettingsManager {
+  static async getSettings(): Promise<FiscalSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { id: 'default' },
+      select: { fiscalYearStartMonth: true }
+    })
+
+    return settings ? { fiscalYearStartMonth: settings.fiscalYearStartMonth } : { ...DEFAULT_FISCAL_SETTINGS }
+  }
+
+  /**
+   * Shortcut for the calculators, which only need the start month
+   */
+  static async getStartMonth(): Promise<number> {
+    const { fiscalYearStartMonth } = await this.getSettings()
+    return fiscalYearStartMonth
+  }
+
+  /**
+   * Save the start month. Stored quarterly spend is bucketed by the old calendar
+   * until the caller recalculates it.
+   */
+  static async updateSettings(data: FiscalSettings, adminUserId: string): Promise<FiscalSettings> {
+    if (!isValidStartMonth(data.fiscalYearStartMonth)) {
+      throw new Error('Fiscal year start month must be between 1 and 12')
+    }
+
+    await prisma.organizationSettings.upsert({
+      where: { id: 'default' },
+      create: { id: 'default', ...data, updatedBy: adminUserId },
+      update: { ...data, updatedBy: adminUserId }
+    })
+
+    return this.getSettings()
+  }
+}
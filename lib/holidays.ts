@@ -0,0 +1,283 @@
+// lib/holidays.ts
+import { prisma } from '@/lib/prisma'
+import { AuditLogger, AuditActor } from '@/lib/audit-log'
+import { parseCalendarDays } from '@/lib/icalendar'
+import { addYears, endOfYear, format, startOfDay, startOfYear } from 'date-fns'
+
+// Yearly recurring events in an imported file are expanded this many years around the current one
+const IMPORT_YEARS_BEFORE = 1
+const IMPORT_YEARS_AFTER = 2
+
+export interface HolidayCalendarInput {
+  name: string
+  region?: string | null
+  userIds?: string[]
+}
+
+export interface HolidaySummary {
+  id: string
+  date: string // yyyy-MM-dd
+  name: string
+}
+
+export interface HolidayCalendarSummary {
+  id: string
+  name: string
+  region: string | null
+  userIds: string[]
+  holidays: HolidaySummary[]
+}
+
+export interface HolidayImportResult {
+  added: number
+  updated: number
+  unchanged: number
+  skipped: number // events that are not whole-day holidays or use unsupported recurrence rules
+}
+
+type CalendarResult =
+  | { success: true; calendar: HolidayCalendarSummary }
+  | { success: false; error: string; status: number }
+
+type CalendarRecord = {
+  id: string
+  name: string
+  region: string | null
+  users: { id: string }[]
+  holidays: { id: string; date: Date; name: string }[]
+}
+
+const CALENDAR_INCLUDE = {
+  users: { select: { id: true } },
+  holidays: { orderBy: { date: 'asc' as const } }
+}
+
+function toSummary(calendar: CalendarRecord): HolidayCalendarSummary {
+  return {
+    id: calendar.id,
+    name: calendar.name,
+    region: calendar.region,
+    userIds: calendar.users.map(user => user.id),
+    holidays: calendar.holidays.map(holiday => ({
+      id: holiday.id,
+      date: format(holiday.date, 'yyyy-MM-dd'),
+      name: holiday.name
+    }))
+  }
+}
+
+export class HolidayCalendarManager {
+  static async list(): Promise<HolidayCalendarSummary[]> {
+    const calendars = await prisma.holidayCalendar.findMany({
+      include: CALENDAR_INCLUDE,
+      orderBy: { name: 'asc' }
+    })
+
+    return calendars.map(toSummary)
+  }
+
+  static async create(input: HolidayCalendarInput, actor: AuditActor): Promise<CalendarResult> {
+    const name = input.name.trim()
+    if (!name) {
+      return { success: false, error: 'Calendar name is required', status: 400 }
+    }
+
+    const existing = await prisma.holidayCalendar.findUnique({ where: { name } })
+    if (existing) {
+      return { success: false, error: 'A holiday calendar with this name already exists', status: 409 }
+    }
+
+    const calendar = await prisma.holidayCalendar.create({
+      data: {
+        name,
+        region: input.region?.trim() || null,
+        ...(input.userIds ? { users: { connect: input.userIds.map(id => ({ id })) } } : {})
+      },
+      include: CALENDAR_INCLUDE
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'CREATE',
+      entityType: 'HOLIDAY_CALENDAR',
+      entityId: calendar.id,
+      after: { name: calendar.name, region: calendar.region, userIds: input.userIds ?? [] }
+    })
+
+    return { success: true, calendar: toSummary(calendar) }
+  }
+
+  /**
+   * Rename the calendar or change who observes it. Users are assigned to one calendar at a time,
+   * so assigning a user here moves them off the calendar they had.
+   */
+  static async update(calendarId: string, input: Partial<HolidayCalendarInput>, actor: AuditActor): Promise<CalendarResult> {
+    const calendar = await prisma.holidayCalendar.findUnique({ where: { id: calendarId }, include: CALENDAR_INCLUDE })
+    if (!calendar) {
+      return { success: false, error: 'Holiday calendar not found', status: 404 }
+    }
+
+    const name = input.name?.trim()
+    if (input.name !== undefined && !name) {
+      return { success: false, error: 'Calendar name is required', status: 400 }
+    }
+    if (name && name !== calendar.name) {
+      const existing = await prisma.holidayCalendar.findUnique({ where: { name } })
+      if (existing) {
+        return { success: false, error: 'A holiday calendar with this name already exists', status: 409 }
+      }
+    }
+
+    const updated = await prisma.holidayCalendar.update({
+      where: { id: calendarId },
+      data: {
+        ...(name ? { name } : {}),
+        ...(input.region !== undefined ? { region: input.region?.trim() || null } : {}),
+        ...(input.userIds ? { users: { set: input.userIds.map(id => ({ id })) } } : {})
+      },
+      include: CALENDAR_INCLUDE
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'UPDATE',
+      entityType: 'HOLIDAY_CALENDAR',
+      entityId: calendarId,
+      before: { name: calendar.name, region: calendar.region, userIds: calendar.users.map(user => user.id) },
+      after: { name: updated.name, region: updated.region, userIds: updated.users.map(user => user.id) }
+    })
+
+    return { success: true, calendar: toSummary(updated) }
+  }
+
+  static async delete(calendarId: string, actor: AuditActor): Promise<{ success: true } | { success: false; error: string; status: number }> {
+    const calendar = await prisma.holidayCalendar.findUnique({ where: { id: calendarId }, include: CALENDAR_INCLUDE })
+    if (!calendar) {
+      return { success: false, error: 'Holiday calendar not found', status: 404 }
+    }
+
+    // Holidays cascade and users fall back to having no calendar
+    await prisma.holidayCalendar.delete({ where: { id: calendarId } })
+
+    await AuditLogger.record({
+      actor,
+      action: 'DELETE',
+      entityType: 'HOLIDAY_CALENDAR',
+      entityId: calendarId,
+      before: { name: calendar.name, region: calendar.region, userIds: calendar.users.map(user => user.id), holidays: calendar.holidays.length }
+    })
+
+    return { success: true }
+  }
+
+  static async addHoliday(calendarId: string, date: Date, name: string, actor: AuditActor): Promise<CalendarResult> {
+    const calendar = await prisma.holidayCalendar.findUnique({ where: { id: calendarId }, select: { id: true } })
+    if (!calendar) {
+      return { success: false, error: 'Holiday calendar not found', status: 404 }
+    }
+    if (!name.trim()) {
+      return { success: false, error: 'Holiday name is required', status: 400 }
+    }
+
+    const day = startOfDay(date)
+    const holiday = await prisma.holiday.upsert({
+      where: { calendarId_date: { calendarId, date: day } },
+      create: { calendarId, date: day, name: name.trim() },
+      update: { name: name.trim() }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'UPDATE',
+      entityType: 'HOLIDAY_CALENDAR',
+      entityId: calendarId,
+      after: { holiday: { date: format(holiday.date, 'yyyy-MM-dd'), name: holiday.name } }
+    })
+
+    return this.get(calendarId)
+  }
+
+  static async deleteHoliday(calendarId: string, holidayId: string, actor: AuditActor): Promise<CalendarResult> {
+    const holiday = await prisma.holiday.findFirst({ where: { id: holidayId, calendarId } })
+    if (!holiday) {
+      return { success: false, error: 'Holiday not found', status: 404 }
+    }
+
+    await prisma.holiday.delete({ where: { id: holidayId } })
+
+    await AuditLogger.record({
+      actor,
+      action: 'UPDATE',
+      entityType: 'HOLIDAY_CALENDAR',
+      entityId: calendarId,
+      before: { holiday: { date: format(holiday.date, 'yyyy-MM-dd'), name: holiday.name } }
+    })
+
+    return this.get(calendarId)
+  }
+
+  /**
+   * Load the holidays of an iCalendar file into the calendar. A day that already has a holiday
+   * takes the imported name, so importing a newer version of the same file updates it in place.
+   */
+  static async import(
+    calendarId: string,
+    text: string,
+    actor: AuditActor,
+    now: Date = new Date()
+  ): Promise<{ success: true; result: HolidayImportResult; calendar: HolidayCalendarSummary } | { success: false; error: string; status: number }> {
+    const calendar = await prisma.holidayCalendar.findUnique({ where: { id: calendarId }, include: CALENDAR_INCLUDE })
+    if (!calendar) {
+      return { success: false, error: 'Holiday calendar not found', status: 404 }
+    }
+
+    const parsed = parseCalendarDays(
+      text,
+      startOfYear(addYears(now, -IMPORT_YEARS_BEFORE)),
+      endOfYear(addYears(now, IMPORT_YEARS_AFTER))
+    )
+    if (!parsed.success) {
+      return { success: false, error: parsed.error, status: 400 }
+    }
+    if (parsed.days.length === 0) {
+      return { success: false, error: 'The file has no all-day events in the years around this one', status: 400 }
+    }
+
+    const existing = new Map(calendar.holidays.map(holiday => [format(holiday.date, 'yyyy-MM-dd'), holiday]))
+    const result: HolidayImportResult = { added: 0, updated: 0, unchanged: 0, skipped: parsed.skipped }
+
+    await prisma.$transaction(parsed.days.map(day => {
+      const current = existing.get(day.date)
+      if (!current) result.added++
+      else if (current.name !== day.name) result.updated++
+      else result.unchanged++
+
+      const date = new Date(`${day.date}T00:00:00`)
+      return prisma.holiday.upsert({
+        where: { calendarId_date: { calendarId, date } },
+        create: { calendarId, date, name: day.name, uid: day.uid },
+        update: { name: day.name, uid: day.uid }
+      })
+    }))
+
+    await AuditLogger.record({
+      actor,
+      action: 'IMPORT',
+      entityType: 'HOLIDAY_CALENDAR',
+      entityId: calendarId,
+      metadata: { ...result }
+    })
+
+    const updated = await this.get(calendarId)
+    if (!updated.success) return updated
+    return { success: true, result, calendar: updated.calendar }
+  }
+
+  private static async get(calendarId: string): Promise<CalendarResult> {
+    const calendar = await prisma.holidayCalendar.findUnique({ where: { id: calendarId }, include: CALENDAR_INCLUDE })
+    if (!calendar) {
+      return { success: false, error: 'Holiday calendar not found', status: 404 }
+    }
+    return { success: true, calendar: toSummary(calendar) }
+  }
+}
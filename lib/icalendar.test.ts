@@ -0,0 +1,140 @@
+// lib/icalendar.test.ts
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseCalendarDays } from '@/lib/icalendar'
+
+const FROM = new Date(2020, 0, 1)
+const TO = new Date(2025, 11, 31)
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']), 'END:VCALENDAR']
+    .join('\r\n')
+}
+
+function parse(text: string, from = FROM, to = TO) {
+  const result = parseCalendarDays(text, from, to)
+  assert.ok(result.success)
+  return result
+}
+
+function dates(text: string, from = FROM, to = TO): string[] {
+  return parse(text, from, to).days.map(day => day.date)
+}
+
+describe('parseCalendarDays', () => {
+  it('rejects a file that is not a calendar', () => {
+    assert.deepEqual(parseCalendarDays('name,date\nNew Year,2026-01-01', FROM, TO), {
+      success: false,
+      error: 'This is not an iCalendar (.ics) file'
+    })
+  })
+
+  it('reads an all-day event with its name and uid', () => {
+    const result = parse(calendar(['UID:ny-2024@example.com', 'DTSTART;VALUE=DATE:20240101', 'SUMMARY:New Year\'s Day']))
+
+    assert.deepEqual(result.days, [{ date: '2024-01-01', name: 'New Year\'s Day', uid: 'ny-2024@example.com' }])
+    assert.equal(result.skipped, 0)
+  })
+
+  it('joins folded lines and unescapes text', () => {
+    const text = calendar(['DTSTART;VALUE=DATE:20241226', 'SUMMARY:Boxing Day\\, also\r\n  St Steph\r\n\ten\'s Day'])
+
+    assert.equal(parse(text).days[0].name, 'Boxing Day, also St Stephen\'s Day')
+  })
+
+  it('treats DTEND as the first day after the event', () => {
+    const text = calendar(['DTSTART;VALUE=DATE:20241224', 'DTEND;VALUE=DATE:20241226', 'SUMMARY:Christmas'])
+
+    assert.deepEqual(dates(text), ['2024-12-24', '2024-12-25'])
+  })
+
+  it('gives an event without DTEND a single day', () => {
+    assert.deepEqual(dates(calendar(['DTSTART;VALUE=DATE:20240501', 'SUMMARY:Labour Day'])), ['2024-05-01'])
+  })
+
+  it('skips events longer than two weeks', () => {
+    const result = parse(calendar(['DTSTART;VALUE=DATE:20240701', 'DTEND;VALUE=DATE:20240901', 'SUMMARY:Summer term']))
+
+    assert.deepEqual(result.days, [])
+    assert.equal(result.skipped, 1)
+  })
+
+  it('joins the names of events on the same day', () => {
+    const text = calendar(
+      ['DTSTART;VALUE=DATE:20240401', 'SUMMARY:Easter Monday'],
+      ['DTSTART;VALUE=DATE:20240401', 'SUMMARY:April Fools\' Day']
+    )
+
+    assert.deepEqual(parse(text).days.map(day => day.name), ['Easter Monday / April Fools\' Day'])
+  })
+
+  it('leaves out days outside the window', () => {
+    const text = calendar(['DTSTART;VALUE=DATE:20191231', 'DTEND;VALUE=DATE:20200102', 'SUMMARY:New Year'])
+
+    assert.deepEqual(dates(text), ['2020-01-01'])
+  })
+
+  describe('yearly rules', () => {
+    const newYear = (rule: string) => calendar(['DTSTART;VALUE=DATE:20200101', `RRULE:${rule}`, 'SUMMARY:New Year'])
+
+    it('repeats every year inside the window', () => {
+      assert.deepEqual(dates(newYear('FREQ=YEARLY')), [
+        '2020-01-01', '2021-01-01', '2022-01-01', '2023-01-01', '2024-01-01', '2025-01-01'
+      ])
+    })
+
+    it('honours INTERVAL', () => {
+      assert.deepEqual(dates(newYear('FREQ=YEARLY;INTERVAL=2')), ['2020-01-01', '2022-01-01', '2024-01-01'])
+    })
+
+    it('stops after COUNT occurrences', () => {
+      assert.deepEqual(dates(newYear('FREQ=YEARLY;COUNT=2')), ['2020-01-01', '2021-01-01'])
+    })
+
+    it('includes an occurrence on the UNTIL date', () => {
+      assert.deepEqual(dates(newYear('FREQ=YEARLY;UNTIL=20220101')), ['2020-01-01', '2021-01-01', '2022-01-01'])
+    })
+
+    it('reads an UNTIL date-time as its date', () => {
+      assert.deepEqual(dates(newYear('FREQ=YEARLY;UNTIL=20211231T235959Z')), ['2020-01-01', '2021-01-01'])
+    })
+
+    it('counts occurrences before the window towards COUNT', () => {
+      const text = calendar(['DTSTART;VALUE=DATE:20180101', 'RRULE:FREQ=YEARLY;COUNT=3', 'SUMMARY:New Year'])
+
+      assert.deepEqual(dates(text), ['2020-01-01'])
+    })
+
+    it('expands a rule to at most 1000 occurrences', () => {
+      const text = calendar(['DTSTART;VALUE=DATE:10000101', 'RRULE:FREQ=YEARLY', 'SUMMARY:New Year'])
+      const days = dates(text, new Date(1000, 0, 1), new Date(2999, 11, 31))
+
+      assert.equal(days.length, 1000)
+      assert.equal(days[days.length - 1], '1999-01-01')
+    })
+
+    it('skips invalid intervals, other frequencies and BY* parts', () => {
+      const result = parse(calendar(
+        ['DTSTART;VALUE=DATE:20200101', 'RRULE:FREQ=YEARLY;INTERVAL=0', 'SUMMARY:Zero'],
+        ['DTSTART;VALUE=DATE:20200101', 'RRULE:FREQ=YEARLY;INTERVAL=1.5', 'SUMMARY:Fraction'],
+        ['DTSTART;VALUE=DATE:20200101', 'RRULE:FREQ=MONTHLY', 'SUMMARY:Monthly'],
+        ['DTSTART;VALUE=DATE:20201126', 'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH', 'SUMMARY:Thanksgiving']
+      ))
+
+      assert.deepEqual(result.days, [])
+      assert.equal(result.skipped, 4)
+    })
+  })
+
+  it('skips cancelled events and events without a start or a name', () => {
+    const result = parse(calendar(
+      ['DTSTART;VALUE=DATE:20240101', 'SUMMARY:New Year', 'STATUS:CANCELLED'],
+      ['SUMMARY:No date'],
+      ['DTSTART;VALUE=DATE:20240102'],
+      ['DTSTART;VALUE=DATE:20240103', 'SUMMARY:Kept', 'STATUS:CONFIRMED']
+    ))
+
+    assert.deepEqual(result.days.map(day => day.date), ['2024-01-03'])
+    assert.equal(result.skipped, 3)
+  })
+})
@@ -0,0 +1,166 @@
+// lib/icalendar.ts
+// Reads the all-day events of an iCalendar (.ics) file, as published for public holidays.
+// Only what holiday calendars use is supported: DTSTART/DTEND dates, SUMMARY, UID and yearly RRULEs.
+
+import { addDays, addYears, format } from 'date-fns'
+
+export interface CalendarDay {
+  date: string // yyyy-MM-dd
+  name: string
+  uid: string | null
+}
+
+export type CalendarParseResult =
+  | { success: true; days: CalendarDay[]; skipped: number }
+  | { success: false; error: string }
+
+// Multi-day events longer than this are not holidays, e.g. a "school term" block
+const MAX_EVENT_DAYS = 14
+
+// Upper bound on the occurrences one recurring event expands to, whatever its rule says
+const MAX_OCCURRENCES = 1000
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/**
+ * Lines of the file with folded continuation lines joined (RFC 5545, 3.1)
+ */
+function unfold(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.trim() !== '')
+}
+
+function parseLine(line: string): ContentLine | null {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+  if (colon === -1) return null
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=')
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '')
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim()
+}
+
+/**
+ * The calendar date of a DATE or DATE-TIME value; times are dropped since holidays are whole days
+ */
+function parseDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  if (!match) return null
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return date.getMonth() === Number(match[2]) - 1 ? date : null
+}
+
+function parseRule(value: string): Record<string, string> {
+  return Object.fromEntries(value.split(';').map(part => {
+    const [key, ruleValue = ''] = part.split('=')
+    return [key.toUpperCase(), ruleValue]
+  }))
+}
+
+/**
+ * Days covered by the VEVENTs of the file between from and to. Yearly recurring events are
+ * expanded inside that window; other recurrence rules, and yearly ones with an invalid INTERVAL,
+ * are skipped and counted.
+ */
+export function parseCalendarDays(text: string, from: Date, to: Date): CalendarParseResult {
+  const lines = unfold(text)
+  if (!lines[0]?.trim().toUpperCase().startsWith('BEGIN:VCALENDAR')) {
+    return { success: false, error: 'This is not an iCalendar (.ics) file' }
+  }
+
+  const days = new Map<string, CalendarDay>()
+  let skipped = 0
+  let event: ContentLine[] | null = null
+
+  const addEvent = (properties: ContentLine[]) => {
+    const get = (name: string) => properties.find(property => property.name === name)
+    const start = get('DTSTART') ? parseDate(get('DTSTART')!.value) : null
+    const summary = get('SUMMARY') ? unescapeText(get('SUMMARY')!.value) : ''
+    const status = get('STATUS')?.value.toUpperCase()
+
+    if (!start || !summary || status === 'CANCELLED') {
+      skipped++
+      return
+    }
+
+    // DTEND is exclusive; without it an event lasts one day
+    const end = get('DTEND') ? parseDate(get('DTEND')!.value) : null
+    const length = end && end > start ? Math.round((end.getTime() - start.getTime()) / 86400000) : 1
+    if (length > MAX_EVENT_DAYS) {
+      skipped++
+      return
+    }
+
+    let starts = [start]
+    const rule = get('RRULE')
+    if (rule) {
+      const parts = parseRule(rule.value)
+      if (parts.FREQ !== 'YEARLY' || Object.keys(parts).some(key => key.startsWith('BY'))) {
+        skipped++
+        return
+      }
+
+      const interval = Number(parts.INTERVAL || 1)
+      if (!Number.isInteger(interval) || interval < 1) {
+        skipped++
+        return
+      }
+
+      const until = parts.UNTIL ? parseDate(parts.UNTIL) : null
+      const count = Math.min(parts.COUNT ? Number(parts.COUNT) : Infinity, MAX_OCCURRENCES)
+      starts = []
+      for (let index = 0, occurrence = start; index < count && occurrence <= to; index++) {
+        if (until && occurrence > until) break
+        if (addDays(occurrence, length) > from) starts.push(occurrence)
+        occurrence = addYears(start, (index + 1) * interval)
+      }
+    }
+
+    const uid = get('UID')?.value ?? null
+    for (const occurrenceStart of starts) {
+      for (let offset = 0; offset < length; offset++) {
+        const day = addDays(occurrenceStart, offset)
+        if (day < from || day > to) continue
+
+        const key = format(day, 'yyyy-MM-dd')
+        // Two events on one day share it, e.g. "Christmas Day / Boxing Day" overlaps
+        const existing = days.get(key)
+        days.set(key, existing
+          ? { ...existing, name: existing.name.includes(summary) ? existing.name : `${existing.name} / ${summary}` }
+          : { date: key, name: summary, uid })
+      }
+    }
+  }
+
+  for (const line of lines) {
+    const property = parseLine(line.trim())
+    if (!property) continue
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      event = []
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      if (event) addEvent(event)
+      event = null
+    } else if (event) {
+      event.push(property)
+    }
+  }
+
+  return {
+    success: true,
+    days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    skipped
+  }
+}
@@ -0,0 +1,107 @@
+// lib/invoice-pdf.ts
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import { format } from 'date-fns'
+
+export interface InvoicePdfData {
+  number: string
+  status: string
+  issueDate: string
+  dueDate: string | null
+  periodStart: string
+  periodEnd: string
+  currency: string
+  subtotal: number
+  notes: string | null
+  client: {
+    name: string
+    email: string | null
+    address: string | null
+  }
+  lineItems: {
+    description: string
+    hours: number
+    rate: number
+    amount: number
+  }[]
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+}
+
+/**
+ * Render an invoice as a PDF in the browser and download it
+ */
+export function downloadInvoicePdf(invoice: InvoicePdfData) {
+  const doc = new jsPDF()
+
+  // Header
+  doc.setFontSize(22)
+  doc.text('INVOICE', 20, 22)
+  doc.setFontSize(11)
+  doc.text(invoice.number, 190, 22, { align: 'right' })
+  if (invoice.status === 'DRAFT') {
+    doc.setTextColor(200, 0, 0)
+    doc.text('DRAFT', 190, 29, { align: 'right' })
+    doc.setTextColor(0, 0, 0)
+  }
+
+  // Bill to
+  doc.setFontSize(10)
+  doc.text('Bill to:', 20, 40)
+  doc.setFontSize(12)
+  doc.text(invoice.client.name, 20, 47)
+  doc.setFontSize(10)
+  let clientY = 53
+  if (invoice.client.address) {
+    const addressLines = doc.splitTextToSize(invoice.client.address, 80) as string[]
+    doc.text(addressLines, 20, clientY)
+    clientY += addressLines.length * 5
+  }
+  if (invoice.client.email) {
+    doc.text(invoice.client.email, 20, clientY)
+  }
+
+  // Dates
+  doc.text(`Issue date: ${format(new Date(invoice.issueDate), 'MMM dd, yyyy')}`, 190, 40, { align: 'right' })
+  if (invoice.dueDate) {
+    doc.text(`Due date: ${format(new Date(invoice.dueDate), 'MMM dd, yyyy')}`, 190, 46, { align: 'right' })
+  }
+  doc.text(
+    `Period: ${format(new Date(invoice.periodStart), 'MMM dd, yyyy')} - ${format(new Date(invoice.periodEnd), 'MMM dd, yyyy')}`,
+    190,
+    52,
+    { align: 'right' }
+  )
+
+  // Line items
+  autoTable(doc, {
+    head: [['Description', 'Hours', 'Rate', 'Amount']],
+    body: invoice.lineItems.map(item => [
+      item.description,
+      item.hours.toFixed(2),
+      formatMoney(item.rate, invoice.currency),
+      formatMoney(item.amount, invoice.currency)
+    ]),
+    foot: [['Total', invoice.lineItems.reduce((sum, item) => sum + item.hours, 0).toFixed(2), '', formatMoney(invoice.subtotal, invoice.currency)]],
+    startY: Math.max(clientY + 10, 65),
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [66, 139, 202] },
+    footStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0], fontStyle: 'bold' },
+    columnStyles: {
+      1: { halign: 'right' },
+      2: { halign: 'right' },
+      3: { halign: 'right' }
+    }
+  })
+
+  if (invoice.notes) {
+    const finalY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY
+    doc.setFontSize(10)
+    doc.text('Notes:', 20, finalY + 12)
+    doc.text(doc.splitTextToSize(invoice.notes, 170) as string[], 20, finalY + 18)
+  }
+
+  doc.save(`${invoice.number}.pdf`)
+}
@@ -0,0 +1,436 @@
+// lib/invoices.ts
+import { prisma } from '@/lib/prisma'
+import { Invoice, Prisma } from '@/app/generated/prisma'
+import { AuditLogger, AuditActor } from '@/lib/audit-log'
+
+export type InvoiceStatus = 'DRAFT' | 'SENT' | 'PAID'
+
+// A sent invoice can be recalled to draft for corrections; a paid invoice is final
+const STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  DRAFT: ['SENT'],
+  SENT: ['PAID', 'DRAFT'],
+  PAID: []
+}
+
+export interface BillRateRecord {
+  projectId: string | null
+  userId: string | null
+  rate: Prisma.Decimal
+  effectiveDate: Date
+}
+
+export interface InvoiceLine {
+  projectId: string
+  projectName: string
+  userId: string
+  userName: string
+  description: string
+  hours: number
+  rate: number
+  amount: number
+  entryIds: string[]
+}
+
+export interface MissingBillRate {
+  projectId: string
+  projectName: string
+  userId: string
+  userName: string
+  hours: number
+}
+
+export interface InvoicePreview {
+  clientId: string
+  clientName: string
+  currency: string
+  periodStart: Date
+  periodEnd: Date
+  lines: InvoiceLine[]
+  subtotal: number
+  entryCount: number
+  missingRates: MissingBillRate[]
+}
+
+export type InvoicePreviewResult =
+  | { success: true; preview: InvoicePreview }
+  | { success: false; error: string; status: number }
+
+export type InvoiceResult =
+  | { success: true; invoice: Invoice }
+  | { success: false; error: string; status: number }
+
+// Two invoices created at the same moment can pick the same number; the later one retries
+const MAX_NUMBER_ATTEMPTS = 5
+
+// Thrown inside the create transaction to roll it back when its entries were billed meanwhile
+class EntriesAlreadyInvoiced extends Error {}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export class InvoiceManager {
+  /**
+   * The bill rate for one entry. Project+user rates win over project rates,
+   * which win over user rates, which win over the client-wide default.
+   * Within the same level the latest rate effective on the date applies.
+   */
+  static resolveBillRate(
+    rates: BillRateRecord[],
+    projectId: string,
+    userId: string,
+    date: Date
+  ): number | null {
+    let best: { specificity: number; record: BillRateRecord } | null = null
+
+    for (const record of rates) {
+      if (record.effectiveDate > date) continue
+      if (record.projectId && record.projectId !== projectId) continue
+      if (record.userId && record.userId !== userId) continue
+
+      const specificity = (record.projectId ? 2 : 0) + (record.userId ? 1 : 0)
+
+      if (
+        !best ||
+        specificity > best.specificity ||
+        (specificity === best.specificity && record.effectiveDate > best.record.effectiveDate)
+      ) {
+        best = { specificity, record }
+      }
+    }
+
+    return best ? Number(best.record.rate) : null
+  }
+
+  /**
+   * Approved, billable entries of the client's billable projects that are not on an invoice yet
+   */
+  static async getBillableEntries(clientId: string, periodStart: Date, periodEnd: Date) {
+    return prisma.timeEntry.findMany({
+      where: {
+        status: 'APPROVED',
+        billable: true,
+        invoiceId: null,
+        endTime: { not: null },
+        date: { gte: periodStart, lte: periodEnd },
+        project: { clientId, billable: true }
+      },
+      include: {
+        project: { select: { id: true, name: true } },
+        user: { select: { id: true, name: true, email: true } }
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
+    })
+  }
+
+  /**
+   * Group billable entries into line items per project, person and rate
+   */
+  static async previewInvoice(clientId: string, periodStart: Date, periodEnd: Date): Promise<InvoicePreviewResult> {
+    const client = await prisma.client.findUnique({
+      where: { id: clientId },
+      include: { billRates: true }
+    })
+
+    if (!client) {
+      return { success: false, error: 'Client not found', status: 404 }
+    }
+
+    const entries = await this.getBillableEntries(clientId, periodStart, periodEnd)
+
+    const lines = new Map<string, InvoiceLine>()
+    const missing = new Map<string, MissingBillRate>()
+
+    for (const entry of entries) {
+      const hours = Number(entry.hours)
+      const userName = entry.user.name || entry.user.email
+      const rate = this.resolveBillRate(client.billRates, entry.projectId, entry.userId, entry.date)
+
+      if (rate === null) {
+        const key = `${entry.projectId}:${entry.userId}`
+        const existing = missing.get(key)
+        if (existing) {
+          existing.hours += hours
+        } else {
+          missing.set(key, {
+            projectId: entry.projectId,
+            projectName: entry.project.name,
+            userId: entry.userId,
+            userName,
+            hours
+          })
+        }
+        continue
+      }
+
+      const key = `${entry.projectId}:${entry.userId}:${rate}`
+      const line = lines.get(key)
+      if (line) {
+        line.hours += hours
+        line.entryIds.push(entry.id)
+      } else {
+        lines.set(key, {
+          projectId: entry.projectId,
+          projectName: entry.project.name,
+          userId: entry.userId,
+          userName,
+          description: `${entry.project.name} - ${userName}`,
+          hours,
+          rate,
+          amount: 0,
+          entryIds: [entry.id]
+        })
+      }
+    }
+
+    const sortedLines = Array.from(lines.values())
+      .map(line => ({
+        ...line,
+        hours: roundCurrency(line.hours),
+        amount: roundCurrency(line.hours * line.rate)
+      }))
+      .sort((a, b) => a.projectName.localeCompare(b.projectName) || a.userName.localeCompare(b.userName))
+
+    return {
+      success: true,
+      preview: {
+        clientId: client.id,
+        clientName: client.name,
+        currency: client.currency,
+        periodStart,
+        periodEnd,
+        lines: sortedLines,
+        subtotal: roundCurrency(sortedLines.reduce((sum, line) => sum + line.amount, 0)),
+        entryCount: sortedLines.reduce((sum, line) => sum + line.entryIds.length, 0),
+        missingRates: Array.from(missing.values()).map(m => ({ ...m, hours: roundCurrency(m.hours) }))
+      }
+    }
+  }
+
+  /**
+   * Next sequential number for the year, e.g. INV-2025-0007. The unique index on the number
+   * rejects a concurrent invoice that picked the same one, and createInvoice retries.
+   * The highest sequence is taken from the parsed numbers, since INV-2025-10000 sorts
+   * before INV-2025-9999 as a string.
+   */
+  static async getNextInvoiceNumber(tx: Prisma.TransactionClient, issueDate: Date): Promise<string> {
+    const prefix = `INV-${issueDate.getFullYear()}-`
+    const invoices = await tx.invoice.findMany({
+      where: { number: { startsWith: prefix } },
+      select: { number: true }
+    })
+
+    const lastSequence = invoices.reduce(
+      (max, invoice) => Math.max(max, parseInt(invoice.number.slice(prefix.length)) || 0),
+      0
+    )
+    return `${prefix}${(lastSequence + 1).toString().padStart(4, '0')}`
+  }
+
+  /**
+   * Create a draft invoice and attach its entries so they cannot be billed twice
+   */
+  static async createInvoice(
+    data: {
+      clientId: string
+      periodStart: Date
+      periodEnd: Date
+      dueDate?: Date
+      notes?: string
+    },
+    actor: AuditActor
+  ): Promise<InvoiceResult> {
+    const previewed = await this.previewInvoice(data.clientId, data.periodStart, data.periodEnd)
+    if (!previewed.success) return previewed
+    const { preview } = previewed
+
+    if (preview.missingRates.length > 0) {
+      const names = preview.missingRates.map(m => `${m.userName} on ${m.projectName}`).join(', ')
+      return { success: false, error: `No bill rate is set for ${names}`, status: 400 }
+    }
+
+    if (preview.lines.length === 0) {
+      return { success: false, error: 'There are no approved billable entries for this client in the selected period', status: 400 }
+    }
+
+    const client = await prisma.client.findUnique({
+      where: { id: data.clientId },
+      select: { paymentTermsDays: true }
+    })
+
+    const issueDate = new Date()
+    const dueDate = data.dueDate ?? new Date(
+      issueDate.getFullYear(),
+      issueDate.getMonth(),
+      issueDate.getDate() + (client?.paymentTermsDays ?? 30)
+    )
+
+    const entryIds = preview.lines.flatMap(line => line.entryIds)
+    let invoice: Invoice | null = null
+
+    for (let attempt = 1; !invoice; attempt++) {
+      try {
+        invoice = await this.insertInvoice(data, actor, preview, entryIds, issueDate, dueDate)
+      } catch (error) {
+        if (error instanceof EntriesAlreadyInvoiced) {
+          return { success: false, error: 'Some entries were invoiced by someone else in the meantime. Please try again.', status: 409 }
+        }
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002' && attempt < MAX_NUMBER_ATTEMPTS) {
+          continue
+        }
+        throw error
+      }
+    }
+
+    console.log(`Created invoice ${invoice.number} for client ${data.clientId} with ${preview.entryCount} entries`)
+
+    await AuditLogger.record({
+      actor,
+      action: 'CREATE',
+      entityType: 'INVOICE',
+      entityId: invoice.id,
+      after: {
+        number: invoice.number,
+        clientId: invoice.clientId,
+        status: invoice.status,
+        subtotal: invoice.subtotal,
+        periodStart: invoice.periodStart,
+        periodEnd: invoice.periodEnd,
+        entryCount: preview.entryCount
+      }
+    })
+
+    return { success: true, invoice }
+  }
+
+  /**
+   * Number the invoice and claim its entries in one transaction
+   */
+  private static async insertInvoice(
+    data: { clientId: string; periodStart: Date; periodEnd: Date; notes?: string },
+    actor: AuditActor,
+    preview: InvoicePreview,
+    entryIds: string[],
+    issueDate: Date,
+    dueDate: Date
+  ): Promise<Invoice> {
+    return prisma.$transaction(async (tx) => {
+      const number = await this.getNextInvoiceNumber(tx, issueDate)
+
+      const created = await tx.invoice.create({
+        data: {
+          number,
+          clientId: data.clientId,
+          status: 'DRAFT',
+          periodStart: data.periodStart,
+          periodEnd: data.periodEnd,
+          issueDate,
+          dueDate,
+          currency: preview.currency,
+          subtotal: preview.subtotal,
+          notes: data.notes || null,
+          createdBy: actor.id,
+          lineItems: {
+            create: preview.lines.map((line, index) => ({
+              projectId: line.projectId,
+              userId: line.userId,
+              description: line.description,
+              hours: line.hours,
+              rate: line.rate,
+              amount: line.amount,
+              sortOrder: index
+            }))
+          }
+        }
+      })
+
+      // Only claim entries that are still unbilled; a concurrent invoice would leave fewer
+      const { count } = await tx.timeEntry.updateMany({
+        where: { id: { in: entryIds }, invoiceId: null },
+        data: { invoiceId: created.id }
+      })
+
+      if (count !== entryIds.length) {
+        throw new EntriesAlreadyInvoiced()
+      }
+
+      return created
+    })
+  }
+
+  static canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+    return STATUS_TRANSITIONS[from].includes(to)
+  }
+
+  static async updateStatus(invoiceId: string, status: InvoiceStatus, actor: AuditActor): Promise<InvoiceResult> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { id: true, number: true, status: true }
+    })
+
+    if (!invoice) {
+      return { success: false, error: 'Invoice not found', status: 404 }
+    }
+
+    if (!this.canTransition(invoice.status, status)) {
+      return { success: false, error: `A ${invoice.status.toLowerCase()} invoice cannot be marked as ${status.toLowerCase()}`, status: 409 }
+    }
+
+    const updated = await prisma.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        status,
+        ...(status === 'SENT' ? { sentAt: new Date() } : {}),
+        ...(status === 'PAID' ? { paidAt: new Date() } : {}),
+        ...(status === 'DRAFT' ? { sentAt: null } : {})
+      }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'UPDATE',
+      entityType: 'INVOICE',
+      entityId: invoiceId,
+      before: { number: invoice.number, status: invoice.status },
+      after: { number: updated.number, status: updated.status }
+    })
+
+    return { success: true, invoice: updated }
+  }
+
+  /**
+   * Delete a draft invoice and release its entries for billing
+   */
+  static async deleteDraft(invoiceId: string, actor: AuditActor): Promise<{ success: true } | { success: false; error: string; status: number }> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { id: true, number: true, status: true, clientId: true, subtotal: true }
+    })
+
+    if (!invoice) {
+      return { success: false, error: 'Invoice not found', status: 404 }
+    }
+
+    if (invoice.status !== 'DRAFT') {
+      return { success: false, error: 'Only draft invoices can be deleted', status: 409 }
+    }
+
+    await prisma.$transaction([
+      prisma.timeEntry.updateMany({
+        where: { invoiceId },
+        data: { invoiceId: null }
+      }),
+      prisma.invoice.delete({ where: { id: invoiceId } })
+    ])
+
+    await AuditLogger.record({
+      actor,
+      action: 'DELETE',
+      entityType: 'INVOICE',
+      entityId: invoiceId,
+      before: invoice
+    })
+
+    return { success: true }
+  }
+}
@@ -0,0 +1,617 @@
+// lib/leave.ts
+import { prisma } from '@/lib/prisma'
+import { AuditLogger, AuditActor } from '@/lib/audit-log'
+import { NotificationManager } from '@/lib/notifications'
+import { WorkScheduleManager } from '@/lib/work-schedules'
+import { addDays, differenceInCalendarMonths, endOfYear, format, max, min, startOfDay } from 'date-fns'
+
+export type LeaveStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED'
+
+export interface LeaveUser {
+  id: string
+  email?: string | null
+  role: string
+}
+
+export interface LeaveTypeInput {
+  name: string
+  color?: string
+  paid?: boolean
+  annualAllowanceDays?: number
+  requiresApproval?: boolean
+  active?: boolean
+}
+
+export interface LeaveTypeSummary {
+  id: string
+  name: string
+  color: string
+  paid: boolean
+  annualAllowanceDays: number
+  requiresApproval: boolean
+  active: boolean
+}
+
+export interface LeaveRequestInput {
+  leaveTypeId: string
+  startDate: Date
+  endDate: Date
+  note?: string | null
+}
+
+export interface LeaveRequestSummary {
+  id: string
+  user: { id: string; name: string | null; email: string }
+  leaveType: { id: string; name: string; color: string }
+  startDate: string // yyyy-MM-dd
+  endDate: string // yyyy-MM-dd, inclusive
+  days: number
+  note: string | null
+  status: LeaveStatus
+  reviewedAt: string | null
+  reviewComment: string | null
+  createdAt: string
+}
+
+/**
+ * Balance of one leave type for a year. Types without an allowance are not tracked and only
+ * report what was taken.
+ */
+export interface LeaveBalance {
+  leaveType: LeaveTypeSummary
+  year: number
+  tracked: boolean
+  allowanceDays: number // for the whole year
+  accruedDays: number // earned so far
+  adjustmentDays: number
+  takenDays: number // approved
+  pendingDays: number
+  availableDays: number // accrued + adjustments - taken - pending
+}
+
+// A day shown on the calendar: a holiday, or a day of leave that is approved or waiting for approval
+export interface CalendarDayOff {
+  date: string // yyyy-MM-dd
+  kind: 'HOLIDAY' | 'LEAVE'
+  name: string
+  color: string | null
+  status: LeaveStatus | null
+  requestId: string | null
+}
+
+type LeaveFailure = { success: false; error: string; status: number }
+
+type LeaveTypeRecord = {
+  id: string
+  name: string
+  color: string
+  paid: boolean
+  annualAllowanceDays: { toNumber(): number }
+  requiresApproval: boolean
+  active: boolean
+}
+
+type LeaveRequestRecord = {
+  id: string
+  startDate: Date
+  endDate: Date
+  days: { toNumber(): number }
+  note: string | null
+  status: LeaveStatus
+  reviewedAt: Date | null
+  reviewComment: string | null
+  createdAt: Date
+  user: { id: string; name: string | null; email: string }
+  leaveType: { id: string; name: string; color: string }
+}
+
+const REQUEST_INCLUDE = {
+  user: { select: { id: true, name: true, email: true } },
+  leaveType: { select: { id: true, name: true, color: true } }
+}
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/
+
+function toTypeSummary(leaveType: LeaveTypeRecord): LeaveTypeSummary {
+  return {
+    id: leaveType.id,
+    name: leaveType.name,
+    color: leaveType.color,
+    paid: leaveType.paid,
+    annualAllowanceDays: leaveType.annualAllowanceDays.toNumber(),
+    requiresApproval: leaveType.requiresApproval,
+    active: leaveType.active
+  }
+}
+
+function toRequestSummary(request: LeaveRequestRecord): LeaveRequestSummary {
+  return {
+    id: request.id,
+    user: request.user,
+    leaveType: request.leaveType,
+    startDate: format(request.startDate, 'yyyy-MM-dd'),
+    endDate: format(request.endDate, 'yyyy-MM-dd'),
+    days: request.days.toNumber(),
+    note: request.note,
+    status: request.status,
+    reviewedAt: request.reviewedAt?.toISOString() ?? null,
+    reviewComment: request.reviewComment,
+    createdAt: request.createdAt.toISOString()
+  }
+}
+
+function roundDays(days: number): number {
+  return parseFloat(days.toFixed(2))
+}
+
+/**
+ * Days of a yearly allowance earned by a date. The allowance accrues in equal monthly parts at the
+ * start of each month, counted from January or from the month the user joined in that year.
+ */
+function accruedDays(allowance: number, year: number, joined: Date, asOf: Date): number {
+  const yearStart = new Date(year, 0, 1)
+  const first = max([yearStart, startOfDay(joined)])
+  const last = min([asOf, endOfYear(yearStart)])
+  if (last < first) return 0
+
+  const months = differenceInCalendarMonths(last, first) + 1
+  return roundDays((allowance * months) / 12)
+}
+
+export class LeaveManager {
+  static async listTypes(options: { activeOnly?: boolean } = {}): Promise<LeaveTypeSummary[]> {
+    const types = await prisma.leaveType.findMany({
+      where: options.activeOnly ? { active: true } : undefined,
+      orderBy: { name: 'asc' }
+    })
+
+    return types.map(toTypeSummary)
+  }
+
+  static async createType(input: LeaveTypeInput, actor: AuditActor): Promise<{ success: true; leaveType: LeaveTypeSummary } | LeaveFailure> {
+    const invalid = this.checkType(input)
+    if (invalid) return invalid
+
+    const existing = await prisma.leaveType.findUnique({ where: { name: input.name.trim() } })
+    if (existing) {
+      return { success: false, error: 'A leave type with this name already exists', status: 409 }
+    }
+
+    const leaveType = await prisma.leaveType.create({
+      data: {
+        name: input.name.trim(),
+        color: input.color,
+        paid: input.paid,
+        annualAllowanceDays: input.annualAllowanceDays,
+        requiresApproval: input.requiresApproval,
+        active: input.active
+      }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'CREATE',
+      entityType: 'LEAVE_TYPE',
+      entityId: leaveType.id,
+      after: toTypeSummary(leaveType)
+    })
+
+    return { success: true, leaveType: toTypeSummary(leaveType) }
+  }
+
+  static async updateType(leaveTypeId: string, input: Partial<LeaveTypeInput>, actor: AuditActor): Promise<{ success: true; leaveType: LeaveTypeSummary } | LeaveFailure> {
+    const leaveType = await prisma.leaveType.findUnique({ where: { id: leaveTypeId } })
+    if (!leaveType) {
+      return { success: false, error: 'Leave type not found', status: 404 }
+    }
+
+    const invalid = this.checkType({ ...toTypeSummary(leaveType), ...input })
+    if (invalid) return invalid
+
+    const name = input.name?.trim()
+    if (name && name !== leaveType.name) {
+      const existing = await prisma.leaveType.findUnique({ where: { name } })
+      if (existing) {
+        return { success: false, error: 'A leave type with this name already exists', status: 409 }
+      }
+    }
+
+    const updated = await prisma.leaveType.update({
+      where: { id: leaveTypeId },
+      data: {
+        name,
+        color: input.color,
+        paid: input.paid,
+        annualAllowanceDays: input.annualAllowanceDays,
+        requiresApproval: input.requiresApproval,
+        active: input.active
+      }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'UPDATE',
+      entityType: 'LEAVE_TYPE',
+      entityId: leaveTypeId,
+      before: toTypeSummary(leaveType),
+      after: toTypeSummary(updated)
+    })
+
+    return { success: true, leaveType: toTypeSummary(updated) }
+  }
+
+  /**
+   * Balances of every leave type the user can request or has used in the year. The accrual runs up
+   * to asOf, which defaults to today and is clamped to the year.
+   */
+  static async getBalances(userId: string, year: number, asOf: Date = new Date()): Promise<LeaveBalance[]> {
+    const yearStart = new Date(year, 0, 1)
+    const yearEnd = endOfYear(yearStart)
+
+    const [user, types, requests, adjustments] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { createdAt: true } }),
+      prisma.leaveType.findMany({ orderBy: { name: 'asc' } }),
+      prisma.leaveRequest.groupBy({
+        by: ['leaveTypeId', 'status'],
+        where: { userId, status: { in: ['PENDING', 'APPROVED'] }, startDate: { gte: yearStart, lte: yearEnd } },
+        _sum: { days: true }
+      }),
+      prisma.leaveBalanceAdjustment.groupBy({
+        by: ['leaveTypeId'],
+        where: { userId, year },
+        _sum: { days: true }
+      })
+    ])
+    if (!user) return []
+
+    const sumFor = (leaveTypeId: string, status: LeaveStatus) =>
+      requests.find(row => row.leaveTypeId === leaveTypeId && row.status === status)?._sum.days?.toNumber() ?? 0
+
+    return types
+      .filter(leaveType => leaveType.active || requests.some(row => row.leaveTypeId === leaveType.id))
+      .map(leaveType => {
+        const allowance = leaveType.annualAllowanceDays.toNumber()
+        const tracked = allowance > 0
+        const accrued = tracked ? accruedDays(allowance, year, user.createdAt, asOf) : 0
+        const adjustment = adjustments.find(row => row.leaveTypeId === leaveType.id)?._sum.days?.toNumber() ?? 0
+        const taken = sumFor(leaveType.id, 'APPROVED')
+        const pending = sumFor(leaveType.id, 'PENDING')
+
+        return {
+          leaveType: toTypeSummary(leaveType),
+          year,
+          tracked,
+          allowanceDays: allowance,
+          accruedDays: accrued,
+          adjustmentDays: roundDays(adjustment),
+          takenDays: roundDays(taken),
+          pendingDays: roundDays(pending),
+          availableDays: roundDays(accrued + adjustment - taken - pending)
+        }
+      })
+  }
+
+  static async listRequests(filter: { userId?: string; status?: LeaveStatus; from?: Date; to?: Date } = {}): Promise<LeaveRequestSummary[]> {
+    const requests = await prisma.leaveRequest.findMany({
+      where: {
+        userId: filter.userId,
+        status: filter.status,
+        ...(filter.to ? { startDate: { lte: filter.to } } : {}),
+        ...(filter.from ? { endDate: { gte: filter.from } } : {})
+      },
+      include: REQUEST_INCLUDE,
+      orderBy: { startDate: filter.status === 'PENDING' ? 'asc' : 'desc' }
+    })
+
+    return requests.map(toRequestSummary)
+  }
+
+  /**
+   * Request leave for the working days between two dates. Weekends and holidays in the range are
+   * not counted. Types that do not require approval are approved straight away.
+   */
+  static async request(user: LeaveUser, input: LeaveRequestInput): Promise<{ success: true; request: LeaveRequestSummary } | LeaveFailure> {
+    const startDate = startOfDay(input.startDate)
+    const endDate = startOfDay(input.endDate)
+
+    if (endDate < startDate) {
+      return { success: false, error: 'The leave must end on or after the day it starts', status: 400 }
+    }
+    if (startDate.getFullYear() !== endDate.getFullYear()) {
+      return { success: false, error: 'Leave across the new year must be requested separately for each year', status: 400 }
+    }
+
+    const leaveType = await prisma.leaveType.findUnique({ where: { id: input.leaveTypeId } })
+    if (!leaveType || !leaveType.active) {
+      return { success: false, error: 'Leave type not found', status: 404 }
+    }
+
+    const overlapping = await prisma.leaveRequest.findFirst({
+      where: {
+        userId: user.id,
+        status: { in: ['PENDING', 'APPROVED'] },
+        startDate: { lte: endDate },
+        endDate: { gte: startDate }
+      }
+    })
+    if (overlapping) {
+      return {
+        success: false,
+        error: `This overlaps your leave from ${format(overlapping.startDate, 'MMM d')} to ${format(overlapping.endDate, 'MMM d')}`,
+        status: 409
+      }
+    }
+
+    const days = await this.countWorkingDays(user.id, startDate, endDate)
+    if (days === 0) {
+      return { success: false, error: 'There are no working days in this range', status: 400 }
+    }
+
+    const insufficient = await this.checkBalance(user.id, toTypeSummary(leaveType), endDate, days)
+    if (insufficient) return insufficient
+
+    const autoApproved = !leaveType.requiresApproval
+    const request = await prisma.leaveRequest.create({
+      data: {
+        userId: user.id,
+        leaveTypeId: leaveType.id,
+        startDate,
+        endDate,
+        days,
+        note: input.note?.trim() || null,
+        status: autoApproved ? 'APPROVED' : 'PENDING',
+        reviewedAt: autoApproved ? new Date() : null
+      },
+      include: REQUEST_INCLUDE
+    })
+
+    await AuditLogger.record({
+      actor: user,
+      action: autoApproved ? 'APPROVE' : 'SUBMIT',
+      entityType: 'LEAVE_REQUEST',
+      entityId: request.id,
+      after: toRequestSummary(request),
+      metadata: autoApproved ? { autoApproved: true } : undefined
+    })
+
+    return { success: true, request: toRequestSummary(request) }
+  }
+
+  /**
+   * Approve or reject a pending request. The balance is checked again on approval since other
+   * requests may have been approved in the meantime.
+   */
+  static async review(
+    reviewer: LeaveUser,
+    requestId: string,
+    decision: 'approve' | 'reject',
+    comment?: string | null
+  ): Promise<{ success: true; request: LeaveRequestSummary } | LeaveFailure> {
+    if (reviewer.role !== 'ADMIN') {
+      return { success: false, error: 'Only admins can review leave requests', status: 403 }
+    }
+    if (decision === 'reject' && !comment?.trim()) {
+      return { success: false, error: 'A comment is required when rejecting a leave request', status: 400 }
+    }
+
+    const request = await prisma.leaveRequest.findUnique({ where: { id: requestId }, include: { leaveType: true } })
+    if (!request) {
+      return { success: false, error: 'Leave request not found', status: 404 }
+    }
+    if (request.status !== 'PENDING') {
+      return { success: false, error: `This request is already ${request.status.toLowerCase()}`, status: 409 }
+    }
+
+    if (decision === 'approve') {
+      // The request itself is counted as pending in the balance, so only the rest must fit
+      const insufficient = await this.checkBalance(request.userId, toTypeSummary(request.leaveType), request.endDate, 0)
+      if (insufficient) return insufficient
+    }
+
+    const updated = await prisma.leaveRequest.update({
+      where: { id: requestId },
+      data: {
+        status: decision === 'approve' ? 'APPROVED' : 'REJECTED',
+        reviewedBy: reviewer.id,
+        reviewedAt: new Date(),
+        reviewComment: comment?.trim() || null
+      },
+      include: REQUEST_INCLUDE
+    })
+
+    await AuditLogger.record({
+      actor: reviewer,
+      action: decision === 'approve' ? 'APPROVE' : 'REJECT',
+      entityType: 'LEAVE_REQUEST',
+      entityId: requestId,
+      before: { status: request.status },
+      after: { status: updated.status, reviewComment: updated.reviewComment }
+    })
+
+    const range = `${format(updated.startDate, 'MMM d')} - ${format(updated.endDate, 'MMM d, yyyy')}`
+    await NotificationManager.notify({
+      userId: updated.user.id,
+      type: 'LEAVE_REVIEWED',
+      title: decision === 'approve' ? 'Leave approved' : 'Leave rejected',
+      message: decision === 'approve'
+        ? `Your ${updated.leaveType.name} for ${range} was approved.`
+        : `Your ${updated.leaveType.name} for ${range} was rejected: ${updated.reviewComment}`,
+      link: '/leave'
+    })
+
+    return { success: true, request: toRequestSummary(updated) }
+  }
+
+  /**
+   * Withdraw a request. Owners may cancel pending requests and approved leave that has not started;
+   * admins may cancel any pending or approved request.
+   */
+  static async cancel(user: LeaveUser, requestId: string, now: Date = new Date()): Promise<{ success: true; request: LeaveRequestSummary } | LeaveFailure> {
+    const request = await prisma.leaveRequest.findUnique({ where: { id: requestId }, include: REQUEST_INCLUDE })
+    if (!request || (request.userId !== user.id && user.role !== 'ADMIN')) {
+      return { success: false, error: 'Leave request not found', status: 404 }
+    }
+    if (request.status !== 'PENDING' && request.status !== 'APPROVED') {
+      return { success: false, error: `This request is already ${request.status.toLowerCase()}`, status: 409 }
+    }
+    if (user.role !== 'ADMIN' && request.status === 'APPROVED' && request.startDate <= startOfDay(now)) {
+      return { success: false, error: 'Leave that has started can only be cancelled by an admin', status: 403 }
+    }
+
+    const updated = await prisma.leaveRequest.update({
+      where: { id: requestId },
+      data: { status: 'CANCELLED' },
+      include: REQUEST_INCLUDE
+    })
+
+    await AuditLogger.record({
+      actor: user,
+      action: 'CANCEL',
+      entityType: 'LEAVE_REQUEST',
+      entityId: requestId,
+      before: { status: request.status },
+      after: { status: updated.status }
+    })
+
+    return { success: true, request: toRequestSummary(updated) }
+  }
+
+  /**
+   * Add or remove days from a user's balance for a year, e.g. days carried over from last year
+   */
+  static async adjustBalance(
+    input: { userId: string; leaveTypeId: string; year: number; days: number; reason: string },
+    actor: AuditActor
+  ): Promise<{ success: true } | LeaveFailure> {
+    if (input.days === 0) {
+      return { success: false, error: 'The adjustment cannot be zero days', status: 400 }
+    }
+    if (!input.reason.trim()) {
+      return { success: false, error: 'A reason is required', status: 400 }
+    }
+
+    const [user, leaveType] = await Promise.all([
+      prisma.user.findUnique({ where: { id: input.userId }, select: { id: true } }),
+      prisma.leaveType.findUnique({ where: { id: input.leaveTypeId }, select: { id: true } })
+    ])
+    if (!user) {
+      return { success: false, error: 'User not found', status: 404 }
+    }
+    if (!leaveType) {
+      return { success: false, error: 'Leave type not found', status: 404 }
+    }
+
+    const adjustment = await prisma.leaveBalanceAdjustment.create({
+      data: {
+        userId: input.userId,
+        leaveTypeId: input.leaveTypeId,
+        year: input.year,
+        days: input.days,
+        reason: input.reason.trim(),
+        createdBy: actor.id
+      }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'CREATE',
+      entityType: 'LEAVE_BALANCE',
+      entityId: adjustment.id,
+      after: { leaveTypeId: input.leaveTypeId, year: input.year, days: input.days, reason: adjustment.reason },
+      metadata: { userId: input.userId }
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Holidays and the pending or approved leave of a user between two dates, one row per day.
+   * Leave is only shown on the days it was counted for, so weekends inside it stay blank.
+   */
+  static async getCalendarDaysOff(userId: string, from: Date, to: Date): Promise<CalendarDayOff[]> {
+    const rangeStart = startOfDay(from)
+    const [timeline, requests] = await Promise.all([
+      WorkScheduleManager.loadTimeline([userId], rangeStart, to),
+      prisma.leaveRequest.findMany({
+        where: { userId, status: { in: ['PENDING', 'APPROVED'] }, startDate: { lte: to }, endDate: { gte: rangeStart } },
+        include: { leaveType: { select: { name: true, color: true } } }
+      })
+    ])
+
+    const days = new Map<string, CalendarDayOff>()
+    for (let day = rangeStart; day <= to; day = addDays(day, 1)) {
+      const dayOff = timeline.dayOff(userId, day)
+      if (dayOff?.kind === 'HOLIDAY') {
+        const date = format(day, 'yyyy-MM-dd')
+        days.set(date, { date, kind: 'HOLIDAY', name: dayOff.name, color: null, status: null, requestId: null })
+      }
+    }
+
+    for (const request of requests) {
+      const last = min([request.endDate, to])
+      for (let day = max([startOfDay(request.startDate), rangeStart]); day <= last; day = addDays(day, 1)) {
+        const date = format(day, 'yyyy-MM-dd')
+        if (days.has(date) || !timeline.forDay(userId, day).workingDays.includes(day.getDay())) continue
+
+        days.set(date, {
+          date,
+          kind: 'LEAVE',
+          name: request.leaveType.name,
+          color: request.leaveType.color,
+          status: request.status,
+          requestId: request.id
+        })
+      }
+    }
+
+    return [...days.values()].sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  /**
+   * Working days of the user's schedule between two dates, leaving out their holidays
+   */
+  private static async countWorkingDays(userId: string, from: Date, to: Date): Promise<number> {
+    const timeline = await WorkScheduleManager.loadTimeline([userId], from, to)
+
+    let days = 0
+    for (let day = from; day <= to; day = addDays(day, 1)) {
+      if (timeline.forDay(userId, day).workingDays.includes(day.getDay()) && timeline.dayOff(userId, day)?.kind !== 'HOLIDAY') {
+        days++
+      }
+    }
+    return days
+  }
+
+  /**
+   * Whether a tracked leave type has the days left, with accrual counted up to the last day of the leave
+   */
+  private static async checkBalance(userId: string, leaveType: LeaveTypeSummary, lastDay: Date, days: number): Promise<LeaveFailure | null> {
+    if (leaveType.annualAllowanceDays <= 0) return null
+
+    const balances = await this.getBalances(userId, lastDay.getFullYear(), lastDay)
+    const balance = balances.find(item => item.leaveType.id === leaveType.id)
+    const available = balance?.availableDays ?? 0
+
+    if (available - days < 0) {
+      return {
+        success: false,
+        error: `Not enough ${leaveType.name} left: ${roundDays(available)} day(s) available by ${format(lastDay, 'MMM d')}, ${days} requested`,
+        status: 400
+      }
+    }
+    return null
+  }
+
+  private static checkType(input: Partial<LeaveTypeInput>): LeaveFailure | null {
+    if (input.name !== undefined && !input.name.trim()) {
+      return { success: false, error: 'Leave type name is required', status: 400 }
+    }
+    if (input.color !== undefined && !COLOR_PATTERN.test(input.color)) {
+      return { success: false, error: 'Color must be a hex value like #10b981', status: 400 }
+    }
+    if (input.annualAllowanceDays !== undefined && (input.annualAllowanceDays < 0 || input.annualAllowanceDays > 366)) {
+      return { success: false, error: 'The annual allowance must be between 0 and 366 days', status: 400 }
+    }
+    return null
+  }
+}
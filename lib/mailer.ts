@@ -0,0 +1,144 @@
+// lib/mailer.ts
+import { promises as fs } from 'fs'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+export interface MailMessage {
+  to: string | string[]
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+const DEFAULT_FROM = 'TimeTracker <no-reply@localhost>'
+
+/**
+ * Sends through any SMTP server. For local testing point SMTP_HOST/SMTP_PORT at a
+ * fake server such as MailHog or smtp4dev (e.g. localhost:1025) and leave SMTP_SECURE unset.
+ */
+export class SmtpTransport implements MailTransport {
+  name = 'smtp'
+  private transporter: nodemailer.Transporter
+
+  constructor(options: {
+    host: string
+    port: number
+    secure?: boolean
+    user?: string
+    password?: string
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? false,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined
+    })
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message)
+  }
+}
+
+/**
+ * Logs mail instead of sending it, the default when no SMTP server is configured
+ */
+export class ConsoleTransport implements MailTransport {
+  name = 'console'
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`📧 Mail to ${[message.to].flat().join(', ')}: ${message.subject}\n${message.text}`)
+  }
+}
+
+/**
+ * Writes each message to its own .eml file, handy in development to read what would have been sent
+ */
+export class FileTransport implements MailTransport {
+  name = 'file'
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const fileName = `${timestamp}-${Math.random().toString(36).slice(2, 8)}.eml`
+    const content = [
+      `From: ${message.from}`,
+      `To: ${[message.to].flat().join(', ')}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text
+    ].join('\n')
+
+    await fs.writeFile(path.join(this.directory, fileName), content, 'utf8')
+  }
+}
+
+function createTransportFromEnv(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')
+
+  if (transport === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('MAIL_TRANSPORT is smtp but SMTP_HOST is not set')
+    }
+
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD
+    })
+  }
+
+  if (transport === 'file') {
+    return new FileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'))
+  }
+
+  if (transport !== 'console') {
+    throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`)
+  }
+
+  return new ConsoleTransport()
+}
+
+export class Mailer {
+  private static transport: MailTransport | null = null
+
+  /**
+   * The transport comes from MAIL_TRANSPORT and the SMTP_* variables unless one was set explicitly
+   */
+  static getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createTransportFromEnv()
+    }
+    return this.transport
+  }
+
+  static setTransport(transport: MailTransport | null) {
+    this.transport = transport
+  }
+
+  /**
+   * Send a message. Failures are logged and reported as false so mail never blocks the caller.
+   */
+  static async send(message: MailMessage): Promise<boolean> {
+    try {
+      const transport = this.getTransport()
+      await transport.send({ ...message, from: process.env.MAIL_FROM || DEFAULT_FROM })
+      return true
+    } catch (error) {
+      console.error(`Failed to send mail "${message.subject}":`, error)
+      return false
+    }
+  }
+}
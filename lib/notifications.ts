@@ -0,0 +1,67 @@
+// lib/notifications.ts
+import { prisma } from '@/lib/prisma'
+
+export type NotificationType = 'TIMER_AUTO_STOPPED' | 'BUDGET_THRESHOLD' | 'LEAVE_REVIEWED'
+
+export interface NotificationInput {
+  userId: string
+  type: NotificationType
+  title: string
+  message: string
+  link?: string
+}
+
+export class NotificationManager {
+  /**
+   * Store an in-app notification. Failures are logged and never block the caller.
+   */
+  static async notify(notification: NotificationInput): Promise<void> {
+    try {
+      await prisma.notification.create({
+        data: {
+          userId: notification.userId,
+          type: notification.type,
+          title: notification.title,
+          message: notification.message,
+          link: notification.link ?? null
+        }
+      })
+    } catch (error) {
+      console.error(`Failed to create ${notification.type} notification for user ${notification.userId}:`, error)
+    }
+  }
+
+  static async getForUser(userId: string, options: { unreadOnly?: boolean; type?: NotificationType; limit?: number } = {}) {
+    return prisma.notification.findMany({
+      where: {
+        userId,
+        ...(options.unreadOnly ? { readAt: null } : {}),
+        ...(options.type ? { type: options.type } : {})
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 50
+    })
+  }
+
+  static async getUnreadCount(userId: string): Promise<number> {
+    return prisma.notification.count({
+      where: { userId, readAt: null }
+    })
+  }
+
+  /**
+   * Mark notifications as read. Without ids every unread notification of the user is marked.
+   */
+  static async markRead(userId: string, ids?: string[]): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(ids ? { id: { in: ids } } : {})
+      },
+      data: { readAt: new Date() }
+    })
+
+    return result.count
+  }
+}
@@ -0,0 +1,270 @@
+// lib/overtime.ts
+import { prisma } from '@/lib/prisma'
+import { AuditLogger, AuditActor } from '@/lib/audit-log'
+import { WorkScheduleManager } from '@/lib/work-schedules'
+import { endOfWeek, format, isWeekend, startOfDay, startOfWeek } from 'date-fns'
+
+export interface OvertimePolicyInput {
+  name: string
+  effectiveDate: Date
+  dailyThresholdHours: number | null
+  weeklyThresholdHours: number | null
+  overtimeMultiplier: number
+  weekendMultiplier: number
+  holidayMultiplier: number
+}
+
+export interface OvertimePolicySummary {
+  id: string
+  name: string
+  effectiveDate: string // yyyy-MM-dd
+  dailyThresholdHours: number | null
+  weeklyThresholdHours: number | null
+  overtimeMultiplier: number
+  weekendMultiplier: number
+  holidayMultiplier: number
+  createdAt: string
+}
+
+// An entry as far as costing is concerned
+export interface CostableEntry {
+  id: string
+  userId: string
+  projectId: string
+  date: Date
+  startTime: Date
+  hours: number
+}
+
+/**
+ * How an entry's hours are paid. Regular hours are paid at regularMultiplier, which is above 1 on
+ * weekends and holidays; hours over a threshold are paid at overtimeMultiplier.
+ */
+export interface OvertimeSplit {
+  hours: number
+  overtimeHours: number
+  regularMultiplier: number
+  overtimeMultiplier: number
+}
+
+type PolicyRecord = {
+  id: string
+  name: string
+  effectiveDate: Date
+  dailyThresholdHours: { toNumber(): number } | null
+  weeklyThresholdHours: { toNumber(): number } | null
+  overtimeMultiplier: { toNumber(): number }
+  weekendMultiplier: { toNumber(): number }
+  holidayMultiplier: { toNumber(): number }
+  createdAt: Date
+}
+
+function toSummary(policy: PolicyRecord): OvertimePolicySummary {
+  return {
+    id: policy.id,
+    name: policy.name,
+    effectiveDate: format(policy.effectiveDate, 'yyyy-MM-dd'),
+    dailyThresholdHours: policy.dailyThresholdHours?.toNumber() ?? null,
+    weeklyThresholdHours: policy.weeklyThresholdHours?.toNumber() ?? null,
+    overtimeMultiplier: policy.overtimeMultiplier.toNumber(),
+    weekendMultiplier: policy.weekendMultiplier.toNumber(),
+    holidayMultiplier: policy.holidayMultiplier.toNumber(),
+    createdAt: policy.createdAt.toISOString()
+  }
+}
+
+function roundHours(hours: number): number {
+  return parseFloat(hours.toFixed(2))
+}
+
+/**
+ * Cost of an entry split into what it costs at the flat rate and the premium paid on top
+ */
+export function costSplit(split: OvertimeSplit, rate: number): { baseCost: number; premiumCost: number; cost: number } {
+  const regularHours = split.hours - split.overtimeHours
+  const cost = regularHours * rate * split.regularMultiplier + split.overtimeHours * rate * split.overtimeMultiplier
+  const baseCost = split.hours * rate
+  return { baseCost, premiumCost: cost - baseCost, cost }
+}
+
+export class OvertimePolicyTimeline {
+  // Newest first
+  private readonly policies: OvertimePolicySummary[]
+
+  constructor(policies: OvertimePolicySummary[]) {
+    this.policies = [...policies].sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate))
+  }
+
+  get isEmpty(): boolean {
+    return this.policies.length === 0
+  }
+
+  forDay(day: Date): OvertimePolicySummary | null {
+    const key = format(day, 'yyyy-MM-dd')
+    return this.policies.find(policy => policy.effectiveDate <= key) ?? null
+  }
+
+  /**
+   * Split the hours of entries into regular and overtime hours. Entries are taken in the order they
+   * were worked within each user's Monday to Sunday week, so the hours that cross a daily or weekly
+   * threshold are the ones paid as overtime. Hours over both thresholds are only counted once.
+   */
+  split(entries: CostableEntry[], isHoliday: (userId: string, day: Date) => boolean): Map<string, OvertimeSplit> {
+    const splits = new Map<string, OvertimeSplit>()
+    const ordered = [...entries].sort((a, b) =>
+      a.userId.localeCompare(b.userId) || a.startTime.getTime() - b.startTime.getTime() || a.id.localeCompare(b.id)
+    )
+
+    // userId|week -> hours so far, userId|day -> hours so far
+    const weekTotals = new Map<string, number>()
+    const dayTotals = new Map<string, number>()
+
+    for (const entry of ordered) {
+      const policy = this.forDay(entry.date)
+      if (!policy) {
+        splits.set(entry.id, { hours: entry.hours, overtimeHours: 0, regularMultiplier: 1, overtimeMultiplier: 1 })
+        continue
+      }
+
+      const weekKey = `${entry.userId}|${format(startOfWeek(entry.date, { weekStartsOn: 1 }), 'yyyy-MM-dd')}`
+      const dayKey = `${entry.userId}|${format(entry.date, 'yyyy-MM-dd')}`
+      const weekBefore = weekTotals.get(weekKey) ?? 0
+      const dayBefore = dayTotals.get(dayKey) ?? 0
+
+      const overThreshold = (before: number, threshold: number | null) =>
+        threshold === null ? 0 : Math.min(entry.hours, Math.max(0, before + entry.hours - threshold))
+      const overtimeHours = Math.max(
+        overThreshold(dayBefore, policy.dailyThresholdHours),
+        overThreshold(weekBefore, policy.weeklyThresholdHours)
+      )
+
+      const regularMultiplier = Math.max(
+        1,
+        isWeekend(entry.date) ? policy.weekendMultiplier : 1,
+        isHoliday(entry.userId, entry.date) ? policy.holidayMultiplier : 1
+      )
+
+      splits.set(entry.id, {
+        hours: entry.hours,
+        overtimeHours: roundHours(overtimeHours),
+        regularMultiplier,
+        // Overtime on a weekend or holiday is paid at whichever is higher, never both
+        overtimeMultiplier: Math.max(regularMultiplier, policy.overtimeMultiplier)
+      })
+
+      weekTotals.set(weekKey, weekBefore + entry.hours)
+      dayTotals.set(dayKey, dayBefore + entry.hours)
+    }
+
+    return splits
+  }
+}
+
+export class OvertimeManager {
+  static async list(): Promise<OvertimePolicySummary[]> {
+    const policies = await prisma.overtimePolicy.findMany({ orderBy: { effectiveDate: 'desc' } })
+    return policies.map(toSummary)
+  }
+
+  static async loadTimeline(): Promise<OvertimePolicyTimeline> {
+    return new OvertimePolicyTimeline(await this.list())
+  }
+
+  /**
+   * Overtime splits of approved entries. Thresholds depend on everything a user worked that week,
+   * so the user's other approved entries in the same weeks are loaded as well, whatever their project.
+   */
+  static async splitEntries(entries: CostableEntry[], timeline?: OvertimePolicyTimeline): Promise<Map<string, OvertimeSplit>> {
+    const policies = timeline ?? await this.loadTimeline()
+    const flat = (entry: CostableEntry): OvertimeSplit => ({ hours: entry.hours, overtimeHours: 0, regularMultiplier: 1, overtimeMultiplier: 1 })
+
+    if (policies.isEmpty || entries.length === 0) {
+      return new Map(entries.map(entry => [entry.id, flat(entry)]))
+    }
+
+    const userIds = [...new Set(entries.map(entry => entry.userId))]
+    const times = entries.map(entry => entry.date.getTime())
+    const from = startOfWeek(new Date(Math.min(...times)), { weekStartsOn: 1 })
+    const to = endOfWeek(new Date(Math.max(...times)), { weekStartsOn: 1 })
+
+    const [sameWeeks, schedules] = await Promise.all([
+      prisma.timeEntry.findMany({
+        where: { userId: { in: userIds }, status: 'APPROVED', date: { gte: from, lte: to } },
+        select: { id: true, userId: true, projectId: true, date: true, startTime: true, hours: true }
+      }),
+      WorkScheduleManager.loadTimeline(userIds, from, to)
+    ])
+
+    const all = new Map<string, CostableEntry>(sameWeeks.map(entry => [entry.id, {
+      ...entry,
+      date: startOfDay(entry.date),
+      hours: entry.hours.toNumber()
+    }]))
+    for (const entry of entries) all.set(entry.id, entry)
+
+    const splits = policies.split([...all.values()], (userId, day) => schedules.dayOff(userId, day)?.kind === 'HOLIDAY')
+    return new Map(entries.map(entry => [entry.id, splits.get(entry.id) ?? flat(entry)]))
+  }
+
+  static async create(input: OvertimePolicyInput, actor: AuditActor): Promise<{ success: true; policy: OvertimePolicySummary } | { success: false; error: string; status: number }> {
+    if (!input.name.trim()) {
+      return { success: false, error: 'Policy name is required', status: 400 }
+    }
+    for (const [label, threshold, max] of [['Daily', input.dailyThresholdHours, 24], ['Weekly', input.weeklyThresholdHours, 168]] as const) {
+      if (threshold !== null && (threshold <= 0 || threshold > max)) {
+        return { success: false, error: `${label} threshold must be between 0 and ${max} hours`, status: 400 }
+      }
+    }
+    if ([input.overtimeMultiplier, input.weekendMultiplier, input.holidayMultiplier].some(multiplier => multiplier < 1 || multiplier > 10)) {
+      return { success: false, error: 'Multipliers must be between 1 and 10', status: 400 }
+    }
+
+    const effectiveDate = startOfDay(input.effectiveDate)
+    const existing = await prisma.overtimePolicy.findUnique({ where: { effectiveDate } })
+    if (existing) {
+      return { success: false, error: 'A policy already starts on that day', status: 409 }
+    }
+
+    const policy = await prisma.overtimePolicy.create({
+      data: {
+        name: input.name.trim(),
+        effectiveDate,
+        dailyThresholdHours: input.dailyThresholdHours,
+        weeklyThresholdHours: input.weeklyThresholdHours,
+        overtimeMultiplier: input.overtimeMultiplier,
+        weekendMultiplier: input.weekendMultiplier,
+        holidayMultiplier: input.holidayMultiplier,
+        createdBy: actor.id
+      }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'CREATE',
+      entityType: 'OVERTIME_POLICY',
+      entityId: policy.id,
+      after: toSummary(policy)
+    })
+
+    return { success: true, policy: toSummary(policy) }
+  }
+
+  static async delete(policyId: string, actor: AuditActor): Promise<{ success: true } | { success: false; error: string; status: number }> {
+    const policy = await prisma.overtimePolicy.findUnique({ where: { id: policyId } })
+    if (!policy) {
+      return { success: false, error: 'Overtime policy not found', status: 404 }
+    }
+
+    await prisma.overtimePolicy.delete({ where: { id: policyId } })
+
+    await AuditLogger.record({
+      actor,
+      action: 'DELETE',
+      entityType: 'OVERTIME_POLICY',
+      entityId: policyId,
+      before: toSummary(policy)
+    })
+
+    return { success: true }
+  }
+}
@@ -2,6 +2,7 @@
 import { prisma } from "@/lib/prisma";
 import { getServerSession } from "next-auth";
 import { NEXT_AUTH_CONFIG } from "./auth";
+import { AuditLogger } from "@/lib/audit-log";
 
   const getErrorMessage = (error: unknown): string => {
     if (error instanceof Error) return error.message
@@ -192,13 +193,21 @@ export class PermissionManager {
         throw new Error('Permission already exists')
       }
 
-      await prisma.projectPermission.create({
+      const created = await prisma.projectPermission.create({
         data: {
           userId,
           projectId,
           permission
         }
       })
+
+      await AuditLogger.record({
+        actor: { id: grantedBy },
+        action: 'GRANT',
+        entityType: 'PERMISSION',
+        entityId: created.id,
+        after: { userId, projectId, permission }
+      })
     } catch (error) {
       console.error('Error granting permission:', error)
       throw error
@@ -208,13 +217,19 @@ export class PermissionManager {
   public static async revokePermission(
     userId: string,
     projectId: string,
-    permission?: PermissionType
+    permission?: PermissionType,
+    revokedBy?: string
   ): Promise<void> {
     if (!userId || !projectId) {
       throw new Error('Missing required parameters for revoking permission')
     }
 
     try {
+      const revoked = await prisma.projectPermission.findMany({
+        where: permission ? { userId, projectId, permission } : { userId, projectId },
+        select: { id: true, permission: true }
+      })
+
       if (permission) {
         // Revoke specific permission
         await prisma.projectPermission.deleteMany({
@@ -226,6 +241,16 @@ export class PermissionManager {
           where: { userId, projectId }
         })
       }
+
+      for (const { id, permission: revokedPermission } of revoked) {
+        await AuditLogger.record({
+          actor: revokedBy ? { id: revokedBy } : null,
+          action: 'REVOKE',
+          entityType: 'PERMISSION',
+          entityId: id,
+          before: { userId, projectId, permission: revokedPermission }
+        })
+      }
     } catch (error) {
       console.error('Error revoking permission:', error)
       throw error
@@ -0,0 +1,359 @@
+// lib/project-archive.ts
+import { prisma } from '@/lib/prisma'
+import { AuditActor, AuditLogger } from '@/lib/audit-log'
+import { ProjectBudgetManager } from '@/lib/project-budgets'
+import { addDays } from 'date-fns'
+
+export interface ProjectTrashSettings {
+  projectTrashRetentionDays: number // 0 keeps archived projects until purged by hand
+}
+
+export const DEFAULT_PROJECT_TRASH_SETTINGS: ProjectTrashSettings = {
+  projectTrashRetentionDays: 30
+}
+
+export interface ProjectPurgeImpact {
+  projectId: string
+  projectName: string
+  timeEntries: number
+  hours: number
+  users: number
+  approvedEntries: number
+  invoicedEntries: number
+  invoiceLineItems: number
+  totalSpent: number
+  fiscalYears: number
+  permissions: number
+  assignedUsers: number
+  billRates: number
+  rateCards: number
+  budgetAlerts: number
+  tasks: number
+  canPurge: boolean
+  blockedReason: string | null
+}
+
+export interface TrashedProject {
+  id: string
+  name: string
+  code: string | null
+  color: string
+  archivedAt: string
+  archivedBy: string | null
+  purgeAfter: string | null
+  timeEntries: number
+}
+
+export type ProjectArchiveResult =
+  | { success: true; project: { id: string; name: string; archivedAt: Date | null } }
+  | { success: false; error: string; status: number }
+
+export type ProjectPurgeResult =
+  | { success: true; impact: ProjectPurgeImpact }
+  | { success: false; error: string; status: number; impact?: ProjectPurgeImpact }
+
+export class ProjectArchiveManager {
+  static async getSettings(): Promise<ProjectTrashSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { id: 'default' },
+      select: { projectTrashRetentionDays: true }
+    })
+
+    return settings
+      ? { projectTrashRetentionDays: settings.projectTrashRetentionDays }
+      : { ...DEFAULT_PROJECT_TRASH_SETTINGS }
+  }
+
+  static async updateSettings(data: ProjectTrashSettings, adminUserId: string): Promise<ProjectTrashSettings> {
+    if (!Number.isInteger(data.projectTrashRetentionDays) || data.projectTrashRetentionDays < 0 || data.projectTrashRetentionDays > 3650) {
+      throw new Error('Trash retention must be between 0 and 3650 days')
+    }
+
+    await prisma.organizationSettings.upsert({
+      where: { id: 'default' },
+      create: { id: 'default', ...data, updatedBy: adminUserId },
+      update: { ...data, updatedBy: adminUserId }
+    })
+
+    return this.getSettings()
+  }
+
+  /**
+   * New time can only be logged against projects that are not in the trash
+   */
+  static async checkWritable(projectId: string): Promise<{ success: true } | { success: false; error: string; status: number }> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { archivedAt: true }
+    })
+
+    if (!project) {
+      return { success: false, error: 'Project not found', status: 404 }
+    }
+
+    if (project.archivedAt) {
+      return { success: false, error: 'This project is archived. Restore it before logging time against it.', status: 409 }
+    }
+
+    return { success: true }
+  }
+
+  /**
+   * Move a project to the trash. Its entries, budgets and permissions are untouched,
+   * so reports keep showing it, but it no longer appears in project pickers.
+   */
+  static async archive(projectId: string, actor: AuditActor): Promise<ProjectArchiveResult> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, name: true, archivedAt: true }
+    })
+
+    if (!project) {
+      return { success: false, error: 'Project not found', status: 404 }
+    }
+
+    if (project.archivedAt) {
+      return { success: false, error: 'Project is already archived', status: 409 }
+    }
+
+    const runningTimers = await prisma.timeEntry.count({
+      where: { projectId, endTime: null }
+    })
+
+    if (runningTimers > 0) {
+      return {
+        success: false,
+        error: `${runningTimers} timer(s) are still running on this project. Stop them before archiving.`,
+        status: 409
+      }
+    }
+
+    const archived = await prisma.project.update({
+      where: { id: projectId },
+      data: { archivedAt: new Date(), archivedBy: actor.id },
+      select: { id: true, name: true, archivedAt: true }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'ARCHIVE',
+      entityType: 'PROJECT',
+      entityId: projectId,
+      before: { name: project.name, archivedAt: null },
+      after: { name: archived.name, archivedAt: archived.archivedAt }
+    })
+
+    return { success: true, project: archived }
+  }
+
+  static async restore(projectId: string, actor: AuditActor): Promise<ProjectArchiveResult> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, name: true, archivedAt: true }
+    })
+
+    if (!project) {
+      return { success: false, error: 'Project not found', status: 404 }
+    }
+
+    if (!project.archivedAt) {
+      return { success: false, error: 'Project is not archived', status: 409 }
+    }
+
+    const restored = await prisma.project.update({
+      where: { id: projectId },
+      data: { archivedAt: null, archivedBy: null },
+      select: { id: true, name: true, archivedAt: true }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'RESTORE',
+      entityType: 'PROJECT',
+      entityId: projectId,
+      before: { name: project.name, archivedAt: project.archivedAt },
+      after: { name: restored.name, archivedAt: null }
+    })
+
+    return { success: true, project: restored }
+  }
+
+  /**
+   * Everything a purge would delete. Invoiced projects cannot be purged because
+   * invoices are financial records that reference them.
+   */
+  static async getImpact(projectId: string): Promise<ProjectPurgeImpact | null> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        id: true,
+        name: true,
+        _count: {
+          select: {
+            timeEntries: true,
+            projectPermissions: true,
+            projectUsers: true,
+            billRates: true,
+            rateCards: true,
+            invoiceLineItems: true,
+            budgets: true,
+            budgetAlerts: true,
+            tasks: true
+          }
+        }
+      }
+    })
+
+    if (!project) return null
+
+    const [hours, users, approvedEntries, invoicedEntries, history] = await Promise.all([
+      prisma.timeEntry.aggregate({ where: { projectId }, _sum: { hours: true } }),
+      prisma.timeEntry.groupBy({ by: ['userId'], where: { projectId } }),
+      prisma.timeEntry.count({ where: { projectId, status: 'APPROVED' } }),
+      prisma.timeEntry.count({ where: { projectId, invoiceId: { not: null } } }),
+      ProjectBudgetManager.getHistory(projectId)
+    ])
+
+    let totalSpent = history.reduce((sum, year) => sum + year.totalSpent, 0)
+    if (history.length === 0) {
+      // Legacy projects keep their spend on the Project columns only
+      const legacy = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { q1Spent: true, q2Spent: true, q3Spent: true, q4Spent: true }
+      })
+      totalSpent = legacy
+        ? Number(legacy.q1Spent) + Number(legacy.q2Spent) + Number(legacy.q3Spent) + Number(legacy.q4Spent)
+        : 0
+    }
+
+    const invoiced = invoicedEntries > 0 || project._count.invoiceLineItems > 0
+
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      timeEntries: project._count.timeEntries,
+      hours: Number(hours._sum.hours ?? 0),
+      users: users.length,
+      approvedEntries,
+      invoicedEntries,
+      invoiceLineItems: project._count.invoiceLineItems,
+      totalSpent: Math.round(totalSpent * 100) / 100,
+      fiscalYears: project._count.budgets,
+      permissions: project._count.projectPermissions,
+      assignedUsers: project._count.projectUsers,
+      billRates: project._count.billRates,
+      rateCards: project._count.rateCards,
+      budgetAlerts: project._count.budgetAlerts,
+      tasks: project._count.tasks,
+      canPurge: !invoiced,
+      blockedReason: invoiced ? 'The project has been invoiced and must be kept with its invoices' : null
+    }
+  }
+
+  /**
+   * Permanently delete an archived project with its entries, budgets and permissions.
+   * The impact summary is written to the audit log so there is a record of what was lost.
+   */
+  static async purge(projectId: string, actor: AuditActor | null, reason: 'MANUAL' | 'RETENTION' = 'MANUAL'): Promise<ProjectPurgeResult> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, name: true, code: true, archivedAt: true }
+    })
+
+    if (!project) {
+      return { success: false, error: 'Project not found', status: 404 }
+    }
+
+    if (!project.archivedAt) {
+      return { success: false, error: 'Only archived projects can be purged. Archive it first.', status: 409 }
+    }
+
+    const impact = (await this.getImpact(projectId))!
+    if (!impact.canPurge) {
+      return { success: false, error: impact.blockedReason!, status: 409, impact }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Permissions do not cascade, everything else owned by the project does
+      await tx.projectPermission.deleteMany({ where: { projectId } })
+      await tx.project.delete({ where: { id: projectId } })
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'PURGE',
+      entityType: 'PROJECT',
+      entityId: projectId,
+      before: { name: project.name, code: project.code, archivedAt: project.archivedAt },
+      metadata: { reason, impact }
+    })
+
+    console.log(`Purged project ${project.name} (${projectId}): ${impact.timeEntries} entries, ${impact.hours}h`)
+
+    return { success: true, impact }
+  }
+
+  static async listTrash(): Promise<TrashedProject[]> {
+    const { projectTrashRetentionDays } = await this.getSettings()
+    const projects = await prisma.project.findMany({
+      where: { archivedAt: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        code: true,
+        color: true,
+        archivedAt: true,
+        archivedBy: true,
+        _count: { select: { timeEntries: true } }
+      },
+      orderBy: { archivedAt: 'desc' }
+    })
+
+    const archiverIds = Array.from(new Set(projects.map(project => project.archivedBy).filter((id): id is string => !!id)))
+    const archivers = await prisma.user.findMany({
+      where: { id: { in: archiverIds } },
+      select: { id: true, name: true, email: true }
+    })
+    const archiverNames = new Map(archivers.map(user => [user.id, user.name || user.email]))
+
+    return projects.map(project => ({
+      id: project.id,
+      name: project.name,
+      code: project.code,
+      color: project.color,
+      archivedAt: project.archivedAt!.toISOString(),
+      archivedBy: project.archivedBy ? archiverNames.get(project.archivedBy) ?? null : null,
+      purgeAfter: projectTrashRetentionDays > 0
+        ? addDays(project.archivedAt!, projectTrashRetentionDays).toISOString()
+        : null,
+      timeEntries: project._count.timeEntries
+    }))
+  }
+
+  /**
+   * Purge archived projects that have been in the trash longer than the retention window.
+   * Projects that cannot be purged (invoiced) are left in the trash and reported.
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<{ purged: ProjectPurgeImpact[]; kept: ProjectPurgeImpact[] }> {
+    const { projectTrashRetentionDays } = await this.getSettings()
+    const result = { purged: [] as ProjectPurgeImpact[], kept: [] as ProjectPurgeImpact[] }
+
+    if (projectTrashRetentionDays === 0) return result
+
+    const expired = await prisma.project.findMany({
+      where: { archivedAt: { lte: addDays(now, -projectTrashRetentionDays) } },
+      select: { id: true }
+    })
+
+    for (const project of expired) {
+      const purge = await this.purge(project.id, null, 'RETENTION')
+      if (purge.success) {
+        result.purged.push(purge.impact)
+      } else if (purge.impact) {
+        result.kept.push(purge.impact)
+      }
+    }
+
+    return result
+  }
+}
@@ -0,0 +1,369 @@
+// lib/project-budgets.ts
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/app/generated/prisma'
+import { FiscalSettingsManager } from '@/lib/fiscal-settings'
+import {
+  QUARTER_KEYS,
+  FiscalQuarter,
+  getFiscalYear,
+  getQuarterMonthKeys
+} from '@/lib/fiscal-calendar'
+
+export interface MonthlyAllocation {
+  year: number
+  month: number // 1-12
+  amount: number
+}
+
+export interface QuarterlySpend {
+  q1Spent: number
+  q2Spent: number
+  q3Spent: number
+  q4Spent: number
+}
+
+export interface ProjectBudgetFigures extends QuarterlySpend {
+  fiscalYear: number
+  totalBudget: number
+  q1Budget: number
+  q2Budget: number
+  q3Budget: number
+  q4Budget: number
+  totalSpent: number
+  monthlyAllocations: MonthlyAllocation[]
+}
+
+export interface SaveProjectBudgetInput {
+  totalBudget: Prisma.Decimal
+  q1Budget: Prisma.Decimal
+  q2Budget: Prisma.Decimal
+  q3Budget: Prisma.Decimal
+  q4Budget: Prisma.Decimal
+  // Omit to keep the existing allocations, pass [] to clear them
+  monthlyAllocations?: MonthlyAllocation[]
+}
+
+const budgetWithMonths = {
+  months: { orderBy: [{ year: 'asc' as const }, { month: 'asc' as const }] }
+}
+
+type BudgetRow = Prisma.ProjectBudgetGetPayload<{ include: typeof budgetWithMonths }>
+
+type LegacyBudgetColumns = {
+  totalBudget: Prisma.Decimal
+  q1Budget: Prisma.Decimal
+  q2Budget: Prisma.Decimal
+  q3Budget: Prisma.Decimal
+  q4Budget: Prisma.Decimal
+  q1Spent: Prisma.Decimal
+  q2Spent: Prisma.Decimal
+  q3Spent: Prisma.Decimal
+  q4Spent: Prisma.Decimal
+}
+
+const legacyBudgetSelect = {
+  totalBudget: true,
+  q1Budget: true,
+  q2Budget: true,
+  q3Budget: true,
+  q4Budget: true,
+  q1Spent: true,
+  q2Spent: true,
+  q3Spent: true,
+  q4Spent: true
+} as const
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function toFigures(fiscalYear: number, columns: LegacyBudgetColumns, months: BudgetRow['months'] = []): ProjectBudgetFigures {
+  const spent = {
+    q1Spent: Number(columns.q1Spent),
+    q2Spent: Number(columns.q2Spent),
+    q3Spent: Number(columns.q3Spent),
+    q4Spent: Number(columns.q4Spent)
+  }
+
+  return {
+    fiscalYear,
+    totalBudget: Number(columns.totalBudget),
+    q1Budget: Number(columns.q1Budget),
+    q2Budget: Number(columns.q2Budget),
+    q3Budget: Number(columns.q3Budget),
+    q4Budget: Number(columns.q4Budget),
+    ...spent,
+    totalSpent: spent.q1Spent + spent.q2Spent + spent.q3Spent + spent.q4Spent,
+    monthlyAllocations: months.map(m => ({ year: m.year, month: m.month, amount: Number(m.amount) }))
+  }
+}
+
+function emptyFigures(fiscalYear: number): ProjectBudgetFigures {
+  return {
+    fiscalYear,
+    totalBudget: 0,
+    q1Budget: 0,
+    q2Budget: 0,
+    q3Budget: 0,
+    q4Budget: 0,
+    q1Spent: 0,
+    q2Spent: 0,
+    q3Spent: 0,
+    q4Spent: 0,
+    totalSpent: 0,
+    monthlyAllocations: []
+  }
+}
+
+export class ProjectBudgetManager {
+  /**
+   * Budget and spend for one fiscal year. Projects budgeted before per-year budgets
+   * existed have no rows yet, so their Project columns stand in for the current year.
+   */
+  static async getBudget(projectId: string, fiscalYear: number): Promise<ProjectBudgetFigures> {
+    const row = await prisma.projectBudget.findUnique({
+      where: { projectId_fiscalYear: { projectId, fiscalYear } },
+      include: budgetWithMonths
+    })
+
+    if (row) return toFigures(fiscalYear, row, row.months)
+
+    const startMonth = await FiscalSettingsManager.getStartMonth()
+    if (fiscalYear === getFiscalYear(new Date(), startMonth)) {
+      const hasRows = await prisma.projectBudget.count({ where: { projectId } })
+      if (hasRows === 0) {
+        const project = await prisma.project.findUnique({ where: { id: projectId }, select: legacyBudgetSelect })
+        if (project) return toFigures(fiscalYear, project)
+      }
+    }
+
+    return emptyFigures(fiscalYear)
+  }
+
+  /**
+   * Every fiscal year budgeted or spent against for a project, oldest first
+   */
+  static async getHistory(projectId: string): Promise<ProjectBudgetFigures[]> {
+    const rows = await prisma.projectBudget.findMany({
+      where: { projectId },
+      include: budgetWithMonths,
+      orderBy: { fiscalYear: 'asc' }
+    })
+
+    return rows.map(row => toFigures(row.fiscalYear, row, row.months))
+  }
+
+  /**
+   * Create or replace the budget for a fiscal year. Saving the current year also
+   * updates the Project columns that the rest of the app reads.
+   */
+  static async saveBudget(
+    projectId: string,
+    fiscalYear: number,
+    input: SaveProjectBudgetInput
+  ): Promise<ProjectBudgetFigures> {
+    const startMonth = await FiscalSettingsManager.getStartMonth()
+
+    if (input.monthlyAllocations) {
+      this.validateMonthlyAllocations(fiscalYear, startMonth, input)
+    }
+
+    const budgetData = {
+      totalBudget: input.totalBudget,
+      q1Budget: input.q1Budget,
+      q2Budget: input.q2Budget,
+      q3Budget: input.q3Budget,
+      q4Budget: input.q4Budget
+    }
+    const currentYear = getFiscalYear(new Date(), startMonth)
+
+    await prisma.$transaction(async (tx) => {
+      // Move a legacy budget onto the current year first so saving another year doesn't drop it
+      const hasRows = await tx.projectBudget.count({ where: { projectId } })
+      if (hasRows === 0) {
+        const project = await tx.project.findUnique({ where: { id: projectId }, select: legacyBudgetSelect })
+        if (project) {
+          await tx.projectBudget.create({ data: { projectId, fiscalYear: currentYear, ...project } })
+        }
+      }
+
+      const budget = await tx.projectBudget.upsert({
+        where: { projectId_fiscalYear: { projectId, fiscalYear } },
+        create: { projectId, fiscalYear, ...budgetData },
+        update: budgetData
+      })
+
+      if (input.monthlyAllocations) {
+        await tx.projectBudgetMonth.deleteMany({ where: { projectBudgetId: budget.id } })
+        const allocations = input.monthlyAllocations.filter(a => a.amount > 0)
+        if (allocations.length > 0) {
+          await tx.projectBudgetMonth.createMany({
+            data: allocations.map(a => ({
+              projectBudgetId: budget.id,
+              year: a.year,
+              month: a.month,
+              amount: new Prisma.Decimal(a.amount.toFixed(2))
+            }))
+          })
+        }
+      }
+
+      if (fiscalYear === currentYear) {
+        await tx.project.update({ where: { id: projectId }, data: budgetData })
+      }
+    })
+
+    return this.getBudget(projectId, fiscalYear)
+  }
+
+  /**
+   * Store recalculated spend for one fiscal year
+   */
+  static async writeYearSpent(projectId: string, fiscalYear: number, spent: QuarterlySpend): Promise<void> {
+    await this.writeSpent(projectId, new Map([[fiscalYear, spent]]), { replaceOtherYears: false })
+  }
+
+  /**
+   * Store recalculated spend per fiscal year. By default years missing from spentByYear are
+   * zeroed, since the caller recalculated from every entry. The current year is mirrored
+   * to the Project columns.
+   */
+  static async writeSpent(
+    projectId: string,
+    spentByYear: Map<number, QuarterlySpend>,
+    options: { replaceOtherYears?: boolean; startMonth?: number } = {}
+  ): Promise<void> {
+    const { replaceOtherYears = true } = options
+    const startMonth = options.startMonth ?? await FiscalSettingsManager.getStartMonth()
+    const currentYear = getFiscalYear(new Date(), startMonth)
+
+    await prisma.$transaction(async (tx) => {
+      const existing = await tx.projectBudget.findMany({
+        where: { projectId },
+        select: { id: true, fiscalYear: true }
+      })
+
+      // A project's first rows carry its legacy budget over to the current year
+      const years = new Map(spentByYear)
+      let legacyBudget = {}
+      if (existing.length === 0) {
+        const project = await tx.project.findUnique({
+          where: { id: projectId },
+          select: { totalBudget: true, q1Budget: true, q2Budget: true, q3Budget: true, q4Budget: true }
+        })
+        legacyBudget = project ?? {}
+        if (!years.has(currentYear)) {
+          years.set(currentYear, { q1Spent: 0, q2Spent: 0, q3Spent: 0, q4Spent: 0 })
+        }
+      }
+
+      for (const [fiscalYear, spent] of years) {
+        const spentData = {
+          q1Spent: roundCurrency(spent.q1Spent),
+          q2Spent: roundCurrency(spent.q2Spent),
+          q3Spent: roundCurrency(spent.q3Spent),
+          q4Spent: roundCurrency(spent.q4Spent)
+        }
+
+        await tx.projectBudget.upsert({
+          where: { projectId_fiscalYear: { projectId, fiscalYear } },
+          create: {
+            projectId,
+            fiscalYear,
+            ...(fiscalYear === currentYear ? legacyBudget : {}),
+            ...spentData
+          },
+          update: spentData
+        })
+      }
+
+      if (replaceOtherYears) {
+        const staleIds = existing.filter(row => !years.has(row.fiscalYear)).map(row => row.id)
+        if (staleIds.length > 0) {
+          await tx.projectBudget.updateMany({
+            where: { id: { in: staleIds } },
+            data: { q1Spent: 0, q2Spent: 0, q3Spent: 0, q4Spent: 0 }
+          })
+        }
+      }
+
+      const current = await tx.projectBudget.findUnique({
+        where: { projectId_fiscalYear: { projectId, fiscalYear: currentYear } }
+      })
+
+      // Keep the Project columns in step with the current fiscal year, including at year rollover
+      if (current) {
+        await tx.project.update({
+          where: { id: projectId },
+          data: {
+            totalBudget: current.totalBudget,
+            q1Budget: current.q1Budget,
+            q2Budget: current.q2Budget,
+            q3Budget: current.q3Budget,
+            q4Budget: current.q4Budget,
+            q1Spent: current.q1Spent,
+            q2Spent: current.q2Spent,
+            q3Spent: current.q3Spent,
+            q4Spent: current.q4Spent
+          }
+        })
+      } else {
+        await tx.project.update({
+          where: { id: projectId },
+          data: {
+            totalBudget: 0,
+            q1Budget: 0,
+            q2Budget: 0,
+            q3Budget: 0,
+            q4Budget: 0,
+            q1Spent: 0,
+            q2Spent: 0,
+            q3Spent: 0,
+            q4Spent: 0
+          }
+        })
+      }
+    })
+  }
+
+  /**
+   * Monthly allocations must fall inside the fiscal year and stay within their quarter's budget
+   */
+  private static validateMonthlyAllocations(
+    fiscalYear: number,
+    startMonth: number,
+    input: SaveProjectBudgetInput
+  ) {
+    const seen = new Set<string>()
+
+    for (const allocation of input.monthlyAllocations ?? []) {
+      if (!Number.isFinite(allocation.amount) || allocation.amount < 0) {
+        throw new Error('Monthly allocations must be zero or positive')
+      }
+
+      const key = `${allocation.year}-${allocation.month.toString().padStart(2, '0')}`
+      if (seen.has(key)) {
+        throw new Error(`Monthly allocation for ${key} is listed more than once`)
+      }
+      seen.add(key)
+    }
+
+    QUARTER_KEYS.forEach((quarterKey, index) => {
+      const monthKeys = getQuarterMonthKeys(fiscalYear, (index + 1) as FiscalQuarter, startMonth)
+      const allocated = (input.monthlyAllocations ?? [])
+        .filter(a => monthKeys.includes(`${a.year}-${a.month.toString().padStart(2, '0')}`))
+        .reduce((sum, a) => sum + a.amount, 0)
+
+      const quarterBudget = Number(input[`${quarterKey}Budget`])
+      if (allocated > quarterBudget + 0.01) {
+        throw new Error(`Monthly allocations for ${quarterKey.toUpperCase()} exceed its budget`)
+      }
+
+      monthKeys.forEach(k => seen.delete(k))
+    })
+
+    if (seen.size > 0) {
+      throw new Error(`Monthly allocations must fall within fiscal year ${fiscalYear}`)
+    }
+  }
+}
@@ -0,0 +1,228 @@
+// lib/quick-entry.test.ts
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseQuickEntry, QuickEntryProject } from '@/lib/quick-entry'
+
+// Monday 19 October 2026, 15:30
+const NOW = new Date(2026, 9, 19, 15, 30)
+
+const PROJECTS: QuickEntryProject[] = [
+  { id: 'mobile', name: 'Mobile App', code: 'MOB' },
+  { id: 'web', name: 'Website', code: 'WEB' },
+  { id: 'portal', name: 'Client Portal', code: 'ABC-123' },
+  { id: 'ops', name: 'Ops' }
+]
+
+function parse(input: string, projects: QuickEntryProject[] = PROJECTS) {
+  return parseQuickEntry(input, projects, NOW)
+}
+
+function at(day: number, hours: number, minutes = 0): Date {
+  return new Date(2026, 9, day, hours, minutes)
+}
+
+describe('parseQuickEntry', () => {
+  describe('examples', () => {
+    it('reads a duration, a project name and a relative date', () => {
+      const entry = parse('2h15 mobile app bug triage yesterday')
+
+      assert.deepEqual(entry.errors, [])
+      assert.equal(entry.project?.id, 'mobile')
+      assert.deepEqual(entry.date, new Date(2026, 9, 18))
+      assert.deepEqual(entry.startTime, at(18, 9))
+      assert.deepEqual(entry.endTime, at(18, 11, 15))
+      assert.equal(entry.durationMinutes, 135)
+      assert.equal(entry.description, 'bug triage')
+    })
+
+    it('reads a time range and a bare project code', () => {
+      const entry = parse('9-11:30 WEB standup + review')
+
+      assert.deepEqual(entry.errors, [])
+      assert.equal(entry.project?.id, 'web')
+      assert.deepEqual(entry.startTime, at(19, 9))
+      assert.deepEqual(entry.endTime, at(19, 11, 30))
+      assert.equal(entry.durationMinutes, 150)
+      assert.equal(entry.description, 'standup + review')
+    })
+
+    it('resolves a #code containing a dash and ends today\'s duration now', () => {
+      const entry = parse('1.5h #ABC-123 code review')
+
+      assert.deepEqual(entry.errors, [])
+      assert.equal(entry.project?.id, 'portal')
+      assert.deepEqual(entry.startTime, at(19, 14))
+      assert.deepEqual(entry.endTime, at(19, 15, 30))
+      assert.equal(entry.durationMinutes, 90)
+      assert.equal(entry.description, 'code review')
+    })
+  })
+
+  describe('time ranges', () => {
+    it('reads hours from 1 to 6 without am/pm as afternoon', () => {
+      const entry = parse('2-4 #WEB planning')
+
+      assert.deepEqual(entry.startTime, at(19, 14))
+      assert.deepEqual(entry.endTime, at(19, 16))
+    })
+
+    it('moves an end before the start into the afternoon', () => {
+      const entry = parse('11-1 #WEB workshop')
+
+      assert.deepEqual(entry.errors, [])
+      assert.deepEqual(entry.startTime, at(19, 11))
+      assert.deepEqual(entry.endTime, at(19, 13))
+      assert.equal(entry.durationMinutes, 120)
+    })
+
+    it('honours am and pm', () => {
+      const entry = parse('9:15am - 1pm #WEB')
+
+      assert.deepEqual(entry.startTime, at(19, 9, 15))
+      assert.deepEqual(entry.endTime, at(19, 13))
+    })
+
+    it('rejects times that do not exist', () => {
+      assert.deepEqual(parse('9-25 #WEB').errors, ['9-25 is not a valid time range'])
+      assert.deepEqual(parse('9:75-10 #WEB').errors, ['9:75-10 is not a valid time range'])
+      assert.deepEqual(parse('13pm-2pm #WEB').errors, ['13pm-2pm is not a valid time range'])
+    })
+
+    it('rejects a range that ends before it starts', () => {
+      assert.deepEqual(parse('3pm-1pm #WEB').errors, ['The end time must be after the start time'])
+    })
+
+    it('rejects a duration that disagrees with the range', () => {
+      const entry = parse('9-11 2h30 #WEB')
+
+      assert.deepEqual(entry.errors, ['The duration does not match the time range'])
+    })
+
+    it('accepts a duration that agrees with the range', () => {
+      const entry = parse('9-11 2h #WEB')
+
+      assert.deepEqual(entry.errors, [])
+      assert.equal(entry.durationMinutes, 120)
+    })
+  })
+
+  describe('durations', () => {
+    it('reads a comma as a decimal separator', () => {
+      const entry = parse('1,5h #WEB yesterday')
+
+      assert.deepEqual(entry.errors, [])
+      assert.equal(entry.durationMinutes, 90)
+    })
+
+    it('reads hours with minutes and minutes alone', () => {
+      assert.equal(parse('2h 15m #WEB yesterday').durationMinutes, 135)
+      assert.equal(parse('3 hours #WEB yesterday').durationMinutes, 180)
+      assert.equal(parse('45m #WEB yesterday').durationMinutes, 45)
+      assert.equal(parse('90 min #WEB yesterday').durationMinutes, 90)
+    })
+
+    it('rejects zero, more than a day and more time than has passed today', () => {
+      assert.deepEqual(parse('0h #WEB yesterday').errors, ['The duration must be more than zero'])
+      assert.deepEqual(parse('25h #WEB yesterday').errors, ['The duration cannot be more than 24 hours'])
+      assert.deepEqual(parse('16h #WEB').errors, ['That is more time than has passed today'])
+    })
+
+    it('asks for a duration or range when there is neither', () => {
+      assert.deepEqual(parse('#WEB standup').errors, ['Add a duration like 1h30 or a time range like 9-11:30'])
+    })
+  })
+
+  describe('dates', () => {
+    it('reads ISO dates and days ago', () => {
+      assert.deepEqual(parse('1h #WEB 2026-10-14').date, new Date(2026, 9, 14))
+      assert.deepEqual(parse('1h #WEB 3 days ago').date, new Date(2026, 9, 16))
+    })
+
+    it('does not read an ISO date as a time range', () => {
+      const entry = parse('1h #WEB 2026-10-14')
+
+      assert.deepEqual(entry.errors, [])
+      assert.equal(entry.durationMinutes, 60)
+    })
+
+    it('rejects a date that does not exist', () => {
+      assert.ok(parse('1h #WEB 2026-02-30').errors.includes('2026-02-30 is not a valid date'))
+    })
+
+    it('reads full weekday names on their own', () => {
+      assert.deepEqual(parse('1h #WEB friday').date, new Date(2026, 9, 16))
+      assert.deepEqual(parse('1h #WEB monday').date, new Date(2026, 9, 19))
+      assert.deepEqual(parse('1h #WEB last monday').date, new Date(2026, 9, 12))
+    })
+
+    it('needs "on" or "last" before a short weekday name', () => {
+      const bare = parse('1h #WEB sat with the client')
+      assert.deepEqual(bare.date, new Date(2026, 9, 19))
+      assert.equal(bare.description, 'sat with the client')
+
+      assert.deepEqual(parse('1h #WEB on sat').date, new Date(2026, 9, 17))
+      assert.deepEqual(parse('1h #WEB last wed').date, new Date(2026, 9, 14))
+    })
+
+    it('rejects more than one date', () => {
+      assert.ok(parse('1h #WEB yesterday 2026-10-14').errors.includes('More than one date given'))
+    })
+
+    it('accepts the same date given twice', () => {
+      assert.deepEqual(parse('1h #WEB yesterday 2026-10-18').errors, [])
+    })
+
+    it('warns about future dates', () => {
+      assert.deepEqual(parse('1h #WEB tomorrow').warnings, ['The date is in the future'])
+    })
+  })
+
+  describe('projects', () => {
+    it('matches a #code case-insensitively and a bare code only in its own case', () => {
+      assert.equal(parse('1h #web yesterday').project?.id, 'web')
+      assert.equal(parse('1h WEB yesterday').project?.id, 'web')
+
+      const lower = parse('1h web design yesterday')
+      assert.equal(lower.project, null)
+      assert.ok(lower.errors.includes('Add a project name or code, e.g. #WEB'))
+    })
+
+    it('matches a #reference against a project name without spaces', () => {
+      assert.equal(parse('1h #mobileapp yesterday').project?.id, 'mobile')
+    })
+
+    it('matches a project name anywhere as whole words', () => {
+      const entry = parse('1h release notes for client portal yesterday')
+
+      assert.equal(entry.project?.id, 'portal')
+      assert.equal(entry.description, 'release notes for')
+    })
+
+    it('prefers a #code over a name elsewhere in the text', () => {
+      assert.equal(parse('1h #MOB website copy yesterday').project?.id, 'mobile')
+    })
+
+    it('prefers the longest matching name', () => {
+      const projects = [...PROJECTS, { id: 'mobile-ops', name: 'Mobile App Ops' }]
+
+      assert.equal(parse('1h mobile app ops on-call yesterday', projects).project?.id, 'mobile-ops')
+    })
+
+    it('reports names that match several projects', () => {
+      const projects = [...PROJECTS, { id: 'ops-2', name: 'OPS' }]
+      const entry = parse('1h ops yesterday', projects)
+
+      assert.equal(entry.project, null)
+      assert.deepEqual(entry.errors, ['"ops" matches several projects: Ops, OPS'])
+    })
+
+    it('keeps an unknown #code in the description with a warning', () => {
+      const entry = parse('1h #NOPE yesterday')
+
+      assert.equal(entry.project, null)
+      assert.deepEqual(entry.warnings, ['No project with the code NOPE; it is kept in the description'])
+      assert.ok(entry.errors.includes('Add a project name or code, e.g. #WEB'))
+      assert.equal(entry.description, '#NOPE')
+    })
+  })
+})
@@ -0,0 +1,281 @@
+// lib/quick-entry.ts
+// Parser for one-line time entries such as "2h15 mobile app bug triage yesterday" or "9-11:30 WEB standup".
+// Pure, so the quick entry box can preview while the user types; the entry itself is saved through the
+// regular time entry API and goes through the same checks as any other.
+
+import { addDays, startOfDay, subDays } from 'date-fns'
+
+export interface QuickEntryProject {
+  id: string
+  name: string
+  code?: string | null
+}
+
+export interface ParsedQuickEntry {
+  project: QuickEntryProject | null
+  date: Date
+  startTime: Date | null
+  endTime: Date | null
+  durationMinutes: number | null
+  description: string
+  errors: string[]
+  warnings: string[]
+}
+
+// Entries given only as a duration on a past day start here
+export const QUICK_ENTRY_DAY_START_HOUR = 9
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0,
+  monday: 1, mon: 1,
+  tuesday: 2, tue: 2, tues: 2,
+  wednesday: 3, wed: 3,
+  thursday: 4, thu: 4, thurs: 4,
+  friday: 5, fri: 5,
+  saturday: 6, sat: 6
+}
+
+const FULL_WEEKDAYS = 'sunday|monday|tuesday|wednesday|thursday|friday|saturday'
+const SHORT_WEEKDAYS = 'sun|mon|tues?|wed|thu(?:rs)?|fri|sat'
+
+// "9-11:30", "9:15am - 1pm", "14:00–15:30"
+const TIME_RANGE = /(?<![\w:#.-])(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*[-–]\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?(?![\w:])/i
+// "2h15", "2h 15m", "1.5h", "3 hours"
+const HOURS = /(?<![\w:#.,-])(\d+(?:[.,]\d+)?)\s*h(?:ours?|rs?)?(?:\s*(\d{1,2})\s*m(?:in(?:ute)?s?)?|(\d{1,2}))?(?![\w.])/i
+// "45m", "90 min"
+const MINUTES = /(?<![\w:#.,-])(\d+)\s*m(?:in(?:ute)?s?)?(?![\w.])/i
+const ISO_DATE = /(?<![\w-])(\d{4})-(\d{2})-(\d{2})(?![\w-])/
+const RELATIVE_DAY = /\b(today|yesterday|tomorrow)\b/i
+const DAYS_AGO = /\b(\d{1,3})\s+days?\s+ago\b/i
+// Short weekday names are common words ("sat with the client"), so they need "on" or "last" in front
+const WEEKDAY = new RegExp(`\\b(?:(last|on)\\s+)?(${FULL_WEEKDAYS})\\b|\\b(last|on)\\s+(${SHORT_WEEKDAYS})\\b`, 'i')
+const PROJECT_REFERENCE = /(?<![\w#@])[#@]([\w.-]*\w)/
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Minutes after midnight for a clock time; null when the time does not exist
+ */
+function clockMinutes(hours: number, minutes: number, meridiem: string | undefined): number | null {
+  if (minutes > 59) return null
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null
+    const base = hours % 12
+    return (meridiem.toLowerCase() === 'pm' ? base + 12 : base) * 60 + minutes
+  }
+
+  if (hours > 24 || (hours === 24 && minutes > 0)) return null
+  return hours * 60 + minutes
+}
+
+/**
+ * Start and end of a range in minutes after midnight. Without am/pm, "1" to "6" are read as afternoon
+ * hours and an end before the start is moved to the afternoon, so "2-4" is 14:00-16:00 and "11-1" ends at 13:00.
+ */
+function parseTimeRange(match: RegExpMatchArray): { start: number; end: number } | null {
+  const [, startHours, startMinutes, startMeridiem, endHours, endMinutes, endMeridiem] = match
+
+  let start = clockMinutes(Number(startHours), Number(startMinutes ?? 0), startMeridiem)
+  let end = clockMinutes(Number(endHours), Number(endMinutes ?? 0), endMeridiem)
+  if (start === null || end === null) return null
+
+  if (!startMeridiem && start >= 60 && start < 7 * 60) start += 12 * 60
+  if (!endMeridiem && end <= start && end < 12 * 60) end += 12 * 60
+
+  return { start, end }
+}
+
+/**
+ * Duration in minutes from a HOURS or MINUTES match
+ */
+function durationFrom(match: RegExpMatchArray, unit: 'hours' | 'minutes'): number {
+  if (unit === 'minutes') return Number(match[1])
+
+  const hours = Number(match[1].replace(',', '.'))
+  const minutes = Number(match[2] ?? match[3] ?? 0)
+  return Math.round(hours * 60) + minutes
+}
+
+/**
+ * The most recent given weekday on or before today; with "last", strictly before today
+ */
+function pastWeekday(weekday: number, today: Date, strictlyBefore: boolean): Date {
+  let back = (today.getDay() - weekday + 7) % 7
+  if (back === 0 && strictlyBefore) back = 7
+  return subDays(today, back)
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  const date = startOfDay(day)
+  date.setHours(0, minutes, 0, 0)
+  return date
+}
+
+/**
+ * Find the project named by the text: a #code or @code reference, otherwise the longest project
+ * name or code that appears as whole words. Codes are matched case-sensitively when written bare,
+ * so that "web" in a description does not pick the WEB project.
+ */
+function findProject(
+  text: string,
+  projects: QuickEntryProject[]
+): { project: QuickEntryProject; index: number; length: number } | { error: string } | { reference: string } | null {
+  const reference = text.match(PROJECT_REFERENCE)
+  if (reference) {
+    const key = reference[1].toLowerCase()
+    const project = projects.find(candidate => candidate.code?.toLowerCase() === key)
+      ?? projects.find(candidate => candidate.name.toLowerCase().replace(/\s+/g, '') === key.replace(/[-_.]/g, ''))
+
+    if (project) return { project, index: reference.index!, length: reference[0].length }
+  }
+
+  let best: { project: QuickEntryProject; index: number; length: number }[] = []
+  for (const project of projects) {
+    const patterns = [new RegExp(`(?<![\\w#@])${escapeRegExp(project.name.trim()).replace(/\s+/g, '\\s+')}(?!\\w)`, 'i')]
+    if (project.code) patterns.push(new RegExp(`(?<![\\w#@-])${escapeRegExp(project.code)}(?![\\w-])`))
+
+    for (const pattern of patterns) {
+      const match = text.match(pattern)
+      if (!match) continue
+
+      const found = { project, index: match.index!, length: match[0].length }
+      if (best.length === 0 || found.length > best[0].length) {
+        best = [found]
+      } else if (found.length === best[0].length && !best.some(item => item.project.id === project.id)) {
+        best.push(found)
+      }
+    }
+  }
+
+  if (best.length > 1) {
+    return { error: `"${text.slice(best[0].index, best[0].index + best[0].length).trim()}" matches several projects: ${best.map(item => item.project.name).join(', ')}` }
+  }
+  if (best.length === 1) return best[0]
+
+  return reference ? { reference: reference[1] } : null
+}
+
+/**
+ * Parse a one-line entry. A duration without a time range ends now when the date is today,
+ * and starts at 09:00 on other days.
+ */
+export function parseQuickEntry(input: string, projects: QuickEntryProject[], now: Date = new Date()): ParsedQuickEntry {
+  const today = startOfDay(now)
+  const errors: string[] = []
+  const warnings: string[] = []
+  let text = ` ${input.replace(/\s+/g, ' ').trim()} `
+
+  // Take the first match of a pattern out of the remaining text
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = text.match(pattern)
+    if (match) {
+      text = `${text.slice(0, match.index)} ${text.slice(match.index! + match[0].length)}`
+    }
+    return match
+  }
+
+  // Dates first, so that "2026-10-17" is not read as a range
+  const dates: Date[] = []
+  for (let match = take(ISO_DATE); match; match = take(ISO_DATE)) {
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    if (date.getMonth() !== Number(match[2]) - 1) {
+      errors.push(`${match[0]} is not a valid date`)
+    } else {
+      dates.push(date)
+    }
+  }
+  for (let match = take(RELATIVE_DAY); match; match = take(RELATIVE_DAY)) {
+    const word = match[1].toLowerCase()
+    dates.push(word === 'today' ? today : word === 'yesterday' ? subDays(today, 1) : addDays(today, 1))
+  }
+  for (let match = take(DAYS_AGO); match; match = take(DAYS_AGO)) {
+    dates.push(subDays(today, Number(match[1])))
+  }
+  for (let match = take(WEEKDAY); match; match = take(WEEKDAY)) {
+    const prefix = (match[1] ?? match[3])?.toLowerCase()
+    const weekday = WEEKDAYS[(match[2] ?? match[4]).toLowerCase()]
+    dates.push(pastWeekday(weekday, today, prefix === 'last'))
+  }
+
+  if (new Set(dates.map(date => date.getTime())).size > 1) {
+    errors.push('More than one date given')
+  }
+  const date = dates[0] ?? today
+
+  let startTime: Date | null = null
+  let endTime: Date | null = null
+  let durationMinutes: number | null = null
+
+  const range = take(TIME_RANGE)
+  if (range) {
+    const minutes = parseTimeRange(range)
+    if (!minutes) {
+      errors.push(`${range[0].trim()} is not a valid time range`)
+    } else if (minutes.end <= minutes.start) {
+      errors.push('The end time must be after the start time')
+    } else {
+      startTime = atMinutes(date, minutes.start)
+      endTime = atMinutes(date, minutes.end)
+      durationMinutes = minutes.end - minutes.start
+    }
+  }
+
+  const hours = take(HOURS)
+  const minutesOnly = hours ? null : take(MINUTES)
+  const given = hours ? durationFrom(hours, 'hours') : minutesOnly ? durationFrom(minutesOnly, 'minutes') : null
+
+  if (given !== null) {
+    if (given <= 0) {
+      errors.push('The duration must be more than zero')
+    } else if (given > 24 * 60) {
+      errors.push('The duration cannot be more than 24 hours')
+    } else if (range) {
+      if (durationMinutes !== null && given !== durationMinutes) {
+        errors.push('The duration does not match the time range')
+      }
+    } else {
+      durationMinutes = given
+      if (date.getTime() === today.getTime()) {
+        endTime = new Date(now)
+        endTime.setSeconds(0, 0)
+        startTime = new Date(endTime.getTime() - given * 60 * 1000)
+        if (startTime < today) errors.push('That is more time than has passed today')
+      } else {
+        startTime = atMinutes(date, QUICK_ENTRY_DAY_START_HOUR * 60)
+        endTime = new Date(startTime.getTime() + given * 60 * 1000)
+      }
+    }
+  }
+
+  if (!range && given === null) {
+    errors.push('Add a duration like 1h30 or a time range like 9-11:30')
+  }
+
+  let project: QuickEntryProject | null = null
+  const found = findProject(text, projects)
+  if (found && 'project' in found) {
+    project = found.project
+    text = `${text.slice(0, found.index)} ${text.slice(found.index + found.length)}`
+  } else if (found && 'error' in found) {
+    errors.push(found.error)
+  } else {
+    if (found && 'reference' in found) {
+      warnings.push(`No project with the code ${found.reference}; it is kept in the description`)
+    }
+    errors.push('Add a project name or code, e.g. #WEB')
+  }
+
+  if (date > today) {
+    warnings.push('The date is in the future')
+  }
+
+  const description = text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[-–:,·]+\s*|\s*[-–:,·]+$/g, '')
+
+  return { project, date, startTime, endTime, durationMinutes, description, errors, warnings }
+}
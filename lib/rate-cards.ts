@@ -0,0 +1,299 @@
+// lib/rate-cards.ts
+import { prisma } from '@/lib/prisma'
+import { AuditLogger, AuditActor } from '@/lib/audit-log'
+import { format, startOfDay } from 'date-fns'
+
+/**
+ * Where a cost rate came from, most specific first: the project's rate for the user, the project's
+ * rate for the user's job role, the user's rate history, and finally the user's current rate.
+ */
+export type RateSource = 'PROJECT_USER' | 'PROJECT_ROLE' | 'USER_HISTORY' | 'EMPLOYEE_RATE'
+
+export interface ResolvedRate {
+  rate: number
+  source: RateSource
+}
+
+// A change to a user's own rate that has not been saved yet, costed as though it had
+export interface PendingRateChange {
+  userId: string
+  rate: number
+  effectiveDate: Date
+}
+
+export interface RateCardInput {
+  projectId: string
+  userId: string | null
+  jobRole: string | null
+  rate: number
+  effectiveDate: Date
+}
+
+export interface RateCardSummary {
+  id: string
+  projectId: string
+  user: { id: string; name: string | null; email: string } | null
+  jobRole: string | null
+  rate: number
+  effectiveDate: string // yyyy-MM-dd
+  createdAt: string
+}
+
+type DatedRate = { rate: number; effectiveDate: Date }
+
+const CARD_INCLUDE = { user: { select: { id: true, name: true, email: true } } } as const
+
+function toSummary(card: {
+  id: string
+  projectId: string
+  user: { id: string; name: string | null; email: string } | null
+  jobRole: string | null
+  rate: { toNumber(): number }
+  effectiveDate: Date
+  createdAt: Date
+}): RateCardSummary {
+  return {
+    id: card.id,
+    projectId: card.projectId,
+    user: card.user,
+    jobRole: card.jobRole,
+    rate: card.rate.toNumber(),
+    effectiveDate: format(card.effectiveDate, 'yyyy-MM-dd'),
+    createdAt: card.createdAt.toISOString()
+  }
+}
+
+// Job roles match whatever their case or spacing
+function roleKey(jobRole: string): string {
+  return jobRole.trim().toLowerCase()
+}
+
+// The latest rate effective on or before the date; rates are sorted newest first
+function rateOn(rates: DatedRate[] | undefined, date: Date): number | null {
+  const match = rates?.find(rate => rate.effectiveDate.getTime() <= date.getTime())
+  return match ? match.rate : null
+}
+
+function pushRate(map: Map<string, DatedRate[]>, key: string, rate: DatedRate) {
+  const rates = map.get(key)
+  if (rates) {
+    rates.push(rate)
+  } else {
+    map.set(key, [rate])
+  }
+}
+
+/**
+ * Cost rates of a set of users on a set of projects, loaded once so entries can be costed
+ * without a query each
+ */
+export class CostRateResolver {
+  constructor(
+    // projectId|user|userId or projectId|role|jobRole -> rates, newest first
+    private readonly cards: Map<string, DatedRate[]>,
+    // userId -> rates, newest first
+    private readonly history: Map<string, DatedRate[]>,
+    private readonly users: Map<string, { employeeRate: number; jobRole: string | null }>
+  ) {}
+
+  static async load(userIds: string[], projectIds: string[], pending: PendingRateChange[] = []): Promise<CostRateResolver> {
+    const [users, history, cards] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, employeeRate: true, jobRole: true }
+      }),
+      prisma.rateHistory.findMany({
+        where: { userId: { in: userIds } },
+        select: { userId: true, rate: true, effectiveDate: true },
+        orderBy: { effectiveDate: 'desc' }
+      }),
+      prisma.rateCard.findMany({
+        where: { projectId: { in: projectIds } },
+        select: { projectId: true, userId: true, jobRole: true, rate: true, effectiveDate: true },
+        orderBy: { effectiveDate: 'desc' }
+      })
+    ])
+
+    const cardMap = new Map<string, DatedRate[]>()
+    for (const card of cards) {
+      const key = card.userId ? `${card.projectId}|user|${card.userId}` : `${card.projectId}|role|${roleKey(card.jobRole ?? '')}`
+      pushRate(cardMap, key, { rate: card.rate.toNumber(), effectiveDate: card.effectiveDate })
+    }
+
+    const historyMap = new Map<string, DatedRate[]>()
+    for (const entry of history) {
+      pushRate(historyMap, entry.userId, { rate: entry.rate.toNumber(), effectiveDate: entry.effectiveDate })
+    }
+
+    const userMap = new Map(users.map(user => [user.id, { employeeRate: user.employeeRate.toNumber(), jobRole: user.jobRole }]))
+
+    // Mirrors saving the change: a history row, and the current rate too once it has taken effect
+    for (const change of [...pending].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime())) {
+      const rates = (historyMap.get(change.userId) ?? [])
+        .filter(rate => rate.effectiveDate.getTime() !== change.effectiveDate.getTime())
+      rates.push({ rate: change.rate, effectiveDate: change.effectiveDate })
+      historyMap.set(change.userId, rates.sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime()))
+
+      const user = userMap.get(change.userId)
+      if (user && change.effectiveDate <= new Date()) {
+        userMap.set(change.userId, { ...user, employeeRate: change.rate })
+      }
+    }
+
+    return new CostRateResolver(cardMap, historyMap, userMap)
+  }
+
+  resolve(userId: string, projectId: string, date: Date): ResolvedRate {
+    const user = this.users.get(userId)
+    if (!user) {
+      throw new Error('User not found')
+    }
+
+    const projectUserRate = rateOn(this.cards.get(`${projectId}|user|${userId}`), date)
+    if (projectUserRate !== null) return { rate: projectUserRate, source: 'PROJECT_USER' }
+
+    if (user.jobRole) {
+      const projectRoleRate = rateOn(this.cards.get(`${projectId}|role|${roleKey(user.jobRole)}`), date)
+      if (projectRoleRate !== null) return { rate: projectRoleRate, source: 'PROJECT_ROLE' }
+    }
+
+    const historyRate = rateOn(this.history.get(userId), date)
+    if (historyRate !== null) return { rate: historyRate, source: 'USER_HISTORY' }
+
+    return { rate: user.employeeRate, source: 'EMPLOYEE_RATE' }
+  }
+}
+
+export class RateCardManager {
+  static async listForProject(projectId: string): Promise<RateCardSummary[]> {
+    const cards = await prisma.rateCard.findMany({
+      where: { projectId },
+      include: CARD_INCLUDE,
+      orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }]
+    })
+    return cards.map(toSummary)
+  }
+
+  // Job roles in use, for suggestions when adding a role rate
+  static async listJobRoles(): Promise<string[]> {
+    const [users, cards] = await Promise.all([
+      prisma.user.findMany({ where: { jobRole: { not: null } }, select: { jobRole: true }, distinct: ['jobRole'] }),
+      prisma.rateCard.findMany({ where: { jobRole: { not: null } }, select: { jobRole: true }, distinct: ['jobRole'] })
+    ])
+
+    const roles = new Map<string, string>()
+    for (const { jobRole } of [...users, ...cards]) {
+      if (jobRole && !roles.has(roleKey(jobRole))) roles.set(roleKey(jobRole), jobRole)
+    }
+    return Array.from(roles.values()).sort((a, b) => a.localeCompare(b))
+  }
+
+  static async create(input: RateCardInput, actor: AuditActor): Promise<{ success: true; rateCard: RateCardSummary } | { success: false; error: string; status: number }> {
+    const jobRole = input.jobRole?.trim() || null
+    if ((input.userId === null) === (jobRole === null)) {
+      return { success: false, error: 'A rate card is for either one user or one job role', status: 400 }
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: input.projectId }, select: { id: true, name: true } })
+    if (!project) {
+      return { success: false, error: 'Project not found', status: 404 }
+    }
+
+    if (input.userId) {
+      const user = await prisma.user.findUnique({ where: { id: input.userId }, select: { id: true } })
+      if (!user) {
+        return { success: false, error: 'User not found', status: 404 }
+      }
+    }
+
+    const effectiveDate = startOfDay(input.effectiveDate)
+    const existing = await prisma.rateCard.findFirst({
+      where: {
+        projectId: input.projectId,
+        effectiveDate,
+        ...(input.userId ? { userId: input.userId } : { jobRole: { equals: jobRole!, mode: 'insensitive' as const } })
+      }
+    })
+    if (existing) {
+      return { success: false, error: 'A rate for this project already starts on that day; delete it first', status: 409 }
+    }
+
+    const card = await prisma.rateCard.create({
+      data: {
+        projectId: input.projectId,
+        userId: input.userId,
+        jobRole,
+        rate: input.rate,
+        effectiveDate,
+        createdBy: actor.id
+      },
+      include: CARD_INCLUDE
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'CREATE',
+      entityType: 'RATE_CARD',
+      entityId: card.id,
+      after: toSummary(card),
+      metadata: { projectName: project.name }
+    })
+
+    return { success: true, rateCard: toSummary(card) }
+  }
+
+  static async delete(rateCardId: string, actor: AuditActor): Promise<{ success: true; projectId: string } | { success: false; error: string; status: number }> {
+    const card = await prisma.rateCard.findUnique({ where: { id: rateCardId }, include: CARD_INCLUDE })
+    if (!card) {
+      return { success: false, error: 'Rate card not found', status: 404 }
+    }
+
+    await prisma.rateCard.delete({ where: { id: rateCardId } })
+
+    await AuditLogger.record({
+      actor,
+      action: 'DELETE',
+      entityType: 'RATE_CARD',
+      entityId: rateCardId,
+      before: toSummary(card)
+    })
+
+    return { success: true, projectId: card.projectId }
+  }
+
+  /**
+   * Set the job role a user is costed under on projects with role rates.
+   * Returns the projects the user has logged time on, whose spend may have changed.
+   */
+  static async setJobRole(userId: string, jobRole: string | null, actor: AuditActor): Promise<{ success: true; projectIds: string[] } | { success: false; error: string; status: number }> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true, jobRole: true } })
+    if (!user) {
+      return { success: false, error: 'User not found', status: 404 }
+    }
+
+    const normalized = jobRole?.trim() || null
+    if (normalized === user.jobRole) {
+      return { success: true, projectIds: [] }
+    }
+
+    await prisma.user.update({ where: { id: userId }, data: { jobRole: normalized } })
+
+    await AuditLogger.record({
+      actor,
+      action: 'UPDATE',
+      entityType: 'RATE',
+      entityId: userId,
+      before: { jobRole: user.jobRole },
+      after: { jobRole: normalized },
+      metadata: { userEmail: user.email }
+    })
+
+    const projects = await prisma.timeEntry.findMany({
+      where: { userId },
+      select: { projectId: true },
+      distinct: ['projectId']
+    })
+
+    return { success: true, projectIds: projects.map(project => project.projectId) }
+  }
+}
@@ -0,0 +1,78 @@
+// lib/reminder-rules.test.ts
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { expectedHoursToDate, pickReminderTemplate, ReminderNeedStats } from '@/lib/reminder-rules'
+
+// Friday 23 October 2026 at 09:00, the default weekly reminder slot
+const FRIDAY_MORNING = new Date(2026, 9, 23, 9)
+
+// Eight hours on Monday to Friday
+const fullTime = (day: Date) => (day.getDay() >= 1 && day.getDay() <= 5 ? 8 : 0)
+
+function stats(overrides: Partial<ReminderNeedStats> = {}): ReminderNeedStats {
+  return {
+    missingDays: 0,
+    weeklyHours: 32,
+    expectedHoursToDate: 32,
+    lastEntryDate: new Date(2026, 9, 22),
+    ...overrides
+  }
+}
+
+describe('expectedHoursToDate', () => {
+  it('counts the working days before today', () => {
+    assert.equal(expectedHoursToDate(fullTime, FRIDAY_MORNING), 32)
+  })
+
+  it('is zero on the first working day of the week', () => {
+    assert.equal(expectedHoursToDate(fullTime, new Date(2026, 9, 19, 17)), 0)
+  })
+
+  it('counts the whole working week by Saturday', () => {
+    assert.equal(expectedHoursToDate(fullTime, new Date(2026, 9, 24, 9)), 40)
+  })
+
+  it('leaves out days without expected hours, such as holidays', () => {
+    const holidayOnTuesday = (day: Date) => (day.getDate() === 20 ? 0 : fullTime(day))
+
+    assert.equal(expectedHoursToDate(holidayOnTuesday, FRIDAY_MORNING), 24)
+  })
+})
+
+describe('pickReminderTemplate', () => {
+  it('does not remind a full-time user with Monday to Thursday logged on Friday morning', () => {
+    const expected = expectedHoursToDate(fullTime, FRIDAY_MORNING)
+
+    assert.equal(pickReminderTemplate(stats({ weeklyHours: 32, expectedHoursToDate: expected }), 2, true), null)
+  })
+
+  it('reminds a user behind on the days that have passed', () => {
+    assert.deepEqual(pickReminderTemplate(stats({ weeklyHours: 24 }), 2, true), {
+      templateKey: 'LOW_WEEKLY_HOURS',
+      reason: '24h of 32h expected by now this week'
+    })
+  })
+
+  it('only checks weekly hours when asked to', () => {
+    assert.equal(pickReminderTemplate(stats({ weeklyHours: 0 }), 2, false), null)
+  })
+
+  it('does not check weekly hours when nothing is expected yet', () => {
+    assert.equal(pickReminderTemplate(stats({ weeklyHours: 0, expectedHoursToDate: 0 }), 2, true), null)
+  })
+
+  it('sends NO_ENTRIES to users who never logged time', () => {
+    assert.equal(pickReminderTemplate(stats({ lastEntryDate: null }), 2, true)?.templateKey, 'NO_ENTRIES')
+  })
+
+  it('prefers missing days over low weekly hours', () => {
+    assert.deepEqual(pickReminderTemplate(stats({ missingDays: 3, weeklyHours: 8 }), 2, true), {
+      templateKey: 'NO_RECENT_ENTRIES',
+      reason: '3 missing days'
+    })
+  })
+
+  it('ignores missing days when the threshold is zero', () => {
+    assert.equal(pickReminderTemplate(stats({ missingDays: 5 }), 0, true), null)
+  })
+})
@@ -0,0 +1,52 @@
+// lib/reminder-rules.ts
+// Which reminder a user needs, from their stats. Pure, so the rules can be checked without a database.
+
+import { addDays, startOfDay, startOfWeek } from 'date-fns'
+import type { ReminderTemplateKey } from '@/lib/reminders'
+
+export interface ReminderNeedStats {
+  missingDays: number
+  weeklyHours: number
+  expectedHoursToDate: number
+  lastEntryDate: Date | null
+}
+
+/**
+ * Expected hours from the start of the week up to the end of yesterday. Today is left out
+ * because it is still being logged when the reminders run.
+ */
+export function expectedHoursToDate(expectedHoursOn: (day: Date) => number, now: Date): number {
+  const today = startOfDay(now)
+  let total = 0
+  for (let day = startOfWeek(now); day < today; day = addDays(day, 1)) {
+    total += expectedHoursOn(day)
+  }
+  return Math.round(total * 100) / 100
+}
+
+/**
+ * A user without any entries gets NO_ENTRIES, otherwise missing days take precedence
+ * over low weekly hours
+ */
+export function pickReminderTemplate(
+  stats: ReminderNeedStats,
+  missingDaysThreshold: number,
+  checkWeeklyHours: boolean
+): { templateKey: ReminderTemplateKey; reason: string } | null {
+  if (!stats.lastEntryDate) {
+    return { templateKey: 'NO_ENTRIES', reason: 'No time entries' }
+  }
+
+  if (missingDaysThreshold > 0 && stats.missingDays >= missingDaysThreshold) {
+    return { templateKey: 'NO_RECENT_ENTRIES', reason: `${stats.missingDays} missing days` }
+  }
+
+  if (checkWeeklyHours && stats.expectedHoursToDate > 0 && stats.weeklyHours < stats.expectedHoursToDate) {
+    return {
+      templateKey: 'LOW_WEEKLY_HOURS',
+      reason: `${stats.weeklyHours}h of ${stats.expectedHoursToDate}h expected by now this week`
+    }
+  }
+
+  return null
+}
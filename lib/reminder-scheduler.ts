@@ -0,0 +1,235 @@
+// lib/reminder-scheduler.ts
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/app/generated/prisma'
+import { ReminderManager, ReminderSettings, ReminderTemplateKey } from '@/lib/reminders'
+import { pickReminderTemplate } from '@/lib/reminder-rules'
+import { format, isWeekend } from 'date-fns'
+
+export type ReminderRunTrigger = 'CRON' | 'MANUAL'
+
+export interface ReminderRunOutcome {
+  userId: string
+  name: string
+  email: string
+  action: 'SENT' | 'FAILED' | 'SKIPPED'
+  templateKey: ReminderTemplateKey | null
+  reason: string
+}
+
+export interface ReminderRunSummary {
+  id: string
+  trigger: ReminderRunTrigger
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED'
+  checkedUsers: number
+  sentCount: number
+  skippedCount: number
+  failedCount: number
+  details: ReminderRunOutcome[]
+  error: string | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+export type ScheduledRunResult =
+  | { ran: true; run: ReminderRunSummary }
+  | { ran: false; reason: string }
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+function toSummary(run: Prisma.ReminderRunGetPayload<object>): ReminderRunSummary {
+  return {
+    id: run.id,
+    trigger: run.trigger === 'MANUAL' ? 'MANUAL' : 'CRON',
+    status: run.status,
+    checkedUsers: run.checkedUsers,
+    sentCount: run.sentCount,
+    skippedCount: run.skippedCount,
+    failedCount: run.failedCount,
+    details: (run.details as unknown as ReminderRunOutcome[] | null) ?? [],
+    error: run.error,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null
+  }
+}
+
+export class ReminderScheduler {
+  /**
+   * Describe when the schedule fires, e.g. "Weekdays at 09:00" or "Fridays at 15:00"
+   */
+  static describeSchedule(settings: ReminderSettings): string {
+    const time = `${settings.reminderScheduleHour.toString().padStart(2, '0')}:00`
+    return settings.reminderScheduleFrequency === 'WEEKLY'
+      ? `${WEEKDAY_NAMES[settings.reminderScheduleWeekday]}s at ${time}`
+      : `Weekdays at ${time}`
+  }
+
+  /**
+   * The slot the schedule is in at `now`, or the reason it is not due. Daily schedules run on
+   * weekdays, weekly schedules on the configured weekday, each once the configured hour has passed.
+   * A missed day is not caught up later.
+   */
+  static getDueSlot(settings: ReminderSettings, now: Date): { slotKey: string } | { reason: string } {
+    if (!settings.reminderScheduleEnabled) {
+      return { reason: 'Scheduled reminders are disabled' }
+    }
+
+    if (settings.reminderScheduleFrequency === 'WEEKLY') {
+      if (now.getDay() !== settings.reminderScheduleWeekday) {
+        return { reason: `Reminders only run on ${WEEKDAY_NAMES[settings.reminderScheduleWeekday]}s` }
+      }
+    } else if (isWeekend(now)) {
+      return { reason: 'Daily reminders do not run on weekends' }
+    }
+
+    if (now.getHours() < settings.reminderScheduleHour) {
+      return { reason: `Reminders run after ${settings.reminderScheduleHour}:00` }
+    }
+
+    return { slotKey: `${settings.reminderScheduleFrequency}:${format(now, 'yyyy-MM-dd')}` }
+  }
+
+  /**
+   * Entry point for the cron endpoint. Safe to call as often as the scheduler likes:
+   * each slot runs at most once, even when calls overlap.
+   */
+  static async runIfDue(now: Date = new Date()): Promise<ScheduledRunResult> {
+    const settings = await ReminderManager.getSettings()
+    const due = this.getDueSlot(settings, now)
+
+    if ('reason' in due) {
+      return { ran: false, reason: due.reason }
+    }
+
+    let runId: string
+    try {
+      const run = await prisma.reminderRun.create({
+        data: { slotKey: due.slotKey, trigger: 'CRON' },
+        select: { id: true }
+      })
+      runId = run.id
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { ran: false, reason: 'Reminders already ran for this slot' }
+      }
+      throw error
+    }
+
+    // The low hours check runs once a week, on the configured weekday
+    const checkWeeklyHours = now.getDay() === settings.reminderScheduleWeekday
+    const run = await this.execute(runId, settings, checkWeeklyHours)
+
+    return { ran: true, run }
+  }
+
+  /**
+   * Run both checks immediately, regardless of the schedule
+   */
+  static async runNow(adminUserId: string): Promise<ReminderRunSummary> {
+    const settings = await ReminderManager.getSettings()
+    const run = await prisma.reminderRun.create({
+      data: { trigger: 'MANUAL', triggeredBy: adminUserId },
+      select: { id: true }
+    })
+
+    return this.execute(run.id, settings, true)
+  }
+
+  static async getRecentRuns(limit: number = 20): Promise<ReminderRunSummary[]> {
+    const runs = await prisma.reminderRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: limit
+    })
+
+    return runs.map(toSummary)
+  }
+
+  private static async execute(
+    runId: string,
+    settings: ReminderSettings,
+    checkWeeklyHours: boolean
+  ): Promise<ReminderRunSummary> {
+    const details: ReminderRunOutcome[] = []
+    const exempt = new Set(settings.reminderExemptUserIds)
+    let checkedUsers = 0
+
+    try {
+      const users = await prisma.user.findMany({
+        where: { active: true },
+        select: { id: true, name: true, email: true },
+        orderBy: { email: 'asc' }
+      })
+
+      for (const user of users) {
+        const outcome = { userId: user.id, name: user.name || user.email, email: user.email }
+
+        if (exempt.has(user.id)) {
+          details.push({ ...outcome, action: 'SKIPPED', templateKey: null, reason: 'Exempt' })
+          continue
+        }
+
+        checkedUsers++
+
+        const stats = await ReminderManager.getUserStats(user.id)
+        if (!stats) continue
+
+        const needed = pickReminderTemplate(stats, settings.reminderMissingDaysThreshold, checkWeeklyHours)
+        if (!needed) continue
+
+        const result = await ReminderManager.sendReminder({
+          userId: user.id,
+          templateKey: needed.templateKey,
+          issue: needed.reason,
+          source: 'SCHEDULED',
+          runId,
+          stats
+        })
+
+        if (result.success) {
+          details.push({ ...outcome, action: 'SENT', templateKey: needed.templateKey, reason: needed.reason })
+        } else if (result.status === 429) {
+          details.push({ ...outcome, action: 'SKIPPED', templateKey: needed.templateKey, reason: `${needed.reason}, reminded recently` })
+        } else {
+          details.push({ ...outcome, action: 'FAILED', templateKey: needed.templateKey, reason: result.error })
+        }
+      }
+
+      const run = await prisma.reminderRun.update({
+        where: { id: runId },
+        data: {
+          status: 'COMPLETED',
+          ...this.counts(checkedUsers, details),
+          details: details as unknown as Prisma.InputJsonValue,
+          finishedAt: new Date()
+        }
+      })
+
+      console.log(`Reminder run ${runId}: checked ${run.checkedUsers} users, sent ${run.sentCount}, skipped ${run.skippedCount}, failed ${run.failedCount}`)
+
+      return toSummary(run)
+    } catch (error) {
+      console.error(`Reminder run ${runId} failed:`, error)
+
+      const run = await prisma.reminderRun.update({
+        where: { id: runId },
+        data: {
+          status: 'FAILED',
+          ...this.counts(checkedUsers, details),
+          details: details as unknown as Prisma.InputJsonValue,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          finishedAt: new Date()
+        }
+      })
+
+      return toSummary(run)
+    }
+  }
+
+  private static counts(checkedUsers: number, details: ReminderRunOutcome[]) {
+    return {
+      checkedUsers,
+      sentCount: details.filter(outcome => outcome.action === 'SENT').length,
+      skippedCount: details.filter(outcome => outcome.action === 'SKIPPED').length,
+      failedCount: details.filter(outcome => outcome.action === 'FAILED').length
+    }
+  }
+}
@@ -0,0 +1,457 @@
+// lib/reminders.ts
+import { prisma } from '@/lib/prisma'
+import { Mailer } from '@/lib/mailer'
+import { DEFAULT_WEEKLY_HOURS, WorkScheduleManager } from '@/lib/work-schedules'
+import { expectedHoursToDate } from '@/lib/reminder-rules'
+import { addDays, endOfWeek, format, max, startOfDay, startOfWeek, subDays } from 'date-fns'
+
+export const REMINDER_TEMPLATE_KEYS = [
+  'NO_ENTRIES',
+  'NO_RECENT_ENTRIES',
+  'NO_TIME_TODAY',
+  'LOW_WEEKLY_HOURS',
+  'GENERAL'
+] as const
+
+export type ReminderTemplateKey = typeof REMINDER_TEMPLATE_KEYS[number]
+
+export type ReminderSource = 'MANUAL' | 'SCHEDULED'
+
+export type ReminderScheduleFrequency = 'DAILY' | 'WEEKLY'
+
+export interface ReminderSettings {
+  reminderCooldownHours: number
+  reminderScheduleEnabled: boolean
+  reminderScheduleFrequency: ReminderScheduleFrequency
+  reminderScheduleWeekday: number // 0 = Sunday
+  reminderScheduleHour: number
+  reminderMissingDaysThreshold: number // 0 disables the check
+  reminderExpectedWeeklyHours: number // for users without a work schedule; 0 disables the check for them
+  reminderExemptUserIds: string[]
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  reminderCooldownHours: 24,
+  reminderScheduleEnabled: false,
+  reminderScheduleFrequency: 'DAILY',
+  reminderScheduleWeekday: 5,
+  reminderScheduleHour: 9,
+  reminderMissingDaysThreshold: 2,
+  reminderExpectedWeeklyHours: DEFAULT_WEEKLY_HOURS,
+  reminderExemptUserIds: []
+}
+
+const settingsSelect = {
+  reminderCooldownHours: true,
+  reminderScheduleEnabled: true,
+  reminderScheduleFrequency: true,
+  reminderScheduleWeekday: true,
+  reminderScheduleHour: true,
+  reminderMissingDaysThreshold: true,
+  reminderExpectedWeeklyHours: true,
+  reminderExemptUserIds: true
+} as const
+
+// Days before today that are checked for missing time on the user's working days
+export const MISSING_DAYS_LOOKBACK = 7
+
+export const REMINDER_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'name', description: "The user's name, or their email when no name is set" },
+  { key: 'email', description: "The user's email address" },
+  { key: 'missingDays', description: `Working days in the last ${MISSING_DAYS_LOOKBACK} days without any time logged` },
+  { key: 'missingDates', description: 'Those days as a list, e.g. Mon Oct 12, Tue Oct 13' },
+  { key: 'weeklyHours', description: 'Hours logged so far this week' },
+  { key: 'expectedWeeklyHours', description: "Hours expected this week, from the user's work schedule" },
+  { key: 'lastEntryDate', description: 'Date of the most recent time entry, or "never"' },
+  { key: 'appUrl', description: 'Link to the time tracker' }
+]
+
+export interface ReminderTemplateContent {
+  name: string
+  subject: string
+  body: string
+}
+
+export const DEFAULT_REMINDER_TEMPLATES: Record<ReminderTemplateKey, ReminderTemplateContent> = {
+  NO_ENTRIES: {
+    name: 'No time entries',
+    subject: 'Please start tracking your time',
+    body: 'Hi {{name}},\n\nWe have not received any time entries from you yet. ' +
+      'Please log your hours in the time tracker: {{appUrl}}\n\nThank you!'
+  },
+  NO_RECENT_ENTRIES: {
+    name: 'No recent entries',
+    subject: 'Time tracking reminder: {{missingDays}} days missing',
+    body: 'Hi {{name}},\n\nYou have no time logged on {{missingDays}} working days recently ({{missingDates}}). ' +
+      'Your last entry was on {{lastEntryDate}}.\n\nPlease catch up on your time entries: {{appUrl}}\n\nThank you!'
+  },
+  NO_TIME_TODAY: {
+    name: 'No time logged today',
+    subject: 'Reminder: log your time for today',
+    body: 'Hi {{name}},\n\nYou have not logged any time today. ' +
+      'Please remember to record your hours: {{appUrl}}\n\nThank you!'
+  },
+  LOW_WEEKLY_HOURS: {
+    name: 'Low weekly hours',
+    subject: 'Time tracking reminder: {{weeklyHours}}h logged this week',
+    body: 'Hi {{name}},\n\nYou have logged {{weeklyHours}} of the expected {{expectedWeeklyHours}} hours this week. ' +
+      'Please make sure all of your work is recorded: {{appUrl}}\n\nThank you!'
+  },
+  GENERAL: {
+    name: 'General reminder',
+    subject: 'Time tracking reminder',
+    body: 'Hi {{name}},\n\nThis is a friendly reminder to keep your time entries up to date. ' +
+      'You have logged {{weeklyHours}} hours this week.\n\n{{appUrl}}\n\nThank you!'
+  }
+}
+
+// Issue labels shown in the admin user oversight list
+const ISSUE_TEMPLATE_KEYS: Record<string, ReminderTemplateKey> = {
+  'No time entries': 'NO_ENTRIES',
+  'No recent entries': 'NO_RECENT_ENTRIES',
+  'No time logged today': 'NO_TIME_TODAY',
+  'Low weekly hours': 'LOW_WEEKLY_HOURS'
+}
+
+export interface ReminderTemplate extends ReminderTemplateContent {
+  key: ReminderTemplateKey
+  customized: boolean
+  updatedAt: string | null
+}
+
+export interface ReminderUserStats {
+  userId: string
+  name: string
+  email: string
+  missingDays: number
+  missingDates: string[]
+  weeklyHours: number
+  expectedWeeklyHours: number
+  expectedHoursToDate: number // up to the end of yesterday
+  lastEntryDate: Date | null
+}
+
+export type ReminderResult =
+  | { success: true; log: { id: string; status: 'SENT' | 'FAILED'; createdAt: Date }; sentTo: string }
+  | { success: false; error: string; status: number; retryAfter?: Date }
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+export function isReminderTemplateKey(value: string): value is ReminderTemplateKey {
+  return (REMINDER_TEMPLATE_KEYS as readonly string[]).includes(value)
+}
+
+export function templateKeyForIssue(issue: string | null | undefined): ReminderTemplateKey {
+  return (issue && ISSUE_TEMPLATE_KEYS[issue]) || 'GENERAL'
+}
+
+/**
+ * Replace {{placeholder}} markers with their values. Unknown placeholders are left as written.
+ */
+export function renderReminderTemplate(text: string, values: Record<string, string | number>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  )
+}
+
+function placeholderValues(stats: ReminderUserStats): Record<string, string | number> {
+  return {
+    name: stats.name,
+    email: stats.email,
+    missingDays: stats.missingDays,
+    missingDates: stats.missingDates.length > 0 ? stats.missingDates.join(', ') : 'none',
+    weeklyHours: stats.weeklyHours,
+    expectedWeeklyHours: stats.expectedWeeklyHours,
+    lastEntryDate: stats.lastEntryDate ? format(stats.lastEntryDate, 'EEE MMM d, yyyy') : 'never',
+    appUrl: process.env.NEXTAUTH_URL ?? ''
+  }
+}
+
+export class ReminderManager {
+  static async getSettings(): Promise<ReminderSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { id: 'default' },
+      select: settingsSelect
+    })
+
+    if (!settings) return { ...DEFAULT_REMINDER_SETTINGS }
+
+    return {
+      ...settings,
+      reminderScheduleFrequency: settings.reminderScheduleFrequency === 'WEEKLY' ? 'WEEKLY' : 'DAILY'
+    }
+  }
+
+  static async updateSettings(data: ReminderSettings, adminUserId: string): Promise<ReminderSettings> {
+    if (!Number.isInteger(data.reminderCooldownHours) || data.reminderCooldownHours < 0 || data.reminderCooldownHours > 720) {
+      throw new Error('Reminder cooldown must be between 0 and 720 hours')
+    }
+
+    if (!Number.isInteger(data.reminderScheduleWeekday) || data.reminderScheduleWeekday < 0 || data.reminderScheduleWeekday > 6) {
+      throw new Error('Schedule weekday must be between 0 (Sunday) and 6 (Saturday)')
+    }
+
+    if (!Number.isInteger(data.reminderScheduleHour) || data.reminderScheduleHour < 0 || data.reminderScheduleHour > 23) {
+      throw new Error('Schedule hour must be between 0 and 23')
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: data.reminderExemptUserIds } },
+      select: { id: true }
+    })
+
+    const settings = {
+      ...data,
+      reminderExemptUserIds: users.map(user => user.id)
+    }
+
+    await prisma.organizationSettings.upsert({
+      where: { id: 'default' },
+      create: { id: 'default', ...settings, updatedBy: adminUserId },
+      update: { ...settings, updatedBy: adminUserId }
+    })
+
+    return this.getSettings()
+  }
+
+  /**
+   * All templates, with admin edits applied over the built-in defaults
+   */
+  static async getTemplates(): Promise<ReminderTemplate[]> {
+    const overrides = await prisma.reminderTemplate.findMany()
+    const byKey = new Map(overrides.map(template => [template.key, template]))
+
+    return REMINDER_TEMPLATE_KEYS.map(key => {
+      const override = byKey.get(key)
+      return {
+        key,
+        name: DEFAULT_REMINDER_TEMPLATES[key].name,
+        subject: override?.subject ?? DEFAULT_REMINDER_TEMPLATES[key].subject,
+        body: override?.body ?? DEFAULT_REMINDER_TEMPLATES[key].body,
+        customized: !!override,
+        updatedAt: override?.updatedAt.toISOString() ?? null
+      }
+    })
+  }
+
+  static async getTemplate(key: ReminderTemplateKey): Promise<ReminderTemplate> {
+    const templates = await this.getTemplates()
+    return templates.find(template => template.key === key)!
+  }
+
+  static async updateTemplate(
+    key: ReminderTemplateKey,
+    data: { subject: string; body: string },
+    adminUserId: string
+  ): Promise<ReminderTemplate> {
+    const knownPlaceholders = new Set(REMINDER_PLACEHOLDERS.map(placeholder => placeholder.key))
+
+    for (const text of [data.subject, data.body]) {
+      for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!knownPlaceholders.has(match[1])) {
+          throw new Error(`Unknown placeholder {{${match[1]}}}`)
+        }
+      }
+    }
+
+    await prisma.reminderTemplate.upsert({
+      where: { key },
+      create: { key, subject: data.subject, body: data.body, updatedBy: adminUserId },
+      update: { subject: data.subject, body: data.body, updatedBy: adminUserId }
+    })
+
+    return this.getTemplate(key)
+  }
+
+  /**
+   * Drop the admin edits so the built-in text is used again
+   */
+  static async resetTemplate(key: ReminderTemplateKey): Promise<ReminderTemplate> {
+    await prisma.reminderTemplate.deleteMany({ where: { key } })
+    return this.getTemplate(key)
+  }
+
+  static async getUserStats(userId: string, now: Date = new Date()): Promise<ReminderUserStats | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, createdAt: true }
+    })
+
+    if (!user) return null
+
+    const today = startOfDay(now)
+    // Days before the account existed are never counted as missing
+    const lookbackStart = max([subDays(today, MISSING_DAYS_LOOKBACK), startOfDay(user.createdAt)])
+    const weekStart = startOfWeek(now)
+    const timeline = await WorkScheduleManager.loadTimeline([userId], lookbackStart, endOfWeek(now))
+
+    const [recentEntries, weekEntries, lastEntry] = await Promise.all([
+      prisma.timeEntry.findMany({
+        where: { userId, startTime: { gte: lookbackStart, lt: today } },
+        select: { startTime: true }
+      }),
+      prisma.timeEntry.findMany({
+        where: { userId, startTime: { gte: weekStart }, endTime: { not: null } },
+        select: { duration: true }
+      }),
+      prisma.timeEntry.findFirst({
+        where: { userId },
+        orderBy: { startTime: 'desc' },
+        select: { startTime: true }
+      })
+    ])
+
+    const loggedDays = new Set(recentEntries.map(entry => format(entry.startTime, 'yyyy-MM-dd')))
+    const missing: Date[] = []
+
+    for (let day = lookbackStart; day < today; day = addDays(day, 1)) {
+      if (timeline.isWorkingDay(userId, day) && !loggedDays.has(format(day, 'yyyy-MM-dd'))) {
+        missing.push(day)
+      }
+    }
+
+    const weekMinutes = weekEntries.reduce((sum, entry) => sum + (entry.duration || 0), 0)
+
+    return {
+      userId: user.id,
+      name: user.name || user.email,
+      email: user.email,
+      missingDays: missing.length,
+      missingDates: missing.map(day => format(day, 'EEE MMM d')),
+      weeklyHours: Math.round(weekMinutes / 6) / 10,
+      expectedWeeklyHours: timeline.expectedHoursBetween(userId, weekStart, endOfWeek(now)),
+      expectedHoursToDate: expectedHoursToDate(day => timeline.expectedHoursOn(userId, day), now),
+      lastEntryDate: lastEntry?.startTime ?? null
+    }
+  }
+
+  /**
+   * The most recent successful reminder to the user that is still inside the cooldown window
+   */
+  static async getActiveCooldown(userId: string, now: Date = new Date()): Promise<Date | null> {
+    const { reminderCooldownHours } = await this.getSettings()
+    if (reminderCooldownHours === 0) return null
+
+    const lastSent = await prisma.reminderLog.findFirst({
+      where: {
+        userId,
+        status: 'SENT',
+        createdAt: { gt: new Date(now.getTime() - reminderCooldownHours * 60 * 60 * 1000) }
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true }
+    })
+
+    return lastSent ? new Date(lastSent.createdAt.getTime() + reminderCooldownHours * 60 * 60 * 1000) : null
+  }
+
+  /**
+   * Render the template for the user and email it. Every attempt that reaches the mailer is
+   * stored as a ReminderLog; users who were reminded within the cooldown are refused with 429.
+   */
+  static async sendReminder(input: {
+    userId: string
+    templateKey: ReminderTemplateKey
+    issue?: string | null
+    sentById?: string | null
+    source?: ReminderSource
+    runId?: string | null
+    stats?: ReminderUserStats
+  }): Promise<ReminderResult> {
+    const stats = input.stats ?? await this.getUserStats(input.userId)
+    if (!stats) {
+      return { success: false, error: 'User not found', status: 404 }
+    }
+
+    const retryAfter = await this.getActiveCooldown(input.userId)
+    if (retryAfter) {
+      return {
+        success: false,
+        error: `${stats.name} was already reminded recently. Another reminder can be sent after ${format(retryAfter, 'MMM d, HH:mm')}.`,
+        status: 429,
+        retryAfter
+      }
+    }
+
+    const template = await this.getTemplate(input.templateKey)
+    const values = placeholderValues(stats)
+    const subject = renderReminderTemplate(template.subject, values)
+    const body = renderReminderTemplate(template.body, values)
+
+    let transport: string
+    try {
+      transport = Mailer.getTransport().name
+    } catch {
+      transport = 'misconfigured'
+    }
+
+    const sent = await Mailer.send({ to: stats.email, subject, text: body })
+
+    const log = await prisma.reminderLog.create({
+      data: {
+        userId: input.userId,
+        templateKey: input.templateKey,
+        issue: input.issue ?? null,
+        subject,
+        body,
+        transport,
+        status: sent ? 'SENT' : 'FAILED',
+        error: sent ? null : 'The mail transport failed to send the message, see the server logs',
+        source: input.source ?? 'MANUAL',
+        sentById: input.sentById ?? null,
+        runId: input.runId ?? null
+      },
+      select: { id: true, status: true, createdAt: true }
+    })
+
+    if (!sent) {
+      return { success: false, error: 'Failed to send the reminder email', status: 502 }
+    }
+
+    return { success: true, log, sentTo: stats.email }
+  }
+
+  static async getLogs(filter: { userId?: string; limit?: number } = {}) {
+    const logs = await prisma.reminderLog.findMany({
+      where: filter.userId ? { userId: filter.userId } : undefined,
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        sentBy: { select: { id: true, name: true, email: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filter.limit ?? 50
+    })
+
+    return logs.map(log => ({
+      id: log.id,
+      user: log.user,
+      sentBy: log.sentBy,
+      templateKey: log.templateKey,
+      issue: log.issue,
+      subject: log.subject,
+      body: log.body,
+      transport: log.transport,
+      status: log.status,
+      error: log.error,
+      source: log.source,
+      createdAt: log.createdAt.toISOString()
+    }))
+  }
+
+  /**
+   * When each of the given users was last sent a reminder successfully
+   */
+  static async getLastSent(userIds: string[]): Promise<Map<string, Date>> {
+    const latest = await prisma.reminderLog.groupBy({
+      by: ['userId'],
+      where: { userId: { in: userIds }, status: 'SENT' },
+      _max: { createdAt: true }
+    })
+
+    return new Map(
+      latest
+        .filter(row => row._max.createdAt)
+        .map(row => [row.userId, row._max.createdAt!])
+    )
+  }
+}
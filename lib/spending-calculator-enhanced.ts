@@ -1,7 +1,22 @@
 // lib/spending-calculator-enhanced.ts
 import { prisma } from '@/lib/prisma'
-import { Prisma } from '@prisma/client'
+import { Prisma } from '@/app/generated/prisma'
 import { Decimal } from '@prisma/client/runtime/library'
+import { FiscalSettingsManager } from '@/lib/fiscal-settings'
+import { ProjectBudgetFigures, ProjectBudgetManager } from '@/lib/project-budgets'
+import { BudgetAlertManager } from '@/lib/budget-alerts'
+import {
+  FiscalQuarter,
+  getFiscalQuarter,
+  getFiscalQuarterLabel,
+  getFiscalYear,
+  getFiscalYearLabel,
+  getFiscalYearRange,
+  getMonthKey
+} from '@/lib/fiscal-calendar'
+import { OvertimeManager, costSplit } from '@/lib/overtime'
+import { CostRateResolver, PendingRateChange, RateSource } from '@/lib/rate-cards'
+import { startOfDay } from 'date-fns'
 
 // Safe decimal conversion helper
 function safeDecimalToNumber(decimal: Decimal | number | null | undefined): number {
@@ -31,22 +46,72 @@ function safeDecimalToNumber(decimal: Decimal | number | null | undefined): numb
   }
 }
 
-// Helper function to determine quarter based on custom fiscal year (Apr-Mar)
-function getFiscalQuarter(date: Date): 1 | 2 | 3 | 4 {
-  if (!date || !(date instanceof Date) || isNaN(date.getTime())) {
-    throw new Error('Invalid date provided to getFiscalQuarter')
-  }
+export interface EntryCost {
+  rate: number
+  rateSource: RateSource
+  hours: number
+  overtimeHours: number
+  baseCost: number // hours at the flat rate
+  premiumCost: number // paid on top for overtime, weekends and holidays
+  cost: number
+}
+
+export interface SpendChange {
+  oldSpend: number
+  newSpend: number
+  change: number
+}
+
+export interface QuarterSpendChange extends SpendChange {
+  fiscalYear: number
+  quarter: FiscalQuarter
+  label: string // e.g. 'Q1 (Apr-Jun) 2026/2027'
+  budget: number
+  thresholdsCrossed: number[] // budget alert thresholds the change takes spend up through
+  thresholdsCleared: number[] // and the ones it takes spend back under
+}
+
+export interface MonthSpendChange extends SpendChange {
+  month: string // yyyy-MM
+}
+
+export interface UserSpendChange extends SpendChange {
+  userId: string
+}
+
+export interface ProjectRateImpact extends SpendChange {
+  projectId: string
+  projectName: string
+  quarters: QuarterSpendChange[]
+  months: MonthSpendChange[]
+}
 
-  const month = date.getMonth() + 1 // 1-12
-  if (month >= 4 && month <= 6) return 1  // Q1: Apr-Jun
-  if (month >= 7 && month <= 9) return 2  // Q2: Jul-Sep
-  if (month >= 10 && month <= 12) return 3 // Q3: Oct-Dec
-  return 4 // Q4: Jan-Mar
+/**
+ * What saving one or more rate changes would do to the spend of every project it touches.
+ * Only quarters and months whose spend changes are listed.
+ */
+export interface RateImpact extends SpendChange {
+  projects: ProjectRateImpact[]
+  users: UserSpendChange[] // the changed users' own hours, across projects
+  thresholdsCrossed: number
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function spendChange(oldSpend: number, newSpend: number): SpendChange {
+  return {
+    oldSpend: roundCurrency(oldSpend),
+    newSpend: roundCurrency(newSpend),
+    change: roundCurrency(newSpend - oldSpend)
+  }
 }
 
 export class EnhancedSpendingCalculator {
   /**
-   * Get the effective rate for a user at a specific date
+   * Get the effective rate for a user at a specific date, from their rate history alone.
+   * Project rate cards are applied by costEntries.
    */
   static async getEffectiveRateForDate(userId: string, date: Date): Promise<number> {
     if (!userId || typeof userId !== 'string') {
@@ -172,7 +237,8 @@ export class EnhancedSpendingCalculator {
   }
 
   /**
-   * Calculate spending for a time entry using historical rates
+   * Calculate spending for a time entry using historical rates, at the flat rate without overtime.
+   * Pass the fiscal start month when calling in a loop to avoid reading the settings per entry.
    */
   static async calculateTimeEntrySpending(
     timeEntry: {
@@ -180,7 +246,8 @@ export class EnhancedSpendingCalculator {
       userId: string
       hours: number | Decimal
       date: Date
-    }
+    },
+    fiscalYearStartMonth?: number
   ): Promise<{
     cost: number
     rate: number
@@ -190,7 +257,8 @@ export class EnhancedSpendingCalculator {
     const hours = safeDecimalToNumber(timeEntry.hours)
     const rate = await this.getEffectiveRateForDate(timeEntry.userId, timeEntry.date)
     const cost = hours * rate
-    const quarter = getFiscalQuarter(timeEntry.date)
+    const startMonth = fiscalYearStartMonth ?? await FiscalSettingsManager.getStartMonth()
+    const quarter = getFiscalQuarter(timeEntry.date, startMonth)
     const quarterKey = `q${quarter}Spent` as const
 
     if (!isFinite(cost)) {
@@ -206,7 +274,62 @@ export class EnhancedSpendingCalculator {
   }
 
   /**
-   * Recalculate project spending using historical rates
+   * Cost approved time entries at their resolved rates (see CostRateResolver), adding the premiums
+   * of the overtime policy in force on each day. Returns the cost of each entry by entry ID.
+   * Pending rate changes are costed as if already saved, for previews.
+   */
+  static async costEntries(
+    entries: Array<{
+      id: string
+      userId: string
+      projectId: string
+      date: Date
+      startTime: Date
+      hours: number | Decimal
+    }>,
+    pendingRates: PendingRateChange[] = []
+  ): Promise<Map<string, EntryCost>> {
+    const costable = entries.map(entry => ({
+      ...entry,
+      date: startOfDay(new Date(entry.date)),
+      hours: safeDecimalToNumber(entry.hours)
+    }))
+    const [splits, rates] = await Promise.all([
+      OvertimeManager.splitEntries(costable),
+      CostRateResolver.load(
+        [...new Set(entries.map(entry => entry.userId))],
+        [...new Set(entries.map(entry => entry.projectId))],
+        pendingRates
+      )
+    ])
+
+    const costs = new Map<string, EntryCost>()
+
+    for (const entry of entries) {
+      const { rate, source } = rates.resolve(entry.userId, entry.projectId, new Date(entry.date))
+      const split = splits.get(entry.id)!
+      const { baseCost, premiumCost, cost } = costSplit(split, rate)
+
+      if (!isFinite(cost)) {
+        throw new Error('Invalid cost calculation')
+      }
+
+      costs.set(entry.id, {
+        rate,
+        rateSource: source,
+        hours: split.hours,
+        overtimeHours: split.overtimeHours,
+        baseCost,
+        premiumCost,
+        cost
+      })
+    }
+
+    return costs
+  }
+
+  /**
+   * Recalculate project spending using historical rates and overtime policies
    */
   static async updateProjectSpendingWithHistory(projectId: string): Promise<void> {
     if (!projectId || typeof projectId !== 'string') {
@@ -214,65 +337,73 @@ export class EnhancedSpendingCalculator {
     }
 
     try {
-      // Get all time entries for this project
+      // Get all approved time entries for this project; unapproved hours do not count towards spend
       const timeEntries = await prisma.timeEntry.findMany({
-        where: { projectId },
+        where: { projectId, status: 'APPROVED' },
         select: {
           id: true,
           userId: true,
+          projectId: true,
           hours: true,
-          date: true
+          date: true,
+          startTime: true
         },
         orderBy: {
           date: 'asc'
         }
       })
 
-      let q1Spent = new Decimal(0)
-      let q2Spent = new Decimal(0)
-      let q3Spent = new Decimal(0)
-      let q4Spent = new Decimal(0)
+      const startMonth = await FiscalSettingsManager.getStartMonth()
+      const costs = await this.costEntries(timeEntries)
+
+      // Spend is kept per fiscal year so past years remain comparable
+      const spentByYear = new Map<number, { q1Spent: Decimal; q2Spent: Decimal; q3Spent: Decimal; q4Spent: Decimal }>()
 
       // Process each entry with historical rate
       for (const entry of timeEntries) {
         try {
-          const { cost, quarter } = await this.calculateTimeEntrySpending({
-            id: entry.id,
-            userId: entry.userId,
-            hours: entry.hours,
-            date: new Date(entry.date)
-          })
-
-          const costDecimal = new Decimal(cost)
-
-          switch (quarter) {
-            case 1: q1Spent = q1Spent.add(costDecimal); break
-            case 2: q2Spent = q2Spent.add(costDecimal); break
-            case 3: q3Spent = q3Spent.add(costDecimal); break
-            case 4: q4Spent = q4Spent.add(costDecimal); break
+          const entryDate = new Date(entry.date)
+          const { cost } = costs.get(entry.id)!
+          const quarter = getFiscalQuarter(entryDate, startMonth)
+
+          const fiscalYear = getFiscalYear(entryDate, startMonth)
+          const yearSpent = spentByYear.get(fiscalYear) ?? {
+            q1Spent: new Decimal(0),
+            q2Spent: new Decimal(0),
+            q3Spent: new Decimal(0),
+            q4Spent: new Decimal(0)
           }
+          const quarterKey = `q${quarter}Spent` as const
+          yearSpent[quarterKey] = yearSpent[quarterKey].add(new Decimal(cost))
+          spentByYear.set(fiscalYear, yearSpent)
         } catch (error) {
           console.warn('Error processing time entry:', entry.id, error)
         }
       }
 
-      // Update project with recalculated spending
-      await prisma.project.update({
-        where: { id: projectId },
-        data: {
-          q1Spent,
-          q2Spent,
-          q3Spent,
-          q4Spent
-        }
-      })
-
-      console.log(`Updated spending for project ${projectId} with historical rates:`, {
-        q1Spent: q1Spent.toFixed(2),
-        q2Spent: q2Spent.toFixed(2),
-        q3Spent: q3Spent.toFixed(2),
-        q4Spent: q4Spent.toFixed(2)
-      })
+      // Store per-year spend; the current year is mirrored to the project
+      await ProjectBudgetManager.writeSpent(
+        projectId,
+        new Map(Array.from(spentByYear, ([fiscalYear, spent]) => [fiscalYear, {
+          q1Spent: spent.q1Spent.toNumber(),
+          q2Spent: spent.q2Spent.toNumber(),
+          q3Spent: spent.q3Spent.toNumber(),
+          q4Spent: spent.q4Spent.toNumber()
+        }])),
+        { startMonth }
+      )
+
+      console.log(`Updated spending for project ${projectId} with historical rates:`,
+        Object.fromEntries(Array.from(spentByYear, ([fiscalYear, spent]) => [fiscalYear, {
+          q1Spent: spent.q1Spent.toFixed(2),
+          q2Spent: spent.q2Spent.toFixed(2),
+          q3Spent: spent.q3Spent.toFixed(2),
+          q4Spent: spent.q4Spent.toFixed(2)
+        }]))
+      )
+
+      // Tell budget editors about newly crossed utilization thresholds
+      await BudgetAlertManager.checkProject(projectId)
 
     } catch (error) {
       console.error('Failed to update project spending with history:', error)
@@ -281,13 +412,158 @@ export class EnhancedSpendingCalculator {
   }
 
   /**
-   * Update user rate and create rate history entry
+   * Cost every approved entry of the projects the users have logged time on, with and without
+   * the pending changes, and compare. Quarter totals include everyone's hours so they can be
+   * checked against the budget alert thresholds. Nothing is written.
+   */
+  static async previewRateChanges(changes: PendingRateChange[]): Promise<RateImpact> {
+    const userIds = new Set(changes.map(change => change.userId))
+
+    const touched = await prisma.timeEntry.findMany({
+      where: { userId: { in: [...userIds] }, status: 'APPROVED' },
+      select: { projectId: true },
+      distinct: ['projectId']
+    })
+
+    const timeEntries = await prisma.timeEntry.findMany({
+      where: { projectId: { in: touched.map(entry => entry.projectId) }, status: 'APPROVED' },
+      select: {
+        id: true,
+        userId: true,
+        projectId: true,
+        hours: true,
+        date: true,
+        startTime: true,
+        project: { select: { name: true } }
+      }
+    })
+
+    // Only the changed users' entries can cost differently
+    const [startMonth, settings, before, after] = await Promise.all([
+      FiscalSettingsManager.getStartMonth(),
+      BudgetAlertManager.getSettings(),
+      this.costEntries(timeEntries),
+      this.costEntries(timeEntries.filter(entry => userIds.has(entry.userId)), changes)
+    ])
+
+    type Totals = { oldSpend: number; newSpend: number }
+    const projects = new Map<string, {
+      name: string
+      total: Totals
+      quarters: Map<string, Totals & { fiscalYear: number; quarter: FiscalQuarter }>
+      months: Map<string, Totals>
+    }>()
+    const users = new Map<string, Totals>()
+
+    for (const entry of timeEntries) {
+      const entryDate = new Date(entry.date)
+      const oldCost = before.get(entry.id)!.cost
+      const newCost = after.get(entry.id)?.cost ?? oldCost
+
+      if (userIds.has(entry.userId)) {
+        const totals = users.get(entry.userId) ?? { oldSpend: 0, newSpend: 0 }
+        totals.oldSpend += oldCost
+        totals.newSpend += newCost
+        users.set(entry.userId, totals)
+      }
+
+      let project = projects.get(entry.projectId)
+      if (!project) {
+        project = { name: entry.project.name, total: { oldSpend: 0, newSpend: 0 }, quarters: new Map(), months: new Map() }
+        projects.set(entry.projectId, project)
+      }
+
+      const fiscalYear = getFiscalYear(entryDate, startMonth)
+      const quarter = getFiscalQuarter(entryDate, startMonth)
+      const quarterKey = `${fiscalYear}-${quarter}`
+      const monthKey = getMonthKey(entryDate)
+
+      if (!project.quarters.has(quarterKey)) {
+        project.quarters.set(quarterKey, { fiscalYear, quarter, oldSpend: 0, newSpend: 0 })
+      }
+      if (!project.months.has(monthKey)) {
+        project.months.set(monthKey, { oldSpend: 0, newSpend: 0 })
+      }
+
+      for (const totals of [project.total, project.quarters.get(quarterKey)!, project.months.get(monthKey)!]) {
+        totals.oldSpend += oldCost
+        totals.newSpend += newCost
+      }
+    }
+
+    const changed = (totals: Totals) => Math.abs(totals.newSpend - totals.oldSpend) >= 0.005
+    const impact: RateImpact = {
+      ...spendChange(0, 0),
+      projects: [],
+      users: [...users]
+        .filter(([, totals]) => changed(totals))
+        .map(([userId, totals]) => ({ userId, ...spendChange(totals.oldSpend, totals.newSpend) })),
+      thresholdsCrossed: 0
+    }
+    let oldSpend = 0
+    let newSpend = 0
+
+    for (const [projectId, project] of projects) {
+      if (!changed(project.total) && ![...project.quarters.values()].some(changed)) continue
+
+      const budgets = new Map<number, ProjectBudgetFigures>()
+      const quarters: QuarterSpendChange[] = []
+
+      for (const totals of [...project.quarters.values()].filter(changed)) {
+        if (!budgets.has(totals.fiscalYear)) {
+          budgets.set(totals.fiscalYear, await ProjectBudgetManager.getBudget(projectId, totals.fiscalYear))
+        }
+        const budget = budgets.get(totals.fiscalYear)![`q${totals.quarter}Budget` as const]
+        const oldUtilization = budget > 0 ? (totals.oldSpend / budget) * 100 : 0
+        const newUtilization = budget > 0 ? (totals.newSpend / budget) * 100 : 0
+
+        quarters.push({
+          ...spendChange(totals.oldSpend, totals.newSpend),
+          fiscalYear: totals.fiscalYear,
+          quarter: totals.quarter,
+          label: `${getFiscalQuarterLabel(totals.quarter, startMonth)} ${getFiscalYearLabel(totals.fiscalYear, startMonth)}`,
+          budget,
+          thresholdsCrossed: budget > 0
+            ? settings.budgetAlertThresholds.filter(threshold => oldUtilization < threshold && newUtilization >= threshold)
+            : [],
+          thresholdsCleared: budget > 0
+            ? settings.budgetAlertThresholds.filter(threshold => newUtilization < threshold && oldUtilization >= threshold)
+            : []
+        })
+      }
+
+      quarters.sort((a, b) => a.fiscalYear - b.fiscalYear || a.quarter - b.quarter)
+      impact.thresholdsCrossed += quarters.reduce((count, quarter) => count + quarter.thresholdsCrossed.length, 0)
+
+      impact.projects.push({
+        ...spendChange(project.total.oldSpend, project.total.newSpend),
+        projectId,
+        projectName: project.name,
+        quarters,
+        months: [...project.months]
+          .filter(([, totals]) => changed(totals))
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([month, totals]) => ({ month, ...spendChange(totals.oldSpend, totals.newSpend) }))
+      })
+
+      oldSpend += project.total.oldSpend
+      newSpend += project.total.newSpend
+    }
+
+    impact.projects.sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    return { ...impact, ...spendChange(oldSpend, newSpend) }
+  }
+
+  /**
+   * Update user rate and create rate history entry. The impact previewed for the change, if any,
+   * is kept on the history entry.
    */
   static async updateUserRate(
     userId: string,
     newRate: number,
     effectiveDate: Date,
-    adminUserId: string
+    adminUserId: string,
+    impact?: RateImpact
   ): Promise<void> {
     if (!userId || typeof userId !== 'string') {
       throw new Error('Invalid user ID provided')
@@ -313,7 +589,8 @@ export class EnhancedSpendingCalculator {
             userId,
             rate: new Decimal(newRate),
             effectiveDate,
-            createdBy: adminUserId
+            createdBy: adminUserId,
+            impact: impact ? (JSON.parse(JSON.stringify(impact)) as Prisma.InputJsonValue) : undefined
           }
         })
 
@@ -325,19 +602,19 @@ export class EnhancedSpendingCalculator {
             data: { employeeRate: new Decimal(newRate) }
           })
         }
+      })
 
-        // Get all projects affected by this user
-        const affectedProjects = await tx.projectUser.findMany({
-          where: { userId },
-          select: { projectId: true }
-        })
-
-        // Recalculate spending for all affected projects
-        for (const { projectId } of affectedProjects) {
-          await this.updateProjectSpendingWithHistory(projectId)
-        }
+      // Recalculate once the new rate is committed, for every project the user has logged time on
+      const affectedProjects = await prisma.timeEntry.findMany({
+        where: { userId },
+        select: { projectId: true },
+        distinct: ['projectId']
       })
 
+      for (const { projectId } of affectedProjects) {
+        await this.updateProjectSpendingWithHistory(projectId)
+      }
+
       console.log(`Updated rate for user ${userId} to ${newRate} effective ${effectiveDate.toISOString()}`)
 
     } catch (error) {
@@ -374,14 +651,15 @@ export class EnhancedSpendingCalculator {
       monthlySpending: Record<string, number>
     }
   }> {
-    const year = fiscalYear || new Date().getFullYear()
-    const fiscalYearStart = new Date(year, 3, 1) // April 1st
-    const fiscalYearEnd = new Date(year + 1, 2, 31) // March 31st next year
+    const startMonth = await FiscalSettingsManager.getStartMonth()
+    const year = fiscalYear || getFiscalYear(new Date(), startMonth)
+    const { start: fiscalYearStart, end: fiscalYearEnd } = getFiscalYearRange(year, startMonth)
 
-    // Get all time entries for the fiscal year
+    // Get all approved time entries for the fiscal year
     const timeEntries = await prisma.timeEntry.findMany({
       where: {
         projectId,
+        status: 'APPROVED',
         date: {
           gte: fiscalYearStart,
           lte: fiscalYearEnd
@@ -401,6 +679,8 @@ export class EnhancedSpendingCalculator {
       }
     })
 
+    const costs = await this.costEntries(timeEntries)
+
     // Get unique users
     const uniqueUsers = new Map<string, any>()
     timeEntries.forEach(entry => {
@@ -454,13 +734,9 @@ export class EnhancedSpendingCalculator {
       // Process each time entry with historical rate
       for (const entry of userEntries) {
         const entryDate = new Date(entry.date)
-        const hours = safeDecimalToNumber(entry.hours)
-        const monthKey = `${entryDate.getFullYear()}-${(entryDate.getMonth() + 1).toString().padStart(2, '0')}`
-        
-        // Get effective rate for this entry
-        const rate = await this.getEffectiveRateForDate(user.id, entryDate)
-        const cost = hours * rate
-        const quarter = getFiscalQuarter(entryDate)
+        const monthKey = getMonthKey(entryDate)
+        const { hours, cost } = costs.get(entry.id)!
+        const quarter = getFiscalQuarter(entryDate, startMonth)
 
         // Update employee totals
         employeeData.totalHours += hours
@@ -488,6 +764,29 @@ export class EnhancedSpendingCalculator {
     }
   }
 
+  /**
+   * Recalculate the quarterly spend of every project, e.g. after the fiscal year start month changed.
+   * Returns the number of projects that were updated.
+   */
+  static async recalculateAllProjectSpending(): Promise<number> {
+    const projects = await prisma.project.findMany({
+      select: { id: true, name: true }
+    })
+
+    let updated = 0
+    for (const project of projects) {
+      try {
+        await this.updateProjectSpendingWithHistory(project.id)
+        updated++
+      } catch (error) {
+        console.error(`Failed to recalculate spending for ${project.name}:`, error)
+      }
+    }
+
+    console.log(`Recalculated spending for ${updated} of ${projects.length} projects`)
+    return updated
+  }
+
   /**
    * Recalculate all projects when rate history is enabled (migration helper)
    */
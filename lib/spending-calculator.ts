@@ -2,6 +2,10 @@
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
 import { Decimal } from '@prisma/client/runtime/library'
+import { FiscalSettingsManager } from '@/lib/fiscal-settings'
+import { ProjectBudgetManager } from '@/lib/project-budgets'
+import { BudgetAlertManager } from '@/lib/budget-alerts'
+import { getFiscalQuarter, getFiscalYear } from '@/lib/fiscal-calendar'
 
 // ✅ FIXED: Safe decimal conversion helper
 function safeDecimalToNumber(decimal: Decimal | number | null | undefined): number {
@@ -33,20 +37,6 @@ function safeDecimalToNumber(decimal: Decimal | number | null | undefined): numb
   }
 }
 
-// Helper function to determine quarter based on custom fiscal year (Apr-Mar)
-function getFiscalQuarter(date: Date): 1 | 2 | 3 | 4 {
-  // ✅ FIXED: Add validation for date input
-  if (!date || !(date instanceof Date) || isNaN(date.getTime())) {
-    throw new Error('Invalid date provided to getFiscalQuarter')
-  }
-
-  const month = date.getMonth() + 1 // 1-12
-  if (month >= 4 && month <= 6) return 1  // Q1: Apr-Jun
-  if (month >= 7 && month <= 9) return 2  // Q2: Jul-Sep
-  if (month >= 10 && month <= 12) return 3 // Q3: Oct-Dec
-  return 4 // Q4: Jan-Mar
-}
-
 export class SpendingCalculator {
   /**
    * Recalculate and update project spending for a specific project
@@ -58,9 +48,9 @@ export class SpendingCalculator {
     }
 
     try {
-      // Get all time entries for this project with user rates
+      // Get all approved time entries for this project with user rates
       const timeEntries = await prisma.timeEntry.findMany({
-        where: { projectId },
+        where: { projectId, status: 'APPROVED' },
         include: {
           user: {
             select: {
@@ -70,11 +60,10 @@ export class SpendingCalculator {
         }
       })
 
-      // ✅ FIXED: Initialize quarterly spending as Prisma Decimals
-      let q1Spent = new Decimal(0)
-      let q2Spent = new Decimal(0)
-      let q3Spent = new Decimal(0)
-      let q4Spent = new Decimal(0)
+      const startMonth = await FiscalSettingsManager.getStartMonth()
+
+      // Spend is kept per fiscal year so past years remain comparable
+      const spentByYear = new Map<number, { q1Spent: Decimal; q2Spent: Decimal; q3Spent: Decimal; q4Spent: Decimal }>()
 
       // Calculate spending for each entry
       timeEntries.forEach(entry => {
@@ -86,7 +75,8 @@ export class SpendingCalculator {
           }
 
           const entryDate = new Date(entry.date)
-          const quarter = getFiscalQuarter(entryDate)
+          const quarter = getFiscalQuarter(entryDate, startMonth)
+          const fiscalYear = getFiscalYear(entryDate, startMonth)
           
           // ✅ FIXED: Safe decimal operations
           const hours = safeDecimalToNumber(entry.hours)
@@ -99,34 +89,43 @@ export class SpendingCalculator {
 
           const cost = new Decimal(hours).mul(new Decimal(rate))
 
-          switch (quarter) {
-            case 1: q1Spent = q1Spent.add(cost); break
-            case 2: q2Spent = q2Spent.add(cost); break
-            case 3: q3Spent = q3Spent.add(cost); break
-            case 4: q4Spent = q4Spent.add(cost); break
+          const yearSpent = spentByYear.get(fiscalYear) ?? {
+            q1Spent: new Decimal(0),
+            q2Spent: new Decimal(0),
+            q3Spent: new Decimal(0),
+            q4Spent: new Decimal(0)
           }
+          const quarterKey = `q${quarter}Spent` as const
+          yearSpent[quarterKey] = yearSpent[quarterKey].add(cost)
+          spentByYear.set(fiscalYear, yearSpent)
         } catch (error) {
           console.warn('Error processing time entry:', entry.id, error)
         }
       })
 
-      // ✅ FIXED: Update project with Prisma Decimals
-      await prisma.project.update({
-        where: { id: projectId },
-        data: {
-          q1Spent,
-          q2Spent,
-          q3Spent,
-          q4Spent
-        }
-      })
-
-      console.log(`Updated spending for project ${projectId}:`, {
-        q1Spent: q1Spent.toFixed(2),
-        q2Spent: q2Spent.toFixed(2),
-        q3Spent: q3Spent.toFixed(2),
-        q4Spent: q4Spent.toFixed(2)
-      })
+      // Store per-year spend; the current year is mirrored to the project
+      await ProjectBudgetManager.writeSpent(
+        projectId,
+        new Map(Array.from(spentByYear, ([fiscalYear, spent]) => [fiscalYear, {
+          q1Spent: spent.q1Spent.toNumber(),
+          q2Spent: spent.q2Spent.toNumber(),
+          q3Spent: spent.q3Spent.toNumber(),
+          q4Spent: spent.q4Spent.toNumber()
+        }])),
+        { startMonth }
+      )
+
+      console.log(`Updated spending for project ${projectId}:`,
+        Object.fromEntries(Array.from(spentByYear, ([fiscalYear, spent]) => [fiscalYear, {
+          q1Spent: spent.q1Spent.toFixed(2),
+          q2Spent: spent.q2Spent.toFixed(2),
+          q3Spent: spent.q3Spent.toFixed(2),
+          q4Spent: spent.q4Spent.toFixed(2)
+        }]))
+      )
+
+      // Tell budget editors about newly crossed utilization thresholds
+      await BudgetAlertManager.checkProject(projectId)
 
     } catch (error) {
       console.error('Failed to update project spending:', error)
@@ -172,7 +171,7 @@ export class SpendingCalculator {
     // ✅ FIXED: Safe decimal conversion and calculation
     const rate = safeDecimalToNumber(user.employeeRate)
     const cost = hours * rate
-    const quarter = getFiscalQuarter(entryDate)
+    const quarter = getFiscalQuarter(entryDate, await FiscalSettingsManager.getStartMonth())
     const quarterKey = `q${quarter}Spent` as const
 
     // ✅ FIXED: Validate calculated cost
@@ -0,0 +1,405 @@
+// lib/tasks.ts
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/app/generated/prisma'
+import { AuditActor, AuditLogger } from '@/lib/audit-log'
+
+export interface TaskInput {
+  name?: string
+  code?: string | null
+  estimateHours?: number | null
+  active?: boolean
+  assigneeIds?: string[]
+}
+
+export interface TaskSummary {
+  id: string
+  projectId: string
+  name: string
+  code: string | null
+  estimateHours: number | null
+  active: boolean
+  assignees: { id: string; name: string | null; email: string }[]
+  loggedHours: number
+  entries: number
+}
+
+// The fields entry pickers need
+export interface SelectableTask {
+  id: string
+  projectId: string
+  name: string
+  code: string | null
+}
+
+export interface TaskUser {
+  id: string
+  role: string
+}
+
+export type TaskResult =
+  | { success: true; task: TaskSummary }
+  | { success: false; error: string; status: number }
+
+export type TaskCheckResult =
+  | { success: true }
+  | { success: false; error: string; status: number }
+
+const taskInclude = {
+  assignees: {
+    include: {
+      user: { select: { id: true, name: true, email: true } }
+    }
+  },
+  _count: { select: { timeEntries: true } }
+} as const
+
+type TaskWithAssignees = Prisma.TaskGetPayload<{ include: typeof taskInclude }>
+
+function toSummary(task: TaskWithAssignees, loggedHours: number): TaskSummary {
+  return {
+    id: task.id,
+    projectId: task.projectId,
+    name: task.name,
+    code: task.code,
+    estimateHours: task.estimateHours === null ? null : Number(task.estimateHours),
+    active: task.active,
+    assignees: task.assignees.map(assignee => assignee.user),
+    loggedHours,
+    entries: task._count.timeEntries
+  }
+}
+
+function taskSnapshot(task: TaskSummary) {
+  return {
+    name: task.name,
+    code: task.code,
+    estimateHours: task.estimateHours,
+    active: task.active,
+    assignees: task.assignees.map(assignee => assignee.id)
+  }
+}
+
+export class TaskManager {
+  /**
+   * Admins and users with full access to the project maintain its tasks
+   */
+  static async canManage(user: TaskUser, projectId: string): Promise<boolean> {
+    if (user.role === 'ADMIN') return true
+
+    const permission = await prisma.projectPermission.findFirst({
+      where: { userId: user.id, projectId, permission: 'FULL_ACCESS' }
+    })
+
+    return !!permission
+  }
+
+  static async listForProject(projectId: string): Promise<TaskSummary[]> {
+    const tasks = await prisma.task.findMany({
+      where: { projectId },
+      include: taskInclude,
+      orderBy: [{ active: 'desc' }, { name: 'asc' }]
+    })
+
+    const hours = await prisma.timeEntry.groupBy({
+      by: ['taskId'],
+      where: { projectId, taskId: { not: null } },
+      _sum: { hours: true }
+    })
+    const hoursByTask = new Map(hours.map(row => [row.taskId, Number(row._sum.hours ?? 0)]))
+
+    return tasks.map(task => toSummary(task, hoursByTask.get(task.id) ?? 0))
+  }
+
+  /**
+   * Active tasks the user can book time against: open tasks and tasks assigned to them,
+   * on projects that are not archived. Admins can pick any active task.
+   */
+  static async listSelectable(user: TaskUser, projectId?: string): Promise<SelectableTask[]> {
+    return prisma.task.findMany({
+      where: {
+        active: true,
+        ...(projectId ? { projectId } : {}),
+        project: { active: true, archivedAt: null },
+        ...(user.role === 'ADMIN' ? {} : {
+          OR: [
+            { assignees: { none: {} } },
+            { assignees: { some: { userId: user.id } } }
+          ]
+        })
+      },
+      select: { id: true, projectId: true, name: true, code: true },
+      orderBy: [{ code: 'asc' }, { name: 'asc' }]
+    })
+  }
+
+  /**
+   * Whether an entry for `userId` on `projectId` may be booked against the task.
+   * Admins may book on behalf of users who are not assignees.
+   */
+  static async checkSelectable(projectId: string, taskId: string, userId: string, role: string): Promise<TaskCheckResult> {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: {
+        projectId: true,
+        name: true,
+        active: true,
+        assignees: { select: { userId: true } }
+      }
+    })
+
+    if (!task || task.projectId !== projectId) {
+      return { success: false, error: 'Task not found on this project', status: 400 }
+    }
+
+    if (!task.active) {
+      return { success: false, error: `Task ${task.name} is inactive`, status: 409 }
+    }
+
+    if (role !== 'ADMIN' && task.assignees.length > 0 && !task.assignees.some(assignee => assignee.userId === userId)) {
+      return { success: false, error: `You are not assigned to task ${task.name}`, status: 403 }
+    }
+
+    return { success: true }
+  }
+
+  static async create(projectId: string, input: TaskInput, actor: AuditActor): Promise<TaskResult> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, archivedAt: true }
+    })
+
+    if (!project) {
+      return { success: false, error: 'Project not found', status: 404 }
+    }
+
+    if (project.archivedAt) {
+      return { success: false, error: 'This project is archived. Restore it before adding tasks.', status: 409 }
+    }
+
+    const assigneeIds = await this.validAssigneeIds(input.assigneeIds ?? [])
+
+    try {
+      const created = await prisma.task.create({
+        data: {
+          projectId,
+          name: input.name!.trim(),
+          code: input.code || null,
+          estimateHours: input.estimateHours ?? null,
+          active: input.active ?? true,
+          assignees: { create: assigneeIds.map(userId => ({ userId })) }
+        },
+        include: taskInclude
+      })
+
+      const task = toSummary(created, 0)
+
+      await AuditLogger.record({
+        actor,
+        action: 'CREATE',
+        entityType: 'TASK',
+        entityId: task.id,
+        after: taskSnapshot(task),
+        metadata: { projectId }
+      })
+
+      return { success: true, task }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, error: 'A task with this name already exists on the project', status: 409 }
+      }
+      throw error
+    }
+  }
+
+  static async update(projectId: string, taskId: string, input: TaskInput, actor: AuditActor): Promise<TaskResult> {
+    const existing = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: taskInclude
+    })
+
+    if (!existing || existing.projectId !== projectId) {
+      return { success: false, error: 'Task not found', status: 404 }
+    }
+
+    const assigneeIds = input.assigneeIds ? await this.validAssigneeIds(input.assigneeIds) : null
+
+    try {
+      const updated = await prisma.$transaction(async (tx) => {
+        if (assigneeIds) {
+          await tx.taskAssignee.deleteMany({ where: { taskId, userId: { notIn: assigneeIds } } })
+          await tx.taskAssignee.createMany({
+            data: assigneeIds.map(userId => ({ taskId, userId })),
+            skipDuplicates: true
+          })
+        }
+
+        return tx.task.update({
+          where: { id: taskId },
+          data: {
+            ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+            ...(input.code !== undefined ? { code: input.code || null } : {}),
+            ...(input.estimateHours !== undefined ? { estimateHours: input.estimateHours } : {}),
+            ...(input.active !== undefined ? { active: input.active } : {})
+          },
+          include: taskInclude
+        })
+      })
+
+      const hours = await prisma.timeEntry.aggregate({ where: { taskId }, _sum: { hours: true } })
+      const task = toSummary(updated, Number(hours._sum.hours ?? 0))
+
+      await AuditLogger.record({
+        actor,
+        action: 'UPDATE',
+        entityType: 'TASK',
+        entityId: taskId,
+        before: taskSnapshot(toSummary(existing, task.loggedHours)),
+        after: taskSnapshot(task),
+        metadata: { projectId }
+      })
+
+      return { success: true, task }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { success: false, error: 'A task with this name already exists on the project', status: 409 }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Delete a task nobody has booked time against. Tasks with entries are deactivated
+   * instead so the per-task breakdown in reports stays intact.
+   */
+  static async delete(projectId: string, taskId: string, actor: AuditActor): Promise<TaskCheckResult> {
+    const existing = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: taskInclude
+    })
+
+    if (!existing || existing.projectId !== projectId) {
+      return { success: false, error: 'Task not found', status: 404 }
+    }
+
+    if (existing._count.timeEntries > 0) {
+      return {
+        success: false,
+        error: `${existing._count.timeEntries} time entries are booked against this task. Deactivate it instead.`,
+        status: 409
+      }
+    }
+
+    await prisma.task.delete({ where: { id: taskId } })
+
+    await AuditLogger.record({
+      actor,
+      action: 'DELETE',
+      entityType: 'TASK',
+      entityId: taskId,
+      before: taskSnapshot(toSummary(existing, 0)),
+      metadata: { projectId }
+    })
+
+    return { success: true }
+  }
+
+  private static async validAssigneeIds(userIds: string[]): Promise<string[]> {
+    if (userIds.length === 0) return []
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true }
+    })
+
+    return users.map(user => user.id)
+  }
+}
+
+export interface TaskBreakdownRow {
+  taskId: string | null // null collects entries booked without a task
+  name: string
+  code: string | null
+  estimateHours: number | null
+  loggedHours: number | null // across all fiscal years, to compare against the estimate
+  active: boolean
+  monthlyHours: Record<string, number>
+  monthlySpending: Record<string, number>
+  quarterlyHours: { q1: number; q2: number; q3: number; q4: number }
+  quarterlySpending: { q1: number; q2: number; q3: number; q4: number }
+  totalHours: number
+  totalSpending: number
+  users: number
+}
+
+/**
+ * Accumulates hours and cost per task for the project reports. Every task of the project
+ * gets a row, even without entries, so estimates can be compared against zero.
+ */
+export class TaskBreakdownBuilder {
+  private rows = new Map<string, TaskBreakdownRow & { userIds: Set<string> }>()
+
+  constructor(tasks: Pick<TaskSummary, 'id' | 'name' | 'code' | 'estimateHours' | 'loggedHours' | 'active'>[]) {
+    for (const task of tasks) {
+      this.rows.set(task.id, this.emptyRow(task.id, task.name, task.code, task.estimateHours, task.loggedHours, task.active))
+    }
+  }
+
+  add(taskId: string | null, userId: string, monthKey: string, quarter: number, hours: number, cost: number) {
+    const key = taskId ?? ''
+    let row = this.rows.get(key)
+    if (!row) {
+      row = taskId
+        ? this.emptyRow(taskId, 'Unknown task', null, null, null, false)
+        : this.emptyRow(null, 'No task', null, null, null, true)
+      this.rows.set(key, row)
+    }
+
+    const q = `q${quarter}` as keyof TaskBreakdownRow['quarterlyHours']
+    row.monthlyHours[monthKey] = (row.monthlyHours[monthKey] || 0) + hours
+    row.monthlySpending[monthKey] = (row.monthlySpending[monthKey] || 0) + cost
+    row.quarterlyHours[q] += hours
+    row.quarterlySpending[q] += cost
+    row.totalHours += hours
+    row.totalSpending += cost
+    row.userIds.add(userId)
+  }
+
+  /**
+   * Tasks by hours logged, with the "No task" row last
+   */
+  build(): TaskBreakdownRow[] {
+    return Array.from(this.rows.values())
+      .map(({ userIds, ...row }) => ({ ...row, users: userIds.size }))
+      .sort((a, b) => {
+        if (a.taskId === null) return 1
+        if (b.taskId === null) return -1
+        return b.totalHours - a.totalHours || a.name.localeCompare(b.name)
+      })
+  }
+
+  private emptyRow(
+    taskId: string | null,
+    name: string,
+    code: string | null,
+    estimateHours: number | null,
+    loggedHours: number | null,
+    active: boolean
+  ) {
+    return {
+      taskId,
+      name,
+      code,
+      estimateHours,
+      loggedHours,
+      active,
+      monthlyHours: {},
+      monthlySpending: {},
+      quarterlyHours: { q1: 0, q2: 0, q3: 0, q4: 0 },
+      quarterlySpending: { q1: 0, q2: 0, q3: 0, q4: 0 },
+      totalHours: 0,
+      totalSpending: 0,
+      users: 0,
+      userIds: new Set<string>()
+    }
+  }
+}
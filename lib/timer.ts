@@ -0,0 +1,398 @@
+// lib/timer.ts
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/app/generated/prisma'
+import { TimesheetPeriodManager, PeriodInfo } from '@/lib/timesheet-periods'
+import { NotificationManager } from '@/lib/notifications'
+import { AuditLogger, timeEntrySnapshot } from '@/lib/audit-log'
+import { TaskManager } from '@/lib/tasks'
+import { EntryValidator, MAX_ENTRY_HOURS } from '@/lib/entry-validation'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+
+export interface TimerSettings {
+  timerAutoStopHours: number
+}
+
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  timerAutoStopHours: 12
+}
+
+export interface TimerUser {
+  id: string
+  email?: string | null
+  role: string
+}
+
+const timerInclude = {
+  project: {
+    select: {
+      id: true,
+      name: true,
+      color: true
+    }
+  },
+  task: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+} as const
+
+export type RunningTimer = Prisma.TimeEntryGetPayload<{ include: typeof timerInclude }>
+
+export type TimerResult =
+  | { success: true; timer: RunningTimer; stopped?: RunningTimer }
+  | { success: false; error: string; status: number; period?: PeriodInfo; timer?: RunningTimer }
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function durationFields(startTime: Date, endTime: Date) {
+  const duration = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60))
+  return {
+    endTime,
+    duration,
+    hours: parseFloat((duration / 60).toFixed(2))
+  }
+}
+
+export class TimerManager {
+  static async getSettings(): Promise<TimerSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { id: 'default' },
+      select: { timerAutoStopHours: true }
+    })
+
+    // Limits saved before entries were capped at MAX_ENTRY_HOURS may be higher
+    return settings
+      ? { timerAutoStopHours: Math.min(settings.timerAutoStopHours, MAX_ENTRY_HOURS) }
+      : { ...DEFAULT_TIMER_SETTINGS }
+  }
+
+  static async updateSettings(data: TimerSettings, adminUserId: string): Promise<TimerSettings> {
+    // Stopped timers must still be valid entries
+    if (data.timerAutoStopHours < 1 || data.timerAutoStopHours > MAX_ENTRY_HOURS) {
+      throw new Error(`Auto-stop limit must be between 1 and ${MAX_ENTRY_HOURS} hours`)
+    }
+
+    await prisma.organizationSettings.upsert({
+      where: { id: 'default' },
+      create: { id: 'default', ...data, updatedBy: adminUserId },
+      update: { ...data, updatedBy: adminUserId }
+    })
+
+    return this.getSettings()
+  }
+
+  /**
+   * Close timers that have been running longer than the configured limit.
+   * The entry ends exactly at the limit, its owner is notified and project spend is recalculated.
+   * Runs for everyone from the timers cron route and for one user on each of their timer calls.
+   */
+  static async autoStopExpired(userId?: string, now: Date = new Date()): Promise<number> {
+    const { timerAutoStopHours } = await this.getSettings()
+    const limitMs = timerAutoStopHours * 60 * 60 * 1000
+
+    const expired = await prisma.timeEntry.findMany({
+      where: {
+        ...(userId ? { userId } : {}),
+        endTime: null,
+        startTime: { lt: new Date(now.getTime() - limitMs) }
+      },
+      include: timerInclude
+    })
+
+    let stoppedCount = 0
+    const stoppedProjectIds = new Set<string>()
+
+    for (const entry of expired) {
+      const fields = durationFields(entry.startTime, new Date(entry.startTime.getTime() + limitMs))
+
+      // Guard against a concurrent stop by only closing entries that are still open
+      const { count } = await prisma.timeEntry.updateMany({
+        where: { id: entry.id, endTime: null },
+        data: fields
+      })
+
+      if (count === 0) continue
+      stoppedCount++
+      stoppedProjectIds.add(entry.projectId)
+
+      await AuditLogger.record({
+        actor: null,
+        action: 'UPDATE',
+        entityType: 'TIME_ENTRY',
+        entityId: entry.id,
+        before: timeEntrySnapshot(entry),
+        after: timeEntrySnapshot({ ...entry, ...fields }),
+        metadata: { source: 'timer', reason: 'auto-stop', limitHours: timerAutoStopHours }
+      })
+
+      await NotificationManager.notify({
+        userId: entry.userId,
+        type: 'TIMER_AUTO_STOPPED',
+        title: 'Timer stopped automatically',
+        message: `Your timer on ${entry.project.name} ran for more than ${timerAutoStopHours} hours and was stopped. Please check the entry for ${entry.startTime.toLocaleDateString()}.`,
+        link: '/calendar'
+      })
+    }
+
+    for (const projectId of stoppedProjectIds) {
+      try {
+        await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(projectId)
+      } catch (spendingError) {
+        console.error(`Failed to update spending for project ${projectId}:`, spendingError)
+      }
+    }
+
+    return stoppedCount
+  }
+
+  /**
+   * The user's running timer, if any, after closing timers past the limit
+   */
+  static async getCurrent(userId: string): Promise<RunningTimer | null> {
+    await this.autoStopExpired(userId)
+
+    return prisma.timeEntry.findFirst({
+      where: { userId, endTime: null },
+      include: timerInclude,
+      orderBy: { startTime: 'desc' }
+    })
+  }
+
+  static async start(user: TimerUser, projectId: string, description?: string, taskId?: string | null): Promise<TimerResult> {
+    await this.autoStopExpired(user.id)
+
+    const check = await this.checkCanStart(user, projectId, taskId)
+    if (!check.success) return check
+
+    const now = new Date()
+    const result = await prisma.$transaction(async (tx) => {
+      const running = await tx.timeEntry.findFirst({
+        where: { userId: user.id, endTime: null },
+        include: timerInclude
+      })
+
+      if (running) {
+        return { running }
+      }
+
+      const timer = await tx.timeEntry.create({
+        data: {
+          userId: user.id,
+          projectId,
+          taskId: taskId || null,
+          description: description || null,
+          startTime: now,
+          endTime: null,
+          duration: null,
+          hours: 0,
+          date: startOfDay(now)
+        },
+        include: timerInclude
+      })
+
+      return { timer }
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+
+    if (result.running) {
+      return {
+        success: false,
+        error: 'A timer is already running. Stop it or switch to another project.',
+        status: 409,
+        timer: result.running
+      }
+    }
+
+    await AuditLogger.record({
+      actor: { id: user.id, email: user.email },
+      action: 'CREATE',
+      entityType: 'TIME_ENTRY',
+      entityId: result.timer.id,
+      after: timeEntrySnapshot(result.timer),
+      metadata: { source: 'timer' }
+    })
+
+    return { success: true, timer: result.timer }
+  }
+
+  static async stop(user: TimerUser): Promise<TimerResult> {
+    await this.autoStopExpired(user.id)
+
+    const running = await prisma.timeEntry.findFirst({
+      where: { userId: user.id, endTime: null },
+      include: timerInclude
+    })
+
+    if (!running) {
+      return { success: false, error: 'No timer is running', status: 404 }
+    }
+
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess([running.date], user.role)
+    if (!periodAccess.allowed) {
+      return { success: false, error: periodAccess.error, status: 403, period: periodAccess.period }
+    }
+
+    const fields = durationFields(running.startTime, new Date())
+    const { count } = await prisma.timeEntry.updateMany({
+      where: { id: running.id, endTime: null },
+      data: fields
+    })
+
+    if (count === 0) {
+      return { success: false, error: 'No timer is running', status: 404 }
+    }
+
+    const stopped = { ...running, ...fields, hours: new Prisma.Decimal(fields.hours) }
+
+    await AuditLogger.record({
+      actor: { id: user.id, email: user.email },
+      action: 'UPDATE',
+      entityType: 'TIME_ENTRY',
+      entityId: running.id,
+      before: timeEntrySnapshot(running),
+      after: timeEntrySnapshot(stopped),
+      metadata: { source: 'timer' }
+    })
+
+    return { success: true, timer: stopped }
+  }
+
+  /**
+   * Stop the running timer and start another at the same instant, so no time is lost between them
+   */
+  static async switch(user: TimerUser, projectId: string, description?: string, taskId?: string | null): Promise<TimerResult> {
+    await this.autoStopExpired(user.id)
+
+    const check = await this.checkCanStart(user, projectId, taskId)
+    if (!check.success) return check
+
+    const running = await prisma.timeEntry.findFirst({
+      where: { userId: user.id, endTime: null },
+      include: timerInclude
+    })
+
+    if (running) {
+      const periodAccess = await TimesheetPeriodManager.checkWriteAccess([running.date], user.role)
+      if (!periodAccess.allowed) {
+        return { success: false, error: periodAccess.error, status: 403, period: periodAccess.period }
+      }
+    }
+
+    const now = new Date()
+    const result = await prisma.$transaction(async (tx) => {
+      let stopped: RunningTimer | undefined
+
+      if (running) {
+        const fields = durationFields(running.startTime, now)
+        const { count } = await tx.timeEntry.updateMany({
+          where: { id: running.id, endTime: null },
+          data: fields
+        })
+
+        if (count > 0) {
+          stopped = { ...running, ...fields, hours: new Prisma.Decimal(fields.hours) }
+        }
+      }
+
+      const timer = await tx.timeEntry.create({
+        data: {
+          userId: user.id,
+          projectId,
+          taskId: taskId || null,
+          description: description || null,
+          startTime: now,
+          endTime: null,
+          duration: null,
+          hours: 0,
+          date: startOfDay(now)
+        },
+        include: timerInclude
+      })
+
+      return { stopped, timer }
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+
+    if (result.stopped) {
+      await AuditLogger.record({
+        actor: { id: user.id, email: user.email },
+        action: 'UPDATE',
+        entityType: 'TIME_ENTRY',
+        entityId: result.stopped.id,
+        before: running ? timeEntrySnapshot(running) : undefined,
+        after: timeEntrySnapshot(result.stopped),
+        metadata: { source: 'timer', switchedTo: result.timer.id }
+      })
+    }
+
+    await AuditLogger.record({
+      actor: { id: user.id, email: user.email },
+      action: 'CREATE',
+      entityType: 'TIME_ENTRY',
+      entityId: result.timer.id,
+      after: timeEntrySnapshot(result.timer),
+      metadata: { source: 'timer', switchedFrom: result.stopped?.id }
+    })
+
+    return { success: true, timer: result.timer, stopped: result.stopped }
+  }
+
+  /**
+   * Project, task, period lock and overlap checks for a timer starting now
+   */
+  private static async checkCanStart(
+    user: TimerUser,
+    projectId: string,
+    taskId?: string | null
+  ): Promise<{ success: true } | { success: false; error: string; status: number; period?: PeriodInfo }> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, active: true, archivedAt: true }
+    })
+
+    if (!project || !project.active) {
+      return { success: false, error: 'Project not found', status: 404 }
+    }
+
+    if (project.archivedAt) {
+      return { success: false, error: 'This project is archived', status: 409 }
+    }
+
+    if (user.role !== 'ADMIN') {
+      const projectAccess = await prisma.projectUser.findFirst({
+        where: { userId: user.id, projectId }
+      })
+
+      if (!projectAccess) {
+        return { success: false, error: 'No access to this project', status: 403 }
+      }
+    }
+
+    if (taskId) {
+      const taskCheck = await TaskManager.checkSelectable(projectId, taskId, user.id, user.role)
+      if (!taskCheck.success) return taskCheck
+    }
+
+    const periodAccess = await TimesheetPeriodManager.checkWriteAccess([new Date()], user.role)
+    if (!periodAccess.allowed) {
+      return { success: false, error: periodAccess.error, status: 403, period: periodAccess.period }
+    }
+
+    // The running timer is dealt with by start and switch; this catches finished entries covering now
+    const running = await prisma.timeEntry.findFirst({
+      where: { userId: user.id, endTime: null },
+      select: { id: true }
+    })
+    const validation = await EntryValidator.validate(
+      { userId: user.id, startTime: new Date(), endTime: null, excludeEntryId: running?.id },
+      { role: user.role }
+    )
+    if (!validation.success) {
+      return { success: false, error: validation.error, status: validation.status }
+    }
+
+    return { success: true }
+  }
+}
@@ -0,0 +1,265 @@
+// lib/timesheet-approvals.ts
+import { prisma } from '@/lib/prisma'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+import { AuditLogger } from '@/lib/audit-log'
+import { startOfWeek, endOfWeek } from 'date-fns'
+
+export type ApprovalStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED'
+
+export type ReviewDecision = 'approve' | 'reject'
+
+export interface Reviewer {
+  id: string
+  role: string
+}
+
+export class TimesheetApprovalManager {
+  /**
+   * Monday to Sunday range of the week containing the given date
+   */
+  static getWeekRange(date: Date): { weekStart: Date; weekEnd: Date } {
+    if (!date || !(date instanceof Date) || isNaN(date.getTime())) {
+      throw new Error('Invalid date provided to getWeekRange')
+    }
+
+    return {
+      weekStart: startOfWeek(date, { weekStartsOn: 1 }),
+      weekEnd: endOfWeek(date, { weekStartsOn: 1 })
+    }
+  }
+
+  /**
+   * Employees may only change entries that have not been submitted or approved yet
+   */
+  static isEditableByOwner(status: ApprovalStatus): boolean {
+    return status === 'DRAFT' || status === 'REJECTED'
+  }
+
+  /**
+   * Projects a user may review. Admins may review everything (null),
+   * other users only projects where they hold FULL_ACCESS.
+   */
+  static async getReviewableProjectIds(reviewer: Reviewer): Promise<string[] | null> {
+    if (reviewer.role === 'ADMIN') {
+      return null
+    }
+
+    const permissions = await prisma.projectPermission.findMany({
+      where: { userId: reviewer.id, permission: 'FULL_ACCESS' },
+      select: { projectId: true }
+    })
+
+    return permissions.map(p => p.projectId)
+  }
+
+  static async getSubmissionForWeek(userId: string, date: Date) {
+    const { weekStart } = this.getWeekRange(date)
+
+    return prisma.timesheetSubmission.findUnique({
+      where: { userId_weekStart: { userId, weekStart } }
+    })
+  }
+
+  /**
+   * Submit every draft or rejected entry in a week for approval
+   */
+  static async submitWeek(userId: string, date: Date) {
+    if (!userId || typeof userId !== 'string') {
+      throw new Error('Invalid user ID provided')
+    }
+
+    const { weekStart, weekEnd } = this.getWeekRange(date)
+
+    const entries = await prisma.timeEntry.findMany({
+      where: {
+        userId,
+        date: { gte: weekStart, lte: weekEnd },
+        status: { in: ['DRAFT', 'REJECTED'] }
+      },
+      select: { id: true, endTime: true }
+    })
+
+    if (entries.length === 0) {
+      throw new Error('There are no draft or rejected entries to submit for this week')
+    }
+
+    if (entries.some(entry => !entry.endTime)) {
+      throw new Error('Stop all running entries before submitting the week')
+    }
+
+    const submission = await prisma.$transaction(async (tx) => {
+      const submission = await tx.timesheetSubmission.upsert({
+        where: { userId_weekStart: { userId, weekStart } },
+        create: { userId, weekStart, weekEnd, status: 'SUBMITTED' },
+        update: {
+          status: 'SUBMITTED',
+          submittedAt: new Date(),
+          reviewedAt: null,
+          reviewedBy: null,
+          reviewComment: null
+        }
+      })
+
+      await tx.timeEntry.updateMany({
+        where: { id: { in: entries.map(entry => entry.id) } },
+        data: {
+          status: 'SUBMITTED',
+          submissionId: submission.id,
+          reviewComment: null
+        }
+      })
+
+      return submission
+    })
+
+    console.log(`User ${userId} submitted ${entries.length} entries for week of ${weekStart.toISOString()}`)
+
+    await AuditLogger.record({
+      actor: { id: userId },
+      action: 'SUBMIT',
+      entityType: 'TIMESHEET_SUBMISSION',
+      entityId: submission.id,
+      after: { status: submission.status, weekStart, entryIds: entries.map(entry => entry.id) }
+    })
+
+    return submission
+  }
+
+  /**
+   * Submissions with entries waiting on this reviewer, limited to the projects they may review
+   */
+  static async getPendingSubmissions(reviewer: Reviewer) {
+    const projectIds = await this.getReviewableProjectIds(reviewer)
+
+    if (projectIds && projectIds.length === 0) {
+      return []
+    }
+
+    const entryFilter = {
+      status: 'SUBMITTED' as const,
+      ...(projectIds ? { projectId: { in: projectIds } } : {})
+    }
+
+    return prisma.timesheetSubmission.findMany({
+      where: {
+        userId: reviewer.role === 'ADMIN' ? undefined : { not: reviewer.id },
+        entries: { some: entryFilter }
+      },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        },
+        entries: {
+          where: entryFilter,
+          include: {
+            project: {
+              select: { id: true, name: true, color: true }
+            }
+          },
+          orderBy: { startTime: 'asc' }
+        }
+      },
+      orderBy: { weekStart: 'asc' }
+    })
+  }
+
+  /**
+   * Approve or reject the submitted entries of a week that fall in the reviewer's projects.
+   * The submission status is then derived from all of its entries.
+   */
+  static async reviewSubmission(
+    submissionId: string,
+    reviewer: Reviewer,
+    decision: ReviewDecision,
+    comment?: string
+  ) {
+    if (decision === 'reject' && (!comment || !comment.trim())) {
+      throw new Error('A comment is required when rejecting a timesheet')
+    }
+
+    const submission = await prisma.timesheetSubmission.findUnique({
+      where: { id: submissionId },
+      include: {
+        entries: {
+          select: { id: true, projectId: true, status: true }
+        }
+      }
+    })
+
+    if (!submission) {
+      throw new Error('Submission not found')
+    }
+
+    if (submission.userId === reviewer.id && reviewer.role !== 'ADMIN') {
+      throw new Error('You cannot review your own timesheet')
+    }
+
+    const projectIds = await this.getReviewableProjectIds(reviewer)
+    const reviewableEntries = submission.entries.filter(entry =>
+      entry.status === 'SUBMITTED' && (!projectIds || projectIds.includes(entry.projectId))
+    )
+
+    if (reviewableEntries.length === 0) {
+      throw new Error('There are no entries in this submission you can review')
+    }
+
+    const newEntryStatus: ApprovalStatus = decision === 'approve' ? 'APPROVED' : 'REJECTED'
+    const reviewedIds = new Set(reviewableEntries.map(entry => entry.id))
+    const entryStatuses = submission.entries.map(entry =>
+      reviewedIds.has(entry.id) ? newEntryStatus : entry.status
+    )
+
+    let submissionStatus: ApprovalStatus = 'SUBMITTED'
+    if (entryStatuses.includes('REJECTED')) {
+      submissionStatus = 'REJECTED'
+    } else if (entryStatuses.every(status => status === 'APPROVED')) {
+      submissionStatus = 'APPROVED'
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.timeEntry.updateMany({
+        where: { id: { in: Array.from(reviewedIds) } },
+        data: {
+          status: newEntryStatus,
+          reviewComment: comment?.trim() || null
+        }
+      })
+
+      return tx.timesheetSubmission.update({
+        where: { id: submissionId },
+        data: {
+          status: submissionStatus,
+          reviewedAt: new Date(),
+          reviewedBy: reviewer.id,
+          reviewComment: comment?.trim() || null
+        }
+      })
+    })
+
+    console.log(`Reviewer ${reviewer.id} ${decision === 'approve' ? 'approved' : 'rejected'} ${reviewedIds.size} entries of submission ${submissionId}`)
+
+    await AuditLogger.record({
+      actor: { id: reviewer.id },
+      action: decision === 'approve' ? 'APPROVE' : 'REJECT',
+      entityType: 'TIMESHEET_SUBMISSION',
+      entityId: submissionId,
+      before: { status: submission.status },
+      after: { status: updated.status, entryIds: Array.from(reviewedIds) },
+      metadata: comment?.trim() ? { comment: comment.trim() } : undefined
+    })
+
+    // Only approved hours count towards spend, so refresh the affected projects
+    if (decision === 'approve') {
+      const affectedProjects = new Set(reviewableEntries.map(entry => entry.projectId))
+      for (const projectId of affectedProjects) {
+        try {
+          await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(projectId)
+        } catch (spendingError) {
+          console.error(`Failed to update spending for project ${projectId}:`, spendingError)
+        }
+      }
+    }
+
+    return updated
+  }
+}
@@ -0,0 +1,453 @@
+// lib/timesheet-grid.ts
+import { prisma } from '@/lib/prisma'
+import { addDays, format, startOfWeek } from 'date-fns'
+import { AuditActor, AuditLogger, timeEntrySnapshot } from '@/lib/audit-log'
+import { TimesheetPeriodManager } from '@/lib/timesheet-periods'
+import { TimesheetApprovalManager } from '@/lib/timesheet-approvals'
+import { EntryConflict, EntryValidationResult, EntryValidator } from '@/lib/entry-validation'
+import { EntryFieldManager } from '@/lib/entry-fields'
+import { WorkScheduleManager } from '@/lib/work-schedules'
+import { EnhancedSpendingCalculator } from '@/lib/spending-calculator-enhanced'
+
+// Hours typed into an empty cell become an entry starting here, or after the day's last entry
+const DAY_START_MINUTES = 9 * 60
+
+const NOT_WRITABLE = 'You cannot log time on this project'
+
+export interface GridUser extends AuditActor {
+  role: string
+}
+
+export interface GridCell {
+  date: string // yyyy-MM-dd
+  hours: number
+  entryCount: number
+  readOnly: string | null // why the cell can only be changed from the calendar
+}
+
+export interface GridRow {
+  projectId: string
+  projectName: string
+  projectColor: string
+  cells: GridCell[]
+}
+
+export interface GridDay {
+  date: string
+  expectedHours: number
+  locked: string | null
+  timeOff: string | null // holiday or leave name
+}
+
+export interface TimesheetWeekGrid {
+  weekStart: string
+  days: GridDay[]
+  rows: GridRow[]
+  projects: { id: string; name: string; color: string }[] // projects the user can add a row for
+  expectedWeeklyHours: number
+}
+
+export interface GridCellChange {
+  projectId: string
+  date: string
+  hours: number
+}
+
+export interface GridCellError {
+  projectId: string
+  date: string
+  error: string
+}
+
+export type GridSaveResult =
+  | { success: true; created: number; updated: number; deleted: number }
+  | { success: false; error: string; status: number; cellErrors: GridCellError[]; overridable: boolean }
+
+type WeekEntry = Awaited<ReturnType<typeof loadWeekEntries>>[number]
+
+function loadWeekEntries(userId: string, weekStart: Date) {
+  return prisma.timeEntry.findMany({
+    where: { userId, startTime: { gte: weekStart, lt: addDays(weekStart, 7) } },
+    select: {
+      id: true,
+      userId: true,
+      projectId: true,
+      taskId: true,
+      description: true,
+      startTime: true,
+      endTime: true,
+      duration: true,
+      hours: true,
+      date: true,
+      status: true,
+      invoiceId: true,
+      project: { select: { name: true, color: true } }
+    },
+    orderBy: { startTime: 'asc' }
+  })
+}
+
+function cellKey(projectId: string, date: string): string {
+  return `${projectId}:${date}`
+}
+
+function toHours(minutes: number): number {
+  return parseFloat((minutes / 60).toFixed(2))
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  const date = new Date(day)
+  date.setHours(0, minutes, 0, 0)
+  return date
+}
+
+/**
+ * Project × weekday view of a user's time. A cell stands for the entries of one project on
+ * one day; it can be typed into when it has at most one entry and that entry is still editable.
+ */
+export class TimesheetGrid {
+  static async getWeek(user: GridUser, date: Date): Promise<TimesheetWeekGrid> {
+    const weekStart = startOfWeek(date, { weekStartsOn: 1 })
+    const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+
+    const [entries, projects, schedules] = await Promise.all([
+      loadWeekEntries(user.id, weekStart),
+      this.getWritableProjects(user),
+      WorkScheduleManager.loadTimeline([user.id], weekStart, days[6])
+    ])
+
+    const cells = new Map<string, WeekEntry[]>()
+    const rowProjects = new Map<string, { name: string; color: string }>()
+    for (const entry of entries) {
+      const key = cellKey(entry.projectId, format(entry.startTime, 'yyyy-MM-dd'))
+      cells.set(key, [...(cells.get(key) ?? []), entry])
+      rowProjects.set(entry.projectId, entry.project)
+    }
+
+    const locks = await this.getDayLocks(days, user.role)
+    const writableProjectIds = new Set(projects.map(project => project.id))
+
+    const rows: GridRow[] = [...rowProjects.entries()]
+      .sort(([, a], [, b]) => a.name.localeCompare(b.name))
+      .map(([projectId, project]) => ({
+        projectId,
+        projectName: project.name,
+        projectColor: project.color,
+        cells: days.map(day => {
+          const dateKey = format(day, 'yyyy-MM-dd')
+          const cellEntries = cells.get(cellKey(projectId, dateKey)) ?? []
+
+          return {
+            date: dateKey,
+            hours: toHours(cellEntries.reduce((sum, entry) => sum + (entry.duration ?? 0), 0)),
+            entryCount: cellEntries.length,
+            readOnly: locks.get(dateKey) ??
+              this.readOnlyReason(cellEntries, user.role) ??
+              (writableProjectIds.has(projectId) ? null : NOT_WRITABLE)
+          }
+        })
+      }))
+
+    return {
+      weekStart: format(weekStart, 'yyyy-MM-dd'),
+      days: days.map(day => ({
+        date: format(day, 'yyyy-MM-dd'),
+        expectedHours: schedules.expectedHoursOn(user.id, day),
+        locked: locks.get(format(day, 'yyyy-MM-dd')) ?? null,
+        timeOff: schedules.dayOff(user.id, day)?.name ?? null
+      })),
+      rows,
+      projects,
+      expectedWeeklyHours: schedules.expectedHoursBetween(user.id, weekStart, days[6])
+    }
+  }
+
+  /**
+   * Apply the changed cells of one week in a single transaction: an empty cell gains an entry,
+   * a cell with one entry has its length changed, and a cell set to zero loses its entry.
+   * Nothing is written unless every cell passes. Each new or changed entry goes through the
+   * same validation as any other write, so admins can save past its warnings with a reason.
+   */
+  static async saveWeek(
+    user: GridUser,
+    date: Date,
+    changes: GridCellChange[],
+    overrideReason?: string | null
+  ): Promise<GridSaveResult> {
+    const weekStart = startOfWeek(date, { weekStartsOn: 1 })
+    const days = new Map(Array.from({ length: 7 }, (_, index) => {
+      const day = addDays(weekStart, index)
+      return [format(day, 'yyyy-MM-dd'), day] as const
+    }))
+
+    const cellErrors: GridCellError[] = []
+    const fail = (change: GridCellChange, error: string) => cellErrors.push({ projectId: change.projectId, date: change.date, error })
+
+    const seen = new Set<string>()
+    for (const change of changes) {
+      const key = cellKey(change.projectId, change.date)
+      if (!days.has(change.date)) fail(change, 'This day is not in the week being saved')
+      else if (seen.has(key)) fail(change, 'This cell was sent more than once')
+      seen.add(key)
+    }
+    if (cellErrors.length > 0) {
+      return { success: false, error: 'Some cells could not be saved', status: 400, cellErrors, overridable: false }
+    }
+
+    const entries = await loadWeekEntries(user.id, weekStart)
+    const cells = new Map<string, WeekEntry[]>()
+    for (const entry of entries) {
+      const key = cellKey(entry.projectId, format(entry.startTime, 'yyyy-MM-dd'))
+      cells.set(key, [...(cells.get(key) ?? []), entry])
+    }
+
+    const writableProjects = new Map((await this.getWritableProjects(user)).map(project => [project.id, project]))
+    const locks = await this.getDayLocks([...days.values()], user.role)
+    const missingFields = new Map<string, string | null>()
+    const now = new Date()
+
+    const creates: { change: GridCellChange; minutes: number }[] = []
+    const updates: { change: GridCellChange; entry: WeekEntry; minutes: number }[] = []
+    const deletes: WeekEntry[] = []
+
+    for (const change of changes) {
+      const minutes = Math.round(change.hours * 60)
+      const cellEntries = cells.get(cellKey(change.projectId, change.date)) ?? []
+      const currentMinutes = cellEntries.reduce((sum, entry) => sum + (entry.duration ?? 0), 0)
+
+      if (minutes === currentMinutes) continue
+
+      const readOnly = locks.get(change.date) ?? this.readOnlyReason(cellEntries, user.role)
+      if (readOnly) {
+        fail(change, readOnly)
+        continue
+      }
+
+      // Also for existing hours: an archived or unassigned project cannot be changed from here
+      if (!writableProjects.has(change.projectId)) {
+        fail(change, NOT_WRITABLE)
+        continue
+      }
+
+      if (cellEntries.length === 1) {
+        if (minutes === 0) deletes.push(cellEntries[0])
+        else updates.push({ change, entry: cellEntries[0], minutes })
+        continue
+      }
+
+      // Fields required on the project cannot be filled in from the grid
+      if (!missingFields.has(change.projectId)) {
+        const fields = await EntryFieldManager.resolve(change.projectId, {})
+        missingFields.set(change.projectId, fields.success ? null : Object.values(fields.details).flat().join('; '))
+      }
+      const fieldError = missingFields.get(change.projectId)
+      if (fieldError) {
+        fail(change, `${fieldError}. Log this time from the calendar instead.`)
+        continue
+      }
+
+      creates.push({ change, minutes })
+    }
+
+    // New hours go after whatever is left on their day
+    const deletedIds = new Set(deletes.map(entry => entry.id))
+    const updatedMinutes = new Map(updates.map(update => [update.entry.id, update.minutes]))
+    const placed = new Map<GridCellChange, { startTime: Date; endTime: Date }>()
+
+    for (const dateKey of new Set(creates.map(create => create.change.date))) {
+      const day = days.get(dateKey)!
+      const dayEnds = entries
+        .filter(entry => format(entry.startTime, 'yyyy-MM-dd') === dateKey && !deletedIds.has(entry.id))
+        .map(entry => {
+          const minutes = updatedMinutes.get(entry.id)
+          const endTime = minutes !== undefined
+            ? new Date(entry.startTime.getTime() + minutes * 60 * 1000)
+            : entry.endTime ?? now
+          return Math.round((endTime.getTime() - day.getTime()) / (60 * 1000))
+        })
+
+      let nextStart = Math.max(DAY_START_MINUTES, ...dayEnds)
+      for (const create of creates.filter(c => c.change.date === dateKey)) {
+        if (nextStart + create.minutes > 24 * 60) {
+          fail(create.change, 'There is no room left on this day for these hours')
+          continue
+        }
+        placed.set(create.change, { startTime: atMinutes(day, nextStart), endTime: atMinutes(day, nextStart + create.minutes) })
+        nextStart += create.minutes
+      }
+    }
+
+    // Check every written entry against the stored ones and the rest of the week as it will be saved
+    const written: { change: GridCellChange; entry: EntryConflict & { endTime: Date } }[] = [
+      ...creates.filter(({ change }) => placed.has(change)).map(({ change }) => ({
+        change,
+        entry: { id: null, ...placed.get(change)!, projectName: writableProjects.get(change.projectId)!.name }
+      })),
+      ...updates.map(({ change, entry, minutes }) => ({
+        change,
+        entry: {
+          id: entry.id,
+          startTime: entry.startTime,
+          endTime: new Date(entry.startTime.getTime() + minutes * 60 * 1000),
+          projectName: entry.project.name
+        }
+      }))
+    ]
+    const replacedEntryIds = [...updates.map(update => update.entry.id), ...deletedIds]
+    const validations = new Map<GridCellChange, EntryValidationResult>()
+    let overridableErrors = 0
+
+    for (const item of written) {
+      const validation = await EntryValidator.validate(
+        {
+          userId: user.id,
+          startTime: item.entry.startTime,
+          endTime: item.entry.endTime,
+          batch: { replacedEntryIds, entries: written.filter(other => other !== item).map(other => other.entry) }
+        },
+        { role: user.role, reason: overrideReason }
+      )
+
+      if (validation.success) {
+        validations.set(item.change, validation)
+      } else {
+        fail(item.change, validation.error)
+        if (validation.overridable && validation.status === 409) overridableErrors++
+      }
+    }
+
+    if (cellErrors.length > 0) {
+      const overridable = overridableErrors === cellErrors.length
+      return { success: false, error: 'Some cells could not be saved', status: overridable ? 409 : 400, cellErrors, overridable }
+    }
+
+    // A corrected rejected entry goes back to draft so it can be resubmitted
+    const statusReset = (entry: WeekEntry) =>
+      entry.status === 'REJECTED' && user.role !== 'ADMIN' ? { status: 'DRAFT' as const } : {}
+
+    const { created, updated } = await prisma.$transaction(async tx => {
+      const created = []
+      for (const { change, minutes } of creates) {
+        const { startTime, endTime } = placed.get(change)!
+        created.push(await tx.timeEntry.create({
+          data: {
+            userId: user.id,
+            projectId: change.projectId,
+            startTime,
+            endTime,
+            duration: minutes,
+            hours: toHours(minutes),
+            date: days.get(change.date)!
+          }
+        }))
+      }
+
+      const updated = []
+      for (const { entry, minutes } of updates) {
+        updated.push(await tx.timeEntry.update({
+          where: { id: entry.id },
+          data: {
+            endTime: new Date(entry.startTime.getTime() + minutes * 60 * 1000),
+            duration: minutes,
+            hours: toHours(minutes),
+            ...statusReset(entry)
+          }
+        }))
+      }
+
+      if (deletes.length > 0) {
+        await tx.timeEntry.deleteMany({ where: { id: { in: deletes.map(entry => entry.id) } } })
+      }
+
+      return { created, updated }
+    })
+
+    const actor = { id: user.id, email: user.email }
+    const metadata = (change: GridCellChange) => ({ source: 'grid', ...EntryValidator.overrideMetadata(validations.get(change)!) })
+    for (const [index, entry] of created.entries()) {
+      await AuditLogger.record({
+        actor,
+        action: 'CREATE',
+        entityType: 'TIME_ENTRY',
+        entityId: entry.id,
+        after: timeEntrySnapshot(entry),
+        metadata: metadata(creates[index].change)
+      })
+    }
+    for (const [index, entry] of updated.entries()) {
+      await AuditLogger.record({
+        actor,
+        action: 'UPDATE',
+        entityType: 'TIME_ENTRY',
+        entityId: entry.id,
+        before: timeEntrySnapshot(updates[index].entry),
+        after: timeEntrySnapshot(entry),
+        metadata: metadata(updates[index].change)
+      })
+    }
+    for (const entry of deletes) {
+      await AuditLogger.record({
+        actor,
+        action: 'DELETE',
+        entityType: 'TIME_ENTRY',
+        entityId: entry.id,
+        before: timeEntrySnapshot(entry),
+        metadata: { source: 'grid' }
+      })
+    }
+
+    const projectIds = new Set([
+      ...created.map(entry => entry.projectId),
+      ...updated.map(entry => entry.projectId),
+      ...deletes.map(entry => entry.projectId)
+    ])
+    for (const projectId of projectIds) {
+      try {
+        await EnhancedSpendingCalculator.updateProjectSpendingWithHistory(projectId)
+      } catch (spendingError) {
+        console.error(`Failed to update spending for project ${projectId} after grid save:`, spendingError)
+      }
+    }
+
+    return { success: true, created: created.length, updated: updated.length, deleted: deletes.length }
+  }
+
+  // Admins can log time on any project; everyone else on the projects they are assigned to
+  private static async getWritableProjects(user: GridUser) {
+    return prisma.project.findMany({
+      where: {
+        active: true,
+        archivedAt: null,
+        ...(user.role === 'ADMIN' ? {} : { projectUsers: { some: { userId: user.id } } })
+      },
+      select: { id: true, name: true, color: true },
+      orderBy: { name: 'asc' }
+    })
+  }
+
+  private static async getDayLocks(days: Date[], role: string): Promise<Map<string, string>> {
+    const locks = new Map<string, string>()
+    const byMonth = new Map<string, string | null>()
+
+    for (const day of days) {
+      const month = format(day, 'yyyy-MM')
+      if (!byMonth.has(month)) {
+        const access = await TimesheetPeriodManager.checkWriteAccess([day], role)
+        byMonth.set(month, access.allowed ? null : access.error)
+      }
+      const error = byMonth.get(month)
+      if (error) locks.set(format(day, 'yyyy-MM-dd'), error)
+    }
+
+    return locks
+  }
+
+  private static readOnlyReason(entries: WeekEntry[], role: string): string | null {
+    if (entries.some(entry => !entry.endTime)) return 'A timer is running on this project'
+    if (entries.some(entry => entry.invoiceId)) return 'This time has been invoiced'
+    const frozen = role === 'ADMIN' ? undefined : entries.find(entry => !TimesheetApprovalManager.isEditableByOwner(entry.status))
+    if (frozen) return `This time is ${frozen.status.toLowerCase()} and can no longer be changed`
+    if (entries.length > 1) return `${entries.length} entries; edit them in the calendar`
+    return null
+  }
+}
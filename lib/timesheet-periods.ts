@@ -0,0 +1,263 @@
+// lib/timesheet-periods.ts
+import { prisma } from '@/lib/prisma'
+
+export type PeriodStatus = 'OPEN' | 'LOCKED' | 'CLOSED'
+
+export interface PeriodInfo {
+  year: number
+  month: number // 1-12
+  status: PeriodStatus
+  source: 'manual' | 'cutoff'
+  cutoffDate: Date | null
+  lockedAt: Date | null
+  lockedBy: string | null
+  reopenedAt: Date | null
+  reopenedBy: string | null
+  reopenReason: string | null
+}
+
+export interface LockSettings {
+  lockCutoffDay: number
+  lockCutoffMonths: number
+  autoLockEnabled: boolean
+}
+
+export const DEFAULT_LOCK_SETTINGS: LockSettings = {
+  lockCutoffDay: 15,
+  lockCutoffMonths: 1,
+  autoLockEnabled: true
+}
+
+export type PeriodAccessResult =
+  | { allowed: true }
+  | { allowed: false; error: string; period: PeriodInfo }
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+export function formatPeriodLabel(year: number, month: number): string {
+  return `${MONTH_NAMES[month - 1]} ${year}`
+}
+
+export class TimesheetPeriodManager {
+  /**
+   * Get the organization cutoff rules, falling back to defaults when none are saved
+   */
+  static async getSettings(): Promise<LockSettings> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { id: 'default' }
+    })
+
+    if (!settings) {
+      return { ...DEFAULT_LOCK_SETTINGS }
+    }
+
+    return {
+      lockCutoffDay: settings.lockCutoffDay,
+      lockCutoffMonths: settings.lockCutoffMonths,
+      autoLockEnabled: settings.autoLockEnabled
+    }
+  }
+
+  static async updateSettings(data: LockSettings, adminUserId: string): Promise<LockSettings> {
+    if (data.lockCutoffDay < 1 || data.lockCutoffDay > 28) {
+      throw new Error('Cutoff day must be between 1 and 28')
+    }
+
+    if (data.lockCutoffMonths < 0 || data.lockCutoffMonths > 12) {
+      throw new Error('Cutoff month offset must be between 0 and 12')
+    }
+
+    await prisma.organizationSettings.upsert({
+      where: { id: 'default' },
+      create: { id: 'default', ...data, updatedBy: adminUserId },
+      update: { ...data, updatedBy: adminUserId }
+    })
+
+    return this.getSettings()
+  }
+
+  /**
+   * The date after which a month is automatically locked, e.g. the 15th of the following month
+   */
+  static getCutoffDate(year: number, month: number, settings: LockSettings): Date {
+    // Day `lockCutoffDay` of the month `lockCutoffMonths` after the period, end of day
+    return new Date(year, month - 1 + settings.lockCutoffMonths, settings.lockCutoffDay, 23, 59, 59, 999)
+  }
+
+  /**
+   * Resolve the effective status of a month. An explicit admin action always wins,
+   * otherwise the cutoff rule decides whether the month is still open.
+   */
+  static resolvePeriod(
+    year: number,
+    month: number,
+    settings: LockSettings,
+    record: {
+      status: PeriodStatus
+      lockedAt: Date | null
+      lockedBy: string | null
+      reopenedAt: Date | null
+      reopenedBy: string | null
+      reopenReason: string | null
+    } | null,
+    now: Date = new Date()
+  ): PeriodInfo {
+    const cutoffDate = settings.autoLockEnabled ? this.getCutoffDate(year, month, settings) : null
+
+    if (record) {
+      return {
+        year,
+        month,
+        status: record.status,
+        source: 'manual',
+        cutoffDate,
+        lockedAt: record.lockedAt,
+        lockedBy: record.lockedBy,
+        reopenedAt: record.reopenedAt,
+        reopenedBy: record.reopenedBy,
+        reopenReason: record.reopenReason
+      }
+    }
+
+    return {
+      year,
+      month,
+      status: cutoffDate && now > cutoffDate ? 'LOCKED' : 'OPEN',
+      source: 'cutoff',
+      cutoffDate,
+      lockedAt: null,
+      lockedBy: null,
+      reopenedAt: null,
+      reopenedBy: null,
+      reopenReason: null
+    }
+  }
+
+  static async getPeriod(year: number, month: number): Promise<PeriodInfo> {
+    const [settings, record] = await Promise.all([
+      this.getSettings(),
+      prisma.timesheetPeriod.findUnique({
+        where: { year_month: { year, month } }
+      })
+    ])
+
+    return this.resolvePeriod(year, month, settings, record)
+  }
+
+  static async getPeriodForDate(date: Date): Promise<PeriodInfo> {
+    if (!date || !(date instanceof Date) || isNaN(date.getTime())) {
+      throw new Error('Invalid date provided to getPeriodForDate')
+    }
+
+    return this.getPeriod(date.getFullYear(), date.getMonth() + 1)
+  }
+
+  /**
+   * List the effective status of every month in a calendar year
+   */
+  static async getPeriodsForYear(year: number): Promise<PeriodInfo[]> {
+    const [settings, records] = await Promise.all([
+      this.getSettings(),
+      prisma.timesheetPeriod.findMany({ where: { year } })
+    ])
+
+    const recordsByMonth = new Map(records.map(record => [record.month, record]))
+
+    return Array.from({ length: 12 }, (_, index) =>
+      this.resolvePeriod(year, index + 1, settings, recordsByMonth.get(index + 1) ?? null)
+    )
+  }
+
+  /**
+   * Employees may only write to open months. Admins may also write to locked months,
+   * but closed months are final until they are reopened.
+   */
+  static isWritable(status: PeriodStatus, role: string): boolean {
+    if (status === 'OPEN') return true
+    if (status === 'LOCKED') return role === 'ADMIN'
+    return false
+  }
+
+  /**
+   * Check that every date touched by a time-entry write falls in a writable period
+   */
+  static async checkWriteAccess(dates: Array<Date | null | undefined>, role: string): Promise<PeriodAccessResult> {
+    const seen = new Set<string>()
+
+    for (const date of dates) {
+      if (!date || isNaN(date.getTime())) continue
+
+      const key = `${date.getFullYear()}-${date.getMonth() + 1}`
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      const period = await this.getPeriodForDate(date)
+
+      if (!this.isWritable(period.status, role)) {
+        const label = formatPeriodLabel(period.year, period.month)
+        const error = period.status === 'CLOSED'
+          ? `The timesheet period for ${label} is closed. An administrator must reopen it before entries can be changed.`
+          : `The timesheet period for ${label} is locked. Please contact your administrator for changes to past entries.`
+
+        return { allowed: false, error, period }
+      }
+    }
+
+    return { allowed: true }
+  }
+
+  static async lockPeriod(year: number, month: number, adminUserId: string): Promise<PeriodInfo> {
+    return this.setStatus(year, month, 'LOCKED', adminUserId)
+  }
+
+  static async closePeriod(year: number, month: number, adminUserId: string): Promise<PeriodInfo> {
+    return this.setStatus(year, month, 'CLOSED', adminUserId)
+  }
+
+  static async reopenPeriod(
+    year: number,
+    month: number,
+    adminUserId: string,
+    reason: string
+  ): Promise<PeriodInfo> {
+    if (!reason || !reason.trim()) {
+      throw new Error('A reason is required to reopen a timesheet period')
+    }
+
+    return this.setStatus(year, month, 'OPEN', adminUserId, reason.trim())
+  }
+
+  private static async setStatus(
+    year: number,
+    month: number,
+    status: PeriodStatus,
+    adminUserId: string,
+    reason?: string
+  ): Promise<PeriodInfo> {
+    if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+      throw new Error('Invalid period provided')
+    }
+
+    if (!adminUserId) {
+      throw new Error('Invalid admin user ID provided')
+    }
+
+    const now = new Date()
+    const data = status === 'OPEN'
+      ? { status, reopenedAt: now, reopenedBy: adminUserId, reopenReason: reason ?? null }
+      : { status, lockedAt: now, lockedBy: adminUserId }
+
+    await prisma.timesheetPeriod.upsert({
+      where: { year_month: { year, month } },
+      create: { year, month, ...data },
+      update: data
+    })
+
+    console.log(`Timesheet period ${year}-${month} set to ${status} by ${adminUserId}`)
+
+    return this.getPeriod(year, month)
+  }
+}
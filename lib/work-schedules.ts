@@ -0,0 +1,389 @@
+// lib/work-schedules.ts
+import { prisma } from '@/lib/prisma'
+import { AuditLogger } from '@/lib/audit-log'
+import { addDays, format, max, min, startOfDay } from 'date-fns'
+
+// Used for users without a work schedule when the organization settings have not been saved yet
+export const DEFAULT_WEEKLY_HOURS = 40
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5]
+export const DEFAULT_DAY_START = '09:00'
+export const DEFAULT_DAY_END = '17:00'
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export interface WorkScheduleInput {
+  userId: string
+  effectiveDate: Date
+  weeklyHours: number
+  workingDays: number[]
+  dayStart: string
+  dayEnd: string
+}
+
+export interface ResolvedWorkSchedule {
+  id: string | null // null for the organization default
+  effectiveDate: Date | null
+  weeklyHours: number
+  workingDays: number[]
+  dayStart: string
+  dayEnd: string
+}
+
+// A day a user is not expected to work although their schedule says so
+export interface DayOff {
+  kind: 'HOLIDAY' | 'LEAVE'
+  name: string
+}
+
+export interface WorkScheduleSummary {
+  id: string
+  userId: string
+  effectiveDate: string // yyyy-MM-dd
+  weeklyHours: number
+  workingDays: number[]
+  dayStart: string
+  dayEnd: string
+  createdAt: string
+}
+
+export interface ExpectedHoursRow {
+  user: { id: string; name: string | null; email: string }
+  schedule: Omit<WorkScheduleSummary, 'id' | 'userId' | 'createdAt' | 'effectiveDate'> & {
+    id: string | null
+    effectiveDate: string | null
+  }
+  expectedHours: number
+  timeOffHours: number // scheduled hours that fell on holidays or approved leave
+  loggedHours: number
+  differenceHours: number
+  percentOfExpected: number | null
+}
+
+export type WorkScheduleResult =
+  | { success: true; schedule: WorkScheduleSummary }
+  | { success: false; error: string; status: number }
+
+type ScheduleRecord = {
+  id: string
+  userId: string
+  effectiveDate: Date
+  weeklyHours: { toNumber(): number }
+  workingDays: number[]
+  dayStart: string
+  dayEnd: string
+  createdAt: Date
+}
+
+function toSummary(schedule: ScheduleRecord): WorkScheduleSummary {
+  return {
+    id: schedule.id,
+    userId: schedule.userId,
+    effectiveDate: format(schedule.effectiveDate, 'yyyy-MM-dd'),
+    weeklyHours: schedule.weeklyHours.toNumber(),
+    workingDays: schedule.workingDays,
+    dayStart: schedule.dayStart,
+    dayEnd: schedule.dayEnd,
+    createdAt: schedule.createdAt.toISOString()
+  }
+}
+
+function roundHours(hours: number): number {
+  return parseFloat(hours.toFixed(2))
+}
+
+/**
+ * Minutes after midnight of an HH:mm time
+ */
+export function clockMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Hours expected on one day: the weekly hours spread evenly over the working days
+ */
+export function expectedHoursOn(schedule: ResolvedWorkSchedule, day: Date): number {
+  if (!schedule.workingDays.includes(day.getDay()) || schedule.workingDays.length === 0) return 0
+  return roundHours(schedule.weeklyHours / schedule.workingDays.length)
+}
+
+/**
+ * Every schedule, holiday and approved leave day of a set of users, so that callers working
+ * across many days and users look them up without further queries
+ */
+export class WorkScheduleTimeline {
+  // Newest first
+  private readonly byUser: Map<string, ResolvedWorkSchedule[]>
+
+  constructor(
+    schedules: ScheduleRecord[],
+    private readonly fallback: ResolvedWorkSchedule,
+    // userId -> yyyy-MM-dd -> day off
+    private readonly daysOff: Map<string, Map<string, DayOff>> = new Map()
+  ) {
+    this.byUser = new Map()
+    for (const schedule of [...schedules].sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime())) {
+      this.byUser.set(schedule.userId, [
+        ...(this.byUser.get(schedule.userId) ?? []),
+        {
+          id: schedule.id,
+          effectiveDate: schedule.effectiveDate,
+          weeklyHours: schedule.weeklyHours.toNumber(),
+          workingDays: schedule.workingDays,
+          dayStart: schedule.dayStart,
+          dayEnd: schedule.dayEnd
+        }
+      ])
+    }
+  }
+
+  forDay(userId: string, day: Date): ResolvedWorkSchedule {
+    const dayStart = startOfDay(day)
+    return this.byUser.get(userId)?.find(schedule => schedule.effectiveDate! <= dayStart) ?? this.fallback
+  }
+
+  dayOff(userId: string, day: Date): DayOff | null {
+    return this.daysOff.get(userId)?.get(format(day, 'yyyy-MM-dd')) ?? null
+  }
+
+  isWorkingDay(userId: string, day: Date): boolean {
+    return this.forDay(userId, day).workingDays.includes(day.getDay()) && !this.dayOff(userId, day)
+  }
+
+  /**
+   * Hours the schedule asks for on the day, whether or not it is a holiday or leave day
+   */
+  scheduledHoursOn(userId: string, day: Date): number {
+    return expectedHoursOn(this.forDay(userId, day), day)
+  }
+
+  expectedHoursOn(userId: string, day: Date): number {
+    return this.dayOff(userId, day) ? 0 : this.scheduledHoursOn(userId, day)
+  }
+
+  /**
+   * Expected hours from the first to the last day, both included
+   */
+  expectedHoursBetween(userId: string, from: Date, to: Date): number {
+    let total = 0
+    for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+      total += this.expectedHoursOn(userId, day)
+    }
+    return roundHours(total)
+  }
+
+  /**
+   * Scheduled hours from the first to the last day that fell on holidays or leave
+   */
+  timeOffHoursBetween(userId: string, from: Date, to: Date): number {
+    let total = 0
+    for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+      if (this.dayOff(userId, day)) total += this.scheduledHoursOn(userId, day)
+    }
+    return roundHours(total)
+  }
+}
+
+export class WorkScheduleManager {
+  /**
+   * The schedule of users who have none: the reminder settings' weekly hours over Monday to Friday
+   */
+  static async getDefault(): Promise<ResolvedWorkSchedule> {
+    const settings = await prisma.organizationSettings.findUnique({
+      where: { id: 'default' },
+      select: { reminderExpectedWeeklyHours: true }
+    })
+
+    return {
+      id: null,
+      effectiveDate: null,
+      weeklyHours: settings?.reminderExpectedWeeklyHours ?? DEFAULT_WEEKLY_HOURS,
+      workingDays: DEFAULT_WORKING_DAYS,
+      dayStart: DEFAULT_DAY_START,
+      dayEnd: DEFAULT_DAY_END
+    }
+  }
+
+  /**
+   * Schedules of the users, with the holidays and approved leave between from and to
+   */
+  static async loadTimeline(userIds: string[], from: Date, to: Date): Promise<WorkScheduleTimeline> {
+    const rangeStart = startOfDay(from)
+    const [schedules, fallback, users, leave] = await Promise.all([
+      prisma.workSchedule.findMany({ where: { userId: { in: userIds } } }),
+      this.getDefault(),
+      prisma.user.findMany({
+        where: { id: { in: userIds }, holidayCalendarId: { not: null } },
+        select: {
+          id: true,
+          holidayCalendar: {
+            select: { holidays: { where: { date: { gte: rangeStart, lte: to } }, select: { date: true, name: true } } }
+          }
+        }
+      }),
+      prisma.leaveRequest.findMany({
+        where: { userId: { in: userIds }, status: 'APPROVED', startDate: { lte: to }, endDate: { gte: rangeStart } },
+        select: { userId: true, startDate: true, endDate: true, leaveType: { select: { name: true } } }
+      })
+    ])
+
+    const daysOff = new Map<string, Map<string, DayOff>>()
+    const mark = (userId: string, day: Date, dayOff: DayOff) => {
+      if (!daysOff.has(userId)) daysOff.set(userId, new Map())
+      daysOff.get(userId)!.set(format(day, 'yyyy-MM-dd'), dayOff)
+    }
+
+    for (const request of leave) {
+      const last = min([request.endDate, to])
+      for (let day = max([startOfDay(request.startDate), rangeStart]); day <= last; day = addDays(day, 1)) {
+        mark(request.userId, day, { kind: 'LEAVE', name: request.leaveType.name })
+      }
+    }
+    // A holiday wins over leave taken on the same day
+    for (const user of users) {
+      for (const holiday of user.holidayCalendar?.holidays ?? []) {
+        mark(user.id, holiday.date, { kind: 'HOLIDAY', name: holiday.name })
+      }
+    }
+
+    return new WorkScheduleTimeline(schedules, fallback, daysOff)
+  }
+
+  static async list(userId: string): Promise<WorkScheduleSummary[]> {
+    const schedules = await prisma.workSchedule.findMany({
+      where: { userId },
+      orderBy: { effectiveDate: 'desc' }
+    })
+
+    return schedules.map(toSummary)
+  }
+
+  static async create(input: WorkScheduleInput, actor: { id: string; email?: string | null }): Promise<WorkScheduleResult> {
+    const workingDays = [...new Set(input.workingDays)].sort((a, b) => a - b)
+
+    if (input.weeklyHours < 0 || input.weeklyHours > 168) {
+      return { success: false, error: 'Weekly hours must be between 0 and 168', status: 400 }
+    }
+    if (workingDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return { success: false, error: 'Working days must be between 0 (Sunday) and 6 (Saturday)', status: 400 }
+    }
+    if (input.weeklyHours > 0 && workingDays.length === 0) {
+      return { success: false, error: 'Pick at least one working day', status: 400 }
+    }
+    if (!TIME_PATTERN.test(input.dayStart) || !TIME_PATTERN.test(input.dayEnd)) {
+      return { success: false, error: 'Day start and end must be HH:mm', status: 400 }
+    }
+    if (clockMinutes(input.dayEnd) <= clockMinutes(input.dayStart)) {
+      return { success: false, error: 'The working day must end after it starts', status: 400 }
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: input.userId }, select: { id: true } })
+    if (!user) {
+      return { success: false, error: 'User not found', status: 404 }
+    }
+
+    const effectiveDate = startOfDay(input.effectiveDate)
+    const existing = await prisma.workSchedule.findUnique({
+      where: { userId_effectiveDate: { userId: input.userId, effectiveDate } }
+    })
+    if (existing) {
+      return { success: false, error: 'This user already has a schedule starting on that day', status: 409 }
+    }
+
+    const schedule = await prisma.workSchedule.create({
+      data: {
+        userId: input.userId,
+        effectiveDate,
+        weeklyHours: input.weeklyHours,
+        workingDays,
+        dayStart: input.dayStart,
+        dayEnd: input.dayEnd,
+        createdBy: actor.id
+      }
+    })
+
+    await AuditLogger.record({
+      actor,
+      action: 'CREATE',
+      entityType: 'WORK_SCHEDULE',
+      entityId: schedule.id,
+      after: toSummary(schedule),
+      metadata: { userId: input.userId }
+    })
+
+    return { success: true, schedule: toSummary(schedule) }
+  }
+
+  static async delete(scheduleId: string, actor: { id: string; email?: string | null }): Promise<{ success: true } | { success: false; error: string; status: number }> {
+    const schedule = await prisma.workSchedule.findUnique({ where: { id: scheduleId } })
+    if (!schedule) {
+      return { success: false, error: 'Schedule not found', status: 404 }
+    }
+
+    await prisma.workSchedule.delete({ where: { id: scheduleId } })
+
+    await AuditLogger.record({
+      actor,
+      action: 'DELETE',
+      entityType: 'WORK_SCHEDULE',
+      entityId: schedule.id,
+      before: toSummary(schedule),
+      metadata: { userId: schedule.userId }
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Logged against expected hours per active user. Expected hours leave out holidays and approved
+   * leave, and only count days from when the account was created up to today, so a range reaching
+   * into the future is not held against anyone.
+   */
+  static async getExpectedHoursReport(from: Date, to: Date, now: Date = new Date()): Promise<ExpectedHoursRow[]> {
+    const users = await prisma.user.findMany({
+      where: { active: true },
+      select: { id: true, name: true, email: true, createdAt: true },
+      orderBy: { name: 'asc' }
+    })
+
+    const rangeStart = startOfDay(from)
+    const rangeEnd = min([to, now])
+    const [timeline, logged] = await Promise.all([
+      this.loadTimeline(users.map(user => user.id), rangeStart, rangeEnd),
+      prisma.timeEntry.groupBy({
+        by: ['userId'],
+        where: {
+          userId: { in: users.map(user => user.id) },
+          startTime: { gte: rangeStart, lte: to },
+          endTime: { not: null }
+        },
+        _sum: { duration: true }
+      })
+    ])
+    const loggedMinutes = new Map(logged.map(row => [row.userId, row._sum.duration ?? 0]))
+
+    return users.map(user => {
+      const schedule = timeline.forDay(user.id, rangeEnd)
+      const firstDay = max([rangeStart, startOfDay(user.createdAt)])
+      const expectedHours = timeline.expectedHoursBetween(user.id, firstDay, rangeEnd)
+      const loggedHours = roundHours((loggedMinutes.get(user.id) ?? 0) / 60)
+
+      return {
+        user: { id: user.id, name: user.name, email: user.email },
+        schedule: {
+          id: schedule.id,
+          effectiveDate: schedule.effectiveDate ? format(schedule.effectiveDate, 'yyyy-MM-dd') : null,
+          weeklyHours: schedule.weeklyHours,
+          workingDays: schedule.workingDays,
+          dayStart: schedule.dayStart,
+          dayEnd: schedule.dayEnd
+        },
+        expectedHours,
+        timeOffHours: timeline.timeOffHoursBetween(user.id, firstDay, rangeEnd),
+        loggedHours,
+        differenceHours: roundHours(loggedHours - expectedHours),
+        percentOfExpected: expectedHours > 0 ? Math.round((loggedHours / expectedHours) * 100) : null
+      }
+    })
+  }
+}
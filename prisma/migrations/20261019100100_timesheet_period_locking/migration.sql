@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "TimesheetPeriodStatus" AS ENUM ('OPEN', 'LOCKED', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "Project" DROP COLUMN "description",
+ADD COLUMN     "code" TEXT;
+
+-- CreateTable
+CREATE TABLE "TimesheetPeriod" (
+    "id" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "status" "TimesheetPeriodStatus" NOT NULL DEFAULT 'OPEN',
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "reopenedAt" TIMESTAMP(3),
+    "reopenedBy" TEXT,
+    "reopenReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TimesheetPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrganizationSettings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "lockCutoffDay" INTEGER NOT NULL DEFAULT 15,
+    "lockCutoffMonths" INTEGER NOT NULL DEFAULT 1,
+    "autoLockEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrganizationSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimesheetPeriod_year_month_key" ON "TimesheetPeriod"("year", "month");
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "ApprovalStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "TimeEntry" ADD COLUMN     "reviewComment" TEXT,
+ADD COLUMN     "status" "ApprovalStatus" NOT NULL DEFAULT 'DRAFT',
+ADD COLUMN     "submissionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TimesheetSubmission" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "weekStart" TIMESTAMP(3) NOT NULL,
+    "weekEnd" TIMESTAMP(3) NOT NULL,
+    "status" "ApprovalStatus" NOT NULL DEFAULT 'SUBMITTED',
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "reviewComment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TimesheetSubmission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimesheetSubmission_userId_weekStart_key" ON "TimesheetSubmission"("userId", "weekStart");
+
+-- AddForeignKey
+ALTER TABLE "TimeEntry" ADD CONSTRAINT "TimeEntry_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "TimesheetSubmission"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimesheetSubmission" ADD CONSTRAINT "TimesheetSubmission_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: entries logged before approvals existed count as approved, so spend and summaries keep including them
+UPDATE "TimeEntry" SET "status" = 'APPROVED';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "OrganizationSettings" ADD COLUMN     "fiscalYearStartMonth" INTEGER NOT NULL DEFAULT 4;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "ProjectBudget" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fiscalYear" INTEGER NOT NULL,
+    "totalBudget" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "q1Budget" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "q2Budget" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "q3Budget" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "q4Budget" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "q1Spent" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "q2Spent" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "q3Spent" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "q4Spent" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProjectBudget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProjectBudgetMonth" (
+    "id" TEXT NOT NULL,
+    "projectBudgetId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ProjectBudgetMonth_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectBudget_fiscalYear_idx" ON "ProjectBudget"("fiscalYear");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectBudget_projectId_fiscalYear_key" ON "ProjectBudget"("projectId", "fiscalYear");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectBudgetMonth_projectBudgetId_year_month_key" ON "ProjectBudgetMonth"("projectBudgetId", "year", "month");
+
+-- AddForeignKey
+ALTER TABLE "ProjectBudget" ADD CONSTRAINT "ProjectBudget_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectBudgetMonth" ADD CONSTRAINT "ProjectBudgetMonth_projectBudgetId_fkey" FOREIGN KEY ("projectBudgetId") REFERENCES "ProjectBudget"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "OrganizationSettings" ADD COLUMN     "budgetAlertEmailEnabled" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "budgetAlertThresholds" INTEGER[] DEFAULT ARRAY[75, 90, 100]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "BudgetAlert" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fiscalYear" INTEGER NOT NULL,
+    "quarter" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "utilization" DECIMAL(7,2) NOT NULL,
+    "spent" DECIMAL(12,2) NOT NULL,
+    "budget" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BudgetAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BudgetAlert_projectId_fiscalYear_quarter_threshold_key" ON "BudgetAlert"("projectId", "fiscalYear", "quarter", "threshold");
+
+-- AddForeignKey
+ALTER TABLE "BudgetAlert" ADD CONSTRAINT "BudgetAlert_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
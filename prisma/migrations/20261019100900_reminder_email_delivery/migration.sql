@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "ReminderStatus" AS ENUM ('SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "OrganizationSettings" ADD COLUMN     "reminderCooldownHours" INTEGER NOT NULL DEFAULT 24;
+
+-- CreateTable
+CREATE TABLE "ReminderTemplate" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReminderTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReminderLog" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "templateKey" TEXT NOT NULL,
+    "issue" TEXT,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "transport" TEXT NOT NULL,
+    "status" "ReminderStatus" NOT NULL,
+    "error" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'MANUAL',
+    "sentById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReminderLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReminderTemplate_key_key" ON "ReminderTemplate"("key");
+
+-- CreateIndex
+CREATE INDEX "ReminderLog_userId_createdAt_idx" ON "ReminderLog"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReminderLog" ADD CONSTRAINT "ReminderLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReminderLog" ADD CONSTRAINT "ReminderLog_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
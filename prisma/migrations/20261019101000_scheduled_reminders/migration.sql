@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ReminderRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "ReminderLog" ADD COLUMN     "runId" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrganizationSettings" ADD COLUMN     "reminderExemptUserIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "reminderExpectedWeeklyHours" INTEGER NOT NULL DEFAULT 40,
+ADD COLUMN     "reminderMissingDaysThreshold" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "reminderScheduleEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reminderScheduleFrequency" TEXT NOT NULL DEFAULT 'DAILY',
+ADD COLUMN     "reminderScheduleHour" INTEGER NOT NULL DEFAULT 9,
+ADD COLUMN     "reminderScheduleWeekday" INTEGER NOT NULL DEFAULT 5;
+
+-- CreateTable
+CREATE TABLE "ReminderRun" (
+    "id" TEXT NOT NULL,
+    "slotKey" TEXT,
+    "trigger" TEXT NOT NULL,
+    "status" "ReminderRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "checkedUsers" INTEGER NOT NULL DEFAULT 0,
+    "sentCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "details" JSONB,
+    "error" TEXT,
+    "triggeredBy" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReminderRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReminderRun_slotKey_key" ON "ReminderRun"("slotKey");
+
+-- CreateIndex
+CREATE INDEX "ReminderRun_startedAt_idx" ON "ReminderRun"("startedAt");
+
+-- AddForeignKey
+ALTER TABLE "ReminderLog" ADD CONSTRAINT "ReminderLog_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ReminderRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
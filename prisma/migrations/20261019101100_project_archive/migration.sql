@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "archivedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrganizationSettings" ADD COLUMN     "projectTrashRetentionDays" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateIndex
+CREATE INDEX "Project_archivedAt_idx" ON "Project"("archivedAt");
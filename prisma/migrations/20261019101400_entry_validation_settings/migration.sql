@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "OrganizationSettings" ADD COLUMN     "entryAllowFuture" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "entryMaxDailyHours" INTEGER NOT NULL DEFAULT 16;
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "EntryTemplate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "durationMinutes" INTEGER NOT NULL,
+    "billable" BOOLEAN NOT NULL DEFAULT true,
+    "recurrenceDays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "recurrenceTime" TEXT,
+    "recurrenceStart" TIMESTAMP(3),
+    "recurrenceEnd" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EntryTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EntryTemplateOccurrence" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "timeEntryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EntryTemplateOccurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EntryTemplate_userId_idx" ON "EntryTemplate"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EntryTemplateOccurrence_templateId_date_key" ON "EntryTemplateOccurrence"("templateId", "date");
+
+-- AddForeignKey
+ALTER TABLE "EntryTemplate" ADD CONSTRAINT "EntryTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntryTemplate" ADD CONSTRAINT "EntryTemplate_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntryTemplate" ADD CONSTRAINT "EntryTemplate_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EntryTemplateOccurrence" ADD CONSTRAINT "EntryTemplateOccurrence_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "EntryTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "OvertimePolicy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "dailyThresholdHours" DECIMAL(5,2),
+    "weeklyThresholdHours" DECIMAL(5,2),
+    "overtimeMultiplier" DECIMAL(4,2) NOT NULL DEFAULT 1.5,
+    "weekendMultiplier" DECIMAL(4,2) NOT NULL DEFAULT 1,
+    "holidayMultiplier" DECIMAL(4,2) NOT NULL DEFAULT 1,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OvertimePolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OvertimePolicy_effectiveDate_key" ON "OvertimePolicy"("effectiveDate");
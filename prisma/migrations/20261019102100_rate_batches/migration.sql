@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RateHistory" ADD COLUMN     "batchId" TEXT;